@@ -16,10 +16,16 @@ import {
   GoogleCallback,
   StudentDashboard,
   StudentPackages,
+  FlashcardReview,
+  MasteryMap,
   ProjectsList,
   ProjectDetail,
+  TutorDirectory,
+  TutorDetail,
   TeacherDashboard,
   TutorDashboard,
+  TutorEarnings,
+  GuardianDashboard,
   AdminDashboard,
   AdminUsers,
   AdminSchools,
@@ -27,12 +33,19 @@ import {
   AdminTeachers,
   AdminSections,
   AdminDailyPackages,
+  AdminReviews,
+  AdminCertificates,
+  AdminPayouts,
+  AdminAnalytics,
   Conversations,
   Chat,
   Profile,
   NotFound,
   Unauthorized,
   SharedConversation,
+  Bookings,
+  Recordings,
+  SessionPlayback,
 } from './pages';
 
 function App() {
@@ -112,6 +125,10 @@ function App() {
           >
             <Route path="/dashboard/student" element={<Navigate to="/chat" replace />} />
             <Route path="/student/packages" element={<StudentPackages />} />
+            <Route path="/student/flashcards" element={<FlashcardReview />} />
+            <Route path="/student/mastery" element={<MasteryMap />} />
+            <Route path="/tutors" element={<TutorDirectory />} />
+            <Route path="/tutors/:tutorId" element={<TutorDetail />} />
             <Route path="/ask" element={<Navigate to="/chat" replace />} />
           </Route>
 
@@ -147,6 +164,18 @@ function App() {
             }
           >
             <Route path="/dashboard/tutor" element={<TutorDashboard />} />
+            <Route path="/tutor/earnings" element={<TutorEarnings />} />
+          </Route>
+
+          {/* Guardian Routes */}
+          <Route
+            element={
+              <ProtectedRoute allowedRoles={[Role.GUARDIAN]}>
+                <Layout />
+              </ProtectedRoute>
+            }
+          >
+            <Route path="/guardian" element={<GuardianDashboard />} />
           </Route>
 
           {/* Admin-only Routes (ADMIN only — Schools, Conversations) */}
@@ -159,6 +188,9 @@ function App() {
           >
             <Route path="/admin/schools" element={<AdminSchools />} />
             <Route path="/admin/conversations" element={<AdminConversations />} />
+            <Route path="/admin/reviews" element={<AdminReviews />} />
+            <Route path="/admin/certificates" element={<AdminCertificates />} />
+            <Route path="/admin/payouts" element={<AdminPayouts />} />
           </Route>
 
           {/* Administrator-only Routes (school subjects/sections) */}
@@ -184,6 +216,7 @@ function App() {
             <Route path="/admin" element={<AdminDashboard />} />
             <Route path="/admin/users" element={<AdminUsers />} />
             <Route path="/admin/teachers" element={<AdminTeachers />} />
+            <Route path="/admin/analytics" element={<AdminAnalytics />} />
           </Route>
 
           {/* Shared Protected Routes (Student & Tutor) */}
@@ -196,12 +229,15 @@ function App() {
           >
             <Route path="/conversations" element={<Conversations />} />
             <Route path="/conversations/:id" element={<Chat />} />
+            <Route path="/bookings" element={<Bookings />} />
+            <Route path="/recordings" element={<Recordings />} />
+            <Route path="/recordings/:sessionId" element={<SessionPlayback />} />
           </Route>
 
           {/* Profile (All authenticated users) */}
           <Route
             element={
-              <ProtectedRoute allowedRoles={[Role.STUDENT, Role.TEACHER, Role.TUTOR, Role.ADMIN, Role.ADMINISTRATOR]}>
+              <ProtectedRoute allowedRoles={[Role.STUDENT, Role.TEACHER, Role.TUTOR, Role.ADMIN, Role.ADMINISTRATOR, Role.GUARDIAN]}>
                 <Layout />
               </ProtectedRoute>
             }
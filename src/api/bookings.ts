@@ -0,0 +1,105 @@
+import api from './client';
+import { unwrapData } from './unwrap';
+import {
+  AcceptSessionResponse,
+  BookableTutor,
+  BookingStatus,
+  CreateBookingRequest,
+  SessionBooking,
+  Subject,
+  TutorBookingAvailability,
+} from '../types';
+
+// ============================================
+// Session Bookings API
+// ============================================
+
+export interface GetBookingsParams {
+  // UPCOMING: not yet ended; PAST: ended, cancelled or declined
+  scope?: 'UPCOMING' | 'PAST';
+  status?: BookingStatus;
+}
+
+export interface RescheduleBookingRequest {
+  startAt: string;
+  durationMinutes: number;
+}
+
+export const bookingsApi = {
+  // =====================
+  // Student Endpoints
+  // =====================
+
+  // Tutors who accept bookings, optionally filtered by subject
+  getBookableTutors: async (subject?: Subject): Promise<BookableTutor[]> => {
+    const response = await api.get('/bookings/tutors', { params: subject ? { subject } : undefined });
+    return unwrapData<BookableTutor[]>(response.data);
+  },
+
+  // Tutor hours and booked intervals between two dates (YYYY-MM-DD, inclusive)
+  getTutorAvailability: async (tutorId: string, from: string, to: string): Promise<TutorBookingAvailability> => {
+    const response = await api.get(`/bookings/tutors/${tutorId}/availability`, { params: { from, to } });
+    return unwrapData<TutorBookingAvailability>(response.data);
+  },
+
+  // Request a slot (PENDING until the tutor confirms)
+  createBooking: async (data: CreateBookingRequest): Promise<SessionBooking> => {
+    const response = await api.post('/bookings', data);
+    return unwrapData<SessionBooking>(response.data);
+  },
+
+  // Tutor session for a booking whose slot has started (room created on first join)
+  joinBooking: async (bookingId: string): Promise<{ tutorSessionId: string }> => {
+    const response = await api.post(`/bookings/${bookingId}/join`);
+    return unwrapData<{ tutorSessionId: string }>(response.data);
+  },
+
+  // =====================
+  // Shared Endpoints
+  // =====================
+
+  // Bookings for the current user (student or tutor side)
+  getMyBookings: async (params?: GetBookingsParams): Promise<SessionBooking[]> => {
+    const response = await api.get('/bookings', { params });
+    return unwrapData<SessionBooking[]>(response.data);
+  },
+
+  // Propose a new time; the other party accepts or rejects it
+  rescheduleBooking: async (bookingId: string, data: RescheduleBookingRequest): Promise<SessionBooking> => {
+    const response = await api.post(`/bookings/${bookingId}/reschedule`, data);
+    return unwrapData<SessionBooking>(response.data);
+  },
+
+  // Accept or reject the other party's proposed time
+  respondToReschedule: async (bookingId: string, accept: boolean): Promise<SessionBooking> => {
+    const response = await api.post(`/bookings/${bookingId}/reschedule/respond`, { accept });
+    return unwrapData<SessionBooking>(response.data);
+  },
+
+  cancelBooking: async (bookingId: string, reason?: string): Promise<SessionBooking> => {
+    const response = await api.post(`/bookings/${bookingId}/cancel`, { reason });
+    return unwrapData<SessionBooking>(response.data);
+  },
+
+  // =====================
+  // Tutor Endpoints
+  // =====================
+
+  confirmBooking: async (bookingId: string): Promise<SessionBooking> => {
+    const response = await api.post(`/bookings/${bookingId}/confirm`);
+    return unwrapData<SessionBooking>(response.data);
+  },
+
+  declineBooking: async (bookingId: string, reason?: string): Promise<SessionBooking> => {
+    const response = await api.post(`/bookings/${bookingId}/decline`, { reason });
+    return unwrapData<SessionBooking>(response.data);
+  },
+
+  // Open the booked session as its tutor (same payload as accepting a help request)
+  startBooking: async (bookingId: string): Promise<AcceptSessionResponse> => {
+    const response = await api.post(`/bookings/${bookingId}/start`);
+    return unwrapData<AcceptSessionResponse>(response.data);
+  },
+};
+
+export default bookingsApi;
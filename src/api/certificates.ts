@@ -0,0 +1,57 @@
+import api from './client';
+import { unwrapData } from './unwrap';
+import {
+  Certificate,
+  CertificateReviewItem,
+  CertificateStatus,
+  RejectCertificateRequest,
+} from '../types';
+
+// ============================================
+// Certificate Verification API (Admin)
+// ============================================
+
+export interface GetCertificateQueueResponse {
+  items: CertificateReviewItem[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export const certificatesApi = {
+  // Certificates by review state, oldest submission first
+  getQueue: async (params?: {
+    status?: CertificateStatus;
+    search?: string;
+    page?: number;
+    limit?: number;
+  }): Promise<GetCertificateQueueResponse> => {
+    const response = await api.get('/admin/certificates', { params });
+    return unwrapData<GetCertificateQueueResponse>(response.data);
+  },
+
+  // Approved certificates that expire within the window, including already expired ones
+  getExpiring: async (withinDays: number): Promise<CertificateReviewItem[]> => {
+    const response = await api.get('/admin/certificates/expiring', { params: { withinDays } });
+    return unwrapData<CertificateReviewItem[]>(response.data);
+  },
+
+  // Marks the certificate verified; the tutor's profile badge is recalculated server-side
+  approveCertificate: async (certificateId: string, note?: string): Promise<Certificate> => {
+    const response = await api.post(`/admin/certificates/${certificateId}/approve`, { note });
+    return unwrapData<Certificate>(response.data);
+  },
+
+  rejectCertificate: async (certificateId: string, data: RejectCertificateRequest): Promise<Certificate> => {
+    const response = await api.post(`/admin/certificates/${certificateId}/reject`, data);
+    return unwrapData<Certificate>(response.data);
+  },
+
+  // Ask the tutor to upload a renewed copy of an expiring certificate
+  sendExpiryReminder: async (certificateId: string): Promise<void> => {
+    await api.post(`/admin/certificates/${certificateId}/remind`);
+  },
+};
+
+export default certificatesApi;
@@ -1,6 +1,15 @@
 import api from './client';
 import { unwrapData } from './unwrap';
-import { DailyPackageUpload, DailyPackageUploadDetail } from '../types';
+import {
+  DailyPackageUpload,
+  DailyPackageUploadDetail,
+  PackageQuizResults,
+  UpdatePackageDraftRequest,
+  PackageSchedule,
+  UploadReminder,
+  CreateUploadReminderRequest,
+  UpdateUploadReminderRequest,
+} from '../types';
 
 export interface UploadResponse {
   uploadId: string;
@@ -9,10 +18,12 @@ export interface UploadResponse {
 
 export const dailyPackageApi = {
   // Upload question images - TEACHER or ADMINISTRATOR
-  uploadQuestions: async (sectionId: string, subject: string, images: File[]): Promise<UploadResponse> => {
+  uploadQuestions: async (sectionId: string, subject: string, images: File[], schedule?: PackageSchedule): Promise<UploadResponse> => {
     const formData = new FormData();
     formData.append('sectionId', sectionId);
     formData.append('subject', subject);
+    if (schedule?.packageDate) formData.append('packageDate', schedule.packageDate);
+    if (schedule?.publishAt) formData.append('publishAt', schedule.publishAt);
     images.forEach((img) => {
       formData.append('files', img);
     });
@@ -32,6 +43,14 @@ export const dailyPackageApi = {
     return unwrapData<{ data: DailyPackageUpload[]; total: number; page: number; limit: number }>(response.data);
   },
 
+  // Uploads whose packageDate falls in [from, to] - for the calendar view
+  getUploadCalendar: async (from: string, to: string): Promise<DailyPackageUpload[]> => {
+    const response = await api.get<DailyPackageUpload[]>('/daily-package/uploads/calendar', {
+      params: { from, to },
+    });
+    return unwrapData<DailyPackageUpload[]>(response.data);
+  },
+
   // Get upload detail (includes extracted questions, images)
   getUploadDetail: async (id: string): Promise<DailyPackageUploadDetail> => {
     const response = await api.get<DailyPackageUploadDetail>(`/daily-package/uploads/${id}`);
@@ -43,6 +62,50 @@ export const dailyPackageApi = {
     const response = await api.post<UploadResponse>(`/daily-package/uploads/${id}/retry`);
     return unwrapData<UploadResponse>(response.data);
   },
+
+  // Save edits to a draft upload (questions, quiz, summary)
+  updateDraft: async (id: string, data: UpdatePackageDraftRequest): Promise<DailyPackageUploadDetail> => {
+    const response = await api.put<DailyPackageUploadDetail>(`/daily-package/uploads/${id}/draft`, data);
+    return unwrapData<DailyPackageUploadDetail>(response.data);
+  },
+
+  // Approve a draft upload - its packages become visible to students
+  approveUpload: async (id: string): Promise<DailyPackageUploadDetail> => {
+    const response = await api.post<DailyPackageUploadDetail>(`/daily-package/uploads/${id}/approve`);
+    return unwrapData<DailyPackageUploadDetail>(response.data);
+  },
+
+  // Change the package date / release time of an upload that hasn't been published yet
+  rescheduleUpload: async (id: string, schedule: PackageSchedule): Promise<DailyPackageUpload> => {
+    const response = await api.put<DailyPackageUpload>(`/daily-package/uploads/${id}/schedule`, schedule);
+    return unwrapData<DailyPackageUpload>(response.data);
+  },
+
+  // Upload reminders - TEACHER (own sections)
+  getReminders: async (): Promise<UploadReminder[]> => {
+    const response = await api.get<UploadReminder[]>('/daily-package/reminders');
+    return unwrapData<UploadReminder[]>(response.data);
+  },
+
+  createReminder: async (data: CreateUploadReminderRequest): Promise<UploadReminder> => {
+    const response = await api.post<UploadReminder>('/daily-package/reminders', data);
+    return unwrapData<UploadReminder>(response.data);
+  },
+
+  updateReminder: async (id: string, data: UpdateUploadReminderRequest): Promise<UploadReminder> => {
+    const response = await api.patch<UploadReminder>(`/daily-package/reminders/${id}`, data);
+    return unwrapData<UploadReminder>(response.data);
+  },
+
+  deleteReminder: async (id: string): Promise<void> => {
+    await api.delete(`/daily-package/reminders/${id}`);
+  },
+
+  // Section-wide quiz results for one generated package - TEACHER or ADMINISTRATOR
+  getPackageQuizResults: async (packageId: string): Promise<PackageQuizResults> => {
+    const response = await api.get<PackageQuizResults>(`/daily-package/packages/${packageId}/quiz-results`);
+    return unwrapData<PackageQuizResults>(response.data);
+  },
 };
 
 export default dailyPackageApi;
@@ -0,0 +1,78 @@
+import api from './client';
+import { unwrapData } from './unwrap';
+import {
+  EarningsActivity,
+  EarningsDispute,
+  EarningsDisputeReviewItem,
+  FlagEarningsDisputeRequest,
+  PayoutBatch,
+  PayoutBatchStatus,
+  TutorPayout,
+} from '../types';
+
+// ============================================
+// Tutor Earnings & Payouts API
+// ============================================
+
+export const earningsApi = {
+  // Completed sessions and calls between two ISO dates (from inclusive, to exclusive)
+  getActivity: async (params: { from: string; to: string }): Promise<EarningsActivity> => {
+    const response = await api.get('/earnings/activity', { params });
+    return unwrapData<EarningsActivity>(response.data);
+  },
+
+  flagDispute: async (data: FlagEarningsDisputeRequest): Promise<EarningsDispute> => {
+    const response = await api.post('/earnings/disputes', data);
+    return unwrapData<EarningsDispute>(response.data);
+  },
+
+  // Only open disputes can be withdrawn
+  withdrawDispute: async (disputeId: string): Promise<void> => {
+    await api.delete(`/earnings/disputes/${disputeId}`);
+  },
+
+  getMyPayouts: async (): Promise<TutorPayout[]> => {
+    const response = await api.get('/earnings/payouts');
+    return unwrapData<TutorPayout[]>(response.data);
+  },
+
+  // ============ Admin ============
+
+  getPayoutBatches: async (params?: { status?: PayoutBatchStatus }): Promise<PayoutBatch[]> => {
+    const response = await api.get('/admin/payouts', { params });
+    return unwrapData<PayoutBatch[]>(response.data);
+  },
+
+  // Totals every tutor's undisputed work in the period; fails if the period overlaps another batch
+  createPayoutBatch: async (data: { periodStart: string; periodEnd: string }): Promise<PayoutBatch> => {
+    const response = await api.post('/admin/payouts', data);
+    return unwrapData<PayoutBatch>(response.data);
+  },
+
+  approvePayoutBatch: async (batchId: string): Promise<PayoutBatch> => {
+    const response = await api.post(`/admin/payouts/${batchId}/approve`);
+    return unwrapData<PayoutBatch>(response.data);
+  },
+
+  // Rejected batches release their sessions so a corrected batch can be created
+  rejectPayoutBatch: async (batchId: string, note: string): Promise<PayoutBatch> => {
+    const response = await api.post(`/admin/payouts/${batchId}/reject`, { note });
+    return unwrapData<PayoutBatch>(response.data);
+  },
+
+  getOpenDisputes: async (): Promise<EarningsDisputeReviewItem[]> => {
+    const response = await api.get('/admin/payouts/disputes');
+    return unwrapData<EarningsDisputeReviewItem[]>(response.data);
+  },
+
+  // Omit adjustedSeconds to keep the recorded duration
+  resolveDispute: async (
+    disputeId: string,
+    data: { adjustedSeconds?: number; note?: string }
+  ): Promise<EarningsDispute> => {
+    const response = await api.post(`/admin/payouts/disputes/${disputeId}/resolve`, data);
+    return unwrapData<EarningsDispute>(response.data);
+  },
+};
+
+export default earningsApi;
@@ -0,0 +1,97 @@
+import api from './client';
+import { unwrapData } from './unwrap';
+import {
+  Flashcard,
+  FlashcardReview,
+  FlashcardGrade,
+  FlashcardSchedule,
+  FlashcardSource,
+  FlashcardStats,
+  CreateFlashcardRequest,
+} from '../types';
+
+// ============================================
+// Flashcards API
+// ============================================
+
+export interface GetFlashcardsParams {
+  page?: number;
+  limit?: number;
+  source?: FlashcardSource;
+  search?: string;
+}
+
+export interface GetFlashcardsResponse {
+  cards: Flashcard[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export interface CreateFlashcardsResponse {
+  created: Flashcard[];
+  // Cards whose sourceId was already in the deck
+  skipped: number;
+}
+
+export interface ReviewFlashcardRequest extends FlashcardSchedule {
+  grade: FlashcardGrade;
+  durationMs?: number;
+}
+
+export const flashcardsApi = {
+  // List the student's deck
+  getCards: async (params?: GetFlashcardsParams): Promise<GetFlashcardsResponse> => {
+    const response = await api.get('/flashcards', { params });
+    return unwrapData<GetFlashcardsResponse>(response.data);
+  },
+
+  // Cards due now (oldest due first)
+  getDueCards: async (limit = 50): Promise<Flashcard[]> => {
+    const response = await api.get('/flashcards/due', { params: { limit } });
+    return unwrapData<Flashcard[]>(response.data);
+  },
+
+  // Deck counters for the review page header
+  getStats: async (): Promise<FlashcardStats> => {
+    const response = await api.get('/flashcards/stats');
+    return unwrapData<FlashcardStats>(response.data);
+  },
+
+  // Add one or more cards (duplicates by sourceId are skipped server-side)
+  createCards: async (cards: CreateFlashcardRequest[]): Promise<CreateFlashcardsResponse> => {
+    const response = await api.post('/flashcards', { cards });
+    return unwrapData<CreateFlashcardsResponse>(response.data);
+  },
+
+  // Turn a generated project quiz message into cards
+  importProjectQuiz: async (projectId: string, messageId: string): Promise<CreateFlashcardsResponse> => {
+    const response = await api.post('/flashcards/import/project-quiz', { projectId, messageId });
+    return unwrapData<CreateFlashcardsResponse>(response.data);
+  },
+
+  // Edit card text
+  updateCard: async (cardId: string, data: { front?: string; back?: string }): Promise<Flashcard> => {
+    const response = await api.patch(`/flashcards/${cardId}`, data);
+    return unwrapData<Flashcard>(response.data);
+  },
+
+  deleteCard: async (cardId: string): Promise<void> => {
+    await api.delete(`/flashcards/${cardId}`);
+  },
+
+  // Record a review with the schedule computed on the client
+  reviewCard: async (cardId: string, data: ReviewFlashcardRequest): Promise<Flashcard> => {
+    const response = await api.post(`/flashcards/${cardId}/reviews`, data);
+    return unwrapData<Flashcard>(response.data);
+  },
+
+  // Review history for one card (newest first)
+  getCardHistory: async (cardId: string): Promise<FlashcardReview[]> => {
+    const response = await api.get(`/flashcards/${cardId}/reviews`);
+    return unwrapData<FlashcardReview[]>(response.data);
+  },
+};
+
+export default flashcardsApi;
@@ -0,0 +1,42 @@
+import api from './client';
+import { unwrapData } from './unwrap';
+import { CreateLearningGoalRequest, LearningActivity, LearningGoal } from '../types';
+
+// ============================================
+// Learning Goals API
+// ============================================
+
+export const goalsApi = {
+  getGoals: async (): Promise<LearningGoal[]> => {
+    const response = await api.get('/goals');
+    return unwrapData<LearningGoal[]>(response.data);
+  },
+
+  createGoal: async (data: CreateLearningGoalRequest): Promise<LearningGoal> => {
+    const response = await api.post('/goals', data);
+    return unwrapData<LearningGoal>(response.data);
+  },
+
+  updateGoal: async (goalId: string, data: Partial<CreateLearningGoalRequest>): Promise<LearningGoal> => {
+    const response = await api.patch(`/goals/${goalId}`, data);
+    return unwrapData<LearningGoal>(response.data);
+  },
+
+  deleteGoal: async (goalId: string): Promise<void> => {
+    await api.delete(`/goals/${goalId}`);
+  },
+
+  // Raw activity since `from`; goal progress is computed client-side
+  getActivity: async (from: string): Promise<LearningActivity[]> => {
+    const response = await api.get('/goals/activity', { params: { from } });
+    return unwrapData<LearningActivity[]>(response.data);
+  },
+
+  // Every day with any activity as yyyy-mm-dd in `timezone`, for streaks
+  getActiveDays: async (timezone: string): Promise<string[]> => {
+    const response = await api.get('/goals/active-days', { params: { timezone } });
+    return unwrapData<string[]>(response.data);
+  },
+};
+
+export default goalsApi;
@@ -0,0 +1,63 @@
+import api from './client';
+import { unwrapData } from './unwrap';
+import {
+  GuardianLink,
+  GuardianOverview,
+  GuardianSharing,
+  GuardianStudent,
+  GuardianWeeklyDigest,
+  InviteGuardianRequest,
+} from '../types';
+
+// ============================================
+// Guardian Portal API
+// ============================================
+
+export const guardiansApi = {
+  // ============ Student ============
+
+  getMyGuardians: async (): Promise<GuardianLink[]> => {
+    const response = await api.get('/guardians/links');
+    return unwrapData<GuardianLink[]>(response.data);
+  },
+
+  // Emails an invitation that is accepted through /accept-invitation like staff invites
+  inviteGuardian: async (data: InviteGuardianRequest): Promise<GuardianLink> => {
+    const response = await api.post('/guardians/links', data);
+    return unwrapData<GuardianLink>(response.data);
+  },
+
+  updateSharing: async (linkId: string, sharing: GuardianSharing): Promise<GuardianLink> => {
+    const response = await api.patch(`/guardians/links/${linkId}`, { sharing });
+    return unwrapData<GuardianLink>(response.data);
+  },
+
+  resendInvitation: async (linkId: string): Promise<void> => {
+    await api.post(`/guardians/links/${linkId}/resend-invitation`);
+  },
+
+  // The guardian loses access immediately; their account stays
+  revokeGuardian: async (linkId: string): Promise<void> => {
+    await api.delete(`/guardians/links/${linkId}`);
+  },
+
+  // ============ Guardian ============
+
+  getStudents: async (): Promise<GuardianStudent[]> => {
+    const response = await api.get('/guardian/students');
+    return unwrapData<GuardianStudent[]>(response.data);
+  },
+
+  getOverview: async (studentId: string): Promise<GuardianOverview> => {
+    const response = await api.get(`/guardian/students/${studentId}/overview`);
+    return unwrapData<GuardianOverview>(response.data);
+  },
+
+  // weekStart is any ISO date in the wanted week; defaults to the last complete week
+  getWeeklyDigest: async (studentId: string, weekStart?: string): Promise<GuardianWeeklyDigest> => {
+    const response = await api.get(`/guardian/students/${studentId}/digest`, { params: { weekStart } });
+    return unwrapData<GuardianWeeklyDigest>(response.data);
+  },
+};
+
+export default guardiansApi;
@@ -11,8 +11,16 @@ export { studentProfileApi, tutorProfileApi, profileApi } from './profiles';
 export { geminiChatApi } from './geminiChat';
 export { tutorSessionApi } from './tutorSession';
 export { projectsApi } from './projects';
+export { flashcardsApi } from './flashcards';
+export { bookingsApi } from './bookings';
+export { reviewsApi } from './reviews';
+export { certificatesApi } from './certificates';
+export { earningsApi } from './earnings';
+export { guardiansApi } from './guardians';
 
 
 
 
 
+export { goalsApi } from './goals';
+export { masteryApi } from './mastery';
@@ -0,0 +1,17 @@
+import api from './client';
+import { unwrapData } from './unwrap';
+import { MasterySignal, Subject } from '../types';
+
+// ============================================
+// Mastery API
+// ============================================
+
+export const masteryApi = {
+  // Raw signals for the signed-in student; the topic graph is built client-side
+  getSignals: async (params?: { subject?: Subject; from?: string }): Promise<MasterySignal[]> => {
+    const response = await api.get('/mastery/signals', { params });
+    return unwrapData<MasterySignal[]>(response.data);
+  },
+};
+
+export default masteryApi;
@@ -16,6 +16,8 @@ export interface SendMessageData {
   content: string;
   messageType: MessageType;
   conversationId?: string;
+  // New conversations only: offer it to this tutor before the general queue
+  preferredTutorId?: string;
 }
 
 export interface SendMessageResponse {
@@ -1,6 +1,6 @@
 import api from './client';
 import { unwrapData } from './unwrap';
-import { StudentDailyPackage } from '../types';
+import { StudentDailyPackage, QuizAttempt, SubmitQuizAttemptRequest } from '../types';
 
 export const packagesApi = {
   // Get daily packages - STUDENT only
@@ -24,6 +24,24 @@ export const packagesApi = {
     const response = await api.get<{ url: string }>(`/packages/${id}/download`);
     return unwrapData<{ url: string }>(response.data);
   },
+
+  // Record a quiz attempt for a package - STUDENT only
+  submitQuizAttempt: async (packageId: string, data: SubmitQuizAttemptRequest): Promise<QuizAttempt> => {
+    const response = await api.post<QuizAttempt>(`/packages/${packageId}/quiz/attempts`, data);
+    return unwrapData<QuizAttempt>(response.data);
+  },
+
+  // Student's own attempts on one package (newest first)
+  getQuizAttempts: async (packageId: string): Promise<QuizAttempt[]> => {
+    const response = await api.get<QuizAttempt[]>(`/packages/${packageId}/quiz/attempts`);
+    return unwrapData<QuizAttempt[]>(response.data);
+  },
+
+  // Student's attempt history across packages, with package info attached
+  getQuizHistory: async (params?: { from?: string; to?: string; limit?: number }): Promise<QuizAttempt[]> => {
+    const response = await api.get<QuizAttempt[]>('/packages/quiz/attempts', { params });
+    return unwrapData<QuizAttempt[]>(response.data);
+  },
 };
 
 export default packagesApi;
@@ -1,5 +1,21 @@
 import api from './client';
-import { ApiResponse, StudentProfile, TutorProfile, User } from '../types';
+import { AcademicLevel, ApiResponse, StudentProfile, TeachingStyle, TutorProfile, User } from '../types';
+
+// Comma-separated lists for subjects/languages
+export interface ListTutorsParams {
+  subjects?: string;
+  languages?: string;
+  academicLevel?: AcademicLevel;
+  teachingStyle?: TeachingStyle;
+  minRating?: number;
+  maxHourlyRate?: number;
+  verified?: boolean;
+  // Online now or inside scheduled hours
+  availableNow?: boolean;
+  search?: string;
+  page?: number;
+  limit?: number;
+}
 
 // Student Profile API
 export const studentProfileApi = {
@@ -30,14 +46,8 @@ export const tutorProfileApi = {
   getProfileById: (id: string) =>
     api.get<ApiResponse<TutorProfile>>(`/profiles/tutor/${id}`),
 
-  // List verified tutors
-  listTutors: (params?: {
-    subjects?: string;
-    minRating?: number;
-    maxHourlyRate?: number;
-    page?: number;
-    limit?: number;
-  }) =>
+  // List tutors for the student directory
+  listTutors: (params?: ListTutorsParams) =>
     api.get<ApiResponse<{ data: TutorProfile[]; pagination: { page: number; limit: number; total: number; totalPages: number } }>>('/profiles/tutors', { params }),
 
   // Add certificate
@@ -51,12 +61,13 @@ export const tutorProfileApi = {
     api.post<ApiResponse<TutorProfile>>('/profiles/tutor/certificates', data),
 
   // Upload certificate document
-  uploadCertificate: (file: File, data: { name: string; issuedBy: string; issuedDate?: string }) => {
+  uploadCertificate: (file: File, data: { name: string; issuedBy: string; issuedDate?: string; expiryDate?: string }) => {
     const formData = new FormData();
     formData.append('file', file);
     formData.append('name', data.name);
     formData.append('issuedBy', data.issuedBy);
     if (data.issuedDate) formData.append('issuedDate', data.issuedDate);
+    if (data.expiryDate) formData.append('expiryDate', data.expiryDate);
     
     return api.post<ApiResponse<TutorProfile>>('/profiles/tutor/certificates/upload', formData, {
       headers: { 'Content-Type': 'multipart/form-data' },
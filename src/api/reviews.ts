@@ -0,0 +1,89 @@
+import api from './client';
+import { unwrapData } from './unwrap';
+import {
+  CreateReviewRequest,
+  ReviewFlag,
+  ReviewFlagStatus,
+  TutorReview,
+  TutorReviewSummary,
+} from '../types';
+
+// ============================================
+// Tutor Reviews API
+// ============================================
+
+export interface GetTutorReviewsResponse {
+  reviews: TutorReview[];
+  summary: TutorReviewSummary;
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export interface GetReviewFlagsResponse {
+  flags: ReviewFlag[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export const reviewsApi = {
+  // =====================
+  // Student Endpoints
+  // =====================
+
+  // Rate a finished tutor session or conversation (one review each)
+  createReview: async (data: CreateReviewRequest): Promise<TutorReview> => {
+    const response = await api.post('/reviews', data);
+    return unwrapData<TutorReview>(response.data);
+  },
+
+  // =====================
+  // Public Endpoints
+  // =====================
+
+  // Reviews shown on a tutor's profile, newest first
+  getTutorReviews: async (
+    tutorId: string,
+    params?: { page?: number; limit?: number }
+  ): Promise<GetTutorReviewsResponse> => {
+    const response = await api.get(`/reviews/tutor/${tutorId}`, { params });
+    return unwrapData<GetTutorReviewsResponse>(response.data);
+  },
+
+  // =====================
+  // Tutor Endpoints
+  // =====================
+
+  // Report a review to admins
+  flagReview: async (reviewId: string, reason: string): Promise<TutorReview> => {
+    const response = await api.post(`/reviews/${reviewId}/flag`, { reason });
+    return unwrapData<TutorReview>(response.data);
+  },
+
+  // =====================
+  // Admin Endpoints
+  // =====================
+
+  getFlags: async (params?: {
+    status?: ReviewFlagStatus;
+    page?: number;
+    limit?: number;
+  }): Promise<GetReviewFlagsResponse> => {
+    const response = await api.get('/reviews/flags', { params });
+    return unwrapData<GetReviewFlagsResponse>(response.data);
+  },
+
+  // REMOVED hides the review and recalculates the tutor's rating
+  resolveFlag: async (
+    flagId: string,
+    data: { status: Exclude<ReviewFlagStatus, 'OPEN'>; note?: string }
+  ): Promise<ReviewFlag> => {
+    const response = await api.patch(`/reviews/flags/${flagId}`, data);
+    return unwrapData<ReviewFlag>(response.data);
+  },
+};
+
+export default reviewsApi;
@@ -1,5 +1,6 @@
 import api from './client';
 import { unwrapData } from './unwrap';
+import { SchoolAnalytics, SchoolAnalyticsQuery } from '../types';
 
 export interface School {
   id: string;
@@ -71,6 +72,12 @@ export const schoolsApi = {
     const response = await api.get(`/admin/schools/${schoolId}/students`);
     return unwrapData<SchoolStudent[]>(response.data);
   },
+
+  // Activity time series, optionally narrowed to a grade or section - ADMIN or ADMINISTRATOR
+  getSchoolAnalytics: async (schoolId: string, params: SchoolAnalyticsQuery): Promise<SchoolAnalytics> => {
+    const response = await api.get(`/admin/schools/${schoolId}/analytics`, { params });
+    return unwrapData<SchoolAnalytics>(response.data);
+  },
 };
 
 export default schoolsApi;
@@ -1,6 +1,6 @@
 import api from './client';
 import { unwrapData } from './unwrap';
-import { Teacher, TeacherSection } from '../types';
+import { AnalyticsQuery, SectionAnalytics, Teacher, TeacherSection } from '../types';
 
 export const teachersApi = {
   // List teachers - ADMIN/ADMINISTRATOR
@@ -33,6 +33,12 @@ export const teachersApi = {
     const response = await api.get<TeacherSection[]>('/teachers/me/sections');
     return unwrapData<TeacherSection[]>(response.data);
   },
+
+  // Aggregated AI questions and package engagement for one assigned section - TEACHER only
+  getSectionAnalytics: async (sectionId: string, subject: string, params: AnalyticsQuery): Promise<SectionAnalytics> => {
+    const response = await api.get(`/teachers/me/sections/${sectionId}/analytics`, { params: { subject, ...params } });
+    return unwrapData<SectionAnalytics>(response.data);
+  },
 };
 
 export default teachersApi;
@@ -8,6 +8,13 @@ import {
   DailyRoom,
   AIUrgency,
   AvailableTutor,
+  TutorAvailabilitySummary,
+  SessionRecordingState,
+  SessionRecording,
+  SessionRecordingSummary,
+  WhiteboardSnapshot,
+  WhiteboardData,
+  SessionAttachment,
 } from '../types';
 
 // ============================================
@@ -146,7 +153,7 @@ export const tutorSessionApi = {
   // Save whiteboard data
   saveWhiteboard: async (
     sessionId: string,
-    whiteboardData: { elements: unknown[]; appState?: unknown }
+    whiteboardData: WhiteboardData
   ): Promise<{ success: boolean }> => {
     const response = await api.put(
       `/tutor-session/${sessionId}/whiteboard`,
@@ -155,6 +162,51 @@ export const tutorSessionApi = {
     return unwrapData<{ success: boolean }>(response.data);
   },
 
+  // Save a new whiteboard version (history and recording playback)
+  saveWhiteboardSnapshot: async (
+    sessionId: string,
+    whiteboardData: WhiteboardData
+  ): Promise<WhiteboardSnapshot> => {
+    const response = await api.post(
+      `/tutor-session/${sessionId}/whiteboard/snapshots`,
+      { whiteboardData }
+    );
+    return unwrapData<WhiteboardSnapshot>(response.data);
+  },
+
+  // All whiteboard versions, oldest first
+  getWhiteboardSnapshots: async (
+    sessionId: string
+  ): Promise<WhiteboardSnapshot[]> => {
+    const response = await api.get(`/tutor-session/${sessionId}/whiteboard/snapshots`);
+    return unwrapData<WhiteboardSnapshot[]>(response.data);
+  },
+
+  // Attach an exported whiteboard to the session summary
+  attachWhiteboardExport: async (
+    sessionId: string,
+    file: File,
+    snapshotId?: string
+  ): Promise<SessionAttachment> => {
+    const formData = new FormData();
+    formData.append('file', file);
+    if (snapshotId) formData.append('snapshotId', snapshotId);
+    const response = await api.post(
+      `/tutor-session/${sessionId}/attachments`,
+      formData,
+      { headers: { 'Content-Type': 'multipart/form-data' } }
+    );
+    return unwrapData<SessionAttachment>(response.data);
+  },
+
+  // Files attached to the session summary
+  getSessionAttachments: async (
+    sessionId: string
+  ): Promise<SessionAttachment[]> => {
+    const response = await api.get(`/tutor-session/${sessionId}/attachments`);
+    return unwrapData<SessionAttachment[]>(response.data);
+  },
+
   // Save Daily.co meeting data (chat, recordings, etc.)
   saveDailyMeetingData: async (
     sessionId: string,
@@ -173,6 +225,67 @@ export const tutorSessionApi = {
     return unwrapData<{ success: boolean }>(response.data);
   },
 
+  // =====================
+  // Recording Endpoints
+  // =====================
+
+  // Current consent and recording status
+  getRecordingState: async (
+    sessionId: string
+  ): Promise<SessionRecordingState> => {
+    const response = await api.get(`/tutor-session/${sessionId}/recording`);
+    return unwrapData<SessionRecordingState>(response.data);
+  },
+
+  // Tutor asks the student for permission to record
+  requestRecordingConsent: async (
+    sessionId: string
+  ): Promise<SessionRecordingState> => {
+    const response = await api.post(`/tutor-session/${sessionId}/recording/consent-request`);
+    return unwrapData<SessionRecordingState>(response.data);
+  },
+
+  // Student answers the consent request
+  respondToRecordingConsent: async (
+    sessionId: string,
+    granted: boolean
+  ): Promise<SessionRecordingState> => {
+    const response = await api.put(
+      `/tutor-session/${sessionId}/recording/consent`,
+      { granted }
+    );
+    return unwrapData<SessionRecordingState>(response.data);
+  },
+
+  // Starts Daily cloud recording (requires GRANTED consent)
+  startRecording: async (
+    sessionId: string
+  ): Promise<SessionRecordingState> => {
+    const response = await api.post(`/tutor-session/${sessionId}/recording/start`);
+    return unwrapData<SessionRecordingState>(response.data);
+  },
+
+  stopRecording: async (
+    sessionId: string
+  ): Promise<SessionRecordingState> => {
+    const response = await api.post(`/tutor-session/${sessionId}/recording/stop`);
+    return unwrapData<SessionRecordingState>(response.data);
+  },
+
+  // Recordings of sessions the current user took part in, newest first
+  getRecordings: async (): Promise<SessionRecordingSummary[]> => {
+    const response = await api.get('/tutor-session/recordings');
+    return unwrapData<SessionRecordingSummary[]>(response.data);
+  },
+
+  // Recording with the chat and whiteboard snapshots for playback
+  getRecording: async (
+    sessionId: string
+  ): Promise<SessionRecording> => {
+    const response = await api.get(`/tutor-session/recordings/${sessionId}`);
+    return unwrapData<SessionRecording>(response.data);
+  },
+
   // =====================
   // Multi-Tutor Endpoints
   // =====================
@@ -189,16 +302,29 @@ export const tutorSessionApi = {
     return unwrapData<{ success: boolean; message: string }>(response.data);
   },
 
-  // Get available tutors to invite
+  // Get available tutors to invite; includeScheduled also returns offline
+  // tutors with their schedules so the picker can show who is coming online
   getAvailableTutors: async (
-    sessionId: string
+    sessionId: string,
+    options?: { includeScheduled?: boolean }
   ): Promise<AvailableTutor[]> => {
     const response = await api.get(
-      `/tutor-session/${sessionId}/available-tutors`
+      `/tutor-session/${sessionId}/available-tutors`,
+      { params: options?.includeScheduled ? { includeScheduled: true } : undefined }
     );
     return unwrapData<AvailableTutor[]>(response.data);
   },
 
+  // Tutors matching a pending request, with schedules (student wait ETA)
+  getTutorAvailability: async (
+    sessionId: string
+  ): Promise<TutorAvailabilitySummary[]> => {
+    const response = await api.get(
+      `/tutor-session/${sessionId}/tutor-availability`
+    );
+    return unwrapData<TutorAvailabilitySummary[]>(response.data);
+  },
+
   // Get Daily.co meeting data for a session
   getDailyMeetingData: async (
     sessionId: string
@@ -0,0 +1,162 @@
+import { EyeOff } from 'lucide-react';
+import { AnalyticsGranularity, AskTimelinePoint, PackageEngagement } from '../../types';
+import {
+  PRIVACY_THRESHOLD,
+  formatBucketLabel,
+  formatRate,
+  packageRates,
+  suppressSmallGroups,
+  suppressTimeline,
+} from './analytics';
+
+// Always shown, so the note itself doesn't reveal whether anything was held back
+function HiddenNote() {
+  return (
+    <p className="flex items-center gap-1.5 text-[11px] text-gray-500 mt-3">
+      <EyeOff className="w-3 h-3" />
+      Groups with fewer than {PRIVACY_THRESHOLD} students are not shown.
+    </p>
+  );
+}
+
+// Horizontal bars for keywords or subjects, small groups held back
+export function AskCountBars({ rows, limit = 10 }: {
+  rows: { label: string; questions: number; students: number }[];
+  limit?: number;
+}) {
+  const { visible } = suppressSmallGroups(rows);
+  const shown = visible.slice(0, limit);
+  const max = Math.max(1, ...shown.map((row) => row.questions));
+
+  return (
+    <div>
+      {shown.length === 0 ? (
+        <p className="text-sm text-gray-500">Not enough activity to show yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {shown.map((row) => (
+            <div key={row.label}>
+              <div className="flex items-center justify-between text-xs mb-1">
+                <span className="text-gray-300 truncate">{row.label}</span>
+                <span className="text-gray-500 shrink-0 ml-2">{row.questions} · {row.students} students</span>
+              </div>
+              <div className="h-1.5 bg-[#2c2d32] rounded-full overflow-hidden">
+                <div className="h-full bg-primary-500/70 rounded-full" style={{ width: `${(row.questions / max) * 100}%` }} />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+      <HiddenNote />
+    </div>
+  );
+}
+
+export function AskTimeline({ points, granularity }: { points: AskTimelinePoint[]; granularity?: AnalyticsGranularity }) {
+  const buckets = suppressTimeline(points);
+  const max = Math.max(1, ...buckets.map((b) => b.questions));
+
+  if (buckets.length === 0) {
+    return <p className="text-sm text-gray-500">No questions in this range.</p>;
+  }
+
+  return (
+    <div>
+      <div className="flex items-end gap-1 h-28">
+        {buckets.map((bucket) => (
+          <div
+            key={bucket.date}
+            className="flex-1 h-full flex items-end"
+            title={`${formatBucketLabel(bucket.date, granularity)}: ${bucket.hidden ? `hidden (fewer than ${PRIVACY_THRESHOLD} students)` : `${bucket.questions} questions`}`}
+          >
+            <div
+              className={`w-full rounded-t ${bucket.hidden ? 'bg-gray-700/60' : 'bg-primary-500/60'}`}
+              style={{ height: bucket.hidden ? '4px' : `${(bucket.questions / max) * 100}%` }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between text-[10px] text-gray-500 mt-1">
+        <span>{formatBucketLabel(buckets[0].date, granularity)}</span>
+        <span>{formatBucketLabel(buckets[buckets.length - 1].date, granularity)}</span>
+      </div>
+    </div>
+  );
+}
+
+export function PackageEngagementTable({ packages }: { packages: PackageEngagement[] }) {
+  if (packages.length === 0) {
+    return <p className="text-sm text-gray-500">No packages released in this range.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-gray-500 text-left">
+            <th className="font-medium pb-2">Date</th>
+            <th className="font-medium pb-2">Subject</th>
+            <th className="font-medium pb-2 text-right">Opened</th>
+            <th className="font-medium pb-2 text-right">Downloaded</th>
+            <th className="font-medium pb-2 text-right">Took quiz</th>
+            <th className="font-medium pb-2 text-right">Avg score</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-700/40">
+          {packages.map((pkg) => {
+            const rates = packageRates(pkg);
+            return (
+              <tr key={pkg.packageId} className="text-gray-300">
+                <td className="py-2">{new Date(pkg.packageDate).toLocaleDateString()}</td>
+                <td className="py-2">{pkg.subject.replace(/_/g, ' ')}</td>
+                <td className="py-2 text-right">{formatRate(rates.openRate)}</td>
+                <td className="py-2 text-right">{formatRate(rates.downloadRate)}</td>
+                <td className="py-2 text-right">{formatRate(rates.quizRate)}</td>
+                <td className={`py-2 text-right ${rates.averagePercent === null ? '' : rates.averagePercent >= 70 ? 'text-emerald-400' : rates.averagePercent >= 40 ? 'text-amber-400' : 'text-red-400'}`}>
+                  {rates.averagePercent === null ? '—' : `${Math.round(rates.averagePercent)}%`}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <p className="text-[11px] text-gray-500 mt-2">Figures show — when fewer than {PRIVACY_THRESHOLD} students are involved.</p>
+    </div>
+  );
+}
+
+// Bars per day/week for one metric; gaps show where there was nothing to measure
+export function TimeSeriesChart({ points, granularity, format }: {
+  points: { date: string; value: number | null }[];
+  granularity?: AnalyticsGranularity;
+  format: (value: number | null) => string;
+}) {
+  const max = Math.max(0, ...points.map((p) => p.value ?? 0));
+
+  if (points.length === 0) {
+    return <p className="text-sm text-gray-500">No data in this range.</p>;
+  }
+
+  return (
+    <div>
+      <div className="flex items-end gap-0.5 h-24">
+        {points.map((point) => (
+          <div
+            key={point.date}
+            className="flex-1 h-full flex items-end"
+            title={`${formatBucketLabel(point.date, granularity)}: ${format(point.value)}`}
+          >
+            <div
+              className="w-full bg-primary-500/60 rounded-t"
+              style={{ height: max > 0 && point.value !== null ? `${(point.value / max) * 100}%` : '0' }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between text-[10px] text-gray-500 mt-1">
+        <span>{formatBucketLabel(points[0].date, granularity)}</span>
+        <span>{formatBucketLabel(points[points.length - 1].date, granularity)}</span>
+      </div>
+    </div>
+  );
+}
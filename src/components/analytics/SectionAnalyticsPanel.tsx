@@ -0,0 +1,132 @@
+import { useState, useEffect } from 'react';
+import { MessageSquare, Users, Tag, TrendingUp, Package, Lock } from 'lucide-react';
+import { teachersApi } from '../../api';
+import { SectionAnalytics, TeacherSection } from '../../types';
+import { Spinner } from '../ui/Loading';
+import toast from 'react-hot-toast';
+import { AskCountBars, AskTimeline, PackageEngagementTable } from './AnalyticsCharts';
+import { AnalyticsRangePreset, PRIVACY_THRESHOLD, RANGE_PRESETS, isGroupTooSmall, rangeForPreset, summarizeSection } from './analytics';
+
+interface SectionAnalyticsPanelProps {
+  assignment: TeacherSection;
+}
+
+function Card({ title, icon: Icon, children }: { title: string; icon: React.ComponentType<{ className?: string }>; children: React.ReactNode }) {
+  return (
+    <div className="bg-[#25262b] border border-gray-700/50 rounded-lg p-5">
+      <h2 className="text-base font-semibold text-gray-200 flex items-center gap-2 mb-4">
+        <Icon className="w-4 h-4 text-primary-600" />
+        {title}
+      </h2>
+      {children}
+    </div>
+  );
+}
+
+// What one section's students have been asking the AI, and how its packages land
+export function SectionAnalyticsPanel({ assignment }: SectionAnalyticsPanelProps) {
+  const [preset, setPreset] = useState<AnalyticsRangePreset>('30d');
+  const [subjectFilter, setSubjectFilter] = useState<string>('');
+  const [analytics, setAnalytics] = useState<SectionAnalytics | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    teachersApi.getSectionAnalytics(assignment.sectionId, assignment.subject, rangeForPreset(preset))
+      .then((data) => { if (!cancelled) setAnalytics(data); })
+      .catch(() => { if (!cancelled) toast.error('Failed to load analytics'); })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [assignment.sectionId, assignment.subject, preset]);
+
+  const granularity = RANGE_PRESETS.find((p) => p.value === preset)?.granularity;
+  const summary = analytics ? summarizeSection(analytics) : null;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex gap-1 bg-[#2c2d32] rounded-lg p-1 w-fit">
+        {RANGE_PRESETS.map((option) => (
+          <button
+            key={option.value}
+            onClick={() => setPreset(option.value)}
+            className={`px-3 py-1.5 text-sm font-medium rounded-md transition-all ${preset === option.value ? 'bg-[#25262b] text-gray-100 shadow-sm' : 'text-gray-500 hover:text-gray-300'}`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12"><Spinner size="lg" /></div>
+      ) : !analytics || !summary ? null : isGroupTooSmall(analytics.studentCount) ? (
+        <div className="text-center py-12 text-gray-400">
+          <Lock className="w-10 h-10 mx-auto mb-3 text-gray-600" />
+          <p className="font-medium text-gray-300">Not enough students for analytics</p>
+          <p className="text-sm mt-1">
+            Sections need at least {PRIVACY_THRESHOLD} students so nobody can be singled out.
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+            <div className="bg-[#25262b] border border-gray-700/50 rounded-lg p-4 text-center">
+              <p
+                className="text-2xl font-bold text-gray-100"
+                title={summary.questions === null ? `Not shown while some groups have fewer than ${PRIVACY_THRESHOLD} students` : undefined}
+              >
+                {summary.questions ?? '—'}
+              </p>
+              <p className="text-xs text-gray-500 flex items-center justify-center gap-1"><MessageSquare className="w-3 h-3" /> AI questions</p>
+            </div>
+            <div className="bg-[#25262b] border border-gray-700/50 rounded-lg p-4 text-center">
+              <p className="text-2xl font-bold text-gray-100">{analytics.studentCount}</p>
+              <p className="text-xs text-gray-500 flex items-center justify-center gap-1"><Users className="w-3 h-3" /> Students</p>
+            </div>
+            <div className="bg-[#25262b] border border-gray-700/50 rounded-lg p-4 text-center">
+              <p className="text-2xl font-bold text-gray-100">{summary.keywords}</p>
+              <p className="text-xs text-gray-500 flex items-center justify-center gap-1"><Tag className="w-3 h-3" /> Keywords</p>
+            </div>
+            <div className="bg-[#25262b] border border-gray-700/50 rounded-lg p-4 text-center">
+              <p className="text-2xl font-bold text-gray-100">{analytics.packages.length}</p>
+              <p className="text-xs text-gray-500 flex items-center justify-center gap-1"><Package className="w-3 h-3" /> Packages</p>
+            </div>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-6">
+            <Card title="Most-asked topics" icon={Tag}>
+              <select
+                value={subjectFilter}
+                onChange={(e) => setSubjectFilter(e.target.value)}
+                className="input w-auto text-xs py-1 mb-4"
+              >
+                <option value="">All subjects</option>
+                {summary.subjects.map((s) => (
+                  <option key={s.subject} value={s.subject}>{s.subject.replace(/_/g, ' ')}</option>
+                ))}
+              </select>
+              <AskCountBars
+                rows={analytics.topics
+                  .filter((t) => !subjectFilter || t.subject === subjectFilter)
+                  .map((t) => ({ label: t.keyword, questions: t.questions, students: t.students }))}
+              />
+            </Card>
+            <Card title="By subject" icon={MessageSquare}>
+              <AskCountBars rows={analytics.subjects.map((s) => ({ label: s.subject.replace(/_/g, ' '), questions: s.questions, students: s.students }))} />
+            </Card>
+          </div>
+
+          <Card title="Questions over time" icon={TrendingUp}>
+            <AskTimeline points={analytics.timeline} granularity={granularity} />
+          </Card>
+
+          <Card title="Daily packages" icon={Package}>
+            <PackageEngagementTable packages={analytics.packages} />
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default SectionAnalyticsPanel;
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import { packageRates, rangeForPreset, summarizeSection, suppressSmallGroups, suppressTimeline } from './analytics'
+import { Subject, type PackageEngagement, type SectionAnalytics } from '../../types'
+
+describe('privacy threshold', () => {
+  it('hides groups with fewer than five students and sorts the rest', () => {
+    const result = suppressSmallGroups([
+      { keyword: 'fractions', questions: 12, students: 5 },
+      { keyword: 'ratios', questions: 30, students: 2 },
+      { keyword: 'decimals', questions: 20, students: 8 },
+    ])
+    expect(result.visible.map((r) => r.keyword)).toEqual(['decimals', 'fractions'])
+    expect(result.hiddenRows).toBe(1)
+    expect(result).not.toHaveProperty('hiddenQuestions')
+  })
+
+  it('blanks small timeline buckets but keeps empty ones', () => {
+    const points = suppressTimeline([
+      { date: '2026-03-02', questions: 9, students: 3 },
+      { date: '2026-03-03', questions: 0, students: 0 },
+      { date: '2026-03-04', questions: 14, students: 6 },
+    ])
+    expect(points.map((p) => [p.questions, p.hidden])).toEqual([[0, true], [0, false], [14, false]])
+  })
+
+  it('withholds package scores until enough students attempted', () => {
+    const pkg: PackageEngagement = {
+      packageId: 'p', packageDate: '2026-03-02', subject: 'MATHEMATICS',
+      recipients: 20, opened: 15, downloaded: 5, quizAttempted: 4, averagePercent: 81,
+    }
+    expect(packageRates(pkg)).toEqual({ openRate: 0.75, downloadRate: 0.25, quizRate: 0.2, averagePercent: null })
+    expect(packageRates({ ...pkg, recipients: 3 }).openRate).toBeNull()
+  })
+})
+
+describe('summarizeSection', () => {
+  const analytics: SectionAnalytics = {
+    sectionId: 's', subject: 'MATHEMATICS', studentCount: 20, from: '2026-03-01', to: '2026-03-07',
+    subjects: [
+      { subject: Subject.MATHEMATICS, questions: 40, students: 12 },
+      { subject: Subject.PHYSICS, questions: 25, students: 6 },
+    ],
+    topics: [
+      { keyword: 'fractions', subject: Subject.MATHEMATICS, questions: 12, students: 5 },
+      { keyword: 'optics', subject: Subject.PHYSICS, questions: 3, students: 1 },
+    ],
+    timeline: [
+      { date: '2026-03-02', questions: 30, students: 9 },
+      { date: '2026-03-03', questions: 35, students: 11 },
+    ],
+    packages: [],
+  }
+
+  it('counts only groups that clear the threshold', () => {
+    expect(summarizeSection(analytics)).toEqual({ questions: 65, keywords: 1, subjects: analytics.subjects })
+  })
+
+  it('withholds the total when any subject or bucket is hidden', () => {
+    const smallSubject = { ...analytics, subjects: [...analytics.subjects, { subject: Subject.CHEMISTRY, questions: 4, students: 2 }] }
+    expect(summarizeSection(smallSubject)).toMatchObject({ questions: null, subjects: analytics.subjects })
+    const smallBucket = { ...analytics, timeline: [...analytics.timeline, { date: '2026-03-04', questions: 2, students: 1 }] }
+    expect(summarizeSection(smallBucket).questions).toBeNull()
+  })
+})
+
+describe('rangeForPreset', () => {
+  it('starts the range at local midnight and picks a granularity', () => {
+    const now = new Date(2026, 2, 10, 15)
+    const range = rangeForPreset('7d', now)
+    expect(new Date(range.from)).toEqual(new Date(2026, 2, 4))
+    expect(rangeForPreset('90d', now).granularity).toBe('WEEK')
+  })
+})
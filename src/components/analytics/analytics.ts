@@ -0,0 +1,111 @@
+import {
+  AnalyticsGranularity,
+  AnalyticsQuery,
+  AskTimelinePoint,
+  PackageEngagement,
+  SectionAnalytics,
+  SubjectAskCount,
+} from '../../types';
+
+// Smallest group of distinct students any figure may describe
+export const PRIVACY_THRESHOLD = 5;
+
+export type AnalyticsRangePreset = '7d' | '30d' | '90d';
+
+export const RANGE_PRESETS: { value: AnalyticsRangePreset; label: string; days: number; granularity: AnalyticsGranularity }[] = [
+  { value: '7d', label: 'Last 7 days', days: 7, granularity: 'DAY' },
+  { value: '30d', label: 'Last 30 days', days: 30, granularity: 'DAY' },
+  { value: '90d', label: 'Last 90 days', days: 90, granularity: 'WEEK' },
+];
+
+export interface SuppressedRows<T> {
+  visible: T[];
+  // Rows held back because too few students were involved. Their question
+  // counts are not totalled: with one hidden row that total is the row itself.
+  hiddenRows: number;
+}
+
+// Headline figures for a section, built only from groups that may be shown
+export interface SectionSummary {
+  // Null whenever a subject or timeline bucket is held back: comparing any
+  // total with the visible bars would give away the hidden part
+  questions: number | null;
+  keywords: number;
+  subjects: SubjectAskCount[];
+}
+
+export interface PackageRates {
+  openRate: number | null;
+  downloadRate: number | null;
+  quizRate: number | null;
+  averagePercent: number | null;
+}
+
+export function rangeForPreset(preset: AnalyticsRangePreset, now: Date = new Date()): AnalyticsQuery {
+  const option = RANGE_PRESETS.find((p) => p.value === preset) ?? RANGE_PRESETS[0];
+  const from = new Date(now.getFullYear(), now.getMonth(), now.getDate() - option.days + 1);
+  return { from: from.toISOString(), to: now.toISOString(), granularity: option.granularity };
+}
+
+// A whole group this small can't be reported on at all
+export function isGroupTooSmall(studentCount: number, threshold = PRIVACY_THRESHOLD): boolean {
+  return studentCount < threshold;
+}
+
+export function suppressSmallGroups<T extends { questions: number; students: number }>(
+  rows: T[],
+  threshold = PRIVACY_THRESHOLD,
+): SuppressedRows<T> {
+  const result: SuppressedRows<T> = { visible: [], hiddenRows: 0 };
+  for (const row of rows) {
+    if (row.students >= threshold) {
+      result.visible.push(row);
+    } else {
+      result.hiddenRows += 1;
+    }
+  }
+  result.visible.sort((a, b) => b.questions - a.questions);
+  return result;
+}
+
+// Timeline buckets keep their place on the axis but lose their count when too small
+export function suppressTimeline(points: AskTimelinePoint[], threshold = PRIVACY_THRESHOLD): (AskTimelinePoint & { hidden: boolean })[] {
+  return points.map((point) => {
+    const hidden = point.students > 0 && point.students < threshold;
+    return { ...point, questions: hidden ? 0 : point.questions, hidden };
+  });
+}
+
+export function summarizeSection(analytics: SectionAnalytics, threshold = PRIVACY_THRESHOLD): SectionSummary {
+  const subjects = suppressSmallGroups(analytics.subjects, threshold);
+  const timelineHidden = suppressTimeline(analytics.timeline, threshold).some((point) => point.hidden);
+  return {
+    questions: subjects.hiddenRows > 0 || timelineHidden
+      ? null
+      : subjects.visible.reduce((sum, s) => sum + s.questions, 0),
+    keywords: suppressSmallGroups(analytics.topics, threshold).visible.length,
+    subjects: subjects.visible,
+  };
+}
+
+// Rates out of the students the package went to; scores need enough attempts
+export function packageRates(pkg: PackageEngagement, threshold = PRIVACY_THRESHOLD): PackageRates {
+  if (pkg.recipients < threshold) {
+    return { openRate: null, downloadRate: null, quizRate: null, averagePercent: null };
+  }
+  return {
+    openRate: pkg.opened / pkg.recipients,
+    downloadRate: pkg.downloaded / pkg.recipients,
+    quizRate: pkg.quizAttempted / pkg.recipients,
+    averagePercent: pkg.quizAttempted >= threshold ? pkg.averagePercent : null,
+  };
+}
+
+export function formatRate(rate: number | null): string {
+  return rate === null ? '—' : `${Math.round(rate * 100)}%`;
+}
+
+export function formatBucketLabel(date: string, granularity: AnalyticsGranularity = 'DAY'): string {
+  const label = new Date(date).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+  return granularity === 'WEEK' ? `Week of ${label}` : label;
+}
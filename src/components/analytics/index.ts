@@ -0,0 +1,25 @@
+export { SectionAnalyticsPanel } from './SectionAnalyticsPanel';
+export { AskCountBars, AskTimeline, PackageEngagementTable, TimeSeriesChart } from './AnalyticsCharts';
+export { printSchoolAnalytics } from './printSchoolAnalytics';
+export {
+  PRIVACY_THRESHOLD,
+  RANGE_PRESETS,
+  rangeForPreset,
+  isGroupTooSmall,
+  suppressSmallGroups,
+  suppressTimeline,
+  summarizeSection,
+  packageRates,
+  formatRate,
+  formatBucketLabel,
+} from './analytics';
+export type { AnalyticsRangePreset, SuppressedRows, SectionSummary, PackageRates } from './analytics';
+export {
+  SCHOOL_METRICS,
+  formatSeconds,
+  summarizeSchoolAnalytics,
+  schoolAnalyticsToCsv,
+  schoolAnalyticsFilename,
+  bucketLabel,
+} from './schoolAnalytics';
+export type { SchoolMetricKey, SchoolMetric, SchoolSummary } from './schoolAnalytics';
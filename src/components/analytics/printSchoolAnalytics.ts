@@ -0,0 +1,67 @@
+import { SchoolAnalytics } from '../../types';
+import { escapeHtml, printHtml } from '../export';
+import { SCHOOL_METRICS, SchoolMetric, bucketLabel, summarizeSchoolAnalytics } from './schoolAnalytics';
+
+// ============================================
+// Print-ready school report (Save as PDF)
+// ============================================
+//
+// Summary figures, a small bar chart per metric and the underlying table,
+// printed through the shared hidden-iframe helper.
+
+const PRINT_STYLES = `
+  @page { margin: 14mm; }
+  body { margin: 0; font-family: Georgia, 'Times New Roman', serif; font-size: 10pt; color: #1a1a1a; }
+  h1 { font-size: 16pt; margin: 0 0 2px; }
+  h2 { font-size: 11pt; margin: 0 0 6px; }
+  .meta { color: #555; margin: 0 0 14px; }
+  .summary { display: grid; grid-template-columns: repeat(3, 1fr); gap: 8px; margin-bottom: 16px; }
+  .summary div { border: 1px solid #ddd; padding: 8px; }
+  .summary strong { display: block; font-size: 14pt; }
+  .charts { display: grid; grid-template-columns: repeat(2, 1fr); gap: 12px; margin-bottom: 16px; }
+  .chart { break-inside: avoid; }
+  table { width: 100%; border-collapse: collapse; break-before: page; }
+  th, td { border-bottom: 1px solid #ddd; padding: 4px 5px; text-align: right; }
+  th:first-child, td:first-child { text-align: left; }
+  th { font-size: 8.5pt; text-transform: uppercase; color: #555; }
+`;
+
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 90;
+
+function chartSvg(analytics: SchoolAnalytics, metric: SchoolMetric): string {
+  const values = analytics.points.map(metric.value);
+  const max = Math.max(0, ...values.map((v) => v ?? 0));
+  const slot = CHART_WIDTH / Math.max(1, values.length);
+  const bars = values.map((value, i) => {
+    const height = max > 0 && value !== null ? (value / max) * (CHART_HEIGHT - 4) : 0;
+    return `<rect x="${(i * slot + 1).toFixed(1)}" y="${(CHART_HEIGHT - height).toFixed(1)}" width="${Math.max(1, slot - 2).toFixed(1)}" height="${height.toFixed(1)}" fill="#4b5563" />`;
+  }).join('');
+  return `<svg width="${CHART_WIDTH}" height="${CHART_HEIGHT}" viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}">
+    <line x1="0" y1="${CHART_HEIGHT}" x2="${CHART_WIDTH}" y2="${CHART_HEIGHT}" stroke="#999" />${bars}</svg>`;
+}
+
+function reportHtml(analytics: SchoolAnalytics, scope: string | null): string {
+  const summary = summarizeSchoolAnalytics(analytics.points);
+  const range = `${new Date(analytics.from).toLocaleDateString()} – ${new Date(analytics.to).toLocaleDateString()}`;
+
+  const cards = SCHOOL_METRICS.map((metric) =>
+    `<div>${escapeHtml(metric.label)}<strong>${metric.format(summary[metric.key])}</strong></div>`).join('');
+  const charts = SCHOOL_METRICS.map((metric) =>
+    `<div class="chart"><h2>${escapeHtml(metric.label)}</h2>${chartSvg(analytics, metric)}</div>`).join('');
+  const rows = analytics.points.map((point) => `
+    <tr><td>${escapeHtml(bucketLabel(analytics, point))}</td>${SCHOOL_METRICS.map((m) => `<td>${m.format(m.value(point))}</td>`).join('')}</tr>`).join('');
+
+  return `<h1>${escapeHtml(analytics.schoolName)} · Activity report</h1>
+    <p class="meta">${escapeHtml(range)}${scope ? ` · ${escapeHtml(scope)}` : ''} · ${analytics.studentCount} students · generated ${new Date().toLocaleString()}</p>
+    <div class="summary">${cards}</div>
+    <div class="charts">${charts}</div>
+    <table>
+      <thead><tr><th>Period</th>${SCHOOL_METRICS.map((m) => `<th>${escapeHtml(m.label)}</th>`).join('')}</tr></thead>
+      <tbody>${rows}</tbody>
+    </table>`;
+}
+
+export function printSchoolAnalytics(analytics: SchoolAnalytics, scope: string | null): Promise<void> {
+  return printHtml(reportHtml(analytics, scope), `${analytics.schoolName} activity report`, { styles: PRINT_STYLES });
+}
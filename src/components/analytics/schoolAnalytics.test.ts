@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest'
+import { schoolAnalyticsFilename, schoolAnalyticsToCsv, summarizeSchoolAnalytics } from './schoolAnalytics'
+import type { SchoolAnalytics, SchoolAnalyticsPoint } from '../../types'
+
+const point = (date: string, overrides: Partial<SchoolAnalyticsPoint> = {}): SchoolAnalyticsPoint => ({
+  date,
+  activeStudents: 10,
+  aiMessages: 50,
+  tutorEscalations: 0,
+  avgTutorWaitSeconds: null,
+  tutorSessions: 0,
+  avgSessionSeconds: null,
+  packagesReleased: 0,
+  packagesCompleted: 0,
+  ...overrides,
+})
+
+const analytics = (points: SchoolAnalyticsPoint[]): SchoolAnalytics => ({
+  schoolId: 's1',
+  schoolName: 'Hillside High',
+  from: '2026-03-01T00:00:00.000Z',
+  to: '2026-03-07T00:00:00.000Z',
+  granularity: 'DAY',
+  studentCount: 40,
+  points,
+})
+
+describe('summarizeSchoolAnalytics', () => {
+  it('adds counts, takes the busiest day and weights averages', () => {
+    const summary = summarizeSchoolAnalytics([
+      point('2026-03-01', { activeStudents: 12, tutorEscalations: 1, avgTutorWaitSeconds: 300, packagesReleased: 10, packagesCompleted: 4 }),
+      point('2026-03-02', { activeStudents: 18, tutorEscalations: 3, avgTutorWaitSeconds: 100, packagesReleased: 10, packagesCompleted: 8 }),
+      point('2026-03-03'),
+    ])
+    expect(summary).toEqual({
+      activeStudents: 18,
+      aiMessages: 150,
+      tutorEscalations: 4,
+      avgTutorWait: 150,
+      avgSessionLength: null,
+      packageCompletion: 0.6,
+    })
+  })
+})
+
+describe('school analytics export', () => {
+  it('writes one CSV row per bucket with minutes and completion', () => {
+    const csv = schoolAnalyticsToCsv(analytics([point('2026-03-01T00:00:00.000Z', { avgSessionSeconds: 1530, tutorSessions: 2, packagesReleased: 4, packagesCompleted: 3 })]))
+    const [header, row] = csv.split('\n')
+    expect(header.split(',')).toHaveLength(10)
+    expect(row).toBe('2026-03-01,10,50,0,,2,25.5,4,3,75')
+  })
+
+  it('names files after the school, filter and range', () => {
+    expect(schoolAnalyticsFilename(analytics([]), 'Grade 9', 'pdf')).toBe('hillside-high_grade-9_2026-03-01_to_2026-03-07.pdf')
+  })
+})
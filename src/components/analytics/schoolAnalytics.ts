@@ -0,0 +1,103 @@
+import { SchoolAnalytics, SchoolAnalyticsPoint } from '../../types';
+import { CsvValue, toCsv } from '../export/csv';
+import { formatBucketLabel } from './analytics';
+
+export type SchoolMetricKey =
+  | 'activeStudents'
+  | 'aiMessages'
+  | 'tutorEscalations'
+  | 'avgTutorWait'
+  | 'avgSessionLength'
+  | 'packageCompletion';
+
+export interface SchoolMetric {
+  key: SchoolMetricKey;
+  label: string;
+  // Value for one bucket; null when there was nothing to measure
+  value: (point: SchoolAnalyticsPoint) => number | null;
+  format: (value: number | null) => string;
+}
+
+export type SchoolSummary = Record<SchoolMetricKey, number | null>;
+
+export function formatSeconds(seconds: number | null): string {
+  if (seconds === null) return '—';
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  const minutes = Math.round(seconds / 60);
+  return minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+const formatCount = (value: number | null) => (value === null ? '—' : Math.round(value).toLocaleString());
+const formatPercent = (value: number | null) => (value === null ? '—' : `${Math.round(value * 100)}%`);
+
+export const SCHOOL_METRICS: SchoolMetric[] = [
+  { key: 'activeStudents', label: 'Active students', value: (p) => p.activeStudents, format: formatCount },
+  { key: 'aiMessages', label: 'AI messages', value: (p) => p.aiMessages, format: formatCount },
+  { key: 'tutorEscalations', label: 'Tutor escalations', value: (p) => p.tutorEscalations, format: formatCount },
+  { key: 'avgTutorWait', label: 'Avg wait for a tutor', value: (p) => p.avgTutorWaitSeconds, format: formatSeconds },
+  { key: 'avgSessionLength', label: 'Avg session length', value: (p) => p.avgSessionSeconds, format: formatSeconds },
+  {
+    key: 'packageCompletion',
+    label: 'Package completion',
+    value: (p) => (p.packagesReleased > 0 ? p.packagesCompleted / p.packagesReleased : null),
+    format: formatPercent,
+  },
+];
+
+const weightedAverage = (pairs: [number | null, number][]): number | null => {
+  let total = 0;
+  let weight = 0;
+  for (const [value, w] of pairs) {
+    if (value === null || w === 0) continue;
+    total += value * w;
+    weight += w;
+  }
+  return weight > 0 ? total / weight : null;
+};
+
+// Whole-range figures: counts add up, active students is the busiest bucket,
+// averages are weighted by how many escalations/sessions each bucket had
+export function summarizeSchoolAnalytics(points: SchoolAnalyticsPoint[]): SchoolSummary {
+  const released = points.reduce((sum, p) => sum + p.packagesReleased, 0);
+  return {
+    activeStudents: points.length > 0 ? Math.max(...points.map((p) => p.activeStudents)) : null,
+    aiMessages: points.reduce((sum, p) => sum + p.aiMessages, 0),
+    tutorEscalations: points.reduce((sum, p) => sum + p.tutorEscalations, 0),
+    avgTutorWait: weightedAverage(points.map((p) => [p.avgTutorWaitSeconds, p.tutorEscalations])),
+    avgSessionLength: weightedAverage(points.map((p) => [p.avgSessionSeconds, p.tutorSessions])),
+    packageCompletion: released > 0 ? points.reduce((sum, p) => sum + p.packagesCompleted, 0) / released : null,
+  };
+}
+
+// Raw numbers per bucket so the sheet can be re-charted; durations in minutes
+export function schoolAnalyticsToCsv(analytics: SchoolAnalytics): string {
+  const minutes = (seconds: number | null) => (seconds === null ? '' : (seconds / 60).toFixed(1));
+  const rows: CsvValue[][] = [
+    ['Period start', 'Active students', 'AI messages', 'Tutor escalations', 'Avg tutor wait (min)', 'Tutor sessions', 'Avg session (min)', 'Packages released', 'Packages completed', 'Completion %'],
+  ];
+  for (const p of analytics.points) {
+    rows.push([
+      p.date.slice(0, 10),
+      p.activeStudents,
+      p.aiMessages,
+      p.tutorEscalations,
+      minutes(p.avgTutorWaitSeconds),
+      p.tutorSessions,
+      minutes(p.avgSessionSeconds),
+      p.packagesReleased,
+      p.packagesCompleted,
+      p.packagesReleased > 0 ? Math.round((p.packagesCompleted / p.packagesReleased) * 100) : '',
+    ]);
+  }
+  return toCsv(rows);
+}
+
+export function schoolAnalyticsFilename(analytics: SchoolAnalytics, scope: string | null, extension: string): string {
+  const slug = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  const parts = [slug(analytics.schoolName), scope ? slug(scope) : null, analytics.from.slice(0, 10), 'to', analytics.to.slice(0, 10)];
+  return `${parts.filter(Boolean).join('_')}.${extension}`;
+}
+
+export function bucketLabel(analytics: SchoolAnalytics, point: SchoolAnalyticsPoint): string {
+  return formatBucketLabel(point.date, analytics.granularity);
+}
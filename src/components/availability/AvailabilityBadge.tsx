@@ -0,0 +1,33 @@
+import { TutorAvailabilityState } from '../../types';
+import { ResolvedAvailability, formatNextAvailable } from './availability';
+
+const STYLES: Record<TutorAvailabilityState, string> = {
+  ONLINE: 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30',
+  SCHEDULED: 'bg-blue-500/20 text-blue-400 border-blue-500/30',
+  BUSY: 'bg-amber-500/20 text-amber-400 border-amber-500/30',
+  OFFLINE: 'bg-gray-700/50 text-gray-400 border-gray-600/30',
+};
+
+export function availabilityLabel(resolved: ResolvedAvailability, now = new Date()): string {
+  switch (resolved.state) {
+    case 'ONLINE':
+      return 'Online now';
+    case 'BUSY':
+      return 'In a session';
+    case 'SCHEDULED':
+      return resolved.nextAvailableAt ? `Available ${formatNextAvailable(resolved.nextAvailableAt, now)}` : 'Scheduled';
+    default:
+      return 'Offline';
+  }
+}
+
+export function AvailabilityBadge({ resolved, className = '' }: { resolved: ResolvedAvailability; className?: string }) {
+  return (
+    <span className={`inline-flex items-center gap-1 px-1.5 py-0.5 text-xs rounded border ${STYLES[resolved.state]} ${className}`}>
+      {resolved.state === 'ONLINE' && <span className="w-1.5 h-1.5 bg-emerald-400 rounded-full animate-pulse" />}
+      {availabilityLabel(resolved)}
+    </span>
+  );
+}
+
+export default AvailabilityBadge;
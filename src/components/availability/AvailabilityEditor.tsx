@@ -0,0 +1,210 @@
+import { useState } from 'react';
+import { Plus, Trash2, Copy, CalendarX } from 'lucide-react';
+import { AvailabilityException, AvailabilitySchedule, DaySchedule } from '../../types';
+import { DayKey, WEEK_ORDER, TIMEZONES, browserTimezone, validateDaySlots } from './availability';
+
+interface AvailabilityEditorProps {
+  schedule: AvailabilitySchedule;
+  exceptions: AvailabilityException[];
+  timezone: string;
+  onChange: (changes: {
+    availabilitySchedule?: AvailabilitySchedule;
+    availabilityExceptions?: AvailabilityException[];
+    timezone?: string;
+  }) => void;
+}
+
+const DEFAULT_SLOT: DaySchedule = { start: '09:00', end: '17:00' };
+const WEEKDAYS: DayKey[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'];
+
+const inputClass = 'p-1.5 bg-gray-900/50 border border-gray-700 rounded-lg text-xs text-white focus:outline-none focus:border-amber-500/50';
+
+function SlotRow({ slot, onChange, onRemove }: {
+  slot: DaySchedule;
+  onChange: (slot: DaySchedule) => void;
+  onRemove: () => void;
+}) {
+  return (
+    <div className="flex items-center gap-1.5">
+      <input type="time" value={slot.start} onChange={(e) => onChange({ ...slot, start: e.target.value })} className={inputClass} />
+      <span className="text-xs text-gray-500">–</span>
+      <input type="time" value={slot.end} onChange={(e) => onChange({ ...slot, end: e.target.value })} className={inputClass} />
+      <button onClick={onRemove} className="p-1 text-gray-500 hover:text-red-400" title="Remove">
+        <Trash2 className="w-3 h-3" />
+      </button>
+    </div>
+  );
+}
+
+// Weekly hours plus one-off exceptions, all in the tutor's own timezone
+export function AvailabilityEditor({ schedule, exceptions, timezone, onChange }: AvailabilityEditorProps) {
+  const [newExceptionDate, setNewExceptionDate] = useState('');
+  const timezones = TIMEZONES.includes(timezone) ? TIMEZONES : [timezone, ...TIMEZONES];
+
+  const setDay = (day: DayKey, slots: DaySchedule[]) => {
+    onChange({ availabilitySchedule: { ...schedule, [day]: slots } });
+  };
+
+  const copyToWeekdays = (day: DayKey) => {
+    const slots = schedule[day] ?? [];
+    onChange({
+      availabilitySchedule: {
+        ...schedule,
+        ...Object.fromEntries(WEEKDAYS.map((d) => [d, slots.map((s) => ({ ...s }))])),
+      },
+    });
+  };
+
+  const setException = (index: number, exception: AvailabilityException) => {
+    onChange({ availabilityExceptions: exceptions.map((e, i) => (i === index ? exception : e)) });
+  };
+
+  const addException = () => {
+    if (!newExceptionDate || exceptions.some((e) => e.date === newExceptionDate)) return;
+    onChange({
+      availabilityExceptions: [...exceptions, { date: newExceptionDate, slots: [] }].sort((a, b) => a.date.localeCompare(b.date)),
+    });
+    setNewExceptionDate('');
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Timezone */}
+      <div>
+        <label className="text-xs text-gray-500 mb-1 block">Timezone</label>
+        <div className="flex items-center gap-2">
+          <select
+            value={timezone}
+            onChange={(e) => onChange({ timezone: e.target.value })}
+            className="flex-1 p-2 bg-gray-900/50 border border-gray-700 rounded-lg text-sm text-white focus:outline-none focus:border-amber-500/50"
+          >
+            {timezones.map((tz) => <option key={tz} value={tz}>{tz}</option>)}
+          </select>
+          {timezone !== browserTimezone() && (
+            <button onClick={() => onChange({ timezone: browserTimezone() })} className="text-xs text-amber-400 hover:text-amber-300 whitespace-nowrap">
+              Use {browserTimezone()}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Weekly hours */}
+      <div className="space-y-2">
+        {WEEK_ORDER.map((day) => {
+          const slots = schedule[day] ?? [];
+          const error = validateDaySlots(slots);
+          return (
+            <div key={day} className="flex items-start gap-3 py-1.5 border-b border-gray-700/30 last:border-0">
+              <label className="flex items-center gap-2 w-24 pt-1 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={slots.length > 0}
+                  onChange={(e) => setDay(day, e.target.checked ? [{ ...DEFAULT_SLOT }] : [])}
+                  className="w-3.5 h-3.5 rounded border-gray-600 text-amber-500 focus:ring-amber-500"
+                />
+                <span className="text-xs text-gray-300 capitalize">{day.slice(0, 3)}</span>
+              </label>
+              <div className="flex-1 space-y-1.5">
+                {slots.length === 0 ? (
+                  <p className="text-xs text-gray-500 pt-1">Unavailable</p>
+                ) : (
+                  slots.map((slot, i) => (
+                    <SlotRow
+                      key={i}
+                      slot={slot}
+                      onChange={(next) => setDay(day, slots.map((s, j) => (j === i ? next : s)))}
+                      onRemove={() => setDay(day, slots.filter((_, j) => j !== i))}
+                    />
+                  ))
+                )}
+                {error && <p className="text-xs text-red-400">{error}</p>}
+              </div>
+              {slots.length > 0 && (
+                <div className="flex items-center gap-1 pt-1">
+                  <button
+                    onClick={() => setDay(day, [...slots, { start: slots[slots.length - 1].end, end: slots[slots.length - 1].end }])}
+                    className="p-1 text-gray-500 hover:text-amber-400"
+                    title="Add time slot"
+                  >
+                    <Plus className="w-3 h-3" />
+                  </button>
+                  <button onClick={() => copyToWeekdays(day)} className="p-1 text-gray-500 hover:text-amber-400" title="Copy to Mon–Fri">
+                    <Copy className="w-3 h-3" />
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Exceptions */}
+      <div>
+        <label className="text-xs text-gray-500 mb-1 block">Exceptions (days off or different hours)</label>
+        <div className="space-y-2">
+          {exceptions.map((exception, index) => (
+            <div key={exception.date} className="p-2 bg-gray-900/50 rounded-lg border border-gray-700/30 space-y-1.5">
+              <div className="flex items-center gap-2">
+                <CalendarX className="w-3.5 h-3.5 text-amber-400" />
+                <span className="text-xs font-medium text-white">
+                  {new Date(`${exception.date}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' })}
+                </span>
+                <label className="flex items-center gap-1 ml-auto cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={exception.slots.length === 0}
+                    onChange={(e) => setException(index, { ...exception, slots: e.target.checked ? [] : [{ ...DEFAULT_SLOT }] })}
+                    className="w-3 h-3 rounded border-gray-600 text-amber-500 focus:ring-amber-500"
+                  />
+                  <span className="text-xs text-gray-400">Day off</span>
+                </label>
+                <button
+                  onClick={() => onChange({ availabilityExceptions: exceptions.filter((_, i) => i !== index) })}
+                  className="p-1 text-gray-500 hover:text-red-400"
+                  title="Remove exception"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+              {exception.slots.map((slot, i) => (
+                <SlotRow
+                  key={i}
+                  slot={slot}
+                  onChange={(next) => setException(index, { ...exception, slots: exception.slots.map((s, j) => (j === i ? next : s)) })}
+                  onRemove={() => setException(index, { ...exception, slots: exception.slots.filter((_, j) => j !== i) })}
+                />
+              ))}
+              {validateDaySlots(exception.slots) && (
+                <p className="text-xs text-red-400">{validateDaySlots(exception.slots)}</p>
+              )}
+              <input
+                type="text"
+                value={exception.note || ''}
+                onChange={(e) => setException(index, { ...exception, note: e.target.value || undefined })}
+                placeholder="Note (optional)"
+                className={`w-full ${inputClass}`}
+              />
+            </div>
+          ))}
+          <div className="flex items-center gap-2">
+            <input
+              type="date"
+              value={newExceptionDate}
+              onChange={(e) => setNewExceptionDate(e.target.value)}
+              className={inputClass}
+            />
+            <button
+              onClick={addException}
+              disabled={!newExceptionDate}
+              className="text-xs text-amber-400 hover:text-amber-300 flex items-center gap-1 disabled:opacity-40"
+            >
+              <Plus className="w-3 h-3" /> Add exception
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default AvailabilityEditor;
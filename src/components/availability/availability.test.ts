@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest'
+import type { AvailabilitySchedule } from '../../types'
+import { scheduleWindow, resolveAvailability, estimateWaitMinutes, validateDaySlots } from './availability'
+
+const weekdays: AvailabilitySchedule = {
+  monday: [{ start: '09:00', end: '12:00' }, { start: '14:00', end: '17:00' }],
+  tuesday: [{ start: '09:00', end: '12:00' }],
+}
+
+// Monday 6 May 2024, 10:30 UTC
+const mondayMorning = new Date('2024-05-06T10:30:00Z')
+
+describe('scheduleWindow', () => {
+  it('detects an active slot in the tutor timezone', () => {
+    // Inside 09:00-12:00; the next slot is 14:00, 210 minutes away
+    expect(scheduleWindow({ timezone: 'UTC', availabilitySchedule: weekdays }, mondayMorning))
+      .toEqual({ inSchedule: true, minutesUntilNext: 210 })
+  })
+
+  it('converts now into the tutor timezone', () => {
+    // 10:30 UTC is 06:30 in New York, so the 09:00 slot starts in 150 minutes
+    expect(scheduleWindow({ timezone: 'America/New_York', availabilitySchedule: weekdays }, mondayMorning))
+      .toEqual({ inSchedule: false, minutesUntilNext: 150 })
+  })
+
+  it('looks ahead to later days', () => {
+    // Monday 18:00 UTC -> Tuesday 09:00 is 15 hours away
+    expect(scheduleWindow({ timezone: 'UTC', availabilitySchedule: weekdays }, new Date('2024-05-06T18:00:00Z')).minutesUntilNext)
+      .toBe(15 * 60)
+  })
+
+  it('lets exceptions replace the weekly hours', () => {
+    const input = {
+      timezone: 'UTC',
+      availabilitySchedule: weekdays,
+      availabilityExceptions: [{ date: '2024-05-06', slots: [] }],
+    }
+    expect(scheduleWindow(input, mondayMorning)).toEqual({ inSchedule: false, minutesUntilNext: (24 - 10.5 + 9) * 60 })
+  })
+})
+
+describe('resolveAvailability', () => {
+  it('prefers live status over the schedule', () => {
+    const base = { timezone: 'UTC', availabilitySchedule: weekdays }
+    expect(resolveAvailability({ ...base, isOnline: true }, mondayMorning).state).toBe('ONLINE')
+    expect(resolveAvailability({ ...base, isBusy: true }, mondayMorning).state).toBe('BUSY')
+    expect(resolveAvailability({ ...base, isAvailable: false }, mondayMorning).state).toBe('OFFLINE')
+    expect(resolveAvailability({ ...base, timezone: 'America/New_York' }, mondayMorning)).toMatchObject({
+      state: 'SCHEDULED',
+      minutesUntilAvailable: 150,
+    })
+  })
+
+  it('expects an offline tutor inside the window at their next slot', () => {
+    expect(resolveAvailability({ timezone: 'UTC', availabilitySchedule: weekdays }, mondayMorning)).toMatchObject({
+      state: 'SCHEDULED',
+      inSchedule: true,
+      minutesUntilAvailable: 210,
+    })
+    expect(estimateWaitMinutes([{ timezone: 'UTC', availabilitySchedule: weekdays }], mondayMorning)).toBe(210)
+  })
+
+  it('estimates the shortest wait', () => {
+    expect(estimateWaitMinutes([
+      { timezone: 'America/New_York', availabilitySchedule: weekdays },
+      { timezone: 'America/Chicago', availabilitySchedule: weekdays },
+      { isBusy: true },
+    ], mondayMorning)).toBe(150)
+    expect(estimateWaitMinutes([{ isBusy: true }], mondayMorning)).toBeNull()
+  })
+})
+
+describe('validateDaySlots', () => {
+  it('rejects empty and overlapping ranges', () => {
+    expect(validateDaySlots(weekdays.monday!)).toBeNull()
+    expect(validateDaySlots([{ start: '10:00', end: '09:00' }])).toBe('End time must be after start time')
+    expect(validateDaySlots([{ start: '09:00', end: '11:00' }, { start: '10:00', end: '12:00' }])).toBe('Time slots overlap')
+  })
+})
@@ -0,0 +1,224 @@
+import type { AvailabilityException, AvailabilitySchedule, DaySchedule, TutorAvailabilityState } from '../../types';
+
+// ============================================
+// Tutor availability resolver
+// ============================================
+//
+// Schedules are wall-clock times in the tutor's timezone. Everything here
+// converts "now" into that timezone with Intl rather than shifting slots,
+// so a tutor's 09:00 stays 09:00 across DST changes on their side.
+
+export type DayKey = keyof AvailabilitySchedule;
+
+// Indexed by Date#getDay()
+export const DAY_KEYS: DayKey[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// Display order for the weekly editor
+export const WEEK_ORDER: DayKey[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+export const TIMEZONES = [
+  'Asia/Kathmandu',
+  'Asia/Kolkata',
+  'Asia/Dubai',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'Europe/London',
+  'Europe/Berlin',
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Los_Angeles',
+  'UTC',
+];
+
+export interface AvailabilityInput {
+  isOnline?: boolean;
+  isAvailable?: boolean;
+  isBusy?: boolean;
+  timezone?: string;
+  availabilitySchedule?: AvailabilitySchedule;
+  availabilityExceptions?: AvailabilityException[];
+}
+
+export interface ResolvedAvailability {
+  state: TutorAvailabilityState;
+  inSchedule: boolean;
+  // 0 when online now; null when there is nothing scheduled in the next week
+  minutesUntilAvailable: number | null;
+  nextAvailableAt: Date | null;
+}
+
+interface ZonedNow {
+  dateKey: string;
+  weekday: number;
+  minutes: number;
+}
+
+export function browserTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+function zonedParts(date: Date, timeZone?: string): Record<string, string> {
+  const options: Intl.DateTimeFormatOptions = {
+    year: 'numeric', month: '2-digit', day: '2-digit',
+    hour: '2-digit', minute: '2-digit', second: '2-digit', hourCycle: 'h23',
+  };
+  let formatter: Intl.DateTimeFormat;
+  try {
+    formatter = new Intl.DateTimeFormat('en-US', { ...options, timeZone });
+  } catch {
+    // Unknown timezone id: fall back to the viewer's clock
+    formatter = new Intl.DateTimeFormat('en-US', options);
+  }
+  return Object.fromEntries(formatter.formatToParts(date).map((p) => [p.type, p.value]));
+}
+
+function zonedNow(now: Date, timeZone?: string): ZonedNow {
+  const parts = zonedParts(now, timeZone);
+  const year = Number(parts.year);
+  const month = Number(parts.month);
+  const day = Number(parts.day);
+  return {
+    dateKey: `${parts.year}-${parts.month}-${parts.day}`,
+    weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay(),
+    minutes: (Number(parts.hour) % 24) * 60 + Number(parts.minute),
+  };
+}
+
+// Minutes the zone is ahead of UTC at `date`
+function zoneOffsetMinutes(date: Date, timeZone?: string): number {
+  const parts = zonedParts(date, timeZone);
+  const asUTC = Date.UTC(
+    Number(parts.year), Number(parts.month) - 1, Number(parts.day),
+    Number(parts.hour) % 24, Number(parts.minute), Number(parts.second)
+  );
+  return Math.round((asUTC - date.getTime()) / 60_000);
+}
+
+// Instant for a wall-clock time on a date in `timeZone`. The second pass
+// corrects guesses that land on the other side of a DST change.
+export function zonedTimeToDate(dateKey: string, minutes: number, timeZone?: string): Date {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const guess = Date.UTC(year, month - 1, day, 0, minutes);
+  const offset = zoneOffsetMinutes(new Date(guess), timeZone);
+  const corrected = zoneOffsetMinutes(new Date(guess - offset * 60_000), timeZone);
+  return new Date(guess - corrected * 60_000);
+}
+
+// Today's date in `timeZone` as YYYY-MM-DD
+export function zonedDateKey(date: Date, timeZone?: string): string {
+  return zonedNow(date, timeZone).dateKey;
+}
+
+export function addDays(dateKey: string, days: number): string {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+// Slots for one tutor-local date; an exception replaces the weekly hours
+export function slotsForDate(
+  schedule: AvailabilitySchedule | undefined,
+  exceptions: AvailabilityException[] | undefined,
+  dateKey: string,
+  weekday: number
+): DaySchedule[] {
+  const exception = exceptions?.find((e) => e.date === dateKey);
+  if (exception) return exception.slots;
+  return schedule?.[DAY_KEYS[weekday]] ?? [];
+}
+
+// Whether `now` falls inside a slot, and how long until the next slot starts.
+// The current slot is never "next": a tutor who isn't online during their
+// hours is only expected at the following slot.
+export function scheduleWindow(
+  input: Pick<AvailabilityInput, 'timezone' | 'availabilitySchedule' | 'availabilityExceptions'>,
+  now = new Date()
+): { inSchedule: boolean; minutesUntilNext: number | null } {
+  const local = zonedNow(now, input.timezone);
+  let inSchedule = false;
+  let minutesUntilNext: number | null = null;
+
+  for (let offset = 0; offset <= 7; offset++) {
+    const slots = slotsForDate(
+      input.availabilitySchedule,
+      input.availabilityExceptions,
+      addDays(local.dateKey, offset),
+      (local.weekday + offset) % 7
+    );
+    for (const slot of slots) {
+      const start = timeToMinutes(slot.start);
+      const end = timeToMinutes(slot.end);
+      if (offset === 0 && start <= local.minutes && local.minutes < end) {
+        inSchedule = true;
+      }
+      const until = offset * 1440 + start - local.minutes;
+      if (until > 0 && (minutesUntilNext === null || until < minutesUntilNext)) {
+        minutesUntilNext = until;
+      }
+    }
+    if (minutesUntilNext !== null) break;
+  }
+
+  return { inSchedule, minutesUntilNext };
+}
+
+// "Online now vs. scheduled": connected tutors win, the availability toggle is
+// a master switch, and busy tutors are left to the server's own estimate.
+export function resolveAvailability(input: AvailabilityInput, now = new Date()): ResolvedAvailability {
+  const { inSchedule, minutesUntilNext } = scheduleWindow(input, now);
+  const at = (minutes: number | null) => (minutes === null ? null : new Date(now.getTime() + minutes * 60_000));
+
+  if (input.isAvailable === false) {
+    return { state: 'OFFLINE', inSchedule, minutesUntilAvailable: null, nextAvailableAt: null };
+  }
+  if (input.isBusy) {
+    return { state: 'BUSY', inSchedule, minutesUntilAvailable: null, nextAvailableAt: null };
+  }
+  if (input.isOnline) {
+    return { state: 'ONLINE', inSchedule, minutesUntilAvailable: 0, nextAvailableAt: now };
+  }
+  if (minutesUntilNext !== null) {
+    return { state: 'SCHEDULED', inSchedule, minutesUntilAvailable: minutesUntilNext, nextAvailableAt: at(minutesUntilNext) };
+  }
+  return { state: 'OFFLINE', inSchedule, minutesUntilAvailable: null, nextAvailableAt: null };
+}
+
+// Shortest wait across tutors, or null when nobody is online or scheduled
+export function estimateWaitMinutes(tutors: AvailabilityInput[], now = new Date()): number | null {
+  return tutors.reduce<number | null>((best, tutor) => {
+    const { minutesUntilAvailable } = resolveAvailability(tutor, now);
+    if (minutesUntilAvailable === null) return best;
+    return best === null ? minutesUntilAvailable : Math.min(best, minutesUntilAvailable);
+  }, null);
+}
+
+// Online first, then by how soon a scheduled tutor comes online
+export function compareAvailability(a: ResolvedAvailability, b: ResolvedAvailability): number {
+  const rank = (r: ResolvedAvailability) => r.minutesUntilAvailable ?? Number.POSITIVE_INFINITY;
+  return rank(a) - rank(b);
+}
+
+export function formatNextAvailable(at: Date, now = new Date()): string {
+  const minutes = Math.round((at.getTime() - now.getTime()) / 60_000);
+  if (minutes <= 0) return 'now';
+  if (minutes < 60) return `in ${minutes} min`;
+  const time = at.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+  if (at.toDateString() === now.toDateString()) return `today at ${time}`;
+  return `${at.toLocaleDateString(undefined, { weekday: 'short' })} at ${time}`;
+}
+
+// Slots must be non-empty ranges and must not overlap
+export function validateDaySlots(slots: DaySchedule[]): string | null {
+  const sorted = [...slots].sort((a, b) => timeToMinutes(a.start) - timeToMinutes(b.start));
+  for (let i = 0; i < sorted.length; i++) {
+    if (timeToMinutes(sorted[i].end) <= timeToMinutes(sorted[i].start)) return 'End time must be after start time';
+    if (i > 0 && timeToMinutes(sorted[i].start) < timeToMinutes(sorted[i - 1].end)) return 'Time slots overlap';
+  }
+  return null;
+}
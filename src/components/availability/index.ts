@@ -0,0 +1,20 @@
+export { AvailabilityEditor } from './AvailabilityEditor';
+export { AvailabilityBadge, availabilityLabel } from './AvailabilityBadge';
+export {
+  DAY_KEYS,
+  WEEK_ORDER,
+  TIMEZONES,
+  browserTimezone,
+  timeToMinutes,
+  zonedTimeToDate,
+  zonedDateKey,
+  addDays,
+  slotsForDate,
+  scheduleWindow,
+  resolveAvailability,
+  estimateWaitMinutes,
+  compareAvailability,
+  formatNextAvailable,
+  validateDaySlots,
+} from './availability';
+export type { DayKey, AvailabilityInput, ResolvedAvailability } from './availability';
@@ -0,0 +1,276 @@
+import { useState, useEffect, useMemo } from 'react';
+import { CalendarClock, Globe } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { bookingsApi } from '../../api';
+import { BookableTutor, SessionBooking, Subject, TutorBookingAvailability } from '../../types';
+import { Modal } from '../ui/Modal';
+import { Spinner } from '../ui/Loading';
+import Button from '../ui/Button';
+import { addDays, browserTimezone, zonedDateKey } from '../availability/availability';
+import { BookingSlot, DURATION_OPTIONS, bookingDurationMinutes, generateSlots, groupSlotsByDay } from './bookingSlots';
+
+interface BookSessionModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved: (booking: SessionBooking) => void;
+  // When set, proposes a new time for this booking instead of creating one
+  reschedule?: SessionBooking;
+  // Preselected tutor (tutor profile page); hides the tutor picker
+  tutor?: BookableTutor;
+}
+
+const SUBJECT_OPTIONS = Object.values(Subject).map(s => ({
+  value: s,
+  label: s.replace(/_/g, ' '),
+}));
+
+const BOOKING_WINDOW_DAYS = 14;
+
+// Pick a tutor, a length and one of the tutor's open slots (shown in the viewer's clock)
+export function BookSessionModal({ isOpen, onClose, onSaved, reschedule, tutor }: BookSessionModalProps) {
+  const defaultSubject = reschedule?.subject ?? tutor?.subjects?.[0] ?? Subject.MATHEMATICS;
+  const [subject, setSubject] = useState<Subject>(defaultSubject);
+  const [tutors, setTutors] = useState<BookableTutor[]>([]);
+  const [tutorId, setTutorId] = useState(reschedule?.tutorId ?? tutor?.id ?? '');
+  const [duration, setDuration] = useState(reschedule ? bookingDurationMinutes(reschedule) : 60);
+  const [availability, setAvailability] = useState<TutorBookingAvailability | null>(null);
+  const [selected, setSelected] = useState<BookingSlot | null>(null);
+  const [topic, setTopic] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isLoadingTutors, setIsLoadingTutors] = useState(false);
+  const [isLoadingSlots, setIsLoadingSlots] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset when opened for a different booking
+  useEffect(() => {
+    if (!isOpen) return;
+    setSubject(defaultSubject);
+    setTutorId(reschedule?.tutorId ?? tutor?.id ?? '');
+    setDuration(reschedule ? bookingDurationMinutes(reschedule) : 60);
+    setSelected(null);
+    setTopic('');
+    setNotes('');
+  }, [isOpen, reschedule, tutor, defaultSubject]);
+
+  useEffect(() => {
+    if (!isOpen || reschedule || tutor) return;
+    const fetchTutors = async () => {
+      setIsLoadingTutors(true);
+      try {
+        const data = await bookingsApi.getBookableTutors(subject);
+        setTutors(data);
+        setTutorId((current) => (data.some((t) => t.id === current) ? current : data[0]?.id ?? ''));
+      } catch {
+        toast.error('Failed to load tutors');
+      } finally {
+        setIsLoadingTutors(false);
+      }
+    };
+    fetchTutors();
+  }, [isOpen, reschedule, tutor, subject]);
+
+  useEffect(() => {
+    if (!isOpen || !tutorId) {
+      setAvailability(null);
+      return;
+    }
+    const fetchAvailability = async () => {
+      setIsLoadingSlots(true);
+      setSelected(null);
+      try {
+        const today = zonedDateKey(new Date());
+        // One extra day either side covers timezone differences
+        setAvailability(await bookingsApi.getTutorAvailability(tutorId, addDays(today, -1), addDays(today, BOOKING_WINDOW_DAYS + 1)));
+      } catch {
+        setAvailability(null);
+        toast.error('Failed to load availability');
+      } finally {
+        setIsLoadingSlots(false);
+      }
+    };
+    fetchAvailability();
+  }, [isOpen, tutorId]);
+
+  const slotsByDay = useMemo(() => {
+    if (!availability) return new Map<string, BookingSlot[]>();
+    // The booking being moved shouldn't block its own neighbouring slots
+    const busy = reschedule
+      ? availability.busy.filter((b) => !(b.startAt === reschedule.startAt && b.endAt === reschedule.endAt))
+      : availability.busy;
+    return groupSlotsByDay(generateSlots({ ...availability, busy }, { durationMinutes: duration, days: BOOKING_WINDOW_DAYS }));
+  }, [availability, duration, reschedule]);
+
+  const handleSubmit = async () => {
+    if (!selected) return;
+    setIsSaving(true);
+    try {
+      const booking = reschedule
+        ? await bookingsApi.rescheduleBooking(reschedule.id, {
+            startAt: selected.startAt.toISOString(),
+            durationMinutes: duration,
+          })
+        : await bookingsApi.createBooking({
+            tutorId,
+            subject,
+            startAt: selected.startAt.toISOString(),
+            durationMinutes: duration,
+            topic: topic.trim() || undefined,
+            notes: notes.trim() || undefined,
+          });
+      toast.success(reschedule ? 'New time proposed' : 'Booking requested');
+      onSaved(booking);
+      onClose();
+    } catch (error: unknown) {
+      const err = error as { response?: { data?: { message?: string } } };
+      toast.error(err.response?.data?.message || 'Failed to save booking');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const tutorTimezone = availability?.timezone;
+  const subjectOptions = tutor?.subjects?.length
+    ? SUBJECT_OPTIONS.filter((opt) => tutor.subjects?.includes(opt.value))
+    : SUBJECT_OPTIONS;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={reschedule ? 'Propose a New Time' : 'Book a Session'} size="lg">
+      <div className="space-y-4">
+        {!reschedule && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <label className="label">Subject</label>
+              <select value={subject} onChange={(e) => setSubject(e.target.value as Subject)} className="input">
+                {subjectOptions.map((opt) => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="label">Tutor</label>
+              {tutor ? (
+                <p className="input bg-transparent">{tutor.name}{tutor.hourlyRate ? ` · $${tutor.hourlyRate}/hr` : ''}</p>
+              ) : (
+                <select
+                  value={tutorId}
+                  onChange={(e) => setTutorId(e.target.value)}
+                  className="input"
+                  disabled={isLoadingTutors || tutors.length === 0}
+                >
+                  {tutors.length === 0 && <option value="">{isLoadingTutors ? 'Loading…' : 'No tutors for this subject'}</option>}
+                  {tutors.map((t) => (
+                    <option key={t.id} value={t.id}>
+                      {t.name}{t.hourlyRate ? ` · $${t.hourlyRate}/hr` : ''}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div>
+          <label className="label">Length</label>
+          <div className="flex gap-2">
+            {DURATION_OPTIONS.map((minutes) => (
+              <button
+                key={minutes}
+                onClick={() => setDuration(minutes)}
+                className={`px-3 py-1.5 rounded-lg text-sm transition-colors ${
+                  duration === minutes ? 'bg-primary-500/20 text-primary-300' : 'bg-[#2c2d32] text-gray-400 hover:text-gray-200'
+                }`}
+              >
+                {minutes} min
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-1">
+            <label className="label mb-0">Available times</label>
+            {tutorTimezone && tutorTimezone !== browserTimezone() && (
+              <span className="text-xs text-gray-500 flex items-center gap-1">
+                <Globe className="w-3 h-3" /> Shown in your time; tutor is in {tutorTimezone}
+              </span>
+            )}
+          </div>
+          {isLoadingSlots ? (
+            <div className="flex items-center justify-center py-8"><Spinner /></div>
+          ) : slotsByDay.size === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-8">
+              {tutorId ? 'No open times in the next two weeks' : 'Choose a tutor to see their times'}
+            </p>
+          ) : (
+            <div className="max-h-64 overflow-y-auto space-y-3 pr-1">
+              {[...slotsByDay.entries()].map(([dateKey, slots]) => (
+                <div key={dateKey}>
+                  <p className="text-xs font-medium text-gray-400 mb-1.5">
+                    {slots[0].startAt.toLocaleDateString(undefined, { weekday: 'long', month: 'short', day: 'numeric' })}
+                  </p>
+                  <div className="flex flex-wrap gap-1.5">
+                    {slots.map((slot) => {
+                      const isSelected = selected?.startAt.getTime() === slot.startAt.getTime();
+                      return (
+                        <button
+                          key={slot.startAt.toISOString()}
+                          onClick={() => setSelected(slot)}
+                          className={`px-2.5 py-1 rounded-lg text-xs transition-colors ${
+                            isSelected
+                              ? 'bg-primary-600 text-white'
+                              : 'bg-[#2c2d32] text-gray-300 hover:bg-[#35363b]'
+                          }`}
+                        >
+                          {slot.startAt.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {!reschedule && (
+          <>
+            <div>
+              <label className="label">Topic (optional)</label>
+              <input
+                type="text"
+                value={topic}
+                onChange={(e) => setTopic(e.target.value)}
+                placeholder="e.g. Integration by parts"
+                className="input"
+              />
+            </div>
+            <div>
+              <label className="label">Notes for the tutor (optional)</label>
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={2}
+                className="input resize-none"
+              />
+            </div>
+          </>
+        )}
+
+        <div className="flex items-center justify-between gap-3 pt-2 border-t border-gray-700/50">
+          <p className="text-xs text-gray-500 flex items-center gap-1">
+            <CalendarClock className="w-3.5 h-3.5" />
+            {selected
+              ? `${selected.startAt.toLocaleString(undefined, { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })} · ${duration} min`
+              : 'No time selected'}
+          </p>
+          <div className="flex gap-2">
+            <Button variant="ghost" onClick={onClose} disabled={isSaving}>Cancel</Button>
+            <Button onClick={handleSubmit} isLoading={isSaving} disabled={!selected}>
+              {reschedule ? 'Propose time' : 'Request booking'}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
+export default BookSessionModal;
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import type { SessionBooking, TutorBookingAvailability } from '../../types'
+import { generateSlots, canJoinBooking, isUpcomingBooking } from './bookingSlots'
+
+const availability: TutorBookingAvailability = {
+  tutorId: 't1',
+  timezone: 'UTC',
+  availabilitySchedule: { monday: [{ start: '09:00', end: '11:00' }] },
+  availabilityExceptions: [],
+  busy: [],
+}
+
+// Sunday 5 May 2024, 12:00 UTC
+const sundayNoon = new Date('2024-05-05T12:00:00Z')
+
+const starts = (slots: { startAt: Date }[]) => slots.map((s) => s.startAt.toISOString())
+
+describe('generateSlots', () => {
+  it('steps through each window in the tutor timezone', () => {
+    expect(starts(generateSlots(availability, { durationMinutes: 60, days: 2, now: sundayNoon }))).toEqual([
+      '2024-05-06T09:00:00.000Z',
+      '2024-05-06T09:30:00.000Z',
+      '2024-05-06T10:00:00.000Z',
+    ])
+  })
+
+  it('converts wall-clock hours to instants', () => {
+    // 09:00 in Kathmandu (UTC+5:45) is 03:15 UTC
+    const slots = generateSlots({ ...availability, timezone: 'Asia/Kathmandu' }, { durationMinutes: 120, days: 2, now: sundayNoon })
+    expect(starts(slots)).toEqual(['2024-05-06T03:15:00.000Z'])
+  })
+
+  it('skips booked intervals and slots inside the notice period', () => {
+    const busy = [{ startAt: '2024-05-06T09:30:00Z', endAt: '2024-05-06T10:00:00Z' }]
+    expect(starts(generateSlots({ ...availability, busy }, { durationMinutes: 30, days: 2, now: sundayNoon }))).toEqual([
+      '2024-05-06T09:00:00.000Z',
+      '2024-05-06T10:00:00.000Z',
+      '2024-05-06T10:30:00.000Z',
+    ])
+    const mondayEarly = new Date('2024-05-06T08:45:00Z')
+    expect(starts(generateSlots(availability, { durationMinutes: 30, days: 1, now: mondayEarly }))[0])
+      .toBe('2024-05-06T10:00:00.000Z')
+  })
+})
+
+describe('canJoinBooking', () => {
+  const booking = {
+    status: 'CONFIRMED',
+    startAt: '2024-05-06T09:00:00Z',
+    endAt: '2024-05-06T10:00:00Z',
+  } as SessionBooking
+
+  it('opens shortly before the start and closes at the end', () => {
+    expect(canJoinBooking(booking, new Date('2024-05-06T08:45:00Z'))).toBe(false)
+    expect(canJoinBooking(booking, new Date('2024-05-06T08:52:00Z'))).toBe(true)
+    expect(canJoinBooking(booking, new Date('2024-05-06T10:00:00Z'))).toBe(false)
+    expect(canJoinBooking({ ...booking, status: 'PENDING' }, new Date('2024-05-06T09:10:00Z'))).toBe(false)
+  })
+
+  it('treats pending and confirmed future bookings as upcoming', () => {
+    expect(isUpcomingBooking(booking, sundayNoon)).toBe(true)
+    expect(isUpcomingBooking({ ...booking, status: 'CANCELLED' }, sundayNoon)).toBe(false)
+  })
+})
@@ -0,0 +1,89 @@
+import type { SessionBooking, TutorBookingAvailability } from '../../types';
+import { addDays, slotsForDate, timeToMinutes, zonedDateKey, zonedTimeToDate } from '../availability/availability';
+
+// ============================================
+// Bookable slot generation
+// ============================================
+//
+// Tutor hours are wall-clock times in the tutor's timezone; slots are turned
+// into real instants here and shown to the student in their own clock.
+
+export interface BookingSlot {
+  startAt: Date;
+  endAt: Date;
+}
+
+export interface SlotOptions {
+  durationMinutes: number;
+  days?: number;
+  // Slot starts are this far apart inside each availability window
+  stepMinutes?: number;
+  // Minimum notice the tutor gets before a slot
+  leadMinutes?: number;
+  now?: Date;
+}
+
+export const DURATION_OPTIONS = [30, 45, 60, 90];
+
+// Students can enter the room this long before the start
+export const JOIN_EARLY_MINUTES = 10;
+
+function weekdayOf(dateKey: string): number {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+function overlaps(a: BookingSlot, startAt: string, endAt: string): boolean {
+  return a.startAt.getTime() < new Date(endAt).getTime() && new Date(startAt).getTime() < a.endAt.getTime();
+}
+
+export function generateSlots(
+  availability: Pick<TutorBookingAvailability, 'timezone' | 'availabilitySchedule' | 'availabilityExceptions' | 'busy'>,
+  { durationMinutes, days = 14, stepMinutes = 30, leadMinutes = 60, now = new Date() }: SlotOptions
+): BookingSlot[] {
+  const { timezone, availabilitySchedule, availabilityExceptions, busy } = availability;
+  const earliest = now.getTime() + leadMinutes * 60_000;
+  const firstDay = zonedDateKey(now, timezone);
+  const result: BookingSlot[] = [];
+
+  for (let offset = 0; offset < days; offset++) {
+    const dateKey = addDays(firstDay, offset);
+    for (const window of slotsForDate(availabilitySchedule, availabilityExceptions, dateKey, weekdayOf(dateKey))) {
+      const windowEnd = timeToMinutes(window.end);
+      for (let start = timeToMinutes(window.start); start + durationMinutes <= windowEnd; start += stepMinutes) {
+        const startAt = zonedTimeToDate(dateKey, start, timezone);
+        const slot = { startAt, endAt: new Date(startAt.getTime() + durationMinutes * 60_000) };
+        if (startAt.getTime() < earliest) continue;
+        if (busy.some((b) => overlaps(slot, b.startAt, b.endAt))) continue;
+        result.push(slot);
+      }
+    }
+  }
+
+  return result.sort((a, b) => a.startAt.getTime() - b.startAt.getTime());
+}
+
+// Slots keyed by the viewer's local YYYY-MM-DD, in start order
+export function groupSlotsByDay(slots: BookingSlot[]): Map<string, BookingSlot[]> {
+  const groups = new Map<string, BookingSlot[]>();
+  for (const slot of slots) {
+    const key = zonedDateKey(slot.startAt);
+    groups.set(key, [...(groups.get(key) ?? []), slot]);
+  }
+  return groups;
+}
+
+export function bookingDurationMinutes(booking: Pick<SessionBooking, 'startAt' | 'endAt'>): number {
+  return Math.round((new Date(booking.endAt).getTime() - new Date(booking.startAt).getTime()) / 60_000);
+}
+
+export function isUpcomingBooking(booking: SessionBooking, now = new Date()): boolean {
+  return (booking.status === 'PENDING' || booking.status === 'CONFIRMED') && new Date(booking.endAt) > now;
+}
+
+// Confirmed bookings open from shortly before the start until the slot ends
+export function canJoinBooking(booking: SessionBooking, now = new Date()): boolean {
+  if (booking.status !== 'CONFIRMED') return false;
+  const opensAt = new Date(booking.startAt).getTime() - JOIN_EARLY_MINUTES * 60_000;
+  return now.getTime() >= opensAt && now < new Date(booking.endAt);
+}
@@ -0,0 +1,11 @@
+export { BookSessionModal } from './BookSessionModal';
+export {
+  DURATION_OPTIONS,
+  JOIN_EARLY_MINUTES,
+  generateSlots,
+  groupSlotsByDay,
+  bookingDurationMinutes,
+  isUpcomingBooking,
+  canJoinBooking,
+} from './bookingSlots';
+export type { BookingSlot, SlotOptions } from './bookingSlots';
@@ -0,0 +1,47 @@
+import { CheckCircle, Clock, XCircle, AlertTriangle } from 'lucide-react';
+import { Certificate } from '../../types';
+import { certificateStatus, expiryState, formatExpiry } from './certificateStatus';
+
+// Review state, plus an expiry warning for approved certificates
+export function CertificateStatusBadge({ cert }: { cert: Certificate }) {
+  const status = certificateStatus(cert);
+  const expiry = expiryState(cert.expiryDate);
+
+  if (status === 'APPROVED' && (expiry === 'EXPIRED' || expiry === 'EXPIRING')) {
+    return (
+      <span
+        className={`inline-flex items-center gap-1 px-1.5 py-0.5 text-xs rounded border ${
+          expiry === 'EXPIRED'
+            ? 'bg-red-500/10 text-red-400 border-red-500/30'
+            : 'bg-amber-500/10 text-amber-400 border-amber-500/30'
+        }`}
+      >
+        <AlertTriangle className="w-3 h-3" /> {formatExpiry(cert.expiryDate)}
+      </span>
+    );
+  }
+
+  if (status === 'APPROVED') {
+    return (
+      <span className="inline-flex items-center gap-1 px-1.5 py-0.5 text-xs rounded border bg-emerald-500/10 text-emerald-400 border-emerald-500/30">
+        <CheckCircle className="w-3 h-3" /> Verified
+      </span>
+    );
+  }
+
+  if (status === 'REJECTED') {
+    return (
+      <span className="inline-flex items-center gap-1 px-1.5 py-0.5 text-xs rounded border bg-red-500/10 text-red-400 border-red-500/30">
+        <XCircle className="w-3 h-3" /> Rejected
+      </span>
+    );
+  }
+
+  return (
+    <span className="inline-flex items-center gap-1 px-1.5 py-0.5 text-xs rounded border bg-gray-500/10 text-gray-400 border-gray-500/30">
+      <Clock className="w-3 h-3" /> Pending review
+    </span>
+  );
+}
+
+export default CertificateStatusBadge;
@@ -0,0 +1,48 @@
+import { ExternalLink, FileText } from 'lucide-react';
+import { documentKind } from './certificateStatus';
+
+interface DocumentPreviewProps {
+  url?: string;
+  title: string;
+}
+
+// Inline preview of an uploaded certificate; anything else opens in a new tab
+export function DocumentPreview({ url, title }: DocumentPreviewProps) {
+  if (!url) {
+    return (
+      <div className="flex flex-col items-center justify-center h-64 bg-[#2c2d32] rounded-lg text-gray-500">
+        <FileText className="w-10 h-10 mb-2 text-gray-600" />
+        <p className="text-sm">No document was uploaded</p>
+      </div>
+    );
+  }
+
+  const kind = documentKind(url);
+
+  return (
+    <div className="space-y-2">
+      {kind === 'image' && (
+        <img src={url} alt={title} className="w-full max-h-[70vh] object-contain bg-[#2c2d32] rounded-lg" />
+      )}
+      {kind === 'pdf' && (
+        <iframe src={url} title={title} className="w-full h-[70vh] bg-white rounded-lg" />
+      )}
+      {kind === 'other' && (
+        <div className="flex flex-col items-center justify-center h-64 bg-[#2c2d32] rounded-lg text-gray-500">
+          <FileText className="w-10 h-10 mb-2 text-gray-600" />
+          <p className="text-sm">This file type can't be previewed here</p>
+        </div>
+      )}
+      <a
+        href={url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="inline-flex items-center gap-1 text-sm text-primary-400 hover:text-primary-300"
+      >
+        <ExternalLink className="w-4 h-4" /> Open original
+      </a>
+    </div>
+  );
+}
+
+export default DocumentPreview;
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest'
+import { certificateStatus, daysUntilExpiry, expiryState, formatExpiry, documentKind } from './certificateStatus'
+
+const now = new Date('2026-03-01T12:00:00Z')
+
+describe('certificateStatus', () => {
+  it('falls back to the verified flag for older certificates', () => {
+    expect(certificateStatus({ name: 'A', issuedBy: 'B', verified: true })).toBe('APPROVED')
+    expect(certificateStatus({ name: 'A', issuedBy: 'B' })).toBe('PENDING')
+    expect(certificateStatus({ name: 'A', issuedBy: 'B', verified: false, status: 'REJECTED' })).toBe('REJECTED')
+  })
+})
+
+describe('expiry', () => {
+  it('classifies certificates by days left', () => {
+    expect(daysUntilExpiry(undefined, now)).toBeNull()
+    expect(expiryState(undefined, now)).toBe('NONE')
+    expect(expiryState('2026-02-20T00:00:00Z', now)).toBe('EXPIRED')
+    expect(expiryState('2026-03-15T00:00:00Z', now)).toBe('EXPIRING')
+    expect(expiryState('2026-06-01T00:00:00Z', now)).toBe('VALID')
+    expect(expiryState('2026-03-15T00:00:00Z', now, 7)).toBe('VALID')
+  })
+
+  it('describes the time left', () => {
+    expect(formatExpiry('2026-03-02T12:00:00Z', now)).toBe('Expires in 1 day')
+    expect(formatExpiry('2026-02-27T12:00:00Z', now)).toBe('Expired 2 days ago')
+    expect(formatExpiry(undefined, now)).toBe('No expiry')
+  })
+})
+
+describe('documentKind', () => {
+  it('detects previewable documents from the url', () => {
+    expect(documentKind('https://cdn.example.com/certs/a.PDF?sig=1')).toBe('pdf')
+    expect(documentKind('https://cdn.example.com/certs/a.jpeg')).toBe('image')
+    expect(documentKind('https://cdn.example.com/certs/a.docx')).toBe('other')
+    expect(documentKind(undefined)).toBe('other')
+  })
+})
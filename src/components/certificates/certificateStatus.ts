@@ -0,0 +1,56 @@
+import type { Certificate, CertificateRejectionReason, CertificateStatus } from '../../types';
+
+export const REJECTION_REASON_LABELS: Record<CertificateRejectionReason, string> = {
+  UNREADABLE: 'Document is unreadable',
+  NAME_MISMATCH: "Name doesn't match the tutor",
+  UNVERIFIABLE_ISSUER: "Issuer couldn't be verified",
+  EXPIRED: 'Certificate has expired',
+  NOT_RELEVANT: 'Not relevant to tutoring',
+  OTHER: 'Other',
+};
+
+// Approved certificates expiring within this many days show up in the expiry watch
+export const EXPIRY_WARNING_DAYS = 30;
+
+export type ExpiryState = 'NONE' | 'VALID' | 'EXPIRING' | 'EXPIRED';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Certificates from before the review workflow only have the verified flag
+export function certificateStatus(cert: Certificate): CertificateStatus {
+  return cert.status ?? (cert.verified ? 'APPROVED' : 'PENDING');
+}
+
+// Whole days until expiry (negative once expired), or null without an expiry date
+export function daysUntilExpiry(expiryDate: string | undefined, now = new Date()): number | null {
+  if (!expiryDate) return null;
+  const expiry = new Date(expiryDate);
+  if (Number.isNaN(expiry.getTime())) return null;
+  return Math.ceil((expiry.getTime() - now.getTime()) / DAY_MS);
+}
+
+export function expiryState(expiryDate: string | undefined, now = new Date(), warningDays = EXPIRY_WARNING_DAYS): ExpiryState {
+  const days = daysUntilExpiry(expiryDate, now);
+  if (days === null) return 'NONE';
+  if (days <= 0) return 'EXPIRED';
+  return days <= warningDays ? 'EXPIRING' : 'VALID';
+}
+
+export function formatExpiry(expiryDate: string | undefined, now = new Date()): string {
+  const days = daysUntilExpiry(expiryDate, now);
+  if (days === null) return 'No expiry';
+  if (days < 0) return `Expired ${-days} day${days === -1 ? '' : 's'} ago`;
+  if (days === 0) return 'Expires today';
+  return `Expires in ${days} day${days === 1 ? '' : 's'}`;
+}
+
+export type DocumentKind = 'image' | 'pdf' | 'other';
+
+// Decides how the admin preview renders an uploaded document
+export function documentKind(url: string | undefined): DocumentKind {
+  if (!url) return 'other';
+  const path = url.split(/[?#]/)[0].toLowerCase();
+  if (/\.(png|jpe?g|gif|webp|bmp|svg)$/.test(path)) return 'image';
+  if (path.endsWith('.pdf')) return 'pdf';
+  return 'other';
+}
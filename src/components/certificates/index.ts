@@ -0,0 +1,12 @@
+export { DocumentPreview } from './DocumentPreview';
+export { CertificateStatusBadge } from './CertificateStatusBadge';
+export {
+  REJECTION_REASON_LABELS,
+  EXPIRY_WARNING_DAYS,
+  certificateStatus,
+  daysUntilExpiry,
+  expiryState,
+  formatExpiry,
+  documentKind,
+} from './certificateStatus';
+export type { ExpiryState, DocumentKind } from './certificateStatus';
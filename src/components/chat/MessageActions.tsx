@@ -1,7 +1,9 @@
 import { useState } from 'react';
-import { ThumbsUp, ThumbsDown, Copy, Volume2, VolumeX, Check } from 'lucide-react';
+import { ThumbsUp, ThumbsDown, Copy, Volume2, VolumeX, Check, Layers } from 'lucide-react';
 import { messagesApi } from '../../api';
-import { SenderType, ReactionType } from '../../types';
+import { SenderType, ReactionType, Role } from '../../types';
+import { useAuth } from '../../contexts/AuthContext';
+import { MakeCardModal } from '../flashcards/MakeCardModal';
 import toast from 'react-hot-toast';
 
 interface MessageActionsProps {
@@ -29,6 +31,8 @@ export function MessageActions({
   const [localLikeCount, setLocalLikeCount] = useState(likeCount);
   const [localDislikeCount, setLocalDislikeCount] = useState(dislikeCount);
   const [localUserReaction, setLocalUserReaction] = useState(userReaction);
+  const [showMakeCard, setShowMakeCard] = useState(false);
+  const { user } = useAuth();
 
   // Only show actions for TUTOR messages
   if (senderType !== SenderType.TUTOR || !content) return null;
@@ -173,6 +177,25 @@ export function MessageActions({
       >
         {isSpeaking ? <VolumeX className="w-3 h-3" /> : <Volume2 className="w-3 h-3" />}
       </button>
+
+      {/* Make a flashcard (students only) */}
+      {user?.role === Role.STUDENT && (
+        <>
+          <button
+            onClick={() => setShowMakeCard(true)}
+            className="flex items-center gap-1 px-1.5 py-0.5 rounded text-xs text-gray-500 hover:text-gray-300 hover:bg-gray-700/50 transition-all"
+            title="Make a flashcard"
+          >
+            <Layers className="w-3 h-3" />
+          </button>
+          <MakeCardModal
+            isOpen={showMakeCard}
+            onClose={() => setShowMakeCard(false)}
+            content={content}
+            sourceId={messageId}
+          />
+        </>
+      )}
     </div>
   );
 }
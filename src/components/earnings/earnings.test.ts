@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+import { buildStatements, earningsLines, periodStart, statementsToCsv } from './earnings'
+import { CallEvent, CallType } from '../../types'
+import type { CallLog, EarningsActivity, TutorSession } from '../../types'
+
+// Local-time timestamps so week and month boundaries don't depend on the machine's zone
+const at = (month: number, day: number, hour = 10) => new Date(2026, month - 1, day, hour).toISOString()
+
+const session = (id: string, startedAt: string, duration: number, status: TutorSession['status'] = 'COMPLETED') =>
+  ({ id, status, topic: 'Fractions', student: { id: 's1', name: 'Ana' }, startedAt, duration, createdAt: startedAt }) as TutorSession
+
+const call = (id: string, startedAt: string, duration: number | null, status = CallEvent.ENDED) =>
+  ({ id, status, callType: CallType.AUDIO, duration, startedAt, answeredAt: startedAt, otherParty: { name: 'Ben' } }) as CallLog
+
+const activity = (overrides: Partial<EarningsActivity> = {}): EarningsActivity => ({
+  hourlyRate: 30,
+  currency: 'USD',
+  sessions: [],
+  calls: [],
+  disputes: [],
+  ...overrides,
+})
+
+describe('earningsLines', () => {
+  it('pays completed sessions and answered calls by the second', () => {
+    const lines = earningsLines(activity({
+      sessions: [session('a', at(3, 2), 3600), session('b', at(3, 3), 1800, 'CANCELLED')],
+      calls: [call('c', at(3, 4), 600), call('d', at(3, 4), null, CallEvent.MISSED)],
+    }))
+    expect(lines.map((l) => [l.key, l.amount])).toEqual([['TUTOR_SESSION:a', 30], ['CALL:c', 5]])
+  })
+
+  it('flags open disputes and applies resolved adjustments', () => {
+    const lines = earningsLines(activity({
+      sessions: [session('a', at(3, 2), 3600), session('b', at(3, 3), 3600)],
+      disputes: [
+        { id: 'd1', source: 'TUTOR_SESSION', sourceId: 'a', reason: 'Ended late', status: 'OPEN', createdAt: at(3, 5) },
+        { id: 'd2', source: 'TUTOR_SESSION', sourceId: 'b', reason: 'Cut off', status: 'RESOLVED', adjustedSeconds: 5400, createdAt: at(3, 5) },
+      ],
+    }))
+    expect(lines.map((l) => [l.isDisputed, l.amount])).toEqual([[true, 30], [false, 45]])
+  })
+})
+
+describe('buildStatements', () => {
+  it('groups by Monday-start week, newest first, holding disputed amounts', () => {
+    // Sunday Mar 8 belongs to the week of Monday Mar 2
+    expect(periodStart(new Date(at(3, 8)), 'WEEK').getDate()).toBe(2)
+
+    const lines = earningsLines(activity({
+      sessions: [session('a', at(3, 2), 3600), session('b', at(3, 8), 1800), session('c', at(3, 9), 3600)],
+      disputes: [{ id: 'd1', source: 'TUTOR_SESSION', sourceId: 'b', reason: 'x', status: 'OPEN', createdAt: at(3, 9) }],
+    }))
+    const weekly = buildStatements(lines, 'WEEK')
+    expect(weekly.map((s) => [s.lines.length, s.gross, s.disputed, s.payable])).toEqual([[1, 30, 0, 30], [2, 45, 15, 30]])
+    expect(buildStatements(lines, 'MONTH')).toHaveLength(1)
+  })
+})
+
+describe('statementsToCsv', () => {
+  it('quotes text cells that need it and adds a total row', () => {
+    const lines = earningsLines(activity({ sessions: [{ ...session('a', at(3, 2), 3600), topic: 'Ratios, "hard" ones' }] }))
+    const rows = statementsToCsv(buildStatements(lines, 'MONTH')).split('\n')
+    expect(rows).toHaveLength(3)
+    expect(rows[1]).toContain('"Ratios, ""hard"" ones",60,30.00')
+    expect(rows[2]).toContain('Total payable,,,60,30.00')
+  })
+})
@@ -0,0 +1,202 @@
+import type {
+  EarningsActivity,
+  EarningsDispute,
+  EarningsPeriod,
+  EarningsSource,
+  PayoutBatchStatus,
+} from '../../types';
+import { CallEvent, CallType } from '../../types';
+import { CsvValue, toCsv } from '../export/csv';
+
+// ============================================
+// Tutor earnings statements
+// ============================================
+//
+// Earnings are paid by the second at the tutor's hourly rate for completed
+// tutor sessions and answered calls. Lines under an open dispute still show
+// on statements but are held out of the payable total until an admin
+// resolves them, possibly with a corrected duration.
+
+export interface EarningsLine {
+  // `${source}:${sourceId}`, unique across sessions and calls
+  key: string;
+  source: EarningsSource;
+  sourceId: string;
+  description: string;
+  studentName: string;
+  startedAt: string;
+  seconds: number;
+  amount: number;
+  dispute?: EarningsDispute;
+  isDisputed: boolean;
+}
+
+export interface EarningsStatement {
+  period: EarningsPeriod;
+  // ISO, start inclusive / end exclusive
+  start: string;
+  end: string;
+  lines: EarningsLine[];
+  seconds: number;
+  gross: number;
+  disputed: number;
+  payable: number;
+}
+
+export const PAYOUT_STATUS_LABELS: Record<PayoutBatchStatus, string> = {
+  PENDING_APPROVAL: 'Awaiting approval',
+  APPROVED: 'Approved',
+  REJECTED: 'Rejected',
+  PAID: 'Paid',
+};
+
+export const PAYOUT_STATUS_STYLES: Record<PayoutBatchStatus, string> = {
+  PENDING_APPROVAL: 'bg-amber-500/20 text-amber-400',
+  APPROVED: 'bg-blue-500/20 text-blue-400',
+  REJECTED: 'bg-red-500/20 text-red-400',
+  PAID: 'bg-emerald-500/20 text-emerald-400',
+};
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+export const lineKey = (source: EarningsSource, sourceId: string) => `${source}:${sourceId}`;
+
+export function earningsAmount(seconds: number, hourlyRate: number): number {
+  return roundCents((seconds / 3600) * hourlyRate);
+}
+
+export function earningsLines({ hourlyRate, sessions, calls, disputes }: EarningsActivity): EarningsLine[] {
+  const disputeFor = new Map(disputes.map((d) => [lineKey(d.source, d.sourceId), d]));
+
+  const toLine = (
+    source: EarningsSource,
+    sourceId: string,
+    recordedSeconds: number,
+    rest: Pick<EarningsLine, 'description' | 'studentName' | 'startedAt'>
+  ): EarningsLine => {
+    const key = lineKey(source, sourceId);
+    const dispute = disputeFor.get(key);
+    const isDisputed = dispute?.status === 'OPEN';
+    const seconds = dispute?.status === 'RESOLVED' && dispute.adjustedSeconds != null ? dispute.adjustedSeconds : recordedSeconds;
+    return { key, source, sourceId, ...rest, seconds, amount: earningsAmount(seconds, hourlyRate), dispute, isDisputed };
+  };
+
+  const sessionLines = sessions
+    .filter((s) => s.status === 'COMPLETED' && (s.duration ?? 0) > 0)
+    .map((s) =>
+      toLine('TUTOR_SESSION', s.id, s.duration ?? 0, {
+        description: s.topic || 'Tutoring session',
+        studentName: s.student.name,
+        startedAt: s.startedAt || s.createdAt,
+      })
+    );
+
+  // Missed and rejected calls have no duration
+  const callLines = calls
+    .filter((c) => c.status === CallEvent.ENDED && (c.duration ?? 0) > 0)
+    .map((c) =>
+      toLine('CALL', c.id, c.duration ?? 0, {
+        description: `${c.callType === CallType.VIDEO ? 'Video' : 'Audio'} call`,
+        studentName: c.otherParty.name,
+        startedAt: c.answeredAt || c.startedAt,
+      })
+    );
+
+  return [...sessionLines, ...callLines].sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+}
+
+// Weeks start on Monday; both use the viewer's local time
+export function periodStart(date: Date, period: EarningsPeriod): Date {
+  if (period === 'MONTH') return new Date(date.getFullYear(), date.getMonth(), 1);
+  const daysSinceMonday = (date.getDay() + 6) % 7;
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() - daysSinceMonday);
+}
+
+export function periodEnd(start: Date, period: EarningsPeriod): Date {
+  return period === 'MONTH'
+    ? new Date(start.getFullYear(), start.getMonth() + 1, 1)
+    : new Date(start.getFullYear(), start.getMonth(), start.getDate() + 7);
+}
+
+// One statement per period that has work in it, newest first
+export function buildStatements(lines: EarningsLine[], period: EarningsPeriod): EarningsStatement[] {
+  const byPeriod = new Map<number, EarningsLine[]>();
+  for (const line of lines) {
+    const start = periodStart(new Date(line.startedAt), period).getTime();
+    byPeriod.set(start, [...(byPeriod.get(start) ?? []), line]);
+  }
+
+  return [...byPeriod.entries()]
+    .sort(([a], [b]) => b - a)
+    .map(([startMs, periodLines]) => {
+      const start = new Date(startMs);
+      const gross = roundCents(periodLines.reduce((sum, l) => sum + l.amount, 0));
+      const disputed = roundCents(periodLines.filter((l) => l.isDisputed).reduce((sum, l) => sum + l.amount, 0));
+      return {
+        period,
+        start: start.toISOString(),
+        end: periodEnd(start, period).toISOString(),
+        lines: periodLines,
+        seconds: periodLines.reduce((sum, l) => sum + l.seconds, 0),
+        gross,
+        disputed,
+        payable: roundCents(gross - disputed),
+      };
+    });
+}
+
+export function statementLabel(statement: Pick<EarningsStatement, 'period' | 'start' | 'end'>): string {
+  const start = new Date(statement.start);
+  if (statement.period === 'MONTH') {
+    return start.toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+  }
+  const last = new Date(new Date(statement.end).getTime() - 1);
+  const day = (d: Date) => d.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+  return `${day(start)} – ${day(last)}, ${last.getFullYear()}`;
+}
+
+export function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+  } catch {
+    // Unknown currency codes from the server
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
+
+export function formatWorked(seconds: number): string {
+  const minutes = Math.round(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+  if (hours === 0) return `${minutes}m`;
+  return minutes % 60 === 0 ? `${hours}h` : `${hours}h ${minutes % 60}m`;
+}
+
+// One row per line, grouped by statement, with a total row per statement
+export function statementsToCsv(statements: EarningsStatement[]): string {
+  const rows: CsvValue[][] = [
+    ['Period', 'Date', 'Type', 'Student', 'Description', 'Minutes', 'Amount', 'Status'],
+  ];
+  for (const statement of statements) {
+    const label = statementLabel(statement);
+    for (const line of statement.lines) {
+      rows.push([
+        label,
+        line.startedAt.slice(0, 10),
+        line.source === 'CALL' ? 'Call' : 'Session',
+        line.studentName,
+        line.description,
+        Math.round(line.seconds / 60),
+        line.amount.toFixed(2),
+        line.isDisputed ? 'Disputed' : line.dispute?.status === 'RESOLVED' ? 'Adjusted' : '',
+      ]);
+    }
+    rows.push([label, '', 'Total payable', '', '', Math.round(statement.seconds / 60), statement.payable.toFixed(2), '']);
+  }
+  return toCsv(rows);
+}
+
+export function statementsFilename(period: EarningsPeriod, statements: EarningsStatement[], extension: string): string {
+  const dates = statements.map((s) => s.start.slice(0, 10)).sort();
+  const range = dates.length > 1 ? `${dates[0]}_to_${dates[dates.length - 1]}` : dates[0] ?? 'empty';
+  return `earnings-${period.toLowerCase()}ly-${range}.${extension}`;
+}
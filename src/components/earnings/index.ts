@@ -0,0 +1,17 @@
+export {
+  PAYOUT_STATUS_LABELS,
+  PAYOUT_STATUS_STYLES,
+  lineKey,
+  earningsAmount,
+  earningsLines,
+  periodStart,
+  periodEnd,
+  buildStatements,
+  statementLabel,
+  formatMoney,
+  formatWorked,
+  statementsToCsv,
+  statementsFilename,
+} from './earnings';
+export type { EarningsLine, EarningsStatement } from './earnings';
+export { printStatements } from './printStatements';
@@ -0,0 +1,53 @@
+import { escapeHtml, printHtml } from '../export';
+import { EarningsStatement, formatMoney, formatWorked, statementLabel } from './earnings';
+
+// ============================================
+// Print-ready earnings statements (Save as PDF)
+// ============================================
+//
+// One page per statement, printed through the shared hidden-iframe helper.
+
+const PRINT_STYLES = `
+  @page { margin: 16mm; }
+  body { margin: 0; font-family: Georgia, 'Times New Roman', serif; font-size: 10.5pt; color: #1a1a1a; }
+  section { break-after: page; }
+  section:last-child { break-after: auto; }
+  h1 { font-size: 16pt; margin: 0 0 2px; }
+  .meta { color: #555; margin: 0 0 14px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { border-bottom: 1px solid #ddd; padding: 5px 6px; text-align: left; }
+  th { font-size: 9pt; text-transform: uppercase; color: #555; }
+  td.num, th.num { text-align: right; }
+  tr.disputed td { color: #b45309; }
+  tfoot td { border-bottom: 0; font-weight: bold; }
+`;
+
+function statementHtml(statement: EarningsStatement, tutorName: string, currency: string): string {
+  const rows = statement.lines.map((line) => `
+    <tr${line.isDisputed ? ' class="disputed"' : ''}>
+      <td>${new Date(line.startedAt).toLocaleDateString()}</td>
+      <td>${escapeHtml(line.studentName)}</td>
+      <td>${escapeHtml(line.description)}${line.isDisputed ? ' (disputed)' : ''}</td>
+      <td class="num">${formatWorked(line.seconds)}</td>
+      <td class="num">${formatMoney(line.amount, currency)}</td>
+    </tr>`).join('');
+
+  return `<section>
+    <h1>Earnings statement · ${escapeHtml(statementLabel(statement))}</h1>
+    <p class="meta">${escapeHtml(tutorName)} · generated ${new Date().toLocaleString()}</p>
+    <table>
+      <thead><tr><th>Date</th><th>Student</th><th>Description</th><th class="num">Time</th><th class="num">Amount</th></tr></thead>
+      <tbody>${rows}</tbody>
+      <tfoot>
+        <tr><td colspan="3">Gross</td><td class="num">${formatWorked(statement.seconds)}</td><td class="num">${formatMoney(statement.gross, currency)}</td></tr>
+        ${statement.disputed > 0 ? `<tr><td colspan="4">Held for disputes</td><td class="num">−${formatMoney(statement.disputed, currency)}</td></tr>` : ''}
+        <tr><td colspan="4">Payable</td><td class="num">${formatMoney(statement.payable, currency)}</td></tr>
+      </tfoot>
+    </table>
+  </section>`;
+}
+
+export function printStatements(statements: EarningsStatement[], tutorName: string, currency: string): Promise<void> {
+  const body = statements.map((s) => statementHtml(s, tutorName, currency)).join('\n');
+  return printHtml(body, 'Earnings statements', { styles: PRINT_STYLES });
+}
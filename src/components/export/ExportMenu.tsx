@@ -0,0 +1,109 @@
+import { useState, useRef, useEffect } from 'react';
+import { Download, FileText, FileJson, Printer, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+  Transcript,
+  TranscriptFormat,
+  transcriptToMarkdown,
+  transcriptToJSON,
+  transcriptFilename,
+  downloadTextFile,
+} from './transcript';
+import { printTranscript } from './printTranscript';
+
+interface ExportMenuProps {
+  // Fetched on demand so the export always reflects the saved conversation
+  loadTranscript: () => Promise<Transcript>;
+  label?: string;
+  className?: string;
+}
+
+const FORMAT_OPTIONS: { format: TranscriptFormat; label: string; hint: string; icon: typeof FileText }[] = [
+  { format: 'markdown', label: 'Markdown', hint: '.md', icon: FileText },
+  { format: 'pdf', label: 'PDF', hint: 'Print-ready, with math', icon: Printer },
+  { format: 'json', label: 'JSON archive', hint: 'Includes sources & reasoning', icon: FileJson },
+];
+
+export function ExportMenu({ loadTranscript, label = 'Export', className = '' }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [exporting, setExporting] = useState<TranscriptFormat | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const handleExport = async (format: TranscriptFormat) => {
+    setExporting(format);
+    try {
+      const transcript = await loadTranscript();
+      if (transcript.messages.length === 0) {
+        toast.error('Nothing to export yet');
+        return;
+      }
+
+      switch (format) {
+        case 'markdown':
+          downloadTextFile(transcriptToMarkdown(transcript), transcriptFilename(transcript, 'md'), 'text/markdown;charset=utf-8');
+          break;
+        case 'json':
+          downloadTextFile(transcriptToJSON(transcript), transcriptFilename(transcript, 'json'), 'application/json');
+          break;
+        case 'pdf':
+          await printTranscript(transcript);
+          break;
+      }
+      setIsOpen(false);
+    } catch (error) {
+      console.error('[ExportMenu] Export failed:', error);
+      toast.error('Failed to export chat');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div ref={menuRef} className={`relative ${className}`}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1.5 px-3 py-2 text-sm text-gray-400 hover:text-white hover:bg-gray-800 rounded-lg transition-colors"
+        title="Export chat"
+      >
+        <Download className="w-4 h-4" />
+        {label && <span className="hidden sm:inline">{label}</span>}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-1 w-60 bg-[#1e1e1e] border border-gray-700/60 rounded-xl shadow-2xl py-1 z-50 animate-fade-in">
+          {FORMAT_OPTIONS.map(({ format, label: optionLabel, hint, icon: Icon }) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              disabled={exporting !== null}
+              className="w-full flex items-center gap-3 px-3 py-2 text-left hover:bg-gray-800/60 transition-colors disabled:opacity-50"
+            >
+              {exporting === format ? (
+                <Loader2 className="w-4 h-4 text-violet-400 animate-spin flex-shrink-0" />
+              ) : (
+                <Icon className="w-4 h-4 text-gray-400 flex-shrink-0" />
+              )}
+              <span className="flex-1 min-w-0">
+                <span className="block text-sm text-gray-200">{optionLabel}</span>
+                <span className="block text-[11px] text-gray-500">{hint}</span>
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ExportMenu;
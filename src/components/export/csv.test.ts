@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest'
+import { csvCell, toCsv } from './csv'
+
+describe('csv', () => {
+  it('quotes only cells that need it', () => {
+    expect(csvCell('plain')).toBe('plain')
+    expect(csvCell(12.5)).toBe('12.5')
+    expect(csvCell('Smith, Jo')).toBe('"Smith, Jo"')
+    expect(csvCell('say "hi"')).toBe('"say ""hi"""')
+    expect(csvCell('two\nlines')).toBe('"two\nlines"')
+  })
+
+  it('quotes bare carriage returns', () => {
+    expect(csvCell('one\rtwo')).toBe('"one\rtwo"')
+  })
+
+  it('prefixes cells that would run as formulas', () => {
+    expect(csvCell('=SUM(A1:A2)')).toBe("'=SUM(A1:A2)")
+    expect(csvCell('+1 555')).toBe("'+1 555")
+    expect(csvCell('@cmd')).toBe("'@cmd")
+    expect(csvCell('-2+3,x')).toBe(`"'-2+3,x"`)
+    expect(csvCell('-5.00')).toBe('-5.00')
+    expect(csvCell(-5)).toBe('-5')
+  })
+
+  it('joins rows and cells', () => {
+    expect(toCsv([['Name', 'Minutes'], ['Ann, B', 30]])).toBe('Name,Minutes\n"Ann, B",30')
+  })
+})
@@ -0,0 +1,22 @@
+// ============================================
+// CSV helpers
+// ============================================
+
+export type CsvValue = string | number;
+
+// Spreadsheets run text starting with these as a formula; plain numbers like -5.00 are left alone
+const FORMULA_START = /^[=+\-@]/;
+const PLAIN_NUMBER = /^[-+]?\d+(\.\d+)?$/;
+
+// Quote cells that contain separators, quotes or line breaks, and defuse formulas
+export const csvCell = (value: CsvValue) => {
+  let text = String(value);
+  if (typeof value === 'string' && FORMULA_START.test(text) && !PLAIN_NUMBER.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv(rows: CsvValue[][]): string {
+  return rows.map((row) => row.map(csvCell).join(',')).join('\n');
+}
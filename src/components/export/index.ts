@@ -0,0 +1,17 @@
+export { ExportMenu } from './ExportMenu';
+export { printTranscript } from './printTranscript';
+export { printHtml, escapeHtml } from './printHtml';
+export { csvCell, toCsv } from './csv';
+export {
+  transcriptFromAIChat,
+  transcriptFromProjectChat,
+  transcriptFromTutorSession,
+  transcriptToMarkdown,
+  transcriptToJSON,
+  transcriptFilename,
+  downloadTextFile,
+  downloadBlob,
+} from './transcript';
+export type { Transcript, TranscriptMessage, TranscriptAttachment, TranscriptFormat, TranscriptSource } from './transcript';
+export type { PrintHtmlOptions } from './printHtml';
+export type { CsvValue } from './csv';
@@ -0,0 +1,69 @@
+// ============================================
+// Hidden-iframe printing (Save as PDF)
+// ============================================
+//
+// Every "PDF" export in the app is an HTML document written into a hidden
+// iframe and handed to the browser's print dialog. The iframe is removed
+// once printing finishes.
+
+export interface PrintHtmlOptions {
+  // Print stylesheet for the document
+  styles?: string;
+  // Extra markup for <head>, e.g. the app's own stylesheets
+  head?: string;
+}
+
+export const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export async function printHtml(body: string, title: string, options: PrintHtmlOptions = {}): Promise<void> {
+  const iframe = document.createElement('iframe');
+  iframe.style.cssText = 'position:fixed;right:0;bottom:0;width:0;height:0;border:0;visibility:hidden;';
+  document.body.appendChild(iframe);
+
+  const frameWindow = iframe.contentWindow;
+  const frameDocument = iframe.contentDocument;
+  if (!frameWindow || !frameDocument) {
+    iframe.remove();
+    throw new Error('Print frame unavailable');
+  }
+
+  frameDocument.open();
+  frameDocument.write(`<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <title>${escapeHtml(title)}</title>
+    ${options.head ?? ''}
+    ${options.styles ? `<style>${options.styles}</style>` : ''}
+  </head>
+  <body>${body}</body>
+</html>`);
+  frameDocument.close();
+
+  await new Promise<void>((resolve) => {
+    const cleanup = () => {
+      iframe.remove();
+      resolve();
+    };
+
+    const print = async () => {
+      // KaTeX and Excalidraw glyphs come from web fonts; printing before they
+      // load shows fallbacks
+      await frameDocument.fonts?.ready.catch(() => undefined);
+      frameWindow.focus();
+      frameWindow.addEventListener('afterprint', cleanup, { once: true });
+      frameWindow.print();
+      // Browsers that don't fire afterprint for iframes
+      setTimeout(cleanup, 60_000);
+    };
+
+    if (frameDocument.readyState === 'complete') {
+      print();
+    } else {
+      iframe.addEventListener('load', () => print(), { once: true });
+    }
+  });
+}
+
+export default printHtml;
@@ -0,0 +1,45 @@
+import { renderToStaticMarkup } from 'react-dom/server';
+import { Markdown } from '../ui/Markdown';
+import { Transcript, transcriptToMarkdown } from './transcript';
+import { escapeHtml, printHtml } from './printHtml';
+
+// ============================================
+// Print-ready transcript (Save as PDF)
+// ============================================
+//
+// The transcript is rendered through the shared Markdown component into a
+// hidden iframe that reuses the app's stylesheets (KaTeX fonts, code theme),
+// then handed to the browser's print dialog.
+
+const PRINT_STYLES = `
+  @page { margin: 18mm 16mm; }
+  html, body { background: #fff !important; color: #1a1a1a !important; }
+  body { font-family: Georgia, 'Times New Roman', serif; font-size: 12pt; line-height: 1.55; margin: 0; padding: 0 4px; }
+  h1 { font-size: 20pt; margin: 0 0 4px; }
+  h3 { font-size: 12pt; margin: 18px 0 6px; color: #4c1d95; }
+  h4 { font-size: 11pt; margin: 12px 0 4px; }
+  hr { border: 0; border-top: 1px solid #ddd; margin: 16px 0; }
+  a { color: #5b21b6; word-break: break-all; }
+  table { border-collapse: collapse; margin: 8px 0; }
+  th, td { border: 1px solid #ccc; padding: 4px 8px; }
+  pre, code, .hljs { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  pre { white-space: pre-wrap; break-inside: avoid; }
+  .katex-display { overflow: visible; }
+  button { display: none !important; }
+`;
+
+function collectStylesheets(): string {
+  return Array.from(document.querySelectorAll('link[rel="stylesheet"], style'))
+    .map((node) => node.outerHTML)
+    .join('\n');
+}
+
+export function printTranscript(transcript: Transcript): Promise<void> {
+  const body = renderToStaticMarkup(<Markdown>{transcriptToMarkdown(transcript)}</Markdown>);
+  return printHtml(body, transcript.title, {
+    head: `<base href="${escapeHtml(window.location.origin)}/" />\n${collectStylesheets()}`,
+    styles: PRINT_STYLES,
+  });
+}
+
+export default printTranscript;
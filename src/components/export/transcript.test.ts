@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import type { AIChatSession, AIMessage } from '../../types'
+import { transcriptFromAIChat, transcriptToMarkdown, transcriptToJSON, transcriptFilename } from './transcript'
+
+const session = {
+  id: 'session-1',
+  title: 'Photosynthesis: Basics!',
+  subject: 'BIOLOGY',
+} as AIChatSession
+
+const message = (overrides: Partial<AIMessage>): AIMessage => ({
+  id: 'm',
+  sessionId: 'session-1',
+  role: 'ASSISTANT',
+  content: null,
+  attachments: null,
+  audioUrl: null,
+  transcription: null,
+  isStreaming: false,
+  isComplete: true,
+  hasError: false,
+  errorMessage: null,
+  feedback: null,
+  councilResponses: null,
+  createdAt: '2024-05-01T10:00:00.000Z',
+  ...overrides,
+})
+
+const messages: AIMessage[] = [
+  message({
+    id: 'm1',
+    role: 'USER',
+    content: 'What is $6CO_2$?',
+    attachments: [{ url: 'https://files/leaf.png', name: 'leaf.png', type: 'image', size: 2048 }],
+  }),
+  message({
+    id: 'm2',
+    content: 'Carbon dioxide.',
+    thinkingTrace: ['Identify the molecule'],
+    sources: [{ title: 'Textbook', url: 'https://example.com' }, { title: 'Class notes' }],
+    councilResponses: [{ memberId: 'clarity', memberName: 'Clara', memberLabel: 'Clarity', content: 'Six molecules.' }],
+  }),
+  message({ id: 'm3', content: null }),
+]
+
+describe('transcript export', () => {
+  it('drops empty messages and keeps rich metadata', () => {
+    const transcript = transcriptFromAIChat(session, messages)
+    expect(transcript.messages.map((m) => m.id)).toEqual(['m1', 'm2'])
+    expect(transcript.messages[0].thinkingTrace).toBeUndefined()
+    expect(transcript.messages[1].thinkingTrace).toEqual(['Identify the molecule'])
+  })
+
+  it('renders attachments, council responses and sources to Markdown', () => {
+    const markdown = transcriptToMarkdown(transcriptFromAIChat(session, messages))
+    expect(markdown).toContain('# Photosynthesis: Basics!')
+    expect(markdown).toContain('What is $6CO_2$?')
+    expect(markdown).toContain('- [leaf.png](https://files/leaf.png) (2.0 KB)')
+    expect(markdown).toContain('#### Clara — Clarity')
+    expect(markdown).toContain('- [Textbook](https://example.com)')
+    expect(markdown).toContain('- Class notes')
+    expect(markdown).not.toContain('Identify the molecule')
+  })
+
+  it('keeps thinking traces in the JSON archive', () => {
+    const archive = JSON.parse(transcriptToJSON(transcriptFromAIChat(session, messages)))
+    expect(archive.version).toBe(1)
+    expect(archive.source).toBe('ai-chat')
+    expect(archive.messages[1].thinkingTrace).toEqual(['Identify the molecule'])
+  })
+
+  it('builds a file-system friendly filename', () => {
+    const transcript = { ...transcriptFromAIChat(session, messages), exportedAt: '2024-05-02T08:00:00.000Z' }
+    expect(transcriptFilename(transcript, 'md')).toBe('photosynthesis-basics-2024-05-02.md')
+  })
+})
@@ -0,0 +1,216 @@
+import type {
+  AIChatSession,
+  AIMessage,
+  AIAttachment,
+  CouncilMemberResponse,
+  ProjectChatSessionResponse,
+  ProjectMessageResponse,
+  TutorSessionChatMessage,
+} from '../../types';
+
+// ============================================
+// Chat transcript export
+// ============================================
+//
+// AI chats, project chats and tutor session history all normalise into one
+// Transcript shape so Markdown / PDF / JSON exports behave the same everywhere.
+
+export type TranscriptSource = 'ai-chat' | 'project-chat' | 'tutor-session';
+export type TranscriptFormat = 'markdown' | 'pdf' | 'json';
+
+export interface TranscriptAttachment {
+  name: string;
+  type: string;
+  size: number;
+  mimeType?: string;
+  url: string;
+}
+
+export interface TranscriptMessage {
+  id: string;
+  role: 'USER' | 'ASSISTANT' | 'SYSTEM';
+  author: string;
+  content: string;
+  createdAt: string;
+  attachments: TranscriptAttachment[];
+  councilResponses?: CouncilMemberResponse[];
+  sources?: { title: string; url?: string }[];
+  thinkingTrace?: string[];
+  mode?: string;
+  provider?: string;
+}
+
+export interface Transcript {
+  version: 1;
+  source: TranscriptSource;
+  id: string;
+  title: string;
+  subject?: string | null;
+  // Extra identifiers worth keeping in the archive (project id, AI session id...)
+  context?: Record<string, string>;
+  participants?: string[];
+  exportedAt: string;
+  messages: TranscriptMessage[];
+}
+
+const toAttachments = (attachments: AIAttachment[] | null | undefined): TranscriptAttachment[] =>
+  (attachments || []).map(({ name, type, size, mimeType, url }) => ({ name, type, size, mimeType, url }));
+
+// Empty arrays are dropped so the JSON archive only carries what a message has
+const nonEmpty = <T,>(items: T[] | null | undefined): T[] | undefined =>
+  items && items.length > 0 ? items : undefined;
+
+export function transcriptFromAIChat(session: AIChatSession, messages: AIMessage[]): Transcript {
+  return {
+    version: 1,
+    source: 'ai-chat',
+    id: session.id,
+    title: session.title || 'Untitled chat',
+    subject: session.subject,
+    exportedAt: new Date().toISOString(),
+    messages: messages
+      .filter((m) => m.content || m.attachments?.length || m.councilResponses?.length)
+      .map((m) => ({
+        id: m.id,
+        role: m.role,
+        author: m.role === 'USER' ? 'You' : 'AI Tutor',
+        content: m.content || m.transcription || '',
+        createdAt: m.createdAt,
+        attachments: toAttachments(m.attachments),
+        councilResponses: nonEmpty(m.councilResponses),
+        sources: nonEmpty(m.sources),
+        thinkingTrace: nonEmpty(m.thinkingTrace),
+        mode: m.mode,
+        provider: m.provider,
+      })),
+  };
+}
+
+export function transcriptFromProjectChat(
+  project: { id: string; title: string },
+  session: ProjectChatSessionResponse,
+  messages: ProjectMessageResponse[]
+): Transcript {
+  return {
+    version: 1,
+    source: 'project-chat',
+    id: session.id,
+    title: `${project.title} · ${session.title || 'Chat'}`,
+    context: { projectId: project.id },
+    exportedAt: new Date().toISOString(),
+    messages: messages
+      .filter((m) => m.content || m.attachments?.length)
+      .map((m) => ({
+        id: m.id,
+        role: m.role,
+        author: m.role === 'USER' ? 'You' : m.role === 'SYSTEM' ? 'System' : 'AI Tutor',
+        content: m.content || '',
+        createdAt: m.createdAt,
+        attachments: toAttachments(m.attachments),
+      })),
+  };
+}
+
+export function transcriptFromTutorSession(
+  session: { id: string; topic?: string; aiSessionId?: string; studentName?: string; tutorName?: string },
+  messages: TutorSessionChatMessage[]
+): Transcript {
+  const participants = [session.studentName, session.tutorName].filter((p): p is string => !!p);
+  return {
+    version: 1,
+    source: 'tutor-session',
+    id: session.id,
+    title: session.topic || 'Tutor session',
+    context: session.aiSessionId ? { aiSessionId: session.aiSessionId } : undefined,
+    participants: nonEmpty(participants),
+    exportedAt: new Date().toISOString(),
+    messages: messages.map((m) => ({
+      id: m.id,
+      role: m.role,
+      author: m.role === 'USER' ? session.studentName || 'Student' : 'AI Tutor',
+      content: m.content,
+      createdAt: m.createdAt,
+      attachments: toAttachments(m.attachments),
+    })),
+  };
+}
+
+function formatTimestamp(iso: string): string {
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime()) ? iso : date.toLocaleString();
+}
+
+function formatSize(bytes: number): string {
+  if (!bytes) return '';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Human-readable transcript. Thinking traces stay out of it (they're noise when
+// reading back) but are kept in the JSON archive.
+export function transcriptToMarkdown(transcript: Transcript): string {
+  const lines: string[] = [`# ${transcript.title}`, ''];
+
+  const meta = [`Exported ${formatTimestamp(transcript.exportedAt)}`];
+  if (transcript.subject) meta.push(`Subject: ${transcript.subject.replace(/_/g, ' ').toLowerCase()}`);
+  if (transcript.participants) meta.push(`Participants: ${transcript.participants.join(', ')}`);
+  lines.push(`_${meta.join(' · ')}_`, '');
+
+  transcript.messages.forEach((message) => {
+    lines.push('---', '', `### ${message.author} · ${formatTimestamp(message.createdAt)}`, '');
+
+    if (message.content) lines.push(message.content.trim(), '');
+
+    if (message.attachments.length > 0) {
+      lines.push('**Attachments**', '');
+      message.attachments.forEach((a) => {
+        const size = formatSize(a.size);
+        lines.push(`- [${a.name}](${a.url})${size ? ` (${size})` : ''}`);
+      });
+      lines.push('');
+    }
+
+    message.councilResponses?.forEach((member) => {
+      lines.push(`#### ${member.memberName} — ${member.memberLabel}`, '', member.content.trim(), '');
+    });
+
+    if (message.sources) {
+      lines.push('**Sources**', '');
+      message.sources.forEach((s) => lines.push(s.url ? `- [${s.title}](${s.url})` : `- ${s.title}`));
+      lines.push('');
+    }
+  });
+
+  return lines.join('\n').trimEnd() + '\n';
+}
+
+export function transcriptToJSON(transcript: Transcript): string {
+  return JSON.stringify(transcript, null, 2);
+}
+
+// File-system friendly name, e.g. "photosynthesis-basics-2024-05-01.md"
+export function transcriptFilename(transcript: Transcript, extension: string): string {
+  const slug = transcript.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || 'transcript';
+  return `${slug}-${transcript.exportedAt.slice(0, 10)}.${extension}`;
+}
+
+export function downloadTextFile(content: string, filename: string, mimeType: string) {
+  downloadBlob(new Blob([content], { type: mimeType }), filename);
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers start the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
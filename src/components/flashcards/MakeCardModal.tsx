@@ -0,0 +1,88 @@
+import { useState, useEffect } from 'react';
+import toast from 'react-hot-toast';
+import { flashcardsApi } from '../../api';
+import { FlashcardSource } from '../../types';
+import { Modal } from '../ui/Modal';
+import { Textarea } from '../ui/Input';
+import Button from '../ui/Button';
+
+interface MakeCardModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Message text becomes the answer; the student writes the prompt
+  content: string;
+  source?: FlashcardSource;
+  sourceId?: string;
+  sourceLabel?: string;
+  subject?: string;
+}
+
+const MAX_BACK_LENGTH = 2000;
+
+export function MakeCardModal({
+  isOpen,
+  onClose,
+  content,
+  source = 'CHAT_MESSAGE',
+  sourceId,
+  sourceLabel,
+  subject,
+}: MakeCardModalProps) {
+  const [front, setFront] = useState('');
+  const [back, setBack] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setFront('');
+      setBack(content.trim().slice(0, MAX_BACK_LENGTH));
+    }
+  }, [isOpen, content]);
+
+  const handleSave = async () => {
+    if (!front.trim() || !back.trim()) return;
+    setIsSaving(true);
+    try {
+      await flashcardsApi.createCards([
+        { front: front.trim(), back: back.trim(), source, sourceId, sourceLabel, subject },
+      ]);
+      toast.success('Card added to your deck');
+      onClose();
+    } catch (error: any) {
+      toast.error(error?.response?.data?.message || 'Failed to create card');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Make a flashcard">
+      <div className="space-y-4">
+        <Textarea
+          label="Front (question or prompt)"
+          value={front}
+          onChange={(e) => setFront(e.target.value)}
+          rows={2}
+          placeholder="e.g. What does the mitochondria do?"
+          autoFocus
+        />
+        <Textarea
+          label="Back (answer)"
+          value={back}
+          onChange={(e) => setBack(e.target.value)}
+          rows={6}
+          maxLength={MAX_BACK_LENGTH}
+          helperText="Trim this down to the part worth remembering."
+        />
+      </div>
+      <div className="flex justify-end gap-3 mt-6 pt-4 border-t border-gray-700/50">
+        <Button variant="secondary" onClick={onClose}>Cancel</Button>
+        <Button onClick={handleSave} isLoading={isSaving} disabled={!front.trim() || !back.trim()}>
+          Add card
+        </Button>
+      </div>
+    </Modal>
+  );
+}
+
+export default MakeCardModal;
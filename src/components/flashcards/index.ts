@@ -0,0 +1,2 @@
+export { MakeCardModal } from './MakeCardModal';
+export { initialSchedule, scheduleReview, isDue, formatInterval, cardsFromQuizQuestions } from './sm2';
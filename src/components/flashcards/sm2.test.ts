@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest'
+import { initialSchedule, scheduleReview, isDue, cardsFromQuizQuestions } from './sm2'
+
+const now = new Date('2024-05-01T09:00:00.000Z')
+
+describe('scheduleReview', () => {
+  it('follows the 1 / 6 / interval * ease progression', () => {
+    const first = scheduleReview(initialSchedule(now), 4, now)
+    expect(first).toMatchObject({ repetitions: 1, interval: 1, easeFactor: 2.5 })
+    expect(first.dueAt).toBe('2024-05-02T09:00:00.000Z')
+
+    const second = scheduleReview(first, 4, now)
+    expect(second).toMatchObject({ repetitions: 2, interval: 6 })
+
+    const third = scheduleReview(second, 5, now)
+    expect(third.easeFactor).toBe(2.6)
+    expect(third.interval).toBe(16)
+  })
+
+  it('resets a lapsed card but keeps the ease penalty', () => {
+    const learned = { easeFactor: 2.5, interval: 15, repetitions: 3, dueAt: now.toISOString() }
+    const lapsed = scheduleReview(learned, 1, now)
+    expect(lapsed.repetitions).toBe(0)
+    expect(lapsed.interval).toBe(1)
+    expect(lapsed.easeFactor).toBe(1.96)
+  })
+
+  it('never drops the ease factor below 1.3', () => {
+    let schedule = initialSchedule(now)
+    for (let i = 0; i < 10; i++) schedule = scheduleReview(schedule, 0, now)
+    expect(schedule.easeFactor).toBe(1.3)
+  })
+
+  it('reports due cards', () => {
+    expect(isDue({ dueAt: '2024-05-01T08:59:00.000Z' }, now)).toBe(true)
+    expect(isDue({ dueAt: '2024-05-02T09:00:00.000Z' }, now)).toBe(false)
+  })
+})
+
+describe('cardsFromQuizQuestions', () => {
+  it('uses the correct option and explanation as the answer', () => {
+    const cards = cardsFromQuizQuestions(
+      [
+        { id: 'q1', question: 'H2O is?', options: ['Salt', 'Water'], correctAnswer: 1, explanation: 'Two hydrogens, one oxygen.' },
+        { id: 'q2', question: 'Broken', options: [], correctAnswer: 0 },
+      ],
+      { source: 'DAILY_PACKAGE', sourceId: 'pkg-1', subject: 'CHEMISTRY' }
+    )
+    expect(cards).toEqual([
+      {
+        front: 'H2O is?',
+        back: 'Water\n\nTwo hydrogens, one oxygen.',
+        source: 'DAILY_PACKAGE',
+        sourceId: 'pkg-1:q1',
+        sourceLabel: undefined,
+        subject: 'CHEMISTRY',
+      },
+    ])
+  })
+})
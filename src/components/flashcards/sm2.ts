@@ -0,0 +1,77 @@
+import type { FlashcardGrade, FlashcardSchedule, CreateFlashcardRequest, FlashcardSource, QuizQuestion } from '../../types';
+
+// ============================================
+// SM-2 spaced repetition scheduling
+// ============================================
+
+const MIN_EASE = 1.3;
+const DEFAULT_EASE = 2.5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function initialSchedule(now: Date = new Date()): FlashcardSchedule {
+  return { easeFactor: DEFAULT_EASE, interval: 0, repetitions: 0, dueAt: now.toISOString() };
+}
+
+// Next schedule after a review. Grades below 3 are lapses: the card restarts
+// and is due again tomorrow, but the ease penalty is kept.
+export function scheduleReview(
+  schedule: FlashcardSchedule,
+  grade: FlashcardGrade,
+  now: Date = new Date()
+): FlashcardSchedule {
+  const easeFactor = Math.max(
+    MIN_EASE,
+    schedule.easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02))
+  );
+
+  let repetitions: number;
+  let interval: number;
+  if (grade < 3) {
+    repetitions = 0;
+    interval = 1;
+  } else {
+    repetitions = schedule.repetitions + 1;
+    if (repetitions === 1) interval = 1;
+    else if (repetitions === 2) interval = 6;
+    else interval = Math.round(schedule.interval * easeFactor);
+  }
+
+  return {
+    easeFactor: Math.round(easeFactor * 100) / 100,
+    interval,
+    repetitions,
+    dueAt: new Date(now.getTime() + interval * DAY_MS).toISOString(),
+  };
+}
+
+export function isDue(schedule: Pick<FlashcardSchedule, 'dueAt'>, now: Date = new Date()): boolean {
+  return new Date(schedule.dueAt).getTime() <= now.getTime();
+}
+
+// "in 6 days" style label for the grade buttons
+export function formatInterval(days: number): string {
+  if (days <= 1) return '1 day';
+  if (days < 30) return `${days} days`;
+  if (days < 365) return `${Math.round(days / 30)} mo`;
+  return `${(days / 365).toFixed(1)} yr`;
+}
+
+// Multiple-choice quiz questions become question -> answer (+ explanation) cards
+export function cardsFromQuizQuestions(
+  questions: QuizQuestion[],
+  origin: { source: FlashcardSource; sourceId: string; sourceLabel?: string; subject?: string }
+): CreateFlashcardRequest[] {
+  return questions
+    .filter((q) => q.question && q.options[q.correctAnswer] !== undefined)
+    .map((q, index) => {
+      const answer = q.options[q.correctAnswer];
+      return {
+        front: q.question,
+        back: q.explanation ? `${answer}\n\n${q.explanation}` : answer,
+        source: origin.source,
+        sourceId: `${origin.sourceId}:${q.id || index}`,
+        sourceLabel: origin.sourceLabel,
+        subject: origin.subject,
+      };
+    });
+}
@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import { Flame, Snowflake, Target, Plus, Trash2, Check } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useLearningGoals } from '../../hooks/useLearningGoals';
+import { GoalMetric, GoalPeriod, Subject } from '../../types';
+import { Modal } from '../ui/Modal';
+import Input, { Select } from '../ui/Input';
+import Button from '../ui/Button';
+import { GOAL_METRICS, STREAK_RULES, describeGoal } from './goals';
+
+const PERIOD_OPTIONS: { value: GoalPeriod; label: string }[] = [
+  { value: 'WEEKLY', label: 'Every week' },
+  { value: 'DAILY', label: 'Every day' },
+];
+
+const SUBJECT_OPTIONS = [
+  { value: '', label: 'Any subject' },
+  ...Object.values(Subject).map((subject) => ({ value: subject, label: subject.replace(/_/g, ' ').toLowerCase() })),
+];
+
+const EMPTY_FORM = { metric: 'QUESTIONS' as GoalMetric, target: '20', period: 'WEEKLY' as GoalPeriod, subject: '' };
+
+// Streak and goal progress shown on the empty chat screen
+export function GoalsWidget() {
+  const { goals, progress, streak, isLoading, addGoal, removeGoal } = useLearningGoals();
+  const [isManaging, setIsManaging] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const target = Number(form.target);
+  const draft = { metric: form.metric, target, period: form.period, subject: (form.subject || null) as Subject | null };
+
+  const handleAdd = async () => {
+    if (!Number.isInteger(target) || target < 1) return;
+    setIsSaving(true);
+    try {
+      await addGoal(draft);
+      setForm(EMPTY_FORM);
+      toast.success('Goal added');
+    } catch (error: unknown) {
+      const err = error as { response?: { data?: { message?: string } } };
+      toast.error(err.response?.data?.message || 'Failed to add goal');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (goalId: string) => {
+    try {
+      await removeGoal(goalId);
+    } catch {
+      toast.error('Failed to remove goal');
+    }
+  };
+
+  if (isLoading) return null;
+
+  return (
+    <div className="mt-6 bg-[#1e1e1e] border border-gray-800 rounded-xl p-4">
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <div className="flex items-center gap-3 text-sm">
+          <span className={`flex items-center gap-1 font-medium ${streak.activeToday ? 'text-orange-400' : 'text-gray-400'}`}>
+            <Flame className="w-4 h-4" />
+            {streak.current} day streak
+          </span>
+          <span
+            className="flex items-center gap-1 text-xs text-sky-400"
+            title={`Earn a freeze every ${STREAK_RULES.daysPerFreeze} active days (up to ${STREAK_RULES.maxFreezes}). Each one covers a missed day.`}
+          >
+            <Snowflake className="w-3.5 h-3.5" />
+            {streak.freezesAvailable}
+          </span>
+          {!streak.activeToday && streak.current > 0 && (
+            <span className="text-xs text-gray-500">Ask something today to keep it going</span>
+          )}
+        </div>
+        <button onClick={() => setIsManaging(true)} className="text-xs text-gray-400 hover:text-white">
+          {goals.length > 0 ? 'Manage goals' : 'Set a goal'}
+        </button>
+      </div>
+
+      {progress.length > 0 ? (
+        <div className="space-y-2.5">
+          {progress.map(({ goal, current, percent, done }) => (
+            <div key={goal.id}>
+              <div className="flex items-center justify-between text-xs mb-1">
+                <span className="text-gray-300 flex items-center gap-1.5">
+                  {done ? <Check className="w-3.5 h-3.5 text-emerald-400" /> : <Target className="w-3.5 h-3.5 text-gray-500" />}
+                  {describeGoal(goal)}
+                </span>
+                <span className="text-gray-500">{Math.min(current, goal.target)}/{goal.target}</span>
+              </div>
+              <div className="h-1.5 bg-gray-800 rounded-full overflow-hidden">
+                <div
+                  className={`h-full rounded-full transition-all ${done ? 'bg-emerald-500' : 'bg-amber-500'}`}
+                  style={{ width: `${percent}%` }}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">Set a weekly target, like 20 physics questions or 5 daily quizzes.</p>
+      )}
+
+      <Modal isOpen={isManaging} onClose={() => setIsManaging(false)} title="Learning goals">
+        <div className="space-y-2 mb-5">
+          {goals.length === 0 && <p className="text-sm text-gray-500">No goals yet.</p>}
+          {goals.map((goal) => (
+            <div key={goal.id} className="flex items-center justify-between gap-2 px-3 py-2 bg-[#2c2d32] rounded-lg">
+              <span className="text-sm text-gray-200">{describeGoal(goal)}</span>
+              <button onClick={() => handleRemove(goal.id)} className="p-1 text-gray-500 hover:text-red-400" title="Remove goal">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <Select
+            label="Track"
+            value={form.metric}
+            onChange={(e) => setForm({ ...form, metric: e.target.value as GoalMetric })}
+            options={GOAL_METRICS}
+          />
+          <Input
+            label="Target"
+            type="number"
+            min={1}
+            value={form.target}
+            onChange={(e) => setForm({ ...form, target: e.target.value })}
+          />
+          <Select
+            label="How often"
+            value={form.period}
+            onChange={(e) => setForm({ ...form, period: e.target.value as GoalPeriod })}
+            options={PERIOD_OPTIONS}
+          />
+          <Select
+            label="Subject"
+            value={form.subject}
+            onChange={(e) => setForm({ ...form, subject: e.target.value })}
+            options={SUBJECT_OPTIONS}
+          />
+        </div>
+        {target >= 1 && <p className="text-xs text-gray-500 mt-3">{describeGoal(draft)}</p>}
+
+        <div className="flex justify-end gap-3 mt-6 pt-4 border-t border-gray-700/50">
+          <Button variant="secondary" onClick={() => setIsManaging(false)}>Done</Button>
+          <Button
+            onClick={handleAdd}
+            isLoading={isSaving}
+            disabled={!Number.isInteger(target) || target < 1}
+            leftIcon={<Plus className="w-4 h-4" />}
+          >
+            Add goal
+          </Button>
+        </div>
+      </Modal>
+    </div>
+  );
+}
+
+export default GoalsWidget;
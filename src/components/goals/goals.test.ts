@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import { activityWindowStart, computeStreak, describeGoal, goalProgress } from './goals'
+import { Subject, type LearningActivity, type LearningGoal } from '../../types'
+
+// Wednesday
+const now = new Date(2026, 2, 11, 18)
+
+const activity = (type: LearningActivity['type'], day: number, overrides: Partial<LearningActivity> = {}): LearningActivity => ({
+  id: `${type}-${day}`,
+  type,
+  subject: Subject.PHYSICS,
+  occurredAt: new Date(2026, 2, day, 12).toISOString(),
+  minutes: 10,
+  ...overrides,
+})
+
+const goal = (overrides: Partial<LearningGoal> = {}): LearningGoal => ({
+  id: 'g1',
+  metric: 'QUESTIONS',
+  target: 4,
+  period: 'WEEKLY',
+  subject: Subject.PHYSICS,
+  createdAt: now.toISOString(),
+  ...overrides,
+})
+
+const days = (...keys: number[]) => new Set(keys.map((d) => `2026-03-${String(d).padStart(2, '0')}`))
+
+describe('goalProgress', () => {
+  it('counts matching activity since Monday', () => {
+    const items = [
+      activity('AI_QUESTION', 8),
+      activity('AI_QUESTION', 9),
+      activity('AI_QUESTION', 10, { subject: Subject.CHEMISTRY }),
+      activity('AI_QUESTION', 11),
+      activity('QUIZ', 11),
+    ]
+    expect(goalProgress(goal(), items, now)).toMatchObject({ current: 2, percent: 50, done: false })
+    expect(goalProgress(goal({ metric: 'STUDY_MINUTES', target: 30, subject: null, period: 'DAILY' }), items, now))
+      .toMatchObject({ current: 20, done: false })
+  })
+
+  it('describes goals in plain words', () => {
+    expect(describeGoal(goal({ target: 20 }))).toBe('Ask 20 physics questions this week')
+    expect(describeGoal(goal({ metric: 'QUIZZES', target: 5, subject: null }))).toBe('Finish 5 daily quizzes this week')
+  })
+
+  it('only needs activity back to the earliest running period', () => {
+    expect(activityWindowStart([], now)).toBeNull()
+    expect(activityWindowStart([goal({ period: 'DAILY' })], now)).toEqual(new Date(2026, 2, 11))
+    expect(activityWindowStart([goal({ period: 'DAILY' }), goal()], now)).toEqual(new Date(2026, 2, 9))
+  })
+})
+
+describe('computeStreak', () => {
+  it('keeps the streak alive while today has no activity yet', () => {
+    expect(computeStreak(days(8, 9, 10), now)).toMatchObject({ current: 3, longest: 3, activeToday: false })
+  })
+
+  it('spends an earned freeze on a missed day and resets without one', () => {
+    const week = [1, 2, 3, 4, 5, 6, 7]
+    expect(computeStreak(days(...week, 9, 10, 11), now)).toMatchObject({ current: 10, freezesAvailable: 0, frozenDays: ['2026-03-08'] })
+    expect(computeStreak(days(1, 2, 3, 5, 6), new Date(2026, 2, 6))).toMatchObject({ current: 2, longest: 3 })
+  })
+})
@@ -0,0 +1,132 @@
+import { GoalMetric, GoalPeriod, LearningActivity, LearningActivityType, LearningGoal } from '../../types';
+
+export const GOAL_METRICS: { value: GoalMetric; label: string }[] = [
+  { value: 'QUESTIONS', label: 'Questions asked' },
+  { value: 'QUIZZES', label: 'Daily quizzes finished' },
+  { value: 'TUTOR_SESSIONS', label: 'Tutor sessions' },
+  { value: 'STUDY_MINUTES', label: 'Minutes studied' },
+];
+
+// Which activity each metric counts; minutes sum over every type
+const METRIC_ACTIVITY: Record<Exclude<GoalMetric, 'STUDY_MINUTES'>, LearningActivityType> = {
+  QUESTIONS: 'AI_QUESTION',
+  QUIZZES: 'QUIZ',
+  TUTOR_SESSIONS: 'TUTOR_SESSION',
+};
+
+// A freeze is earned for every full week of activity and covers one missed day
+export const STREAK_RULES = {
+  daysPerFreeze: 7,
+  maxFreezes: 2,
+};
+
+export interface GoalProgress {
+  goal: LearningGoal;
+  current: number;
+  percent: number;
+  done: boolean;
+}
+
+export interface StreakSummary {
+  current: number;
+  longest: number;
+  freezesAvailable: number;
+  // Missed days a freeze covered in the current streak, yyyy-mm-dd
+  frozenDays: string[];
+  activeToday: boolean;
+}
+
+export const dayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// Days start at local midnight and weeks on Monday
+export function goalPeriodStart(period: GoalPeriod, now: Date = new Date()): Date {
+  const start = startOfDay(now);
+  if (period === 'WEEKLY') start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+}
+
+// Earliest instant any current goal period reaches back to; null without goals
+export function activityWindowStart(goals: LearningGoal[], now: Date = new Date()): Date | null {
+  if (goals.length === 0) return null;
+  return new Date(Math.min(...goals.map((goal) => goalPeriodStart(goal.period, now).getTime())));
+}
+
+export function goalProgress(goal: LearningGoal, activity: LearningActivity[], now: Date = new Date()): GoalProgress {
+  const from = goalPeriodStart(goal.period, now).getTime();
+  const counted = activity.filter((item) => {
+    const at = new Date(item.occurredAt).getTime();
+    if (at < from || at > now.getTime()) return false;
+    if (goal.subject && item.subject !== goal.subject) return false;
+    return goal.metric === 'STUDY_MINUTES' || item.type === METRIC_ACTIVITY[goal.metric];
+  });
+  const current = goal.metric === 'STUDY_MINUTES'
+    ? Math.round(counted.reduce((sum, item) => sum + item.minutes, 0))
+    : counted.length;
+  return {
+    goal,
+    current,
+    percent: goal.target > 0 ? Math.min(100, Math.round((current / goal.target) * 100)) : 100,
+    done: current >= goal.target,
+  };
+}
+
+export function describeGoal(goal: Pick<LearningGoal, 'metric' | 'target' | 'period' | 'subject'>): string {
+  const subject = goal.subject ? `${goal.subject.replace(/_/g, ' ').toLowerCase()} ` : '';
+  const when = goal.period === 'DAILY' ? 'today' : 'this week';
+  const plural = goal.target === 1 ? '' : 's';
+  switch (goal.metric) {
+    case 'QUESTIONS':
+      return `Ask ${goal.target} ${subject}question${plural} ${when}`;
+    case 'QUIZZES':
+      return `Finish ${goal.target} ${subject}daily quiz${goal.target === 1 ? '' : 'zes'} ${when}`;
+    case 'TUTOR_SESSIONS':
+      return `Take ${goal.target} ${subject}tutor session${plural} ${when}`;
+    case 'STUDY_MINUTES':
+      return `Study ${subject}for ${goal.target} minute${plural} ${when}`;
+  }
+}
+
+export function activeDays(activity: LearningActivity[]): Set<string> {
+  return new Set(activity.map((item) => dayKey(new Date(item.occurredAt))));
+}
+
+// Walks day by day from the first active day. Each missed day spends a
+// banked freeze; with none left the streak starts over.
+// Today only counts once something happens, so an empty today never breaks it.
+export function computeStreak(days: Set<string>, today: Date = new Date(), rules = STREAK_RULES): StreakSummary {
+  const todayKey = dayKey(today);
+  const sorted = [...days].filter((key) => key <= todayKey).sort();
+  const summary: StreakSummary = { current: 0, longest: 0, freezesAvailable: 0, frozenDays: [], activeToday: days.has(todayKey) };
+  if (sorted.length === 0) return summary;
+
+  const [year, month, date] = sorted[0].split('-').map(Number);
+  const cursor = new Date(year, month - 1, date);
+  let towardFreeze = 0;
+
+  for (; dayKey(cursor) <= todayKey; cursor.setDate(cursor.getDate() + 1)) {
+    const key = dayKey(cursor);
+    if (days.has(key)) {
+      summary.current += 1;
+      summary.longest = Math.max(summary.longest, summary.current);
+      towardFreeze += 1;
+      if (towardFreeze === rules.daysPerFreeze) {
+        summary.freezesAvailable = Math.min(rules.maxFreezes, summary.freezesAvailable + 1);
+        towardFreeze = 0;
+      }
+    } else if (key === todayKey) {
+      break;
+    } else if (summary.freezesAvailable > 0) {
+      summary.freezesAvailable -= 1;
+      summary.frozenDays.push(key);
+    } else {
+      summary.current = 0;
+      summary.frozenDays = [];
+      towardFreeze = 0;
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,12 @@
+export { GoalsWidget } from './GoalsWidget';
+export {
+  GOAL_METRICS,
+  STREAK_RULES,
+  dayKey,
+  goalPeriodStart,
+  activityWindowStart,
+  goalProgress,
+  describeGoal,
+  activeDays,
+  computeStreak,
+} from './goals';
@@ -0,0 +1,218 @@
+import { useState, useEffect } from 'react';
+import { UserPlus, Mail, Trash2, Loader2, X } from 'lucide-react';
+import { guardiansApi } from '../../api';
+import { GuardianLink, GuardianSharing } from '../../types';
+import { NO_SHARING, SHARING_OPTIONS } from './guardianDigest';
+import toast from 'react-hot-toast';
+
+interface GuardianSharingPanelProps {
+  // Prefills the invite form from the profile's parent contact
+  defaultName?: string;
+  defaultEmail?: string;
+}
+
+const STATUS_LABELS: Record<GuardianLink['status'], string> = {
+  INVITED: 'Invitation sent',
+  ACTIVE: 'Linked',
+  REVOKED: 'Removed',
+};
+
+function SharingChecklist({ sharing, onChange, disabled }: {
+  sharing: GuardianSharing;
+  onChange: (sharing: GuardianSharing) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <div className="space-y-1.5">
+      {SHARING_OPTIONS.map((option) => (
+        <label key={option.key} className="flex items-start gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={sharing[option.key]}
+            disabled={disabled}
+            onChange={(e) => onChange({ ...sharing, [option.key]: e.target.checked })}
+            className="w-3.5 h-3.5 mt-0.5 rounded border-gray-600 text-amber-500 focus:ring-amber-500"
+          />
+          <span>
+            <span className="block text-xs text-gray-300">{option.label}</span>
+            <span className="block text-[11px] text-gray-500">{option.description}</span>
+          </span>
+        </label>
+      ))}
+    </div>
+  );
+}
+
+// Student-side control over which guardians are linked and what each one sees
+export function GuardianSharingPanel({ defaultName = '', defaultEmail = '' }: GuardianSharingPanelProps) {
+  const [links, setLinks] = useState<GuardianLink[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const [isInviting, setIsInviting] = useState(false);
+  const [form, setForm] = useState({ name: defaultName, email: defaultEmail, relationship: '' });
+  const [sharing, setSharing] = useState<GuardianSharing>(NO_SHARING);
+
+  useEffect(() => {
+    guardiansApi.getMyGuardians()
+      .then((data) => setLinks(data.filter((link) => link.status !== 'REVOKED')))
+      .catch(() => setLinks([]))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const openInvite = () => {
+    setForm({ name: defaultName, email: defaultEmail, relationship: '' });
+    setSharing(NO_SHARING);
+    setIsInviting(true);
+  };
+
+  const handleInvite = async () => {
+    if (!form.name.trim() || !form.email.trim()) {
+      toast.error('Add their name and email');
+      return;
+    }
+    setBusyId('invite');
+    try {
+      const link = await guardiansApi.inviteGuardian({
+        name: form.name.trim(),
+        email: form.email.trim(),
+        relationship: form.relationship.trim() || undefined,
+        sharing,
+      });
+      setLinks((prev) => [...prev, link]);
+      setIsInviting(false);
+      toast.success(`Invitation sent to ${link.guardianEmail}`);
+    } catch (error: unknown) {
+      const err = error as { response?: { data?: { message?: string } } };
+      toast.error(err.response?.data?.message || 'Failed to send invitation');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  // Sharing changes apply right away
+  const handleSharingChange = async (link: GuardianLink, next: GuardianSharing) => {
+    setLinks((prev) => prev.map((l) => (l.id === link.id ? { ...l, sharing: next } : l)));
+    try {
+      await guardiansApi.updateSharing(link.id, next);
+    } catch {
+      setLinks((prev) => prev.map((l) => (l.id === link.id ? link : l)));
+      toast.error('Failed to update sharing');
+    }
+  };
+
+  const handleResend = async (link: GuardianLink) => {
+    setBusyId(link.id);
+    try {
+      await guardiansApi.resendInvitation(link.id);
+      toast.success('Invitation sent again');
+    } catch {
+      toast.error('Failed to resend invitation');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRevoke = async (link: GuardianLink) => {
+    if (!confirm(`Stop sharing with ${link.guardianName}?`)) return;
+    setBusyId(link.id);
+    try {
+      await guardiansApi.revokeGuardian(link.id);
+      setLinks((prev) => prev.filter((l) => l.id !== link.id));
+      toast.success(`${link.guardianName} no longer has access`);
+    } catch {
+      toast.error('Failed to remove guardian');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800/30 rounded-lg p-4 border border-gray-700/50">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-white">Family Sharing</h3>
+        {!isInviting && (
+          <button onClick={openInvite} className="flex items-center gap-1 text-xs text-amber-400 hover:text-amber-300">
+            <UserPlus className="w-3.5 h-3.5" /> Invite
+          </button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <Loader2 className="w-4 h-4 text-gray-500 animate-spin" />
+      ) : links.length === 0 && !isInviting ? (
+        <p className="text-xs text-gray-500">Invite a parent or guardian to follow your progress. You choose what they see.</p>
+      ) : (
+        <div className="space-y-4">
+          {links.map((link) => (
+            <div key={link.id} className="space-y-2">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-sm text-gray-200 truncate">
+                    {link.guardianName}
+                    {link.relationship && <span className="text-gray-500"> · {link.relationship}</span>}
+                  </p>
+                  <p className="text-[11px] text-gray-500 truncate">{link.guardianEmail} · {STATUS_LABELS[link.status]}</p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  {link.status === 'INVITED' && (
+                    <button
+                      onClick={() => handleResend(link)}
+                      disabled={busyId === link.id}
+                      className="p-1 text-gray-500 hover:text-white rounded"
+                      title="Resend invitation"
+                    >
+                      <Mail className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleRevoke(link)}
+                    disabled={busyId === link.id}
+                    className="p-1 text-gray-500 hover:text-red-400 rounded"
+                    title="Remove guardian"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+              <SharingChecklist sharing={link.sharing} onChange={(next) => handleSharingChange(link, next)} />
+            </div>
+          ))}
+
+          {isInviting && (
+            <div className="space-y-2 pt-3 border-t border-gray-700/50 first:pt-0 first:border-0">
+              <div className="flex items-center justify-between">
+                <p className="text-xs font-medium text-gray-300">Invite a guardian</p>
+                <button onClick={() => setIsInviting(false)} className="text-gray-500 hover:text-white">
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </div>
+              {(['name', 'email', 'relationship'] as const).map((field) => (
+                <input
+                  key={field}
+                  type={field === 'email' ? 'email' : 'text'}
+                  value={form[field]}
+                  onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+                  placeholder={field === 'relationship' ? 'Relationship (optional), e.g. Mother' : field === 'name' ? 'Name' : 'Email'}
+                  className="w-full p-2 bg-gray-900/50 border border-gray-700 rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:border-amber-500/50"
+                />
+              ))}
+              <p className="text-[11px] text-gray-500 pt-1">They can see:</p>
+              <SharingChecklist sharing={sharing} onChange={setSharing} disabled={busyId === 'invite'} />
+              <button
+                onClick={handleInvite}
+                disabled={busyId === 'invite'}
+                className="w-full flex items-center justify-center gap-1.5 py-2 mt-1 bg-amber-500 text-black text-xs font-medium rounded-lg hover:bg-amber-400 disabled:opacity-50"
+              >
+                {busyId === 'invite' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Mail className="w-3.5 h-3.5" />}
+                Send invitation
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default GuardianSharingPanel;
@@ -0,0 +1,39 @@
+import { useMemo } from 'react';
+import { Download } from 'lucide-react';
+import { GuardianWeeklyDigest } from '../../types';
+import Button from '../ui/Button';
+import { downloadTextFile } from '../export';
+import { digestToEmailHtml } from './guardianDigest';
+
+interface WeeklyDigestViewProps {
+  digest: GuardianWeeklyDigest;
+  className?: string;
+}
+
+// Shows the digest exactly as the email renders it
+export function WeeklyDigestView({ digest, className = '' }: WeeklyDigestViewProps) {
+  const html = useMemo(() => digestToEmailHtml(digest, { appUrl: window.location.origin }), [digest]);
+
+  const handleDownload = () => {
+    const name = digest.student.name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    downloadTextFile(html, `${name}-week-${digest.weekStart.slice(0, 10)}.html`, 'text/html;charset=utf-8');
+  };
+
+  return (
+    <div className={className}>
+      <iframe
+        title="Weekly digest"
+        srcDoc={html}
+        sandbox=""
+        className="w-full h-[640px] rounded-lg border border-gray-700/50 bg-[#f3f4f6]"
+      />
+      <div className="flex justify-end mt-2">
+        <Button size="sm" variant="ghost" onClick={handleDownload} leftIcon={<Download className="w-4 h-4" />}>
+          Download HTML
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default WeeklyDigestView;
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest'
+import { averageQuizPercent, digestToEmailHtml, weekDays } from './guardianDigest'
+import type { GuardianWeeklyDigest } from '../../types'
+
+const weekStart = new Date(2026, 2, 2).toISOString()
+const weekEnd = new Date(2026, 2, 9).toISOString()
+
+const digest = (overrides: Partial<GuardianWeeklyDigest> = {}): GuardianWeeklyDigest => ({
+  student: { studentId: 's1', name: 'Maya <3' },
+  weekStart,
+  weekEnd,
+  ...overrides,
+})
+
+describe('digestToEmailHtml', () => {
+  it('escapes student content and leaves out unshared sections', () => {
+    const html = digestToEmailHtml(digest({ questions: { total: 4, bySubject: [{ subject: 'Physics', count: 4 }] } }))
+    expect(html).toContain('Maya &lt;3')
+    expect(html).not.toContain('Maya <3')
+    expect(html).toContain('Questions asked')
+    expect(html).not.toContain('Tutor sessions')
+    expect(html).not.toContain('Streak')
+  })
+
+  it('says so when nothing is shared', () => {
+    expect(digestToEmailHtml(digest())).toContain('No activity has been shared with you yet.')
+  })
+})
+
+describe('digest figures', () => {
+  it('averages first-attempt quiz percentages', () => {
+    const quiz = (score: number, total: number) => ({ packageId: 'p', subject: 'Math', packageDate: weekStart, score, total, completedAt: weekStart })
+    expect(averageQuizPercent([])).toBeNull()
+    expect(averageQuizPercent([quiz(3, 4), quiz(1, 2)])).toBe(63)
+  })
+
+  it('marks active days Monday to Sunday', () => {
+    const days = weekDays({ weekStart, streak: { current: 2, longest: 5, activeDays: ['2026-03-02', '2026-03-08'] } })
+    expect(days.map((d) => d.active)).toEqual([true, false, false, false, false, false, true])
+  })
+})
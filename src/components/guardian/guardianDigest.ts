@@ -0,0 +1,156 @@
+import type { GuardianQuizItem, GuardianSharing, GuardianWeeklyDigest } from '../../types';
+import { escapeHtml } from '../export/printHtml';
+
+// ============================================
+// Guardian weekly digest
+// ============================================
+//
+// The digest renders to a self-contained HTML email (tables and inline
+// styles only, so mail clients display it as designed). The guardian
+// portal shows the same HTML, so what parents see in the app is exactly
+// what lands in their inbox. Sections the student hasn't shared are absent
+// from the digest and are left out rather than shown empty.
+
+export const SHARING_OPTIONS: { key: keyof GuardianSharing; label: string; description: string }[] = [
+  { key: 'questions', label: 'Questions asked', description: 'How many questions you ask and their subjects' },
+  { key: 'tutorSessions', label: 'Tutor sessions', description: 'Topic, tutor and length of each session' },
+  { key: 'quizScores', label: 'Quiz scores', description: 'First-attempt scores on daily package quizzes' },
+  { key: 'streaks', label: 'Streaks', description: 'Your current and longest learning streak' },
+  { key: 'weeklyDigest', label: 'Weekly email', description: 'A summary of the above every Monday' },
+];
+
+export const NO_SHARING: GuardianSharing = {
+  questions: false,
+  tutorSessions: false,
+  quizScores: false,
+  streaks: false,
+  weeklyDigest: false,
+};
+
+export function quizPercent(quiz: Pick<GuardianQuizItem, 'score' | 'total'>): number {
+  return quiz.total > 0 ? Math.round((quiz.score / quiz.total) * 100) : 0;
+}
+
+export function averageQuizPercent(quizzes: GuardianQuizItem[]): number | null {
+  if (quizzes.length === 0) return null;
+  return Math.round(quizzes.reduce((sum, q) => sum + quizPercent(q), 0) / quizzes.length);
+}
+
+const dayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Monday..Sunday of the digest week, flagged when the student was active
+export function weekDays(digest: Pick<GuardianWeeklyDigest, 'weekStart' | 'streak'>): { label: string; active: boolean }[] {
+  const start = new Date(digest.weekStart);
+  const active = new Set(digest.streak?.activeDays ?? []);
+  return Array.from({ length: 7 }, (_, i) => {
+    const day = new Date(start.getFullYear(), start.getMonth(), start.getDate() + i);
+    return { label: day.toLocaleDateString(undefined, { weekday: 'narrow' }), active: active.has(dayKey(day)) };
+  });
+}
+
+// weekEnd is exclusive
+export function formatWeekRange(weekStart: string, weekEnd: string): string {
+  const start = new Date(weekStart);
+  const last = new Date(new Date(weekEnd).getTime() - 1);
+  const day = (d: Date) => d.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+  return `${day(start)} – ${day(last)}, ${last.getFullYear()}`;
+}
+
+export function digestSubject(digest: GuardianWeeklyDigest): string {
+  return `${digest.student.name}'s week on TopTutors · ${formatWeekRange(digest.weekStart, digest.weekEnd)}`;
+}
+
+const minutes = (seconds: number) => Math.round(seconds / 60);
+
+const section = (title: string, body: string) => `
+          <tr><td style="padding:20px 24px 0;">
+            <h2 style="margin:0 0 8px;font-size:16px;color:#111827;">${escapeHtml(title)}</h2>
+            ${body}
+          </td></tr>`;
+
+const row = (label: string, value: string) =>
+  `<tr><td style="padding:4px 0;color:#374151;">${label}</td><td style="padding:4px 0;color:#111827;text-align:right;">${value}</td></tr>`;
+
+const table = (rows: string[]) =>
+  `<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="font-size:14px;">${rows.join('')}</table>`;
+
+export function digestToEmailHtml(digest: GuardianWeeklyDigest, options: { appUrl?: string } = {}): string {
+  const sections: string[] = [];
+
+  if (digest.questions) {
+    const { total, bySubject } = digest.questions;
+    sections.push(section('Questions asked', table([
+      row('<strong>Total</strong>', `<strong>${total}</strong>`),
+      ...bySubject.map((s) => row(escapeHtml(s.subject), String(s.count))),
+    ])));
+  }
+
+  if (digest.tutorSessions) {
+    const sessions = digest.tutorSessions;
+    const totalMinutes = sessions.reduce((sum, s) => sum + minutes(s.duration), 0);
+    sections.push(section('Tutor sessions', sessions.length === 0
+      ? '<p style="margin:0;color:#6b7280;font-size:14px;">No sessions this week.</p>'
+      : table([
+        ...sessions.map((s) => row(
+          `${escapeHtml(s.topic)} <span style="color:#6b7280;">with ${escapeHtml(s.tutorName)}</span>`,
+          `${minutes(s.duration)} min`
+        )),
+        row('<strong>Total</strong>', `<strong>${totalMinutes} min</strong>`),
+      ])));
+  }
+
+  if (digest.quizScores) {
+    const quizzes = digest.quizScores;
+    const average = averageQuizPercent(quizzes);
+    sections.push(section('Daily quiz scores', quizzes.length === 0
+      ? '<p style="margin:0;color:#6b7280;font-size:14px;">No quizzes taken this week.</p>'
+      : table([
+        ...quizzes.map((q) => row(
+          `${escapeHtml(q.subject)} <span style="color:#6b7280;">${escapeHtml(new Date(q.packageDate).toLocaleDateString())}</span>`,
+          `${q.score}/${q.total} (${quizPercent(q)}%)`
+        )),
+        row('<strong>Average</strong>', `<strong>${average}%</strong>`),
+      ])));
+  }
+
+  if (digest.streak) {
+    const days = weekDays(digest).map((d) =>
+      `<td align="center" style="width:32px;height:32px;border-radius:16px;font-size:12px;${d.active ? 'background:#f59e0b;color:#111827;' : 'background:#f3f4f6;color:#9ca3af;'}">${escapeHtml(d.label)}</td>`
+    ).join('<td style="width:6px;"></td>');
+    sections.push(section('Streak', `
+            <p style="margin:0 0 10px;font-size:14px;color:#374151;">
+              Current streak <strong>${digest.streak.current} day${digest.streak.current === 1 ? '' : 's'}</strong> · best ${digest.streak.longest}
+            </p>
+            <table role="presentation" cellpadding="0" cellspacing="0"><tr>${days}</tr></table>`));
+  }
+
+  const footer = options.appUrl
+    ? `<a href="${escapeHtml(options.appUrl)}/guardian" style="color:#b45309;">Open the guardian portal</a> · `
+    : '';
+
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>${escapeHtml(digestSubject(digest))}</title>
+  </head>
+  <body style="margin:0;padding:0;background:#f3f4f6;font-family:Helvetica,Arial,sans-serif;">
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f3f4f6;">
+      <tr><td align="center" style="padding:24px 12px;">
+        <table role="presentation" width="600" cellpadding="0" cellspacing="0" style="max-width:600px;width:100%;background:#ffffff;border-radius:12px;">
+          <tr><td style="padding:24px 24px 0;">
+            <p style="margin:0;font-size:12px;letter-spacing:1px;text-transform:uppercase;color:#b45309;">Weekly digest</p>
+            <h1 style="margin:4px 0 0;font-size:22px;color:#111827;">${escapeHtml(digest.student.name)}'s week</h1>
+            <p style="margin:4px 0 0;font-size:14px;color:#6b7280;">${escapeHtml(formatWeekRange(digest.weekStart, digest.weekEnd))}</p>
+          </td></tr>${sections.length > 0 ? sections.join('') : section('Nothing shared', '<p style="margin:0;color:#6b7280;font-size:14px;">No activity has been shared with you yet.</p>')}
+          <tr><td style="padding:24px;font-size:12px;color:#9ca3af;">
+            ${footer}${escapeHtml(digest.student.name)} chooses what is shared with you.
+          </td></tr>
+        </table>
+      </td></tr>
+    </table>
+  </body>
+</html>`;
+}
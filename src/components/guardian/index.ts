@@ -0,0 +1,12 @@
+export { GuardianSharingPanel } from './GuardianSharingPanel';
+export { WeeklyDigestView } from './WeeklyDigestView';
+export {
+  SHARING_OPTIONS,
+  NO_SHARING,
+  quizPercent,
+  averageQuizPercent,
+  weekDays,
+  formatWeekRange,
+  digestSubject,
+  digestToEmailHtml,
+} from './guardianDigest';
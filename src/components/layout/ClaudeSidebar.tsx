@@ -22,6 +22,14 @@ import {
   Package,
   FolderOpen,
   Upload,
+  CalendarClock,
+  Flag,
+  Award,
+  Film,
+  Wallet,
+  Banknote,
+  Grid3x3,
+  BarChart3,
 } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { Role, AIChatSession } from '../../types';
@@ -31,9 +39,10 @@ import Avatar from '../ui/Avatar';
 interface ClaudeSidebarProps {
   isCollapsed?: boolean;
   onToggleCollapse?: () => void;
+  onOpenSearch?: () => void;
 }
 
-export function ClaudeSidebar({ isCollapsed = false, onToggleCollapse }: ClaudeSidebarProps) {
+export function ClaudeSidebar({ isCollapsed = false, onToggleCollapse, onOpenSearch }: ClaudeSidebarProps) {
   const { user, logout } = useAuth();
   const location = useLocation();
   const navigate = useNavigate();
@@ -52,9 +61,12 @@ export function ClaudeSidebar({ isCollapsed = false, onToggleCollapse }: ClaudeS
   // Current session from URL
   const currentSessionId = searchParams.get('session');
 
+  // Admins and guardians don't use the AI chat
+  const hasAiChat = !!user && user.role !== Role.ADMIN && user.role !== Role.GUARDIAN;
+
   // Fetch AI chat sessions
   const fetchAiSessions = useCallback(async () => {
-    if (!user) return;
+    if (!user || !hasAiChat) return;
 
     try {
       setIsLoadingAiSessions(true);
@@ -65,7 +77,7 @@ export function ClaudeSidebar({ isCollapsed = false, onToggleCollapse }: ClaudeS
     } finally {
       setIsLoadingAiSessions(false);
     }
-  }, [user]);
+  }, [user, hasAiChat]);
 
   useEffect(() => {
     fetchAiSessions();
@@ -80,6 +92,7 @@ export function ClaudeSidebar({ isCollapsed = false, onToggleCollapse }: ClaudeS
         return '/admin';
       case Role.TEACHER: return '/dashboard/teacher';
       case Role.TUTOR: return '/dashboard/tutor';
+      case Role.GUARDIAN: return '/guardian';
       default: return '/chat';
     }
   };
@@ -96,10 +109,21 @@ export function ClaudeSidebar({ isCollapsed = false, onToggleCollapse }: ClaudeS
       );
     }
 
+    if (user.role === Role.STUDENT) {
+      items.push({ label: 'Flashcards', path: '/student/flashcards', icon: Layers });
+      items.push({ label: 'Mastery', path: '/student/mastery', icon: Grid3x3 });
+      items.push({ label: 'Tutors', path: '/tutors', icon: GraduationCap });
+    }
+
     if ([Role.STUDENT, Role.TEACHER, Role.TUTOR].includes(user.role)) {
       items.push({ label: 'Projects', path: '/projects', icon: FolderOpen });
     }
 
+    if (user.role === Role.STUDENT || user.role === Role.TUTOR) {
+      items.push({ label: 'Sessions', path: '/bookings', icon: CalendarClock });
+      items.push({ label: 'Recordings', path: '/recordings', icon: Film });
+    }
+
     if (user.role === Role.TEACHER) {
       items.push({
         label: 'Dashboard',
@@ -114,6 +138,11 @@ export function ClaudeSidebar({ isCollapsed = false, onToggleCollapse }: ClaudeS
         path: getDashboardPath(),
         icon: LayoutDashboard,
       });
+      items.push({ label: 'Earnings', path: '/tutor/earnings', icon: Wallet });
+    }
+
+    if (user.role === Role.GUARDIAN) {
+      items.push({ label: 'Progress', path: '/guardian', icon: LayoutDashboard });
     }
 
     if (user.role === Role.ADMIN) {
@@ -121,6 +150,10 @@ export function ClaudeSidebar({ isCollapsed = false, onToggleCollapse }: ClaudeS
         { label: 'Dashboard', path: '/admin', icon: LayoutDashboard },
         { label: 'Users', path: '/admin/users', icon: Users },
         { label: 'Teachers', path: '/admin/teachers', icon: GraduationCap },
+        { label: 'Reviews', path: '/admin/reviews', icon: Flag },
+        { label: 'Certificates', path: '/admin/certificates', icon: Award },
+        { label: 'Payouts', path: '/admin/payouts', icon: Banknote },
+        { label: 'Analytics', path: '/admin/analytics', icon: BarChart3 },
       );
     } else if (user.role === Role.ADMINISTRATOR) {
       items.push(
@@ -129,6 +162,7 @@ export function ClaudeSidebar({ isCollapsed = false, onToggleCollapse }: ClaudeS
         { label: 'Teachers', path: '/admin/teachers', icon: GraduationCap },
         { label: 'Subjects', path: '/admin/sections', icon: Layers },
         { label: 'Daily Packages', path: '/admin/daily-packages', icon: Upload },
+        { label: 'Analytics', path: '/admin/analytics', icon: BarChart3 },
       );
     }
 
@@ -240,8 +274,8 @@ export function ClaudeSidebar({ isCollapsed = false, onToggleCollapse }: ClaudeS
         </button>
       </div>
 
-      {/* New Chat Button - hidden for ADMIN */}
-      {user && user.role !== Role.ADMIN && (
+      {/* New Chat Button - hidden for ADMIN and guardians */}
+      {hasAiChat && (
         <div className="p-2">
           <button
             onClick={handleNewChat}
@@ -278,8 +312,8 @@ export function ClaudeSidebar({ isCollapsed = false, onToggleCollapse }: ClaudeS
         })}
       </nav>
 
-      {/* AI Chat Sessions - hidden for ADMIN */}
-      {!isCollapsed && user && user.role !== Role.ADMIN && (
+      {/* AI Chat Sessions - hidden for ADMIN and guardians */}
+      {!isCollapsed && hasAiChat && (
         <div className="flex-1 min-h-0 border-t border-gray-800/50 flex flex-col">
           {/* Search */}
           <div className="p-2">
@@ -293,6 +327,15 @@ export function ClaudeSidebar({ isCollapsed = false, onToggleCollapse }: ClaudeS
                 className="w-full pl-8 pr-3 py-1.5 text-xs bg-gray-800/50 border border-gray-700/50 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-violet-500/50"
               />
             </div>
+            {onOpenSearch && (
+              <button
+                onClick={() => { setIsMobileOpen(false); onOpenSearch(); }}
+                className="w-full flex items-center justify-between mt-1.5 px-2.5 py-1 text-[11px] text-gray-500 hover:text-gray-300 hover:bg-gray-800/50 rounded-lg transition-colors"
+              >
+                <span>Search all messages</span>
+                <kbd className="px-1.5 py-0.5 bg-gray-800 border border-gray-700/50 rounded text-[10px]">Ctrl K</kbd>
+              </button>
+            )}
           </div>
 
           {/* Sessions List */}
@@ -395,7 +438,8 @@ export function ClaudeSidebar({ isCollapsed = false, onToggleCollapse }: ClaudeS
                   <p className="text-xs text-gray-500 truncate">
                     {user?.role === Role.STUDENT ? 'Student' :
                      user?.role === Role.TEACHER ? 'Teacher' :
-                     user?.role === Role.TUTOR ? 'Tutor' : 'Admin'}
+                     user?.role === Role.TUTOR ? 'Tutor' :
+                     user?.role === Role.GUARDIAN ? 'Guardian' : 'Admin'}
                   </p>
                 </div>
                 {showUserMenu ? (
@@ -3,6 +3,7 @@ import { Outlet } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
 import { Role } from '../../types';
 import ClaudeSidebar from './ClaudeSidebar';
+import { SearchPalette, useSearchPaletteShortcut } from '../search';
 
 interface LayoutProps {
   showSidebar?: boolean;
@@ -11,8 +12,11 @@ interface LayoutProps {
 // Layout with dark sidebar, role-aware content background
 export function Layout({ showSidebar = true }: LayoutProps) {
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(true);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
   const { user } = useAuth();
 
+  useSearchPaletteShortcut(() => setIsSearchOpen((open) => !open));
+
   // Students get dark bg (Claude-style chat), everyone else gets modern dark bg
   const isStudent = user?.role === Role.STUDENT;
   const bgClass = isStudent ? 'bg-[#212121]' : 'bg-[#1a1b1e]';
@@ -23,9 +27,12 @@ export function Layout({ showSidebar = true }: LayoutProps) {
         <ClaudeSidebar
           isCollapsed={isSidebarCollapsed}
           onToggleCollapse={() => setIsSidebarCollapsed(!isSidebarCollapsed)}
+          onOpenSearch={() => setIsSearchOpen(true)}
         />
       )}
 
+      <SearchPalette isOpen={isSearchOpen} onClose={() => setIsSearchOpen(false)} />
+
       <main
         className={`min-h-screen transition-all duration-300 ${
           showSidebar
@@ -44,6 +44,8 @@ export function Navbar() {
         return '/admin';
       case Role.TUTOR:
         return '/dashboard/tutor';
+      case Role.GUARDIAN:
+        return '/guardian';
       case Role.STUDENT:
       default:
         return '/chat';
@@ -0,0 +1,52 @@
+import { MasteryLevel, MASTERY_LEVEL_LABELS, TopicNode } from './mastery';
+
+interface MasteryHeatmapProps {
+  nodes: TopicNode[];
+  selectedKey?: string | null;
+  onSelect: (node: TopicNode) => void;
+}
+
+const LEVEL_STYLES: Record<MasteryLevel, string> = {
+  UNKNOWN: 'bg-gray-700/40 border-gray-700 text-gray-400',
+  WEAK: 'bg-red-500/20 border-red-500/40 text-red-300',
+  DEVELOPING: 'bg-amber-500/20 border-amber-500/40 text-amber-300',
+  STRONG: 'bg-emerald-500/20 border-emerald-500/40 text-emerald-300',
+};
+
+export function MasteryLegend() {
+  return (
+    <div className="flex flex-wrap gap-3 text-xs text-gray-400">
+      {(Object.keys(MASTERY_LEVEL_LABELS) as MasteryLevel[]).map((level) => (
+        <span key={level} className="flex items-center gap-1.5">
+          <span className={`w-3 h-3 rounded border ${LEVEL_STYLES[level]}`} />
+          {MASTERY_LEVEL_LABELS[level]}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+// One tile per topic, coloured by level
+export function MasteryHeatmap({ nodes, selectedKey, onSelect }: MasteryHeatmapProps) {
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-2">
+      {nodes.map((node) => (
+        <button
+          key={node.key}
+          onClick={() => onSelect(node)}
+          title={MASTERY_LEVEL_LABELS[node.level]}
+          className={`text-left p-3 rounded-lg border transition-all ${LEVEL_STYLES[node.level]} ${
+            selectedKey === node.key ? 'ring-2 ring-white/40' : 'hover:brightness-125'
+          }`}
+        >
+          <p className="text-sm font-medium truncate">{node.label}</p>
+          <p className="text-xs opacity-75 mt-0.5">
+            {node.level === 'UNKNOWN' ? `${node.sessions} session${node.sessions === 1 ? '' : 's'}` : `${Math.round(node.mastery * 100)}%`}
+          </p>
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export default MasteryHeatmap;
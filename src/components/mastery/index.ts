@@ -0,0 +1,12 @@
+export { MasteryHeatmap, MasteryLegend } from './MasteryHeatmap';
+export {
+  MASTERY_LEVEL_LABELS,
+  normalizeTopic,
+  masteryLevel,
+  buildTopicGraphs,
+  weakTopics,
+  relatedTopics,
+  subjectLabel,
+  practicePrompt,
+} from './mastery';
+export type { MasteryLevel, TopicNode, TopicEdge, TopicGraph } from './mastery';
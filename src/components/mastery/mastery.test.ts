@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest'
+import { buildTopicGraphs, practicePrompt, relatedTopics, weakTopics } from './mastery'
+import { Subject, type MasterySignal } from '../../types'
+
+const now = new Date('2026-03-10T12:00:00Z')
+
+const signal = (overrides: Partial<MasterySignal>): MasterySignal => ({
+  source: 'QUIZ',
+  sourceId: 's',
+  subject: Subject.PHYSICS,
+  topic: null,
+  keywords: [],
+  occurredAt: now.toISOString(),
+  ...overrides,
+})
+
+describe('buildTopicGraphs', () => {
+  it('merges keyword spellings and rolls quiz correctness into mastery', () => {
+    const [graph] = buildTopicGraphs([
+      signal({ keywords: ['Kinematics', 'vectors'], correct: 1, total: 4 }),
+      signal({ source: 'AI_SESSION', topic: 'kinematics!', keywords: [] }),
+      signal({ subject: Subject.CHEMISTRY, keywords: ['moles'], correct: 3, total: 3 }),
+    ], now)
+
+    expect(graph.subject).toBe(Subject.PHYSICS)
+    const kinematics = graph.nodes.find((n) => n.key === 'kinematics')!
+    expect(kinematics).toMatchObject({ label: 'Kinematics', sessions: 1, attempted: 4, correct: 1, level: 'WEAK' })
+    expect(kinematics.mastery).toBeCloseTo(2 / 6)
+    expect(relatedTopics(graph, 'kinematics').map((n) => n.key)).toEqual(['vectors'])
+  })
+
+  it('weights old evidence less and counts tutor help against a topic', () => {
+    const [graph] = buildTopicGraphs([
+      signal({ keywords: ['optics'], correct: 0, total: 2, occurredAt: '2026-01-09T12:00:00Z' }),
+      signal({ keywords: ['optics'], correct: 4, total: 4 }),
+      signal({ source: 'TUTOR_SESSION', keywords: ['circuits'] }),
+    ], now)
+
+    const optics = graph.nodes.find((n) => n.key === 'optics')!
+    expect(optics.attempted).toBeCloseTo(4.5)
+    expect(optics.level).toBe('STRONG')
+    const circuits = graph.nodes.find((n) => n.key === 'circuits')!
+    expect(circuits).toMatchObject({ tutorSessions: 1, level: 'UNKNOWN' })
+    expect(weakTopics(graph)).toEqual([])
+  })
+
+  it('builds a practice prompt naming the topic and subject', () => {
+    expect(practicePrompt({ label: 'Projectile motion', subject: Subject.COMPUTER_SCIENCE }))
+      .toContain('Projectile motion in Computer Science')
+  })
+})
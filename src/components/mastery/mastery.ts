@@ -0,0 +1,165 @@
+import { MasterySignal, Subject } from '../../types';
+
+export type MasteryLevel = 'UNKNOWN' | 'WEAK' | 'DEVELOPING' | 'STRONG';
+
+export interface TopicNode {
+  key: string;
+  label: string;
+  subject: Subject;
+  // AI and tutor sessions that touched the topic
+  sessions: number;
+  tutorSessions: number;
+  // Recency-weighted quiz answers (tutor help counts as a partial miss)
+  correct: number;
+  attempted: number;
+  lastSeen: string;
+  // 0-1
+  mastery: number;
+  level: MasteryLevel;
+}
+
+// Topics that came up together in the same session or quiz
+export interface TopicEdge {
+  from: string;
+  to: string;
+  weight: number;
+}
+
+export interface TopicGraph {
+  subject: Subject;
+  nodes: TopicNode[];
+  edges: TopicEdge[];
+}
+
+// Evidence loses half its weight every month
+const HALF_LIFE_DAYS = 30;
+// Beta prior: unseen topics start at 50%
+const PRIOR_CORRECT = 1;
+const PRIOR_ATTEMPTED = 2;
+// Needing a tutor for a topic counts as half a wrong answer
+const TUTOR_HELP_WEIGHT = 0.5;
+// Below this much weighted evidence the estimate isn't shown as a level
+const MIN_EVIDENCE = 1;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const MASTERY_LEVEL_LABELS: Record<MasteryLevel, string> = {
+  UNKNOWN: 'Not enough data',
+  WEAK: 'Needs practice',
+  DEVELOPING: 'Getting there',
+  STRONG: 'Strong',
+};
+
+export function normalizeTopic(value: string): string {
+  return value.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+export function masteryLevel(node: Pick<TopicNode, 'attempted' | 'mastery'>): MasteryLevel {
+  if (node.attempted < MIN_EVIDENCE) return 'UNKNOWN';
+  if (node.mastery < 0.5) return 'WEAK';
+  if (node.mastery < 0.75) return 'DEVELOPING';
+  return 'STRONG';
+}
+
+// Distinct topics a signal mentions, keyed by their normalized form
+function signalTopics(signal: MasterySignal): Map<string, string> {
+  const topics = new Map<string, string>();
+  for (const raw of [signal.topic, ...signal.keywords]) {
+    const label = raw?.trim();
+    if (!label) continue;
+    const key = normalizeTopic(label);
+    if (key.length >= 3 && !topics.has(key)) topics.set(key, label);
+  }
+  return topics;
+}
+
+export function buildTopicGraphs(signals: MasterySignal[], now: Date = new Date()): TopicGraph[] {
+  const bySubject = new Map<Subject, { nodes: Map<string, TopicNode>; edges: Map<string, TopicEdge> }>();
+
+  for (const signal of signals) {
+    const topics = signalTopics(signal);
+    if (topics.size === 0) continue;
+
+    let graph = bySubject.get(signal.subject);
+    if (!graph) {
+      graph = { nodes: new Map(), edges: new Map() };
+      bySubject.set(signal.subject, graph);
+    }
+
+    const ageDays = Math.max(0, (now.getTime() - new Date(signal.occurredAt).getTime()) / DAY_MS);
+    const weight = Math.pow(0.5, ageDays / HALF_LIFE_DAYS);
+
+    for (const [key, label] of topics) {
+      let node = graph.nodes.get(key);
+      if (!node) {
+        node = {
+          key, label, subject: signal.subject,
+          sessions: 0, tutorSessions: 0, correct: 0, attempted: 0,
+          lastSeen: signal.occurredAt, mastery: 0, level: 'UNKNOWN',
+        };
+        graph.nodes.set(key, node);
+      }
+      if (signal.source === 'QUIZ') {
+        if (signal.total) {
+          node.correct += weight * (signal.correct ?? 0);
+          node.attempted += weight * signal.total;
+        }
+      } else {
+        node.sessions += 1;
+      }
+      if (signal.source === 'TUTOR_SESSION') {
+        node.tutorSessions += 1;
+        node.attempted += weight * TUTOR_HELP_WEIGHT;
+      }
+      if (signal.occurredAt > node.lastSeen) node.lastSeen = signal.occurredAt;
+    }
+
+    const keys = [...topics.keys()].sort();
+    for (let i = 0; i < keys.length; i++) {
+      for (let j = i + 1; j < keys.length; j++) {
+        const id = `${keys[i]}|${keys[j]}`;
+        const edge = graph.edges.get(id) ?? { from: keys[i], to: keys[j], weight: 0 };
+        edge.weight += 1;
+        graph.edges.set(id, edge);
+      }
+    }
+  }
+
+  return [...bySubject.entries()]
+    .map(([subject, graph]) => {
+      const nodes = [...graph.nodes.values()].map((node) => {
+        const mastery = (PRIOR_CORRECT + node.correct) / (PRIOR_ATTEMPTED + node.attempted);
+        return { ...node, mastery, level: masteryLevel({ attempted: node.attempted, mastery }) };
+      });
+      nodes.sort((a, b) => b.sessions + b.attempted - (a.sessions + a.attempted) || a.label.localeCompare(b.label));
+      return { subject, nodes, edges: [...graph.edges.values()] };
+    })
+    .sort((a, b) => b.nodes.length - a.nodes.length);
+}
+
+// Weakest topics with enough evidence to judge, worst first
+export function weakTopics(graph: TopicGraph, limit = 5): TopicNode[] {
+  return graph.nodes
+    .filter((node) => node.level === 'WEAK' || node.level === 'DEVELOPING')
+    .sort((a, b) => a.mastery - b.mastery)
+    .slice(0, limit);
+}
+
+export function relatedTopics(graph: TopicGraph, key: string, limit = 5): TopicNode[] {
+  const byKey = new Map(graph.nodes.map((node) => [node.key, node]));
+  return graph.edges
+    .filter((edge) => edge.from === key || edge.to === key)
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, limit)
+    .map((edge) => byKey.get(edge.from === key ? edge.to : edge.from)!)
+    .filter(Boolean);
+}
+
+export function subjectLabel(subject: Subject): string {
+  return subject.replace(/_/g, ' ').toLowerCase().replace(/\b\w/g, (c) => c.toUpperCase());
+}
+
+// Opening message for a practice chat on one topic
+export function practicePrompt(node: Pick<TopicNode, 'label' | 'subject'>): string {
+  return `Help me practise ${node.label} in ${subjectLabel(node.subject)}. Start with a short question to check what I know, then build up from there one step at a time.`;
+}
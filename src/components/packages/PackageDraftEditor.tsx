@@ -0,0 +1,349 @@
+import { useState, useEffect, useMemo } from 'react';
+import { ArrowUp, ArrowDown, Trash2, Plus, Award, Star, Hash, CheckCircle, AlertCircle, Save, FileText, ClipboardList } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { dailyPackageApi } from '../../api';
+import { DailyPackageItem, DailyPackageUploadDetail, ExtractedQuestion, QuizQuestion } from '../../types';
+import Button from '../ui/Button';
+import { ConfirmModal } from '../ui/Modal';
+import {
+  RankGroup,
+  RANK_GROUPS,
+  QuestionGroups,
+  moveItem,
+  groupQuestions,
+  removeQuizOption,
+  validateQuizQuestion,
+  validateExtractedQuestion,
+  buildDraftPayload,
+} from './packageDraft';
+
+interface PackageDraftEditorProps {
+  detail: DailyPackageUploadDetail;
+  onSaved: (detail: DailyPackageUploadDetail) => void;
+  onApproved: (detail: DailyPackageUploadDetail) => void;
+}
+
+const GROUP_META: Record<RankGroup, { title: string; icon: React.ReactNode; badgeColor: string }> = {
+  MOST_ASKED: { title: 'Most Asked Questions', icon: <Award className="w-5 h-5 text-primary-600" />, badgeColor: 'bg-primary-500/10 text-primary-400' },
+  BEST_ASKED: { title: 'Best Asked Questions', icon: <Star className="w-5 h-5 text-amber-500" />, badgeColor: 'bg-amber-500/10 text-amber-400' },
+  OTHER: { title: 'Other Extracted Questions', icon: <Hash className="w-5 h-5 text-gray-500" />, badgeColor: 'bg-gray-700/50 text-gray-400' },
+};
+
+const iconButton = 'p-1 rounded text-gray-500 hover:text-gray-200 hover:bg-gray-700/50 transition-colors disabled:opacity-30 disabled:hover:bg-transparent';
+
+// Review step for a processed upload: edit, reorder, delete, then approve
+export function PackageDraftEditor({ detail, onSaved, onApproved }: PackageDraftEditorProps) {
+  const [groups, setGroups] = useState<QuestionGroups>(() => groupQuestions(detail.extracted_questions));
+  const [packages, setPackages] = useState<DailyPackageItem[]>(() => detail.daily_packages ?? []);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isApproving, setIsApproving] = useState(false);
+  const [showApproveConfirm, setShowApproveConfirm] = useState(false);
+
+  useEffect(() => {
+    setGroups(groupQuestions(detail.extracted_questions));
+    setPackages(detail.daily_packages ?? []);
+  }, [detail]);
+
+  const savedPayload = useMemo(
+    () => JSON.stringify(buildDraftPayload(groupQuestions(detail.extracted_questions), detail.daily_packages ?? [])),
+    [detail]
+  );
+  const isDirty = JSON.stringify(buildDraftPayload(groups, packages)) !== savedPayload;
+
+  const errors = useMemo(() => {
+    const list: string[] = [];
+    RANK_GROUPS.forEach((group) => groups[group].forEach((q, i) => {
+      const error = validateExtractedQuestion(q);
+      if (error) list.push(`${GROUP_META[group].title} #${i + 1}: ${error}`);
+    }));
+    packages.forEach((pkg) => pkg.quizJson?.forEach((q, i) => {
+      const error = validateQuizQuestion(q);
+      if (error) list.push(`Quiz (${new Date(pkg.packageDate).toLocaleDateString()}) #${i + 1}: ${error}`);
+    }));
+    return list;
+  }, [groups, packages]);
+
+  // --- Extracted questions ---
+
+  const updateQuestion = (group: RankGroup, index: number, changes: Partial<ExtractedQuestion>) => {
+    setGroups((prev) => ({
+      ...prev,
+      [group]: prev[group].map((q, i) => (i === index ? { ...q, ...changes } : q)),
+    }));
+  };
+
+  const moveQuestion = (group: RankGroup, index: number, to: number) => {
+    setGroups((prev) => ({ ...prev, [group]: moveItem(prev[group], index, to) }));
+  };
+
+  const changeGroup = (group: RankGroup, index: number, target: RankGroup) => {
+    setGroups((prev) => {
+      const question = prev[group][index];
+      return {
+        ...prev,
+        [group]: prev[group].filter((_, i) => i !== index),
+        [target]: [...prev[target], question],
+      };
+    });
+  };
+
+  const deleteQuestion = (group: RankGroup, index: number) => {
+    setGroups((prev) => ({ ...prev, [group]: prev[group].filter((_, i) => i !== index) }));
+  };
+
+  // --- Packages (quiz + summary) ---
+
+  const updatePackage = (packageId: string, update: (pkg: DailyPackageItem) => DailyPackageItem) => {
+    setPackages((prev) => prev.map((pkg) => (pkg.id === packageId ? update(pkg) : pkg)));
+  };
+
+  const updateQuiz = (packageId: string, update: (quiz: QuizQuestion[]) => QuizQuestion[]) => {
+    updatePackage(packageId, (pkg) => ({ ...pkg, quizJson: update(pkg.quizJson ?? []) }));
+  };
+
+  const updateQuizQuestion = (packageId: string, index: number, update: (q: QuizQuestion) => QuizQuestion) => {
+    updateQuiz(packageId, (quiz) => quiz.map((q, i) => (i === index ? update(q) : q)));
+  };
+
+  const addQuizQuestion = (packageId: string) => {
+    updateQuiz(packageId, (quiz) => [
+      ...quiz,
+      { id: `new-${Date.now()}`, question: '', options: ['', ''], correctAnswer: 0 },
+    ]);
+  };
+
+  // --- Save / approve ---
+
+  const saveDraft = async (): Promise<DailyPackageUploadDetail | null> => {
+    setIsSaving(true);
+    try {
+      const updated = await dailyPackageApi.updateDraft(detail.id, buildDraftPayload(groups, packages));
+      onSaved(updated);
+      return updated;
+    } catch (error: unknown) {
+      const err = error as { response?: { data?: { message?: string } } };
+      toast.error(err.response?.data?.message || 'Failed to save draft');
+      return null;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (await saveDraft()) toast.success('Draft saved');
+  };
+
+  const handleApprove = async () => {
+    setShowApproveConfirm(false);
+    if (isDirty && !(await saveDraft())) return;
+
+    setIsApproving(true);
+    try {
+      const approved = await dailyPackageApi.approveUpload(detail.id);
+      toast.success('Approved — students can now see this package');
+      onApproved(approved);
+    } catch (error: unknown) {
+      const err = error as { response?: { data?: { message?: string } } };
+      toast.error(err.response?.data?.message || 'Failed to approve package');
+    } finally {
+      setIsApproving(false);
+    }
+  };
+
+  return (
+    <div>
+      {/* Draft banner */}
+      <div className="sticky top-0 z-10 flex flex-wrap items-center gap-3 bg-[#1e1f23]/95 backdrop-blur border border-amber-500/30 rounded-lg px-4 py-3 mb-6">
+        <AlertCircle className="w-5 h-5 text-amber-400 flex-shrink-0" />
+        <div className="flex-1 min-w-[200px]">
+          <p className="text-sm font-medium text-gray-200">Draft — not visible to students yet</p>
+          <p className="text-xs text-gray-500">
+            {errors.length > 0 ? `${errors.length} issue${errors.length !== 1 ? 's' : ''} to fix before approving` : isDirty ? 'You have unsaved changes' : 'Review the content below, then approve to publish'}
+          </p>
+        </div>
+        <Button size="sm" variant="secondary" onClick={handleSave} disabled={!isDirty || isApproving} isLoading={isSaving} leftIcon={<Save className="w-3.5 h-3.5" />}>
+          Save draft
+        </Button>
+        <Button size="sm" onClick={() => setShowApproveConfirm(true)} disabled={errors.length > 0 || isSaving} isLoading={isApproving} leftIcon={<CheckCircle className="w-3.5 h-3.5" />}>
+          Approve & publish
+        </Button>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="mb-6 space-y-1 text-xs text-red-400">
+          {errors.slice(0, 5).map((error) => <li key={error}>• {error}</li>)}
+          {errors.length > 5 && <li>…and {errors.length - 5} more</li>}
+        </ul>
+      )}
+
+      {/* Extracted questions by rank */}
+      {RANK_GROUPS.filter((group) => groups[group].length > 0).map((group) => (
+        <div key={group} className="bg-[#25262b] border border-gray-700/50 rounded-lg mb-6">
+          <div className="px-5 py-4 border-b border-gray-700/50">
+            <h2 className="text-base font-semibold text-gray-200 flex items-center gap-2">
+              {GROUP_META[group].icon}
+              {GROUP_META[group].title} ({groups[group].length})
+            </h2>
+          </div>
+          <div className="divide-y divide-gray-700/30">
+            {groups[group].map((q, index) => (
+              <div key={q.id} className="p-4 flex items-start gap-3">
+                <span className={`inline-flex items-center justify-center w-6 h-6 rounded-full text-xs font-bold ${GROUP_META[group].badgeColor} shrink-0 mt-1`}>
+                  {index + 1}
+                </span>
+                <div className="flex-1 min-w-0 space-y-2">
+                  <textarea
+                    value={q.questionText}
+                    onChange={(e) => updateQuestion(group, index, { questionText: e.target.value })}
+                    rows={2}
+                    className="input w-full text-sm"
+                    placeholder="Question text"
+                  />
+                  <textarea
+                    value={q.shortAnswer ?? ''}
+                    onChange={(e) => updateQuestion(group, index, { shortAnswer: e.target.value })}
+                    rows={2}
+                    className="input w-full text-xs"
+                    placeholder="Short answer"
+                  />
+                  <div className="flex items-center gap-3 text-xs text-gray-500">
+                    {q.frequency > 1 && <span>Appeared {q.frequency}x</span>}
+                    <select
+                      value={group}
+                      onChange={(e) => changeGroup(group, index, e.target.value as RankGroup)}
+                      className="input w-auto text-xs py-1"
+                    >
+                      {RANK_GROUPS.map((g) => <option key={g} value={g}>{GROUP_META[g].title.replace(' Questions', '')}</option>)}
+                    </select>
+                  </div>
+                </div>
+                <div className="flex flex-col gap-0.5">
+                  <button onClick={() => moveQuestion(group, index, index - 1)} disabled={index === 0} className={iconButton} title="Move up">
+                    <ArrowUp className="w-3.5 h-3.5" />
+                  </button>
+                  <button onClick={() => moveQuestion(group, index, index + 1)} disabled={index === groups[group].length - 1} className={iconButton} title="Move down">
+                    <ArrowDown className="w-3.5 h-3.5" />
+                  </button>
+                  <button onClick={() => deleteQuestion(group, index)} className={`${iconButton} hover:!text-red-400`} title="Delete question">
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      {/* Generated packages: summary + quiz */}
+      {packages.map((pkg) => (
+        <div key={pkg.id} className="bg-[#25262b] border border-gray-700/50 rounded-lg mb-6">
+          <div className="px-5 py-4 border-b border-gray-700/50">
+            <h2 className="text-base font-semibold text-gray-200">
+              Package · {new Date(pkg.packageDate).toLocaleDateString()}
+            </h2>
+          </div>
+
+          <div className="p-5 space-y-5">
+            <div>
+              <label className="label flex items-center gap-1.5"><FileText className="w-4 h-4" /> Summary</label>
+              <textarea
+                value={pkg.summaryText ?? ''}
+                onChange={(e) => updatePackage(pkg.id, (p) => ({ ...p, summaryText: e.target.value }))}
+                rows={5}
+                className="input w-full text-sm"
+                placeholder="Summary shown to students"
+              />
+            </div>
+
+            <div>
+              <label className="label flex items-center gap-1.5"><ClipboardList className="w-4 h-4" /> Quiz ({pkg.quizJson?.length ?? 0})</label>
+              <div className="space-y-3">
+                {(pkg.quizJson ?? []).map((q, qIndex) => (
+                  <div key={q.id || qIndex} className="p-3 bg-[#2c2d32] rounded-lg">
+                    <div className="flex items-start gap-2">
+                      <span className="text-xs font-semibold text-gray-500 mt-2">{qIndex + 1}.</span>
+                      <input
+                        value={q.question}
+                        onChange={(e) => updateQuizQuestion(pkg.id, qIndex, (prev) => ({ ...prev, question: e.target.value }))}
+                        className="input flex-1 text-sm"
+                        placeholder="Question"
+                      />
+                      <button onClick={() => updateQuiz(pkg.id, (quiz) => moveItem(quiz, qIndex, qIndex - 1))} disabled={qIndex === 0} className={`${iconButton} mt-1.5`} title="Move up">
+                        <ArrowUp className="w-3.5 h-3.5" />
+                      </button>
+                      <button onClick={() => updateQuiz(pkg.id, (quiz) => moveItem(quiz, qIndex, qIndex + 1))} disabled={qIndex === (pkg.quizJson?.length ?? 0) - 1} className={`${iconButton} mt-1.5`} title="Move down">
+                        <ArrowDown className="w-3.5 h-3.5" />
+                      </button>
+                      <button onClick={() => updateQuiz(pkg.id, (quiz) => quiz.filter((_, i) => i !== qIndex))} className={`${iconButton} hover:!text-red-400 mt-1.5`} title="Delete question">
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+
+                    <div className="mt-2 ml-5 space-y-1.5">
+                      {q.options.map((option, oIndex) => (
+                        <div key={oIndex} className="flex items-center gap-2">
+                          <input
+                            type="radio"
+                            name={`correct-${pkg.id}-${qIndex}`}
+                            checked={q.correctAnswer === oIndex}
+                            onChange={() => updateQuizQuestion(pkg.id, qIndex, (prev) => ({ ...prev, correctAnswer: oIndex }))}
+                            title="Correct answer"
+                            className="accent-emerald-500"
+                          />
+                          <span className="text-xs font-medium text-gray-500 w-4">{String.fromCharCode(65 + oIndex)}.</span>
+                          <input
+                            value={option}
+                            onChange={(e) => updateQuizQuestion(pkg.id, qIndex, (prev) => ({
+                              ...prev,
+                              options: prev.options.map((o, i) => (i === oIndex ? e.target.value : o)),
+                            }))}
+                            className={`input flex-1 text-xs py-1.5 ${q.correctAnswer === oIndex ? 'border-emerald-500/50' : ''}`}
+                          />
+                          <button
+                            onClick={() => updateQuizQuestion(pkg.id, qIndex, (prev) => removeQuizOption(prev, oIndex))}
+                            disabled={q.options.length <= 2}
+                            className={iconButton}
+                            title="Remove option"
+                          >
+                            <Trash2 className="w-3 h-3" />
+                          </button>
+                        </div>
+                      ))}
+                      <button
+                        onClick={() => updateQuizQuestion(pkg.id, qIndex, (prev) => ({ ...prev, options: [...prev.options, ''] }))}
+                        disabled={q.options.length >= 6}
+                        className="text-xs text-primary-400 hover:text-primary-300 disabled:opacity-40"
+                      >
+                        + Add option
+                      </button>
+                      <input
+                        value={q.explanation ?? ''}
+                        onChange={(e) => updateQuizQuestion(pkg.id, qIndex, (prev) => ({ ...prev, explanation: e.target.value || undefined }))}
+                        className="input w-full text-xs py-1.5"
+                        placeholder="Explanation (optional)"
+                      />
+                    </div>
+                  </div>
+                ))}
+                <Button size="sm" variant="secondary" onClick={() => addQuizQuestion(pkg.id)} leftIcon={<Plus className="w-3.5 h-3.5" />}>
+                  Add quiz question
+                </Button>
+              </div>
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <ConfirmModal
+        isOpen={showApproveConfirm}
+        onClose={() => setShowApproveConfirm(false)}
+        onConfirm={handleApprove}
+        title="Approve and publish"
+        message={`Students in ${detail.class_sections?.name || 'this section'} will see this package${isDirty ? ' (your unsaved edits will be saved first)' : ''}.`}
+        confirmText="Approve"
+      />
+    </div>
+  );
+}
+
+export default PackageDraftEditor;
@@ -0,0 +1,221 @@
+import { useState, useEffect, useMemo } from 'react';
+import { ChevronLeft, ChevronRight, Clock, Eye, CalendarClock } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { dailyPackageApi } from '../../api';
+import { DailyPackageUpload } from '../../types';
+import { Spinner } from '../ui/Loading';
+import Button from '../ui/Button';
+import {
+  ReleaseState,
+  WEEKDAY_LABELS,
+  toDateKey,
+  toDateTimeLocal,
+  parseDateKey,
+  monthGrid,
+  groupUploadsByDate,
+  releaseState,
+} from './packageSchedule';
+
+interface UploadCalendarProps {
+  onOpenUpload: (uploadId: string) => void;
+  // Bumped by the parent after an upload so the month reloads
+  refreshKey?: number;
+}
+
+const STATE_STYLES: Record<ReleaseState, string> = {
+  PUBLISHED: 'bg-emerald-500/15 text-emerald-400',
+  SCHEDULED: 'bg-amber-500/15 text-amber-400',
+  WAITING: 'bg-gray-700/60 text-gray-400',
+};
+
+const STATE_LABELS: Record<ReleaseState, string> = {
+  PUBLISHED: 'Published',
+  SCHEDULED: 'Scheduled',
+  WAITING: 'Awaiting review',
+};
+
+// Month view of uploads by package date, with rescheduling for unreleased ones
+export function UploadCalendar({ onOpenUpload, refreshKey }: UploadCalendarProps) {
+  const [month, setMonth] = useState(() => new Date());
+  const [uploads, setUploads] = useState<DailyPackageUpload[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedDate, setSelectedDate] = useState(() => toDateKey(new Date()));
+  const [rescheduling, setRescheduling] = useState<{ id: string; publishAt: string } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const weeks = useMemo(() => monthGrid(month), [month]);
+  const byDate = useMemo(() => groupUploadsByDate(uploads), [uploads]);
+  const todayKey = toDateKey(new Date());
+
+  useEffect(() => {
+    const fetchMonth = async () => {
+      setIsLoading(true);
+      try {
+        const data = await dailyPackageApi.getUploadCalendar(toDateKey(weeks[0][0]), toDateKey(weeks[weeks.length - 1][6]));
+        setUploads(data);
+      } catch {
+        toast.error('Failed to load calendar');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchMonth();
+  }, [weeks, refreshKey]);
+
+  const shiftMonth = (delta: number) => {
+    setMonth((prev) => new Date(prev.getFullYear(), prev.getMonth() + delta, 1));
+  };
+
+  const handleReschedule = async () => {
+    if (!rescheduling) return;
+    const publishAt = new Date(rescheduling.publishAt);
+    if (Number.isNaN(publishAt.getTime())) {
+      toast.error('Pick a release time');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const updated = await dailyPackageApi.rescheduleUpload(rescheduling.id, {
+        packageDate: toDateKey(publishAt),
+        publishAt: publishAt.toISOString(),
+      });
+      setUploads((prev) => prev.map((u) => (u.id === updated.id ? { ...u, ...updated } : u)));
+      setSelectedDate(toDateKey(publishAt));
+      setRescheduling(null);
+      toast.success('Release rescheduled');
+    } catch (error: unknown) {
+      const err = error as { response?: { data?: { message?: string } } };
+      toast.error(err.response?.data?.message || 'Failed to reschedule');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const selectedUploads = byDate[selectedDate] ?? [];
+
+  return (
+    <div>
+      <div className="flex items-center justify-between px-5 py-3">
+        <button onClick={() => shiftMonth(-1)} className="p-1.5 hover:bg-[#2c2d32] rounded-lg text-gray-400">
+          <ChevronLeft className="w-4 h-4" />
+        </button>
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-semibold text-gray-200">
+            {month.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}
+          </span>
+          {isLoading && <Spinner size="sm" />}
+        </div>
+        <button onClick={() => shiftMonth(1)} className="p-1.5 hover:bg-[#2c2d32] rounded-lg text-gray-400">
+          <ChevronRight className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-px px-5 text-center text-xs text-gray-500 mb-1">
+        {WEEKDAY_LABELS.map((label) => <div key={label}>{label}</div>)}
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 px-5 pb-4">
+        {weeks.flat().map((day) => {
+          const key = toDateKey(day);
+          const dayUploads = byDate[key] ?? [];
+          const inMonth = day.getMonth() === month.getMonth();
+          return (
+            <button
+              key={key}
+              onClick={() => setSelectedDate(key)}
+              className={`min-h-[64px] rounded-lg p-1.5 text-left border transition-colors ${
+                key === selectedDate ? 'border-primary-500/60 bg-primary-500/5' : 'border-transparent hover:bg-[#2c2d32]'
+              } ${inMonth ? '' : 'opacity-40'}`}
+            >
+              <span className={`text-xs ${key === todayKey ? 'font-bold text-primary-400' : 'text-gray-400'}`}>{day.getDate()}</span>
+              <div className="mt-1 space-y-0.5">
+                {dayUploads.slice(0, 2).map((upload) => (
+                  <div key={upload.id} className={`truncate rounded px-1 text-[10px] ${STATE_STYLES[releaseState(upload)]}`}>
+                    {upload.subject.replace(/_/g, ' ')}
+                  </div>
+                ))}
+                {dayUploads.length > 2 && <div className="text-[10px] text-gray-500">+{dayUploads.length - 2} more</div>}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Selected day */}
+      <div className="border-t border-gray-700/50">
+        <p className="px-5 pt-4 text-sm font-medium text-gray-300">
+          {parseDateKey(selectedDate).toLocaleDateString(undefined, { weekday: 'long', month: 'short', day: 'numeric' })}
+        </p>
+        {selectedUploads.length === 0 ? (
+          <p className="px-5 py-4 text-sm text-gray-500">Nothing scheduled for this day</p>
+        ) : (
+          <div className="divide-y divide-gray-700/50">
+            {selectedUploads.map((upload) => {
+              const state = releaseState(upload);
+              const isEditing = rescheduling?.id === upload.id;
+              return (
+                <div key={upload.id} className="px-5 py-3">
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="text-sm text-gray-200 truncate">
+                        {upload.class_sections?.name || 'Unknown Section'} - {upload.subject.replace(/_/g, ' ')}
+                      </p>
+                      <p className="text-xs text-gray-500 flex items-center gap-1 mt-0.5">
+                        <Clock className="w-3 h-3" />
+                        {upload.publishedAt
+                          ? `Released ${new Date(upload.publishedAt).toLocaleString()}`
+                          : upload.publishAt
+                            ? `Releases ${new Date(upload.publishAt).toLocaleString()}`
+                            : 'Releases when ready'}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <span className={`badge ${STATE_STYLES[state]}`}>{STATE_LABELS[state]}</span>
+                      {state !== 'PUBLISHED' && (
+                        <button
+                          onClick={() => setRescheduling(isEditing ? null : {
+                            id: upload.id,
+                            publishAt: toDateTimeLocal(upload.publishAt ? new Date(upload.publishAt) : new Date()),
+                          })}
+                          className="p-1.5 hover:bg-[#2c2d32] rounded-lg text-gray-500 hover:text-gray-300"
+                          title="Reschedule"
+                        >
+                          <CalendarClock className="w-4 h-4" />
+                        </button>
+                      )}
+                      {upload.status === 'COMPLETED' && (
+                        <button
+                          onClick={() => onOpenUpload(upload.id)}
+                          className="p-1.5 hover:bg-[#2c2d32] rounded-lg text-gray-500 hover:text-gray-300"
+                          title="View details"
+                        >
+                          <Eye className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  {isEditing && (
+                    <div className="flex items-center gap-2 mt-2">
+                      <input
+                        type="datetime-local"
+                        value={rescheduling.publishAt}
+                        min={toDateTimeLocal(new Date())}
+                        onChange={(e) => setRescheduling({ id: upload.id, publishAt: e.target.value })}
+                        className="input w-auto text-sm py-1.5"
+                      />
+                      <Button size="sm" onClick={handleReschedule} isLoading={isSaving}>Save</Button>
+                      <Button size="sm" variant="ghost" onClick={() => setRescheduling(null)} disabled={isSaving}>Cancel</Button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default UploadCalendar;
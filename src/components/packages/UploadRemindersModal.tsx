@@ -0,0 +1,182 @@
+import { useState, useEffect } from 'react';
+import { Bell, BellOff, Trash2, Plus } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { dailyPackageApi } from '../../api';
+import { TeacherSection, UploadReminder, UpdateUploadReminderRequest } from '../../types';
+import { Modal } from '../ui/Modal';
+import { Spinner } from '../ui/Loading';
+import { SCHOOL_DAYS, WEEKDAY_LABELS, formatWeekdays } from './packageSchedule';
+
+interface UploadRemindersModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  assignments: TeacherSection[];
+}
+
+const DEFAULT_REMIND_AT = '07:30';
+
+// Per section/subject reminders, sent when nothing has been uploaded by the set time
+export function UploadRemindersModal({ isOpen, onClose, assignments }: UploadRemindersModalProps) {
+  const [reminders, setReminders] = useState<UploadReminder[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const fetchReminders = async () => {
+      setIsLoading(true);
+      try {
+        setReminders(await dailyPackageApi.getReminders());
+      } catch {
+        toast.error('Failed to load reminders');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchReminders();
+  }, [isOpen]);
+
+  const findReminder = (assignment: TeacherSection) =>
+    reminders.find((r) => r.sectionId === assignment.sectionId && r.subject === assignment.subject);
+
+  const handleCreate = async (assignment: TeacherSection) => {
+    const key = `${assignment.sectionId}-${assignment.subject}`;
+    setBusyKey(key);
+    try {
+      const reminder = await dailyPackageApi.createReminder({
+        sectionId: assignment.sectionId,
+        subject: assignment.subject,
+        remindAt: DEFAULT_REMIND_AT,
+        weekdays: SCHOOL_DAYS,
+      });
+      setReminders((prev) => [...prev, reminder]);
+    } catch (error: unknown) {
+      const err = error as { response?: { data?: { message?: string } } };
+      toast.error(err.response?.data?.message || 'Failed to add reminder');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handleUpdate = async (reminder: UploadReminder, data: UpdateUploadReminderRequest) => {
+    // Optimistic; roll back on failure
+    setReminders((prev) => prev.map((r) => (r.id === reminder.id ? { ...r, ...data } : r)));
+    try {
+      const updated = await dailyPackageApi.updateReminder(reminder.id, data);
+      setReminders((prev) => prev.map((r) => (r.id === updated.id ? updated : r)));
+    } catch {
+      setReminders((prev) => prev.map((r) => (r.id === reminder.id ? reminder : r)));
+      toast.error('Failed to update reminder');
+    }
+  };
+
+  const handleDelete = async (reminder: UploadReminder) => {
+    setBusyKey(reminder.id);
+    try {
+      await dailyPackageApi.deleteReminder(reminder.id);
+      setReminders((prev) => prev.filter((r) => r.id !== reminder.id));
+    } catch {
+      toast.error('Failed to delete reminder');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const toggleWeekday = (reminder: UploadReminder, day: number) => {
+    const weekdays = reminder.weekdays.includes(day)
+      ? reminder.weekdays.filter((d) => d !== day)
+      : [...reminder.weekdays, day];
+    if (weekdays.length === 0) return;
+    handleUpdate(reminder, { weekdays });
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Upload Reminders" size="lg">
+      <p className="text-sm text-gray-400 mb-4">
+        Get a notification when a section has no upload for its subject by the time you set.
+      </p>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8"><Spinner /></div>
+      ) : assignments.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-8">No sections assigned yet</p>
+      ) : (
+        <div className="space-y-3">
+          {assignments.map((assignment) => {
+            const key = `${assignment.sectionId}-${assignment.subject}`;
+            const reminder = findReminder(assignment);
+            return (
+              <div key={key} className="p-3 bg-[#2c2d32] rounded-lg">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-200 truncate">
+                      {assignment.class_sections?.name || 'Unknown Section'} - {assignment.subject.replace(/_/g, ' ')}
+                    </p>
+                    {reminder && (
+                      <p className="text-xs text-gray-500 mt-0.5">
+                        {reminder.enabled ? `${formatWeekdays(reminder.weekdays)} at ${reminder.remindAt}` : 'Paused'}
+                      </p>
+                    )}
+                  </div>
+                  {reminder ? (
+                    <div className="flex items-center gap-1 shrink-0">
+                      <input
+                        type="time"
+                        value={reminder.remindAt}
+                        onChange={(e) => e.target.value && handleUpdate(reminder, { remindAt: e.target.value })}
+                        className="input w-auto text-xs py-1"
+                      />
+                      <button
+                        onClick={() => handleUpdate(reminder, { enabled: !reminder.enabled })}
+                        className={`p-1.5 rounded-lg hover:bg-[#25262b] ${reminder.enabled ? 'text-primary-400' : 'text-gray-500'}`}
+                        title={reminder.enabled ? 'Pause reminder' : 'Resume reminder'}
+                      >
+                        {reminder.enabled ? <Bell className="w-4 h-4" /> : <BellOff className="w-4 h-4" />}
+                      </button>
+                      <button
+                        onClick={() => handleDelete(reminder)}
+                        disabled={busyKey === reminder.id}
+                        className="p-1.5 rounded-lg text-gray-500 hover:text-red-400 hover:bg-[#25262b]"
+                        title="Delete reminder"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ) : (
+                    <button
+                      onClick={() => handleCreate(assignment)}
+                      disabled={busyKey === key}
+                      className="inline-flex items-center gap-1 text-xs text-primary-400 hover:text-primary-300 disabled:opacity-50 shrink-0"
+                    >
+                      <Plus className="w-3.5 h-3.5" /> Add reminder
+                    </button>
+                  )}
+                </div>
+
+                {reminder && (
+                  <div className="flex gap-1 mt-2">
+                    {WEEKDAY_LABELS.map((label, day) => (
+                      <button
+                        key={label}
+                        onClick={() => toggleWeekday(reminder, day)}
+                        className={`px-2 py-0.5 rounded text-xs transition-colors ${
+                          reminder.weekdays.includes(day)
+                            ? 'bg-primary-500/20 text-primary-300'
+                            : 'bg-[#25262b] text-gray-500 hover:text-gray-300'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </Modal>
+  );
+}
+
+export default UploadRemindersModal;
@@ -0,0 +1,26 @@
+export { PackageDraftEditor } from './PackageDraftEditor';
+export { UploadCalendar } from './UploadCalendar';
+export { UploadRemindersModal } from './UploadRemindersModal';
+export {
+  RANK_GROUPS,
+  moveItem,
+  groupQuestions,
+  removeQuizOption,
+  validateQuizQuestion,
+  validateExtractedQuestion,
+  buildDraftPayload,
+} from './packageDraft';
+export type { RankGroup, QuestionGroups } from './packageDraft';
+export {
+  SCHOOL_DAYS,
+  WEEKDAY_LABELS,
+  toDateKey,
+  parseDateKey,
+  toDateTimeLocal,
+  nextSchoolMorning,
+  monthGrid,
+  groupUploadsByDate,
+  releaseState,
+  formatWeekdays,
+} from './packageSchedule';
+export type { ReleaseState } from './packageSchedule';
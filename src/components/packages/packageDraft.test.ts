@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import type { DailyPackageItem, ExtractedQuestion } from '../../types'
+import { moveItem, groupQuestions, removeQuizOption, validateQuizQuestion, buildDraftPayload } from './packageDraft'
+
+const extracted = (id: string, rankType: ExtractedQuestion['rankType'], rankPosition: number | null): ExtractedQuestion => ({
+  id,
+  questionText: ` Question ${id} `,
+  frequency: 1,
+  rankType,
+  rankPosition,
+  shortAnswer: '',
+})
+
+describe('package draft helpers', () => {
+  it('moves items and ignores out-of-range moves', () => {
+    expect(moveItem(['a', 'b', 'c'], 0, 2)).toEqual(['b', 'c', 'a'])
+    expect(moveItem(['a', 'b'], 0, -1)).toEqual(['a', 'b'])
+  })
+
+  it('groups questions by rank in rank order', () => {
+    const groups = groupQuestions([
+      extracted('1', 'MOST_ASKED', 2),
+      extracted('2', 'MOST_ASKED', 1),
+      extracted('3', null, null),
+    ])
+    expect(groups.MOST_ASKED.map((q) => q.id)).toEqual(['2', '1'])
+    expect(groups.BEST_ASKED).toEqual([])
+    expect(groups.OTHER.map((q) => q.id)).toEqual(['3'])
+  })
+
+  it('keeps the correct answer when removing options', () => {
+    const question = { id: 'q', question: 'Pick', options: ['a', 'b', 'c'], correctAnswer: 2 }
+    expect(removeQuizOption(question, 0)).toMatchObject({ options: ['b', 'c'], correctAnswer: 1 })
+    expect(removeQuizOption(question, 2)).toMatchObject({ options: ['a', 'b'], correctAnswer: 0 })
+  })
+
+  it('validates quiz questions', () => {
+    expect(validateQuizQuestion({ id: 'q', question: 'Pick', options: ['a', 'b'], correctAnswer: 1 })).toBeNull()
+    expect(validateQuizQuestion({ id: 'q', question: 'Pick', options: ['a'], correctAnswer: 0 })).toBe('Needs at least two options')
+    expect(validateQuizQuestion({ id: 'q', question: 'Pick', options: ['a', ' '], correctAnswer: 0 })).toBe('An option is empty')
+  })
+
+  it('builds the draft payload from list order', () => {
+    const payload = buildDraftPayload(
+      { MOST_ASKED: [extracted('2', 'MOST_ASKED', 1), extracted('1', 'BEST_ASKED', 1)], BEST_ASKED: [], OTHER: [extracted('3', 'MOST_ASKED', 3)] },
+      [{ id: 'p1', packageDate: '2024-05-01', pdfUrl: null, audioUrl: null, summaryText: '  ', quizJson: [], status: 'COMPLETED' } as DailyPackageItem]
+    )
+    expect(payload.extractedQuestions).toEqual([
+      { id: '2', questionText: 'Question 2', shortAnswer: null, rankType: 'MOST_ASKED', rankPosition: 1 },
+      { id: '1', questionText: 'Question 1', shortAnswer: null, rankType: 'MOST_ASKED', rankPosition: 2 },
+      { id: '3', questionText: 'Question 3', shortAnswer: null, rankType: null, rankPosition: null },
+    ])
+    expect(payload.packages).toEqual([{ id: 'p1', quizJson: null, summaryText: null }])
+  })
+})
@@ -0,0 +1,74 @@
+import type { DailyPackageItem, ExtractedQuestion, QuizQuestion, UpdatePackageDraftRequest } from '../../types';
+
+// ============================================
+// Daily package draft editing helpers
+// ============================================
+
+export type RankGroup = 'MOST_ASKED' | 'BEST_ASKED' | 'OTHER';
+
+export const RANK_GROUPS: RankGroup[] = ['MOST_ASKED', 'BEST_ASKED', 'OTHER'];
+
+export type QuestionGroups = Record<RankGroup, ExtractedQuestion[]>;
+
+export function moveItem<T>(items: T[], from: number, to: number): T[] {
+  if (to < 0 || to >= items.length || from === to) return items;
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
+
+// Split extracted questions into rank groups, each in rank order
+export function groupQuestions(questions: ExtractedQuestion[]): QuestionGroups {
+  const byPosition = (a: ExtractedQuestion, b: ExtractedQuestion) => (a.rankPosition || 0) - (b.rankPosition || 0);
+  return {
+    MOST_ASKED: questions.filter((q) => q.rankType === 'MOST_ASKED').sort(byPosition),
+    BEST_ASKED: questions.filter((q) => q.rankType === 'BEST_ASKED').sort(byPosition),
+    OTHER: questions.filter((q) => !q.rankType),
+  };
+}
+
+// Removing an option keeps correctAnswer pointing at the same option
+export function removeQuizOption(question: QuizQuestion, optionIndex: number): QuizQuestion {
+  const options = question.options.filter((_, i) => i !== optionIndex);
+  let correctAnswer = question.correctAnswer;
+  if (optionIndex < correctAnswer) correctAnswer -= 1;
+  else if (optionIndex === correctAnswer) correctAnswer = 0;
+  return { ...question, options, correctAnswer };
+}
+
+export function validateQuizQuestion(question: QuizQuestion): string | null {
+  if (!question.question.trim()) return 'Question text is empty';
+  if (question.options.length < 2) return 'Needs at least two options';
+  if (question.options.some((o) => !o.trim())) return 'An option is empty';
+  if (question.correctAnswer < 0 || question.correctAnswer >= question.options.length) {
+    return 'Pick the correct answer';
+  }
+  return null;
+}
+
+export function validateExtractedQuestion(question: ExtractedQuestion): string | null {
+  return question.questionText.trim() ? null : 'Question text is empty';
+}
+
+// Draft payload: list order becomes rankPosition, moving groups changes rankType
+export function buildDraftPayload(groups: QuestionGroups, packages: DailyPackageItem[]): UpdatePackageDraftRequest {
+  return {
+    extractedQuestions: RANK_GROUPS.flatMap((group) =>
+      groups[group].map((q, index) => ({
+        id: q.id,
+        questionText: q.questionText.trim(),
+        shortAnswer: q.shortAnswer?.trim() || null,
+        rankType: group === 'OTHER' ? null : group,
+        rankPosition: group === 'OTHER' ? null : index + 1,
+      }))
+    ),
+    packages: packages.map((pkg) => ({
+      id: pkg.id,
+      quizJson: pkg.quizJson && pkg.quizJson.length > 0
+        ? pkg.quizJson.map((q) => ({ ...q, question: q.question.trim(), options: q.options.map((o) => o.trim()) }))
+        : null,
+      summaryText: pkg.summaryText?.trim() || null,
+    })),
+  };
+}
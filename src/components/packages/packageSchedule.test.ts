@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import type { DailyPackageUpload } from '../../types'
+import { toDateKey, nextSchoolMorning, monthGrid, groupUploadsByDate, releaseState, formatWeekdays } from './packageSchedule'
+
+const upload = (changes: Partial<DailyPackageUpload>): DailyPackageUpload => ({
+  id: 'u1',
+  sectionId: 's1',
+  teacherId: 't1',
+  subject: 'PHYSICS',
+  status: 'COMPLETED',
+  errorMsg: null,
+  createdAt: '2024-05-01T18:00:00',
+  updatedAt: '2024-05-01T18:00:00',
+  ...changes,
+})
+
+describe('nextSchoolMorning', () => {
+  it('picks tomorrow morning on a weekday evening', () => {
+    // Wednesday 1 May 2024, 19:30
+    expect(toDateKey(nextSchoolMorning(new Date(2024, 4, 1, 19, 30)))).toBe('2024-05-02')
+  })
+
+  it('skips the weekend and uses the given time', () => {
+    // Friday 3 May 2024, 18:00 -> Monday 6 May 07:45
+    const morning = nextSchoolMorning(new Date(2024, 4, 3, 18, 0), '07:45')
+    expect(toDateKey(morning)).toBe('2024-05-06')
+    expect([morning.getHours(), morning.getMinutes()]).toEqual([7, 45])
+  })
+
+  it('uses this morning when it is still early', () => {
+    expect(toDateKey(nextSchoolMorning(new Date(2024, 4, 2, 6, 0)))).toBe('2024-05-02')
+  })
+})
+
+describe('monthGrid', () => {
+  it('covers the month in Sunday-first weeks', () => {
+    const weeks = monthGrid(new Date(2024, 4, 15))
+    expect(weeks).toHaveLength(5)
+    expect(toDateKey(weeks[0][0])).toBe('2024-04-28')
+    expect(toDateKey(weeks[4][6])).toBe('2024-06-01')
+  })
+})
+
+describe('uploads', () => {
+  it('groups by package date, falling back to the upload day', () => {
+    const groups = groupUploadsByDate([
+      upload({ id: 'a', packageDate: '2024-05-02' }),
+      upload({ id: 'b' }),
+    ])
+    expect(Object.keys(groups).sort()).toEqual(['2024-05-01', '2024-05-02'])
+  })
+
+  it('derives release state', () => {
+    const now = new Date('2024-05-01T20:00:00')
+    expect(releaseState(upload({ publishAt: '2024-05-02T08:00:00' }), now)).toBe('SCHEDULED')
+    expect(releaseState(upload({ publishAt: '2024-05-01T08:00:00', reviewStatus: 'APPROVED' }), now)).toBe('PUBLISHED')
+    expect(releaseState(upload({ reviewStatus: 'DRAFT' }), now)).toBe('WAITING')
+  })
+
+  it('formats reminder weekdays', () => {
+    expect(formatWeekdays([5, 1, 2, 3, 4])).toBe('Weekdays')
+    expect(formatWeekdays([1, 3])).toBe('Mon, Wed')
+  })
+})
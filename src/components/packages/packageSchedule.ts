@@ -0,0 +1,84 @@
+import type { DailyPackageUpload } from '../../types';
+
+// ============================================
+// Daily package scheduling helpers
+// ============================================
+
+export type ReleaseState = 'PUBLISHED' | 'SCHEDULED' | 'WAITING';
+
+export const SCHOOL_DAYS = [1, 2, 3, 4, 5];
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Local calendar date as YYYY-MM-DD (toISOString would shift to UTC)
+export function toDateKey(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function parseDateKey(key: string): Date {
+  const [year, month, day] = key.slice(0, 10).split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+// Value for <input type="datetime-local">
+export function toDateTimeLocal(date: Date): string {
+  return `${toDateKey(date)}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+// First school-day morning strictly after `now`
+export function nextSchoolMorning(now: Date, time = '08:00', schoolDays = SCHOOL_DAYS): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  const candidate = new Date(now.getFullYear(), now.getMonth(), now.getDate(), hours, minutes);
+  for (let i = 0; i < 8; i++) {
+    if (candidate > now && schoolDays.includes(candidate.getDay())) return candidate;
+    candidate.setDate(candidate.getDate() + 1);
+  }
+  return candidate;
+}
+
+// Weeks (Sunday first) covering the month containing `month`
+export function monthGrid(month: Date): Date[][] {
+  const first = new Date(month.getFullYear(), month.getMonth(), 1);
+  const last = new Date(month.getFullYear(), month.getMonth() + 1, 0);
+  const cursor = new Date(first);
+  cursor.setDate(first.getDate() - first.getDay());
+
+  const weeks: Date[][] = [];
+  while (cursor <= last) {
+    const week: Date[] = [];
+    for (let i = 0; i < 7; i++) {
+      week.push(new Date(cursor));
+      cursor.setDate(cursor.getDate() + 1);
+    }
+    weeks.push(week);
+  }
+  return weeks;
+}
+
+export function uploadDateKey(upload: DailyPackageUpload): string {
+  return upload.packageDate ? upload.packageDate.slice(0, 10) : toDateKey(new Date(upload.createdAt));
+}
+
+export function groupUploadsByDate(uploads: DailyPackageUpload[]): Record<string, DailyPackageUpload[]> {
+  return uploads.reduce<Record<string, DailyPackageUpload[]>>((acc, upload) => {
+    const key = uploadDateKey(upload);
+    (acc[key] ??= []).push(upload);
+    return acc;
+  }, {});
+}
+
+// A package goes live at the later of approval and publishAt
+export function releaseState(upload: DailyPackageUpload, now = new Date()): ReleaseState {
+  if (upload.publishedAt) return 'PUBLISHED';
+  if (upload.publishAt && new Date(upload.publishAt) > now) return 'SCHEDULED';
+  if (upload.status === 'COMPLETED' && upload.reviewStatus !== 'DRAFT') return 'PUBLISHED';
+  return 'WAITING';
+}
+
+export function formatWeekdays(days: number[]): string {
+  const sorted = [...days].sort((a, b) => a - b);
+  if (sorted.length === 7) return 'Every day';
+  if (sorted.join() === SCHOOL_DAYS.join()) return 'Weekdays';
+  return sorted.map((d) => WEEKDAY_LABELS[d]).join(', ');
+}
@@ -0,0 +1,8 @@
+export {
+  shuffledOrder,
+  buildAttemptAnswers,
+  attemptPercent,
+  summarizeWeakTopics,
+  formatDuration,
+} from './quizAttempts';
+export type { SubjectPerformance, MissedQuestion, WeakTopicSummary } from './quizAttempts';
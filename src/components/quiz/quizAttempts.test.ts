@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest'
+import type { QuizAttempt, QuizQuestion } from '../../types'
+import { shuffledOrder, buildAttemptAnswers, summarizeWeakTopics, attemptPercent, formatDuration } from './quizAttempts'
+
+const questions: QuizQuestion[] = [
+  { id: 'q1', question: 'Speed of light?', options: ['3e8 m/s', '340 m/s'], correctAnswer: 0 },
+  { id: 'q2', question: 'Unit of force?', options: ['Joule', 'Newton'], correctAnswer: 1 },
+]
+
+const attempt = (packageId: string, subject: string, correct: boolean[]): QuizAttempt => ({
+  id: `${packageId}-${correct.join()}`,
+  packageId,
+  attemptNumber: 1,
+  score: correct.filter(Boolean).length,
+  total: correct.length,
+  durationMs: 1000,
+  createdAt: '2024-05-01T10:00:00.000Z',
+  answers: correct.map((isCorrect, i) => ({
+    questionId: questions[i].id,
+    questionIndex: i,
+    selectedAnswer: 0,
+    isCorrect,
+    timeMs: 500,
+  })),
+  package: {
+    id: packageId,
+    subject,
+    packageDate: '2024-05-01',
+    quizJson: questions,
+    class_sections: { id: 's1', name: '10A', grade: '10' },
+  },
+})
+
+describe('shuffledOrder', () => {
+  it('returns a permutation of the indices', () => {
+    const order = shuffledOrder(6)
+    expect([...order].sort()).toEqual([0, 1, 2, 3, 4, 5])
+  })
+
+  it('is deterministic for a given random source', () => {
+    expect(shuffledOrder(4, () => 0)).toEqual([1, 2, 3, 0])
+  })
+})
+
+describe('buildAttemptAnswers', () => {
+  it('records skipped questions and rounds timings', () => {
+    expect(buildAttemptAnswers(questions, { 1: 1 }, { 0: 1200.4, 1: 800.6 })).toEqual([
+      { questionId: 'q1', questionIndex: 0, selectedAnswer: null, isCorrect: false, timeMs: 1200 },
+      { questionId: 'q2', questionIndex: 1, selectedAnswer: 1, isCorrect: true, timeMs: 801 },
+    ])
+  })
+})
+
+describe('summarizeWeakTopics', () => {
+  it('orders subjects by accuracy and surfaces missed questions', () => {
+    const summary = summarizeWeakTopics([
+      attempt('p1', 'PHYSICS', [false, true]),
+      attempt('p1', 'PHYSICS', [false, true]),
+      attempt('p2', 'CHEMISTRY', [true, true]),
+    ])
+    expect(summary.subjects.map((s) => [s.subject, s.accuracy])).toEqual([
+      ['PHYSICS', 0.5],
+      ['CHEMISTRY', 1],
+    ])
+    expect(summary.missedQuestions).toEqual([
+      { questionId: 'p1:q1', question: 'Speed of light?', subject: 'PHYSICS', seen: 2, missed: 2 },
+    ])
+  })
+})
+
+describe('formatting', () => {
+  it('formats percent and duration', () => {
+    expect(attemptPercent({ score: 2, total: 3 })).toBe(67)
+    expect(formatDuration(45_000)).toBe('45s')
+    expect(formatDuration(125_000)).toBe('2m 5s')
+  })
+})
@@ -0,0 +1,102 @@
+import type { QuizAttempt, QuizAttemptAnswer, QuizQuestion } from '../../types';
+
+// ============================================
+// Quiz attempt helpers
+// ============================================
+
+export interface SubjectPerformance {
+  subject: string;
+  attempts: number;
+  correct: number;
+  total: number;
+  accuracy: number; // 0-1
+}
+
+export interface MissedQuestion {
+  questionId: string;
+  question: string;
+  subject: string;
+  seen: number;
+  missed: number;
+}
+
+export interface WeakTopicSummary {
+  subjects: SubjectPerformance[];
+  missedQuestions: MissedQuestion[];
+}
+
+// Fisher-Yates over question indices; `random` is injectable for tests
+export function shuffledOrder(length: number, random: () => number = Math.random): number[] {
+  const order = Array.from({ length }, (_, i) => i);
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+}
+
+// Answers keyed by original question index, in quizJson order
+export function buildAttemptAnswers(
+  questions: QuizQuestion[],
+  answers: Record<number, number>,
+  timings: Record<number, number>
+): QuizAttemptAnswer[] {
+  return questions.map((q, index) => {
+    const selectedAnswer = answers[index] ?? null;
+    return {
+      questionId: q.id || String(index),
+      questionIndex: index,
+      selectedAnswer,
+      isCorrect: selectedAnswer === q.correctAnswer,
+      timeMs: Math.round(timings[index] ?? 0),
+    };
+  });
+}
+
+export function attemptPercent(attempt: Pick<QuizAttempt, 'score' | 'total'>): number {
+  return attempt.total > 0 ? Math.round((attempt.score / attempt.total) * 100) : 0;
+}
+
+// Weakest subjects first, then the questions missed most often. Every attempt
+// counts so that retakes which are still wrong keep a question on the list.
+export function summarizeWeakTopics(attempts: QuizAttempt[], maxQuestions = 5): WeakTopicSummary {
+  const subjects = new Map<string, SubjectPerformance>();
+  const questions = new Map<string, MissedQuestion>();
+
+  attempts.forEach((attempt) => {
+    const pkg = attempt.package;
+    if (!pkg) return;
+
+    const subject = subjects.get(pkg.subject) ?? { subject: pkg.subject, attempts: 0, correct: 0, total: 0, accuracy: 0 };
+    subject.attempts += 1;
+    subject.correct += attempt.score;
+    subject.total += attempt.total;
+    subjects.set(pkg.subject, subject);
+
+    attempt.answers.forEach((answer) => {
+      const key = `${pkg.id}:${answer.questionId}`;
+      const text = pkg.quizJson?.[answer.questionIndex]?.question;
+      if (!text) return;
+      const entry = questions.get(key) ?? { questionId: key, question: text, subject: pkg.subject, seen: 0, missed: 0 };
+      entry.seen += 1;
+      if (!answer.isCorrect) entry.missed += 1;
+      questions.set(key, entry);
+    });
+  });
+
+  return {
+    subjects: [...subjects.values()]
+      .map((s) => ({ ...s, accuracy: s.total > 0 ? s.correct / s.total : 0 }))
+      .sort((a, b) => a.accuracy - b.accuracy),
+    missedQuestions: [...questions.values()]
+      .filter((q) => q.missed > 0)
+      .sort((a, b) => b.missed / b.seen - a.missed / a.seen || b.missed - a.missed)
+      .slice(0, maxQuestions),
+  };
+}
+
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
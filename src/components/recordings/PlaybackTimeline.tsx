@@ -0,0 +1,51 @@
+import { TimelineEntry, formatPlaybackTime } from './recordingTimeline';
+
+interface PlaybackTimelineProps {
+  entries: TimelineEntry[];
+  duration: number;
+  position: number;
+  onSeek: (seconds: number) => void;
+}
+
+// Scrubber with a marker for every chat message and whiteboard snapshot
+export function PlaybackTimeline({ entries, duration, position, onSeek }: PlaybackTimelineProps) {
+  const percent = (seconds: number) => (duration > 0 ? Math.min(100, (seconds / duration) * 100) : 0);
+
+  return (
+    <div className="space-y-1">
+      <div className="relative h-6">
+        <input
+          type="range"
+          min={0}
+          max={duration || 0}
+          step={0.5}
+          value={Math.min(position, duration || 0)}
+          onChange={(e) => onSeek(Number(e.target.value))}
+          className="absolute inset-x-0 top-1/2 -translate-y-1/2 w-full accent-primary-500"
+          aria-label="Playback position"
+        />
+        {entries.map((entry) => (
+          <button
+            key={entry.kind === 'chat' ? `chat-${entry.message.id}` : `board-${entry.snapshot.id}`}
+            onClick={() => onSeek(entry.offset)}
+            style={{ left: `${percent(entry.offset)}%` }}
+            className={`absolute top-0 w-1 h-2 -translate-x-1/2 rounded-sm ${
+              entry.kind === 'chat' ? 'bg-blue-400' : 'bg-violet-400'
+            }`}
+            title={`${entry.kind === 'chat' ? entry.message.senderName : 'Whiteboard'} · ${formatPlaybackTime(entry.offset)}`}
+          />
+        ))}
+      </div>
+      <div className="flex items-center justify-between text-xs text-gray-500">
+        <span>{formatPlaybackTime(position)}</span>
+        <span className="flex items-center gap-3">
+          <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-blue-400" /> Chat</span>
+          <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-violet-400" /> Whiteboard</span>
+        </span>
+        <span>{formatPlaybackTime(duration)}</span>
+      </div>
+    </div>
+  );
+}
+
+export default PlaybackTimeline;
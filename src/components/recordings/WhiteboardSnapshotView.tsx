@@ -0,0 +1,63 @@
+import { useEffect, useRef } from 'react';
+import { Excalidraw } from '@excalidraw/excalidraw';
+import '@excalidraw/excalidraw/index.css';
+import { Pencil } from 'lucide-react';
+import { WhiteboardSnapshot } from '../../types';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type ExcalidrawImperativeAPI = any;
+
+interface WhiteboardSnapshotViewProps {
+  snapshot: WhiteboardSnapshot | null;
+  className?: string;
+}
+
+// Read-only whiteboard that follows the playback position
+export function WhiteboardSnapshotView({ snapshot, className = '' }: WhiteboardSnapshotViewProps) {
+  const excalidrawRef = useRef<ExcalidrawImperativeAPI | null>(null);
+
+  useEffect(() => {
+    const api = excalidrawRef.current;
+    if (!api) return;
+    if (snapshot?.files) api.addFiles(Object.values(snapshot.files));
+    api.updateScene({ elements: snapshot?.elements ?? [] });
+  }, [snapshot]);
+
+  return (
+    <div className={`relative bg-[#1e1e1e] rounded-xl overflow-hidden ${className}`}>
+      <Excalidraw
+        excalidrawAPI={(api) => {
+          excalidrawRef.current = api;
+        }}
+        initialData={{
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          elements: (snapshot?.elements ?? []) as any[],
+          appState: { viewBackgroundColor: '#1e1e1e' },
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          files: (snapshot?.files ?? undefined) as any,
+        }}
+        viewModeEnabled
+        theme="dark"
+        UIOptions={{
+          canvasActions: {
+            changeViewBackgroundColor: false,
+            clearCanvas: false,
+            export: false,
+            loadScene: false,
+            saveToActiveFile: false,
+            toggleTheme: false,
+            saveAsImage: false,
+          },
+        }}
+      />
+      {!snapshot && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center text-gray-500 pointer-events-none">
+          <Pencil className="w-8 h-8 mb-2 text-gray-600" />
+          <p className="text-sm">Whiteboard is empty at this point</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default WhiteboardSnapshotView;
@@ -0,0 +1,10 @@
+export { WhiteboardSnapshotView } from './WhiteboardSnapshotView';
+export { PlaybackTimeline } from './PlaybackTimeline';
+export {
+  buildTimeline,
+  snapshotAt,
+  lastChatIndexAt,
+  offsetSeconds,
+  formatPlaybackTime,
+} from './recordingTimeline';
+export type { TimelineEntry } from './recordingTimeline';
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest'
+import { buildTimeline, snapshotAt, lastChatIndexAt, offsetSeconds, formatPlaybackTime } from './recordingTimeline'
+import type { TutorStudentChatMessage, WhiteboardSnapshot } from '../../types'
+
+const startedAt = '2026-03-01T10:00:00.000Z'
+
+const chat = (id: string, at: string): TutorStudentChatMessage => ({
+  id,
+  senderId: 's1',
+  senderName: 'Student',
+  content: id,
+  role: 'student',
+  createdAt: at,
+})
+
+const snapshot = (id: string, at: string): WhiteboardSnapshot => ({ id, version: 1, capturedAt: at, elements: [] })
+
+describe('buildTimeline', () => {
+  it('orders chat and snapshots by offset from the recording start', () => {
+    const timeline = buildTimeline(
+      startedAt,
+      [chat('late', '2026-03-01T10:02:00.000Z'), chat('early', '2026-03-01T09:59:00.000Z')],
+      [snapshot('board', '2026-03-01T10:01:00.000Z')]
+    )
+    expect(timeline.map((e) => [e.kind, e.offset])).toEqual([
+      ['chat', 0],
+      ['snapshot', 60],
+      ['chat', 120],
+    ])
+  })
+})
+
+describe('playback position', () => {
+  const messages = [chat('a', '2026-03-01T10:00:30.000Z'), chat('b', '2026-03-01T10:03:00.000Z')]
+  const timeline = buildTimeline(startedAt, messages, [
+    snapshot('first', '2026-03-01T10:01:00.000Z'),
+    snapshot('second', '2026-03-01T10:02:00.000Z'),
+  ])
+
+  it('shows the latest snapshot taken before the position', () => {
+    expect(snapshotAt(timeline, 30)).toBeNull()
+    expect(snapshotAt(timeline, 60)?.id).toBe('first')
+    expect(snapshotAt(timeline, 150)?.id).toBe('second')
+  })
+
+  it('finds the last chat message already sent', () => {
+    expect(lastChatIndexAt(messages, startedAt, 10)).toBe(-1)
+    expect(lastChatIndexAt(messages, startedAt, 100)).toBe(0)
+    expect(lastChatIndexAt(messages, startedAt, 500)).toBe(1)
+  })
+})
+
+describe('formatting', () => {
+  it('formats offsets and playback times', () => {
+    expect(offsetSeconds('not a date', startedAt)).toBe(0)
+    expect(formatPlaybackTime(65)).toBe('1:05')
+    expect(formatPlaybackTime(3725)).toBe('1:02:05')
+  })
+})
@@ -0,0 +1,52 @@
+import type { TutorStudentChatMessage, WhiteboardSnapshot } from '../../types';
+
+export type TimelineEntry =
+  | { kind: 'chat'; offset: number; message: TutorStudentChatMessage }
+  | { kind: 'snapshot'; offset: number; snapshot: WhiteboardSnapshot };
+
+// Seconds from the start of the recording; events before it land at 0
+export function offsetSeconds(timestamp: string, startedAt: string): number {
+  const offset = (new Date(timestamp).getTime() - new Date(startedAt).getTime()) / 1000;
+  return Number.isFinite(offset) ? Math.max(0, offset) : 0;
+}
+
+// Chat messages and whiteboard snapshots on one clock, in playback order
+export function buildTimeline(
+  startedAt: string,
+  chatMessages: TutorStudentChatMessage[],
+  snapshots: WhiteboardSnapshot[]
+): TimelineEntry[] {
+  const entries: TimelineEntry[] = [
+    ...chatMessages.map((message) => ({ kind: 'chat' as const, offset: offsetSeconds(message.createdAt, startedAt), message })),
+    ...snapshots.map((snapshot) => ({ kind: 'snapshot' as const, offset: offsetSeconds(snapshot.capturedAt, startedAt), snapshot })),
+  ];
+  return entries.sort((a, b) => a.offset - b.offset);
+}
+
+// The whiteboard as it looked at the given playback position
+export function snapshotAt(timeline: TimelineEntry[], position: number): WhiteboardSnapshot | null {
+  let current: WhiteboardSnapshot | null = null;
+  for (const entry of timeline) {
+    if (entry.offset > position) break;
+    if (entry.kind === 'snapshot') current = entry.snapshot;
+  }
+  return current;
+}
+
+// Index of the last chat message sent at or before the playback position, or -1
+export function lastChatIndexAt(messages: TutorStudentChatMessage[], startedAt: string, position: number): number {
+  let index = -1;
+  messages.forEach((message, i) => {
+    if (offsetSeconds(message.createdAt, startedAt) <= position) index = i;
+  });
+  return index;
+}
+
+// m:ss, or h:mm:ss for long sessions
+export function formatPlaybackTime(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
@@ -0,0 +1,116 @@
+import { useState, useEffect } from 'react';
+import toast from 'react-hot-toast';
+import { reviewsApi } from '../../api';
+import { ReviewTag, TutorReview } from '../../types';
+import { Modal } from '../ui/Modal';
+import Button from '../ui/Button';
+import { StarRating } from './StarRating';
+import { MAX_COMMENT_LENGTH, RATING_LABELS, REVIEW_TAG_LABELS, pruneTags, tagsForRating } from './reviewTags';
+
+export interface ReviewTarget {
+  tutorName: string;
+  tutorSessionId?: string;
+  conversationId?: string;
+}
+
+interface RateSessionModalProps {
+  target: ReviewTarget | null;
+  onClose: () => void;
+  onSubmitted?: (review: TutorReview) => void;
+}
+
+// Shown to the student after a tutor session or conversation ends
+export function RateSessionModal({ target, onClose, onSubmitted }: RateSessionModalProps) {
+  const [rating, setRating] = useState(0);
+  const [tags, setTags] = useState<ReviewTag[]>([]);
+  const [comment, setComment] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    setRating(0);
+    setTags([]);
+    setComment('');
+  }, [target]);
+
+  const handleRatingChange = (value: number) => {
+    setRating(value);
+    setTags((prev) => pruneTags(prev, value));
+  };
+
+  const toggleTag = (tag: ReviewTag) => {
+    setTags((prev) => (prev.includes(tag) ? prev.filter((t) => t !== tag) : [...prev, tag]));
+  };
+
+  const handleSubmit = async () => {
+    if (!target || rating === 0) return;
+    setIsSubmitting(true);
+    try {
+      const review = await reviewsApi.createReview({
+        tutorSessionId: target.tutorSessionId,
+        conversationId: target.conversationId,
+        rating,
+        tags,
+        comment: comment.trim() || undefined,
+      });
+      toast.success('Thanks for your feedback!');
+      onSubmitted?.(review);
+      onClose();
+    } catch (error: unknown) {
+      const err = error as { response?: { data?: { message?: string } } };
+      toast.error(err.response?.data?.message || 'Failed to submit review');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={!!target} onClose={onClose} title="Rate your session" size="md">
+      <div className="space-y-5">
+        <div className="text-center">
+          <p className="text-sm text-gray-400 mb-3">How was your session with {target?.tutorName || 'your tutor'}?</p>
+          <div className="flex justify-center">
+            <StarRating value={rating} onChange={handleRatingChange} size="lg" />
+          </div>
+          <p className="text-sm text-amber-400 h-5 mt-2">{RATING_LABELS[rating]}</p>
+        </div>
+
+        {rating > 0 && (
+          <div className="flex flex-wrap justify-center gap-2">
+            {tagsForRating(rating).map((tag) => (
+              <button
+                key={tag}
+                onClick={() => toggleTag(tag)}
+                className={`px-3 py-1 rounded-full text-xs border transition-colors ${
+                  tags.includes(tag)
+                    ? 'border-amber-500/60 bg-amber-500/15 text-amber-300'
+                    : 'border-gray-700 text-gray-400 hover:text-gray-200'
+                }`}
+              >
+                {REVIEW_TAG_LABELS[tag]}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div>
+          <label className="label">Comment (optional)</label>
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value.slice(0, MAX_COMMENT_LENGTH))}
+            rows={3}
+            placeholder="What went well? What could be better?"
+            className="input resize-none"
+          />
+          <p className="text-xs text-gray-500 text-right mt-1">{comment.length}/{MAX_COMMENT_LENGTH}</p>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" onClick={onClose} disabled={isSubmitting}>Not now</Button>
+          <Button onClick={handleSubmit} isLoading={isSubmitting} disabled={rating === 0}>Submit review</Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
+export default RateSessionModal;
@@ -0,0 +1,185 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Flag, MessageSquare } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { reviewsApi } from '../../api';
+import { TutorReview, TutorReviewSummary } from '../../types';
+import { Modal } from '../ui/Modal';
+import { Spinner } from '../ui/Loading';
+import Button from '../ui/Button';
+import Pagination from '../ui/Pagination';
+import Avatar from '../ui/Avatar';
+import { StarRating } from './StarRating';
+import { REVIEW_TAG_LABELS, distributionPercentages } from './reviewTags';
+
+interface ReviewListProps {
+  tutorId: string;
+  // The tutor viewing their own reviews can report abusive ones
+  canFlag?: boolean;
+}
+
+const PAGE_SIZE = 10;
+
+export function ReviewList({ tutorId, canFlag = false }: ReviewListProps) {
+  const [reviews, setReviews] = useState<TutorReview[]>([]);
+  const [summary, setSummary] = useState<TutorReviewSummary | null>(null);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const [flagging, setFlagging] = useState<TutorReview | null>(null);
+  const [flagReason, setFlagReason] = useState('');
+  const [isFlagging, setIsFlagging] = useState(false);
+
+  const fetchReviews = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const data = await reviewsApi.getTutorReviews(tutorId, { page, limit: PAGE_SIZE });
+      setReviews(data.reviews);
+      setSummary(data.summary);
+      setTotalPages(data.totalPages);
+    } catch {
+      toast.error('Failed to load reviews');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [tutorId, page]);
+
+  useEffect(() => {
+    fetchReviews();
+  }, [fetchReviews]);
+
+  const handleFlag = async () => {
+    if (!flagging || !flagReason.trim()) return;
+    setIsFlagging(true);
+    try {
+      const updated = await reviewsApi.flagReview(flagging.id, flagReason.trim());
+      setReviews((prev) => prev.map((r) => (r.id === updated.id ? { ...r, ...updated } : r)));
+      toast.success('Review reported to admins');
+      setFlagging(null);
+      setFlagReason('');
+    } catch (error: unknown) {
+      const err = error as { response?: { data?: { message?: string } } };
+      toast.error(err.response?.data?.message || 'Failed to report review');
+    } finally {
+      setIsFlagging(false);
+    }
+  };
+
+  if (isLoading && !summary) {
+    return <div className="flex items-center justify-center py-8"><Spinner /></div>;
+  }
+
+  if (!summary || summary.totalReviews === 0) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        <MessageSquare className="w-8 h-8 mx-auto mb-2 text-gray-600" />
+        <p className="text-sm">No reviews yet</p>
+      </div>
+    );
+  }
+
+  const percentages = distributionPercentages(summary.distribution);
+
+  return (
+    <div className="space-y-4">
+      {/* Summary */}
+      <div className="flex flex-col sm:flex-row gap-6">
+        <div className="text-center sm:w-32 shrink-0">
+          <p className="text-4xl font-bold text-white">{summary.rating?.toFixed(1) ?? '-'}</p>
+          <div className="flex justify-center my-1"><StarRating value={summary.rating ?? 0} size="sm" /></div>
+          <p className="text-xs text-gray-500">{summary.totalReviews} review{summary.totalReviews === 1 ? '' : 's'}</p>
+        </div>
+        <div className="flex-1 space-y-1">
+          {[5, 4, 3, 2, 1].map((star) => (
+            <div key={star} className="flex items-center gap-2 text-xs text-gray-400">
+              <span className="w-3 text-right">{star}</span>
+              <div className="flex-1 h-1.5 bg-gray-700/60 rounded-full overflow-hidden">
+                <div className="h-full bg-amber-400 rounded-full" style={{ width: `${percentages[star - 1]}%` }} />
+              </div>
+              <span className="w-8 text-right">{percentages[star - 1]}%</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {summary.topTags.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {summary.topTags.map(({ tag, count }) => (
+            <span key={tag} className="px-2 py-0.5 rounded-full bg-gray-700/50 text-xs text-gray-300">
+              {REVIEW_TAG_LABELS[tag]} · {count}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Reviews */}
+      <div className="divide-y divide-gray-700/50">
+        {reviews.map((review) => (
+          <div key={review.id} className="py-3">
+            <div className="flex items-center gap-2">
+              <Avatar src={review.student?.avatar} name={review.student?.name || 'Student'} size="sm" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-gray-200 truncate">{review.student?.name || 'Student'}</p>
+                <div className="flex items-center gap-2">
+                  <StarRating value={review.rating} size="sm" />
+                  <span className="text-xs text-gray-500">{new Date(review.createdAt).toLocaleDateString()}</span>
+                </div>
+              </div>
+              {canFlag && (
+                review.flagged ? (
+                  <span className="text-xs text-gray-500">Reported</span>
+                ) : (
+                  <button
+                    onClick={() => setFlagging(review)}
+                    className="p-1.5 text-gray-500 hover:text-red-400 hover:bg-red-500/10 rounded-lg transition-colors"
+                    title="Report review"
+                  >
+                    <Flag className="w-3.5 h-3.5" />
+                  </button>
+                )
+              )}
+            </div>
+            {review.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-2">
+                {review.tags.map((tag) => (
+                  <span key={tag} className="px-2 py-0.5 rounded-full bg-gray-700/40 text-[11px] text-gray-400">
+                    {REVIEW_TAG_LABELS[tag]}
+                  </span>
+                ))}
+              </div>
+            )}
+            {review.comment && <p className="text-sm text-gray-300 mt-2 whitespace-pre-wrap">{review.comment}</p>}
+          </div>
+        ))}
+      </div>
+
+      <Pagination currentPage={page} totalPages={totalPages} onPageChange={setPage} />
+
+      {/* Report Modal */}
+      <Modal isOpen={!!flagging} onClose={() => setFlagging(null)} title="Report Review" size="sm">
+        <div className="space-y-4">
+          <p className="text-sm text-gray-400">
+            An admin will check this review. Abusive or off-topic reviews are removed and stop counting toward your rating.
+          </p>
+          <div>
+            <label className="label">Reason</label>
+            <textarea
+              value={flagReason}
+              onChange={(e) => setFlagReason(e.target.value)}
+              rows={3}
+              placeholder="What is wrong with this review?"
+              className="input resize-none"
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" onClick={() => setFlagging(null)} disabled={isFlagging}>Cancel</Button>
+            <Button variant="danger" onClick={handleFlag} isLoading={isFlagging} disabled={!flagReason.trim()}>
+              Report
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
+
+export default ReviewList;
@@ -0,0 +1,45 @@
+import { useState } from 'react';
+import { Star } from 'lucide-react';
+
+interface StarRatingProps {
+  value: number;
+  // Omit for a read-only display
+  onChange?: (value: number) => void;
+  size?: 'sm' | 'md' | 'lg';
+}
+
+const sizeClasses = {
+  sm: 'w-3 h-3',
+  md: 'w-4 h-4',
+  lg: 'w-8 h-8',
+};
+
+export function StarRating({ value, onChange, size = 'md' }: StarRatingProps) {
+  const [hovered, setHovered] = useState(0);
+  const shown = hovered || Math.round(value);
+
+  return (
+    <div className="flex" onMouseLeave={() => setHovered(0)}>
+      {[1, 2, 3, 4, 5].map((star) => {
+        const icon = (
+          <Star className={`${sizeClasses[size]} ${star <= shown ? 'text-amber-400 fill-amber-400' : 'text-gray-600'}`} />
+        );
+        if (!onChange) return <span key={star}>{icon}</span>;
+        return (
+          <button
+            key={star}
+            type="button"
+            onClick={() => onChange(star)}
+            onMouseEnter={() => setHovered(star)}
+            className="p-0.5 transition-transform hover:scale-110"
+            aria-label={`${star} star${star > 1 ? 's' : ''}`}
+          >
+            {icon}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+export default StarRating;
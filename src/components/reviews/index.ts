@@ -0,0 +1,14 @@
+export { StarRating } from './StarRating';
+export { RateSessionModal } from './RateSessionModal';
+export type { ReviewTarget } from './RateSessionModal';
+export { ReviewList } from './ReviewList';
+export {
+  REVIEW_TAG_LABELS,
+  POSITIVE_TAGS,
+  NEGATIVE_TAGS,
+  RATING_LABELS,
+  MAX_COMMENT_LENGTH,
+  tagsForRating,
+  pruneTags,
+  distributionPercentages,
+} from './reviewTags';
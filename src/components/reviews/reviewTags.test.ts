@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest'
+import { tagsForRating, pruneTags, distributionPercentages, POSITIVE_TAGS, NEGATIVE_TAGS } from './reviewTags'
+
+describe('tagsForRating', () => {
+  it('offers praise for high ratings and problems for low ones', () => {
+    expect(tagsForRating(5)).toEqual(POSITIVE_TAGS)
+    expect(tagsForRating(1)).toEqual(NEGATIVE_TAGS)
+    expect(tagsForRating(3)).toEqual([...POSITIVE_TAGS, ...NEGATIVE_TAGS])
+  })
+
+  it('drops tags that no longer fit the rating', () => {
+    expect(pruneTags(['PATIENT', 'RUSHED'], 5)).toEqual(['PATIENT'])
+    expect(pruneTags(['PATIENT', 'RUSHED'], 3)).toEqual(['PATIENT', 'RUSHED'])
+  })
+})
+
+describe('distributionPercentages', () => {
+  it('converts star counts to percentages', () => {
+    expect(distributionPercentages([0, 0, 1, 1, 2])).toEqual([0, 0, 25, 25, 50])
+    expect(distributionPercentages([0, 0, 0, 0, 0])).toEqual([0, 0, 0, 0, 0])
+    expect(distributionPercentages([])).toEqual([0, 0, 0, 0, 0])
+  })
+})
@@ -0,0 +1,41 @@
+import type { ReviewTag } from '../../types';
+
+export const REVIEW_TAG_LABELS: Record<ReviewTag, string> = {
+  CLEAR_EXPLANATIONS: 'Clear explanations',
+  PATIENT: 'Patient',
+  KNOWLEDGEABLE: 'Knowledgeable',
+  ENCOURAGING: 'Encouraging',
+  WELL_PREPARED: 'Well prepared',
+  ON_TIME: 'On time',
+  HARD_TO_FOLLOW: 'Hard to follow',
+  RUSHED: 'Felt rushed',
+  LATE: 'Started late',
+  CONNECTION_ISSUES: 'Connection issues',
+};
+
+export const POSITIVE_TAGS: ReviewTag[] = ['CLEAR_EXPLANATIONS', 'PATIENT', 'KNOWLEDGEABLE', 'ENCOURAGING', 'WELL_PREPARED', 'ON_TIME'];
+export const NEGATIVE_TAGS: ReviewTag[] = ['HARD_TO_FOLLOW', 'RUSHED', 'LATE', 'CONNECTION_ISSUES'];
+
+// Indexed by star count
+export const RATING_LABELS = ['', 'Poor', 'Fair', 'Okay', 'Good', 'Excellent'];
+
+export const MAX_COMMENT_LENGTH = 1000;
+
+// Praise for good ratings, problems for bad ones, both in the middle
+export function tagsForRating(rating: number): ReviewTag[] {
+  if (rating >= 4) return POSITIVE_TAGS;
+  if (rating > 0 && rating <= 2) return NEGATIVE_TAGS;
+  return [...POSITIVE_TAGS, ...NEGATIVE_TAGS];
+}
+
+// Drop selections that no longer fit after the rating changes
+export function pruneTags(tags: ReviewTag[], rating: number): ReviewTag[] {
+  const allowed = tagsForRating(rating);
+  return tags.filter((tag) => allowed.includes(tag));
+}
+
+// Share of reviews per star (index 0 = 1 star), rounded to whole percents
+export function distributionPercentages(distribution: number[]): number[] {
+  const total = distribution.reduce((sum, count) => sum + count, 0);
+  return [0, 1, 2, 3, 4].map((i) => (total ? Math.round(((distribution[i] ?? 0) / total) * 100) : 0));
+}
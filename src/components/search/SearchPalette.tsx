@@ -0,0 +1,196 @@
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { createPortal } from 'react-dom';
+import { useNavigate } from 'react-router-dom';
+import { Search, Sparkles, FolderOpen, MessageSquare, Loader2, X } from 'lucide-react';
+import { useGlobalSearch, getSearchResultPath, SearchResult, SearchSource } from '../../hooks/useGlobalSearch';
+import { buildSnippet, tokenizeQuery } from './searchText';
+
+interface SearchPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const SOURCE_META: Record<SearchSource, { label: string; icon: typeof Sparkles }> = {
+  ai: { label: 'AI Chats', icon: Sparkles },
+  project: { label: 'Project Chats', icon: FolderOpen },
+  conversation: { label: 'Tutor Conversations', icon: MessageSquare },
+};
+
+const SOURCE_ORDER: SearchSource[] = ['ai', 'project', 'conversation'];
+
+function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+// Global message search (Ctrl/Cmd+K)
+export function SearchPalette({ isOpen, onClose }: SearchPaletteProps) {
+  const navigate = useNavigate();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const { results, isIndexing, progress, hasOlder, loadOlder } = useGlobalSearch(debouncedQuery, isOpen);
+
+  useEffect(() => {
+    const id = window.setTimeout(() => setDebouncedQuery(query), 150);
+    return () => window.clearTimeout(id);
+  }, [query]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setActiveIndex(0);
+      requestAnimationFrame(() => inputRef.current?.select());
+    }
+  }, [isOpen]);
+
+  const flatResults = useMemo(
+    () => SOURCE_ORDER.flatMap((source) => results[source]),
+    [results]
+  );
+  const terms = useMemo(() => tokenizeQuery(debouncedQuery), [debouncedQuery]);
+
+  useEffect(() => setActiveIndex(0), [debouncedQuery]);
+
+  const openResult = (result: SearchResult) => {
+    onClose();
+    navigate(getSearchResultPath(result));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onClose();
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex((i) => Math.min(i + 1, flatResults.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((i) => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter' && flatResults[activeIndex]) {
+      e.preventDefault();
+      openResult(flatResults[activeIndex]);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  let runningIndex = -1;
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center pt-[12vh] px-4 bg-black/60 animate-fade-in"
+      onMouseDown={(e) => { if (e.target === e.currentTarget) onClose(); }}
+    >
+      <div className="w-full max-w-2xl bg-[#1e1e1e] border border-gray-700/60 rounded-2xl shadow-2xl overflow-hidden" onKeyDown={handleKeyDown}>
+        <div className="flex items-center gap-3 px-4 py-3 border-b border-gray-800">
+          <Search className="w-4 h-4 text-gray-500 flex-shrink-0" />
+          <input
+            ref={inputRef}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search messages across your chats…"
+            className="flex-1 bg-transparent text-[15px] text-gray-100 placeholder-gray-500 focus:outline-none"
+          />
+          {isIndexing && (
+            <span className="flex items-center gap-1.5 text-xs text-gray-500 flex-shrink-0">
+              <Loader2 className="w-3.5 h-3.5 animate-spin" />
+              {progress.total > 0 ? `${progress.done}/${progress.total}` : 'Indexing'}
+            </span>
+          )}
+          <button onClick={onClose} className="p-1 text-gray-500 hover:text-gray-300 rounded">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="max-h-[60vh] overflow-y-auto py-2">
+          {terms.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-gray-500 text-center">
+              Type at least two characters to search message content.
+            </p>
+          ) : flatResults.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-gray-500 text-center">
+              {isIndexing ? 'Searching…' : `No messages match "${debouncedQuery}"`}
+            </p>
+          ) : (
+            SOURCE_ORDER.filter((source) => results[source].length > 0).map((source) => {
+              const { label, icon: Icon } = SOURCE_META[source];
+              return (
+                <div key={source} className="mb-1">
+                  <div className="flex items-center gap-2 px-4 py-1.5 text-[11px] font-semibold uppercase tracking-wider text-gray-500">
+                    <Icon className="w-3.5 h-3.5" />
+                    {label}
+                  </div>
+                  {results[source].map((result) => {
+                    runningIndex += 1;
+                    const index = runningIndex;
+                    return (
+                      <button
+                        key={`${source}-${result.messageId}`}
+                        onClick={() => openResult(result)}
+                        onMouseEnter={() => setActiveIndex(index)}
+                        className={`w-full text-left px-4 py-2 transition-colors ${
+                          index === activeIndex ? 'bg-violet-500/10' : 'hover:bg-gray-800/50'
+                        }`}
+                      >
+                        <div className="flex items-center gap-2 text-xs text-gray-400 mb-0.5">
+                          <span className="truncate font-medium text-gray-300">{result.title}</span>
+                          <span className="text-gray-600">·</span>
+                          <span className="flex-shrink-0">{result.author}</span>
+                          <span className="ml-auto flex-shrink-0 text-gray-600">{formatDate(result.createdAt)}</span>
+                        </div>
+                        <p className="text-sm text-gray-400 line-clamp-2">
+                          {buildSnippet(result.content, terms).map((part, i) =>
+                            part.match ? (
+                              <mark key={i} className="bg-violet-500/30 text-violet-100 rounded px-0.5">{part.text}</mark>
+                            ) : (
+                              <span key={i}>{part.text}</span>
+                            )
+                          )}
+                        </p>
+                      </button>
+                    );
+                  })}
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        <div className="flex items-center gap-4 px-4 py-2 border-t border-gray-800 text-[11px] text-gray-600">
+          <span>↑↓ to navigate</span>
+          <span>↵ to open</span>
+          <span>esc to close</span>
+          <span className="ml-auto">Recent chats only</span>
+          {hasOlder && (
+            <button
+              onClick={loadOlder}
+              disabled={isIndexing}
+              className="text-violet-400 hover:text-violet-300 disabled:text-gray-600 transition-colors"
+            >
+              Search older chats
+            </button>
+          )}
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+}
+
+// Toggle the palette with Ctrl+K / Cmd+K from anywhere in the app
+export function useSearchPaletteShortcut(onToggle: () => void) {
+  const onToggleRef = useRef(onToggle);
+  onToggleRef.current = onToggle;
+
+  useEffect(() => {
+    const handler = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        onToggleRef.current();
+      }
+    };
+    document.addEventListener('keydown', handler);
+    return () => document.removeEventListener('keydown', handler);
+  }, []);
+}
+
+export default SearchPalette;
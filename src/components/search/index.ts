@@ -0,0 +1,3 @@
+export { SearchPalette, useSearchPaletteShortcut } from './SearchPalette';
+export { tokenizeQuery, scoreText, buildSnippet } from './searchText';
+export type { SnippetPart } from './searchText';
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import { buildSnippet, scoreText, tokenizeQuery } from './searchText'
+
+describe('tokenizeQuery', () => {
+  it('lower-cases, de-duplicates and drops single characters', () => {
+    expect(tokenizeQuery('  Photo a  SYNTHESIS photo ')).toEqual(['photo', 'synthesis'])
+  })
+
+  it('returns nothing for a blank query', () => {
+    expect(tokenizeQuery('   ')).toEqual([])
+  })
+})
+
+describe('scoreText', () => {
+  it('counts occurrences of every term, ignoring case', () => {
+    expect(scoreText('Cells divide. Cell division makes two cells.', ['cell', 'divi'])).toBe(5)
+  })
+
+  it('is zero unless every term is present', () => {
+    expect(scoreText('Mitosis and meiosis', ['mitosis', 'osmosis'])).toBe(0)
+    expect(scoreText('', ['mitosis'])).toBe(0)
+    expect(scoreText('Mitosis', [])).toBe(0)
+  })
+})
+
+describe('buildSnippet', () => {
+  it('highlights matches and keeps the surrounding text', () => {
+    expect(buildSnippet('What is  the\nQuadratic formula?', ['quadratic'])).toEqual([
+      { text: 'What is the ', match: false },
+      { text: 'Quadratic', match: true },
+      { text: ' formula?', match: false },
+    ])
+  })
+
+  it('windows long text around the first hit', () => {
+    const text = `${'a'.repeat(100)} needle ${'b'.repeat(200)}`
+    const parts = buildSnippet(text, ['needle'])
+    const snippet = parts.map((p) => p.text).join('')
+
+    expect(snippet.startsWith('…')).toBe(true)
+    expect(snippet.endsWith('…')).toBe(true)
+    expect(parts.filter((p) => p.match)).toEqual([{ text: 'needle', match: true }])
+  })
+
+  it('escapes regex characters in terms', () => {
+    expect(buildSnippet('Solve (x+1)', ['(x+1)'])).toEqual([
+      { text: 'Solve ', match: false },
+      { text: '(x+1)', match: true },
+    ])
+  })
+
+  it('returns the start of the text when there are no terms', () => {
+    expect(buildSnippet('Short   text', [])).toEqual([{ text: 'Short text', match: false }])
+  })
+})
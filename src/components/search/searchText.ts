@@ -0,0 +1,51 @@
+// ============================================
+// Message search matching & snippets
+// ============================================
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+const SNIPPET_RADIUS = 60;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Lower-cased, de-duplicated terms; single characters are too noisy to match
+export function tokenizeQuery(query: string): string[] {
+  const terms = query.toLowerCase().split(/\s+/).filter((t) => t.length > 1);
+  return [...new Set(terms)];
+}
+
+// Score a text against the query terms; 0 means not every term is present
+export function scoreText(text: string, terms: string[]): number {
+  if (terms.length === 0 || !text) return 0;
+  const haystack = text.toLowerCase();
+  let score = 0;
+  for (const term of terms) {
+    const occurrences = haystack.split(term).length - 1;
+    if (occurrences === 0) return 0;
+    score += occurrences;
+  }
+  return score;
+}
+
+// Window of text around the first hit, split into highlighted / plain parts
+export function buildSnippet(text: string, terms: string[]): SnippetPart[] {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  if (terms.length === 0) return [{ text: flat.slice(0, SNIPPET_RADIUS * 2), match: false }];
+
+  const lower = flat.toLowerCase();
+  const firstHit = Math.min(...terms.map((t) => lower.indexOf(t)).filter((i) => i >= 0));
+  const hit = Number.isFinite(firstHit) ? firstHit : 0;
+
+  const start = Math.max(0, hit - SNIPPET_RADIUS);
+  const end = Math.min(flat.length, hit + SNIPPET_RADIUS * 2);
+  const window = `${start > 0 ? '…' : ''}${flat.slice(start, end)}${end < flat.length ? '…' : ''}`;
+
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi');
+  return window
+    .split(pattern)
+    .filter((part) => part.length > 0)
+    .map((part) => ({ text: part, match: terms.includes(part.toLowerCase()) }));
+}
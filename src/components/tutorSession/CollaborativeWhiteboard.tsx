@@ -1,25 +1,59 @@
-import { useEffect, useRef, useState, useCallback } from 'react';
-import { Excalidraw } from '@excalidraw/excalidraw';
+import { useEffect, useRef, useState, useCallback, useMemo } from 'react';
+import { Excalidraw, CaptureUpdateAction, convertToExcalidrawElements, newElementWith } from '@excalidraw/excalidraw';
 import '@excalidraw/excalidraw/index.css';
-import { Trash2, RefreshCw } from 'lucide-react';
+import { Trash2, RefreshCw, LayoutTemplate, ImagePlus, LocateFixed } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
 import {
   connectTutorSessionSocket,
   getTutorSessionSocket,
   onTutorSessionSocketConnect,
   joinSession,
   sendWhiteboardUpdate,
-  // sendWhiteboardCursor,
+  sendWhiteboardDelta,
+  sendWhiteboardCursor,
+  sendWhiteboardViewport,
   getWhiteboardData,
   onWhiteboardUpdate,
+  onWhiteboardDelta,
+  onWhiteboardCursor,
+  onWhiteboardViewport,
   onWhiteboardData,
-  offWhiteboardUpdate,
-  offWhiteboardData,
   onJoinSession,
-  offJoinSession,
   onConnected,
-  offConnected,
 } from '../../services/tutorSessionSocket';
-import { WhiteboardUpdateEvent } from '../../types';
+import { Unsubscribe } from '../../services/typedSocket';
+import {
+  WhiteboardUpdateEvent,
+  WhiteboardDataEvent,
+  WhiteboardDeltaEvent,
+  WhiteboardCursorEvent,
+  WhiteboardViewportEvent,
+  TutorSessionJoinEvent,
+  TutorSessionConnectedEvent,
+  AIAttachment,
+  WhiteboardData,
+  WhiteboardPage,
+  WhiteboardPageMeta,
+  Role,
+} from '../../types';
+import {
+  WhiteboardPageTabs,
+  WHITEBOARD_TEMPLATES,
+  WhiteboardTemplateId,
+  DEFAULT_PAGE_ID,
+  createPageId,
+  pageMeta,
+  normalizePages,
+  nextPageName,
+  templateBounds,
+  translateTemplate,
+  createWhiteboardSync,
+  createClientId,
+  viewportCenter,
+  scrollForCenter,
+  presenceColor,
+} from '../whiteboard';
+import toast from 'react-hot-toast';
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type ExcalidrawImperativeAPI = any;
@@ -29,57 +63,189 @@ interface CollaborativeWhiteboardProps {
   initialData?: { elements?: any[] };
   readOnly?: boolean;
   className?: string;
-  onSave?: (elements: any[]) => void;
+  // Called with the edited page's elements and the whole multi-page board
+  onSave?: (elements: any[], data: WhiteboardData) => void;
+  // Student uploads that can be dropped onto the board as a background
+  imageAttachments?: AIAttachment[];
+}
+
+const MAX_BACKGROUND_WIDTH = 1200;
+
+// Natural size of an image, needed to place it without distortion
+function loadImageSize(url: string): Promise<{ width: number; height: number }> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve({ width: image.naturalWidth, height: image.naturalHeight });
+    image.onerror = () => reject(new Error('Image failed to load'));
+    image.src = url;
+  });
 }
 
+// Presence updates are batched to at most one per interval
+const CURSOR_INTERVAL_MS = 50;
+const VIEWPORT_INTERVAL_MS = 150;
+const CURSOR_STALE_MS = 5000;
+
 interface RemoteCursor {
   x: number;
   y: number;
   userId: string;
+  name?: string;
   role?: string;
+  pageId?: string;
   lastUpdate: number;
 }
 
-// ⭐ Merge elements by ID (keeps both local and remote elements)
-function mergeElements(localElements: any[], remoteElements: any[]): any[] {
-  const elementMap = new Map<string, any>();
-  
-  for (const el of localElements) {
-    if (el?.id) elementMap.set(el.id, el);
-  }
-  
-  for (const el of remoteElements) {
-    if (el?.id) {
-      const existing = elementMap.get(el.id);
-      if (!existing || (el.version || 0) >= (existing.version || 0)) {
-        elementMap.set(el.id, el);
-      }
-    }
-  }
-  
-  return Array.from(elementMap.values());
-}
-
 export function CollaborativeWhiteboard({
   sessionId,
   initialData,
   readOnly = false,
   className = '',
   onSave,
+  imageAttachments = [],
 }: CollaborativeWhiteboardProps) {
+  const { user } = useAuth();
+  const isTutor = user?.role === Role.TUTOR;
+
   const excalidrawRef = useRef<ExcalidrawImperativeAPI | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
-  const lastSentElementsRef = useRef<string>('');
   const isRemoteUpdateRef = useRef(false);
   const joinedSessionRef = useRef(false);
   const connectionAttemptRef = useRef(0);
+  const pageListRef = useRef<WhiteboardPageMeta[]>([{ id: DEFAULT_PAGE_ID, name: 'Page 1' }]);
+  const activePageIdRef = useRef(DEFAULT_PAGE_ID);
+  const knownFileIdsRef = useRef<Set<string>>(new Set());
+  const onSaveRef = useRef(onSave);
+  onSaveRef.current = onSave;
+
+  // Presence
+  const cursorsRef = useRef<Map<string, RemoteCursor>>(new Map());
+  const lastCursorSentRef = useRef(0);
+  const viewportTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const tutorViewportRef = useRef<WhiteboardViewportEvent | null>(null);
+  const followingRef = useRef(false);
 
   const [isConnected, setIsConnected] = useState(false);
   const [connectionError, setConnectionError] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
-  const [remoteCursors, setRemoteCursors] = useState<Map<string, RemoteCursor>>(new Map());
   const [debugInfo, setDebugInfo] = useState<string>('');
   const [isMounted, setIsMounted] = useState(false);
+  const [pages, setPages] = useState<WhiteboardPageMeta[]>(pageListRef.current);
+  const [activePageId, setActivePageId] = useState(DEFAULT_PAGE_ID);
+  const [openMenu, setOpenMenu] = useState<'templates' | 'images' | null>(null);
+  const [isFollowing, setIsFollowing] = useState(false);
+
+  // ⭐ CRDT element store - the source of truth for every page; Excalidraw shows the active one
+  const sync = useMemo(() => {
+    const store = createWhiteboardSync({ sessionId, clientId: createClientId(user?.id), emit: sendWhiteboardDelta });
+    store.load(normalizePages({ elements: initialData?.elements ?? [] }));
+    return store;
+    // Initial data only seeds the store; later changes arrive over the socket
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sessionId, user?.id]);
+
+  const collectPages = useCallback((): WhiteboardPage[] => {
+    return pageListRef.current.map((page) => ({ ...page, elements: sync.elements(page.id), clocks: sync.clocks(page.id) }));
+  }, [sync]);
+
+  const storePages = useCallback((next: WhiteboardPageMeta[]) => {
+    pageListRef.current = next;
+    setPages(next);
+  }, []);
+
+  // Apply a scene without it echoing back as a local edit or landing in undo history
+  const applyScene = useCallback((scene: Record<string, unknown>) => {
+    if (!excalidrawRef.current) return;
+    isRemoteUpdateRef.current = true;
+    excalidrawRef.current.updateScene({ ...scene, captureUpdate: CaptureUpdateAction.NEVER });
+    setTimeout(() => {
+      isRemoteUpdateRef.current = false;
+    }, 100);
+  }, []);
+
+  // Show remote cursors that are on the page we're looking at
+  const renderCursors = useCallback(() => {
+    const collaborators = new Map();
+    cursorsRef.current.forEach((cursor) => {
+      if (cursor.pageId && cursor.pageId !== activePageIdRef.current) return;
+      collaborators.set(cursor.userId, {
+        id: cursor.userId,
+        username: cursor.name || (cursor.role === 'tutor' ? 'Tutor' : 'Student'),
+        pointer: { x: cursor.x, y: cursor.y, tool: 'pointer' },
+        color: presenceColor(cursor.userId),
+      });
+    });
+    excalidrawRef.current?.updateScene({ collaborators, captureUpdate: CaptureUpdateAction.NEVER });
+  }, []);
+
+  const showPage = useCallback((pageId: string) => {
+    const page = pageListRef.current.find((p) => p.id === pageId) ?? pageListRef.current[0];
+    activePageIdRef.current = page.id;
+    setActivePageId(page.id);
+    applyScene({ elements: sync.elements(page.id) });
+    renderCursors();
+  }, [sync, applyScene, renderCursors]);
+
+  const addRemoteFiles = useCallback((files?: Record<string, unknown>) => {
+    if (!files || !excalidrawRef.current) return;
+    const fresh = Object.entries(files).filter(([id]) => !knownFileIdsRef.current.has(id));
+    if (fresh.length === 0) return;
+    fresh.forEach(([id]) => knownFileIdsRef.current.add(id));
+    excalidrawRef.current.addFiles(fresh.map(([, file]) => file));
+  }, []);
+
+  // Images not yet sent to the other participants
+  const unsentFiles = useCallback((): Record<string, unknown> | undefined => {
+    const files: Record<string, unknown> = excalidrawRef.current?.getFiles() ?? {};
+    const fresh = Object.entries(files).filter(([id]) => !knownFileIdsRef.current.has(id));
+    return fresh.length > 0 ? Object.fromEntries(fresh) : undefined;
+  }, []);
+
+  const boardData = useCallback((): WhiteboardData => {
+    const current = collectPages();
+    return {
+      elements: current.find((page) => page.id === activePageIdRef.current)?.elements ?? [],
+      pages: current,
+      activePageId: activePageIdRef.current,
+      files: excalidrawRef.current?.getFiles() ?? {},
+    };
+  }, [collectPages]);
+
+  // ⭐ Follow mode - students can lock their view to the tutor's
+  const applyViewport = useCallback((viewport: WhiteboardViewportEvent) => {
+    const api = excalidrawRef.current;
+    if (!api) return;
+    if (viewport.pageId !== activePageIdRef.current && pageListRef.current.some((p) => p.id === viewport.pageId)) {
+      showPage(viewport.pageId);
+    }
+    const { width, height } = api.getAppState();
+    applyScene({ appState: { ...scrollForCenter(viewport, width, height), zoom: { value: viewport.zoom } } });
+  }, [showPage, applyScene]);
+
+  const toggleFollow = useCallback(() => {
+    followingRef.current = !followingRef.current;
+    setIsFollowing(followingRef.current);
+    if (followingRef.current && tutorViewportRef.current) applyViewport(tutorViewportRef.current);
+  }, [applyViewport]);
+
+  // Tutor: share the view, latest position in each interval wins
+  const queueViewport = useCallback(() => {
+    if (!isTutor || viewportTimerRef.current) return;
+    viewportTimerRef.current = setTimeout(() => {
+      viewportTimerRef.current = null;
+      const appState = excalidrawRef.current?.getAppState();
+      if (!appState) return;
+      sendWhiteboardViewport({
+        sessionId,
+        pageId: activePageIdRef.current,
+        ...viewportCenter({ ...appState, zoom: appState.zoom?.value || 1 }),
+      });
+    }, VIEWPORT_INTERVAL_MS);
+  }, [isTutor, sessionId]);
+
+  useEffect(() => () => {
+    if (viewportTimerRef.current) clearTimeout(viewportTimerRef.current);
+  }, []);
 
   // ⭐ Force Excalidraw to re-measure container after mount
   useEffect(() => {
@@ -107,9 +273,10 @@ export function CollaborativeWhiteboard({
 
     let cleanedUp = false;
     let connectionTimeout: ReturnType<typeof setTimeout>;
+    let unsubscribers: Unsubscribe[] = [];
 
     // ⭐ Handler for when socket connects
-    const handleSocketConnected = (data: any) => {
+    const handleSocketConnected = (data: TutorSessionConnectedEvent) => {
       if (cleanedUp) return;
       console.log('[CollaborativeWhiteboard] ✅ Socket connected event received:', data);
       setIsConnected(true);
@@ -123,7 +290,7 @@ export function CollaborativeWhiteboard({
     };
 
     // ⭐ Handler for joinSession acknowledgment
-    const handleJoinSession = (response: any) => {
+    const handleJoinSession = (response: TutorSessionJoinEvent) => {
       if (cleanedUp) return;
       console.log('[CollaborativeWhiteboard] ✅ Join session response:', response);
       
@@ -144,7 +311,7 @@ export function CollaborativeWhiteboard({
     };
 
     // ⭐ Handler for whiteboard data response
-    const handleWhiteboardData = (data: any) => {
+    const handleWhiteboardData = (data: WhiteboardDataEvent) => {
       if (cleanedUp) return;
       console.log('[CollaborativeWhiteboard] 📋 Received whiteboard data:', {
         sessionId: data.sessionId,
@@ -163,69 +330,77 @@ export function CollaborativeWhiteboard({
       }
 
       if (data.whiteboardData && excalidrawRef.current) {
-        const elements = data.whiteboardData.elements || [];
-        const appState = data.whiteboardData.appState || { viewBackgroundColor: '#1e1e1e' };
+        // Saved state seeds the CRDT store; live edits already received win over it
+        const loadedPages = normalizePages(data.whiteboardData);
+        sync.load(loadedPages);
+        storePages(pageMeta(loadedPages));
+        addRemoteFiles(data.whiteboardData.files);
+
+        // Stay on the page we were viewing if it still exists
+        const page = loadedPages.find((p) => p.id === activePageIdRef.current) ?? loadedPages[0];
+        activePageIdRef.current = page.id;
+        setActivePageId(page.id);
+
+        const elements = sync.elements(page.id);
+        const appState = (data.whiteboardData.appState || { viewBackgroundColor: '#1e1e1e' }) as { viewBackgroundColor?: string };
         
-        console.log('[CollaborativeWhiteboard] 🎨 Applying whiteboard data:', elements.length, 'elements');
+        console.log('[CollaborativeWhiteboard] 🎨 Applying whiteboard data:', elements.length, 'elements on', page.name);
         
-        isRemoteUpdateRef.current = true;
-        excalidrawRef.current.updateScene({
+        applyScene({
           elements,
           appState: {
             ...appState,
             viewBackgroundColor: appState.viewBackgroundColor || '#1e1e1e',
           },
         });
-        
-        // Update our tracking ref
-        lastSentElementsRef.current = JSON.stringify(elements);
-        
-        setTimeout(() => {
-          isRemoteUpdateRef.current = false;
-        }, 100);
       }
     };
 
-    // ⭐ Handler for live updates from other users - NOW WITH MERGE
-    const handleWhiteboardUpdate = (data: WhiteboardUpdateEvent & { senderId?: string; senderRole?: string }) => {
+    // ⭐ Page list changes from other users
+    const handleWhiteboardUpdate = (data: WhiteboardUpdateEvent) => {
       if (cleanedUp) return;
-      console.log('[CollaborativeWhiteboard] 🔄 Whiteboard update received:', {
-        sessionId: data.sessionId,
-        senderId: data.senderId,
-        senderRole: data.senderRole,
-        elementCount: data.elements?.length || 0,
-      });
+      if (data.sessionId && data.sessionId !== sessionId) return;
+
+      addRemoteFiles(data.files);
+      if (!data.pages?.length) return;
+      console.log('[CollaborativeWhiteboard] 📑 Page list updated:', data.pages.map((p) => p.name));
+      storePages(data.pages);
+      // Our page was deleted by the other side
+      if (!data.pages.some((p) => p.id === activePageIdRef.current)) {
+        showPage(data.pages[0].id);
+      }
+    };
 
-      // ⭐ FIX: Check sessionId properly
-      if (data.sessionId && data.sessionId !== sessionId) {
-        console.log('[CollaborativeWhiteboard] ⚠️ Ignoring update for different session');
-        return;
+    // ⭐ Element edits from other users, merged through the CRDT store
+    const handleWhiteboardDelta = (data: WhiteboardDeltaEvent) => {
+      if (cleanedUp) return;
+      if (data.sessionId && data.sessionId !== sessionId) return;
+
+      addRemoteFiles(data.files);
+      if (!pageListRef.current.some((p) => p.id === data.pageId)) {
+        storePages([...pageListRef.current, { id: data.pageId, name: nextPageName(pageListRef.current) }]);
       }
+      if (!sync.receive(data)) return;
 
-      if (excalidrawRef.current && data.elements) {
-        // ⭐ CRITICAL FIX: MERGE elements instead of replacing
-        const currentElements = excalidrawRef.current.getSceneElements() || [];
-        const mergedElements = mergeElements(currentElements, data.elements);
-        
-        console.log('[CollaborativeWhiteboard] 🎨 Merging remote update:', {
-          local: currentElements.length,
-          remote: data.elements.length,
-          merged: mergedElements.length,
-        });
-        
-        isRemoteUpdateRef.current = true;
-        excalidrawRef.current.updateScene({
-          elements: mergedElements,
-          appState: data.appState || {},
-        });
-        
-        // Update tracking ref to prevent echo
-        lastSentElementsRef.current = JSON.stringify(mergedElements);
-        
-        setTimeout(() => {
-          isRemoteUpdateRef.current = false;
-        }, 100);
+      const elements = sync.elements(data.pageId);
+      if (data.pageId === activePageIdRef.current) {
+        applyScene({ elements });
       }
+      onSaveRef.current?.(elements, boardData());
+    };
+
+    const handleWhiteboardCursor = (data: WhiteboardCursorEvent) => {
+      if (cleanedUp || data.userId === user?.id) return;
+      if (data.sessionId && data.sessionId !== sessionId) return;
+      cursorsRef.current.set(data.userId, { ...data, lastUpdate: Date.now() });
+      renderCursors();
+    };
+
+    const handleWhiteboardViewport = (data: WhiteboardViewportEvent) => {
+      if (cleanedUp || isTutor) return;
+      if (data.sessionId && data.sessionId !== sessionId) return;
+      tutorViewportRef.current = data;
+      if (followingRef.current) applyViewport(data);
     };
 
     // ⭐ Main connection logic
@@ -234,10 +409,15 @@ export function CollaborativeWhiteboard({
       console.log('[CollaborativeWhiteboard] 🔌 Connection attempt #', connectionAttemptRef.current);
 
       // Set up event listeners FIRST
-      onConnected(handleSocketConnected);
-      onJoinSession(handleJoinSession);
-      onWhiteboardData(handleWhiteboardData);
-      onWhiteboardUpdate(handleWhiteboardUpdate);
+      unsubscribers = [
+        onConnected(handleSocketConnected),
+        onJoinSession(handleJoinSession),
+        onWhiteboardData(handleWhiteboardData),
+        onWhiteboardUpdate(handleWhiteboardUpdate),
+        onWhiteboardDelta(handleWhiteboardDelta),
+        onWhiteboardCursor(handleWhiteboardCursor),
+        onWhiteboardViewport(handleWhiteboardViewport),
+      ];
 
       // Check if socket already exists and is connected
       let socket = getTutorSessionSocket();
@@ -338,35 +518,29 @@ export function CollaborativeWhiteboard({
         clearTimeout(connectionTimeout);
       }
       
-      offConnected();
-      offJoinSession();
-      offWhiteboardData();
-      offWhiteboardUpdate();
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
     };
-  }, [sessionId]);
+  }, [sessionId, sync, user?.id, isTutor, storePages, showPage, applyScene, renderCursors, applyViewport, addRemoteFiles, boardData]);
 
   // ⭐ Clean up stale cursors
   useEffect(() => {
     const interval = setInterval(() => {
       const now = Date.now();
-      setRemoteCursors(prev => {
-        const updated = new Map(prev);
-        let changed = false;
-        for (const [key, cursor] of updated) {
-          if (now - cursor.lastUpdate > 5000) {
-            updated.delete(key);
-            changed = true;
-          }
+      let changed = false;
+      for (const [userId, cursor] of cursorsRef.current) {
+        if (now - cursor.lastUpdate > CURSOR_STALE_MS) {
+          cursorsRef.current.delete(userId);
+          changed = true;
         }
-        return changed ? updated : prev;
-      });
+      }
+      if (changed) renderCursors();
     }, 1000);
 
     return () => clearInterval(interval);
-  }, []);
+  }, [renderCursors]);
 
-  // ⭐ Handle local changes - send updates to other users
-  const handleChange = useCallback((elements: readonly any[], appState?: any) => {
+  // ⭐ Handle local changes - send only the elements that changed
+  const handleChange = useCallback((elements: readonly any[]) => {
     // Skip if this is a remote update we just applied
     if (isRemoteUpdateRef.current) {
       return;
@@ -377,37 +551,130 @@ export function CollaborativeWhiteboard({
       return;
     }
 
-    // Debounce: only send if elements actually changed
-    const elementsJson = JSON.stringify(elements);
-    if (elementsJson === lastSentElementsRef.current) {
-      return;
-    }
+    const files = unsentFiles();
+    const delta = sync.commit(activePageIdRef.current, elements, files);
+    if (!delta) return;
+    Object.keys(files ?? {}).forEach((id) => knownFileIdsRef.current.add(id));
 
-    lastSentElementsRef.current = elementsJson;
-
-    // ⭐ CRITICAL: Send whiteboard update via socket
-    console.log('[CollaborativeWhiteboard] 📤 Sending whiteboard update:', elements.length, 'elements');
-    
-    sendWhiteboardUpdate(
-      sessionId,
-      [...elements], // Convert readonly to mutable array
-      appState ? { viewBackgroundColor: appState.viewBackgroundColor } : undefined
-    );
+    console.log('[CollaborativeWhiteboard] 📤 Sent whiteboard delta:', delta.changes.length, 'of', elements.length, 'elements');
 
     // Trigger onSave callback if provided
-    if (onSave) {
-      onSave([...elements]);
+    onSaveRef.current?.([...elements], boardData());
+  }, [readOnly, sync, unsentFiles, boardData]);
+
+  // Remote cursors are in scene coordinates, so they line up at any zoom
+  const handlePointerUpdate = useCallback(({ pointer }: { pointer: { x: number; y: number } }) => {
+    const now = Date.now();
+    if (now - lastCursorSentRef.current < CURSOR_INTERVAL_MS) return;
+    lastCursorSentRef.current = now;
+    sendWhiteboardCursor(sessionId, pointer.x, pointer.y, {
+      pageId: activePageIdRef.current,
+      name: user?.name ?? undefined,
+      role: isTutor ? 'tutor' : 'student',
+    });
+  }, [sessionId, user?.name, isTutor]);
+
+  // ⭐ Clear whiteboard - tombstones sync like any other edit
+  const handleClear = useCallback(() => {
+    const api = excalidrawRef.current;
+    if (api && !readOnly) {
+      api.updateScene({
+        elements: api.getSceneElements().map((el: any) => newElementWith(el, { isDeleted: true })),
+      });
     }
-  }, [sessionId, readOnly, onSave]);
+  }, [readOnly]);
+
+  // ⭐ Pages - each participant can view any page; structure changes are broadcast
+  const broadcastPages = useCallback((next: WhiteboardPageMeta[]) => {
+    storePages(next);
+    sendWhiteboardUpdate(sessionId, [], undefined, { pages: next });
+    onSaveRef.current?.(sync.elements(activePageIdRef.current), boardData());
+  }, [sessionId, sync, storePages, boardData]);
+
+  const handleSelectPage = useCallback((pageId: string) => {
+    if (pageId === activePageIdRef.current) return;
+    showPage(pageId);
+    queueViewport();
+  }, [showPage, queueViewport]);
+
+  const handleAddPage = useCallback(() => {
+    const page = { id: createPageId(), name: nextPageName(pageListRef.current) };
+    broadcastPages([...pageListRef.current, page]);
+    showPage(page.id);
+    queueViewport();
+  }, [broadcastPages, showPage, queueViewport]);
+
+  const handleRenamePage = useCallback((pageId: string, name: string) => {
+    broadcastPages(pageListRef.current.map((p) => (p.id === pageId ? { ...p, name } : p)));
+  }, [broadcastPages]);
+
+  const handleDeletePage = useCallback((pageId: string) => {
+    const page = pageListRef.current.find((p) => p.id === pageId);
+    if (!page || pageListRef.current.length < 2) return;
+    if (!confirm(`Delete "${page.name}" for everyone?`)) return;
+    const remaining = pageListRef.current.filter((p) => p.id !== pageId);
+    broadcastPages(remaining);
+    if (pageId === activePageIdRef.current) showPage(remaining[0].id);
+  }, [broadcastPages, showPage]);
+
+  // Scene point at the middle of the canvas
+  const sceneCenter = useCallback(() => {
+    const appState = excalidrawRef.current.getAppState();
+    return viewportCenter({ ...appState, zoom: appState.zoom?.value || 1 });
+  }, []);
 
-  // ⭐ Clear whiteboard
-  const handleClear = useCallback(() => {
-    if (excalidrawRef.current && !readOnly) {
-      excalidrawRef.current.updateScene({ elements: [] });
-      lastSentElementsRef.current = '[]';
-      sendWhiteboardUpdate(sessionId, [], { viewBackgroundColor: '#1e1e1e' });
+  // ⭐ Insert a template centered in the current viewport
+  const handleInsertTemplate = useCallback((templateId: WhiteboardTemplateId) => {
+    setOpenMenu(null);
+    const api = excalidrawRef.current;
+    const template = WHITEBOARD_TEMPLATES.find((t) => t.id === templateId);
+    if (!api || !template || readOnly) return;
+
+    const skeletons = template.build();
+    const { width, height } = templateBounds(skeletons);
+    const { centerX, centerY } = sceneCenter();
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const elements = convertToExcalidrawElements(translateTemplate(skeletons, centerX - width / 2, centerY - height / 2) as any[]);
+    // Templates go underneath existing drawings
+    api.updateScene({ elements: [...elements, ...api.getSceneElements()] });
+  }, [readOnly, sceneCenter]);
+
+  // ⭐ Drop a student's uploaded image onto the board as a locked background
+  const handleInsertImage = useCallback(async (attachment: AIAttachment) => {
+    setOpenMenu(null);
+    const api = excalidrawRef.current;
+    if (!api || readOnly) return;
+
+    try {
+      const size = await loadImageSize(attachment.url);
+      const scale = Math.min(1, MAX_BACKGROUND_WIDTH / size.width);
+      const width = size.width * scale;
+      const height = size.height * scale;
+      const { centerX, centerY } = sceneCenter();
+      const fileId = `attachment-${createPageId()}`;
+
+      // The stored URL is used as-is so the file stays small when synced
+      api.addFiles([{
+        id: fileId,
+        dataURL: attachment.url,
+        mimeType: attachment.mimeType || 'image/png',
+        created: Date.now(),
+      }]);
+      const [image] = convertToExcalidrawElements([{
+        type: 'image',
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        fileId: fileId as any,
+        x: centerX - width / 2,
+        y: centerY - height / 2,
+        width,
+        height,
+        locked: true,
+      }]);
+      api.updateScene({ elements: [image, ...api.getSceneElements()] });
+    } catch {
+      toast.error(`Couldn't load ${attachment.name}`);
     }
-  }, [sessionId, readOnly]);
+  }, [readOnly, sceneCenter]);
 
   // ⭐ Force refresh whiteboard data
   const handleRefresh = useCallback(() => {
@@ -459,6 +726,67 @@ export function CollaborativeWhiteboard({
               <RefreshCw className="w-3.5 h-3.5" />
               Refresh
             </button>
+            {!isTutor && (
+              <button
+                onClick={toggleFollow}
+                className={`flex items-center gap-1.5 px-2 py-1 text-xs rounded transition-colors ${
+                  isFollowing ? 'bg-violet-500/20 text-violet-300' : 'text-gray-300 hover:text-white hover:bg-gray-700'
+                }`}
+                title="Keep your view on what the tutor is looking at"
+              >
+                <LocateFixed className="w-3.5 h-3.5" />
+                Follow tutor
+              </button>
+            )}
+            <div className="relative">
+              <button
+                onClick={() => setOpenMenu(openMenu === 'templates' ? null : 'templates')}
+                className="flex items-center gap-1.5 px-2 py-1 text-xs text-gray-300 hover:text-white hover:bg-gray-700 rounded transition-colors"
+                title="Insert template"
+              >
+                <LayoutTemplate className="w-3.5 h-3.5" />
+                Templates
+              </button>
+              {openMenu === 'templates' && (
+                <div className="absolute left-0 top-full mt-1 z-30 w-44 py-1 bg-[#2a2a2a] border border-gray-700 rounded-lg shadow-lg">
+                  {WHITEBOARD_TEMPLATES.map((template) => (
+                    <button
+                      key={template.id}
+                      onClick={() => handleInsertTemplate(template.id)}
+                      className="w-full px-3 py-1.5 text-left text-xs text-gray-300 hover:text-white hover:bg-gray-700"
+                    >
+                      {template.label}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+            {imageAttachments.length > 0 && (
+              <div className="relative">
+                <button
+                  onClick={() => setOpenMenu(openMenu === 'images' ? null : 'images')}
+                  className="flex items-center gap-1.5 px-2 py-1 text-xs text-gray-300 hover:text-white hover:bg-gray-700 rounded transition-colors"
+                  title="Use a student image as background"
+                >
+                  <ImagePlus className="w-3.5 h-3.5" />
+                  Image
+                </button>
+                {openMenu === 'images' && (
+                  <div className="absolute left-0 top-full mt-1 z-30 w-64 max-h-64 overflow-y-auto p-2 grid grid-cols-3 gap-2 bg-[#2a2a2a] border border-gray-700 rounded-lg shadow-lg">
+                    {imageAttachments.map((attachment) => (
+                      <button
+                        key={attachment.url}
+                        onClick={() => handleInsertImage(attachment)}
+                        className="aspect-square rounded overflow-hidden border border-gray-700 hover:border-violet-500"
+                        title={attachment.name}
+                      >
+                        <img src={attachment.url} alt={attachment.name} className="w-full h-full object-cover" />
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
           </div>
           
           <div className="flex items-center gap-2">
@@ -472,6 +800,15 @@ export function CollaborativeWhiteboard({
         </div>
       )}
 
+      <WhiteboardPageTabs
+        pages={pages}
+        activePageId={activePageId}
+        onSelect={handleSelectPage}
+        onAdd={readOnly ? undefined : handleAddPage}
+        onRename={readOnly ? undefined : handleRenamePage}
+        onDelete={readOnly ? undefined : handleDeletePage}
+      />
+
       {/* Loading overlay */}
       {isLoading && (
         <div className="absolute inset-0 z-10 flex items-center justify-center bg-[#1e1e1e]/80">
@@ -483,7 +820,7 @@ export function CollaborativeWhiteboard({
       )}
 
       {/* Excalidraw Canvas */}
-      <div className="w-full" style={{ height: readOnly ? '100%' : 'calc(100% - 40px)', position: 'relative' }}>
+      <div className="w-full" style={{ height: readOnly ? 'calc(100% - 32px)' : 'calc(100% - 72px)', position: 'relative' }}>
         {!isMounted ? (
           <div className="flex items-center justify-center h-full">
             <div className="w-8 h-8 border-2 border-violet-500 border-t-transparent rounded-full animate-spin" />
@@ -503,6 +840,8 @@ export function CollaborativeWhiteboard({
             },
           }}
           onChange={handleChange}
+          onPointerUpdate={handlePointerUpdate}
+          onScrollChange={queueViewport}
           viewModeEnabled={readOnly}
           theme="dark"
           UIOptions={{
@@ -520,30 +859,6 @@ export function CollaborativeWhiteboard({
         )}
       </div>
 
-      {/* Remote Cursors */}
-      {Array.from(remoteCursors.entries()).map(([key, cursor]) => (
-        <div
-          key={key}
-          className="absolute pointer-events-none z-20 transition-all duration-75"
-          style={{
-            left: `${cursor.x}px`,
-            top: `${cursor.y}px`,
-            transform: 'translate(-2px, -2px)',
-          }}
-        >
-          <div className={`w-4 h-4 ${cursor.role === 'tutor' ? 'text-emerald-500' : 'text-violet-500'}`}>
-            <svg viewBox="0 0 24 24" fill="currentColor">
-              <path d="M5.5 3.21V20.8l5.3-5.3h8.4L5.5 3.21z" />
-            </svg>
-          </div>
-          <span className={`absolute left-4 top-0 px-1.5 py-0.5 text-white text-xs rounded whitespace-nowrap ${
-            cursor.role === 'tutor' ? 'bg-emerald-500' : 'bg-violet-500'
-          }`}>
-            {cursor.role === 'tutor' ? 'Tutor' : cursor.userId.slice(0, 8)}
-          </span>
-        </div>
-      ))}
-
       {/* Connection error banner */}
       {connectionError && !isLoading && (
         <div className="absolute bottom-0 left-0 right-0 px-3 py-2 bg-yellow-500/20 text-yellow-400 text-xs text-center">
@@ -11,11 +11,10 @@ import {
   unsubscribeFromSession,
   sendChatMessage,
   onChatMessage,
-  offChatMessage,
   onSessionStatusChanged,
-  offSessionStatusChanged,
 } from '../../services/tutorSessionSocket';
 import { DailyRoom, TutorStudentChatMessage } from '../../types';
+import { RecordingConsentPrompt } from './RecordingConsentPrompt';
 import toast from 'react-hot-toast';
 
 interface FloatingTutorSessionProps {
@@ -126,12 +125,12 @@ export function FloatingTutorSession({
       }
     };
 
-    onChatMessage(handleChatMessage);
-    onSessionStatusChanged(handleSessionStatusChanged);
+    const unsubscribeChat = onChatMessage(handleChatMessage);
+    const unsubscribeStatus = onSessionStatusChanged(handleSessionStatusChanged);
 
     return () => {
-      offChatMessage();
-      offSessionStatusChanged();
+      unsubscribeChat();
+      unsubscribeStatus();
       unsubscribeFromSession(tutorSessionId);
       disconnectTutorSessionSocket();
     };
@@ -274,6 +273,8 @@ export function FloatingTutorSession({
         </div>
       </div>
 
+      <RecordingConsentPrompt sessionId={tutorSessionId} tutorName={tutor.name} />
+
       {/* Chat Messages */}
       <div
         ref={chatMessagesRef}
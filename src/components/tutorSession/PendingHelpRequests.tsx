@@ -3,14 +3,14 @@ import {
   BookOpen, Clock, MessageSquare, UserPlus, 
   Loader2, RefreshCw, AlertTriangle, Tag
 } from 'lucide-react';
-import { tutorSessionApi } from '../../api';
+import { tutorSessionApi, tutorProfileApi } from '../../api';
 import {
   connectTutorSessionSocket,
   disconnectTutorSessionSocket,
   onNewHelpRequest,
-  offNewHelpRequest,
 } from '../../services/tutorSessionSocket';
-import { PendingHelpRequest, NewHelpRequestEvent, AcceptSessionResponse } from '../../types';
+import { PendingHelpRequest, NewHelpRequestEvent, AcceptSessionResponse, TutorProfile } from '../../types';
+import { WEEK_ORDER, scheduleWindow, formatNextAvailable } from '../availability';
 import { SubjectBadge, UrgencyBadge } from '../ui/Badge';
 import Avatar from '../ui/Avatar';
 import toast from 'react-hot-toast';
@@ -28,6 +28,14 @@ export function PendingHelpRequests({
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [acceptingId, setAcceptingId] = useState<string | null>(null);
+  const [myProfile, setMyProfile] = useState<TutorProfile | null>(null);
+
+  // Own schedule, to flag when requests arrive outside scheduled hours
+  useEffect(() => {
+    tutorProfileApi.getMyProfile()
+      .then((response) => setMyProfile(response.data.data))
+      .catch(() => {});
+  }, []);
 
   // Connect to socket and fetch initial data
   useEffect(() => {
@@ -74,10 +82,10 @@ export function PendingHelpRequests({
       });
     };
 
-    onNewHelpRequest(handleNewHelpRequest);
+    const unsubscribe = onNewHelpRequest(handleNewHelpRequest);
 
     return () => {
-      offNewHelpRequest();
+      unsubscribe();
       disconnectTutorSessionSocket();
     };
   }, []);
@@ -146,6 +154,10 @@ export function PendingHelpRequests({
     return `${Math.floor(diffHours / 24)}d ago`;
   };
 
+  const now = new Date();
+  const hasSchedule = WEEK_ORDER.some((day) => myProfile?.availabilitySchedule?.[day]?.length);
+  const myWindow = myProfile && hasSchedule ? scheduleWindow(myProfile, now) : null;
+
   if (isLoading) {
     return (
       <div className={`bg-[#1a1a1a] rounded-xl border border-gray-800 p-8 ${className}`}>
@@ -181,6 +193,16 @@ export function PendingHelpRequests({
         </button>
       </div>
 
+      {myWindow && !myWindow.inSchedule && (
+        <div className="flex items-center gap-2 px-4 py-2 bg-blue-500/10 border-b border-blue-500/20 text-xs text-blue-300">
+          <Clock className="w-3.5 h-3.5 flex-shrink-0" />
+          <span>
+            You're outside your scheduled hours, so new requests are routed to scheduled tutors first.
+            {myWindow.minutesUntilNext !== null && ` Your next slot starts ${formatNextAvailable(new Date(now.getTime() + myWindow.minutesUntilNext * 60_000), now)}.`}
+          </span>
+        </div>
+      )}
+
       {/* Requests List */}
       {requests.length === 0 ? (
         <div className="p-8 text-center">
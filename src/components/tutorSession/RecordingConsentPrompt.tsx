@@ -0,0 +1,93 @@
+import { useState, useEffect } from 'react';
+import { Circle } from 'lucide-react';
+import { tutorSessionApi } from '../../api';
+import { onRecordingConsentRequested, onRecordingStateChanged } from '../../services/tutorSessionSocket';
+import { SessionRecordingState } from '../../types';
+import toast from 'react-hot-toast';
+
+interface RecordingConsentPromptProps {
+  sessionId: string;
+  tutorName: string;
+}
+
+// Student-side consent banner; also lets the student withdraw consent mid-recording
+export function RecordingConsentPrompt({ sessionId, tutorName }: RecordingConsentPromptProps) {
+  const [state, setState] = useState<SessionRecordingState | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    tutorSessionApi.getRecordingState(sessionId)
+      .then(setState)
+      .catch((error) => console.warn('[RecordingConsentPrompt] Could not load recording state:', error));
+
+    const unsubscribers = [
+      onRecordingConsentRequested((data) => {
+        if (data.sessionId !== sessionId) return;
+        setState((prev) => ({ sessionId, status: prev?.status ?? 'IDLE', consent: 'PENDING' }));
+      }),
+      onRecordingStateChanged((data) => {
+        if (data.sessionId === sessionId) setState(data);
+      }),
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [sessionId]);
+
+  const respond = async (granted: boolean) => {
+    setIsBusy(true);
+    try {
+      setState(await tutorSessionApi.respondToRecordingConsent(sessionId, granted));
+    } catch {
+      toast.error('Failed to update recording consent');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (state?.consent === 'PENDING') {
+    return (
+      <div className="flex flex-wrap items-center justify-between gap-3 px-4 py-3 bg-red-500/10 border-b border-red-500/20">
+        <p className="text-sm text-gray-200">
+          {tutorName} would like to record this session (call, chat and whiteboard) so you can rewatch it later.
+        </p>
+        <div className="flex gap-2">
+          <button
+            onClick={() => respond(false)}
+            disabled={isBusy}
+            className="px-3 py-1.5 text-sm text-gray-300 hover:text-white rounded-lg transition-colors disabled:opacity-50"
+          >
+            Decline
+          </button>
+          <button
+            onClick={() => respond(true)}
+            disabled={isBusy}
+            className="px-3 py-1.5 text-sm bg-red-500 hover:bg-red-400 text-white rounded-lg transition-colors disabled:opacity-50"
+          >
+            Allow recording
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (state?.status === 'RECORDING') {
+    return (
+      <div className="flex items-center justify-between gap-3 px-4 py-2 bg-red-500/10 border-b border-red-500/20">
+        <p className="text-xs text-red-300 flex items-center gap-2">
+          <Circle className="w-3 h-3 fill-current animate-pulse" />
+          This session is being recorded
+        </p>
+        <button
+          onClick={() => respond(false)}
+          disabled={isBusy}
+          className="text-xs text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+        >
+          Stop recording
+        </button>
+      </div>
+    );
+  }
+
+  return null;
+}
+
+export default RecordingConsentPrompt;
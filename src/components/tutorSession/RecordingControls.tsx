@@ -0,0 +1,131 @@
+import { useState, useEffect } from 'react';
+import { Circle, Square, Loader2, ShieldQuestion, CheckCircle } from 'lucide-react';
+import { tutorSessionApi } from '../../api';
+import { onRecordingStateChanged } from '../../services/tutorSessionSocket';
+import { SessionRecordingState } from '../../types';
+import { formatPlaybackTime } from '../recordings';
+import toast from 'react-hot-toast';
+
+interface RecordingControlsProps {
+  sessionId: string;
+  onRecordingChange?: (isRecording: boolean) => void;
+}
+
+// Tutor-side recording button; recording only starts once the student has agreed
+export function RecordingControls({ sessionId, onRecordingChange }: RecordingControlsProps) {
+  const [state, setState] = useState<SessionRecordingState>({ sessionId, consent: 'NOT_REQUESTED', status: 'IDLE' });
+  const [isBusy, setIsBusy] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+
+  useEffect(() => {
+    tutorSessionApi.getRecordingState(sessionId)
+      .then(setState)
+      .catch((error) => console.warn('[RecordingControls] Could not load recording state:', error));
+
+    return onRecordingStateChanged((data) => {
+      if (data.sessionId !== sessionId) return;
+      setState((prev) => {
+        if (prev.consent === 'PENDING' && data.consent === 'GRANTED') toast.success('Student agreed to recording');
+        if (prev.consent === 'PENDING' && data.consent === 'DECLINED') toast('Student declined recording', { icon: '🚫' });
+        if (prev.status === 'RECORDING' && data.status !== 'RECORDING' && data.consent === 'DECLINED') {
+          toast('Student withdrew consent, recording stopped', { icon: '⏹️' });
+        }
+        return data;
+      });
+    });
+  }, [sessionId]);
+
+  const isRecording = state.status === 'RECORDING';
+
+  useEffect(() => {
+    onRecordingChange?.(isRecording);
+    if (!isRecording || !state.startedAt) {
+      setElapsed(0);
+      return;
+    }
+    const startedAt = new Date(state.startedAt).getTime();
+    const tick = () => setElapsed((Date.now() - startedAt) / 1000);
+    tick();
+    const intervalId = setInterval(tick, 1000);
+    return () => clearInterval(intervalId);
+  }, [isRecording, state.startedAt, onRecordingChange]);
+
+  const run = async (action: () => Promise<SessionRecordingState>, failure: string) => {
+    setIsBusy(true);
+    try {
+      setState(await action());
+    } catch (error: unknown) {
+      const err = error as { response?: { data?: { message?: string } } };
+      toast.error(err.response?.data?.message || failure);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const baseClass = 'flex items-center gap-1.5 px-3 py-2 text-sm rounded-lg border transition-colors disabled:opacity-50';
+
+  if (isRecording) {
+    return (
+      <button
+        onClick={() => run(() => tutorSessionApi.stopRecording(sessionId), 'Failed to stop recording')}
+        disabled={isBusy}
+        className={`${baseClass} text-red-300 bg-red-500/10 border-red-500/40 hover:bg-red-500/20`}
+      >
+        {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Square className="w-4 h-4" />}
+        <span className="w-2 h-2 bg-red-500 rounded-full animate-pulse" />
+        {formatPlaybackTime(elapsed)}
+      </button>
+    );
+  }
+
+  const isSaved = state.status === 'PROCESSING' || state.status === 'READY';
+  const savedIndicator = (
+    <span className={`${baseClass} text-emerald-400 border-emerald-500/30`}>
+      <CheckCircle className="w-4 h-4" />
+      Recording saved
+    </span>
+  );
+
+  // Consent covers the whole session, so another recording can be started
+  if (state.consent === 'GRANTED') {
+    return (
+      <div className="flex items-center gap-2">
+        {isSaved && savedIndicator}
+        <button
+          onClick={() => run(() => tutorSessionApi.startRecording(sessionId), 'Failed to start recording')}
+          disabled={isBusy}
+          className={`${baseClass} text-red-400 border-red-500/30 hover:text-white hover:bg-red-500/20`}
+          title={state.status === 'FAILED' ? 'The last recording failed' : undefined}
+        >
+          {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Circle className="w-4 h-4 fill-current" />}
+          {state.status === 'FAILED' ? 'Retry recording' : 'Record'}
+        </button>
+      </div>
+    );
+  }
+
+  if (isSaved) return savedIndicator;
+
+  if (state.consent === 'PENDING') {
+    return (
+      <span className={`${baseClass} text-gray-400 border-gray-700`}>
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Waiting for consent
+      </span>
+    );
+  }
+
+  return (
+    <button
+      onClick={() => run(() => tutorSessionApi.requestRecordingConsent(sessionId), 'Failed to ask for consent')}
+      disabled={isBusy}
+      className={`${baseClass} text-gray-300 border-gray-700 hover:text-white hover:bg-gray-800`}
+      title={state.consent === 'DECLINED' ? 'The student declined last time' : 'Ask the student to allow recording'}
+    >
+      {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <ShieldQuestion className="w-4 h-4" />}
+      {state.consent === 'DECLINED' ? 'Ask again to record' : 'Ask to record'}
+    </button>
+  );
+}
+
+export default RecordingControls;
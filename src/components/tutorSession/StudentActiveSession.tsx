@@ -1,30 +1,29 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import {
   Video, Pencil, ChevronUp, ChevronDown,
-  Share2, Maximize2, Minimize2
+  Share2, Maximize2, Minimize2, History
 } from 'lucide-react';
 import {
   connectTutorSessionSocket,
   joinSession,
   leaveSession,
-  sendWhiteboardUpdate,
   onChatMessage,
-  offChatMessage,
   onChatHistory,
-  offChatHistory,
   onSessionStatusChanged,
-  offSessionStatusChanged,
   onCallSignal,
-  offCallSignal,
 } from '../../services/tutorSessionSocket';
 // tutorSessionApi not needed - students cannot end sessions (403)
 import {
   DailyRoom,
   TutorStudentChatMessage,
   SessionStatusChangedEvent,
+  TutorSessionChatHistoryEvent,
+  TutorSessionCallSignal,
 } from '../../types';
 import { FloatingCallIndicator } from './AudioCall';
 import { CollaborativeWhiteboard } from './CollaborativeWhiteboard';
+import { RecordingConsentPrompt } from './RecordingConsentPrompt';
+import { WhiteboardHistoryModal } from '../whiteboard';
 import toast from 'react-hot-toast';
 
 interface StudentActiveSessionProps {
@@ -58,6 +57,7 @@ export function StudentActiveSession({
   // State
   const [viewMode, setViewMode] = useState<ViewMode>('minimized');
   const [fullscreenMode, setFullscreenMode] = useState<FullscreenMode>(null);
+  const [showWhiteboardHistory, setShowWhiteboardHistory] = useState(false);
   const [isInVideoCall, setIsInVideoCall] = useState(false);
   const [chatMessages, setChatMessages] = useState<TutorStudentChatMessage[]>([]);
   const [sessionEnded, setSessionEnded] = useState(false);
@@ -97,9 +97,9 @@ export function StudentActiveSession({
     };
 
     // Chat history loaded
-    const handleChatHistory = (data: any) => {
+    const handleChatHistory = (data: TutorSessionChatHistoryEvent) => {
       if (data.sessionId === tutorSessionId && data.messages) {
-        setChatMessages(data.messages);
+        setChatMessages(data.messages as TutorStudentChatMessage[]);
       }
     };
 
@@ -121,7 +121,7 @@ export function StudentActiveSession({
     };
 
     // Call signals from tutor (mute/unmute, video on/off, screenshare)
-    const handleCallSignal = (data: any) => {
+    const handleCallSignal = (data: TutorSessionCallSignal) => {
       if (data.sessionId === tutorSessionId) {
         console.log('Received call signal from tutor:', data);
         // Handle call signals (mute, unmute, video on/off, screenshare)
@@ -131,17 +131,16 @@ export function StudentActiveSession({
     };
 
     console.log('[StudentActiveSession] Adding event listeners');
-    onChatMessage(handleChatMessage);
-    onChatHistory(handleChatHistory);
-    onSessionStatusChanged(handleSessionStatusChanged);
-    onCallSignal(handleCallSignal);
+    const unsubscribers = [
+      onChatMessage(handleChatMessage),
+      onChatHistory(handleChatHistory),
+      onSessionStatusChanged(handleSessionStatusChanged),
+      onCallSignal(handleCallSignal),
+    ];
 
     return () => {
       console.log('[StudentActiveSession] Removing event listeners');
-      offChatMessage();
-      offChatHistory();
-      offSessionStatusChanged();
-      offCallSignal();
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
     };
   }, [tutorSessionId, viewMode]);
 
@@ -287,6 +286,8 @@ export function StudentActiveSession({
         </div>
       </div>
 
+      <RecordingConsentPrompt sessionId={tutorSessionId} tutorName={tutorName} />
+
       {/* Expanded Content */}
       {viewMode !== 'minimized' && (
         <div className={`${fullscreenMode ? `fixed inset-4 z-50 bg-[#1a1a1a] rounded-2xl ${fullscreenMode === 'whiteboard' ? 'overflow-visible' : 'overflow-hidden'} flex flex-col p-4` : `p-4 ${viewMode === 'whiteboard' ? 'overflow-visible' : ''}`}`}>
@@ -371,23 +372,29 @@ export function StudentActiveSession({
                   <Pencil className="w-4 h-4 text-violet-400" />
                   Collaborative Whiteboard
                 </h3>
-                {!fullscreenMode && (
+                <div className="flex items-center gap-1">
                   <button
-                    onClick={() => toggleFullscreen('whiteboard')}
+                    onClick={() => setShowWhiteboardHistory(true)}
                     className="p-1 text-gray-400 hover:text-white rounded transition-colors"
-                    title="Fullscreen"
+                    title="History & export"
                   >
-                    <Maximize2 className="w-4 h-4" />
+                    <History className="w-4 h-4" />
                   </button>
-                )}
+                  {!fullscreenMode && (
+                    <button
+                      onClick={() => toggleFullscreen('whiteboard')}
+                      className="p-1 text-gray-400 hover:text-white rounded transition-colors"
+                      title="Fullscreen"
+                    >
+                      <Maximize2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
               </div>
+              {/* The whiteboard sends its own page-scoped updates */}
               <CollaborativeWhiteboard
                 sessionId={tutorSessionId}
                 className={fullscreenMode ? 'h-[800px]' : 'h-[500px]'}
-                onSave={(elements) => {
-                  // Send whiteboard update to tutor
-                  sendWhiteboardUpdate(tutorSessionId, elements);
-                }}
               />
             </div>
           )}
@@ -404,6 +411,13 @@ export function StudentActiveSession({
         disabled={!dailyRoom}
         sessionId={tutorSessionId}
       />
+
+      <WhiteboardHistoryModal
+        isOpen={showWhiteboardHistory}
+        onClose={() => setShowWhiteboardHistory(false)}
+        sessionId={tutorSessionId}
+        title={`Session with ${tutorName}`}
+      />
     </div>
   );
 }
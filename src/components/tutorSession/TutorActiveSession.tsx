@@ -1,8 +1,8 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import {
-  Download, Send, MessageSquare, FileText,
+  Send, MessageSquare, FileText,
   Sparkles, ChevronDown, ChevronUp, Eye, EyeOff, Maximize2,
-  UserPlus, Loader2, Users
+  UserPlus, Loader2, Users, History, Paperclip
 } from 'lucide-react';
 import { tutorSessionApi } from '../../api';
 import {
@@ -13,20 +13,13 @@ import {
   leaveSession,
   sendChatMessage,
   onNewAIMessage,
-  offNewAIMessage,
   onConsentChanged,
-  offConsentChanged,
   onChatMessage,
-  offChatMessage,
   onChatHistory,
-  offChatHistory,
   onWhiteboardData,
-  offWhiteboardData,
   onUserTyping,
-  offUserTyping,
   sendTypingIndicator,
   onCallSignal,
-  offCallSignal,
 } from '../../services/tutorSessionSocket';
 import {
   AcceptSessionResponse,
@@ -35,13 +28,21 @@ import {
   NewAIMessageEvent,
   ConsentChangedEvent,
   TutorSessionTypingEvent,
+  TutorSessionChatHistoryEvent,
+  TutorSessionCallSignal,
+  WhiteboardDataEvent,
   DailyRoom,
   AvailableTutor,
+  WhiteboardData,
+  SessionAttachment,
 } from '../../types';
 import { FloatingCallIndicator } from './AudioCall';
 import { CollaborativeWhiteboard } from './CollaborativeWhiteboard';
-import ReactMarkdown from 'react-markdown';
-import remarkGfm from 'remark-gfm';
+import { RecordingControls } from './RecordingControls';
+import { Markdown } from '../ui/Markdown';
+import { ExportMenu, transcriptFromTutorSession } from '../export';
+import { AvailabilityBadge, resolveAvailability, compareAvailability } from '../availability';
+import { WhiteboardHistoryModal, referencedFiles } from '../whiteboard';
 import toast from 'react-hot-toast';
 
 // Combined chat message interface for AI + Video chat
@@ -54,6 +55,10 @@ interface CombinedChatMessage {
   attachments?: any[];
 }
 
+// Whiteboard versions are batched to at most one per interval, more often while recording
+const SNAPSHOT_INTERVAL_MS = 30000;
+const RECORDING_SNAPSHOT_INTERVAL_MS = 5000;
+
 interface TutorActiveSessionProps {
   sessionData: AcceptSessionResponse;
   onEndSession: () => void;
@@ -83,6 +88,10 @@ export function TutorActiveSession({
   const [showWhiteboard, setShowWhiteboard] = useState(true);
   const [showAiChat, setShowAiChat] = useState(true);
 
+  // Whiteboard history and files saved to the summary
+  const [showWhiteboardHistory, setShowWhiteboardHistory] = useState(false);
+  const [attachments, setAttachments] = useState<SessionAttachment[]>([]);
+
   // Fullscreen mode for tutor
   const [fullscreenMode, setFullscreenMode] = useState<'whiteboard' | 'ai-chat' | 'tutor-chat' | null>(null);
 
@@ -96,6 +105,10 @@ export function TutorActiveSession({
   const aiChatEndRef = useRef<HTMLDivElement>(null);
   const tutorChatEndRef = useRef<HTMLDivElement>(null);
   const typingTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const isRecordingRef = useRef(false);
+  const latestSceneRef = useRef<WhiteboardData | null>(null);
+  const pendingSnapshotRef = useRef<WhiteboardData | null>(null);
+  const snapshotTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // Join session room on mount (wait for socket connection)
   useEffect(() => {
@@ -189,11 +202,11 @@ export function TutorActiveSession({
     };
 
     // Chat history loaded
-    const handleChatHistory = (data: any) => {
+    const handleChatHistory = (data: TutorSessionChatHistoryEvent) => {
       console.log('[TutorActiveSession] Chat history received:', data);
       if (data.sessionId === session.id && data.messages) {
         // Convert to TutorSessionChatMessage format
-        const formattedMessages = data.messages.map((msg: any) => ({
+        const formattedMessages = (data.messages as TutorSessionChatMessage[]).map((msg) => ({
           id: msg.id,
           role: msg.role,
           content: msg.content,
@@ -204,7 +217,7 @@ export function TutorActiveSession({
     };
 
     // Whiteboard data loaded
-    const handleWhiteboardData = (data: any) => {
+    const handleWhiteboardData = (data: WhiteboardDataEvent) => {
       console.log('[TutorActiveSession] Whiteboard data received:', data);
       if (data.sessionId === session.id) {
         // Whiteboard data is handled by the CollaborativeWhiteboard component
@@ -226,7 +239,7 @@ export function TutorActiveSession({
     };
 
     // Call signals from student (mute/unmute, video on/off, screenshare)
-    const handleCallSignal = (data: any) => {
+    const handleCallSignal = (data: TutorSessionCallSignal) => {
       if (data.sessionId === session.id) {
         console.log('Received call signal from student:', data);
         // Handle call signals (mute, unmute, video on/off, screenshare)
@@ -235,23 +248,17 @@ export function TutorActiveSession({
       }
     };
 
-    onNewAIMessage(handleNewAIMessage);
-    onConsentChanged(handleConsentChanged);
-    onChatHistory(handleChatHistory);
-    onWhiteboardData(handleWhiteboardData);
-    onChatMessage(handleChatMessage);
-    onUserTyping(handleUserTyping);
-    onCallSignal(handleCallSignal);
-
-    return () => {
-      offNewAIMessage();
-      offConsentChanged();
-      offChatHistory();
-      offWhiteboardData();
-      offChatMessage();
-      offUserTyping();
-      offCallSignal();
-    };
+    const unsubscribers = [
+      onNewAIMessage(handleNewAIMessage),
+      onConsentChanged(handleConsentChanged),
+      onChatHistory(handleChatHistory),
+      onWhiteboardData(handleWhiteboardData),
+      onChatMessage(handleChatMessage),
+      onUserTyping(handleUserTyping),
+      onCallSignal(handleCallSignal),
+    ];
+
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
   }, [session.id, liveSharingEnabled]);
 
   // Scroll to bottom of chats
@@ -378,11 +385,20 @@ export function TutorActiveSession({
     }, 2000);
   }, [session.id, isTyping]);
 
-  // Download chat
-  const handleDownloadChat = useCallback(() => {
-    const downloadUrl = tutorSessionApi.downloadChat(session.id);
-    window.open(downloadUrl, '_blank');
-  }, [session.id]);
+  // Export the shared AI chat history
+  const handleLoadTranscript = useCallback(async () => {
+    const { messages } = await tutorSessionApi.getChatHistory(session.id);
+    return transcriptFromTutorSession(
+      {
+        id: session.id,
+        topic: session.topic,
+        aiSessionId: session.aiSessionId,
+        studentName: session.student?.name,
+        tutorName: session.tutor?.name,
+      },
+      messages
+    );
+  }, [session]);
 
   // End session
   const handleEndSession = useCallback(async () => {
@@ -407,7 +423,7 @@ export function TutorActiveSession({
     setShowInvitePanel(true);
     setIsLoadingTutors(true);
     try {
-      const tutors = await tutorSessionApi.getAvailableTutors(session.id);
+      const tutors = await tutorSessionApi.getAvailableTutors(session.id, { includeScheduled: true });
       setAvailableTutors(tutors);
     } catch (error) {
       console.error('Failed to fetch available tutors:', error);
@@ -433,6 +449,75 @@ export function TutorActiveSession({
     }
   }, [session?.id]);
 
+  // Send the queued scene as a new whiteboard version
+  const flushSnapshot = useCallback(() => {
+    if (snapshotTimerRef.current) {
+      clearTimeout(snapshotTimerRef.current);
+      snapshotTimerRef.current = null;
+    }
+    const pending = pendingSnapshotRef.current;
+    pendingSnapshotRef.current = null;
+    if (pending && session?.id) {
+      tutorSessionApi.saveWhiteboardSnapshot(session.id, pending).catch((error) => {
+        console.warn('[TutorActiveSession] Failed to save whiteboard snapshot:', error);
+      });
+    }
+  }, [session?.id]);
+
+  // Queue a whiteboard version; the latest scene in each interval wins
+  const captureSnapshot = useCallback((elements: unknown[], pageId?: string, files?: Record<string, unknown>) => {
+    const scene = { elements, activePageId: pageId, files: referencedFiles(elements, files) };
+    latestSceneRef.current = scene;
+    pendingSnapshotRef.current = scene;
+    if (snapshotTimerRef.current) return;
+
+    snapshotTimerRef.current = setTimeout(
+      flushSnapshot,
+      isRecordingRef.current ? RECORDING_SNAPSHOT_INTERVAL_MS : SNAPSHOT_INTERVAL_MS
+    );
+  }, [flushSnapshot]);
+
+  const handleWhiteboardSave = useCallback((elements: unknown[], data: WhiteboardData) => {
+    tutorSessionApi.saveWhiteboard(session.id, data);
+    captureSnapshot(elements, data.activePageId, data.files);
+  }, [session?.id, captureSnapshot]);
+
+  // Start the recording with the board as it is now
+  const handleRecordingChange = useCallback((recording: boolean) => {
+    isRecordingRef.current = recording;
+    if (recording && latestSceneRef.current) {
+      pendingSnapshotRef.current = latestSceneRef.current;
+      flushSnapshot();
+    }
+  }, [flushSnapshot]);
+
+  // Images the student shared with the AI, offered as whiteboard backgrounds
+  const studentImages = useMemo(
+    () => aiChatHistory
+      .flatMap((msg) => msg.attachments ?? [])
+      .filter((attachment) => attachment.type === 'image' || attachment.mimeType?.startsWith('image/')),
+    [aiChatHistory]
+  );
+
+  // Save pending edits first so the latest version is in the history
+  const openWhiteboardHistory = useCallback(() => {
+    flushSnapshot();
+    setShowWhiteboardHistory(true);
+  }, [flushSnapshot]);
+
+  useEffect(() => {
+    if (!session?.id) return;
+    tutorSessionApi.getSessionAttachments(session.id)
+      .then(setAttachments)
+      .catch(() => setAttachments([]));
+  }, [session?.id]);
+
+  // Student edits reach the history through the whiteboard's onSave
+  useEffect(() => {
+    // Keep the last edits when the session view closes
+    return () => flushSnapshot();
+  }, [flushSnapshot]);
+
   // Guard - show loading if data isn't ready
   if (!session || !summary) {
     return (
@@ -478,9 +563,8 @@ export function TutorActiveSession({
             <CollaborativeWhiteboard
               sessionId={session.id}
               className="h-[800px]"
-              onSave={(elements) => {
-                tutorSessionApi.saveWhiteboard(session.id, { elements });
-              }}
+              onSave={handleWhiteboardSave}
+              imageAttachments={studentImages}
             />
           )}
 
@@ -500,11 +584,7 @@ export function TutorActiveSession({
                         : 'bg-gray-800 text-gray-300'
                     }`}>
                       {msg.role === 'ASSISTANT' ? (
-                        <div className="prose prose-invert prose-sm max-w-none">
-                          <ReactMarkdown remarkPlugins={[remarkGfm]}>
-                            {msg.content}
-                          </ReactMarkdown>
-                        </div>
+                        <Markdown className="prose prose-invert prose-sm max-w-none">{msg.content}</Markdown>
                       ) : (
                         <p className="whitespace-pre-wrap">{msg.content}</p>
                       )}
@@ -620,6 +700,7 @@ export function TutorActiveSession({
           </div>
 
           <div className="flex items-center gap-2">
+            <RecordingControls sessionId={session.id} onRecordingChange={handleRecordingChange} />
             <button
               onClick={handleShowInvitePanel}
               className="flex items-center gap-1.5 px-3 py-2 text-sm text-violet-400 hover:text-white hover:bg-violet-500/20 border border-violet-500/30 rounded-lg transition-colors"
@@ -627,13 +708,7 @@ export function TutorActiveSession({
               <UserPlus className="w-4 h-4" />
               Invite Tutor
             </button>
-            <button
-              onClick={handleDownloadChat}
-              className="flex items-center gap-1.5 px-3 py-2 text-sm text-gray-400 hover:text-white hover:bg-gray-800 rounded-lg transition-colors"
-            >
-              <Download className="w-4 h-4" />
-              Download
-            </button>
+            <ExportMenu loadTranscript={handleLoadTranscript} />
             <button
               onClick={handleEndSession}
               disabled={isEndingSession}
@@ -674,7 +749,14 @@ export function TutorActiveSession({
               </div>
             ) : (
               <div className="space-y-2">
-                {availableTutors.map((tutor) => (
+                {availableTutors
+                  .map((tutor) => ({
+                    tutor,
+                    // Older servers only return online tutors and omit isOnline
+                    availability: resolveAvailability({ ...tutor, isOnline: tutor.isOnline ?? true }),
+                  }))
+                  .sort((a, b) => compareAvailability(a.availability, b.availability))
+                  .map(({ tutor, availability }) => (
                   <div
                     key={tutor.id}
                     className="flex items-center justify-between p-3 bg-gray-800/50 rounded-lg"
@@ -685,12 +767,13 @@ export function TutorActiveSession({
                       </div>
                       <div>
                         <p className="text-sm font-medium text-white">{tutor.name}</p>
-                        <p className="text-xs text-gray-500">{tutor.status}</p>
+                        <AvailabilityBadge resolved={availability} className="mt-0.5" />
                       </div>
                     </div>
                     <button
                       onClick={() => handleInviteTutor(tutor.id)}
-                      disabled={invitingTutorId === tutor.id}
+                      disabled={invitingTutorId === tutor.id || availability.state !== 'ONLINE'}
+                      title={availability.state !== 'ONLINE' ? 'Only online tutors can join right now' : undefined}
                       className="flex items-center gap-1.5 px-3 py-1.5 bg-violet-500 hover:bg-violet-400 text-white text-xs font-medium rounded-lg transition-colors disabled:opacity-50"
                     >
                       {invitingTutorId === tutor.id ? (
@@ -788,6 +871,26 @@ export function TutorActiveSession({
                   </div>
                 </div>
               )}
+
+              {attachments.length > 0 && (
+                <div>
+                  <p className="text-xs text-gray-500 mb-1">Saved Whiteboards</p>
+                  <div className="flex flex-wrap gap-1">
+                    {attachments.map((attachment) => (
+                      <a
+                        key={attachment.id}
+                        href={attachment.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-1 px-2 py-0.5 bg-gray-800 text-gray-300 hover:text-white text-xs rounded"
+                      >
+                        <Paperclip className="w-3 h-3" />
+                        {attachment.name}
+                      </a>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
           </div>
 
@@ -887,11 +990,7 @@ export function TutorActiveSession({
                           : 'bg-blue-500/20 text-gray-200'
                       }`}>
                         {message.source === 'ai_chat' && message.role === 'ASSISTANT' ? (
-                          <div className="prose prose-invert prose-sm max-w-none">
-                            <ReactMarkdown remarkPlugins={[remarkGfm]}>
-                              {message.content}
-                            </ReactMarkdown>
-                          </div>
+                          <Markdown className="prose prose-invert prose-sm max-w-none">{message.content}</Markdown>
                         ) : (
                           <p className="whitespace-pre-wrap">{message.content}</p>
                         )}
@@ -917,6 +1016,13 @@ export function TutorActiveSession({
                 <h2 className="text-lg font-semibold text-white">Whiteboard</h2>
               </button>
               <div className="flex items-center gap-2">
+                <button
+                  onClick={openWhiteboardHistory}
+                  className="p-1 text-gray-400 hover:text-white rounded transition-colors"
+                  title="History & export"
+                >
+                  <History className="w-4 h-4" />
+                </button>
                 <button
                   onClick={(e) => {
                     e.stopPropagation();
@@ -944,9 +1050,8 @@ export function TutorActiveSession({
               <CollaborativeWhiteboard
                 sessionId={session.id}
                 className="h-[500px]"
-                onSave={(elements) => {
-                  tutorSessionApi.saveWhiteboard(session.id, { elements });
-                }}
+                onSave={handleWhiteboardSave}
+                imageAttachments={studentImages}
               />
             )}
           </div>
@@ -1015,11 +1120,7 @@ export function TutorActiveSession({
                           : 'bg-gray-800 text-gray-300'
                       }`}>
                         {msg.role === 'ASSISTANT' ? (
-                          <div className="prose prose-invert prose-sm max-w-none">
-                            <ReactMarkdown remarkPlugins={[remarkGfm]}>
-                              {msg.content}
-                            </ReactMarkdown>
-                          </div>
+                          <Markdown className="prose prose-invert prose-sm max-w-none">{msg.content}</Markdown>
                         ) : (
                           <p className="whitespace-pre-wrap">{msg.content}</p>
                         )}
@@ -1035,6 +1136,14 @@ export function TutorActiveSession({
         
         </div>
       </div>
+
+      <WhiteboardHistoryModal
+        isOpen={showWhiteboardHistory}
+        onClose={() => setShowWhiteboardHistory(false)}
+        sessionId={session.id}
+        title={session.topic || 'Whiteboard'}
+        onAttached={(attachment) => setAttachments((prev) => [...prev, attachment])}
+      />
     </div>
   );
 }
@@ -11,17 +11,15 @@ import {
   subscribeToAISession,
   subscribeToSession,
   onTutorRequestProgress,
-  offTutorRequestProgress,
   onTutorWaitStatus,
-  offTutorWaitStatus,
   onTutorETAUpdate,
-  offTutorETAUpdate,
 } from '../../services/tutorSessionSocket';
 import {
   DailyRoom, AIUrgency,
   TutorRequestProgressStatus,
   TutorWaitStatusType,
 } from '../../types';
+import { estimateWaitMinutes } from '../availability';
 import { AudioCall } from './AudioCall';
 import { FloatingTutorSession } from './FloatingTutorSession';
 import toast from 'react-hot-toast';
@@ -81,6 +79,8 @@ export function TutorSessionPanel({
   const [waitMessage, setWaitMessage] = useState<string | null>(null);
   const [etaMinutes, setEtaMinutes] = useState<number | null>(null);
   const [etaMessage, setEtaMessage] = useState<string | null>(null);
+  // Wait derived from matching tutors' weekly hours, used when nobody is online
+  const [scheduleEtaMinutes, setScheduleEtaMinutes] = useState<number | null>(null);
 
   // Connect to tutor session socket
   useEffect(() => {
@@ -121,16 +121,43 @@ export function TutorSessionPanel({
       setEtaMessage(data.message);
     };
 
-    onTutorRequestProgress(handleProgress);
-    onTutorWaitStatus(handleWaitStatus);
-    onTutorETAUpdate(handleETAUpdate);
+    const unsubscribers = [
+      onTutorRequestProgress(handleProgress),
+      onTutorWaitStatus(handleWaitStatus),
+      onTutorETAUpdate(handleETAUpdate),
+    ];
+
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [sessionState]);
+
+  // Fetch matching tutors' schedules once we're waiting
+  useEffect(() => {
+    if (sessionState !== 'waiting' || !tutorSessionId) {
+      setScheduleEtaMinutes(null);
+      return;
+    }
+
+    let cancelled = false;
+    tutorSessionApi.getTutorAvailability(tutorSessionId)
+      .then((tutors) => {
+        if (cancelled) return;
+        const minutes = estimateWaitMinutes(tutors);
+        // 0 means someone is online; the server's own routing covers that case
+        setScheduleEtaMinutes(minutes && minutes > 0 ? minutes : null);
+      })
+      .catch(() => {
+        // Schedule ETA is a hint; the socket ETA still works without it
+      });
 
     return () => {
-      offTutorRequestProgress();
-      offTutorWaitStatus();
-      offTutorETAUpdate();
+      cancelled = true;
     };
-  }, [sessionState]);
+  }, [sessionState, tutorSessionId]);
+
+  // Server ETA (busy tutors finishing) vs. next scheduled tutor: show the sooner
+  const preferScheduleEta = scheduleEtaMinutes !== null && (etaMinutes === null || scheduleEtaMinutes < etaMinutes);
+  const displayEtaMinutes = preferScheduleEta ? scheduleEtaMinutes : etaMinutes;
+  const displayEtaMessage = preferScheduleEta ? 'Based on when matching tutors are scheduled to come online' : etaMessage;
 
   // Handle active tutor session changes
   useEffect(() => {
@@ -360,16 +387,16 @@ export function TutorSessionPanel({
             )}
 
             {/* ETA Display */}
-            {etaMinutes !== null && (
+            {displayEtaMinutes !== null && (
               <div className="bg-blue-500/10 border border-blue-500/30 rounded-lg p-3 mb-4">
                 <div className="flex items-center gap-2 mb-1">
                   <Clock className="w-4 h-4 text-blue-400" />
                   <span className="text-sm font-medium text-blue-300">
-                    Estimated Wait: ~{etaMinutes} min{etaMinutes !== 1 ? 's' : ''}
+                    Estimated Wait: ~{displayEtaMinutes} min{displayEtaMinutes !== 1 ? 's' : ''}
                   </span>
                 </div>
-                {etaMessage && (
-                  <p className="text-xs text-blue-400/70">{etaMessage}</p>
+                {displayEtaMessage && (
+                  <p className="text-xs text-blue-400/70">{displayEtaMessage}</p>
                 )}
               </div>
             )}
@@ -5,4 +5,6 @@ export { TutorActiveSession } from './TutorActiveSession';
 export { StudentActiveSession } from './StudentActiveSession';
 export { PendingHelpRequests } from './PendingHelpRequests';
 export { FloatingTutorSession } from './FloatingTutorSession';
+export { RecordingControls } from './RecordingControls';
+export { RecordingConsentPrompt } from './RecordingConsentPrompt';
 
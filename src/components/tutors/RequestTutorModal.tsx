@@ -0,0 +1,67 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { messagesApi } from '../../api';
+import { MessageType } from '../../types';
+import { Modal } from '../ui/Modal';
+import Button from '../ui/Button';
+
+interface RequestTutorModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  tutor: { id: string; name: string };
+}
+
+// Starts a conversation that is offered to this tutor first
+export function RequestTutorModal({ isOpen, onClose, tutor }: RequestTutorModalProps) {
+  const navigate = useNavigate();
+  const [question, setQuestion] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    if (!question.trim()) return;
+    setIsSubmitting(true);
+    try {
+      const response = await messagesApi.sendMessage({
+        content: question.trim(),
+        messageType: MessageType.TEXT,
+        preferredTutorId: tutor.id,
+      });
+      toast.success(`Sent to ${tutor.name}`);
+      setQuestion('');
+      onClose();
+      navigate(`/conversations/${response.conversation.id}`);
+    } catch (error: unknown) {
+      const err = error as { response?: { data?: { message?: string } } };
+      toast.error(err.response?.data?.message || 'Failed to send request');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`Ask ${tutor.name}`} size="md">
+      <div className="space-y-4">
+        <p className="text-sm text-gray-400">
+          {tutor.name} gets your question first. If they can't take it, it goes to other tutors for the subject.
+        </p>
+        <div>
+          <label className="label">Your question</label>
+          <textarea
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            rows={5}
+            placeholder="Describe what you need help with, and what you've tried so far"
+            className="input resize-none"
+          />
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" onClick={onClose} disabled={isSubmitting}>Cancel</Button>
+          <Button onClick={handleSubmit} isLoading={isSubmitting} disabled={!question.trim()}>Send request</Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
+export default RequestTutorModal;
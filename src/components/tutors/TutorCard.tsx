@@ -0,0 +1,57 @@
+import { Link } from 'react-router-dom';
+import { Shield, Languages } from 'lucide-react';
+import { TutorProfile } from '../../types';
+import Avatar from '../ui/Avatar';
+import { SubjectBadge } from '../ui/Badge';
+import { AvailabilityBadge, resolveAvailability } from '../availability';
+import { StarRating } from '../reviews';
+
+// Directory tile linking to the tutor's profile page
+export function TutorCard({ tutor }: { tutor: TutorProfile }) {
+  const resolved = resolveAvailability(tutor);
+
+  return (
+    <Link
+      to={`/tutors/${tutor.id}`}
+      className="block bg-[#25262b] border border-gray-700/50 rounded-lg p-4 hover:border-gray-600 transition-colors"
+    >
+      <div className="flex items-start gap-3">
+        <Avatar src={tutor.avatar} name={tutor.name || 'Tutor'} size="lg" />
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-1.5">
+            <p className="text-sm font-semibold text-gray-100 truncate">{tutor.name || 'Tutor'}</p>
+            {tutor.isVerified && <Shield className="w-3.5 h-3.5 text-blue-400 shrink-0" aria-label="Verified" />}
+          </div>
+          <div className="flex items-center gap-1.5 mt-0.5">
+            <StarRating value={tutor.rating ?? 0} size="sm" />
+            <span className="text-xs text-gray-400">
+              {tutor.rating ? tutor.rating.toFixed(1) : 'New'} ({tutor.totalReviews || 0})
+            </span>
+          </div>
+          <div className="mt-1.5">
+            <AvailabilityBadge resolved={resolved} />
+          </div>
+        </div>
+        {tutor.hourlyRate ? (
+          <p className="text-sm font-semibold text-gray-200 whitespace-nowrap">${tutor.hourlyRate}<span className="text-xs text-gray-500">/hr</span></p>
+        ) : null}
+      </div>
+
+      {tutor.bio && <p className="text-xs text-gray-400 mt-3 line-clamp-2">{tutor.bio}</p>}
+
+      <div className="flex flex-wrap items-center gap-1 mt-3">
+        {tutor.subjects?.slice(0, 3).map((s) => <SubjectBadge key={s} subject={s} />)}
+        {(tutor.subjects?.length || 0) > 3 && (
+          <span className="badge bg-gray-700 text-gray-300">+{(tutor.subjects?.length || 0) - 3}</span>
+        )}
+        {tutor.languages && tutor.languages.length > 0 && (
+          <span className="flex items-center gap-1 text-xs text-gray-500 ml-auto">
+            <Languages className="w-3 h-3" /> {tutor.languages.slice(0, 2).join(', ')}
+          </span>
+        )}
+      </div>
+    </Link>
+  );
+}
+
+export default TutorCard;
@@ -0,0 +1,12 @@
+export { TutorCard } from './TutorCard';
+export { RequestTutorModal } from './RequestTutorModal';
+export {
+  ACADEMIC_LEVELS,
+  TEACHING_STYLES,
+  MIN_RATING_OPTIONS,
+  EMPTY_FILTERS,
+  buildTutorQuery,
+  activeFilterCount,
+  toBookableTutor,
+} from './tutorDirectory';
+export type { TutorFilters } from './tutorDirectory';
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest'
+import { Subject } from '../../types'
+import { EMPTY_FILTERS, buildTutorQuery, activeFilterCount } from './tutorDirectory'
+
+describe('buildTutorQuery', () => {
+  it('sends only the filters that are set', () => {
+    expect(buildTutorQuery(EMPTY_FILTERS, 1, 12)).toEqual({ page: 1, limit: 12 })
+    expect(buildTutorQuery({
+      ...EMPTY_FILTERS,
+      search: '  ada ',
+      subject: Subject.PHYSICS,
+      language: 'Nepali',
+      minRating: 4,
+      verifiedOnly: true,
+      availableNow: true,
+    }, 2, 12)).toEqual({
+      page: 2,
+      limit: 12,
+      search: 'ada',
+      subjects: 'PHYSICS',
+      languages: 'Nepali',
+      minRating: 4,
+      verified: true,
+      availableNow: true,
+    })
+  })
+})
+
+describe('activeFilterCount', () => {
+  it('counts changed filters but not the search box', () => {
+    expect(activeFilterCount(EMPTY_FILTERS)).toBe(0)
+    expect(activeFilterCount({ ...EMPTY_FILTERS, search: 'x', teachingStyle: 'Mixed', availableNow: true })).toBe(2)
+  })
+})
@@ -0,0 +1,62 @@
+import type { ListTutorsParams } from '../../api/profiles';
+import type { AcademicLevel, BookableTutor, Subject, TeachingStyle, TutorProfile } from '../../types';
+
+export const ACADEMIC_LEVELS: AcademicLevel[] = ['Elementary', 'Middle School', 'High School', 'Undergraduate', 'Graduate', 'Professional'];
+
+export const TEACHING_STYLES: TeachingStyle[] = ['Interactive', 'Lecture-based', 'Project-based', 'Discussion-based', 'Hands-on', 'Mixed'];
+
+export const MIN_RATING_OPTIONS = [0, 3, 4, 4.5];
+
+export interface TutorFilters {
+  search: string;
+  subject: Subject | '';
+  language: string;
+  academicLevel: AcademicLevel | '';
+  teachingStyle: TeachingStyle | '';
+  minRating: number;
+  verifiedOnly: boolean;
+  availableNow: boolean;
+}
+
+export const EMPTY_FILTERS: TutorFilters = {
+  search: '',
+  subject: '',
+  language: '',
+  academicLevel: '',
+  teachingStyle: '',
+  minRating: 0,
+  verifiedOnly: false,
+  availableNow: false,
+};
+
+// Only set filters go on the query string
+export function buildTutorQuery(filters: TutorFilters, page: number, limit: number): ListTutorsParams {
+  const params: ListTutorsParams = { page, limit };
+  if (filters.search.trim()) params.search = filters.search.trim();
+  if (filters.subject) params.subjects = filters.subject;
+  if (filters.language.trim()) params.languages = filters.language.trim();
+  if (filters.academicLevel) params.academicLevel = filters.academicLevel;
+  if (filters.teachingStyle) params.teachingStyle = filters.teachingStyle;
+  if (filters.minRating > 0) params.minRating = filters.minRating;
+  if (filters.verifiedOnly) params.verified = true;
+  if (filters.availableNow) params.availableNow = true;
+  return params;
+}
+
+// Filters that differ from the defaults (search excluded)
+export function activeFilterCount(filters: TutorFilters): number {
+  return (Object.keys(EMPTY_FILTERS) as (keyof TutorFilters)[])
+    .filter((key) => key !== 'search' && filters[key] !== EMPTY_FILTERS[key])
+    .length;
+}
+
+export function toBookableTutor(profile: TutorProfile): BookableTutor {
+  return {
+    id: profile.id,
+    name: profile.name || 'Tutor',
+    avatar: profile.avatar,
+    subjects: profile.subjects,
+    hourlyRate: profile.hourlyRate,
+    timezone: profile.timezone,
+  };
+}
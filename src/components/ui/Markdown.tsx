@@ -0,0 +1,98 @@
+import { useRef, useState, useMemo } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import remarkBreaks from 'remark-breaks';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import { Copy, Check } from 'lucide-react';
+import 'katex/dist/katex.min.css';
+import 'katex/contrib/mhchem';
+import 'highlight.js/styles/github-dark.css';
+import { normalizeMath } from './markdownMath';
+
+// ============================================
+// Shared Markdown renderer
+// ============================================
+//
+// Every chat surface renders through this so math (inline/block), mhchem
+// chemistry and highlighted code look the same everywhere.
+
+interface MarkdownProps {
+  children: string | null | undefined;
+  className?: string;
+  // Treat single newlines as line breaks (human-typed chat messages)
+  breaks?: boolean;
+  // Per-surface overrides, e.g. heading sizes
+  components?: Components;
+}
+
+function CodeBlock({ children }: { children?: React.ReactNode }) {
+  const preRef = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    const text = preRef.current?.innerText ?? '';
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Clipboard blocked (insecure context) - nothing useful to show
+    }
+  };
+
+  return (
+    <div className="relative group my-4">
+      <pre ref={preRef} className="bg-gray-900/50 rounded-lg p-4 overflow-x-auto text-sm">
+        {children}
+      </pre>
+      <button
+        type="button"
+        onClick={handleCopy}
+        className="absolute top-2 right-2 p-1.5 rounded-md bg-gray-800/80 text-gray-400 hover:text-gray-200 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+        title={copied ? 'Copied' : 'Copy code'}
+      >
+        {copied ? <Check className="w-3.5 h-3.5 text-emerald-400" /> : <Copy className="w-3.5 h-3.5" />}
+      </button>
+    </div>
+  );
+}
+
+const defaultComponents: Components = {
+  pre: ({ children }) => <CodeBlock>{children}</CodeBlock>,
+  code: ({ children, className }) => {
+    // Fenced blocks carry a language class or span lines; everything else is inline
+    const isInline = !className && !String(children).includes('\n');
+    return isInline ? (
+      <code className="bg-gray-700/50 px-1.5 py-0.5 rounded text-violet-300 text-sm">{children}</code>
+    ) : (
+      <code className={className}>{children}</code>
+    );
+  },
+  a: ({ children, href }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer">{children}</a>
+  ),
+};
+
+export function Markdown({ children, className = '', breaks = false, components }: MarkdownProps) {
+  const source = useMemo(() => normalizeMath(children || ''), [children]);
+  const remarkPlugins = useMemo(
+    () => (breaks ? [remarkGfm, remarkMath, remarkBreaks] : [remarkGfm, remarkMath]),
+    [breaks]
+  );
+
+  return (
+    <div className={className}>
+      <ReactMarkdown
+        remarkPlugins={remarkPlugins}
+        rehypePlugins={[[rehypeKatex, { throwOnError: false, strict: false }], rehypeHighlight]}
+        components={{ ...defaultComponents, ...components }}
+      >
+        {source}
+      </ReactMarkdown>
+    </div>
+  );
+}
+
+export default Markdown;
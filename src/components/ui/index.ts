@@ -19,3 +19,4 @@ export { default as Pagination } from './Pagination';
 
 
 
+export { default as Markdown } from './Markdown';
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest'
+import { normalizeMath } from './markdownMath'
+
+describe('normalizeMath', () => {
+  it('converts LaTeX paren and bracket delimiters to dollars', () => {
+    expect(normalizeMath('Area is \\(\\pi r^2\\).')).toBe('Area is $\\pi r^2$.')
+    expect(normalizeMath('\\[ E = mc^2 \\]')).toBe('\n$$\nE = mc^2\n$$\n')
+  })
+
+  it('wraps bare mhchem in inline math', () => {
+    expect(normalizeMath('Water is \\ce{H2O}.')).toBe('Water is $\\ce{H2O}$.')
+    expect(normalizeMath('\\ce{SO4^{2-}}')).toBe('$\\ce{SO4^{2-}}$')
+  })
+
+  it('leaves mhchem already inside math alone', () => {
+    expect(normalizeMath('$\\ce{H2O}$ and $$\\ce{CO2}$$')).toBe('$\\ce{H2O}$ and $$\\ce{CO2}$$')
+  })
+
+  it('does not touch code spans or fences', () => {
+    const fenced = '```latex\n\\(x\\) \\ce{H2O}\n```'
+    expect(normalizeMath(fenced)).toBe(fenced)
+    expect(normalizeMath('use `\\ce{H2O}` here')).toBe('use `\\ce{H2O}` here')
+  })
+})
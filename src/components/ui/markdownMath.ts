@@ -0,0 +1,33 @@
+// ============================================
+// Math delimiter normalization
+// ============================================
+//
+// remark-math only understands $…$ and $$…$$, but model output regularly uses
+// the LaTeX \( … \) / \[ … \] forms and bare mhchem \ce{…} outside math mode.
+// Rewrite those into dollar delimiters, leaving code spans and fences alone.
+
+const CODE_PATTERN = /(```[\s\S]*?(?:```|$)|`[^`\n]*`)/g;
+const MATH_PATTERN = /(\$\$[\s\S]*?\$\$|\$[^$\n]+?\$)/g;
+// \ce{…} / \pu{…} with up to one level of nested braces
+const MHCHEM_PATTERN = /\\(?:ce|pu)\{(?:[^{}]|\{[^{}]*\})*\}/g;
+
+const normalizeProse = (text: string): string => {
+  const delimited = text
+    .replace(/\\\[([\s\S]*?)\\\]/g, (_, body: string) => `\n$$\n${body.trim()}\n$$\n`)
+    .replace(/\\\(([\s\S]*?)\\\)/g, (_, body: string) => `$${body.trim()}$`);
+
+  // Wrap chemistry that sits outside any math span
+  return delimited
+    .split(MATH_PATTERN)
+    .map((part, i) => (i % 2 === 1 ? part : part.replace(MHCHEM_PATTERN, (ce) => `$${ce}$`)))
+    .join('');
+};
+
+export function normalizeMath(markdown: string): string {
+  return markdown
+    .split(CODE_PATTERN)
+    .map((part, i) => (i % 2 === 1 ? part : normalizeProse(part)))
+    .join('');
+}
+
+export default normalizeMath;
@@ -0,0 +1,179 @@
+import { useState, useEffect } from 'react';
+import { ChevronLeft, ChevronRight, Download, FileText, History, Paperclip } from 'lucide-react';
+import { tutorSessionApi } from '../../api';
+import { SessionAttachment, WhiteboardSnapshot } from '../../types';
+import { Modal } from '../ui/Modal';
+import { Spinner } from '../ui/Loading';
+import Button from '../ui/Button';
+import { WhiteboardSnapshotView } from '../recordings';
+import { WhiteboardExportFormat, describeChange, whiteboardFilename } from './whiteboardHistory';
+import { exportWhiteboard, snapshotToPng } from './whiteboardExport';
+import toast from 'react-hot-toast';
+
+interface WhiteboardHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  sessionId: string;
+  // Used for export file names and PDF headings
+  title: string;
+  onAttached?: (attachment: SessionAttachment) => void;
+}
+
+type ExportAction = WhiteboardExportFormat | 'pdf-all' | 'attach';
+
+// Step back through saved board versions and export or keep any of them
+export function WhiteboardHistoryModal({ isOpen, onClose, sessionId, title, onAttached }: WhiteboardHistoryModalProps) {
+  const [snapshots, setSnapshots] = useState<WhiteboardSnapshot[]>([]);
+  const [attachments, setAttachments] = useState<SessionAttachment[]>([]);
+  const [index, setIndex] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyAction, setBusyAction] = useState<ExportAction | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const fetchHistory = async () => {
+      setIsLoading(true);
+      try {
+        const [history, files] = await Promise.all([
+          tutorSessionApi.getWhiteboardSnapshots(sessionId),
+          tutorSessionApi.getSessionAttachments(sessionId),
+        ]);
+        setSnapshots(history);
+        setAttachments(files);
+        // Open on the latest version
+        setIndex(Math.max(0, history.length - 1));
+      } catch {
+        toast.error('Failed to load whiteboard history');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchHistory();
+  }, [isOpen, sessionId]);
+
+  const current = snapshots[index] ?? null;
+  const previous = index > 0 ? snapshots[index - 1] : null;
+
+  const runAction = async (action: ExportAction) => {
+    if (!current) return;
+    setBusyAction(action);
+    try {
+      if (action === 'attach') {
+        const blob = await snapshotToPng(current);
+        const file = new File([blob], whiteboardFilename(title, current, 'png'), { type: 'image/png' });
+        const attachment = await tutorSessionApi.attachWhiteboardExport(sessionId, file, current.id);
+        setAttachments((prev) => [...prev, attachment]);
+        onAttached?.(attachment);
+        toast.success('Saved to the session summary');
+      } else if (action === 'pdf-all') {
+        await exportWhiteboard(title, snapshots, null, 'pdf');
+      } else {
+        await exportWhiteboard(title, snapshots, current, action);
+      }
+    } catch (error) {
+      console.error('[WhiteboardHistory] Export failed:', error);
+      toast.error(action === 'attach' ? 'Failed to attach whiteboard' : 'Export failed');
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const actionButton = (action: ExportAction, label: string, icon: React.ReactNode) => (
+    <Button
+      size="sm"
+      variant={action === 'attach' ? 'primary' : 'secondary'}
+      onClick={() => runAction(action)}
+      isLoading={busyAction === action}
+      disabled={!!busyAction && busyAction !== action}
+      leftIcon={icon}
+    >
+      {label}
+    </Button>
+  );
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Whiteboard History" size="lg">
+      {isLoading ? (
+        <div className="flex items-center justify-center py-16"><Spinner size="lg" /></div>
+      ) : snapshots.length === 0 ? (
+        <div className="text-center py-12 text-gray-400">
+          <History className="w-10 h-10 mx-auto mb-3 text-gray-600" />
+          <p className="text-gray-300">No saved versions yet</p>
+          <p className="text-sm mt-1">The board is saved every few seconds while people draw.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <WhiteboardSnapshotView snapshot={current} className="h-[380px]" />
+
+          {/* Scrubber */}
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => setIndex((i) => Math.max(0, i - 1))}
+              disabled={index === 0}
+              className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-[#2c2d32] disabled:opacity-30"
+              title="Previous version"
+            >
+              <ChevronLeft className="w-5 h-5" />
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={snapshots.length - 1}
+              value={index}
+              onChange={(e) => setIndex(Number(e.target.value))}
+              className="flex-1 accent-primary-500"
+              aria-label="Whiteboard version"
+            />
+            <button
+              onClick={() => setIndex((i) => Math.min(snapshots.length - 1, i + 1))}
+              disabled={index === snapshots.length - 1}
+              className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-[#2c2d32] disabled:opacity-30"
+              title="Next version"
+            >
+              <ChevronRight className="w-5 h-5" />
+            </button>
+          </div>
+          {current && (
+            <p className="text-xs text-gray-500 text-center">
+              Version {current.version} of {snapshots[snapshots.length - 1].version}
+              {' · '}{new Date(current.capturedAt).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit', second: '2-digit' })}
+              {current.pageName && ` · ${current.pageName}`}
+              {' · '}{describeChange(previous, current)}
+            </p>
+          )}
+
+          {/* Export */}
+          <div className="flex flex-wrap items-center gap-2 pt-3 border-t border-gray-700/50">
+            {actionButton('png', 'PNG', <Download className="w-4 h-4" />)}
+            {actionButton('svg', 'SVG', <Download className="w-4 h-4" />)}
+            {actionButton('pdf', 'PDF', <FileText className="w-4 h-4" />)}
+            {snapshots.length > 1 && actionButton('pdf-all', 'PDF of all versions', <FileText className="w-4 h-4" />)}
+            <div className="flex-1" />
+            {actionButton('attach', 'Attach to summary', <Paperclip className="w-4 h-4" />)}
+          </div>
+
+          {attachments.length > 0 && (
+            <div>
+              <p className="label">In the session summary</p>
+              <div className="flex flex-wrap gap-2">
+                {attachments.map((attachment) => (
+                  <a
+                    key={attachment.id}
+                    href={attachment.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-1 px-2 py-1 text-xs bg-[#2c2d32] text-gray-300 hover:text-white rounded"
+                  >
+                    <Paperclip className="w-3 h-3" /> {attachment.name}
+                  </a>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+}
+
+export default WhiteboardHistoryModal;
@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { WhiteboardPageMeta } from '../../types';
+
+interface WhiteboardPageTabsProps {
+  pages: WhiteboardPageMeta[];
+  activePageId: string;
+  onSelect: (pageId: string) => void;
+  // Editing callbacks are omitted for read-only boards
+  onAdd?: () => void;
+  onRename?: (pageId: string, name: string) => void;
+  onDelete?: (pageId: string) => void;
+}
+
+// Page strip under the whiteboard toolbar; double-click a tab to rename it
+export function WhiteboardPageTabs({ pages, activePageId, onSelect, onAdd, onRename, onDelete }: WhiteboardPageTabsProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const commitRename = () => {
+    const name = draftName.trim();
+    if (editingId && name && onRename) onRename(editingId, name);
+    setEditingId(null);
+  };
+
+  return (
+    <div className="flex items-center gap-1 h-8 px-2 bg-[#232323] border-b border-gray-700 overflow-x-auto">
+      {pages.map((page) => {
+        const isActive = page.id === activePageId;
+        return editingId === page.id ? (
+          <input
+            key={page.id}
+            autoFocus
+            value={draftName}
+            onChange={(e) => setDraftName(e.target.value)}
+            onBlur={commitRename}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitRename();
+              if (e.key === 'Escape') setEditingId(null);
+            }}
+            maxLength={40}
+            className="w-28 px-2 py-0.5 text-xs bg-gray-800 text-white border border-violet-500 rounded outline-none"
+          />
+        ) : (
+          <div
+            key={page.id}
+            className={`group flex items-center gap-1 px-2 py-0.5 text-xs rounded cursor-pointer whitespace-nowrap transition-colors ${
+              isActive ? 'bg-violet-500/20 text-violet-300' : 'text-gray-400 hover:text-white hover:bg-gray-700'
+            }`}
+            onClick={() => onSelect(page.id)}
+            onDoubleClick={() => {
+              if (!onRename) return;
+              setEditingId(page.id);
+              setDraftName(page.name);
+            }}
+          >
+            {page.name}
+            {onDelete && pages.length > 1 && isActive && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onDelete(page.id);
+                }}
+                className="text-gray-500 hover:text-red-400"
+                title="Delete page"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+        );
+      })}
+      {onAdd && (
+        <button
+          onClick={onAdd}
+          className="p-1 text-gray-400 hover:text-white hover:bg-gray-700 rounded transition-colors"
+          title="Add page"
+        >
+          <Plus className="w-3.5 h-3.5" />
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default WhiteboardPageTabs;
@@ -0,0 +1,22 @@
+export { WhiteboardHistoryModal } from './WhiteboardHistoryModal';
+export { WhiteboardPageTabs } from './WhiteboardPageTabs';
+export { describeChange, liveElements, referencedFiles, whiteboardFilename } from './whiteboardHistory';
+export type { WhiteboardExportFormat } from './whiteboardHistory';
+export { exportWhiteboard, printWhiteboards, snapshotToPng, snapshotToSvg } from './whiteboardExport';
+export {
+  DEFAULT_PAGE_ID,
+  createPageId,
+  pageMeta,
+  normalizePages,
+  nextPageName,
+} from './whiteboardPages';
+export { WHITEBOARD_TEMPLATES, templateBounds, translateTemplate } from './whiteboardTemplates';
+export type { TemplateSkeleton, WhiteboardTemplateId } from './whiteboardTemplates';
+export {
+  createWhiteboardSync,
+  createClientId,
+  viewportCenter,
+  scrollForCenter,
+  presenceColor,
+} from './whiteboardSync';
+export type { WhiteboardSync, ViewportState } from './whiteboardSync';
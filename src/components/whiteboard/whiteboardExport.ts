@@ -0,0 +1,77 @@
+import { exportToBlob, exportToSvg } from '@excalidraw/excalidraw';
+import { WhiteboardSnapshot } from '../../types';
+import { downloadBlob, escapeHtml, printHtml } from '../export';
+import { WhiteboardExportFormat, liveElements, whiteboardFilename } from './whiteboardHistory';
+
+// ============================================
+// Whiteboard export (PNG / SVG / PDF)
+// ============================================
+//
+// Exports use a white background so boards drawn on the dark canvas stay
+// readable on paper. PDF goes through the browser's print dialog, one page
+// per snapshot, the same way transcripts are printed.
+
+const EXPORT_APP_STATE = { exportBackground: true, viewBackgroundColor: '#ffffff', exportWithDarkMode: false };
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const sceneOf = (snapshot: WhiteboardSnapshot) => liveElements(snapshot.elements) as any[];
+// Images render as empty placeholders without their files
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const filesOf = (snapshot: WhiteboardSnapshot) => (snapshot.files ?? null) as any;
+
+export async function snapshotToPng(snapshot: WhiteboardSnapshot): Promise<Blob> {
+  return exportToBlob({
+    elements: sceneOf(snapshot),
+    appState: EXPORT_APP_STATE,
+    files: filesOf(snapshot),
+    mimeType: 'image/png',
+    exportPadding: 24,
+  });
+}
+
+export async function snapshotToSvg(snapshot: WhiteboardSnapshot): Promise<SVGSVGElement> {
+  return exportToSvg({
+    elements: sceneOf(snapshot),
+    appState: EXPORT_APP_STATE,
+    files: filesOf(snapshot),
+    exportPadding: 24,
+  });
+}
+
+const PRINT_STYLES = `
+  @page { margin: 14mm; }
+  body { margin: 0; font-family: Georgia, 'Times New Roman', serif; color: #1a1a1a; }
+  section { break-after: page; display: flex; flex-direction: column; align-items: center; }
+  section:last-child { break-after: auto; }
+  h1 { font-size: 14pt; margin: 0 0 8px; align-self: flex-start; }
+  svg { max-width: 100%; height: auto; max-height: 240mm; }
+`;
+
+export async function printWhiteboards(title: string, snapshots: WhiteboardSnapshot[]): Promise<void> {
+  const pages = await Promise.all(snapshots.map(async (snapshot) => {
+    const svg = await snapshotToSvg(snapshot);
+    const heading = `${title} · version ${snapshot.version} · ${new Date(snapshot.capturedAt).toLocaleString()}`;
+    return `<section><h1>${escapeHtml(heading)}</h1>${svg.outerHTML}</section>`;
+  }));
+
+  await printHtml(pages.join('\n'), title, { styles: PRINT_STYLES });
+}
+
+// Download one snapshot, or every version when snapshot is null (PDF only)
+export async function exportWhiteboard(
+  title: string,
+  snapshots: WhiteboardSnapshot[],
+  snapshot: WhiteboardSnapshot | null,
+  format: WhiteboardExportFormat
+): Promise<void> {
+  if (format === 'pdf') {
+    await printWhiteboards(title, snapshot ? [snapshot] : snapshots);
+    return;
+  }
+  if (!snapshot) throw new Error('PNG and SVG exports need a single version');
+
+  const blob = format === 'png'
+    ? await snapshotToPng(snapshot)
+    : new Blob([(await snapshotToSvg(snapshot)).outerHTML], { type: 'image/svg+xml' });
+  downloadBlob(blob, whiteboardFilename(title, snapshot, format));
+}
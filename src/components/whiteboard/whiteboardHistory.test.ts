@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest'
+import { describeChange, liveElements, referencedFiles, whiteboardFilename } from './whiteboardHistory'
+import type { WhiteboardSnapshot } from '../../types'
+
+const snapshot = (version: number, elements: unknown[]): WhiteboardSnapshot => ({
+  id: `s${version}`,
+  version,
+  capturedAt: '2026-03-01T10:00:00.000Z',
+  elements,
+})
+
+describe('describeChange', () => {
+  it('counts shapes added and removed since the previous version', () => {
+    const v1 = snapshot(1, [{ id: 'a' }, { id: 'b' }])
+    const v2 = snapshot(2, [{ id: 'a' }, { id: 'b', isDeleted: true }, { id: 'c' }, { id: 'd' }])
+    expect(liveElements(v2.elements)).toHaveLength(3)
+    expect(describeChange(null, v1)).toBe('+2 shapes')
+    expect(describeChange(v1, v2)).toBe('+2 / -1 shapes')
+    expect(describeChange(v1, snapshot(3, [{ id: 'a' }, { id: 'b' }]))).toBe('Edited shapes')
+  })
+})
+
+describe('referencedFiles', () => {
+  it('keeps only files used by live image elements', () => {
+    const files = { f1: { id: 'f1' }, f2: { id: 'f2' }, f3: { id: 'f3' } }
+    const elements = [
+      { id: 'a', type: 'image', fileId: 'f1' },
+      { id: 'b', type: 'image', fileId: 'f2', isDeleted: true },
+      { id: 'c', type: 'rectangle' },
+    ]
+    expect(referencedFiles(elements, files)).toEqual({ f1: { id: 'f1' } })
+    expect(referencedFiles(elements)).toEqual({})
+  })
+})
+
+describe('whiteboardFilename', () => {
+  it('names exports after the session and version', () => {
+    expect(whiteboardFilename('Integration by Parts!', snapshot(4, []), 'png')).toBe('integration-by-parts-v4.png')
+    expect(whiteboardFilename('', null, 'pdf')).toBe('whiteboard-all-versions.pdf')
+  })
+})
@@ -0,0 +1,38 @@
+import type { WhiteboardSnapshot } from '../../types';
+
+export type WhiteboardExportFormat = 'png' | 'svg' | 'pdf';
+
+// Excalidraw keeps deleted elements around (isDeleted) so merges can resolve them
+export function liveElements(elements: unknown[]): unknown[] {
+  return elements.filter((el) => !!el && !(el as { isDeleted?: boolean }).isDeleted);
+}
+
+// Only the files live image elements point at, so each version stays small
+export function referencedFiles(elements: unknown[], files?: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  if (!files) return result;
+  for (const el of liveElements(elements)) {
+    const fileId = (el as { fileId?: string | null }).fileId;
+    if (fileId && files[fileId]) result[fileId] = files[fileId];
+  }
+  return result;
+}
+
+// Short change note for the scrubber, e.g. "+3 / -1 shapes"
+export function describeChange(previous: WhiteboardSnapshot | null, current: WhiteboardSnapshot): string {
+  const before = new Set(previous ? liveElements(previous.elements).map((el) => (el as { id?: string }).id) : []);
+  const after = new Set(liveElements(current.elements).map((el) => (el as { id?: string }).id));
+  const added = [...after].filter((id) => !before.has(id)).length;
+  const removed = [...before].filter((id) => !after.has(id)).length;
+  if (!added && !removed) return previous ? 'Edited shapes' : 'Empty board';
+  return [added && `+${added}`, removed && `-${removed}`].filter(Boolean).join(' / ') + ' shapes';
+}
+
+export function whiteboardFilename(title: string, snapshot: WhiteboardSnapshot | null, extension: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || 'whiteboard';
+  return `${slug}-${snapshot ? `v${snapshot.version}` : 'all-versions'}.${extension}`;
+}
@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest'
+import { nextPageName, normalizePages, DEFAULT_PAGE_ID } from './whiteboardPages'
+
+describe('normalizePages', () => {
+  it('loads boards saved before pages as a single page', () => {
+    expect(normalizePages({ elements: [{ id: 'a' }] })).toEqual([
+      { id: DEFAULT_PAGE_ID, name: 'Page 1', elements: [{ id: 'a' }] },
+    ])
+    expect(normalizePages(null)).toHaveLength(1)
+  })
+})
+
+describe('nextPageName', () => {
+  it('numbers past the highest existing page', () => {
+    expect(nextPageName([{ id: 'p1', name: 'Page 1' }, { id: 'p3', name: 'Page 3' }])).toBe('Page 4')
+    expect(nextPageName([{ id: 'p1', name: 'Algebra' }])).toBe('Page 2')
+  })
+})
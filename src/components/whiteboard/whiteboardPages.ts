@@ -0,0 +1,26 @@
+import type { WhiteboardData, WhiteboardPage, WhiteboardPageMeta } from '../../types';
+
+// Boards saved before pages existed load as this single page
+export const DEFAULT_PAGE_ID = 'page-1';
+
+export function createPageId(): string {
+  return `page-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export function pageMeta(pages: WhiteboardPage[]): WhiteboardPageMeta[] {
+  return pages.map(({ id, name }) => ({ id, name }));
+}
+
+export function normalizePages(data?: WhiteboardData | null): WhiteboardPage[] {
+  if (data?.pages && data.pages.length > 0) return data.pages;
+  return [{ id: DEFAULT_PAGE_ID, name: 'Page 1', elements: data?.elements ?? [] }];
+}
+
+// "Page N" one past the highest numbered page, so names stay unique after deletes
+export function nextPageName(pages: WhiteboardPageMeta[]): string {
+  const highest = pages.reduce((max, page) => {
+    const match = /^Page (\d+)$/.exec(page.name);
+    return match ? Math.max(max, Number(match[1])) : max;
+  }, 0);
+  return `Page ${Math.max(highest, pages.length) + 1}`;
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest'
+import type { Socket } from 'socket.io-client'
+import { createTypedSocketClient } from '../../services/typedSocket'
+import { createWhiteboardSync, scrollForCenter, viewportCenter } from './whiteboardSync'
+import type { WhiteboardDeltaEvent } from '../../types'
+
+interface SyncEvents {
+  whiteboardDelta: WhiteboardDeltaEvent
+}
+
+// Local stand-in for the session room: emits are held until flushed, so
+// tests control delivery order the way a slow network would
+function createRoomStub() {
+  const peers: { receive: (event: string, payload: unknown) => void }[] = []
+  const queue: (() => void)[] = []
+
+  const join = () => {
+    const listeners = new Map<string, Set<(payload: unknown) => void>>()
+    const peer = {
+      on: (event: string, fn: (payload: unknown) => void) => {
+        if (!listeners.has(event)) listeners.set(event, new Set())
+        listeners.get(event)!.add(fn)
+        return peer
+      },
+      off: (event: string, fn?: (payload: unknown) => void) => {
+        if (fn) listeners.get(event)?.delete(fn)
+        return peer
+      },
+      emit: (event: string, payload: unknown) => {
+        peers.filter((other) => other !== peer).forEach((other) => queue.push(() => other.receive(event, payload)))
+        return peer
+      },
+      receive: (event: string, payload: unknown) => listeners.get(event)?.forEach((fn) => fn(payload)),
+    }
+    peers.push(peer)
+    return peer
+  }
+
+  const flush = (reverse = false) => {
+    const pending = queue.splice(0)
+    ;(reverse ? pending.reverse() : pending).forEach((deliver) => deliver())
+  }
+
+  return { join, flush }
+}
+
+function connectPeer(room: ReturnType<typeof createRoomStub>, clientId: string) {
+  const socket = room.join()
+  const events = createTypedSocketClient<SyncEvents>(clientId)
+  events.attach(socket as unknown as Socket)
+  const sync = createWhiteboardSync({
+    sessionId: 's1',
+    clientId,
+    emit: (delta) => socket.emit('whiteboardDelta', delta),
+  })
+  events.on('whiteboardDelta', sync.receive)
+  return sync
+}
+
+const rect = (id: string, version: number, extra: Record<string, unknown> = {}) => ({ id, version, versionNonce: version, ...extra })
+
+describe('createWhiteboardSync', () => {
+  it('sends only changed elements', () => {
+    const room = createRoomStub()
+    const a = connectPeer(room, 'a')
+    connectPeer(room, 'b')
+
+    expect(a.commit('p1', [rect('r1', 1), rect('r2', 1)])?.changes).toHaveLength(2)
+    expect(a.commit('p1', [rect('r1', 1), rect('r2', 2)])?.changes.map((c) => c.element)).toEqual([rect('r2', 2)])
+    expect(a.commit('p1', [rect('r1', 1), rect('r2', 2)])).toBeNull()
+  })
+
+  it('converges on concurrent edits regardless of delivery order', () => {
+    const room = createRoomStub()
+    const a = connectPeer(room, 'a')
+    const b = connectPeer(room, 'b')
+    const c = connectPeer(room, 'c')
+
+    a.commit('p1', [rect('r1', 1, { x: 0 })])
+    room.flush()
+
+    // Both move the same shape, and b draws a new one at the same time
+    a.commit('p1', [rect('r1', 2, { x: 10 })])
+    b.commit('p1', [rect('r1', 2, { x: 20 }), rect('r2', 1)])
+    room.flush(true)
+
+    expect(a.elements('p1')).toEqual(b.elements('p1'))
+    expect(b.elements('p1')).toEqual(c.elements('p1'))
+    expect(c.elements('p1')).toHaveLength(2)
+  })
+
+  it('keeps deletes and ignores replayed deltas', () => {
+    const room = createRoomStub()
+    const a = connectPeer(room, 'a')
+    const b = connectPeer(room, 'b')
+
+    const created = a.commit('p1', [rect('r1', 1)])!
+    room.flush()
+    b.commit('p1', [rect('r1', 2, { isDeleted: true })])
+    room.flush()
+
+    expect(a.receive(created)).toBe(false)
+    expect(a.elements('p1')).toEqual([rect('r1', 2, { isDeleted: true })])
+  })
+
+  it('lets live edits win over saved board state', () => {
+    const room = createRoomStub()
+    const a = connectPeer(room, 'a')
+    a.commit('p1', [rect('r1', 3)])
+    a.load([{ id: 'p1', name: 'Page 1', elements: [rect('r1', 1), rect('r2', 1)] }])
+    expect(a.elements('p1')).toEqual([rect('r1', 3), rect('r2', 1)])
+  })
+
+  it('keeps edits from a peer that joined from saved state', () => {
+    const room = createRoomStub()
+    const a = connectPeer(room, 'a')
+    const b = connectPeer(room, 'b')
+
+    a.commit('p1', [rect('r1', 1)])
+    a.commit('p1', [rect('r1', 2)])
+    b.commit('p1', [rect('r1', 2), rect('r2', 1)])
+    room.flush()
+    const saved = [{ id: 'p1', name: 'Page 1', elements: a.elements('p1'), clocks: a.clocks('p1') }]
+
+    // c refreshes into the session and moves a shape that is already on the board
+    const c = connectPeer(room, 'c')
+    c.load(saved)
+    c.commit('p1', [rect('r1', 3, { x: 50 }), rect('r2', 1)])
+    room.flush()
+
+    expect(a.elements('p1')).toEqual(c.elements('p1'))
+    expect(b.elements('p1')).toEqual(c.elements('p1'))
+    expect(a.elements('p1')).toContainEqual(rect('r1', 3, { x: 50 }))
+  })
+})
+
+describe('follow mode viewport', () => {
+  it('centers followers on the same scene point at any screen size', () => {
+    const center = viewportCenter({ scrollX: -100, scrollY: 50, width: 1200, height: 800, zoom: 2 })
+    expect(center).toEqual({ centerX: 400, centerY: 150, zoom: 2 })
+    const scroll = scrollForCenter(center, 600, 400)
+    expect(viewportCenter({ ...scroll, width: 600, height: 400, zoom: 2 })).toEqual(center)
+  })
+})
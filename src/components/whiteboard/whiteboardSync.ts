@@ -0,0 +1,188 @@
+import type { WhiteboardDeltaEvent, WhiteboardElementChange, WhiteboardPage } from '../../types';
+
+// ============================================
+// Whiteboard sync (CRDT element store)
+// ============================================
+//
+// Every element is a last-writer-wins register stamped with a Lamport clock
+// and the writing client's id, so participants converge on the same board
+// whatever order deltas arrive in, and replaying a delta is harmless.
+// Deletes are Excalidraw tombstones (isDeleted) and merge like any other
+// write. Only elements whose Excalidraw version changed are sent. Saved
+// pages carry the stamps too, so a client joining from saved state picks up
+// the clock where the board left off.
+
+interface SceneElement {
+  id: string;
+  version?: number;
+  versionNonce?: number;
+  // Excalidraw fractional index; defines z-order
+  index?: string | null;
+}
+
+type Stamp = Pick<WhiteboardElementChange, 'clock' | 'clientId'>;
+
+// Boards saved before stamps were stored lose to any live edit
+const UNSTAMPED: Stamp = { clock: 0, clientId: '' };
+
+const isNewer = (a: Stamp, b: Stamp) => a.clock > b.clock || (a.clock === b.clock && a.clientId > b.clientId);
+
+const asElement = (value: unknown): SceneElement | null =>
+  value && typeof value === 'object' && typeof (value as SceneElement).id === 'string' ? (value as SceneElement) : null;
+
+// Plain code-point comparison; fractional index keys are ASCII-ordered
+const byIndex = (a: SceneElement, b: SceneElement) => {
+  if (!a.index || !b.index || a.index === b.index) return 0;
+  return a.index < b.index ? -1 : 1;
+};
+
+export interface WhiteboardSync {
+  clientId: string;
+  // Seed pages from saved board data (join, refresh)
+  load: (pages: WhiteboardPage[]) => void;
+  // Record the local scene for a page; emits and returns a delta when anything changed
+  commit: (pageId: string, elements: readonly unknown[], files?: Record<string, unknown>) => WhiteboardDeltaEvent | null;
+  // Merge a remote delta; true when the page's elements changed
+  receive: (delta: WhiteboardDeltaEvent) => boolean;
+  // Page elements in z-order, including tombstones
+  elements: (pageId: string) => unknown[];
+  // Stamps of the page's elements by id, saved alongside them
+  clocks: (pageId: string) => Record<string, Stamp>;
+}
+
+interface WhiteboardSyncOptions {
+  sessionId: string;
+  clientId: string;
+  emit: (delta: WhiteboardDeltaEvent) => void;
+}
+
+export function createWhiteboardSync({ sessionId, clientId, emit }: WhiteboardSyncOptions): WhiteboardSync {
+  const pages = new Map<string, Map<string, WhiteboardElementChange>>();
+  let clock = 0;
+
+  const pageStore = (pageId: string) => {
+    let store = pages.get(pageId);
+    if (!store) {
+      store = new Map();
+      pages.set(pageId, store);
+    }
+    return store;
+  };
+
+  const load = (loaded: WhiteboardPage[]) => {
+    for (const page of loaded) {
+      const store = pageStore(page.id);
+      for (const value of page.elements) {
+        const element = asElement(value);
+        if (!element) continue;
+        const saved = page.clocks?.[element.id];
+        const stamp: Stamp = saved ? { clock: saved.clock, clientId: saved.clientId } : UNSTAMPED;
+        clock = Math.max(clock, stamp.clock);
+        const existing = store.get(element.id);
+        // Never overwrite a newer live edit with saved state
+        if (!existing || !isNewer(existing, stamp)) {
+          store.set(element.id, { element, ...stamp });
+        }
+      }
+    }
+  };
+
+  const commit = (pageId: string, elements: readonly unknown[], files?: Record<string, unknown>) => {
+    const store = pageStore(pageId);
+    const changes: WhiteboardElementChange[] = [];
+    for (const value of elements) {
+      const element = asElement(value);
+      if (!element) continue;
+      const existing = store.get(element.id)?.element as SceneElement | undefined;
+      if (existing && existing.version === element.version && existing.versionNonce === element.versionNonce) continue;
+      clock += 1;
+      const change = { element, clock, clientId };
+      store.set(element.id, change);
+      changes.push(change);
+    }
+    if (changes.length === 0) return null;
+
+    const delta: WhiteboardDeltaEvent = { sessionId, pageId, clientId, changes, ...(files && { files }) };
+    emit(delta);
+    return delta;
+  };
+
+  const receive = (delta: WhiteboardDeltaEvent) => {
+    if (delta.sessionId && delta.sessionId !== sessionId) return false;
+    const store = pageStore(delta.pageId);
+    let changed = false;
+    for (const change of delta.changes) {
+      const element = asElement(change.element);
+      if (!element) continue;
+      clock = Math.max(clock, change.clock);
+      const existing = store.get(element.id);
+      if (!existing || isNewer(change, existing)) {
+        store.set(element.id, { ...change, element });
+        changed = true;
+      }
+    }
+    return changed;
+  };
+
+  const elements = (pageId: string) =>
+    [...(pages.get(pageId)?.values() ?? [])]
+      .map((entry) => entry.element as SceneElement)
+      .sort(byIndex);
+
+  const clocks = (pageId: string) => {
+    const result: Record<string, Stamp> = {};
+    pages.get(pageId)?.forEach((entry, id) => {
+      result[id] = { clock: entry.clock, clientId: entry.clientId };
+    });
+    return result;
+  };
+
+  return { clientId, load, commit, receive, elements, clocks };
+}
+
+export function createClientId(userId?: string): string {
+  return `${userId ?? 'guest'}:${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// ============================================
+// Presence (cursors and follow mode)
+// ============================================
+
+export interface ViewportState {
+  scrollX: number;
+  scrollY: number;
+  width: number;
+  height: number;
+  zoom: number;
+}
+
+// Scene point at the middle of the screen; viewports differ in size, so
+// follow mode shares the center rather than the scroll offset
+export function viewportCenter({ scrollX, scrollY, width, height, zoom }: ViewportState) {
+  return {
+    centerX: -scrollX + width / 2 / zoom,
+    centerY: -scrollY + height / 2 / zoom,
+    zoom,
+  };
+}
+
+export function scrollForCenter(
+  center: { centerX: number; centerY: number; zoom: number },
+  width: number,
+  height: number
+): { scrollX: number; scrollY: number } {
+  return {
+    scrollX: width / 2 / center.zoom - center.centerX,
+    scrollY: height / 2 / center.zoom - center.centerY,
+  };
+}
+
+const PRESENCE_COLORS = ['#f97316', '#22c55e', '#3b82f6', '#eab308', '#ec4899', '#14b8a6', '#a855f7', '#ef4444'];
+
+// Stable cursor color per user
+export function presenceColor(userId: string): { background: string; stroke: string } {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) hash = (hash * 31 + userId.charCodeAt(i)) >>> 0;
+  const color = PRESENCE_COLORS[hash % PRESENCE_COLORS.length];
+  return { background: color, stroke: color };
+}
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest'
+import { ELEMENT_SYMBOLS, periodicTablePosition, templateBounds, WHITEBOARD_TEMPLATES } from './whiteboardTemplates'
+
+describe('periodicTablePosition', () => {
+  it('places elements in the 18-column layout with the f-block below', () => {
+    expect(ELEMENT_SYMBOLS).toHaveLength(118)
+    expect(periodicTablePosition(1)).toEqual({ row: 0, column: 0 })
+    expect(periodicTablePosition(2)).toEqual({ row: 0, column: 17 })
+    expect(periodicTablePosition(5)).toEqual({ row: 1, column: 12 })
+    expect(periodicTablePosition(26)).toEqual({ row: 3, column: 7 })
+    expect(periodicTablePosition(57)).toEqual({ row: 8, column: 3 })
+    expect(periodicTablePosition(72)).toEqual({ row: 5, column: 3 })
+    expect(periodicTablePosition(103)).toEqual({ row: 9, column: 17 })
+    expect(periodicTablePosition(118)).toEqual({ row: 6, column: 17 })
+  })
+})
+
+describe('WHITEBOARD_TEMPLATES', () => {
+  it('builds locked elements with a positive extent', () => {
+    for (const template of WHITEBOARD_TEMPLATES) {
+      const skeletons = template.build()
+      const { width, height } = templateBounds(skeletons)
+      expect(width).toBeGreaterThan(0)
+      expect(height).toBeGreaterThanOrEqual(0)
+      expect(skeletons.every((el) => el.locked)).toBe(true)
+    }
+  })
+})
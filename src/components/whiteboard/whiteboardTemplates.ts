@@ -0,0 +1,157 @@
+// ============================================
+// Whiteboard templates
+// ============================================
+//
+// Templates are built as plain Excalidraw element skeletons at the origin and
+// converted with convertToExcalidrawElements when inserted. Backgrounds are
+// locked so drawing over them doesn't select the grid.
+
+export interface TemplateSkeleton {
+  type: 'line' | 'arrow' | 'rectangle' | 'text';
+  x: number;
+  y: number;
+  width?: number;
+  height?: number;
+  points?: [number, number][];
+  text?: string;
+  fontSize?: number;
+  strokeColor?: string;
+  backgroundColor?: string;
+  fillStyle?: 'solid';
+  strokeWidth?: number;
+  opacity?: number;
+  locked?: boolean;
+}
+
+export type WhiteboardTemplateId = 'graph-paper' | 'coordinate-axes' | 'number-line' | 'periodic-table';
+
+const GRID_COLOR = '#3f3f46';
+const INK_COLOR = '#e5e7eb';
+const CELL = 40;
+
+const line = (x: number, y: number, dx: number, dy: number, extra: Partial<TemplateSkeleton> = {}): TemplateSkeleton => ({
+  type: 'line',
+  x,
+  y,
+  points: [[0, 0], [dx, dy]],
+  strokeColor: GRID_COLOR,
+  strokeWidth: 1,
+  locked: true,
+  ...extra,
+});
+
+const label = (x: number, y: number, text: string, fontSize = 16): TemplateSkeleton => ({
+  type: 'text',
+  x,
+  y,
+  text,
+  fontSize,
+  strokeColor: INK_COLOR,
+  locked: true,
+});
+
+function gridLines(columns: number, rows: number): TemplateSkeleton[] {
+  const width = columns * CELL;
+  const height = rows * CELL;
+  return [
+    ...Array.from({ length: columns + 1 }, (_, i) => line(i * CELL, 0, 0, height)),
+    ...Array.from({ length: rows + 1 }, (_, i) => line(0, i * CELL, width, 0)),
+  ];
+}
+
+function coordinateAxes(): TemplateSkeleton[] {
+  const half = 8;
+  const size = half * 2 * CELL;
+  const origin = half * CELL;
+  const axis = { strokeColor: INK_COLOR, strokeWidth: 2 };
+  const ticks = Array.from({ length: half * 2 + 1 }, (_, i) => i - half).filter((n) => n !== 0 && n % 2 === 0);
+  return [
+    ...gridLines(half * 2, half * 2),
+    { type: 'arrow', x: 0, y: origin, points: [[0, 0], [size, 0]], ...axis, locked: true },
+    { type: 'arrow', x: origin, y: size, points: [[0, 0], [0, -size]], ...axis, locked: true },
+    label(size - 16, origin + 8, 'x'),
+    label(origin + 10, 0, 'y'),
+    ...ticks.map((n) => label(origin + n * CELL - 6, origin + 6, String(n), 12)),
+    ...ticks.map((n) => label(origin + 6, origin - n * CELL - 8, String(n), 12)),
+  ];
+}
+
+function numberLine(): TemplateSkeleton[] {
+  const min = -10;
+  const max = 10;
+  const width = (max - min + 2) * CELL;
+  return [
+    { type: 'arrow', x: 0, y: 0, points: [[0, 0], [width, 0]], strokeColor: INK_COLOR, strokeWidth: 2, locked: true },
+    { type: 'arrow', x: width, y: 0, points: [[0, 0], [-width, 0]], strokeColor: INK_COLOR, strokeWidth: 2, locked: true },
+    ...Array.from({ length: max - min + 1 }, (_, i) => {
+      const x = (i + 1) * CELL;
+      return [
+        line(x, -8, 0, 16, { strokeColor: INK_COLOR }),
+        label(x - (String(min + i).length * 4), 14, String(min + i), 14),
+      ];
+    }).flat(),
+  ];
+}
+
+// Symbols in atomic-number order (index + 1 = Z)
+export const ELEMENT_SYMBOLS = (
+  'H He Li Be B C N O F Ne Na Mg Al Si P S Cl Ar K Ca Sc Ti V Cr Mn Fe Co Ni Cu Zn Ga Ge As Se Br Kr ' +
+  'Rb Sr Y Zr Nb Mo Tc Ru Rh Pd Ag Cd In Sn Sb Te I Xe Cs Ba La Ce Pr Nd Pm Sm Eu Gd Tb Dy Ho Er Tm Yb Lu ' +
+  'Hf Ta W Re Os Ir Pt Au Hg Tl Pb Bi Po At Rn Fr Ra Ac Th Pa U Np Pu Am Cm Bk Cf Es Fm Md No Lr ' +
+  'Rf Db Sg Bh Hs Mt Ds Rg Cn Nh Fl Mc Lv Ts Og'
+).split(' ');
+
+const PERIOD_STARTS = [1, 3, 11, 19, 37, 55, 87, 119];
+
+// Grid position (0-based) in the standard 18-column layout; lanthanides and
+// actinides sit in rows 8 and 9 under a one-row gap
+export function periodicTablePosition(z: number): { row: number; column: number } {
+  const period = PERIOD_STARTS.findIndex((start, i) => z >= start && z < PERIOD_STARTS[i + 1]);
+  const offset = z - PERIOD_STARTS[period];
+  if (period === 0) return { row: 0, column: z === 1 ? 0 : 17 };
+  if (period <= 2) return { row: period, column: offset < 2 ? offset : offset + 10 };
+  if (period <= 4) return { row: period, column: offset };
+  // Periods 6 and 7 carry the f-block: offsets 2–16 move to the rows below
+  if (offset < 2) return { row: period, column: offset };
+  if (offset <= 16) return { row: period + 3, column: offset + 1 };
+  return { row: period, column: offset - 14 };
+}
+
+function periodicTable(): TemplateSkeleton[] {
+  const size = 48;
+  return ELEMENT_SYMBOLS.map((symbol, i) => {
+    const { row, column } = periodicTablePosition(i + 1);
+    const x = column * size;
+    const y = row * size;
+    return [
+      { type: 'rectangle', x, y, width: size, height: size, strokeColor: GRID_COLOR, strokeWidth: 1, locked: true } as TemplateSkeleton,
+      label(x + 4, y + 2, String(i + 1), 10),
+      label(x + (symbol.length === 1 ? 18 : 13), y + 18, symbol, 18),
+    ];
+  }).flat();
+}
+
+export const WHITEBOARD_TEMPLATES: { id: WhiteboardTemplateId; label: string; build: () => TemplateSkeleton[] }[] = [
+  { id: 'graph-paper', label: 'Graph paper', build: () => gridLines(24, 16) },
+  { id: 'coordinate-axes', label: 'Coordinate axes', build: coordinateAxes },
+  { id: 'number-line', label: 'Number line', build: numberLine },
+  { id: 'periodic-table', label: 'Periodic table', build: periodicTable },
+];
+
+// Approximate extent, used to center a template in the viewport
+export function templateBounds(skeletons: TemplateSkeleton[]): { width: number; height: number } {
+  let maxX = 0;
+  let maxY = 0;
+  for (const el of skeletons) {
+    const ends = el.points?.map(([dx, dy]) => [el.x + dx, el.y + dy]) ?? [[el.x + (el.width ?? 0), el.y + (el.height ?? 0)]];
+    for (const [x, y] of ends) {
+      maxX = Math.max(maxX, x);
+      maxY = Math.max(maxY, y);
+    }
+  }
+  return { width: maxX, height: maxY };
+}
+
+export function translateTemplate(skeletons: TemplateSkeleton[], dx: number, dy: number): TemplateSkeleton[] {
+  return skeletons.map((el) => ({ ...el, x: el.x + dx, y: el.y + dy }));
+}
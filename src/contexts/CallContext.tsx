@@ -1,8 +1,7 @@
 import { createContext, useContext, useState, useCallback, useEffect, useRef, ReactNode } from 'react';
 import toast from 'react-hot-toast';
 import {
-  getSocket,
-  onSocketConnect,
+  messagesSocketEvents,
   initiateCall as socketInitiateCall,
   acceptCall as socketAcceptCall,
   rejectCall as socketRejectCall,
@@ -439,46 +438,19 @@ export function CallProvider({ children }: { children: ReactNode }) {
       }));
     };
 
-    const setupListeners = () => {
-      const socket = getSocket();
-      if (!socket) return;
-
-      // Remove ALL existing listeners first
-      socket.off('incomingCall');
-      socket.off('callAccepted');
-      socket.off('callRejected');
-      socket.off('callEnded');
-      socket.off('participantJoined');
-      socket.off('participantLeft');
-      socket.off('participantMuted');
-
-      console.log('[Call] Setting up call event listeners');
-
-      socket.on('incomingCall', handleIncomingCall);
-      socket.on('callAccepted', handleCallAccepted);
-      socket.on('callRejected', handleCallRejected);
-      socket.on('callEnded', handleCallEnded);
-      socket.on('participantJoined', handleParticipantJoined);
-      socket.on('participantLeft', handleParticipantLeft);
-      socket.on('participantMuted', handleParticipantMuted);
-    };
+    console.log('[Call] Setting up call event listeners');
 
-    setupListeners();
-    const unsubscribe = onSocketConnect(setupListeners);
+    const unsubscribers = [
+      messagesSocketEvents.on('incomingCall', handleIncomingCall),
+      messagesSocketEvents.on('callAccepted', handleCallAccepted),
+      messagesSocketEvents.on('callRejected', handleCallRejected),
+      messagesSocketEvents.on('callEnded', handleCallEnded),
+      messagesSocketEvents.on('participantJoined', handleParticipantJoined),
+      messagesSocketEvents.on('participantLeft', handleParticipantLeft),
+      messagesSocketEvents.on('participantMuted', handleParticipantMuted),
+    ];
 
-    return () => {
-      const socket = getSocket();
-      if (socket) {
-        socket.off('incomingCall');
-        socket.off('callAccepted');
-        socket.off('callRejected');
-        socket.off('callEnded');
-        socket.off('participantJoined');
-        socket.off('participantLeft');
-        socket.off('participantMuted');
-      }
-      unsubscribe();
-    };
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
   }, [playRingtone, stopRingtone, resetCallState, clearAllTimeouts]);
 
   // Cleanup on unmount
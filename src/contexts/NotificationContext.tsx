@@ -2,7 +2,7 @@ import { createContext, useContext, useEffect, useCallback, useRef, useState, Re
 import { useNavigate } from 'react-router-dom';
 import { Phone, X, Check, Bell } from 'lucide-react';
 import { useAuth } from './AuthContext';
-import { getSocket, onSocketConnect } from '../services/socket';
+import { messagesSocketEvents } from '../services/socket';
 import { 
   Role, 
   NewPendingConversationEvent, 
@@ -11,9 +11,14 @@ import {
   AvailabilityReminder,
   SessionTakenEvent,
   ConversationTakenEvent,
+  UploadReminderEvent,
+  BookingUpdatedEvent,
+  BookingReminderEvent,
+  CertificateReviewedEvent,
 } from '../types';
 import { messagesApi } from '../api';
 import { WaitingStudentModal } from '../components/queue';
+import { REJECTION_REASON_LABELS } from '../components/certificates';
 import toast from 'react-hot-toast';
 
 interface NotificationContextType {
@@ -83,9 +88,9 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
     setWaitingStudentNotification(null);
   }, []);
 
-  // Request permission on mount for tutors
+  // Request permission on mount for tutors and teachers (upload reminders)
   useEffect(() => {
-    if (isAuthenticated && user?.role === Role.TUTOR) {
+    if (isAuthenticated && (user?.role === Role.TUTOR || user?.role === Role.TEACHER)) {
       requestBrowserNotificationPermission();
     }
   }, [isAuthenticated, user?.role]);
@@ -467,74 +472,142 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
       return;
     }
 
-    let isSubscribed = true;
-
-    const setupListeners = () => {
-      const socket = getSocket();
-      if (!socket || !isSubscribed) return;
-
-      console.log('[GlobalNotification] Setting up tutor notification listeners');
-
-      // Remove existing listeners first to prevent duplicates
-      socket.off('newPendingConversation');
-      socket.off('newAssignment');
-      socket.off('waitingStudentNotification');
-      socket.off('availabilityReminder');
-      socket.off('sessionTaken');
-      socket.off('conversationTaken');
+    console.log('[GlobalNotification] Setting up tutor notification listeners');
 
+    const unsubscribers = [
       // Listen for new pending conversations
-      socket.on('newPendingConversation', (data: NewPendingConversationEvent) => {
+      messagesSocketEvents.on('newPendingConversation', (data: NewPendingConversationEvent) => {
         console.log('[GlobalNotification] Received newPendingConversation event!');
         handleNewPendingConversation(data);
-      });
-
+      }),
       // Listen for admin assignments
-      socket.on('newAssignment', (data: NewAssignmentEvent) => {
-        handleNewAssignment(data);
-      });
-
+      messagesSocketEvents.on('newAssignment', handleNewAssignment),
       // Listen for waiting student notifications (busy tutors)
-      socket.on('waitingStudentNotification', (data: WaitingStudentNotification) => {
-        handleWaitingStudentNotification(data);
-      });
-
+      messagesSocketEvents.on('waitingStudentNotification', handleWaitingStudentNotification),
       // Listen for availability reminders
-      socket.on('availabilityReminder', (data: AvailabilityReminder) => {
-        handleAvailabilityReminder(data);
-      });
-
+      messagesSocketEvents.on('availabilityReminder', handleAvailabilityReminder),
       // Listen for session taken
-      socket.on('sessionTaken', (data: SessionTakenEvent) => {
-        handleSessionTaken(data);
-      });
-
+      messagesSocketEvents.on('sessionTaken', handleSessionTaken),
       // Listen for conversation taken
-      socket.on('conversationTaken', (data: ConversationTakenEvent) => {
-        handleConversationTaken(data);
-      });
+      messagesSocketEvents.on('conversationTaken', handleConversationTaken),
+    ];
+
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [isAuthenticated, user?.role, handleNewPendingConversation, handleNewAssignment, handleWaitingStudentNotification, handleAvailabilityReminder, handleSessionTaken, handleConversationTaken]);
+
+  // Upload reminders for teachers (no daily package uploaded yet for a section)
+  useEffect(() => {
+    if (!isAuthenticated || user?.role !== Role.TEACHER) {
+      return;
+    }
+
+    return messagesSocketEvents.on('uploadReminder', (data: UploadReminderEvent) => {
+      const subject = data.subject.replace(/_/g, ' ');
+      const message = data.message || `No ${subject} upload yet for ${data.sectionName}`;
+
+      showBrowserNotification('📝 Daily Package Reminder', message, () => navigate('/dashboard/teacher'));
+
+      toast((t) => (
+        <span className="flex items-center gap-3">
+          <span>{message}</span>
+          <button
+            onClick={() => {
+              toast.dismiss(t.id);
+              navigate('/dashboard/teacher');
+            }}
+            className="text-sm font-medium text-primary-600 whitespace-nowrap"
+          >
+            Upload
+          </button>
+        </span>
+      ), { icon: '📝', duration: 15000, position: 'top-right' });
+    });
+  }, [isAuthenticated, user?.role, navigate]);
+
+  // Scheduled session bookings (students and tutors)
+  useEffect(() => {
+    if (!isAuthenticated || (user?.role !== Role.STUDENT && user?.role !== Role.TUTOR)) {
+      return;
+    }
+
+    const showBookingToast = (message: string, icon: string, duration: number) => {
+      toast((t) => (
+        <span className="flex items-center gap-3">
+          <span>{message}</span>
+          <button
+            onClick={() => {
+              toast.dismiss(t.id);
+              navigate('/bookings');
+            }}
+            className="text-sm font-medium text-primary-600 whitespace-nowrap"
+          >
+            View
+          </button>
+        </span>
+      ), { icon, duration, position: 'top-right' });
     };
 
-    // Set up immediately
-    setupListeners();
+    const offUpdated = messagesSocketEvents.on('bookingUpdated', ({ booking, action }: BookingUpdatedEvent) => {
+      const other = (user?.role === Role.TUTOR ? booking.student?.name : booking.tutor?.name) || 'Your session';
+      const when = new Date(booking.rescheduleRequest?.startAt ?? booking.startAt)
+        .toLocaleString(undefined, { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+      const messages: Record<BookingUpdatedEvent['action'], string> = {
+        CREATED: `${other} requested a session on ${when}`,
+        CONFIRMED: `${other} confirmed your session on ${when}`,
+        DECLINED: `${other} declined your session request`,
+        RESCHEDULE_REQUESTED: `${other} proposed moving your session to ${when}`,
+        RESCHEDULED: `Session with ${other} moved to ${when}`,
+        CANCELLED: `${other} cancelled the session on ${when}`,
+      };
+      showBookingToast(messages[action], '📅', 10000);
+    });
 
-    // Also set up on reconnect
-    const unsubscribe = onSocketConnect(setupListeners);
+    const offReminder = messagesSocketEvents.on('bookingReminder', (data: BookingReminderEvent) => {
+      const subject = data.subject.replace(/_/g, ' ');
+      const message = data.minutesUntilStart <= 0
+        ? `Your ${subject} session with ${data.withName} is starting`
+        : `${subject} session with ${data.withName} starts in ${data.minutesUntilStart} min`;
+
+      showBrowserNotification('📅 Session Reminder', message, () => navigate('/bookings'));
+      showBookingToast(message, '⏰', 15000);
+    });
 
     return () => {
-      isSubscribed = false;
-      const socket = getSocket();
-      if (socket) {
-        socket.off('newPendingConversation');
-        socket.off('newAssignment');
-        socket.off('waitingStudentNotification');
-        socket.off('availabilityReminder');
-        socket.off('sessionTaken');
-        socket.off('conversationTaken');
-      }
-      unsubscribe();
+      offUpdated();
+      offReminder();
     };
-  }, [isAuthenticated, user?.role, handleNewPendingConversation, handleNewAssignment, handleWaitingStudentNotification, handleAvailabilityReminder, handleSessionTaken, handleConversationTaken]);
+  }, [isAuthenticated, user?.role, navigate]);
+
+  // Certificate review decisions (tutors only)
+  useEffect(() => {
+    if (!isAuthenticated || user?.role !== Role.TUTOR) {
+      return;
+    }
+
+    return messagesSocketEvents.on('certificateReviewed', (data: CertificateReviewedEvent) => {
+      const approved = data.status === 'APPROVED';
+      const name = data.certificateName || 'Your certificate';
+      const message = approved
+        ? `${name} was verified`
+        : `${name} was rejected: ${data.reason ? REJECTION_REASON_LABELS[data.reason] : 'see your profile for details'}`;
+
+      showBrowserNotification(approved ? '✅ Certificate Verified' : '⚠️ Certificate Rejected', message, () => navigate('/profile'));
+      toast((t) => (
+        <span className="flex items-center gap-3">
+          <span>{message}</span>
+          <button
+            onClick={() => {
+              toast.dismiss(t.id);
+              navigate('/profile');
+            }}
+            className="text-sm font-medium text-primary-600 whitespace-nowrap"
+          >
+            View
+          </button>
+        </span>
+      ), { icon: approved ? '✅' : '⚠️', duration: approved ? 8000 : 15000, position: 'top-right' });
+    });
+  }, [isAuthenticated, user?.role, navigate]);
 
   const requestNotificationPermission = useCallback(async () => {
     return requestBrowserNotificationPermission();
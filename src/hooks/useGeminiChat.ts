@@ -1,25 +1,33 @@
 import { useEffect, useCallback, useMemo, useRef, useState } from 'react';
 import {
   connectGeminiSocket,
-  onGeminiSocketConnect,
   joinGeminiSession,
   leaveGeminiSession,
   onStreamChunk,
-  offStreamChunk,
   onTutorStatusUpdate,
-  offTutorStatusUpdate,
   onTutorConnected,
-  offTutorConnected,
   onTutorWaitUpdate,
-  offTutorWaitUpdate,
   onCouncilStatus,
-  offCouncilStatus,
   onCouncilMemberComplete,
-  offCouncilMemberComplete,
   onCouncilSynthesisStart,
-  offCouncilSynthesisStart,
   cancelGeminiStream,
+  reconnectStream,
+  getGeminiSocket,
+  onGeminiSocketConnect,
 } from '../services/geminiSocket';
+import {
+  NEW_SESSION_KEY,
+  OutboxMessage,
+  OutboxSendOptions,
+  addToOutbox,
+  listOutbox,
+  removeFromOutbox,
+  requeueOutboxMessage,
+  flushOutbox as flushQueuedMessages,
+  onOutboxChange,
+  isOfflineError,
+  isQueued,
+} from '../services/chatOutbox';
 import {
   StreamChunk,
   TutorStatusUpdateEvent,
@@ -31,7 +39,24 @@ import {
   AIChatSession,
   AIChatMode,
 } from '../types';
+import {
+  SavedStreamState,
+  loadStreamState,
+  saveStreamState,
+  updateStreamState,
+  clearStreamState,
+} from '../services/streamResume';
+import type { ReconnectStreamResponse } from '../services/geminiSocket';
 import { geminiChatApi } from '../api';
+import type { SendMessageResponse } from '../api/geminiChat';
+
+// Messages sent while offline resolve as queued instead of failing
+export type SendMessageResult =
+  | { queued?: false; messageId: string; sessionId: string }
+  | { queued: true; outboxId: string };
+
+// How long replay waits for an answer before sending the next queued message
+const OUTBOX_STREAM_WAIT_MS = 180000;
 
 interface UseGeminiChatOptions {
   sessionId?: string;
@@ -45,6 +70,8 @@ interface UseGeminiChatOptions {
   onCouncilStatus?: (data: CouncilStatusEvent) => void;
   onCouncilMemberComplete?: (data: CouncilMemberCompleteEvent) => void;
   onCouncilSynthesisStart?: (data: CouncilSynthesisStartEvent) => void;
+  onOutboxSent?: (message: OutboxMessage, result: { messageId: string; sessionId: string }) => void;
+  onOutboxFailed?: (message: OutboxMessage, error: unknown) => void;
 }
 
 export function useGeminiChat({
@@ -59,6 +86,8 @@ export function useGeminiChat({
   onCouncilStatus: onCouncilStatusCallback,
   onCouncilMemberComplete: onCouncilMemberCompleteCallback,
   onCouncilSynthesisStart: onCouncilSynthesisStartCallback,
+  onOutboxSent,
+  onOutboxFailed,
 }: UseGeminiChatOptions = {}) {
   const [isConnected, setIsConnected] = useState(false);
   const [isStreaming, setIsStreaming] = useState(false);
@@ -80,7 +109,16 @@ export function useGeminiChat({
   const [streamProvider, setStreamProvider] = useState<string | null>(null);
   const [activeStreamId, setActiveStreamId] = useState<string | null>(null);
   const [isStalled, setIsStalled] = useState(false);
+  const [outboxMessages, setOutboxMessages] = useState<OutboxMessage[]>([]);
+  const outboxMessagesRef = useRef<OutboxMessage[]>([]);
+  // Set after a disconnect so sends go straight to the outbox until reconnect
+  const socketLostRef = useRef(false);
+  // Sessions whose stream last settled (end/error), for pacing outbox replay
+  const streamSettledAtRef = useRef(new Map<string, number>());
+  const streamSettleWaitersRef = useRef(new Map<string, () => void>());
   const streamingMessageIdRef = useRef<string | null>(null);
+  // After resuming from a snapshot, take the next cumulative chunk wholesale
+  const resyncOnNextChunkRef = useRef(false);
   const sessionIdRef = useRef(sessionId);
   const expectingStreamRef = useRef(false);
 
@@ -95,7 +133,8 @@ export function useGeminiChat({
   const onCouncilStatusRef = useRef(onCouncilStatusCallback);
   const onCouncilMemberCompleteRef = useRef(onCouncilMemberCompleteCallback);
   const onCouncilSynthesisStartRef = useRef(onCouncilSynthesisStartCallback);
-  const streamChunkHandlerRef = useRef<((chunk: StreamChunk) => void) | null>(null);
+  const onOutboxSentRef = useRef(onOutboxSent);
+  const onOutboxFailedRef = useRef(onOutboxFailed);
   const preserveContentOnNextStartRef = useRef(false);
 
   // Update refs when callbacks change
@@ -110,6 +149,8 @@ export function useGeminiChat({
     onCouncilStatusRef.current = onCouncilStatusCallback;
     onCouncilMemberCompleteRef.current = onCouncilMemberCompleteCallback;
     onCouncilSynthesisStartRef.current = onCouncilSynthesisStartCallback;
+    onOutboxSentRef.current = onOutboxSent;
+    onOutboxFailedRef.current = onOutboxFailed;
   }, [
     onStreamStart,
     onStreamChunkCallback,
@@ -121,6 +162,8 @@ export function useGeminiChat({
     onCouncilStatusCallback,
     onCouncilMemberCompleteCallback,
     onCouncilSynthesisStartCallback,
+    onOutboxSent,
+    onOutboxFailed,
   ]);
 
   // Tick while streaming/waiting so UI status can update without events
@@ -141,6 +184,7 @@ export function useGeminiChat({
 
     const handleConnect = () => {
       setIsConnected(true);
+      socketLostRef.current = false;
 
       // Only try stream recovery on RE-connects (not first connect)
       if (!hasConnectedBefore) {
@@ -156,6 +200,7 @@ export function useGeminiChat({
           rs({ messageId: msgId }, (response) => {
             if (response.success && response.complete) {
               // Stream finished while we were disconnected — fire end logic
+              if (response.sessionId) clearStreamState('gemini', response.sessionId);
               setIsStreaming(false);
               setIsWaitingForStream(false);
               expectingStreamRef.current = false;
@@ -184,8 +229,13 @@ export function useGeminiChat({
       }
     };
 
+    const handleDisconnect = () => {
+      setIsConnected(false);
+      socketLostRef.current = true;
+    };
+
     socket.on('connect', handleConnect);
-    socket.on('disconnect', () => setIsConnected(false));
+    socket.on('disconnect', handleDisconnect);
 
     // Check if already connected
     if (socket.connected) {
@@ -194,7 +244,7 @@ export function useGeminiChat({
 
     return () => {
       socket.off('connect', handleConnect);
-      socket.off('disconnect');
+      socket.off('disconnect', handleDisconnect);
     };
   }, []);
 
@@ -214,6 +264,12 @@ export function useGeminiChat({
         lastCleanup = Date.now();
       }
 
+      // Track settled streams for every session so outbox replay can pace itself
+      if (chunk.type === 'end' || chunk.type === 'error') {
+        streamSettledAtRef.current.set(chunk.sessionId, Date.now());
+        streamSettleWaitersRef.current.get(chunk.sessionId)?.();
+      }
+
       // Only process chunks for the current session
       // If we have a sessionId, filter by it
       if (sessionIdRef.current && chunk.sessionId && chunk.sessionId !== sessionIdRef.current) return;
@@ -247,6 +303,13 @@ export function useGeminiChat({
           streamingMessageIdRef.current = chunk.messageId;
           setActiveStreamId(chunk.streamId || null);
           setIsStalled(false);
+          resyncOnNextChunkRef.current = false;
+          saveStreamState('gemini', {
+            streamId: chunk.streamId || null,
+            messageId: chunk.messageId,
+            sessionId: chunk.sessionId,
+            mode: chunk.mode,
+          });
           onStreamStartRef.current?.(chunk.messageId, chunk.sessionId);
           break;
 
@@ -255,7 +318,12 @@ export function useGeminiChat({
           setIsStalled(false);
           // Only append the delta (content). Never use fullContent here —
           // it's the cumulative text and would cause the stream to "repeat".
-          if (typeof chunk.content === 'string' && chunk.content.length > 0) {
+          // The one exception is the first chunk after resuming from a
+          // snapshot, where it realigns us with the server.
+          if (resyncOnNextChunkRef.current && typeof chunk.fullContent === 'string') {
+            resyncOnNextChunkRef.current = false;
+            setStreamingContent(chunk.fullContent);
+          } else if (typeof chunk.content === 'string' && chunk.content.length > 0) {
             setStreamingContent((prev) => prev + chunk.content);
           }
           onStreamChunkRef.current?.(chunk);
@@ -278,6 +346,12 @@ export function useGeminiChat({
           if (chunk.sources) {
             setStreamSources(chunk.sources);
           }
+          if (chunk.thinkingTrace || chunk.sources) {
+            updateStreamState('gemini', chunk.sessionId, {
+              ...(chunk.thinkingTrace && { thinkingTrace: chunk.thinkingTrace }),
+              ...(chunk.sources && { sources: chunk.sources }),
+            });
+          }
           onStreamChunkRef.current?.(chunk);
           break;
 
@@ -302,6 +376,7 @@ export function useGeminiChat({
           setLastStreamEventAtMs(null);
           setLastRealChunkAtMs(null);
           setCouncilMembers([]);
+          clearStreamState('gemini', chunk.sessionId);
           onStreamEndRef.current?.(chunk);
           break;
 
@@ -316,28 +391,14 @@ export function useGeminiChat({
           setStreamStartedAtMs(null);
           setLastStreamEventAtMs(null);
           setLastRealChunkAtMs(null);
+          clearStreamState('gemini', chunk.sessionId);
           onStreamErrorRef.current?.(chunk);
           break;
       }
     };
 
-    streamChunkHandlerRef.current = handleStreamChunk;
-    onStreamChunk(handleStreamChunk);
-
-    // On reconnect, remove old listener first to avoid duplicate registrations
-    const unsubscribe = onGeminiSocketConnect(() => {
-      if (streamChunkHandlerRef.current) {
-        offStreamChunk(streamChunkHandlerRef.current);
-        onStreamChunk(streamChunkHandlerRef.current);
-      }
-    });
-
-    return () => {
-      if (streamChunkHandlerRef.current) {
-        offStreamChunk(streamChunkHandlerRef.current);
-      }
-      unsubscribe();
-    };
+    // The typed client re-binds this handler whenever the socket reconnects
+    return onStreamChunk(handleStreamChunk);
   }, []);
 
   // Handle tutor status events
@@ -354,15 +415,13 @@ export function useGeminiChat({
       onTutorWaitUpdateRef.current?.(data);
     };
 
-    onTutorStatusUpdate(handleTutorStatusUpdate);
-    onTutorConnected(handleTutorConnected);
-    onTutorWaitUpdate(handleTutorWaitUpdate);
+    const unsubscribers = [
+      onTutorStatusUpdate(handleTutorStatusUpdate),
+      onTutorConnected(handleTutorConnected),
+      onTutorWaitUpdate(handleTutorWaitUpdate),
+    ];
 
-    return () => {
-      offTutorStatusUpdate(handleTutorStatusUpdate);
-      offTutorConnected(handleTutorConnected);
-      offTutorWaitUpdate(handleTutorWaitUpdate);
-    };
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
   }, []);
 
   // Handle council mode events
@@ -388,15 +447,13 @@ export function useGeminiChat({
       onCouncilSynthesisStartRef.current?.(data);
     };
 
-    onCouncilStatus(handleCouncilStatus);
-    onCouncilMemberComplete(handleCouncilMemberComplete);
-    onCouncilSynthesisStart(handleCouncilSynthesisStart);
+    const unsubscribers = [
+      onCouncilStatus(handleCouncilStatus),
+      onCouncilMemberComplete(handleCouncilMemberComplete),
+      onCouncilSynthesisStart(handleCouncilSynthesisStart),
+    ];
 
-    return () => {
-      offCouncilStatus(handleCouncilStatus);
-      offCouncilMemberComplete(handleCouncilMemberComplete);
-      offCouncilSynthesisStart(handleCouncilSynthesisStart);
-    };
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
   }, []);
 
   // Keep sessionId ref in sync
@@ -415,13 +472,171 @@ export function useGeminiChat({
     };
   }, [sessionId, isConnected]);
 
+  // ============================================
+  // Offline outbox
+  // ============================================
+
+  // Keep the pending messages of the open session in sync with the store
+  useEffect(() => {
+    const sessionKey = sessionId || NEW_SESSION_KEY;
+    let cancelled = false;
+
+    const refresh = () => {
+      listOutbox(sessionKey)
+        .then((pending) => {
+          if (cancelled) return;
+          outboxMessagesRef.current = pending;
+          setOutboxMessages(pending);
+        })
+        .catch((error) => console.error('[useGeminiChat] Failed to read outbox:', error));
+    };
+
+    refresh();
+    const unsubscribe = onOutboxChange(refresh);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [sessionId]);
+
+  const waitForStreamToSettle = (targetSessionId: string, sentAt: number) =>
+    new Promise<void>((resolve) => {
+      // The answer may already be done by the time the REST call returned
+      if ((streamSettledAtRef.current.get(targetSessionId) ?? 0) >= sentAt) {
+        resolve();
+        return;
+      }
+      const done = () => {
+        window.clearTimeout(timer);
+        streamSettleWaitersRef.current.delete(targetSessionId);
+        resolve();
+      };
+      const timer = window.setTimeout(done, OUTBOX_STREAM_WAIT_MS);
+      streamSettleWaitersRef.current.set(targetSessionId, done);
+    });
+
+  // Replay queued messages oldest first, one answer at a time per session.
+  // Rejected messages stay in the outbox as failed bubbles.
+  const flushOutbox = useCallback(async () => {
+    let sentAt = 0;
+    const isOpenSession = (entry: OutboxMessage) =>
+      entry.sessionKey === (sessionIdRef.current || NEW_SESSION_KEY);
+    const stopWaiting = (entry: OutboxMessage) => {
+      if (!isOpenSession(entry)) return;
+      setIsWaitingForStream(false);
+      expectingStreamRef.current = false;
+    };
+
+    try {
+      await flushQueuedMessages({
+        send: async (entry) => {
+          const targetSessionId = entry.sessionKey === NEW_SESSION_KEY ? undefined : entry.sessionKey;
+          const response: SendMessageResponse = entry.files.length > 0
+            ? await geminiChatApi.sendMessageWithAttachments(
+                entry.files,
+                entry.content || undefined,
+                targetSessionId,
+                undefined,
+                entry.options
+              )
+            : await geminiChatApi.sendMessage({
+                content: entry.content,
+                sessionId: targetSessionId,
+                stream: true,
+                ...entry.options,
+              });
+          return { messageId: response.messageId, sessionId: response.sessionId };
+        },
+        onSending: (entry) => {
+          sentAt = Date.now();
+          if (isOpenSession(entry)) {
+            setIsWaitingForStream(true);
+            expectingStreamRef.current = true;
+            setThinkingTrace([]);
+          }
+        },
+        onSent: async (entry, result) => {
+          onOutboxSentRef.current?.(entry, result);
+          const next = (await listOutbox()).find(isQueued);
+          if (next?.sessionKey === result.sessionId) {
+            await waitForStreamToSettle(result.sessionId, sentAt);
+          }
+        },
+        onFailed: (entry, error) => {
+          console.error('[useGeminiChat] Queued message rejected:', error);
+          stopWaiting(entry);
+          onOutboxFailedRef.current?.(entry, error);
+        },
+        // Still offline - everything stays queued for the next reconnect
+        onOffline: stopWaiting,
+      });
+    } catch (error) {
+      console.error('[useGeminiChat] Failed to replay outbox:', error);
+    }
+  }, []);
+
+  // Fires immediately when already connected, and again on every reconnect
+  useEffect(() => onGeminiSocketConnect(() => { flushOutbox(); }), [flushOutbox]);
+
+  const queueMessage = useCallback(
+    async (
+      content: string,
+      files: File[],
+      targetSessionId: string | undefined,
+      options?: OutboxSendOptions
+    ): Promise<SendMessageResult | null> => {
+      setIsWaitingForStream(false);
+      expectingStreamRef.current = false;
+      try {
+        const entry = await addToOutbox({
+          sessionKey: targetSessionId || NEW_SESSION_KEY,
+          content,
+          files,
+          options,
+        });
+        // Connection is fine but older messages are still queued - send in order
+        if (getGeminiSocket()?.connected && !socketLostRef.current) flushOutbox();
+        return { queued: true, outboxId: entry.id };
+      } catch (error) {
+        console.error('[useGeminiChat] Failed to queue message:', error);
+        return null;
+      }
+    },
+    [flushOutbox]
+  );
+
+  // Offline, socket dropped, or earlier messages still waiting in this chat
+  const shouldQueue = () =>
+    socketLostRef.current || !navigator.onLine || outboxMessagesRef.current.some(isQueued);
+
+  const discardOutboxMessage = useCallback(async (outboxId: string) => {
+    try {
+      await removeFromOutbox(outboxId);
+    } catch (error) {
+      console.error('[useGeminiChat] Failed to discard queued message:', error);
+    }
+  }, []);
+
+  // Put a failed message back in line, optionally with edited text
+  const resendOutboxMessage = useCallback(async (outboxId: string, content?: string) => {
+    try {
+      await requeueOutboxMessage(outboxId, content);
+      if (getGeminiSocket()?.connected && !socketLostRef.current) flushOutbox();
+    } catch (error) {
+      console.error('[useGeminiChat] Failed to resend queued message:', error);
+    }
+  }, [flushOutbox]);
+
   // Send message via API (streaming happens via socket)
   const sendMessage = useCallback(
     async (
       content: string,
       targetSessionId?: string,
-      options?: { deepThink?: boolean; deepResearch?: boolean; council?: boolean; projectId?: string; readAloud?: boolean }
-    ): Promise<{ messageId: string; sessionId: string } | null> => {
+      options?: OutboxSendOptions
+    ): Promise<SendMessageResult | null> => {
+      if (shouldQueue()) {
+        return queueMessage(content, [], targetSessionId || sessionId, options);
+      }
       try {
         setIsWaitingForStream(true);
         expectingStreamRef.current = true;
@@ -438,13 +653,16 @@ export function useGeminiChat({
           sessionId: response.sessionId,
         };
       } catch (error) {
+        if (isOfflineError(error)) {
+          return queueMessage(content, [], targetSessionId || sessionId, options);
+        }
         console.error('[useGeminiChat] Failed to send message:', error);
         setIsWaitingForStream(false);
         expectingStreamRef.current = false;
         return null;
       }
     },
-    [sessionId]
+    [sessionId, queueMessage]
   );
 
   // Send message with attachments
@@ -453,8 +671,11 @@ export function useGeminiChat({
       files: File[],
       content?: string,
       targetSessionId?: string,
-      options?: { deepThink?: boolean; deepResearch?: boolean; council?: boolean; projectId?: string; readAloud?: boolean }
-    ): Promise<{ messageId: string; sessionId: string } | null> => {
+      options?: OutboxSendOptions
+    ): Promise<SendMessageResult | null> => {
+      if (shouldQueue()) {
+        return queueMessage(content || '', files, targetSessionId || sessionId, options);
+      }
       try {
         setIsWaitingForStream(true);
         expectingStreamRef.current = true;
@@ -472,13 +693,16 @@ export function useGeminiChat({
           sessionId: response.sessionId,
         };
       } catch (error) {
+        if (isOfflineError(error)) {
+          return queueMessage(content || '', files, targetSessionId || sessionId, options);
+        }
         console.error('[useGeminiChat] Failed to send attachments:', error);
         setIsWaitingForStream(false);
         expectingStreamRef.current = false;
         return null;
       }
     },
-    [sessionId]
+    [sessionId, queueMessage]
   );
 
   // Send audio message
@@ -549,46 +773,108 @@ export function useGeminiChat({
     }
   }, []);
 
+  // Rebuild streaming state from a reconnect snapshot plus what we saved locally
+  const applyResumedStream = useCallback((response: ReconnectStreamResponse, saved: SavedStreamState | null) => {
+    const trace = response.thinkingTrace ?? saved?.thinkingTrace;
+    const sources = response.sources ?? saved?.sources;
+    const mode = response.mode ?? saved?.mode;
+    if (trace) setThinkingTrace(trace);
+    if (sources) setStreamSources(sources);
+    if (mode) setStreamMode(mode);
+    if (response.provider) setStreamProvider(response.provider);
+
+    if (!response.complete && response.isStreaming) {
+      const content = response.content || '';
+      setIsStreaming(true);
+      setIsWaitingForStream(false);
+      setStreamingContent(content);
+      setStreamingMessageId(response.messageId || null);
+      streamingMessageIdRef.current = response.messageId || null;
+      setActiveStreamId(saved?.streamId ?? null);
+      setStreamStartedAtMs(Date.now());
+      resyncOnNextChunkRef.current = true;
+    } else if (response.complete && saved) {
+      clearStreamState('gemini', saved.sessionId);
+    }
+  }, []);
+
+  // Socket unavailable: read the buffered answer over REST using the saved streamId
+  const restoreFromStreamState = useCallback(
+    async (saved: SavedStreamState): Promise<ReconnectStreamResponse> => {
+      if (!saved.streamId) return { success: false };
+      try {
+        const state = await geminiChatApi.getStreamState(saved.streamId);
+        if (!state.found) {
+          clearStreamState('gemini', saved.sessionId);
+          return { success: false };
+        }
+        const response: ReconnectStreamResponse = {
+          success: true,
+          content: state.content,
+          complete: state.complete,
+          isStreaming: !state.complete,
+          messageId: saved.messageId,
+          sessionId: saved.sessionId,
+          mode: saved.mode,
+          thinkingTrace: saved.thinkingTrace,
+          sources: saved.sources,
+        };
+        applyResumedStream(response, saved);
+        return response;
+      } catch (error) {
+        console.error('[useGeminiChat] Failed to fetch stream state:', error);
+        return { success: false };
+      }
+    },
+    [applyResumedStream]
+  );
+
   // Reconnect to an in-progress or completed stream (e.g. after page reload)
   const reconnectToStream = useCallback((data: { messageId?: string; sessionId?: string }) => {
-    return new Promise<import('../services/geminiSocket').ReconnectStreamResponse>((resolve) => {
-      import('../services/geminiSocket').then(({ reconnectStream: rs, getGeminiSocket, onGeminiSocketConnect }) => {
-        const attempt = () => {
-          rs(data, (response) => {
-            if (response.success) {
-              if (response.thinkingTrace) setThinkingTrace(response.thinkingTrace);
-              if (response.mode) setStreamMode(response.mode);
-              if (response.provider) setStreamProvider(response.provider);
-
-              if (!response.complete && response.isStreaming) {
-                setIsStreaming(true);
-                setStreamingContent(response.content || '');
-                setStreamingMessageId(response.messageId || null);
-                setStreamStartedAtMs(Date.now());
-              }
-            }
+    const saved = data.sessionId ? loadStreamState('gemini', data.sessionId) : null;
+    const request = { ...data, messageId: data.messageId || saved?.messageId };
+
+    return new Promise<ReconnectStreamResponse>((resolve) => {
+      const fallback = () => {
+        if (saved) restoreFromStreamState(saved).then(resolve);
+        else resolve({ success: false });
+      };
+
+      const attempt = () => {
+        reconnectStream(request, (response) => {
+          if (response.success) {
+            applyResumedStream(response, saved);
             resolve(response);
-          });
-        };
+          } else {
+            fallback();
+          }
+        });
+      };
 
-        // If socket is already connected, attempt immediately
-        if (getGeminiSocket()?.connected) {
-          attempt();
-        } else {
-          // Wait for socket to connect, then attempt
-          const unsub = onGeminiSocketConnect(() => {
-            unsub();
-            attempt();
-          });
-          // Timeout after 8s so we don't hang forever
-          setTimeout(() => {
-            unsub();
-            resolve({ success: false });
-          }, 8000);
-        }
+      // If socket is already connected, attempt immediately
+      if (getGeminiSocket()?.connected) {
+        attempt();
+        return;
+      }
+
+      // Wait for socket to connect, then attempt
+      let settled = false;
+      const unsub = onGeminiSocketConnect(() => {
+        if (settled) return;
+        settled = true;
+        unsub();
+        window.clearTimeout(timer);
+        attempt();
       });
+      // After 8s fall back to the REST snapshot so we don't hang forever
+      const timer = window.setTimeout(() => {
+        if (settled) return;
+        settled = true;
+        unsub();
+        fallback();
+      }, 8000);
     });
-  }, []);
+  }, [applyResumedStream, restoreFromStreamState]);
 
   const streamUx = useMemo(() => {
     const now = Date.now();
@@ -675,6 +961,9 @@ export function useGeminiChat({
     sendAudioMessage,
     retryMessage,
     addFeedback,
+    outboxMessages,
+    discardOutboxMessage,
+    resendOutboxMessage,
   };
 }
 
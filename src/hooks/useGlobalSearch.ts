@@ -0,0 +1,274 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { geminiChatApi, projectsApi, messagesApi } from '../api';
+import { useAuth } from '../contexts/AuthContext';
+import { AIChatSession, Role } from '../types';
+import { tokenizeQuery, scoreText } from '../components/search/searchText';
+
+// ============================================
+// Global message search
+// ============================================
+//
+// The backend only filters sessions by title, so message content is indexed
+// client-side: recent sessions from each source are fetched once when the
+// palette opens and cached for a few minutes. Older AI chats are indexed a
+// page at a time when the user asks for them.
+
+export type SearchSource = 'ai' | 'project' | 'conversation';
+
+export interface SearchDocument {
+  source: SearchSource;
+  messageId: string;
+  containerId: string;
+  projectId?: string;
+  title: string;
+  author: string;
+  content: string;
+  createdAt: string;
+}
+
+export interface SearchResult extends SearchDocument {
+  score: number;
+}
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+const MAX_AI_SESSIONS = 30;
+const MAX_PROJECTS = 10;
+const MAX_CONVERSATIONS = 30;
+const FETCH_CONCURRENCY = 4;
+const RESULTS_PER_SOURCE = 8;
+
+interface AiSessionPages {
+  loaded: number;
+  total: number;
+}
+
+interface SearchCache {
+  userId: string;
+  builtAt: number;
+  documents: SearchDocument[];
+  aiPages: AiSessionPages;
+}
+
+const NO_AI_PAGES: AiSessionPages = { loaded: 0, total: 0 };
+
+let cache: SearchCache | null = null;
+
+// Run loaders a few at a time so opening the palette doesn't flood the API
+async function runLimited(tasks: Array<() => Promise<void>>, limit: number) {
+  let next = 0;
+  const worker = async () => {
+    while (next < tasks.length) {
+      const task = tasks[next++];
+      await task().catch((error) => console.warn('[useGlobalSearch] Indexing step failed:', error));
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, tasks.length) }, worker));
+}
+
+// One task per AI session, each indexing that session's messages
+function aiSessionTasks(sessions: AIChatSession[], push: (docs: SearchDocument[]) => void) {
+  return sessions.map((session) => async () => {
+    const { messages } = await geminiChatApi.getSession(session.id);
+    push(
+      messages
+        .filter((m) => m.content)
+        .map((m) => ({
+          source: 'ai' as const,
+          messageId: m.id,
+          containerId: session.id,
+          title: session.title || 'Untitled chat',
+          author: m.role === 'USER' ? 'You' : 'AI',
+          content: m.content!,
+          createdAt: m.createdAt,
+        }))
+    );
+  });
+}
+
+export function useGlobalSearch(query: string, enabled: boolean) {
+  const { user } = useAuth();
+  const [documents, setDocuments] = useState<SearchDocument[]>(cache?.documents ?? []);
+  const [isIndexing, setIsIndexing] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [aiPages, setAiPages] = useState<AiSessionPages>(cache?.aiPages ?? NO_AI_PAGES);
+  const buildIdRef = useRef(0);
+
+  const buildIndex = useCallback(async () => {
+    if (!user) return;
+    if (cache && cache.userId === user.id && Date.now() - cache.builtAt < CACHE_TTL_MS) {
+      setDocuments(cache.documents);
+      setAiPages(cache.aiPages);
+      return;
+    }
+
+    const buildId = ++buildIdRef.current;
+    const collected: SearchDocument[] = [];
+    const tasks: Array<() => Promise<void>> = [];
+    let pages = NO_AI_PAGES;
+    setIsIndexing(true);
+    setDocuments([]);
+    setAiPages(NO_AI_PAGES);
+
+    const push = (docs: SearchDocument[]) => {
+      collected.push(...docs);
+      if (buildId === buildIdRef.current) {
+        setDocuments([...collected]);
+        setProgress((p) => ({ ...p, done: p.done + 1 }));
+      }
+    };
+
+    try {
+      // AI chat sessions (everyone with /chat access)
+      if (user.role !== Role.ADMIN) {
+        const { sessions, totalPages } = await geminiChatApi.getSessions({ page: 1, limit: MAX_AI_SESSIONS });
+        pages = { loaded: 1, total: totalPages };
+        tasks.push(...aiSessionTasks(sessions, push));
+      }
+
+      // Project chat sessions
+      if ([Role.STUDENT, Role.TEACHER, Role.TUTOR].includes(user.role)) {
+        const { projects } = await projectsApi.getProjects({ limit: MAX_PROJECTS });
+        const sessionLists = await Promise.all(
+          projects.map((p) => projectsApi.getChatSessions(p.id).then((s) => ({ project: p, sessions: s })).catch(() => null))
+        );
+        sessionLists.forEach((entry) => {
+          entry?.sessions.forEach((session) => {
+            tasks.push(async () => {
+              const { messages } = await projectsApi.getChatSession(entry.project.id, session.id);
+              push(
+                messages
+                  .filter((m) => m.content && m.role !== 'SYSTEM')
+                  .map((m) => ({
+                    source: 'project' as const,
+                    messageId: m.id,
+                    containerId: session.id,
+                    projectId: entry.project.id,
+                    title: `${entry.project.title} · ${session.title || 'Chat'}`,
+                    author: m.role === 'USER' ? 'You' : 'AI',
+                    content: m.content!,
+                    createdAt: m.createdAt,
+                  }))
+              );
+            });
+          });
+        });
+      }
+
+      // Legacy tutor conversations
+      if (user.role === Role.STUDENT || user.role === Role.TUTOR) {
+        const { data: conversations } = await messagesApi.getConversations(1, MAX_CONVERSATIONS);
+        conversations.forEach((conversation) => {
+          tasks.push(async () => {
+            const full = await messagesApi.getConversation(conversation.id);
+            const title = conversation.topic || conversation.subject.replace(/_/g, ' ').toLowerCase();
+            push(
+              (full.messages || [])
+                .filter((m) => m.content && !m.isSystemMessage)
+                .map((m) => ({
+                  source: 'conversation' as const,
+                  messageId: m.id,
+                  containerId: conversation.id,
+                  title,
+                  author: m.senderId === user.id ? 'You' : m.senderType === 'TUTOR' ? 'Tutor' : 'Student',
+                  content: m.content!,
+                  createdAt: m.createdAt,
+                }))
+            );
+          });
+        });
+      }
+
+      setProgress({ done: 0, total: tasks.length });
+      await runLimited(tasks, FETCH_CONCURRENCY);
+
+      if (buildId === buildIdRef.current) {
+        cache = { userId: user.id, builtAt: Date.now(), documents: collected, aiPages: pages };
+        setAiPages(pages);
+      }
+    } catch (error) {
+      console.error('[useGlobalSearch] Failed to build search index:', error);
+    } finally {
+      if (buildId === buildIdRef.current) setIsIndexing(false);
+    }
+  }, [user]);
+
+  // Index the next page of older AI chats into the existing results
+  const loadOlder = useCallback(async () => {
+    if (!user || !cache || isIndexing || cache.aiPages.loaded >= cache.aiPages.total) return;
+
+    const buildId = buildIdRef.current;
+    const base = cache;
+    const collected: SearchDocument[] = [...base.documents];
+    setIsIndexing(true);
+
+    const push = (docs: SearchDocument[]) => {
+      collected.push(...docs);
+      if (buildId === buildIdRef.current) {
+        setDocuments([...collected]);
+        setProgress((p) => ({ ...p, done: p.done + 1 }));
+      }
+    };
+
+    try {
+      const page = base.aiPages.loaded + 1;
+      const { sessions, totalPages } = await geminiChatApi.getSessions({ page, limit: MAX_AI_SESSIONS });
+      const tasks = aiSessionTasks(sessions, push);
+      setProgress({ done: 0, total: tasks.length });
+      await runLimited(tasks, FETCH_CONCURRENCY);
+
+      if (buildId === buildIdRef.current) {
+        const pages = { loaded: page, total: totalPages };
+        cache = { ...base, documents: collected, aiPages: pages };
+        setAiPages(pages);
+      }
+    } catch (error) {
+      console.error('[useGlobalSearch] Failed to index older chats:', error);
+    } finally {
+      if (buildId === buildIdRef.current) setIsIndexing(false);
+    }
+  }, [user, isIndexing]);
+
+  useEffect(() => {
+    if (enabled) buildIndex();
+  }, [enabled, buildIndex]);
+
+  const results = useMemo(() => {
+    const terms = tokenizeQuery(query);
+    const grouped: Record<SearchSource, SearchResult[]> = { ai: [], project: [], conversation: [] };
+    if (terms.length === 0) return grouped;
+
+    documents.forEach((doc) => {
+      const contentScore = scoreText(doc.content, terms);
+      if (contentScore === 0) return;
+      // Title hits only boost; every message in a matching session isn't a result
+      grouped[doc.source].push({ ...doc, score: contentScore * 2 + scoreText(doc.title, terms) });
+    });
+
+    (Object.keys(grouped) as SearchSource[]).forEach((source) => {
+      grouped[source] = grouped[source]
+        .sort((a, b) => b.score - a.score || b.createdAt.localeCompare(a.createdAt))
+        .slice(0, RESULTS_PER_SOURCE);
+    });
+    return grouped;
+  }, [documents, query]);
+
+  // Only part of the history is searched until every AI page is loaded
+  const hasOlder = aiPages.loaded < aiPages.total;
+
+  return { results, isIndexing, progress, hasOlder, loadOlder };
+}
+
+// Route that opens the message's chat and scrolls to it
+export function getSearchResultPath(result: SearchDocument): string {
+  const message = encodeURIComponent(result.messageId);
+  switch (result.source) {
+    case 'ai':
+      return `/chat?session=${result.containerId}&message=${message}`;
+    case 'project':
+      return `/projects/${result.projectId}?session=${result.containerId}&message=${message}`;
+    case 'conversation':
+      return `/conversations/${result.containerId}?message=${message}`;
+  }
+}
+
+export default useGlobalSearch;
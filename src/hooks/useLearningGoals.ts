@@ -0,0 +1,70 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { goalsApi } from '../api';
+import { CreateLearningGoalRequest, LearningActivity, LearningGoal } from '../types';
+import { activeDays, activityWindowStart, computeStreak, goalProgress } from '../components/goals/goals';
+import { browserTimezone } from '../components/availability/availability';
+
+// ============================================
+// Learning goals and streaks
+// ============================================
+//
+// The server stores goals and returns the days with any activity; progress
+// against each goal and the streak (with freezes) are worked out here so
+// every screen agrees on the same numbers. Raw activity is only fetched for
+// the goal periods currently running.
+
+export function useLearningGoals(enabled = true) {
+  const [goals, setGoals] = useState<LearningGoal[]>([]);
+  const [activity, setActivity] = useState<LearningActivity[]>([]);
+  const [dayKeys, setDayKeys] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(enabled);
+
+  const loadActivity = useCallback(async (goalList: LearningGoal[]) => {
+    const from = activityWindowStart(goalList);
+    setActivity(from ? await goalsApi.getActivity(from.toISOString()) : []);
+  }, []);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [goalList, days] = await Promise.all([
+        goalsApi.getGoals(),
+        goalsApi.getActiveDays(browserTimezone()),
+      ]);
+      setGoals(goalList);
+      setDayKeys(days);
+      await loadActivity(goalList);
+    } catch (error) {
+      console.warn('[useLearningGoals] Failed to load goals:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [loadActivity]);
+
+  useEffect(() => {
+    if (enabled) refresh();
+  }, [enabled, refresh]);
+
+  const progress = useMemo(() => goals.map((goal) => goalProgress(goal, activity)), [goals, activity]);
+  // Activity fetched since the day keys may include today's first session
+  const streak = useMemo(() => computeStreak(new Set([...dayKeys, ...activeDays(activity)])), [dayKeys, activity]);
+
+  const addGoal = useCallback(async (data: CreateLearningGoalRequest) => {
+    const goal = await goalsApi.createGoal(data);
+    const next = [...goals, goal];
+    setGoals(next);
+    // A weekly goal can reach further back than the activity loaded so far
+    const loadedFrom = activityWindowStart(goals);
+    const neededFrom = activityWindowStart(next);
+    if (neededFrom && (!loadedFrom || neededFrom < loadedFrom)) {
+      loadActivity(next).catch((error) => console.warn('[useLearningGoals] Failed to load activity:', error));
+    }
+    return goal;
+  }, [goals, loadActivity]);
+
+  const removeGoal = useCallback(async (goalId: string) => {
+    await goalsApi.deleteGoal(goalId);
+    setGoals((prev) => prev.filter((goal) => goal.id !== goalId));
+  }, []);
+
+  return { goals, progress, streak, isLoading, refresh, addGoal, removeGoal };
+}
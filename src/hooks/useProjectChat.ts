@@ -8,15 +8,16 @@ import {
   joinProjectSession,
   leaveProjectSession,
   onProjectStreamChunk,
-  offProjectStreamChunk,
   onProjectSocketConnect,
   onProjectCouncilStatus,
-  offProjectCouncilStatus,
   onProjectCouncilMemberComplete,
-  offProjectCouncilMemberComplete,
   onProjectCouncilSynthesisStart,
-  offProjectCouncilSynthesisStart,
 } from '../services/projectSocket';
+import {
+  loadStreamState,
+  saveStreamState,
+  clearStreamState,
+} from '../services/streamResume';
 
 interface UseProjectChatOptions {
   projectId: string | null;
@@ -47,9 +48,10 @@ export function useProjectChat({ projectId, sessionId, onStreamEnd }: UseProject
 
   const currentProjectIdRef = useRef<string | null>(null);
   const currentSessionIdRef = useRef<string | null>(null);
-  const streamCallbackRef = useRef<((chunk: ProjectStreamChunk) => void) | null>(null);
   const onStreamEndRef = useRef(onStreamEnd);
   onStreamEndRef.current = onStreamEnd;
+  // After resuming from a snapshot, take the next cumulative chunk wholesale
+  const resyncOnNextChunkRef = useRef(false);
 
   // Connect socket
   useEffect(() => {
@@ -69,9 +71,11 @@ export function useProjectChat({ projectId, sessionId, onStreamEnd }: UseProject
       }
     });
 
-    socket.on('disconnect', () => setIsConnected(false));
+    const handleDisconnect = () => setIsConnected(false);
+    socket.on('disconnect', handleDisconnect);
 
     return () => {
+      socket.off('disconnect', handleDisconnect);
       unsubscribe();
     };
   }, [projectId]);
@@ -127,10 +131,20 @@ export function useProjectChat({ projectId, sessionId, onStreamEnd }: UseProject
           setStreamingMessageId(chunk.messageId);
           setStreamingContent('');
           setStreamStatus(null);
+          resyncOnNextChunkRef.current = false;
+          saveStreamState('project', {
+            streamId: chunk.streamId || null,
+            messageId: chunk.messageId,
+            sessionId: chunk.sessionId,
+            projectId: chunk.projectId,
+          });
           break;
 
         case 'chunk':
-          if (chunk.content) {
+          if (resyncOnNextChunkRef.current && typeof chunk.fullContent === 'string') {
+            resyncOnNextChunkRef.current = false;
+            setStreamingContent(chunk.fullContent);
+          } else if (chunk.content) {
             setStreamingContent((prev) => prev + chunk.content);
           }
           break;
@@ -145,6 +159,7 @@ export function useProjectChat({ projectId, sessionId, onStreamEnd }: UseProject
           break;
 
         case 'end':
+          clearStreamState('project', chunk.sessionId);
           onStreamEndRef.current?.(chunk);
           setIsStreaming(false);
           setIsWaitingForStream(false);
@@ -159,6 +174,7 @@ export function useProjectChat({ projectId, sessionId, onStreamEnd }: UseProject
           break;
 
         case 'error':
+          clearStreamState('project', chunk.sessionId);
           setIsStreaming(false);
           setIsWaitingForStream(false);
           setStreamingContent('');
@@ -171,21 +187,41 @@ export function useProjectChat({ projectId, sessionId, onStreamEnd }: UseProject
       }
     };
 
-    // Remove old listener
-    if (streamCallbackRef.current) {
-      offProjectStreamChunk(streamCallbackRef.current);
+    return onProjectStreamChunk(handleStreamChunk);
+  }, [sessionId]);
+
+  // Re-attach to a stream that was in flight when the page was reloaded
+  useEffect(() => {
+    if (!projectId || !sessionId) return;
+    const saved = loadStreamState('project', sessionId);
+    if (!saved || saved.projectId !== projectId) return;
+    if (!saved.streamId) {
+      clearStreamState('project', sessionId);
+      return;
     }
 
-    streamCallbackRef.current = handleStreamChunk;
-    onProjectStreamChunk(handleStreamChunk);
+    let cancelled = false;
+    projectsApi
+      .getStreamState(projectId, saved.streamId)
+      .then((state) => {
+        if (cancelled) return;
+        if (!state.found || state.complete) {
+          clearStreamState('project', sessionId);
+          return;
+        }
+        const content = state.content || '';
+        setIsStreaming(true);
+        setIsWaitingForStream(false);
+        setStreamingMessageId(saved.messageId);
+        setStreamingContent(content);
+        resyncOnNextChunkRef.current = true;
+      })
+      .catch((error) => console.error('[useProjectChat] Failed to resume stream:', error));
 
     return () => {
-      if (streamCallbackRef.current) {
-        offProjectStreamChunk(streamCallbackRef.current);
-        streamCallbackRef.current = null;
-      }
+      cancelled = true;
     };
-  }, [sessionId]);
+  }, [projectId, sessionId]);
 
   // Council event handlers
   useEffect(() => {
@@ -210,15 +246,13 @@ export function useProjectChat({ projectId, sessionId, onStreamEnd }: UseProject
       setIsSynthesizing(true);
     };
 
-    onProjectCouncilStatus(handleCouncilStatus);
-    onProjectCouncilMemberComplete(handleCouncilMemberComplete);
-    onProjectCouncilSynthesisStart(handleCouncilSynthesisStart);
+    const unsubscribers = [
+      onProjectCouncilStatus(handleCouncilStatus),
+      onProjectCouncilMemberComplete(handleCouncilMemberComplete),
+      onProjectCouncilSynthesisStart(handleCouncilSynthesisStart),
+    ];
 
-    return () => {
-      offProjectCouncilStatus(handleCouncilStatus);
-      offProjectCouncilMemberComplete(handleCouncilMemberComplete);
-      offProjectCouncilSynthesisStart(handleCouncilSynthesisStart);
-    };
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
   }, []);
 
   // Send message
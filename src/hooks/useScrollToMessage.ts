@@ -0,0 +1,35 @@
+import { useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+
+// Element id convention for message rows that can be deep-linked
+export const messageElementId = (messageId: string) => `message-${messageId}`;
+
+// Scroll to and flash the message named by ?message= once the list is rendered.
+// Runs after the page's own scroll restoration, then drops the param so later
+// renders don't keep jumping back.
+export function useScrollToMessage(ready: boolean) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const messageId = searchParams.get('message');
+
+  useEffect(() => {
+    if (!ready || !messageId) return;
+
+    const timer = window.setTimeout(() => {
+      const el = document.getElementById(messageElementId(messageId));
+      if (el) {
+        el.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        el.classList.add('message-highlight');
+        window.setTimeout(() => el.classList.remove('message-highlight'), 2500);
+      }
+      setSearchParams((prev) => {
+        const next = new URLSearchParams(prev);
+        next.delete('message');
+        return next;
+      }, { replace: true });
+    }, 200);
+
+    return () => window.clearTimeout(timer);
+  }, [ready, messageId, setSearchParams]);
+}
+
+export default useScrollToMessage;
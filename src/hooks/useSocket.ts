@@ -1,10 +1,10 @@
 import { useEffect, useCallback, useRef } from 'react';
 import { 
-  getSocket, 
   joinConversation, 
   leaveConversation, 
   sendTypingIndicator,
   onSocketConnect,
+  messagesSocketEvents,
 } from '../services/socket';
 import { 
   Message, 
@@ -33,8 +33,6 @@ export function useConversationSocket({
   const typingTimeoutRef = useRef<number | null>(null);
   const onMessageRef = useRef(onMessage);
   const onTypingRef = useRef(onTyping);
-  const messageHandlerRef = useRef<((message: Message) => void) | null>(null);
-  const typingHandlerRef = useRef<((data: UserTypingEvent) => void) | null>(null);
 
   // Keep refs up to date
   useEffect(() => {
@@ -64,43 +62,22 @@ export function useConversationSocket({
       }
     };
 
-    // Store references for cleanup
-    messageHandlerRef.current = handleMessage;
-    typingHandlerRef.current = handleTyping;
+    // Subscriptions survive reconnects; only our own handlers are removed on cleanup
+    const unsubscribeMessage = messagesSocketEvents.on('newMessage', handleMessage);
+    const unsubscribeTyping = messagesSocketEvents.on('userTyping', handleTyping);
 
-    const setupListeners = () => {
-      const socket = getSocket();
-      if (!socket || !isSubscribed) return;
-
-      console.log('[useConversationSocket] Setting up listeners for:', conversationId);
-
-      // Join conversation room
+    // Join conversation room now and again on every connect/reconnect
+    const unsubscribe = onSocketConnect(() => {
+      if (!isSubscribed) return;
+      console.log('[useConversationSocket] Joining conversation room:', conversationId);
       joinConversation(conversationId);
-
-      // Add listeners (don't remove all - just add ours)
-      socket.on('newMessage', handleMessage);
-      socket.on('userTyping', handleTyping);
-    };
-
-    // Set up listeners immediately if socket is connected
-    setupListeners();
-
-    // Also set up listeners when socket connects/reconnects
-    const unsubscribe = onSocketConnect(setupListeners);
+    });
 
     return () => {
       isSubscribed = false;
-      const socket = getSocket();
-      if (socket) {
-        leaveConversation(conversationId);
-        // Remove only OUR listeners by reference
-        if (messageHandlerRef.current) {
-          socket.off('newMessage', messageHandlerRef.current);
-        }
-        if (typingHandlerRef.current) {
-          socket.off('userTyping', typingHandlerRef.current);
-        }
-      }
+      leaveConversation(conversationId);
+      unsubscribeMessage();
+      unsubscribeTyping();
       unsubscribe();
       if (typingTimeoutRef.current) {
         clearTimeout(typingTimeoutRef.current);
@@ -141,11 +118,6 @@ export function useTutorNotifications({
   const onAssignmentRef = useRef(onAssignment);
   const onStatusUpdateRef = useRef(onStatusUpdate);
   const onNewPendingConversationRef = useRef(onNewPendingConversation);
-  const handlersRef = useRef<{
-    assignment: ((data: NewAssignmentEvent) => void) | null;
-    status: ((data: StatusChangeEvent) => void) | null;
-    pending: ((data: NewPendingConversationEvent) => void) | null;
-  }>({ assignment: null, status: null, pending: null });
 
   // Keep refs up to date
   useEffect(() => {
@@ -181,41 +153,15 @@ export function useTutorNotifications({
       }
     };
 
-    handlersRef.current = {
-      assignment: handleAssignment,
-      status: handleStatus,
-      pending: handlePending,
-    };
-
-    const setupListeners = () => {
-      const socket = getSocket();
-      if (!socket || !isSubscribed) return;
-
-      console.log('[useTutorNotifications] Setting up notification listeners');
-
-      socket.on('newAssignment', handleAssignment);
-      socket.on('statusChange', handleStatus);
-      socket.on('newPendingConversation', handlePending);
-    };
-
-    setupListeners();
-    const unsubscribe = onSocketConnect(setupListeners);
+    const unsubscribers = [
+      messagesSocketEvents.on('newAssignment', handleAssignment),
+      messagesSocketEvents.on('statusChange', handleStatus),
+      messagesSocketEvents.on('newPendingConversation', handlePending),
+    ];
 
     return () => {
       isSubscribed = false;
-      const socket = getSocket();
-      if (socket && handlersRef.current) {
-        if (handlersRef.current.assignment) {
-          socket.off('newAssignment', handlersRef.current.assignment);
-        }
-        if (handlersRef.current.status) {
-          socket.off('statusChange', handlersRef.current.status);
-        }
-        if (handlersRef.current.pending) {
-          socket.off('newPendingConversation', handlersRef.current.pending);
-        }
-      }
-      unsubscribe();
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
     };
   }, []);
 }
@@ -232,10 +178,6 @@ export function useConversationListUpdates({
 }: UseConversationListUpdatesOptions) {
   const onNewMessageRef = useRef(onNewMessage);
   const onStatusChangeRef = useRef(onStatusChange);
-  const handlersRef = useRef<{
-    message: ((message: Message) => void) | null;
-    status: ((data: StatusChangeEvent) => void) | null;
-  }>({ message: null, status: null });
 
   useEffect(() => {
     onNewMessageRef.current = onNewMessage;
@@ -261,33 +203,14 @@ export function useConversationListUpdates({
       }
     };
 
-    handlersRef.current = { message: handleMessage, status: handleStatus };
-
-    const setupListeners = () => {
-      const socket = getSocket();
-      if (!socket || !isSubscribed) return;
-
-      console.log('[useConversationListUpdates] Setting up listeners');
-
-      socket.on('newMessage', handleMessage);
-      socket.on('statusChange', handleStatus);
-    };
-
-    setupListeners();
-    const unsubscribe = onSocketConnect(setupListeners);
+    const unsubscribers = [
+      messagesSocketEvents.on('newMessage', handleMessage),
+      messagesSocketEvents.on('statusChange', handleStatus),
+    ];
 
     return () => {
       isSubscribed = false;
-      const socket = getSocket();
-      if (socket && handlersRef.current) {
-        if (handlersRef.current.message) {
-          socket.off('newMessage', handlersRef.current.message);
-        }
-        if (handlersRef.current.status) {
-          socket.off('statusChange', handlersRef.current.status);
-        }
-      }
-      unsubscribe();
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
     };
   }, []);
 }
@@ -313,13 +236,6 @@ export function useStudentNotifications({
   const onAllTutorsBusyRef = useRef(onAllTutorsBusy);
   const onTutorAvailabilityUpdateRef = useRef(onTutorAvailabilityUpdate);
   const onTutorAcceptedRef = useRef(onTutorAccepted);
-  const handlersRef = useRef<{
-    processing: ((data: ProcessingStatusEvent) => void) | null;
-    assigned: ((data: TutorAssignedEvent) => void) | null;
-    busy: ((data: AllTutorsBusyEvent) => void) | null;
-    availability: ((data: TutorAvailabilityUpdate) => void) | null;
-    accepted: ((data: TutorAcceptedEvent) => void) | null;
-  }>({ processing: null, assigned: null, busy: null, availability: null, accepted: null });
 
   useEffect(() => {
     onProcessingStatusRef.current = onProcessingStatus;
@@ -372,49 +288,17 @@ export function useStudentNotifications({
       }
     };
 
-    handlersRef.current = {
-      processing: handleProcessing,
-      assigned: handleAssigned,
-      busy: handleBusy,
-      availability: handleAvailability,
-      accepted: handleAccepted,
-    };
+    const unsubscribers = [
+      messagesSocketEvents.on('processingStatus', handleProcessing),
+      messagesSocketEvents.on('tutorAssigned', handleAssigned),
+      messagesSocketEvents.on('allTutorsBusy', handleBusy),
+      messagesSocketEvents.on('tutorAvailabilityUpdate', handleAvailability),
+      messagesSocketEvents.on('tutorAccepted', handleAccepted),
+    ];
 
-    const setupListeners = () => {
-      const socket = getSocket();
-      if (!socket || !isSubscribed) return;
-
-      console.log('[useStudentNotifications] Setting up student notification listeners');
-
-      socket.on('processingStatus', handleProcessing);
-      socket.on('tutorAssigned', handleAssigned);
-      socket.on('allTutorsBusy', handleBusy);
-      socket.on('tutorAvailabilityUpdate', handleAvailability);
-      socket.on('tutorAccepted', handleAccepted);
-    };
-
-    setupListeners();
-    const unsubscribe = onSocketConnect(setupListeners);    return () => {
+    return () => {
       isSubscribed = false;
-      const socket = getSocket();
-      if (socket && handlersRef.current) {
-        if (handlersRef.current.processing) {
-          socket.off('processingStatus', handlersRef.current.processing);
-        }
-        if (handlersRef.current.assigned) {
-          socket.off('tutorAssigned', handlersRef.current.assigned);
-        }
-        if (handlersRef.current.busy) {
-          socket.off('allTutorsBusy', handlersRef.current.busy);
-        }
-        if (handlersRef.current.availability) {
-          socket.off('tutorAvailabilityUpdate', handlersRef.current.availability);
-        }
-        if (handlersRef.current.accepted) {
-          socket.off('tutorAccepted', handlersRef.current.accepted);
-        }
-      }
-      unsubscribe();
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
     };
   }, []);
 }export default { 
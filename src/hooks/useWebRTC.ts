@@ -1,10 +1,11 @@
 import { useCallback, useRef, useState, useEffect } from 'react';
 import {
-  getSocket,
   sendWebRTCOffer,
   sendWebRTCAnswer,
   sendICECandidate,
-  onSocketConnect,
+  onWebRTCOffer,
+  onWebRTCAnswer,
+  onWebRTCIceCandidate,
 } from '../services/socket';
 import {
   WebRTCOfferEvent,
@@ -337,33 +338,14 @@ export function useWebRTC({
       }
     };
 
-    const setupListeners = () => {
-      const socket = getSocket();
-      if (!socket) return;
-
-      // Remove old listeners first
-      socket.off('webrtcOffer');
-      socket.off('webrtcAnswer');
-      socket.off('webrtcIceCandidate');
-
-      socket.on('webrtcOffer', handleOffer);
-      socket.on('webrtcAnswer', handleAnswer);
-      socket.on('webrtcIceCandidate', handleIceCandidate);
-    };
-
-    setupListeners();
-    const unsubscribe = onSocketConnect(setupListeners);
+    const unsubscribers = [
+      onWebRTCOffer(handleOffer),
+      onWebRTCAnswer(handleAnswer),
+      onWebRTCIceCandidate(handleIceCandidate),
+    ];
 
     // Only cleanup on TRUE unmount
-    return () => {
-      const socket = getSocket();
-      if (socket) {
-        socket.off('webrtcOffer');
-        socket.off('webrtcAnswer');
-        socket.off('webrtcIceCandidate');
-      }
-      unsubscribe();
-    };
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
   }, [getLocalStream, createPeerConnection]); // Minimal dependencies
 
   // Cleanup on unmount only
@@ -78,6 +78,7 @@ export function AcceptInvitation() {
   if (isAuthenticated && user) {
     const defaultPath = user.role === Role.TEACHER ? '/dashboard/teacher' :
                         user.role === Role.TUTOR ? '/dashboard/tutor' :
+                        user.role === Role.GUARDIAN ? '/guardian' :
                         user.role === Role.ADMIN ? '/admin' :
                         user.role === Role.ADMINISTRATOR ? '/admin' : '/chat';
     return <Navigate to={defaultPath} replace />;
@@ -138,7 +139,9 @@ export function AcceptInvitation() {
           <h2 className="text-xl font-semibold text-white mb-1">Set Your Password</h2>
           <p className="text-gray-400 text-sm mb-5">
             Welcome, <span className="text-white font-medium">{invitation?.name}</span>!
-            Set a password to activate your account.
+            {invitation?.studentName
+              ? <> {invitation.studentName} invited you to follow their progress. Set a password to activate your account.</>
+              : ' Set a password to activate your account.'}
           </p>
 
           {/* Pre-filled info */}
@@ -0,0 +1,406 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { CalendarClock, CalendarPlus, Clock, Video, Check, X, History, Star, PlayCircle, Pencil } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { bookingsApi, tutorSessionApi } from '../api';
+import { messagesSocketEvents } from '../services/socket';
+import { BookingStatus, DailyRoom, Role, SessionBooking } from '../types';
+import { Spinner } from '../components/ui/Loading';
+import { Modal } from '../components/ui/Modal';
+import Button from '../components/ui/Button';
+import { SubjectBadge } from '../components/ui/Badge';
+import Avatar from '../components/ui/Avatar';
+import { FloatingTutorSession } from '../components/tutorSession';
+import { BookSessionModal, bookingDurationMinutes, canJoinBooking } from '../components/bookings';
+import { RateSessionModal } from '../components/reviews';
+import { WhiteboardHistoryModal } from '../components/whiteboard';
+import toast from 'react-hot-toast';
+
+type TabType = 'upcoming' | 'past';
+
+const STATUS_STYLES: Record<BookingStatus, string> = {
+  PENDING: 'bg-amber-500/15 text-amber-400',
+  CONFIRMED: 'bg-emerald-500/15 text-emerald-400',
+  DECLINED: 'bg-red-500/15 text-red-400',
+  CANCELLED: 'bg-gray-700/60 text-gray-400',
+  COMPLETED: 'bg-sky-500/15 text-sky-400',
+  NO_SHOW: 'bg-gray-700/60 text-gray-400',
+};
+
+const STATUS_LABELS: Record<BookingStatus, string> = {
+  PENDING: 'Awaiting tutor',
+  CONFIRMED: 'Confirmed',
+  DECLINED: 'Declined',
+  CANCELLED: 'Cancelled',
+  COMPLETED: 'Completed',
+  NO_SHOW: 'Missed',
+};
+
+const formatSlot = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+const getErrorMessage = (error: unknown, fallback: string) => {
+  const err = error as { response?: { data?: { message?: string } } };
+  return err.response?.data?.message || fallback;
+};
+
+export function Bookings() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const isTutor = user?.role === Role.TUTOR;
+  const myRole = isTutor ? 'TUTOR' : 'STUDENT';
+
+  const [activeTab, setActiveTab] = useState<TabType>('upcoming');
+  const [bookings, setBookings] = useState<SessionBooking[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [now, setNow] = useState(() => new Date());
+
+  const [showBookModal, setShowBookModal] = useState(false);
+  const [rescheduling, setRescheduling] = useState<SessionBooking | null>(null);
+  const [closing, setClosing] = useState<{ booking: SessionBooking; action: 'cancel' | 'decline' } | null>(null);
+  const [closeReason, setCloseReason] = useState('');
+  const [reviewing, setReviewing] = useState<SessionBooking | null>(null);
+  const [viewingWhiteboard, setViewingWhiteboard] = useState<SessionBooking | null>(null);
+
+  // Student video call once the booked session's room is open
+  const [activeCall, setActiveCall] = useState<{
+    tutorSessionId: string;
+    tutor: { id: string; name: string; avatar?: string };
+    dailyRoom: DailyRoom;
+  } | null>(null);
+
+  const fetchBookings = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setBookings(await bookingsApi.getMyBookings({ scope: activeTab === 'upcoming' ? 'UPCOMING' : 'PAST' }));
+    } catch {
+      toast.error('Failed to load sessions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [activeTab]);
+
+  useEffect(() => {
+    fetchBookings();
+  }, [fetchBookings]);
+
+  // Keep Join buttons in step with the clock
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 30_000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Changes made by the other party (toasts come from NotificationContext)
+  useEffect(() => {
+    return messagesSocketEvents.on('bookingUpdated', () => {
+      fetchBookings();
+    });
+  }, [fetchBookings]);
+
+  const replaceBooking = (updated: SessionBooking) => {
+    setBookings((prev) => prev.map((b) => (b.id === updated.id ? updated : b)));
+  };
+
+  const runAction = async (booking: SessionBooking, action: () => Promise<SessionBooking>, success: string) => {
+    setBusyId(booking.id);
+    try {
+      replaceBooking(await action());
+      toast.success(success);
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Something went wrong'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleClose = async () => {
+    if (!closing) return;
+    const { booking, action } = closing;
+    const reason = closeReason.trim() || undefined;
+    setClosing(null);
+    setCloseReason('');
+    await runAction(
+      booking,
+      () => (action === 'cancel' ? bookingsApi.cancelBooking(booking.id, reason) : bookingsApi.declineBooking(booking.id, reason)),
+      action === 'cancel' ? 'Session cancelled' : 'Request declined'
+    );
+  };
+
+  const handleJoin = async (booking: SessionBooking) => {
+    setBusyId(booking.id);
+    try {
+      if (isTutor) {
+        // The dashboard hosts the active session view
+        const acceptedSession = await bookingsApi.startBooking(booking.id);
+        navigate('/dashboard/tutor', { state: { acceptedSession } });
+        return;
+      }
+      const { tutorSessionId } = await bookingsApi.joinBooking(booking.id);
+      const dailyRoom = await tutorSessionApi.getStudentRoomToken(tutorSessionId);
+      setActiveCall({
+        tutorSessionId,
+        tutor: booking.tutor ?? { id: booking.tutorId, name: 'Tutor' },
+        dailyRoom,
+      });
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to join session'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (activeCall) {
+    return (
+      <FloatingTutorSession
+        tutorSessionId={activeCall.tutorSessionId}
+        tutor={activeCall.tutor}
+        dailyRoom={activeCall.dailyRoom}
+        onClose={() => {
+          setActiveCall(null);
+          fetchBookings();
+        }}
+      />
+    );
+  }
+
+  const renderActions = (booking: SessionBooking) => {
+    const isBusy = busyId === booking.id;
+    const request = booking.rescheduleRequest;
+    const isOpen = booking.status === 'PENDING' || booking.status === 'CONFIRMED';
+
+    if (booking.status === 'COMPLETED' && booking.tutorSessionId) {
+      const canReview = !isTutor && !booking.reviewed;
+      return (
+        <div className="mt-3 flex flex-wrap gap-2">
+          <Button size="sm" variant="secondary" onClick={() => setViewingWhiteboard(booking)} leftIcon={<Pencil className="w-4 h-4" />}>
+            Whiteboard
+          </Button>
+          {booking.hasRecording && (
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={() => navigate(`/recordings/${booking.tutorSessionId}`)}
+              leftIcon={<PlayCircle className="w-4 h-4" />}
+            >
+              Watch recording
+            </Button>
+          )}
+          {canReview && (
+            <Button size="sm" variant="secondary" onClick={() => setReviewing(booking)} leftIcon={<Star className="w-4 h-4" />}>
+              Leave a review
+            </Button>
+          )}
+        </div>
+      );
+    }
+    if (!isOpen || new Date(booking.endAt) <= now) return null;
+
+    return (
+      <div className="flex flex-wrap items-center gap-2 mt-3">
+        {canJoinBooking(booking, now) && (
+          <Button size="sm" variant="success" onClick={() => handleJoin(booking)} isLoading={isBusy} leftIcon={<Video className="w-4 h-4" />}>
+            {isTutor ? 'Start session' : 'Join session'}
+          </Button>
+        )}
+        {isTutor && booking.status === 'PENDING' && (
+          <>
+            <Button
+              size="sm"
+              onClick={() => runAction(booking, () => bookingsApi.confirmBooking(booking.id), 'Session confirmed')}
+              isLoading={isBusy}
+              leftIcon={<Check className="w-4 h-4" />}
+            >
+              Confirm
+            </Button>
+            <Button size="sm" variant="secondary" onClick={() => setClosing({ booking, action: 'decline' })} disabled={isBusy}>
+              Decline
+            </Button>
+          </>
+        )}
+        {request && request.requestedBy !== myRole && (
+          <>
+            <Button
+              size="sm"
+              onClick={() => runAction(booking, () => bookingsApi.respondToReschedule(booking.id, true), 'Session moved')}
+              isLoading={isBusy}
+            >
+              Accept new time
+            </Button>
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={() => runAction(booking, () => bookingsApi.respondToReschedule(booking.id, false), 'Kept the original time')}
+              disabled={isBusy}
+            >
+              Keep original
+            </Button>
+          </>
+        )}
+        {!request && (
+          <Button size="sm" variant="ghost" onClick={() => setRescheduling(booking)} disabled={isBusy} leftIcon={<CalendarClock className="w-4 h-4" />}>
+            Reschedule
+          </Button>
+        )}
+        {!(isTutor && booking.status === 'PENDING') && (
+          <Button size="sm" variant="ghost" onClick={() => setClosing({ booking, action: 'cancel' })} disabled={isBusy} leftIcon={<X className="w-4 h-4" />}>
+            Cancel
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  const renderBooking = (booking: SessionBooking) => {
+    const other = isTutor ? booking.student : booking.tutor;
+    const request = booking.rescheduleRequest;
+    return (
+      <div key={booking.id} className="bg-[#25262b] border border-gray-700/50 rounded-lg p-4">
+        <div className="flex items-start gap-3">
+          <Avatar src={other?.avatar} name={other?.name || '?'} size="sm" />
+          <div className="flex-1 min-w-0">
+            <div className="flex flex-wrap items-center gap-2">
+              <p className="text-sm font-medium text-gray-100 truncate">{other?.name || (isTutor ? 'Student' : 'Tutor')}</p>
+              <SubjectBadge subject={booking.subject} />
+              <span className={`badge ${STATUS_STYLES[booking.status]}`}>{STATUS_LABELS[booking.status]}</span>
+            </div>
+            <p className="text-xs text-gray-400 mt-1 flex items-center gap-1">
+              <Clock className="w-3 h-3" />
+              {formatSlot(booking.startAt)} · {bookingDurationMinutes(booking)} min
+            </p>
+            {booking.topic && <p className="text-sm text-gray-300 mt-2">{booking.topic}</p>}
+            {booking.notes && <p className="text-xs text-gray-500 mt-1 whitespace-pre-wrap">{booking.notes}</p>}
+            {request && (
+              <p className="text-xs text-amber-400 mt-2">
+                {request.requestedBy === myRole
+                  ? `You proposed ${formatSlot(request.startAt)} — waiting for a reply`
+                  : `${other?.name || 'They'} proposed moving this to ${formatSlot(request.startAt)}`}
+              </p>
+            )}
+            {booking.cancelReason && (
+              <p className="text-xs text-gray-500 mt-2">Reason: {booking.cancelReason}</p>
+            )}
+          </div>
+        </div>
+        {renderActions(booking)}
+      </div>
+    );
+  };
+
+  return (
+    <div className="p-6 max-w-3xl mx-auto">
+      <div className="flex items-start justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-100">Sessions</h1>
+          <p className="text-gray-400">
+            {isTutor ? 'Sessions students have booked from your availability' : 'Book one-to-one time with a tutor'}
+          </p>
+        </div>
+        {!isTutor && (
+          <Button onClick={() => setShowBookModal(true)} leftIcon={<CalendarPlus className="w-4 h-4" />}>
+            Book a session
+          </Button>
+        )}
+      </div>
+
+      {/* Tabs */}
+      <div className="flex gap-1 bg-[#2c2d32] rounded-lg p-1 mb-6 w-fit">
+        <button
+          onClick={() => setActiveTab('upcoming')}
+          className={`px-4 py-2 text-sm font-medium rounded-md transition-all ${activeTab === 'upcoming' ? 'bg-[#25262b] text-gray-100 shadow-sm' : 'text-gray-500 hover:text-gray-300'}`}
+        >
+          <CalendarClock className="w-4 h-4 inline mr-1.5" />
+          Upcoming
+        </button>
+        <button
+          onClick={() => setActiveTab('past')}
+          className={`px-4 py-2 text-sm font-medium rounded-md transition-all ${activeTab === 'past' ? 'bg-[#25262b] text-gray-100 shadow-sm' : 'text-gray-500 hover:text-gray-300'}`}
+        >
+          <History className="w-4 h-4 inline mr-1.5" />
+          Past
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-16"><Spinner size="lg" /></div>
+      ) : bookings.length === 0 ? (
+        <div className="text-center py-16 text-gray-500">
+          <CalendarClock className="w-12 h-12 mx-auto mb-3 text-gray-600" />
+          <p className="font-medium text-gray-300">
+            {activeTab === 'upcoming' ? 'No upcoming sessions' : 'No past sessions'}
+          </p>
+          {activeTab === 'upcoming' && (
+            <p className="text-sm mt-1">
+              {isTutor ? 'Keep your weekly availability up to date so students can book you.' : 'Pick a tutor and a time that suits you.'}
+            </p>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-3">{bookings.map(renderBooking)}</div>
+      )}
+
+      <BookSessionModal
+        isOpen={showBookModal || !!rescheduling}
+        onClose={() => {
+          setShowBookModal(false);
+          setRescheduling(null);
+        }}
+        onSaved={(booking) => {
+          if (rescheduling) {
+            replaceBooking(booking);
+          } else if (activeTab === 'upcoming') {
+            setBookings((prev) => [...prev, booking].sort((a, b) => a.startAt.localeCompare(b.startAt)));
+          }
+        }}
+        reschedule={rescheduling ?? undefined}
+      />
+
+      <RateSessionModal
+        target={reviewing ? {
+          tutorName: reviewing.tutor?.name || 'your tutor',
+          tutorSessionId: reviewing.tutorSessionId,
+        } : null}
+        onClose={() => setReviewing(null)}
+        onSubmitted={() => reviewing && replaceBooking({ ...reviewing, reviewed: true })}
+      />
+
+      {viewingWhiteboard?.tutorSessionId && (
+        <WhiteboardHistoryModal
+          isOpen
+          onClose={() => setViewingWhiteboard(null)}
+          sessionId={viewingWhiteboard.tutorSessionId}
+          title={viewingWhiteboard.topic || 'Whiteboard'}
+        />
+      )}
+
+      {/* Cancel / Decline Modal */}
+      <Modal
+        isOpen={!!closing}
+        onClose={() => setClosing(null)}
+        title={closing?.action === 'decline' ? 'Decline Request' : 'Cancel Session'}
+        size="sm"
+      >
+        {closing && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-300">
+              {closing.action === 'decline' ? 'Decline' : 'Cancel'} the {formatSlot(closing.booking.startAt)} session?
+              The other person will be notified.
+            </p>
+            <div>
+              <label className="label">Reason (optional)</label>
+              <textarea value={closeReason} onChange={(e) => setCloseReason(e.target.value)} rows={2} className="input resize-none" />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={() => setClosing(null)}>Back</Button>
+              <Button variant="danger" onClick={handleClose}>
+                {closing.action === 'decline' ? 'Decline' : 'Cancel session'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+}
+
+export default Bookings;
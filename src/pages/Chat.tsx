@@ -4,13 +4,15 @@ import { ArrowLeft, CheckCircle, X, Clock, Loader2, Settings, Share2, Copy, Chec
 import { useAuth } from '../contexts/AuthContext';
 import { messagesApi } from '../api';
 import { useConversationSocket } from '../hooks/useSocket';
-import { getSocket, onSocketConnect } from '../services/socket';
+import { messagesSocketEvents } from '../services/socket';
 import { Conversation, Message, MessageType, Role, ConversationStatus, CallStatus, StatusChangeEvent, SenderType, TutorAssignedEvent, ReactionType, ConversationClosedEvent } from '../types';
 import { MessageBubble, MessageInput, TypingIndicator } from '../components/chat/index';
 import { SubjectBadge, StatusBadge } from '../components/ui/Badge';
 import Avatar from '../components/ui/Avatar';
 import { CallButton, ActiveCallUI, CallHistoryModal } from '../components/call';
+import { RateSessionModal, ReviewTarget } from '../components/reviews';
 import { useCall } from '../contexts/CallContext';
+import { useScrollToMessage, messageElementId } from '../hooks/useScrollToMessage';
 import toast from 'react-hot-toast';
 
 export function Chat() {
@@ -35,11 +37,15 @@ export function Chat() {
   }>({ isShared: false, shareUrl: null });
   const [isSharing, setIsSharing] = useState(false);
   const [shareCopied, setShareCopied] = useState(false);
+  const [reviewTarget, setReviewTarget] = useState<ReviewTarget | null>(null);
 
   // Check if currently in a call for this conversation
   const isInActiveCall = callState.conversationId === conversationId && 
     callState.status !== CallStatus.IDLE;
 
+  // Jump to a deep-linked message (search results) once loaded
+  useScrollToMessage(!isLoading && messages.length > 0);
+
   // Scroll to bottom
   const scrollToBottom = useCallback(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -130,6 +136,11 @@ export function Chat() {
       if (data.conversationId === conversationId) {
         // Update conversation status
         setConversation(prev => prev ? { ...prev, status: data.status as ConversationStatus } : prev);
+
+        // Students rate the tutor once the tutor wraps up
+        if (user?.role === Role.STUDENT && data.closedBy.role === 'TUTOR') {
+          setReviewTarget({ tutorName: data.closedBy.name || 'your tutor', conversationId });
+        }
         
         // Show notification about who closed it
         const closerRole = data.closedBy.role === 'TUTOR' ? 'Tutor' : 'Student';
@@ -180,27 +191,14 @@ export function Chat() {
       }
     };
 
-    const setupListener = () => {
-      const socket = getSocket();
-      if (!socket) return;
-      socket.on('statusChange', handleStatusChange);
-      socket.on('tutorAssigned', handleTutorAssigned);
-      socket.on('conversationClosed', handleConversationClosed);
-    };
+    const unsubscribers = [
+      messagesSocketEvents.on('statusChange', handleStatusChange),
+      messagesSocketEvents.on('tutorAssigned', handleTutorAssigned),
+      messagesSocketEvents.on('conversationClosed', handleConversationClosed),
+    ];
 
-    setupListener();
-    const unsubscribe = onSocketConnect(setupListener);
-
-    return () => {
-      const socket = getSocket();
-      if (socket) {
-        socket.off('statusChange', handleStatusChange);
-        socket.off('tutorAssigned', handleTutorAssigned);
-        socket.off('conversationClosed', handleConversationClosed);
-      }
-      unsubscribe();
-    };
-  }, [conversationId]);
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [conversationId, user?.role]);
 
   // Send text message
   const handleSendText = async (content: string) => {
@@ -259,6 +257,9 @@ export function Chat() {
       setConversation(prev => prev ? { ...prev, status: response.status } : prev);
       toast.success(`Conversation marked as ${status.toLowerCase()}`);
       setShowOptionsModal(false);
+      if (user?.role === Role.STUDENT && conversation?.tutor) {
+        setReviewTarget({ tutorName: conversation.tutor.user.name, conversationId });
+      }
     } catch (error) {
       console.error('Failed to close conversation:', error);
       toast.error('Failed to update conversation');
@@ -496,12 +497,13 @@ export function Chat() {
         ) : (
           <>
             {messages.map((message) => (
-              <MessageBubble
-                key={message.id}
-                message={message}
-                isOwn={message.senderType === mySenderType}
-                onReactionChange={handleReactionChange}
-              />
+              <div key={message.id} id={messageElementId(message.id)}>
+                <MessageBubble
+                  message={message}
+                  isOwn={message.senderType === mySenderType}
+                  onReactionChange={handleReactionChange}
+                />
+              </div>
             ))}
             {isOtherTyping && (
               <TypingIndicator name={otherParty?.name?.split(' ')[0]} />
@@ -630,6 +632,9 @@ export function Chat() {
         />
       )}
 
+      {/* Post-conversation Rating Modal */}
+      <RateSessionModal target={reviewTarget} onClose={() => setReviewTarget(null)} />
+
       {/* Call History Modal */}
       <CallHistoryModal
         isOpen={showCallHistory}
@@ -14,6 +14,7 @@ export function Landing() {
   if (isAuthenticated && user) {
     const defaultPath = user.role === Role.TEACHER ? '/dashboard/teacher' :
                         user.role === Role.TUTOR ? '/dashboard/tutor' :
+                        user.role === Role.GUARDIAN ? '/guardian' :
                         user.role === Role.ADMIN ? '/admin' :
                         user.role === Role.ADMINISTRATOR ? '/admin' : '/chat';
     const targetPath = redirectUrl || defaultPath;
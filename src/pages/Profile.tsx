@@ -56,6 +56,7 @@ export function Profile() {
       return <TutorProfilePage />;
     case Role.ADMIN:
     case Role.ADMINISTRATOR:
+    case Role.GUARDIAN:
       return <AdminProfile />;
     default:
       return <StudentProfilePage />;
@@ -0,0 +1,90 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Film, PlayCircle, Loader2 } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { tutorSessionApi } from '../api';
+import { Role, SessionRecordingSummary } from '../types';
+import { Spinner } from '../components/ui/Loading';
+import { SubjectBadge } from '../components/ui/Badge';
+import Avatar from '../components/ui/Avatar';
+import { formatPlaybackTime } from '../components/recordings';
+import toast from 'react-hot-toast';
+
+// Recorded tutoring sessions the current student or tutor took part in
+export function Recordings() {
+  const { user } = useAuth();
+  const isTutor = user?.role === Role.TUTOR;
+  const [recordings, setRecordings] = useState<SessionRecordingSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchRecordings = async () => {
+      try {
+        setRecordings(await tutorSessionApi.getRecordings());
+      } catch {
+        toast.error('Failed to load recordings');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchRecordings();
+  }, []);
+
+  return (
+    <div className="p-6 max-w-4xl mx-auto">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-100">Recordings</h1>
+        <p className="text-gray-400">Rewatch sessions with the chat and whiteboard replayed alongside.</p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64"><Spinner size="lg" /></div>
+      ) : recordings.length === 0 ? (
+        <div className="text-center py-12 text-gray-400">
+          <Film className="w-10 h-10 mx-auto mb-3 text-gray-600" />
+          <p className="text-lg font-medium text-gray-300">No recordings yet</p>
+          <p className="text-sm mt-1">
+            {isTutor ? 'Ask to record during a session once the student is ready.' : 'Sessions you agree to record will show up here.'}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {recordings.map((recording) => {
+            const other = isTutor ? recording.student : recording.tutor;
+            const isReady = recording.status === 'READY';
+            return (
+              <div key={recording.sessionId} className="bg-[#25262b] border border-gray-700/50 rounded-lg p-4 flex items-center gap-4">
+                <Avatar src={other?.avatar} name={other?.name || 'Session'} size="md" />
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-gray-100 truncate">{recording.topic || 'Tutoring session'}</p>
+                  <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-gray-500">
+                    <SubjectBadge subject={recording.subject} />
+                    <span>{isTutor ? 'with' : 'by'} {other?.name || 'Unknown'}</span>
+                    <span>· {new Date(recording.startedAt).toLocaleDateString()}</span>
+                    {recording.durationSeconds ? <span>· {formatPlaybackTime(recording.durationSeconds)}</span> : null}
+                  </div>
+                </div>
+                {isReady ? (
+                  <Link
+                    to={`/recordings/${recording.sessionId}`}
+                    className="flex items-center gap-1.5 px-3 py-2 text-sm bg-primary-600 hover:bg-primary-500 text-white rounded-lg transition-colors"
+                  >
+                    <PlayCircle className="w-4 h-4" /> Watch
+                  </Link>
+                ) : (
+                  <span className="flex items-center gap-1.5 text-xs text-gray-500">
+                    {recording.status === 'FAILED' ? 'Recording failed' : (
+                      <><Loader2 className="w-3.5 h-3.5 animate-spin" /> Processing</>
+                    )}
+                  </span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default Recordings;
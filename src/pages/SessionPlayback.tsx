@@ -0,0 +1,168 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, MessageSquare, Pencil, Film } from 'lucide-react';
+import { tutorSessionApi } from '../api';
+import { SessionRecording } from '../types';
+import { Spinner } from '../components/ui/Loading';
+import { SubjectBadge } from '../components/ui/Badge';
+import {
+  PlaybackTimeline,
+  WhiteboardSnapshotView,
+  buildTimeline,
+  snapshotAt,
+  lastChatIndexAt,
+  offsetSeconds,
+  formatPlaybackTime,
+} from '../components/recordings';
+import toast from 'react-hot-toast';
+
+// Recording playback with the tutor-student chat and whiteboard on the same clock
+export function SessionPlayback() {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const [recording, setRecording] = useState<SessionRecording | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [position, setPosition] = useState(0);
+  const [mediaDuration, setMediaDuration] = useState(0);
+
+  const mediaRef = useRef<HTMLMediaElement | null>(null);
+  const chatListRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!sessionId) return;
+    const fetchRecording = async () => {
+      setIsLoading(true);
+      try {
+        setRecording(await tutorSessionApi.getRecording(sessionId));
+      } catch {
+        setRecording(null);
+        toast.error('Failed to load recording');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchRecording();
+  }, [sessionId]);
+
+  const timeline = useMemo(
+    () => (recording ? buildTimeline(recording.startedAt, recording.chatMessages, recording.whiteboardSnapshots) : []),
+    [recording]
+  );
+  const snapshot = useMemo(() => snapshotAt(timeline, position), [timeline, position]);
+  const activeChatIndex = recording ? lastChatIndexAt(recording.chatMessages, recording.startedAt, position) : -1;
+
+  // Keep the latest message in view while playing
+  useEffect(() => {
+    chatListRef.current
+      ?.querySelector('[data-active="true"]')
+      ?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeChatIndex]);
+
+  const seek = (seconds: number) => {
+    if (mediaRef.current) mediaRef.current.currentTime = seconds;
+    setPosition(seconds);
+  };
+
+  if (isLoading) {
+    return <div className="flex items-center justify-center py-24"><Spinner size="lg" /></div>;
+  }
+
+  if (!recording || !recording.recordingUrl) {
+    return (
+      <div className="p-6 text-center text-gray-400">
+        <Film className="w-10 h-10 mx-auto mb-3 text-gray-600" />
+        <p className="text-lg font-medium text-gray-300">
+          {recording ? 'This recording is still processing' : 'Recording not found'}
+        </p>
+        <Link to="/recordings" className="text-sm text-primary-400 hover:text-primary-300">Back to recordings</Link>
+      </div>
+    );
+  }
+
+  const duration = mediaDuration || recording.durationSeconds || 0;
+  const mediaProps = {
+    ref: (el: HTMLMediaElement | null) => {
+      mediaRef.current = el;
+    },
+    src: recording.recordingUrl,
+    controls: true,
+    onTimeUpdate: (e: React.SyntheticEvent<HTMLMediaElement>) => setPosition(e.currentTarget.currentTime),
+    onLoadedMetadata: (e: React.SyntheticEvent<HTMLMediaElement>) => {
+      if (Number.isFinite(e.currentTarget.duration)) setMediaDuration(e.currentTarget.duration);
+    },
+  };
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto">
+      <Link to="/recordings" className="inline-flex items-center gap-1 text-sm text-gray-400 hover:text-gray-200 mb-4">
+        <ArrowLeft className="w-4 h-4" /> All recordings
+      </Link>
+
+      <div className="mb-4">
+        <h1 className="text-xl font-bold text-gray-100">{recording.topic || 'Tutoring session'}</h1>
+        <div className="flex flex-wrap items-center gap-2 mt-1 text-sm text-gray-400">
+          <SubjectBadge subject={recording.subject} />
+          <span>{recording.tutor?.name || 'Tutor'} & {recording.student.name}</span>
+          <span>· {new Date(recording.startedAt).toLocaleString()}</span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <div className="lg:col-span-2 space-y-4">
+          <div className="bg-[#25262b] border border-gray-700/50 rounded-lg p-4 space-y-3">
+            {recording.mediaType === 'audio' ? (
+              <audio {...mediaProps} className="w-full" />
+            ) : (
+              <video {...mediaProps} className="w-full max-h-[60vh] bg-black rounded-lg" />
+            )}
+            <PlaybackTimeline entries={timeline} duration={duration} position={position} onSeek={seek} />
+          </div>
+
+          <div className="bg-[#25262b] border border-gray-700/50 rounded-lg p-4">
+            <h2 className="flex items-center gap-2 text-sm font-semibold text-gray-200 mb-3">
+              <Pencil className="w-4 h-4 text-violet-400" /> Whiteboard
+              {snapshot && (
+                <span className="text-xs font-normal text-gray-500">
+                  as of {formatPlaybackTime(offsetSeconds(snapshot.capturedAt, recording.startedAt))}
+                </span>
+              )}
+            </h2>
+            <WhiteboardSnapshotView snapshot={snapshot} className="h-[420px]" />
+          </div>
+        </div>
+
+        <div className="bg-[#25262b] border border-gray-700/50 rounded-lg p-4 flex flex-col lg:max-h-[calc(100vh-12rem)]">
+          <h2 className="flex items-center gap-2 text-sm font-semibold text-gray-200 mb-3">
+            <MessageSquare className="w-4 h-4 text-blue-400" /> Chat
+          </h2>
+          {recording.chatMessages.length === 0 ? (
+            <p className="text-sm text-gray-500">No chat messages in this session</p>
+          ) : (
+            <div ref={chatListRef} className="flex-1 overflow-y-auto space-y-2 pr-1">
+              {recording.chatMessages.map((message, index) => {
+                const offset = offsetSeconds(message.createdAt, recording.startedAt);
+                return (
+                  <button
+                    key={message.id}
+                    data-active={index === activeChatIndex}
+                    onClick={() => seek(offset)}
+                    className={`w-full text-left rounded-lg px-3 py-2 transition-colors ${
+                      index > activeChatIndex ? 'opacity-40' : ''
+                    } ${index === activeChatIndex ? 'bg-primary-500/15' : 'bg-[#2c2d32] hover:bg-[#35363b]'}`}
+                  >
+                    <div className="flex items-center justify-between text-xs mb-0.5">
+                      <span className={message.role === 'tutor' ? 'text-emerald-400' : 'text-violet-400'}>{message.senderName}</span>
+                      <span className="text-gray-500">{formatPlaybackTime(offset)}</span>
+                    </div>
+                    <p className="text-sm text-gray-200 whitespace-pre-wrap">{message.content}</p>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default SessionPlayback;
@@ -4,6 +4,7 @@ import { Eye, MessageSquare, ThumbsUp, ThumbsDown, ArrowLeft, Loader2, AlertCirc
 import { messagesApi } from '../api';
 import { useAuth } from '../contexts/AuthContext';
 import { SubjectBadge, StatusBadge } from '../components/ui/Badge';
+import { Markdown } from '../components/ui/Markdown';
 import { ConversationStatus, Subject, Role } from '../types';
 
 interface SharedMessage {
@@ -228,9 +229,9 @@ export function SharedConversation() {
 
                 {/* Content */}
                 {message.content && (
-                  <p className="text-sm leading-relaxed whitespace-pre-wrap break-words">
+                  <Markdown breaks className="text-sm leading-relaxed break-words">
                     {message.content}
-                  </p>
+                  </Markdown>
                 )}
 
                 {/* Footer */}
@@ -0,0 +1,215 @@
+import { useState, useEffect, useMemo } from 'react';
+import { BarChart3, Download, FileText, Lock } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { schoolsApi, sectionsApi } from '../../api';
+import { School } from '../../api/schools';
+import { ClassSection, Role, SchoolAnalytics } from '../../types';
+import { Spinner } from '../../components/ui/Loading';
+import Button from '../../components/ui/Button';
+import { downloadTextFile } from '../../components/export';
+import {
+  AnalyticsRangePreset,
+  PRIVACY_THRESHOLD,
+  RANGE_PRESETS,
+  SCHOOL_METRICS,
+  TimeSeriesChart,
+  isGroupTooSmall,
+  printSchoolAnalytics,
+  rangeForPreset,
+  schoolAnalyticsFilename,
+  schoolAnalyticsToCsv,
+  summarizeSchoolAnalytics,
+} from '../../components/analytics';
+import toast from 'react-hot-toast';
+
+// School-wide activity over time, filterable by grade and section
+export function AdminAnalytics() {
+  const { user } = useAuth();
+  const isAdmin = user?.role === Role.ADMIN;
+
+  const [schools, setSchools] = useState<School[]>([]);
+  const [schoolId, setSchoolId] = useState<string | null>(isAdmin ? null : user?.administeredSchool?.id ?? null);
+  const [sectionsByGrade, setSectionsByGrade] = useState<Record<string, ClassSection[]>>({});
+  const [preset, setPreset] = useState<AnalyticsRangePreset>('30d');
+  const [grade, setGrade] = useState('');
+  const [sectionId, setSectionId] = useState('');
+  const [analytics, setAnalytics] = useState<SchoolAnalytics | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isPrinting, setIsPrinting] = useState(false);
+
+  useEffect(() => {
+    if (!isAdmin) return;
+    schoolsApi.getSchools()
+      .then((data) => {
+        setSchools(data);
+        setSchoolId((current) => current ?? data[0]?.id ?? null);
+        if (data.length === 0) setIsLoading(false);
+      })
+      .catch(() => {
+        toast.error('Failed to load schools');
+        setIsLoading(false);
+      });
+  }, [isAdmin]);
+
+  useEffect(() => {
+    sectionsApi.getSections()
+      .then((data) => setSectionsByGrade(data.grades))
+      .catch(() => setSectionsByGrade({}));
+  }, []);
+
+  useEffect(() => {
+    if (!schoolId) return;
+    let cancelled = false;
+    setIsLoading(true);
+    schoolsApi.getSchoolAnalytics(schoolId, {
+      ...rangeForPreset(preset),
+      grade: grade || undefined,
+      sectionId: sectionId || undefined,
+    })
+      .then((data) => { if (!cancelled) setAnalytics(data); })
+      .catch(() => { if (!cancelled) toast.error('Failed to load analytics'); })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [schoolId, preset, grade, sectionId]);
+
+  // Sections come back for every school an ADMIN can see
+  const schoolSections = useMemo(() => {
+    const result: Record<string, ClassSection[]> = {};
+    for (const [g, list] of Object.entries(sectionsByGrade)) {
+      const inSchool = list.filter((s) => !schoolId || s.schoolId === schoolId);
+      if (inSchool.length > 0) result[g] = inSchool;
+    }
+    return result;
+  }, [sectionsByGrade, schoolId]);
+
+  const grades = Object.keys(schoolSections).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  const sectionOptions = grade ? schoolSections[grade] ?? [] : Object.values(schoolSections).flat();
+  const selectedSection = sectionOptions.find((s) => s.id === sectionId);
+  const scope = selectedSection ? selectedSection.name : grade ? `Grade ${grade}` : null;
+  const summary = analytics ? summarizeSchoolAnalytics(analytics.points) : null;
+  const tooSmall = !!analytics && isGroupTooSmall(analytics.studentCount);
+
+  const handleCsv = () => {
+    if (!analytics) return;
+    downloadTextFile(schoolAnalyticsToCsv(analytics), schoolAnalyticsFilename(analytics, scope, 'csv'), 'text/csv;charset=utf-8');
+  };
+
+  const handlePdf = async () => {
+    if (!analytics) return;
+    setIsPrinting(true);
+    try {
+      await printSchoolAnalytics(analytics, scope);
+    } catch {
+      toast.error('Failed to prepare PDF');
+    } finally {
+      setIsPrinting(false);
+    }
+  };
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto">
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-100">Analytics</h1>
+          <p className="text-gray-400">{analytics?.schoolName || 'School activity over time'}</p>
+        </div>
+        <div className="flex gap-2">
+          <Button size="sm" variant="secondary" onClick={handleCsv} disabled={!analytics || tooSmall} leftIcon={<Download className="w-4 h-4" />}>
+            CSV
+          </Button>
+          <Button size="sm" variant="secondary" onClick={handlePdf} isLoading={isPrinting} disabled={!analytics || tooSmall} leftIcon={<FileText className="w-4 h-4" />}>
+            PDF
+          </Button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3 mb-6">
+        <div className="flex gap-1 bg-[#2c2d32] rounded-lg p-1">
+          {RANGE_PRESETS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setPreset(option.value)}
+              className={`px-3 py-1.5 text-sm font-medium rounded-md transition-all ${preset === option.value ? 'bg-[#25262b] text-gray-100 shadow-sm' : 'text-gray-500 hover:text-gray-300'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        {isAdmin && schools.length > 0 && (
+          <select
+            value={schoolId ?? ''}
+            onChange={(e) => {
+              setSchoolId(e.target.value);
+              setGrade('');
+              setSectionId('');
+            }}
+            className="input w-auto"
+          >
+            {schools.map((s) => <option key={s.id} value={s.id}>{s.name}</option>)}
+          </select>
+        )}
+        <select
+          value={grade}
+          onChange={(e) => {
+            setGrade(e.target.value);
+            setSectionId('');
+          }}
+          className="input w-auto"
+        >
+          <option value="">All grades</option>
+          {grades.map((g) => <option key={g} value={g}>Grade {g}</option>)}
+        </select>
+        <select value={sectionId} onChange={(e) => setSectionId(e.target.value)} className="input w-auto">
+          <option value="">All sections</option>
+          {sectionOptions.map((s) => <option key={s.id} value={s.id}>{s.name}</option>)}
+        </select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64"><Spinner size="lg" /></div>
+      ) : !schoolId ? (
+        <div className="text-center py-16 text-gray-400">
+          <BarChart3 className="w-10 h-10 mx-auto mb-3 text-gray-600" />
+          <p className="text-lg font-medium text-gray-300">No school to report on</p>
+        </div>
+      ) : !analytics || !summary ? null : tooSmall ? (
+        <div className="text-center py-16 text-gray-400">
+          <Lock className="w-10 h-10 mx-auto mb-3 text-gray-600" />
+          <p className="text-lg font-medium text-gray-300">Too few students to report on</p>
+          <p className="text-sm mt-1">Pick a wider filter. Reports need at least {PRIVACY_THRESHOLD} students.</p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
+            {SCHOOL_METRICS.map((metric) => (
+              <div key={metric.key} className="bg-[#25262b] border border-gray-700/50 rounded-lg p-4">
+                <p className="text-xs text-gray-500">{metric.label}</p>
+                <p className="text-2xl font-semibold text-gray-100 mt-1">{metric.format(summary[metric.key])}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            {SCHOOL_METRICS.map((metric) => (
+              <div key={metric.key} className="bg-[#25262b] border border-gray-700/50 rounded-lg p-4">
+                <h2 className="text-sm font-semibold text-gray-100 mb-3">{metric.label}</h2>
+                <TimeSeriesChart
+                  points={analytics.points.map((point) => ({ date: point.date, value: metric.value(point) }))}
+                  granularity={analytics.granularity}
+                  format={metric.format}
+                />
+              </div>
+            ))}
+          </div>
+
+          <p className="text-xs text-gray-500">
+            {analytics.studentCount} students{scope && ` in ${scope}`}. Active students is the busiest {analytics.granularity === 'WEEK' ? 'week' : 'day'}; wait and session times are averaged across all escalations and sessions.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default AdminAnalytics;
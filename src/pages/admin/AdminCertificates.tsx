@@ -0,0 +1,311 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Award, CheckCircle, XCircle, Eye, BellRing, Shield } from 'lucide-react';
+import { certificatesApi } from '../../api';
+import { CertificateRejectionReason, CertificateReviewItem, CertificateStatus } from '../../types';
+import { Spinner } from '../../components/ui/Loading';
+import { Modal } from '../../components/ui/Modal';
+import Button from '../../components/ui/Button';
+import Avatar from '../../components/ui/Avatar';
+import Pagination from '../../components/ui/Pagination';
+import {
+  DocumentPreview,
+  CertificateStatusBadge,
+  REJECTION_REASON_LABELS,
+  EXPIRY_WARNING_DAYS,
+  certificateStatus,
+} from '../../components/certificates';
+import toast from 'react-hot-toast';
+
+type QueueTab = CertificateStatus | 'EXPIRING';
+
+const TABS: { value: QueueTab; label: string }[] = [
+  { value: 'PENDING', label: 'Pending' },
+  { value: 'EXPIRING', label: 'Expiring' },
+  { value: 'APPROVED', label: 'Approved' },
+  { value: 'REJECTED', label: 'Rejected' },
+];
+
+const PAGE_SIZE = 20;
+
+const formatDate = (date?: string) => (date ? new Date(date).toLocaleDateString() : '—');
+
+// Review tutor certificates before they count toward the verified badge
+export function AdminCertificates() {
+  const [tab, setTab] = useState<QueueTab>('PENDING');
+  const [items, setItems] = useState<CertificateReviewItem[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const [previewing, setPreviewing] = useState<CertificateReviewItem | null>(null);
+  const [rejecting, setRejecting] = useState<CertificateReviewItem | null>(null);
+  const [reason, setReason] = useState<CertificateRejectionReason>('UNREADABLE');
+  const [note, setNote] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchItems = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      if (tab === 'EXPIRING') {
+        setItems(await certificatesApi.getExpiring(EXPIRY_WARNING_DAYS));
+        setTotalPages(1);
+      } else {
+        const data = await certificatesApi.getQueue({ status: tab, page, limit: PAGE_SIZE });
+        setItems(data.items);
+        setTotalPages(data.totalPages);
+      }
+    } catch {
+      toast.error('Failed to load certificates');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [tab, page]);
+
+  useEffect(() => {
+    fetchItems();
+  }, [fetchItems]);
+
+  const removeItem = (certificateId: string) => {
+    setItems((prev) => prev.filter((item) => item.certificate.id !== certificateId));
+  };
+
+  const handleApprove = async (item: CertificateReviewItem) => {
+    setBusyId(item.certificate.id);
+    try {
+      await certificatesApi.approveCertificate(item.certificate.id);
+      removeItem(item.certificate.id);
+      setPreviewing(null);
+      toast.success(`Approved ${item.certificate.name}`);
+    } catch (error: unknown) {
+      const err = error as { response?: { data?: { message?: string } } };
+      toast.error(err.response?.data?.message || 'Failed to approve certificate');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const openReject = (item: CertificateReviewItem) => {
+    setPreviewing(null);
+    setRejecting(item);
+    setReason(tab === 'EXPIRING' ? 'EXPIRED' : 'UNREADABLE');
+    setNote('');
+  };
+
+  const handleReject = async () => {
+    if (!rejecting) return;
+    if (reason === 'OTHER' && !note.trim()) {
+      toast.error('Add a note explaining the rejection');
+      return;
+    }
+    setBusyId(rejecting.certificate.id);
+    try {
+      await certificatesApi.rejectCertificate(rejecting.certificate.id, { reason, note: note.trim() || undefined });
+      removeItem(rejecting.certificate.id);
+      toast.success('Certificate rejected');
+      setRejecting(null);
+    } catch (error: unknown) {
+      const err = error as { response?: { data?: { message?: string } } };
+      toast.error(err.response?.data?.message || 'Failed to reject certificate');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRemind = async (item: CertificateReviewItem) => {
+    setBusyId(item.certificate.id);
+    try {
+      await certificatesApi.sendExpiryReminder(item.certificate.id);
+      toast.success(`Reminder sent to ${item.tutor.name}`);
+    } catch {
+      toast.error('Failed to send reminder');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="p-6">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-100">Certificate Verification</h1>
+        <p className="text-gray-400">
+          Approved certificates are marked verified on the tutor's profile. Tutors are notified of every decision.
+        </p>
+      </div>
+
+      {/* Tabs */}
+      <div className="flex gap-1 bg-[#2c2d32] rounded-lg p-1 mb-6 w-fit">
+        {TABS.map((t) => (
+          <button
+            key={t.value}
+            onClick={() => {
+              setTab(t.value);
+              setPage(1);
+            }}
+            className={`px-4 py-2 text-sm font-medium rounded-md transition-all ${tab === t.value ? 'bg-[#25262b] text-gray-100 shadow-sm' : 'text-gray-500 hover:text-gray-300'}`}
+          >
+            {t.label}
+          </button>
+        ))}
+      </div>
+
+      {tab === 'EXPIRING' && (
+        <p className="text-sm text-gray-500 mb-4">
+          Approved certificates that have expired or expire within {EXPIRY_WARNING_DAYS} days.
+        </p>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64"><Spinner size="lg" /></div>
+      ) : items.length === 0 ? (
+        <div className="text-center py-12 text-gray-400">
+          <Award className="w-10 h-10 mx-auto mb-3 text-gray-600" />
+          <p className="text-lg font-medium text-gray-300">
+            {tab === 'EXPIRING' ? 'No certificates are close to expiry' : `No ${tab.toLowerCase()} certificates`}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {items.map((item) => {
+            const { certificate: cert, tutor } = item;
+            const isPending = certificateStatus(cert) === 'PENDING';
+            return (
+              <div key={cert.id} className="bg-[#25262b] border border-gray-700/50 rounded-lg p-4">
+                <div className="flex flex-col md:flex-row md:items-start gap-4">
+                  <div className="flex items-start gap-3 flex-1 min-w-0">
+                    <Avatar src={tutor.avatar} name={tutor.name} size="md" />
+                    <div className="min-w-0">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <p className="font-medium text-gray-100">{cert.name}</p>
+                        <CertificateStatusBadge cert={cert} />
+                      </div>
+                      <p className="text-sm text-gray-400">
+                        {cert.issuedBy} · Issued {formatDate(cert.issuedDate)} · Expires {formatDate(cert.expiryDate)}
+                      </p>
+                      <p className="text-xs text-gray-500 mt-1 flex items-center gap-1">
+                        {tutor.name}
+                        {tutor.email && ` · ${tutor.email}`}
+                        {tutor.isVerified && <Shield className="w-3 h-3 text-blue-400" aria-label="Verified tutor" />}
+                        <span>· Submitted {formatDate(item.submittedAt)}</span>
+                      </p>
+                      {cert.rejectionReason && (
+                        <div className="mt-2 p-2 bg-red-500/5 border border-red-500/20 rounded text-xs text-red-300">
+                          <span className="font-medium">{REJECTION_REASON_LABELS[cert.rejectionReason]}</span>
+                          {cert.reviewNote && ` — ${cert.reviewNote}`}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex md:flex-col gap-2 shrink-0">
+                    <Button size="sm" variant="ghost" onClick={() => setPreviewing(item)} leftIcon={<Eye className="w-4 h-4" />}>
+                      Preview
+                    </Button>
+                    {isPending && (
+                      <>
+                        <Button
+                          size="sm"
+                          variant="success"
+                          onClick={() => handleApprove(item)}
+                          isLoading={busyId === cert.id}
+                          leftIcon={<CheckCircle className="w-4 h-4" />}
+                        >
+                          Approve
+                        </Button>
+                        <Button size="sm" variant="danger" onClick={() => openReject(item)} leftIcon={<XCircle className="w-4 h-4" />}>
+                          Reject
+                        </Button>
+                      </>
+                    )}
+                    {tab === 'EXPIRING' && (
+                      <>
+                        <Button
+                          size="sm"
+                          variant="secondary"
+                          onClick={() => handleRemind(item)}
+                          isLoading={busyId === cert.id}
+                          leftIcon={<BellRing className="w-4 h-4" />}
+                        >
+                          Remind tutor
+                        </Button>
+                        <Button size="sm" variant="danger" onClick={() => openReject(item)} leftIcon={<XCircle className="w-4 h-4" />}>
+                          Revoke
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+          <Pagination currentPage={page} totalPages={totalPages} onPageChange={setPage} />
+        </div>
+      )}
+
+      {/* Document preview */}
+      <Modal
+        isOpen={!!previewing}
+        onClose={() => setPreviewing(null)}
+        title={previewing ? `${previewing.certificate.name} — ${previewing.tutor.name}` : ''}
+        size="lg"
+      >
+        {previewing && (
+          <div className="space-y-4">
+            <DocumentPreview url={previewing.certificate.url} title={previewing.certificate.name} />
+            {certificateStatus(previewing.certificate) === 'PENDING' && (
+              <div className="flex justify-end gap-2 pt-2 border-t border-gray-700/50">
+                <Button variant="danger" onClick={() => openReject(previewing)} leftIcon={<XCircle className="w-4 h-4" />}>
+                  Reject
+                </Button>
+                <Button
+                  variant="success"
+                  onClick={() => handleApprove(previewing)}
+                  isLoading={busyId === previewing.certificate.id}
+                  leftIcon={<CheckCircle className="w-4 h-4" />}
+                >
+                  Approve
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </Modal>
+
+      {/* Rejection reason */}
+      <Modal
+        isOpen={!!rejecting}
+        onClose={() => setRejecting(null)}
+        title={tab === 'EXPIRING' ? 'Revoke Certificate' : 'Reject Certificate'}
+        size="sm"
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-gray-400">
+            {rejecting?.tutor.name} will see the reason and can upload a new copy.
+          </p>
+          <div>
+            <label className="label">Reason</label>
+            <select
+              value={reason}
+              onChange={(e) => setReason(e.target.value as CertificateRejectionReason)}
+              className="input"
+            >
+              {(Object.keys(REJECTION_REASON_LABELS) as CertificateRejectionReason[]).map((r) => (
+                <option key={r} value={r}>{REJECTION_REASON_LABELS[r]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="label">Note to the tutor{reason === 'OTHER' ? '' : ' (optional)'}</label>
+            <textarea value={note} onChange={(e) => setNote(e.target.value)} rows={3} className="input resize-none" />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" onClick={() => setRejecting(null)} disabled={!!busyId}>Cancel</Button>
+            <Button variant="danger" onClick={handleReject} isLoading={!!rejecting && busyId === rejecting.certificate.id}>
+              {tab === 'EXPIRING' ? 'Revoke' : 'Reject'}
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
+
+export default AdminCertificates;
@@ -1,10 +1,11 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { Upload, Image, Loader2, CheckCircle, XCircle, Clock, FileText, Calendar, Users, ChevronLeft, Layers, Eye, Award, Star, Hash, User, RotateCcw } from 'lucide-react';
+import { Upload, Image, Loader2, CheckCircle, XCircle, Clock, FileText, Calendar, Users, ChevronLeft, Layers, Eye, Award, Star, Hash, User, RotateCcw, PenLine, Send } from 'lucide-react';
 import { sectionsApi, dailyPackageApi } from '../../api';
 import { ClassSection, Subject, DailyPackageUpload, DailyPackageStatus, DailyPackageUploadDetail, ExtractedQuestion } from '../../types';
 import { Spinner } from '../../components/ui/Loading';
 import Button from '../../components/ui/Button';
 import { Modal } from '../../components/ui/Modal';
+import { PackageDraftEditor } from '../../components/packages';
 import toast from 'react-hot-toast';
 
 type View = 'main' | 'upload' | 'processing' | 'detail';
@@ -233,6 +234,18 @@ export function AdminDailyPackages() {
     }
   };
 
+  const getReviewBadge = (upload: DailyPackageUpload) => {
+    if (upload.status !== 'COMPLETED' || !upload.reviewStatus) return null;
+    return upload.reviewStatus === 'DRAFT'
+      ? <span className="inline-flex items-center gap-1 badge bg-amber-500/10 text-amber-400"><PenLine className="w-3 h-3" /> Draft</span>
+      : <span className="inline-flex items-center gap-1 badge bg-primary-500/10 text-primary-400"><Send className="w-3 h-3" /> Published</span>;
+  };
+
+  const handleUploadApproved = (detail: DailyPackageUploadDetail) => {
+    setUploadDetail(detail);
+    setUploads(prev => prev.map(u => (u.id === detail.id ? { ...u, reviewStatus: detail.reviewStatus, approvedAt: detail.approvedAt } : u)));
+  };
+
   // --- Processing View (polling) ---
   if (view === 'processing') {
     return (
@@ -318,6 +331,7 @@ export function AdminDailyPackages() {
     const mostAsked = uploadDetail.extracted_questions.filter(q => q.rankType === 'MOST_ASKED').sort((a, b) => (a.rankPosition || 0) - (b.rankPosition || 0));
     const bestAsked = uploadDetail.extracted_questions.filter(q => q.rankType === 'BEST_ASKED').sort((a, b) => (a.rankPosition || 0) - (b.rankPosition || 0));
     const otherQuestions = uploadDetail.extracted_questions.filter(q => !q.rankType);
+    const isDraft = uploadDetail.reviewStatus === 'DRAFT';
 
     return (
       <div className="p-6 max-w-4xl mx-auto">
@@ -331,7 +345,10 @@ export function AdminDailyPackages() {
               {sectionName} {sectionGrade && `· Grade ${sectionGrade}`} · {uploadDetail.subject.replace(/_/g, ' ')}
             </p>
           </div>
-          <div className="ml-auto">{getStatusBadge(uploadDetail.status)}</div>
+          <div className="ml-auto flex items-center gap-2">
+            {getReviewBadge(uploadDetail)}
+            {getStatusBadge(uploadDetail.status)}
+          </div>
         </div>
 
         {/* Stats */}
@@ -354,8 +371,17 @@ export function AdminDailyPackages() {
           </div>
         </div>
 
+        {/* Draft review: editable questions, summaries and quizzes */}
+        {isDraft && (
+          <PackageDraftEditor
+            detail={uploadDetail}
+            onSaved={setUploadDetail}
+            onApproved={handleUploadApproved}
+          />
+        )}
+
         {/* Generated packages */}
-        {uploadDetail.daily_packages && uploadDetail.daily_packages.length > 0 && (
+        {!isDraft && uploadDetail.daily_packages && uploadDetail.daily_packages.length > 0 && (
           <div className="bg-[#25262b] border border-gray-700/50 rounded-lg mb-6">
             <div className="px-5 py-4 border-b border-gray-700/50">
               <h2 className="text-base font-semibold text-gray-200">Generated Packages</h2>
@@ -382,7 +408,7 @@ export function AdminDailyPackages() {
         )}
 
         {/* Most Asked Questions */}
-        {mostAsked.length > 0 && (
+        {!isDraft && mostAsked.length > 0 && (
           <QuestionList
             title="Most Asked Questions"
             icon={<Award className="w-5 h-5 text-primary-600" />}
@@ -392,7 +418,7 @@ export function AdminDailyPackages() {
         )}
 
         {/* Best Asked Questions */}
-        {bestAsked.length > 0 && (
+        {!isDraft && bestAsked.length > 0 && (
           <QuestionList
             title="Best Asked Questions"
             icon={<Star className="w-5 h-5 text-amber-500" />}
@@ -402,7 +428,7 @@ export function AdminDailyPackages() {
         )}
 
         {/* Other Extracted Questions */}
-        {otherQuestions.length > 0 && (
+        {!isDraft && otherQuestions.length > 0 && (
           <QuestionList
             title="Other Extracted Questions"
             icon={<Hash className="w-5 h-5 text-gray-500" />}
@@ -687,6 +713,7 @@ export function AdminDailyPackages() {
                   </div>
                 </div>
                 <div className="flex items-center gap-3">
+                  {getReviewBadge(upload)}
                   {getStatusBadge(upload.status)}
                   {upload.status === 'COMPLETED' && (
                     <button
@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
-import { Users, Building2, GraduationCap, Layers, Plus, UserPlus, ShieldCheck } from 'lucide-react';
+import { Users, Building2, GraduationCap, Layers, Plus, UserPlus, ShieldCheck, BarChart3 } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { usersApi, schoolsApi, sectionsApi, teachersApi } from '../../api';
 import { User, Role, ClassSection, Teacher } from '../../types';
@@ -117,11 +117,18 @@ export function AdminDashboard() {
   if (!isAdmin) {
     return (
       <div className="p-6">
-        <div className="mb-8">
-          <h1 className="text-2xl font-bold text-gray-100 mb-1">School Dashboard</h1>
-          <p className="text-gray-400">
-            Welcome back, {user?.name?.split(' ')[0] || 'Admin'}. Managing <strong className="text-gray-200">{adminrStats.schoolName}</strong>.
-          </p>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-100 mb-1">School Dashboard</h1>
+            <p className="text-gray-400">
+              Welcome back, {user?.name?.split(' ')[0] || 'Admin'}. Managing <strong className="text-gray-200">{adminrStats.schoolName}</strong>.
+            </p>
+          </div>
+          <Link to="/admin/analytics">
+            <Button variant="secondary" leftIcon={<BarChart3 className="w-4 h-4" />}>
+              View analytics
+            </Button>
+          </Link>
         </div>
 
         {/* Stats */}
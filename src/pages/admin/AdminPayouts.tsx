@@ -0,0 +1,376 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Banknote, CheckCircle, XCircle, Plus, ChevronDown, ChevronRight, Flag } from 'lucide-react';
+import { earningsApi } from '../../api';
+import { EarningsDisputeReviewItem, PayoutBatch, PayoutBatchStatus } from '../../types';
+import { Spinner } from '../../components/ui/Loading';
+import { Modal } from '../../components/ui/Modal';
+import Button from '../../components/ui/Button';
+import {
+  PAYOUT_STATUS_LABELS,
+  PAYOUT_STATUS_STYLES,
+  formatMoney,
+  formatWorked,
+  periodStart,
+} from '../../components/earnings';
+import toast from 'react-hot-toast';
+
+type PayoutTab = PayoutBatchStatus | 'DISPUTES';
+
+const TABS: { value: PayoutTab; label: string }[] = [
+  { value: 'PENDING_APPROVAL', label: 'Awaiting approval' },
+  { value: 'APPROVED', label: 'Approved' },
+  { value: 'PAID', label: 'Paid' },
+  { value: 'REJECTED', label: 'Rejected' },
+  { value: 'DISPUTES', label: 'Disputes' },
+];
+
+const formatDate = (date?: string) => (date ? new Date(date).toLocaleDateString() : '—');
+
+// yyyy-mm-dd for date inputs, in local time
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Defaults to the last complete week
+const lastWeek = () => {
+  const end = periodStart(new Date(), 'WEEK');
+  const start = new Date(end.getFullYear(), end.getMonth(), end.getDate() - 7);
+  return { start: toDateInput(start), end: toDateInput(end) };
+};
+
+const apiError = (error: unknown, fallback: string) => {
+  const err = error as { response?: { data?: { message?: string } } };
+  return err.response?.data?.message || fallback;
+};
+
+// Approve tutor payout batches and settle disputed sessions before they're paid
+export function AdminPayouts() {
+  const [tab, setTab] = useState<PayoutTab>('PENDING_APPROVAL');
+  const [batches, setBatches] = useState<PayoutBatch[]>([]);
+  const [disputes, setDisputes] = useState<EarningsDisputeReviewItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const [showCreate, setShowCreate] = useState(false);
+  const [range, setRange] = useState(lastWeek);
+  const [rejecting, setRejecting] = useState<PayoutBatch | null>(null);
+  const [note, setNote] = useState('');
+  const [resolving, setResolving] = useState<EarningsDisputeReviewItem | null>(null);
+  const [adjustedMinutes, setAdjustedMinutes] = useState('');
+
+  const fetchItems = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      if (tab === 'DISPUTES') {
+        setDisputes(await earningsApi.getOpenDisputes());
+      } else {
+        setBatches(await earningsApi.getPayoutBatches({ status: tab }));
+      }
+    } catch {
+      toast.error(tab === 'DISPUTES' ? 'Failed to load disputes' : 'Failed to load payouts');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [tab]);
+
+  useEffect(() => {
+    fetchItems();
+  }, [fetchItems]);
+
+  const removeBatch = (batchId: string) => setBatches((prev) => prev.filter((b) => b.id !== batchId));
+
+  const handleCreate = async () => {
+    if (!range.start || !range.end || range.start >= range.end) {
+      toast.error('Pick an end date after the start date');
+      return;
+    }
+    setBusyId('create');
+    try {
+      const batch = await earningsApi.createPayoutBatch({
+        periodStart: new Date(`${range.start}T00:00:00`).toISOString(),
+        periodEnd: new Date(`${range.end}T00:00:00`).toISOString(),
+      });
+      toast.success(`Batch created for ${batch.items.length} tutor${batch.items.length === 1 ? '' : 's'}`);
+      setShowCreate(false);
+      if (tab === 'PENDING_APPROVAL') setBatches((prev) => [batch, ...prev]);
+      else setTab('PENDING_APPROVAL');
+    } catch (error) {
+      toast.error(apiError(error, 'Failed to create batch'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleApprove = async (batch: PayoutBatch) => {
+    if (!confirm(`Approve ${formatMoney(batch.totalAmount, batch.currency)} for ${batch.items.length} tutors?`)) return;
+    setBusyId(batch.id);
+    try {
+      await earningsApi.approvePayoutBatch(batch.id);
+      removeBatch(batch.id);
+      toast.success('Batch approved');
+    } catch (error) {
+      toast.error(apiError(error, 'Failed to approve batch'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleReject = async () => {
+    if (!rejecting || !note.trim()) return;
+    setBusyId(rejecting.id);
+    try {
+      await earningsApi.rejectPayoutBatch(rejecting.id, note.trim());
+      removeBatch(rejecting.id);
+      toast.success('Batch rejected');
+      setRejecting(null);
+    } catch (error) {
+      toast.error(apiError(error, 'Failed to reject batch'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const openResolve = (item: EarningsDisputeReviewItem) => {
+    setResolving(item);
+    setAdjustedMinutes('');
+    setNote('');
+  };
+
+  const handleResolve = async () => {
+    if (!resolving) return;
+    const minutes = adjustedMinutes.trim() ? Number(adjustedMinutes) : undefined;
+    if (minutes !== undefined && (!Number.isFinite(minutes) || minutes < 0)) {
+      toast.error('Enter the corrected length in minutes');
+      return;
+    }
+    setBusyId(resolving.id);
+    try {
+      await earningsApi.resolveDispute(resolving.id, {
+        adjustedSeconds: minutes !== undefined ? Math.round(minutes * 60) : undefined,
+        note: note.trim() || undefined,
+      });
+      setDisputes((prev) => prev.filter((d) => d.id !== resolving.id));
+      toast.success('Dispute resolved');
+      setResolving(null);
+    } catch (error) {
+      toast.error(apiError(error, 'Failed to resolve dispute'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="p-6">
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-100">Tutor Payouts</h1>
+          <p className="text-gray-400">
+            Batches total each tutor's completed sessions and calls for a period. Open disputes are held back.
+          </p>
+        </div>
+        <Button onClick={() => setShowCreate(true)} leftIcon={<Plus className="w-4 h-4" />}>
+          New batch
+        </Button>
+      </div>
+
+      {/* Tabs */}
+      <div className="flex gap-1 bg-[#2c2d32] rounded-lg p-1 mb-6 w-fit">
+        {TABS.map((t) => (
+          <button
+            key={t.value}
+            onClick={() => setTab(t.value)}
+            className={`px-4 py-2 text-sm font-medium rounded-md transition-all ${tab === t.value ? 'bg-[#25262b] text-gray-100 shadow-sm' : 'text-gray-500 hover:text-gray-300'}`}
+          >
+            {t.label}
+          </button>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64"><Spinner size="lg" /></div>
+      ) : tab === 'DISPUTES' ? (
+        disputes.length === 0 ? (
+          <div className="text-center py-12 text-gray-400">
+            <Flag className="w-10 h-10 mx-auto mb-3 text-gray-600" />
+            <p className="text-lg font-medium text-gray-300">No open disputes</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {disputes.map((item) => (
+              <div key={item.id} className="bg-[#25262b] border border-gray-700/50 rounded-lg p-4 flex flex-col md:flex-row md:items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-gray-100">
+                    {item.tutor.name} · {item.source === 'CALL' ? 'Call' : 'Session'} on {formatDate(item.startedAt)}
+                  </p>
+                  <p className="text-sm text-gray-400">Recorded as {formatWorked(item.recordedSeconds)} — "{item.reason}"</p>
+                  <p className="text-xs text-gray-500 mt-1">Flagged {formatDate(item.createdAt)}</p>
+                </div>
+                <Button size="sm" variant="secondary" onClick={() => openResolve(item)}>
+                  Resolve
+                </Button>
+              </div>
+            ))}
+          </div>
+        )
+      ) : batches.length === 0 ? (
+        <div className="text-center py-12 text-gray-400">
+          <Banknote className="w-10 h-10 mx-auto mb-3 text-gray-600" />
+          <p className="text-lg font-medium text-gray-300">No {PAYOUT_STATUS_LABELS[tab].toLowerCase()} batches</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {batches.map((batch) => {
+            const isOpen = expanded === batch.id;
+            return (
+              <div key={batch.id} className="bg-[#25262b] border border-gray-700/50 rounded-lg">
+                <div className="flex flex-col md:flex-row md:items-center gap-3 p-4">
+                  <button onClick={() => setExpanded(isOpen ? null : batch.id)} className="flex items-center gap-3 flex-1 min-w-0 text-left">
+                    {isOpen ? <ChevronDown className="w-4 h-4 text-gray-500" /> : <ChevronRight className="w-4 h-4 text-gray-500" />}
+                    <div className="min-w-0">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <p className="font-medium text-gray-100">
+                          {formatDate(batch.periodStart)} – {formatDate(batch.periodEnd)}
+                        </p>
+                        <span className={`px-2 py-0.5 text-xs rounded-full ${PAYOUT_STATUS_STYLES[batch.status]}`}>
+                          {PAYOUT_STATUS_LABELS[batch.status]}
+                        </span>
+                      </div>
+                      <p className="text-sm text-gray-400">
+                        {formatMoney(batch.totalAmount, batch.currency)} · {batch.items.length} tutor{batch.items.length === 1 ? '' : 's'}
+                        {batch.reviewedBy && ` · Reviewed by ${batch.reviewedBy.name} ${formatDate(batch.reviewedAt)}`}
+                      </p>
+                      {batch.reviewNote && <p className="text-xs text-red-300 mt-1">{batch.reviewNote}</p>}
+                    </div>
+                  </button>
+                  {batch.status === 'PENDING_APPROVAL' && (
+                    <div className="flex gap-2 shrink-0">
+                      <Button
+                        size="sm"
+                        variant="success"
+                        onClick={() => handleApprove(batch)}
+                        isLoading={busyId === batch.id}
+                        leftIcon={<CheckCircle className="w-4 h-4" />}
+                      >
+                        Approve
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="danger"
+                        onClick={() => {
+                          setRejecting(batch);
+                          setNote('');
+                        }}
+                        leftIcon={<XCircle className="w-4 h-4" />}
+                      >
+                        Reject
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
+                {isOpen && (
+                  <div className="border-t border-gray-700/50 overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-xs text-gray-500">
+                          <th className="px-4 py-2 font-medium">Tutor</th>
+                          <th className="px-4 py-2 font-medium">Bank</th>
+                          <th className="px-4 py-2 font-medium text-right">Time</th>
+                          <th className="px-4 py-2 font-medium text-right">Held</th>
+                          <th className="px-4 py-2 font-medium text-right">Amount</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-700/40">
+                        {batch.items.map((item) => (
+                          <tr key={item.tutorId} className="text-gray-300">
+                            <td className="px-4 py-2">
+                              {item.tutorName}
+                              {item.tutorEmail && <span className="block text-xs text-gray-500">{item.tutorEmail}</span>}
+                            </td>
+                            <td className="px-4 py-2">
+                              {item.bankAccountLast4 ? (
+                                `${item.bankName ?? 'Account'} ••${item.bankAccountLast4}`
+                              ) : (
+                                <span className="text-amber-400">Missing</span>
+                              )}
+                            </td>
+                            <td className="px-4 py-2 text-right">{formatWorked(item.seconds)}</td>
+                            <td className="px-4 py-2 text-right">
+                              {item.disputedCount > 0 ? <span className="text-amber-400">{item.disputedCount}</span> : '—'}
+                            </td>
+                            <td className="px-4 py-2 text-right font-medium text-gray-100">{formatMoney(item.amount, batch.currency)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* New batch */}
+      <Modal isOpen={showCreate} onClose={() => setShowCreate(false)} title="New Payout Batch" size="sm">
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="label">From</label>
+              <input type="date" value={range.start} onChange={(e) => setRange((r) => ({ ...r, start: e.target.value }))} className="input" />
+            </div>
+            <div>
+              <label className="label">To (exclusive)</label>
+              <input type="date" value={range.end} onChange={(e) => setRange((r) => ({ ...r, end: e.target.value }))} className="input" />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">Sessions already in another batch are skipped.</p>
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" onClick={() => setShowCreate(false)} disabled={busyId === 'create'}>Cancel</Button>
+            <Button onClick={handleCreate} isLoading={busyId === 'create'}>Create batch</Button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Reject batch */}
+      <Modal isOpen={!!rejecting} onClose={() => setRejecting(null)} title="Reject Payout Batch" size="sm">
+        <div className="space-y-4">
+          <p className="text-sm text-gray-400">The batch's sessions become available for a new batch.</p>
+          <div>
+            <label className="label">Reason</label>
+            <textarea value={note} onChange={(e) => setNote(e.target.value)} rows={3} className="input resize-none" />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" onClick={() => setRejecting(null)} disabled={!!busyId}>Cancel</Button>
+            <Button variant="danger" onClick={handleReject} disabled={!note.trim()} isLoading={!!rejecting && busyId === rejecting.id}>
+              Reject
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Resolve dispute */}
+      <Modal isOpen={!!resolving} onClose={() => setResolving(null)} title="Resolve Dispute" size="sm">
+        <div className="space-y-4">
+          <p className="text-sm text-gray-400">
+            Recorded as {resolving && formatWorked(resolving.recordedSeconds)}. Leave the length empty to keep it.
+          </p>
+          <div>
+            <label className="label">Corrected length (minutes, optional)</label>
+            <input type="number" min={0} value={adjustedMinutes} onChange={(e) => setAdjustedMinutes(e.target.value)} className="input" />
+          </div>
+          <div>
+            <label className="label">Note to the tutor (optional)</label>
+            <textarea value={note} onChange={(e) => setNote(e.target.value)} rows={2} className="input resize-none" />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" onClick={() => setResolving(null)} disabled={!!busyId}>Cancel</Button>
+            <Button onClick={handleResolve} isLoading={!!resolving && busyId === resolving.id}>Resolve</Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
+
+export default AdminPayouts;
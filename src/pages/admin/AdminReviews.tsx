@@ -0,0 +1,182 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Flag, Trash2, CheckCircle } from 'lucide-react';
+import { reviewsApi } from '../../api';
+import { ReviewFlag, ReviewFlagStatus } from '../../types';
+import { Spinner } from '../../components/ui/Loading';
+import { Modal } from '../../components/ui/Modal';
+import Button from '../../components/ui/Button';
+import Pagination from '../../components/ui/Pagination';
+import { StarRating, REVIEW_TAG_LABELS } from '../../components/reviews';
+import toast from 'react-hot-toast';
+
+const STATUS_TABS: { value: ReviewFlagStatus; label: string }[] = [
+  { value: 'OPEN', label: 'Open' },
+  { value: 'REMOVED', label: 'Removed' },
+  { value: 'DISMISSED', label: 'Dismissed' },
+];
+
+const PAGE_SIZE = 20;
+
+// Reviews tutors have reported as abusive
+export function AdminReviews() {
+  const [status, setStatus] = useState<ReviewFlagStatus>('OPEN');
+  const [flags, setFlags] = useState<ReviewFlag[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const [resolving, setResolving] = useState<{ flag: ReviewFlag; status: 'REMOVED' | 'DISMISSED' } | null>(null);
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchFlags = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const data = await reviewsApi.getFlags({ status, page, limit: PAGE_SIZE });
+      setFlags(data.flags);
+      setTotalPages(data.totalPages);
+    } catch {
+      toast.error('Failed to load reported reviews');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status, page]);
+
+  useEffect(() => {
+    fetchFlags();
+  }, [fetchFlags]);
+
+  const handleResolve = async () => {
+    if (!resolving) return;
+    setIsSubmitting(true);
+    try {
+      await reviewsApi.resolveFlag(resolving.flag.id, { status: resolving.status, note: note.trim() || undefined });
+      setFlags((prev) => prev.filter((f) => f.id !== resolving.flag.id));
+      toast.success(resolving.status === 'REMOVED' ? 'Review removed' : 'Report dismissed');
+      setResolving(null);
+      setNote('');
+    } catch (error: unknown) {
+      const err = error as { response?: { data?: { message?: string } } };
+      toast.error(err.response?.data?.message || 'Failed to resolve report');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="p-6">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-100">Reported Reviews</h1>
+        <p className="text-gray-400">Removed reviews are hidden and no longer count toward the tutor's rating.</p>
+      </div>
+
+      {/* Tabs */}
+      <div className="flex gap-1 bg-[#2c2d32] rounded-lg p-1 mb-6 w-fit">
+        {STATUS_TABS.map((tab) => (
+          <button
+            key={tab.value}
+            onClick={() => {
+              setStatus(tab.value);
+              setPage(1);
+            }}
+            className={`px-4 py-2 text-sm font-medium rounded-md transition-all ${status === tab.value ? 'bg-[#25262b] text-gray-100 shadow-sm' : 'text-gray-500 hover:text-gray-300'}`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64"><Spinner size="lg" /></div>
+      ) : flags.length === 0 ? (
+        <div className="text-center py-12 text-gray-400">
+          <Flag className="w-10 h-10 mx-auto mb-3 text-gray-600" />
+          <p className="text-lg font-medium text-gray-300">No {status.toLowerCase()} reports</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {flags.map((flag) => (
+            <div key={flag.id} className="bg-[#25262b] border border-gray-700/50 rounded-lg p-4">
+              <div className="flex flex-col md:flex-row md:items-start gap-4">
+                <div className="flex-1 min-w-0">
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <StarRating value={flag.review.rating} size="sm" />
+                    <span className="text-gray-200">{flag.review.student?.name || 'Student'}</span>
+                    <span className="text-gray-500">→ {flag.tutor.name}</span>
+                    <span className="text-xs text-gray-500">{new Date(flag.review.createdAt).toLocaleDateString()}</span>
+                  </div>
+                  {flag.review.tags.length > 0 && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      {flag.review.tags.map((tag) => REVIEW_TAG_LABELS[tag]).join(' · ')}
+                    </p>
+                  )}
+                  <p className="text-sm text-gray-300 mt-2 whitespace-pre-wrap">
+                    {flag.review.comment || <span className="italic text-gray-500">No comment</span>}
+                  </p>
+                  <div className="mt-3 p-2 bg-red-500/5 border border-red-500/20 rounded text-xs text-red-300">
+                    <span className="font-medium">Tutor's reason:</span> {flag.reason}
+                  </div>
+                  {flag.resolutionNote && (
+                    <p className="text-xs text-gray-500 mt-2">Note: {flag.resolutionNote}</p>
+                  )}
+                </div>
+                {flag.status === 'OPEN' && (
+                  <div className="flex md:flex-col gap-2 shrink-0">
+                    <Button
+                      size="sm"
+                      variant="danger"
+                      onClick={() => setResolving({ flag, status: 'REMOVED' })}
+                      leftIcon={<Trash2 className="w-4 h-4" />}
+                    >
+                      Remove review
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      onClick={() => setResolving({ flag, status: 'DISMISSED' })}
+                      leftIcon={<CheckCircle className="w-4 h-4" />}
+                    >
+                      Keep review
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+          <Pagination currentPage={page} totalPages={totalPages} onPageChange={setPage} />
+        </div>
+      )}
+
+      <Modal
+        isOpen={!!resolving}
+        onClose={() => setResolving(null)}
+        title={resolving?.status === 'REMOVED' ? 'Remove Review' : 'Keep Review'}
+        size="sm"
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-gray-400">
+            {resolving?.status === 'REMOVED'
+              ? 'The review will be hidden and the tutor\'s rating recalculated.'
+              : 'The review stays visible and the report is closed.'}
+          </p>
+          <div>
+            <label className="label">Note to the tutor (optional)</label>
+            <textarea value={note} onChange={(e) => setNote(e.target.value)} rows={2} className="input resize-none" />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" onClick={() => setResolving(null)} disabled={isSubmitting}>Cancel</Button>
+            <Button
+              variant={resolving?.status === 'REMOVED' ? 'danger' : 'primary'}
+              onClick={handleResolve}
+              isLoading={isSubmitting}
+            >
+              Confirm
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
+
+export default AdminReviews;
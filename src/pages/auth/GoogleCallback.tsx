@@ -23,6 +23,7 @@ export function GoogleCallback() {
             const role = stored ? JSON.parse(stored).role : null;
             const path = role === 'TEACHER' ? '/dashboard/teacher' :
                          role === 'TUTOR' ? '/dashboard/tutor' :
+                         role === 'GUARDIAN' ? '/guardian' :
                          role === 'ADMIN' || role === 'ADMINISTRATOR' ? '/admin' : '/chat';
             navigate(path, { replace: true });
           } catch {
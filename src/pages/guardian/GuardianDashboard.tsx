@@ -0,0 +1,240 @@
+import { useState, useEffect } from 'react';
+import { Users, MessageSquare, Video, Flame, ClipboardCheck, ChevronLeft, ChevronRight, Lock } from 'lucide-react';
+import { guardiansApi } from '../../api';
+import { GuardianOverview, GuardianStudent, GuardianWeeklyDigest } from '../../types';
+import { Spinner } from '../../components/ui/Loading';
+import Avatar from '../../components/ui/Avatar';
+import {
+  SHARING_OPTIONS,
+  WeeklyDigestView,
+  averageQuizPercent,
+  formatWeekRange,
+  quizPercent,
+} from '../../components/guardian';
+import toast from 'react-hot-toast';
+
+type DashboardTab = 'overview' | 'digest';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString();
+
+function StatCard({ icon: Icon, label, value, subtext }: {
+  icon: React.ComponentType<{ className?: string }>;
+  label: string;
+  value: string | number;
+  subtext?: string;
+}) {
+  return (
+    <div className="bg-[#25262b] border border-gray-700/50 rounded-lg p-4">
+      <div className="flex items-center gap-2 text-xs text-gray-500">
+        <Icon className="w-3.5 h-3.5" /> {label}
+      </div>
+      <p className="text-2xl font-semibold text-gray-100 mt-1">{value}</p>
+      {subtext && <p className="text-xs text-gray-500">{subtext}</p>}
+    </div>
+  );
+}
+
+function ListCard({ title, empty, children }: { title: string; empty: boolean; children: React.ReactNode }) {
+  return (
+    <div className="bg-[#25262b] border border-gray-700/50 rounded-lg p-4">
+      <h2 className="text-sm font-semibold text-gray-100 mb-3">{title}</h2>
+      {empty ? <p className="text-sm text-gray-500">Nothing yet.</p> : <div className="divide-y divide-gray-700/40">{children}</div>}
+    </div>
+  );
+}
+
+// Read-only view of what linked students have chosen to share
+export function GuardianDashboard() {
+  const [students, setStudents] = useState<GuardianStudent[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [tab, setTab] = useState<DashboardTab>('overview');
+  const [overview, setOverview] = useState<GuardianOverview | null>(null);
+  const [digest, setDigest] = useState<GuardianWeeklyDigest | null>(null);
+  // Undefined asks the server for the last complete week
+  const [digestWeek, setDigestWeek] = useState<string | undefined>(undefined);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingDetail, setIsLoadingDetail] = useState(false);
+
+  useEffect(() => {
+    guardiansApi.getStudents()
+      .then((data) => {
+        setStudents(data);
+        setSelectedId(data[0]?.studentId ?? null);
+      })
+      .catch(() => toast.error('Failed to load students'))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const selected = students.find((s) => s.studentId === selectedId) ?? null;
+  const canViewDigest = !!selected?.sharing.weeklyDigest;
+
+  useEffect(() => {
+    if (!selectedId || (tab === 'digest' && !canViewDigest)) return;
+    setIsLoadingDetail(true);
+    const request = tab === 'overview'
+      ? guardiansApi.getOverview(selectedId).then(setOverview)
+      : guardiansApi.getWeeklyDigest(selectedId, digestWeek).then(setDigest);
+    request
+      .catch(() => toast.error(tab === 'overview' ? 'Failed to load progress' : 'Failed to load digest'))
+      .finally(() => setIsLoadingDetail(false));
+  }, [selectedId, tab, digestWeek, canViewDigest]);
+
+  const shiftWeek = (weeks: number) => {
+    if (!digest) return;
+    setDigestWeek(new Date(new Date(digest.weekStart).getTime() + weeks * 7 * DAY_MS).toISOString());
+  };
+
+  if (isLoading) {
+    return <div className="flex items-center justify-center h-64"><Spinner size="lg" /></div>;
+  }
+
+  if (!selected) {
+    return (
+      <div className="p-6 max-w-5xl mx-auto text-center py-16 text-gray-400">
+        <Users className="w-10 h-10 mx-auto mb-3 text-gray-600" />
+        <p className="text-lg font-medium text-gray-300">No linked students</p>
+        <p className="text-sm mt-1">Students link you from their profile. Ask them to send an invitation.</p>
+      </div>
+    );
+  }
+
+  const hidden = SHARING_OPTIONS.filter((option) => !selected.sharing[option.key]);
+  const lastWeekStart = Date.now() - 7 * DAY_MS;
+
+  return (
+    <div className="p-6 max-w-5xl mx-auto">
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4 mb-6">
+        <div className="flex items-center gap-3">
+          <Avatar src={selected.avatar} name={selected.name} size="lg" />
+          <div>
+            <h1 className="text-2xl font-bold text-gray-100">{selected.name}</h1>
+            <p className="text-gray-400">{selected.grade ? `Grade ${selected.grade}` : 'Student progress'}</p>
+          </div>
+        </div>
+        {students.length > 1 && (
+          <select
+            value={selected.studentId}
+            onChange={(e) => {
+              setSelectedId(e.target.value);
+              setDigestWeek(undefined);
+            }}
+            className="input w-auto"
+          >
+            {students.map((s) => <option key={s.studentId} value={s.studentId}>{s.name}</option>)}
+          </select>
+        )}
+      </div>
+
+      {/* Tabs */}
+      <div className="flex gap-1 bg-[#2c2d32] rounded-lg p-1 mb-6 w-fit">
+        {([['overview', 'Overview'], ['digest', 'Weekly digest']] as [DashboardTab, string][]).map(([value, label]) => (
+          <button
+            key={value}
+            onClick={() => setTab(value)}
+            className={`px-4 py-2 text-sm font-medium rounded-md transition-all ${tab === value ? 'bg-[#25262b] text-gray-100 shadow-sm' : 'text-gray-500 hover:text-gray-300'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {hidden.length > 0 && (
+        <p className="flex items-center gap-2 text-xs text-gray-500 mb-4">
+          <Lock className="w-3.5 h-3.5" />
+          {selected.name} hasn't shared: {hidden.map((option) => option.label.toLowerCase()).join(', ')}.
+        </p>
+      )}
+
+      {isLoadingDetail ? (
+        <div className="flex items-center justify-center h-64"><Spinner size="lg" /></div>
+      ) : tab === 'overview' && overview ? (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {overview.questions && (
+              <StatCard icon={MessageSquare} label="Questions asked" value={overview.questions.total} subtext={`${overview.questions.thisWeek} this week`} />
+            )}
+            {overview.tutorSessions && (
+              <StatCard icon={Video} label="Tutor sessions" value={overview.tutorSessions.total} />
+            )}
+            {overview.quizScores && (
+              <StatCard
+                icon={ClipboardCheck}
+                label="Recent quiz average"
+                value={averageQuizPercent(overview.quizScores.recent) === null ? '—' : `${averageQuizPercent(overview.quizScores.recent)}%`}
+              />
+            )}
+            {overview.streak && (
+              <StatCard icon={Flame} label="Streak" value={`${overview.streak.current} days`} subtext={`Best: ${overview.streak.longest}`} />
+            )}
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            {overview.questions && (
+              <ListCard title="Recent questions" empty={overview.questions.recent.length === 0}>
+                {overview.questions.recent.map((q) => (
+                  <div key={q.id} className="py-2 text-sm">
+                    <p className="text-gray-200 truncate">{q.title}</p>
+                    <p className="text-xs text-gray-500">{q.subject && `${q.subject} · `}{formatDate(q.createdAt)}</p>
+                  </div>
+                ))}
+              </ListCard>
+            )}
+            {overview.tutorSessions && (
+              <ListCard title="Recent tutor sessions" empty={overview.tutorSessions.recent.length === 0}>
+                {overview.tutorSessions.recent.map((s) => (
+                  <div key={s.id} className="py-2 text-sm">
+                    <p className="text-gray-200 truncate">{s.topic}</p>
+                    <p className="text-xs text-gray-500">
+                      with {s.tutorName} · {formatDate(s.startedAt)} · {Math.round(s.duration / 60)} min
+                    </p>
+                  </div>
+                ))}
+              </ListCard>
+            )}
+            {overview.quizScores && (
+              <ListCard title="Daily quiz scores" empty={overview.quizScores.recent.length === 0}>
+                {overview.quizScores.recent.map((q) => (
+                  <div key={q.packageId} className="py-2 text-sm flex items-center justify-between">
+                    <span className="text-gray-200">
+                      {q.subject} <span className="text-xs text-gray-500">{formatDate(q.packageDate)}</span>
+                    </span>
+                    <span className={quizPercent(q) >= 70 ? 'text-emerald-400' : quizPercent(q) >= 40 ? 'text-amber-400' : 'text-red-400'}>
+                      {q.score}/{q.total}
+                    </span>
+                  </div>
+                ))}
+              </ListCard>
+            )}
+          </div>
+        </div>
+      ) : tab === 'digest' && !canViewDigest ? (
+        <div className="text-center py-12 text-gray-400">
+          <Lock className="w-10 h-10 mx-auto mb-3 text-gray-600" />
+          <p className="text-lg font-medium text-gray-300">Weekly digest isn't shared</p>
+        </div>
+      ) : tab === 'digest' && digest ? (
+        <div>
+          <div className="flex items-center justify-between mb-3">
+            <button onClick={() => shiftWeek(-1)} className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-[#2c2d32]" title="Previous week">
+              <ChevronLeft className="w-5 h-5" />
+            </button>
+            <p className="text-sm text-gray-300">{formatWeekRange(digest.weekStart, digest.weekEnd)}</p>
+            <button
+              onClick={() => shiftWeek(1)}
+              disabled={new Date(digest.weekStart).getTime() >= lastWeekStart}
+              className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-[#2c2d32] disabled:opacity-30"
+              title="Next week"
+            >
+              <ChevronRight className="w-5 h-5" />
+            </button>
+          </div>
+          <WeeklyDigestView digest={digest} />
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+export default GuardianDashboard;
@@ -8,14 +8,22 @@ export { default as GoogleCallback } from './auth/GoogleCallback';
 // Student Pages
 export { default as StudentDashboard } from './student/StudentDashboard';
 export { default as StudentPackages } from './student/StudentPackages';
+export { default as FlashcardReview } from './student/FlashcardReview';
+export { default as MasteryMap } from './student/MasteryMap';
 export { default as ProjectsList } from './student/ProjectsList';
 export { default as ProjectDetail } from './student/ProjectDetail';
+export { default as TutorDirectory } from './student/TutorDirectory';
+export { default as TutorDetail } from './student/TutorDetail';
 
 // Teacher Pages
 export { default as TeacherDashboard } from './teacher/TeacherDashboard';
 
 // Tutor Pages
 export { default as TutorDashboard } from './tutor/TutorDashboard';
+export { default as TutorEarnings } from './tutor/TutorEarnings';
+
+// Guardian Pages
+export { default as GuardianDashboard } from './guardian/GuardianDashboard';
 
 // Admin Pages
 export { default as AdminDashboard } from './admin/AdminDashboard';
@@ -25,12 +33,19 @@ export { default as AdminConversations } from './admin/AdminConversations';
 export { default as AdminTeachers } from './admin/AdminTeachers';
 export { default as AdminSections } from './admin/AdminSections';
 export { default as AdminDailyPackages } from './admin/AdminDailyPackages';
+export { default as AdminReviews } from './admin/AdminReviews';
+export { default as AdminCertificates } from './admin/AdminCertificates';
+export { default as AdminPayouts } from './admin/AdminPayouts';
+export { default as AdminAnalytics } from './admin/AdminAnalytics';
 
 // Shared Pages
 export { default as Conversations } from './Conversations';
 export { default as Chat } from './Chat';
 export { default as Profile } from './Profile';
 export { default as SharedConversation } from './SharedConversation';
+export { default as Bookings } from './Bookings';
+export { default as Recordings } from './Recordings';
+export { default as SessionPlayback } from './SessionPlayback';
 
 // Error Pages
 export { default as NotFound } from './errors/NotFound';
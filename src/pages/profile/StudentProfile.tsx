@@ -8,6 +8,9 @@ import { useAuth } from '../../contexts/AuthContext';
 import { studentProfileApi } from '../../api';
 import { StudentProfile as StudentProfileType, Subject } from '../../types';
 import Avatar from '../../components/ui/Avatar';
+import { GuardianSharingPanel } from '../../components/guardian';
+import { describeGoal } from '../../components/goals';
+import { useLearningGoals } from '../../hooks/useLearningGoals';
 import toast from 'react-hot-toast';
 
 const SUBJECTS: { value: Subject; label: string; color: string }[] = [
@@ -108,6 +111,7 @@ export function StudentProfilePage() {
   const [isSaving, setIsSaving] = useState(false);
   const [editForm, setEditForm] = useState<Partial<StudentProfileType>>({});
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const { progress: goalProgress, streak, isLoading: isLoadingGoals } = useLearningGoals();
 
   // Fetch profile
   useEffect(() => {
@@ -213,9 +217,13 @@ export function StudentProfilePage() {
     );
   }
 
+  // Computed from activity once it loads; the stored figures are a fallback
+  const currentStreak = isLoadingGoals ? profile.currentStreak || 0 : streak.current;
+  const longestStreak = Math.max(profile.longestStreak || 0, isLoadingGoals ? 0 : streak.longest);
+
   const achievements = [
     { name: 'First Steps', description: 'Asked first question', unlocked: true, icon: '🚀' },
-    { name: 'Week Warrior', description: '7-day streak', unlocked: (profile.currentStreak || 0) >= 7, icon: '🔥' },
+    { name: 'Week Warrior', description: '7-day streak', unlocked: currentStreak >= 7, icon: '🔥' },
     { name: 'Deep Diver', description: '10+ hours learned', unlocked: (profile.totalHoursLearned || 0) >= 10, icon: '🏊' },
     { name: 'Curious Mind', description: '25 questions', unlocked: (profile.totalQuestions || 0) >= 25, icon: '🧠' },
   ];
@@ -247,10 +255,10 @@ export function StudentProfilePage() {
               className="hidden"
               onChange={handleAvatarUpload}
             />
-            {(profile.currentStreak || 0) > 0 && (
+            {currentStreak > 0 && (
               <div className="absolute -bottom-1 -right-1 flex items-center gap-0.5 px-1.5 py-0.5 bg-orange-500 rounded-full text-xs font-bold">
                 <Flame className="w-2.5 h-2.5" />
-                {profile.currentStreak}
+                {currentStreak}
               </div>
             )}
           </div>
@@ -308,7 +316,7 @@ export function StudentProfilePage() {
 
         {/* Stats */}
         <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-6">
-          <StatCard icon={Flame} label="Streak" value={profile.currentStreak || 0} subtext={`Best: ${profile.longestStreak || 0}`} color="bg-orange-500" />
+          <StatCard icon={Flame} label="Streak" value={currentStreak} subtext={`Best: ${longestStreak}`} color="bg-orange-500" />
           <StatCard icon={Target} label="Questions" value={profile.totalQuestions || 0} color="bg-blue-500" />
           <StatCard icon={Clock} label="Hours" value={(profile.totalHoursLearned || 0).toFixed(1)} color="bg-emerald-500" />
           <StatCard icon={TrendingUp} label="Sessions" value={profile.totalSessions || 0} color="bg-purple-500" />
@@ -339,6 +347,16 @@ export function StudentProfilePage() {
               ) : (
                 <p className="text-sm text-gray-300">{profile.learningGoals || 'No learning goals set'}</p>
               )}
+              {goalProgress.length > 0 && (
+                <div className="mt-3 space-y-1.5">
+                  {goalProgress.map(({ goal, current, done }) => (
+                    <div key={goal.id} className="flex items-center justify-between text-xs">
+                      <span className={done ? 'text-emerald-400' : 'text-gray-400'}>{describeGoal(goal)}</span>
+                      <span className="text-gray-500">{Math.min(current, goal.target)}/{goal.target}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
             </FormSection>
 
             {/* Personal Info (Edit Mode) */}
@@ -543,6 +561,8 @@ export function StudentProfilePage() {
                     </div>
                   </FormSection>
                 )}
+
+                <GuardianSharingPanel defaultName={profile.parentName} defaultEmail={profile.parentEmail} />
               </>
             )}
 
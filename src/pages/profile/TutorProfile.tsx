@@ -3,7 +3,7 @@ import {
   Briefcase,
   Edit3, Save, X, Camera, Star, Clock, Users, MessageSquare,
   Award, GraduationCap, Globe, Linkedin, Link as LinkIcon, Plus,
-  Trash2, CheckCircle, Shield, Loader2
+  Trash2, Shield, Loader2
 } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { tutorProfileApi } from '../../api';
@@ -16,6 +16,10 @@ import {
   TeachingStyle 
 } from '../../types';
 import Avatar from '../../components/ui/Avatar';
+import { AvailabilityEditor, WEEK_ORDER, browserTimezone, scheduleWindow, formatNextAvailable, validateDaySlots } from '../../components/availability';
+import { ReviewList } from '../../components/reviews';
+import { ACADEMIC_LEVELS } from '../../components/tutors';
+import { CertificateStatusBadge, REJECTION_REASON_LABELS, certificateStatus } from '../../components/certificates';
 import toast from 'react-hot-toast';
 
 const SUBJECTS: { value: Subject; label: string; color: string }[] = [
@@ -36,8 +40,6 @@ const SUBJECTS: { value: Subject; label: string; color: string }[] = [
 ];
 
 const TEACHING_STYLES: TeachingStyle[] = ['Interactive', 'Lecture-based', 'Project-based', 'Discussion-based', 'Hands-on', 'Mixed'];
-// const TIMEZONES = ['Asia/Kathmandu', 'America/New_York', 'America/Los_Angeles', 'Europe/London', 'Asia/Tokyo', 'Australia/Sydney'];
-// const DAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'] as const;
 
 // Stats Card
 function StatCard({ icon: Icon, label, value, color }: {
@@ -135,11 +137,16 @@ function CertificateCard({ cert, onRemove, isEditing }: { cert: Certificate; onR
         <Award className="w-4 h-4 text-amber-400" />
       </div>
       <div className="flex-1 min-w-0">
-        <div className="flex items-center gap-1">
+        <div className="flex flex-wrap items-center gap-1">
           <p className="text-sm font-medium text-white">{cert.name}</p>
-          {cert.verified && <CheckCircle className="w-3 h-3 text-emerald-400" />}
+          <CertificateStatusBadge cert={cert} />
         </div>
         <p className="text-xs text-gray-400">{cert.issuedBy}</p>
+        {certificateStatus(cert) === 'REJECTED' && cert.rejectionReason && (
+          <p className="text-xs text-red-400 mt-0.5">
+            {REJECTION_REASON_LABELS[cert.rejectionReason]}{cert.reviewNote && ` — ${cert.reviewNote}`}. Remove it and upload a new copy.
+          </p>
+        )}
       </div>
       {isEditing && onRemove && (
         <button onClick={onRemove} className="p-1 text-red-400 hover:text-red-300">
@@ -150,6 +157,52 @@ function CertificateCard({ cert, onRemove, isEditing }: { cert: Certificate; onR
   );
 }
 
+// Read-only weekly hours with the current schedule status
+function ScheduleSummary({ profile }: { profile: TutorProfileType }) {
+  const schedule = profile.availabilitySchedule || {};
+  const hasHours = WEEK_ORDER.some(day => schedule[day]?.length);
+  if (!hasHours) {
+    return <p className="text-xs text-gray-500">No weekly hours set. Students are matched only while you're online.</p>;
+  }
+
+  const now = new Date();
+  const { inSchedule, minutesUntilNext } = scheduleWindow(profile, now);
+  const upcoming = profile.availabilityExceptions?.filter(e => e.date >= now.toISOString().slice(0, 10)) || [];
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-gray-400">
+        {inSchedule
+          ? 'You are within your scheduled hours'
+          : minutesUntilNext !== null
+            ? `Next scheduled ${formatNextAvailable(new Date(now.getTime() + minutesUntilNext * 60_000), now)}`
+            : 'Nothing scheduled in the next week'}
+        {profile.timezone && <span className="text-gray-500"> · {profile.timezone}</span>}
+      </p>
+      <div className="grid grid-cols-[3rem_1fr] gap-x-3 gap-y-1 text-xs">
+        {WEEK_ORDER.map(day => (
+          <div key={day} className="contents">
+            <span className="text-gray-500 capitalize">{day.slice(0, 3)}</span>
+            <span className={schedule[day]?.length ? 'text-gray-300' : 'text-gray-600'}>
+              {schedule[day]?.length ? schedule[day]!.map(s => `${s.start}–${s.end}`).join(', ') : '—'}
+            </span>
+          </div>
+        ))}
+      </div>
+      {upcoming.length > 0 && (
+        <div className="pt-1 space-y-0.5">
+          {upcoming.map(e => (
+            <p key={e.date} className="text-xs text-amber-400/80">
+              {e.date}: {e.slots.length === 0 ? 'Day off' : e.slots.map(s => `${s.start}–${s.end}`).join(', ')}
+              {e.note && <span className="text-gray-500"> · {e.note}</span>}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 export function TutorProfilePage() {
   const { user } = useAuth();
   const [profile, setProfile] = useState<TutorProfileType | null>(null);
@@ -165,7 +218,8 @@ export function TutorProfilePage() {
   const [showAddCert, setShowAddCert] = useState(false);
   const [newQual, setNewQual] = useState<Partial<AcademicQualification>>({});
   const [newExp, setNewExp] = useState<Partial<WorkExperience>>({});
-  const [newCert, setNewCert] = useState<{ name: string; issuedBy: string; issuedDate?: string }>({ name: '', issuedBy: '' });
+  const [newCert, setNewCert] = useState<{ name: string; issuedBy: string; issuedDate?: string; expiryDate?: string }>({ name: '', issuedBy: '' });
+  const [certFile, setCertFile] = useState<File | null>(null);
 
   // Fetch profile
   useEffect(() => {
@@ -194,6 +248,14 @@ export function TutorProfilePage() {
   };
 
   const handleSave = async () => {
+    const schedule = editForm.availabilitySchedule || {};
+    const slotError = WEEK_ORDER.map(day => validateDaySlots(schedule[day] || [])).find(Boolean)
+      || editForm.availabilityExceptions?.map(e => validateDaySlots(e.slots)).find(Boolean);
+    if (slotError) {
+      toast.error(`Weekly schedule: ${slotError}`);
+      return;
+    }
+
     setIsSaving(true);
     try {
       const updateData = {
@@ -213,6 +275,7 @@ export function TutorProfilePage() {
         areasOfExpertise: editForm.areasOfExpertise,
         teachingPhilosophy: editForm.teachingPhilosophy,
         teachingStyle: editForm.teachingStyle,
+        academicLevels: editForm.academicLevels,
         workExperience: editForm.workExperience,
         researchExperience: editForm.researchExperience,
         publications: editForm.publications,
@@ -221,6 +284,7 @@ export function TutorProfilePage() {
         languages: editForm.languages,
         isAvailable: editForm.isAvailable,
         availabilitySchedule: editForm.availabilitySchedule,
+        availabilityExceptions: editForm.availabilityExceptions,
       };
 
       const response = await tutorProfileApi.updateMyProfile(updateData);
@@ -297,11 +361,15 @@ export function TutorProfilePage() {
       return;
     }
     try {
-      const response = await tutorProfileApi.addCertificate(newCert);
+      // Certificates with a document go to the admin verification queue
+      const response = certFile
+        ? await tutorProfileApi.uploadCertificate(certFile, newCert)
+        : await tutorProfileApi.addCertificate(newCert);
       setProfile(response.data.data);
       setNewCert({ name: '', issuedBy: '' });
+      setCertFile(null);
       setShowAddCert(false);
-      toast.success('Certificate added!');
+      toast.success(certFile ? 'Certificate submitted for verification' : 'Certificate added!');
     } catch (error) {
       console.error('Failed to add certificate:', error);
       toast.error('Failed to add certificate');
@@ -490,6 +558,27 @@ export function TutorProfilePage() {
               </div>
             </FormSection>
 
+            {/* Weekly Schedule */}
+            <FormSection title="Weekly Schedule">
+              {isEditing ? (
+                <AvailabilityEditor
+                  schedule={editForm.availabilitySchedule || {}}
+                  exceptions={editForm.availabilityExceptions || []}
+                  timezone={editForm.timezone || browserTimezone()}
+                  onChange={(changes) => setEditForm({ ...editForm, ...changes })}
+                />
+              ) : (
+                <ScheduleSummary profile={profile} />
+              )}
+            </FormSection>
+
+            {/* Reviews */}
+            {!isEditing && (
+              <FormSection title="Reviews">
+                <ReviewList tutorId={profile.id} canFlag />
+              </FormSection>
+            )}
+
             {/* Teaching Philosophy (Edit Mode) */}
             {isEditing && (
               <FormSection title="Teaching">
@@ -513,6 +602,28 @@ export function TutorProfilePage() {
                       {TEACHING_STYLES.map(s => <option key={s} value={s}>{s}</option>)}
                     </select>
                   </div>
+                  <div>
+                    <label className="text-xs text-gray-500 mb-1 block">Levels taught</label>
+                    <div className="flex flex-wrap gap-1">
+                      {ACADEMIC_LEVELS.map(level => {
+                        const selected = editForm.academicLevels?.includes(level);
+                        return (
+                          <button
+                            key={level}
+                            onClick={() => setEditForm({
+                              ...editForm,
+                              academicLevels: selected
+                                ? editForm.academicLevels?.filter(l => l !== level)
+                                : [...(editForm.academicLevels || []), level],
+                            })}
+                            className={`px-2 py-1 text-xs rounded-lg border transition-colors ${selected ? 'bg-amber-500/20 text-amber-400 border-amber-500/30' : 'bg-gray-800 text-gray-400 border-gray-700 hover:border-gray-600'}`}
+                          >
+                            {level}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </div>
                 </div>
               </FormSection>
             )}
@@ -705,9 +816,19 @@ export function TutorProfilePage() {
               <FormInput label="Certificate Name *" value={newCert.name} onChange={(e) => setNewCert({ ...newCert, name: e.target.value })} />
               <FormInput label="Issued By *" value={newCert.issuedBy} onChange={(e) => setNewCert({ ...newCert, issuedBy: e.target.value })} />
               <FormInput label="Issue Date" type="date" value={newCert.issuedDate || ''} onChange={(e) => setNewCert({ ...newCert, issuedDate: e.target.value })} />
+              <FormInput label="Expiry Date" type="date" value={newCert.expiryDate || ''} onChange={(e) => setNewCert({ ...newCert, expiryDate: e.target.value })} />
+              <div>
+                <label className="text-xs text-gray-500 mb-1 block">Document (PDF or image, needed for verification)</label>
+                <input
+                  type="file"
+                  accept="application/pdf,image/*"
+                  onChange={(e) => setCertFile(e.target.files?.[0] ?? null)}
+                  className="w-full text-xs text-gray-400 file:mr-2 file:px-2 file:py-1 file:rounded file:border-0 file:bg-gray-700 file:text-gray-200"
+                />
+              </div>
             </div>
             <div className="flex justify-end gap-2 mt-4">
-              <button onClick={() => { setShowAddCert(false); setNewCert({ name: '', issuedBy: '' }); }} className="px-3 py-1.5 text-sm text-gray-400 hover:text-white">Cancel</button>
+              <button onClick={() => { setShowAddCert(false); setNewCert({ name: '', issuedBy: '' }); setCertFile(null); }} className="px-3 py-1.5 text-sm text-gray-400 hover:text-white">Cancel</button>
               <button onClick={addCertificate} className="px-3 py-1.5 bg-amber-500 text-black rounded-lg text-sm font-medium">Add</button>
             </div>
           </div>
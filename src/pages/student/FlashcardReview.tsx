@@ -0,0 +1,426 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Layers, RotateCcw, CheckCircle, History, Trash2, Search, Eye } from 'lucide-react';
+import { flashcardsApi } from '../../api';
+import { Flashcard, FlashcardGrade, FlashcardReview as FlashcardReviewEntry, FlashcardSource, FlashcardStats } from '../../types';
+import { Spinner } from '../../components/ui/Loading';
+import { Modal, ConfirmModal } from '../../components/ui/Modal';
+import Button from '../../components/ui/Button';
+import Pagination from '../../components/ui/Pagination';
+import { Markdown } from '../../components/ui/Markdown';
+import { scheduleReview, formatInterval } from '../../components/flashcards';
+import toast from 'react-hot-toast';
+
+type TabType = 'review' | 'deck';
+
+const GRADE_BUTTONS: { grade: FlashcardGrade; label: string; key: string; className: string }[] = [
+  { grade: 1, label: 'Again', key: '1', className: 'border-red-500/40 text-red-400 hover:bg-red-500/10' },
+  { grade: 3, label: 'Hard', key: '2', className: 'border-amber-500/40 text-amber-400 hover:bg-amber-500/10' },
+  { grade: 4, label: 'Good', key: '3', className: 'border-emerald-500/40 text-emerald-400 hover:bg-emerald-500/10' },
+  { grade: 5, label: 'Easy', key: '4', className: 'border-sky-500/40 text-sky-400 hover:bg-sky-500/10' },
+];
+
+const GRADE_LABELS: Record<FlashcardGrade, string> = {
+  0: 'Blackout', 1: 'Again', 2: 'Wrong', 3: 'Hard', 4: 'Good', 5: 'Easy',
+};
+
+const SOURCE_LABELS: Record<FlashcardSource, string> = {
+  DAILY_PACKAGE: 'Daily package',
+  PROJECT_QUIZ: 'Project quiz',
+  CHAT_MESSAGE: 'Chat message',
+  MANUAL: 'Manual',
+};
+
+const DECK_PAGE_SIZE = 20;
+
+export function FlashcardReview() {
+  const [activeTab, setActiveTab] = useState<TabType>('review');
+  const [stats, setStats] = useState<FlashcardStats | null>(null);
+
+  // Review queue
+  const [queue, setQueue] = useState<Flashcard[]>([]);
+  const [isLoadingQueue, setIsLoadingQueue] = useState(true);
+  const [showAnswer, setShowAnswer] = useState(false);
+  const [isGrading, setIsGrading] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+  const shownAtRef = useRef(Date.now());
+
+  // Deck
+  const [deck, setDeck] = useState<Flashcard[]>([]);
+  const [deckPage, setDeckPage] = useState(1);
+  const [deckTotalPages, setDeckTotalPages] = useState(1);
+  const [deckSource, setDeckSource] = useState<FlashcardSource | ''>('');
+  const [deckSearch, setDeckSearch] = useState('');
+  const [isLoadingDeck, setIsLoadingDeck] = useState(false);
+
+  // Card history
+  const [historyCard, setHistoryCard] = useState<Flashcard | null>(null);
+  const [history, setHistory] = useState<FlashcardReviewEntry[]>([]);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  const [deleteCard, setDeleteCard] = useState<Flashcard | null>(null);
+
+  const currentCard = queue[0];
+
+  const fetchStats = useCallback(async () => {
+    try {
+      setStats(await flashcardsApi.getStats());
+    } catch {
+      // Counters are decorative; the queue still works without them
+    }
+  }, []);
+
+  const fetchQueue = useCallback(async () => {
+    setIsLoadingQueue(true);
+    try {
+      setQueue(await flashcardsApi.getDueCards());
+      setShowAnswer(false);
+      shownAtRef.current = Date.now();
+    } catch {
+      toast.error('Failed to load due cards');
+    } finally {
+      setIsLoadingQueue(false);
+    }
+  }, []);
+
+  const fetchDeck = useCallback(async () => {
+    setIsLoadingDeck(true);
+    try {
+      const data = await flashcardsApi.getCards({
+        page: deckPage,
+        limit: DECK_PAGE_SIZE,
+        source: deckSource || undefined,
+        search: deckSearch.trim() || undefined,
+      });
+      setDeck(data.cards);
+      setDeckTotalPages(data.totalPages);
+    } catch {
+      toast.error('Failed to load flashcards');
+    } finally {
+      setIsLoadingDeck(false);
+    }
+  }, [deckPage, deckSource, deckSearch]);
+
+  useEffect(() => {
+    fetchStats();
+    fetchQueue();
+  }, [fetchStats, fetchQueue]);
+
+  useEffect(() => {
+    if (activeTab === 'deck') fetchDeck();
+  }, [activeTab, fetchDeck]);
+
+  const handleGrade = useCallback(async (grade: FlashcardGrade) => {
+    if (!currentCard || isGrading) return;
+    setIsGrading(true);
+    try {
+      const next = scheduleReview(currentCard, grade);
+      await flashcardsApi.reviewCard(currentCard.id, {
+        ...next,
+        grade,
+        durationMs: Date.now() - shownAtRef.current,
+      });
+      setReviewedCount((c) => c + 1);
+      // Lapsed cards come back at the end of today's queue
+      setQueue((prev) => {
+        const rest = prev.slice(1);
+        return grade < 3 ? [...rest, { ...currentCard, ...next }] : rest;
+      });
+      setShowAnswer(false);
+      shownAtRef.current = Date.now();
+      fetchStats();
+    } catch {
+      toast.error('Failed to save review');
+    } finally {
+      setIsGrading(false);
+    }
+  }, [currentCard, isGrading, fetchStats]);
+
+  // Space reveals, 1-4 grade
+  useEffect(() => {
+    if (activeTab !== 'review' || !currentCard) return;
+    const handler = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (!showAnswer && (e.key === ' ' || e.key === 'Enter')) {
+        e.preventDefault();
+        setShowAnswer(true);
+      } else if (showAnswer) {
+        const button = GRADE_BUTTONS.find((b) => b.key === e.key);
+        if (button) handleGrade(button.grade);
+      }
+    };
+    document.addEventListener('keydown', handler);
+    return () => document.removeEventListener('keydown', handler);
+  }, [activeTab, currentCard, showAnswer, handleGrade]);
+
+  const openHistory = async (card: Flashcard) => {
+    setHistoryCard(card);
+    setHistory([]);
+    setIsLoadingHistory(true);
+    try {
+      setHistory(await flashcardsApi.getCardHistory(card.id));
+    } catch {
+      toast.error('Failed to load review history');
+    } finally {
+      setIsLoadingHistory(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteCard) return;
+    try {
+      await flashcardsApi.deleteCard(deleteCard.id);
+      setDeck((prev) => prev.filter((c) => c.id !== deleteCard.id));
+      setQueue((prev) => prev.filter((c) => c.id !== deleteCard.id));
+      fetchStats();
+      toast.success('Card deleted');
+    } catch {
+      toast.error('Failed to delete card');
+    } finally {
+      setDeleteCard(null);
+    }
+  };
+
+  const renderReview = () => {
+    if (isLoadingQueue) {
+      return <div className="flex items-center justify-center py-16"><Spinner size="lg" /></div>;
+    }
+
+    if (!currentCard) {
+      return (
+        <div className="text-center py-16 text-gray-500">
+          <CheckCircle className="w-12 h-12 mx-auto mb-3 text-emerald-500/60" />
+          <p className="font-medium text-gray-300">
+            {reviewedCount > 0 ? `Done for today — ${reviewedCount} reviews` : 'No cards due'}
+          </p>
+          <p className="text-sm mt-1">
+            Add cards from package quizzes, project quizzes or any AI answer.
+          </p>
+          <button
+            onClick={fetchQueue}
+            className="inline-flex items-center gap-1.5 mt-4 text-xs text-primary-400 hover:text-primary-300 font-medium"
+          >
+            <RotateCcw className="w-3.5 h-3.5" />
+            Check again
+          </button>
+        </div>
+      );
+    }
+
+    return (
+      <div>
+        <div className="flex items-center justify-between mb-2 text-xs text-gray-500">
+          <span>{queue.length} left in this session</span>
+          <span>
+            {SOURCE_LABELS[currentCard.source]}
+            {currentCard.sourceLabel && ` · ${currentCard.sourceLabel}`}
+          </span>
+        </div>
+
+        <div className="bg-[#25262b] border border-gray-700/50 rounded-lg p-6 min-h-[220px]">
+          <Markdown className="text-gray-100 text-base leading-relaxed">{currentCard.front}</Markdown>
+
+          {showAnswer && (
+            <div className="mt-5 pt-5 border-t border-gray-700/50">
+              <Markdown className="text-gray-300 text-sm leading-relaxed" breaks>{currentCard.back}</Markdown>
+            </div>
+          )}
+        </div>
+
+        <div className="mt-4">
+          {!showAnswer ? (
+            <Button className="w-full" onClick={() => setShowAnswer(true)} leftIcon={<Eye className="w-4 h-4" />}>
+              Show answer <span className="ml-2 text-xs opacity-60">(space)</span>
+            </Button>
+          ) : (
+            <div className="grid grid-cols-4 gap-2">
+              {GRADE_BUTTONS.map(({ grade, label, key, className }) => (
+                <button
+                  key={grade}
+                  onClick={() => handleGrade(grade)}
+                  disabled={isGrading}
+                  className={`flex flex-col items-center px-3 py-2 border rounded-lg transition-colors disabled:opacity-50 ${className}`}
+                >
+                  <span className="text-sm font-medium">{label}</span>
+                  <span className="text-[11px] opacity-70">
+                    {formatInterval(scheduleReview(currentCard, grade).interval)} · {key}
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderDeck = () => (
+    <div>
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <div className="relative flex-1 min-w-[200px]">
+          <Search className="w-4 h-4 text-gray-500 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            value={deckSearch}
+            onChange={(e) => { setDeckSearch(e.target.value); setDeckPage(1); }}
+            placeholder="Search cards"
+            className="input w-full pl-9 text-sm"
+          />
+        </div>
+        <select
+          value={deckSource}
+          onChange={(e) => { setDeckSource(e.target.value as FlashcardSource | ''); setDeckPage(1); }}
+          className="input w-auto text-sm"
+        >
+          <option value="">All sources</option>
+          {(Object.keys(SOURCE_LABELS) as FlashcardSource[]).map((source) => (
+            <option key={source} value={source}>{SOURCE_LABELS[source]}</option>
+          ))}
+        </select>
+      </div>
+
+      {isLoadingDeck ? (
+        <div className="flex items-center justify-center py-16"><Spinner size="lg" /></div>
+      ) : deck.length === 0 ? (
+        <div className="text-center py-16 text-gray-500">
+          <Layers className="w-12 h-12 mx-auto mb-3 text-gray-600" />
+          <p className="font-medium">No cards found</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {deck.map((card) => (
+            <div key={card.id} className="flex items-center gap-3 bg-[#25262b] border border-gray-700/50 rounded-lg px-4 py-3">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-gray-200 truncate">{card.front}</p>
+                <p className="text-xs text-gray-500 mt-0.5">
+                  {SOURCE_LABELS[card.source]}
+                  {card.sourceLabel && ` · ${card.sourceLabel}`}
+                  {' · '}
+                  {card.reviewCount === 0 ? 'New' : `Due ${new Date(card.dueAt).toLocaleDateString()}`}
+                </p>
+              </div>
+              <button
+                onClick={() => openHistory(card)}
+                className="p-1.5 text-gray-500 hover:text-gray-300 hover:bg-gray-700/50 rounded-lg transition-colors"
+                title="Review history"
+              >
+                <History className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setDeleteCard(card)}
+                className="p-1.5 text-gray-500 hover:text-red-400 hover:bg-red-500/10 rounded-lg transition-colors"
+                title="Delete card"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <div className="pt-2">
+            <Pagination currentPage={deckPage} totalPages={deckTotalPages} onPageChange={setDeckPage} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="p-6 max-w-3xl mx-auto">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-100">Flashcards</h1>
+        <p className="text-gray-400">
+          {stats
+            ? `${stats.dueToday} due · ${stats.reviewedToday} reviewed today · ${stats.total} cards`
+            : 'Review a little every day to keep it in memory'}
+        </p>
+      </div>
+
+      {/* Tabs */}
+      <div className="flex gap-1 bg-[#2c2d32] rounded-lg p-1 mb-6 w-fit">
+        <button
+          onClick={() => setActiveTab('review')}
+          className={`px-4 py-2 text-sm font-medium rounded-md transition-all ${activeTab === 'review' ? 'bg-[#25262b] text-gray-100 shadow-sm' : 'text-gray-500 hover:text-gray-300'}`}
+        >
+          <RotateCcw className="w-4 h-4 inline mr-1.5" />
+          Review
+        </button>
+        <button
+          onClick={() => setActiveTab('deck')}
+          className={`px-4 py-2 text-sm font-medium rounded-md transition-all ${activeTab === 'deck' ? 'bg-[#25262b] text-gray-100 shadow-sm' : 'text-gray-500 hover:text-gray-300'}`}
+        >
+          <Layers className="w-4 h-4 inline mr-1.5" />
+          Deck
+        </button>
+      </div>
+
+      {activeTab === 'review' ? renderReview() : renderDeck()}
+
+      {/* Card History Modal */}
+      {historyCard && (
+        <Modal isOpen={!!historyCard} onClose={() => setHistoryCard(null)} title="Card history" size="lg">
+          <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+            <div className="bg-[#1e1f23] rounded-lg p-4">
+              <Markdown className="text-sm text-gray-100">{historyCard.front}</Markdown>
+              <div className="mt-3 pt-3 border-t border-gray-700/50">
+                <Markdown className="text-sm text-gray-400" breaks>{historyCard.back}</Markdown>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-3 text-center">
+              <div>
+                <p className="text-lg font-semibold text-gray-100">{historyCard.reviewCount}</p>
+                <p className="text-xs text-gray-500">Reviews</p>
+              </div>
+              <div>
+                <p className="text-lg font-semibold text-gray-100">{historyCard.lapseCount}</p>
+                <p className="text-xs text-gray-500">Lapses</p>
+              </div>
+              <div>
+                <p className="text-lg font-semibold text-gray-100">{historyCard.easeFactor.toFixed(2)}</p>
+                <p className="text-xs text-gray-500">Ease</p>
+              </div>
+            </div>
+
+            {isLoadingHistory ? (
+              <div className="flex justify-center py-6"><Spinner /></div>
+            ) : history.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-4">Not reviewed yet</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-500 text-left">
+                    <th className="py-1.5 font-medium">Date</th>
+                    <th className="py-1.5 font-medium">Grade</th>
+                    <th className="py-1.5 font-medium">Interval</th>
+                    <th className="py-1.5 font-medium">Time</th>
+                  </tr>
+                </thead>
+                <tbody className="text-gray-300">
+                  {history.map((entry) => (
+                    <tr key={entry.id} className="border-t border-gray-700/40">
+                      <td className="py-1.5">{new Date(entry.reviewedAt).toLocaleString()}</td>
+                      <td className={`py-1.5 ${entry.grade < 3 ? 'text-red-400' : 'text-emerald-400'}`}>{GRADE_LABELS[entry.grade]}</td>
+                      <td className="py-1.5">{entry.intervalBefore}d → {entry.intervalAfter}d</td>
+                      <td className="py-1.5">{entry.durationMs != null ? `${Math.round(entry.durationMs / 1000)}s` : '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+          <div className="flex justify-end mt-4 pt-3 border-t border-gray-700/50">
+            <Button variant="secondary" onClick={() => setHistoryCard(null)}>Close</Button>
+          </div>
+        </Modal>
+      )}
+
+      <ConfirmModal
+        isOpen={!!deleteCard}
+        onClose={() => setDeleteCard(null)}
+        onConfirm={handleDelete}
+        title="Delete card"
+        message="This removes the card and its review history."
+        confirmText="Delete"
+        variant="danger"
+      />
+    </div>
+  );
+}
+
+export default FlashcardReview;
@@ -0,0 +1,160 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Grid3x3, Sparkles, MessageSquare, Video, ClipboardCheck } from 'lucide-react';
+import { masteryApi } from '../../api';
+import { MasterySignal, Subject } from '../../types';
+import { Spinner } from '../../components/ui/Loading';
+import Button from '../../components/ui/Button';
+import {
+  MASTERY_LEVEL_LABELS,
+  MasteryHeatmap,
+  MasteryLegend,
+  TopicNode,
+  buildTopicGraphs,
+  practicePrompt,
+  relatedTopics,
+  subjectLabel,
+  weakTopics,
+} from '../../components/mastery';
+import toast from 'react-hot-toast';
+
+// Older evidence has decayed to almost nothing by then
+const HISTORY_DAYS = 180;
+
+export function MasteryMap() {
+  const navigate = useNavigate();
+  const [signals, setSignals] = useState<MasterySignal[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [subject, setSubject] = useState<Subject | null>(null);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    const from = new Date();
+    from.setDate(from.getDate() - HISTORY_DAYS);
+    masteryApi.getSignals({ from: from.toISOString() })
+      .then(setSignals)
+      .catch(() => toast.error('Failed to load your mastery map'))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const graphs = useMemo(() => buildTopicGraphs(signals), [signals]);
+  const graph = graphs.find((g) => g.subject === subject) ?? graphs[0] ?? null;
+  const selected = graph?.nodes.find((node) => node.key === selectedKey) ?? null;
+  const weak = graph ? weakTopics(graph) : [];
+
+  const practice = (node: TopicNode) => {
+    navigate(`/chat?prompt=${encodeURIComponent(practicePrompt(node))}`);
+  };
+
+  if (isLoading) {
+    return <div className="flex items-center justify-center h-64"><Spinner size="lg" /></div>;
+  }
+
+  if (!graph) {
+    return (
+      <div className="p-6 max-w-5xl mx-auto text-center py-16 text-gray-400">
+        <Grid3x3 className="w-10 h-10 mx-auto mb-3 text-gray-600" />
+        <p className="text-lg font-medium text-gray-300">No topics yet</p>
+        <p className="text-sm mt-1">Ask questions and take your daily quizzes, and the topics you cover will show up here.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 max-w-5xl mx-auto">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-100">Mastery</h1>
+        <p className="text-gray-400">Built from your chats, tutor sessions and quiz answers. Recent work counts most.</p>
+      </div>
+
+      {/* Subjects */}
+      <div className="flex flex-wrap gap-1 bg-[#2c2d32] rounded-lg p-1 mb-6 w-fit">
+        {graphs.map((g) => (
+          <button
+            key={g.subject}
+            onClick={() => {
+              setSubject(g.subject);
+              setSelectedKey(null);
+            }}
+            className={`px-4 py-2 text-sm font-medium rounded-md transition-all ${g.subject === graph.subject ? 'bg-[#25262b] text-gray-100 shadow-sm' : 'text-gray-500 hover:text-gray-300'}`}
+          >
+            {subjectLabel(g.subject)}
+          </button>
+        ))}
+      </div>
+
+      {weak.length > 0 && (
+        <div className="bg-[#25262b] border border-gray-700/50 rounded-lg p-4 mb-6">
+          <h2 className="text-sm font-semibold text-gray-100 mb-3">Worth practising</h2>
+          <div className="divide-y divide-gray-700/40">
+            {weak.map((node) => (
+              <div key={node.key} className="flex items-center justify-between gap-3 py-2">
+                <div className="min-w-0">
+                  <p className="text-sm text-gray-200 truncate">{node.label}</p>
+                  <p className="text-xs text-gray-500">{MASTERY_LEVEL_LABELS[node.level]} · {Math.round(node.mastery * 100)}%</p>
+                </div>
+                <Button size="sm" variant="secondary" onClick={() => practice(node)} leftIcon={<Sparkles className="w-4 h-4" />}>
+                  Practice this
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="grid lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2">
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="text-sm font-semibold text-gray-100">Topics</h2>
+            <MasteryLegend />
+          </div>
+          <MasteryHeatmap nodes={graph.nodes} selectedKey={selectedKey} onSelect={(node) => setSelectedKey(node.key)} />
+        </div>
+
+        <div className="bg-[#25262b] border border-gray-700/50 rounded-lg p-4 h-fit">
+          {selected ? (
+            <>
+              <h2 className="text-lg font-semibold text-gray-100">{selected.label}</h2>
+              <p className="text-sm text-gray-400 mb-4">
+                {MASTERY_LEVEL_LABELS[selected.level]}
+                {selected.level !== 'UNKNOWN' && ` · ${Math.round(selected.mastery * 100)}%`}
+              </p>
+              <div className="space-y-2 text-sm text-gray-300 mb-4">
+                <p className="flex items-center gap-2"><MessageSquare className="w-4 h-4 text-gray-500" />{selected.sessions} chat or tutor session{selected.sessions === 1 ? '' : 's'}</p>
+                <p className="flex items-center gap-2"><Video className="w-4 h-4 text-gray-500" />{selected.tutorSessions} with a tutor</p>
+                <p className="flex items-center gap-2">
+                  <ClipboardCheck className="w-4 h-4 text-gray-500" />
+                  {selected.correct > 0 || selected.attempted > 0 ? `${Math.round(selected.correct * 10) / 10} of ${Math.round(selected.attempted * 10) / 10} weighted answers right` : 'No quiz answers yet'}
+                </p>
+                <p className="text-xs text-gray-500">Last seen {new Date(selected.lastSeen).toLocaleDateString()}</p>
+              </div>
+              {relatedTopics(graph, selected.key).length > 0 && (
+                <div className="mb-4">
+                  <p className="text-xs text-gray-500 mb-1.5">Often comes up with</p>
+                  <div className="flex flex-wrap gap-1.5">
+                    {relatedTopics(graph, selected.key).map((node) => (
+                      <button
+                        key={node.key}
+                        onClick={() => setSelectedKey(node.key)}
+                        className="px-2 py-1 text-xs rounded-md bg-[#2c2d32] text-gray-300 hover:text-white"
+                      >
+                        {node.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+              <Button className="w-full" onClick={() => practice(selected)} leftIcon={<Sparkles className="w-4 h-4" />}>
+                Practice this
+              </Button>
+            </>
+          ) : (
+            <p className="text-sm text-gray-500">Pick a topic to see how you're doing and start a practice chat.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default MasteryMap;
@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import {
   ArrowLeft,
   Upload,
@@ -24,9 +24,10 @@ import {
   Play,
   Pause,
   StopCircle,
+  Layers,
 } from 'lucide-react';
 import toast from 'react-hot-toast';
-import ReactMarkdown from 'react-markdown';
+import { Markdown } from '../../components/ui/Markdown';
 import {
   ProjectResponse,
   ProjectResourceResponse,
@@ -35,11 +36,17 @@ import {
   UpdateProjectRequest,
   GenerateQuizRequest,
   SessionResourceResponse,
+  Role,
 } from '../../types';
 import { projectsApi } from '../../api/projects';
+import { flashcardsApi } from '../../api/flashcards';
+import { useAuth } from '../../contexts/AuthContext';
 import { useProjectChat } from '../../hooks/useProjectChat';
+import { useScrollToMessage, messageElementId } from '../../hooks/useScrollToMessage';
 import { useAudioRecorder } from '../../hooks/useAudioRecorder';
 import { Modal, ConfirmModal } from '../../components/ui/Modal';
+import { ExportMenu, transcriptFromProjectChat } from '../../components/export';
+import { MakeCardModal } from '../../components/flashcards';
 
 // ============================================
 // Helpers
@@ -78,7 +85,9 @@ export default function ProjectDetail() {
   const [project, setProject] = useState<ProjectResponse | null>(null);
   const [resources, setResources] = useState<ProjectResourceResponse[]>([]);
   const [sessions, setSessions] = useState<ProjectChatSessionResponse[]>([]);
-  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [searchParams] = useSearchParams();
+  const sessionParam = searchParams.get('session');
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(sessionParam);
   const [messages, setMessages] = useState<ProjectMessageResponse[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isLoadingMessages, setIsLoadingMessages] = useState(false);
@@ -110,6 +119,13 @@ export default function ProjectDetail() {
   const [quizOutputFormat, setQuizOutputFormat] = useState<'chat' | 'pdf'>('chat');
   const [isGeneratingQuiz, setIsGeneratingQuiz] = useState(false);
 
+  // Flashcards (students only)
+  const { user } = useAuth();
+  const canMakeCards = user?.role === Role.STUDENT;
+  // Quiz still streaming; its final message is appended locally until the session reloads
+  const pendingQuizIdRef = useRef<string | null>(null);
+  const [makeCardMessage, setMakeCardMessage] = useState<ProjectMessageResponse | null>(null);
+
   // Refs
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -163,13 +179,17 @@ export default function ProjectDetail() {
         hasError: false,
         errorMessage: null,
         feedback: null,
+        isQuiz: pendingQuizIdRef.current === chunk.messageId,
         createdAt: new Date().toISOString(),
       };
+      if (aiMessage.isQuiz) pendingQuizIdRef.current = null;
       setMessages((prev) => {
         // Replace temp/streaming version if exists, otherwise append
         const exists = prev.find((m) => m.id === chunk.messageId);
         if (exists) {
-          return prev.map((m) => m.id === chunk.messageId ? { ...m, content: finalContent, isStreaming: false, isComplete: true } : m);
+          return prev.map((m) => m.id === chunk.messageId
+            ? { ...m, content: finalContent, isStreaming: false, isComplete: true, isQuiz: m.isQuiz || aiMessage.isQuiz }
+            : m);
         }
         return [...prev, aiMessage];
       });
@@ -251,11 +271,18 @@ export default function ProjectDetail() {
     fetchMessages();
   }, [projectId, activeSessionId]);
 
+  // Deep links (e.g. search results) can pick the session
+  useEffect(() => {
+    if (sessionParam) setActiveSessionId(sessionParam);
+  }, [sessionParam]);
+
   // Auto-scroll on new messages or streaming content
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages, streamingContent]);
 
+  useScrollToMessage(!isLoadingMessages && messages.length > 0);
+
   // ============================================
   // Resource Upload
   // ============================================
@@ -583,6 +610,20 @@ export default function ProjectDetail() {
     }
   };
 
+  const handleSaveQuizAsFlashcards = async (messageId: string) => {
+    if (!projectId) return;
+    try {
+      const { created, skipped } = await flashcardsApi.importProjectQuiz(projectId, messageId);
+      toast.success(
+        skipped > 0
+          ? `Added ${created.length} cards (${skipped} already in your deck)`
+          : `Added ${created.length} cards to your deck`
+      );
+    } catch (error: any) {
+      toast.error(error?.response?.data?.message || 'Failed to save flashcards');
+    }
+  };
+
   // ============================================
   // Settings
   // ============================================
@@ -646,6 +687,7 @@ export default function ProjectDetail() {
         const response = await projectsApi.generateQuiz(projectId, quizData);
         setShowQuizModal(false);
         setActiveSessionId(response.sessionId);
+        pendingQuizIdRef.current = response.messageId;
 
         // Refresh sessions
         const sessionsData = await projectsApi.getChatSessions(projectId);
@@ -706,6 +748,12 @@ export default function ProjectDetail() {
     setShowSettingsModal(true);
   };
 
+  const handleLoadTranscript = async () => {
+    if (!activeSessionId) throw new Error('No active session');
+    const { session, messages: savedMessages } = await projectsApi.getChatSession(project.id, activeSessionId);
+    return transcriptFromProjectChat(project, session, savedMessages);
+  };
+
   // ============================================
   // Render
   // ============================================
@@ -742,6 +790,9 @@ export default function ProjectDetail() {
             <GraduationCap className="w-4 h-4" />
             <span className="hidden sm:inline">Quiz Me</span>
           </button>
+          {activeSessionId && (
+            <ExportMenu label="" loadTranscript={handleLoadTranscript} />
+          )}
           <button
             onClick={openSettings}
             className="p-2 text-gray-400 hover:text-white hover:bg-gray-800/50 rounded-lg transition-colors"
@@ -1035,6 +1086,8 @@ export default function ProjectDetail() {
                     isStreamingThis={streamingMessageId === msg.id}
                     streamContent={streamingMessageId === msg.id ? streamingContent : undefined}
                     onFeedback={handleFeedback}
+                    onMakeCard={canMakeCards ? setMakeCardMessage : undefined}
+                    onSaveQuiz={canMakeCards && msg.isQuiz ? handleSaveQuizAsFlashcards : undefined}
                   />
                 ))}
 
@@ -1086,9 +1139,7 @@ export default function ProjectDetail() {
                       </div>
                       <div className="flex-1 bg-[#1a1a1a] border border-gray-800/50 rounded-xl px-4 py-3 max-w-[80%]">
                         {streamingContent ? (
-                          <div className="prose prose-invert prose-sm max-w-none">
-                            <ReactMarkdown>{streamingContent}</ReactMarkdown>
-                          </div>
+                          <Markdown className="prose prose-invert prose-sm max-w-none">{streamingContent}</Markdown>
                         ) : (
                           <div className="flex items-center gap-2">
                             <div className="flex gap-1">
@@ -1451,6 +1502,15 @@ export default function ProjectDetail() {
         </div>
       </Modal>
 
+      {/* Make-a-card Modal */}
+      <MakeCardModal
+        isOpen={!!makeCardMessage}
+        onClose={() => setMakeCardMessage(null)}
+        content={makeCardMessage?.content || ''}
+        sourceId={makeCardMessage?.id}
+        sourceLabel={project.title}
+      />
+
       {/* Quiz Modal */}
       <Modal
         isOpen={showQuizModal}
@@ -1681,14 +1741,16 @@ interface MessageBubbleProps {
   isStreamingThis?: boolean;
   streamContent?: string;
   onFeedback: (messageId: string, feedback: 'GOOD' | 'BAD') => void;
+  onMakeCard?: (message: ProjectMessageResponse) => void;
+  onSaveQuiz?: (messageId: string) => void;
 }
 
-function MessageBubble({ message, isStreamingThis, streamContent, onFeedback }: MessageBubbleProps) {
+function MessageBubble({ message, isStreamingThis, streamContent, onFeedback, onMakeCard, onSaveQuiz }: MessageBubbleProps) {
   const isUser = message.role === 'USER';
   const displayContent = isStreamingThis && streamContent ? streamContent : message.content;
 
   return (
-    <div className={`flex gap-3 ${isUser ? 'flex-row-reverse' : ''}`}>
+    <div id={messageElementId(message.id)} className={`flex gap-3 ${isUser ? 'flex-row-reverse' : ''}`}>
       {/* Avatar */}
       {!isUser && (
         <div className="w-7 h-7 rounded-lg bg-gradient-to-br from-violet-500 to-fuchsia-500 flex items-center justify-center flex-shrink-0 mt-1">
@@ -1713,9 +1775,7 @@ function MessageBubble({ message, isStreamingThis, streamContent, onFeedback }:
             isUser ? (
               <p className="text-sm whitespace-pre-wrap">{displayContent}</p>
             ) : (
-              <div className="prose prose-invert prose-sm max-w-none">
-                <ReactMarkdown>{displayContent}</ReactMarkdown>
-              </div>
+              <Markdown className="prose prose-invert prose-sm max-w-none">{displayContent}</Markdown>
             )
           ) : isStreamingThis ? (
             <div className="flex items-center gap-2">
@@ -1766,6 +1826,24 @@ function MessageBubble({ message, isStreamingThis, streamContent, onFeedback }:
             >
               <ThumbsDown className="w-3.5 h-3.5" />
             </button>
+            {onMakeCard && message.content && (
+              <button
+                onClick={() => onMakeCard(message)}
+                className="p-1 rounded text-gray-600 hover:text-gray-400 transition-colors"
+                title="Make a flashcard"
+              >
+                <Layers className="w-3.5 h-3.5" />
+              </button>
+            )}
+            {onSaveQuiz && (
+              <button
+                onClick={() => onSaveQuiz(message.id)}
+                className="flex items-center gap-1 ml-1 px-2 py-0.5 text-xs text-violet-400 hover:text-violet-300 hover:bg-violet-500/10 rounded transition-colors"
+              >
+                <Layers className="w-3 h-3" />
+                Save quiz as flashcards
+              </button>
+            )}
           </div>
         )}
       </div>
@@ -1,18 +1,29 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import {
   Send, Mic, Sparkles, Loader2,
   X, FileText,
-  ThumbsUp, ThumbsDown, RotateCcw, UserPlus,
+  ThumbsUp, ThumbsDown, RotateCcw, UserPlus, Layers,
   Paperclip, ChevronDown, ChevronRight,
   Users, Zap, RefreshCw, Brain, Globe, FolderOpen,
-  Check, Search, Download,
+  Check, Search, Download, Clock, AlertCircle, Pencil,
 } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { geminiChatApi, tutorSessionApi, projectsApi } from '../../api';
-import { AIMessage, AIChatMode, DailyRoom, CouncilMemberResponse, Role, ProjectResponse } from '../../types';
+import {
+  AIMessage,
+  AIChatMode,
+  DailyRoom,
+  CouncilMemberResponse,
+  Role,
+  ProjectResponse,
+  TutorSessionAcceptedEvent,
+  SessionStatusChangedEvent,
+} from '../../types';
 import { useGeminiChat } from '../../hooks/useGeminiChat';
+import { NEW_SESSION_KEY, OutboxMessage } from '../../services/chatOutbox';
 import { useAudioRecorder } from '../../hooks/useAudioRecorder';
+import { useScrollToMessage, messageElementId } from '../../hooks/useScrollToMessage';
 import { useReadAloud } from '../../hooks/useReadAloud';
 import { StudentActiveSession } from '../../components/tutorSession';
 import { TutorSessionPanel } from '../../components/tutorSession';
@@ -28,13 +39,14 @@ import {
 import {
   getGeminiSocket,
   onTutorAccepted,
-  offTutorAccepted,
   onSessionStatusChanged,
-  offSessionStatusChanged,
 } from '../../services/geminiSocket';
 import toast from 'react-hot-toast';
-import ReactMarkdown from 'react-markdown';
-import remarkGfm from 'remark-gfm';
+import { Markdown } from '../../components/ui/Markdown';
+import { ExportMenu, transcriptFromAIChat } from '../../components/export';
+import { MakeCardModal } from '../../components/flashcards';
+import { RateSessionModal, ReviewTarget } from '../../components/reviews';
+import { GoalsWidget } from '../../components/goals';
 
 // ============================================================================
 // Council Expert Card (completed, expandable)
@@ -77,9 +89,7 @@ function ExpertCard({ memberLabel, memberName, content }: {
       )}
 
       {expanded && (
-        <div className="mt-2 text-sm text-gray-400 prose prose-invert prose-sm max-w-none">
-          <ReactMarkdown remarkPlugins={[remarkGfm]}>{content}</ReactMarkdown>
-        </div>
+        <Markdown className="mt-2 text-sm text-gray-400 prose prose-invert prose-sm max-w-none">{content}</Markdown>
       )}
     </div>
   );
@@ -352,6 +362,23 @@ function ThinkingTrace({ trace, mode, isActive }: {
   );
 }
 
+// Queued or rejected outbox entry rendered as a user bubble
+function outboxEntryToMessage(entry: OutboxMessage): AIMessage {
+  return {
+    id: entry.id,
+    sessionId: entry.sessionKey === NEW_SESSION_KEY ? '' : entry.sessionKey,
+    role: 'USER',
+    content: entry.content,
+    attachments: entry.files.length > 0
+      ? entry.files.map((f) => ({ url: URL.createObjectURL(f), name: f.name, type: f.type, size: f.size }))
+      : null,
+    audioUrl: null, transcription: null,
+    isStreaming: false, isComplete: false,
+    hasError: entry.status === 'FAILED', errorMessage: entry.error ?? null,
+    feedback: null, councilResponses: null, createdAt: entry.createdAt,
+  };
+}
+
 // ============================================================================
 // Message Bubble
 // ============================================================================
@@ -368,8 +395,13 @@ function MessageBubble({
   thinkingTrace,
   streamMode,
   statusText,
+  isPending,
   onRetry,
   onFeedback,
+  onMakeCard,
+  onDiscard,
+  onResend,
+  onEdit,
   onAttachmentPreview,
   onImagePreview,
 }: {
@@ -385,8 +417,13 @@ function MessageBubble({
   thinkingTrace?: string[];
   streamMode?: string | null;
   statusText?: string | null;
+  isPending?: boolean;
   onRetry?: () => void;
   onFeedback?: (feedback: 'GOOD' | 'BAD') => void;
+  onMakeCard?: () => void;
+  onDiscard?: () => void;
+  onResend?: () => void;
+  onEdit?: () => void;
   onAttachmentPreview?: (messageId: string, index: number) => void;
   onImagePreview?: (data: { url: string; mimeType: string; name: string }) => void;
 }) {
@@ -404,7 +441,7 @@ function MessageBubble({
             isUser
               ? 'bg-[#2a2a2a] text-[#faf9f5] border border-gray-700/50'
               : 'bg-transparent text-[#faf9f5]'
-          }`}
+          } ${isPending ? 'opacity-60 border-dashed' : ''}`}
         >
           {message.attachments && message.attachments.length > 0 && (
             <div className="flex flex-wrap gap-2 mb-2">
@@ -461,34 +498,21 @@ function MessageBubble({
             isUser ? (
               <p className="m-0 whitespace-pre-wrap text-[16px] text-[#faf9f5]" style={{ fontWeight: 360 }}>{content}</p>
             ) : (
-              <div className="ai-response-prose prose prose-invert max-w-none">
-                <ReactMarkdown
-                  remarkPlugins={[remarkGfm]}
-                  components={{
-                    h1: ({ children }) => <h1 className="text-xl font-semibold text-[#faf9f5] mt-5 mb-2">{children}</h1>,
-                    h2: ({ children }) => <h2 className="text-lg font-semibold text-[#faf9f5] mt-4 mb-2">{children}</h2>,
-                    h3: ({ children }) => <h3 className="text-[17px] font-medium text-[#faf9f5] mt-3 mb-1.5">{children}</h3>,
-                    h4: ({ children }) => <h4 className="text-[16px] font-medium text-[#faf9f5] mt-3 mb-1">{children}</h4>,
-                    pre: ({ children }) => (
-                      <pre className="bg-gray-900/50 rounded-lg p-4 overflow-x-auto text-sm my-4">{children}</pre>
-                    ),
-                    code: ({ children, className }) => {
-                      const isInline = !className;
-                      return isInline ? (
-                        <code className="bg-gray-700/50 px-1.5 py-0.5 rounded text-violet-300 text-sm">{children}</code>
-                      ) : (
-                        <code className={className}>{children}</code>
-                      );
-                    },
-                  }}
-                >
-                  {content
-                    // Ensure headings start on their own line with a blank line before
-                    .replace(/([^\n])\n(#{1,6} )/g, '$1\n\n$2')
-                    .replace(/([^\n#])(#{1,6} )/g, '$1\n\n$2')
-                  }
-                </ReactMarkdown>
-              </div>
+              <Markdown
+                className="ai-response-prose prose prose-invert max-w-none"
+                components={{
+                  h1: ({ children }) => <h1 className="text-xl font-semibold text-[#faf9f5] mt-5 mb-2">{children}</h1>,
+                  h2: ({ children }) => <h2 className="text-lg font-semibold text-[#faf9f5] mt-4 mb-2">{children}</h2>,
+                  h3: ({ children }) => <h3 className="text-[17px] font-medium text-[#faf9f5] mt-3 mb-1.5">{children}</h3>,
+                  h4: ({ children }) => <h4 className="text-[16px] font-medium text-[#faf9f5] mt-3 mb-1">{children}</h4>,
+                }}
+              >
+                {content
+                  // Ensure headings start on their own line with a blank line before
+                  .replace(/([^\n])\n(#{1,6} )/g, '$1\n\n$2')
+                  .replace(/([^\n#])(#{1,6} )/g, '$1\n\n$2')
+                }
+              </Markdown>
             )
           )}
 
@@ -517,6 +541,42 @@ function MessageBubble({
           )}
         </div>
 
+        {/* Rejected by the server — kept so the text isn't lost */}
+        {isUser && isPending && message.hasError && (
+          <div className="flex items-center justify-end gap-2 mt-1.5 mr-1 text-xs text-red-400">
+            <AlertCircle className="w-3 h-3" />
+            <span className="truncate">{message.errorMessage || 'Could not be sent'}</span>
+            {onEdit && (
+              <button onClick={onEdit} className="flex items-center gap-1 px-1.5 py-0.5 text-gray-400 hover:text-gray-200 hover:bg-gray-700/50 rounded transition-colors">
+                <Pencil className="w-3 h-3" /> Edit
+              </button>
+            )}
+            {onResend && (
+              <button onClick={onResend} className="flex items-center gap-1 px-1.5 py-0.5 text-gray-400 hover:text-gray-200 hover:bg-gray-700/50 rounded transition-colors">
+                <RotateCcw className="w-3 h-3" /> Resend
+              </button>
+            )}
+            {onDiscard && (
+              <button onClick={onDiscard} className="px-1.5 py-0.5 text-gray-400 hover:text-red-400 hover:bg-red-500/10 rounded transition-colors">
+                Discard
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Queued while offline — sent automatically on reconnect */}
+        {isUser && isPending && !message.hasError && (
+          <div className="flex items-center justify-end gap-2 mt-1.5 mr-1 text-xs text-gray-500">
+            <Clock className="w-3 h-3" />
+            <span>Waiting for connection — will send automatically</span>
+            {onDiscard && (
+              <button onClick={onDiscard} className="px-1.5 py-0.5 text-gray-400 hover:text-red-400 hover:bg-red-500/10 rounded transition-colors">
+                Discard
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Council responses on completed messages */}
         {!isUser && !isStreaming && message.councilResponses && (
           <CouncilResponsesDisplay responses={message.councilResponses} />
@@ -577,6 +637,15 @@ function MessageBubble({
                   >
                     <ThumbsDown className="w-3.5 h-3.5" />
                   </button>
+                  {onMakeCard && message.content && (
+                    <button
+                      onClick={onMakeCard}
+                      className="p-1.5 rounded-lg text-gray-500 hover:text-gray-300 hover:bg-gray-700/50 transition-colors"
+                      title="Make a flashcard"
+                    >
+                      <Layers className="w-3.5 h-3.5" />
+                    </button>
+                  )}
                 </>
               )}
             </div>
@@ -625,6 +694,7 @@ export function StudentDashboard() {
     dailyRoom?: DailyRoom;
   } | null>(null);
   const [liveSharingEnabled, setLiveSharingEnabled] = useState(false);
+  const [reviewTarget, setReviewTarget] = useState<ReviewTarget | null>(null);
 
   // Audio recording
   const [isAudioMode, setIsAudioMode] = useState(false);
@@ -649,6 +719,9 @@ export function StudentDashboard() {
   // Tutor session panel state
   const [showTutorPanel, setShowTutorPanel] = useState(false);
 
+  // Message being turned into a flashcard
+  const [makeCardMessage, setMakeCardMessage] = useState<AIMessage | null>(null);
+
   // Deep Think / Deep Research / Project context state
   const [deepThinkEnabled, setDeepThinkEnabled] = useState(false);
   const [deepResearchEnabled, setDeepResearchEnabled] = useState(false);
@@ -672,7 +745,7 @@ export function StudentDashboard() {
     thinkingTrace, streamMode, streamSources, streamProvider,
     councilAnalyzing, councilExperts, councilMembers, isSynthesizing,
     prepareForRetry, reconnectToStream, cancelStream, sendMessage, sendMessageWithAttachments,
-    sendAudioMessage, retryMessage, addFeedback,
+    sendAudioMessage, retryMessage, addFeedback, outboxMessages, discardOutboxMessage, resendOutboxMessage,
   } = useGeminiChat({
     sessionId: currentSessionId || undefined,
     onStreamChunk: (chunk) => {
@@ -774,8 +847,46 @@ export function StudentDashboard() {
     onTutorStatusUpdate: (data) => toast(data.message, { icon: '\ud83d\udc4b' }),
     onTutorConnected: (data) => toast.success(data.message),
     onTutorWaitUpdate: (data) => toast(data.message, { icon: '\u23f3' }),
+    onOutboxSent: (entry, result) => {
+      // Replayed message belongs to the open chat: swap the pending bubble for a sent one
+      if (entry.sessionKey !== (currentSessionId || NEW_SESSION_KEY)) return;
+      if (!currentSessionId) {
+        setCurrentSessionId(result.sessionId);
+        setSearchParams({ session: result.sessionId });
+      }
+      setMessages((prev) => [...prev, { ...outboxEntryToMessage(entry), sessionId: result.sessionId, isComplete: true }]);
+      setStreamingMessage({
+        id: 'waiting-' + Date.now(),
+        sessionId: result.sessionId,
+        role: 'ASSISTANT',
+        content: '',
+        attachments: null, audioUrl: null, transcription: null,
+        isStreaming: true, isComplete: false, hasError: false, errorMessage: null,
+        feedback: null, councilResponses: null, createdAt: new Date().toISOString(),
+      });
+      setShouldScrollToUser(true);
+    },
+    onOutboxFailed: () => toast.error('A queued message could not be sent. You can edit or resend it.'),
   });
 
+  // Pending bubbles for messages still in the outbox
+  const pendingMessages = useMemo(() => outboxMessages.map(outboxEntryToMessage), [outboxMessages]);
+  useEffect(() => () => {
+    pendingMessages.forEach((m) => m.attachments?.forEach((att) => URL.revokeObjectURL(att.url)));
+  }, [pendingMessages]);
+
+  // Move a rejected message back into the composer so it can be fixed up
+  const editFailedMessage = (outboxId: string) => {
+    const entry = outboxMessages.find((m) => m.id === outboxId);
+    if (!entry) return;
+    setInput(entry.content);
+    setAttachments(entry.files);
+    discardOutboxMessage(outboxId);
+  };
+
+  // Jump to a deep-linked message (search results) once the session is loaded
+  useScrollToMessage(!isLoadingSession && messages.length > 0);
+
   // Connect to tutor session socket
   useEffect(() => {
     const token = localStorage.getItem('accessToken');
@@ -801,7 +912,7 @@ export function StudentDashboard() {
 
   // Listen for tutor accepted event
   useEffect(() => {
-    const handleTutorAccepted = async (data: any) => {
+    const handleTutorAccepted = async (data: TutorSessionAcceptedEvent) => {
       setShowTutorPanel(false);
       if (data.tutorSessionId && data.tutor) {
         setActiveTutorSession({
@@ -831,18 +942,21 @@ export function StudentDashboard() {
       }
     };
 
-    const handleSessionStatusChanged = (data: any) => {
+    const handleSessionStatusChanged = (data: SessionStatusChangedEvent) => {
       if (data.sessionId === activeTutorSession?.tutorSessionId) {
         if (data.status === 'COMPLETED' || data.status === 'CANCELLED') {
+          if (data.status === 'COMPLETED' && activeTutorSession) {
+            setReviewTarget({ tutorName: activeTutorSession.tutorName, tutorSessionId: activeTutorSession.tutorSessionId });
+          }
           setActiveTutorSession(null);
           toast('Session has ended');
         }
       }
     };
 
-    onTutorAccepted(handleTutorAccepted);
-    onSessionStatusChanged(handleSessionStatusChanged);
-    return () => { offTutorAccepted(); offSessionStatusChanged(); };
+    const unsubscribeAccepted = onTutorAccepted(handleTutorAccepted);
+    const unsubscribeStatus = onSessionStatusChanged(handleSessionStatusChanged);
+    return () => { unsubscribeAccepted(); unsubscribeStatus(); };
   }, [activeTutorSession?.tutorSessionId]);
 
   // Save scroll position when leaving a session
@@ -875,6 +989,14 @@ export function StudentDashboard() {
     if (!initialLoadDone) setInitialLoadDone(true);
   }, [searchParams, initialLoadDone]);
 
+  // Practice links open a fresh chat with the opening message ready to send
+  useEffect(() => {
+    const prompt = searchParams.get('prompt');
+    if (!prompt || searchParams.get('session')) return;
+    setInput(prompt);
+    setSearchParams({}, { replace: true });
+  }, [searchParams]);
+
   const loadSession = async (sessionId: string) => {
     try {
       setIsLoadingSession(true);
@@ -1048,6 +1170,12 @@ export function StudentDashboard() {
       if (!result) {
         toast.error('Failed to send message. Please try again.');
         setStreamingMessage(null);
+      } else if (result.queued) {
+        // The outbox renders it as a pending bubble until it goes through
+        setMessages((prev) => prev.filter((m) => m.id !== tempUserMessage.id));
+        setStreamingMessage(null);
+        setShouldScrollToUser(false);
+        toast("You're offline. We'll send your message when the connection is back.", { icon: '\ud83d\udce1' });
       }
     } catch {
       toast.error('Failed to send message');
@@ -1096,6 +1224,13 @@ export function StudentDashboard() {
     setShowTutorPanel(true);
   };
 
+  // Export pulls the saved session so traces/sources are included even for old messages
+  const handleLoadTranscript = useCallback(async () => {
+    if (!currentSessionId) throw new Error('No active session');
+    const { session, messages: savedMessages } = await geminiChatApi.getSession(currentSessionId);
+    return transcriptFromAIChat(session, savedMessages);
+  }, [currentSessionId]);
+
   const handleToggleLiveSharing = useCallback(async (enabled: boolean) => {
     if (!activeTutorSession?.tutorSessionId) return;
     try {
@@ -1254,7 +1389,7 @@ export function StudentDashboard() {
   }, [audioUrl]);
 
 
-  const hasMessages = messages.length > 0 || streamingMessage || isLoadingSession;
+  const hasMessages = messages.length > 0 || pendingMessages.length > 0 || streamingMessage || isLoadingSession;
 
   // Random greeting for empty state
   const [greeting] = useState(() => {
@@ -1310,8 +1445,13 @@ export function StudentDashboard() {
       {/* Header - only show when there are messages */}
       {hasMessages && (
         <div className="sticky top-0 z-10 bg-[#161616]">
-          <header className="flex items-center justify-center px-4 py-3 border-b border-gray-800/50 bg-[#161616]/80 backdrop-blur-sm">
+          <header className="relative flex items-center justify-center px-4 py-3 border-b border-gray-800/50 bg-[#161616]/80 backdrop-blur-sm">
             <span className="font-medium text-white text-sm tracking-tight">AI Tutor</span>
+            {currentSessionId && (
+              <div className="absolute right-4 top-1/2 -translate-y-1/2">
+                <ExportMenu label="" loadTranscript={handleLoadTranscript} />
+              </div>
+            )}
           </header>
         </div>
       )}
@@ -1347,7 +1487,7 @@ export function StudentDashboard() {
                 // Detect orphaned streaming messages (loaded from DB but not reconnected)
                 const isOrphanedStream = msg.role === 'ASSISTANT' && msg.isStreaming && !msg.isComplete && !streamingMessage;
                 return (
-                  <div key={msg.id} ref={isLastUserMessage ? lastUserMessageRef : undefined} style={isLastUserMessage ? { scrollMarginTop: 60 } : undefined}>
+                  <div key={msg.id} id={messageElementId(msg.id)} ref={isLastUserMessage ? lastUserMessageRef : undefined} style={isLastUserMessage ? { scrollMarginTop: 60 } : undefined}>
                     {isOrphanedStream ? (
                       <div className="flex justify-start animate-fadeIn">
                         <div className="w-full">
@@ -1357,14 +1497,12 @@ export function StudentDashboard() {
                               <ThinkingTrace trace={msg.thinkingTrace} mode={msg.mode} isActive={true} />
                             )}
                             {msg.content && (
-                              <div className="ai-response-prose prose prose-invert max-w-none mb-2">
-                                <ReactMarkdown remarkPlugins={[remarkGfm]}>
-                                  {msg.content
-                                    .replace(/([^\n])\n(#{1,6} )/g, '$1\n\n$2')
-                                    .replace(/([^\n#])(#{1,6} )/g, '$1\n\n$2')
-                                  }
-                                </ReactMarkdown>
-                              </div>
+                              <Markdown className="ai-response-prose prose prose-invert max-w-none mb-2">
+                                {msg.content
+                                  .replace(/([^\n])\n(#{1,6} )/g, '$1\n\n$2')
+                                  .replace(/([^\n#])(#{1,6} )/g, '$1\n\n$2')
+                                }
+                              </Markdown>
                             )}
                             <div className="flex items-center gap-2 text-sm text-gray-400">
                               <Loader2 className="w-4 h-4 text-violet-400 animate-spin" />
@@ -1386,6 +1524,7 @@ export function StudentDashboard() {
                         isLastAssistant={isLastAssistantMsg}
                         onRetry={() => handleRetry(msg.id)}
                         onFeedback={(feedback) => handleFeedback(msg.id, feedback)}
+                        onMakeCard={user?.role === Role.STUDENT ? () => setMakeCardMessage(msg) : undefined}
                         onAttachmentPreview={handleAttachmentPreview}
                         onImagePreview={(data) => setPreviewData(data)}
                       />
@@ -1393,6 +1532,17 @@ export function StudentDashboard() {
                   </div>
                 );
               })}
+              {pendingMessages.map((msg) => (
+                <MessageBubble
+                  key={msg.id}
+                  message={msg}
+                  isPending
+                  onDiscard={() => discardOutboxMessage(msg.id)}
+                  onResend={msg.hasError ? () => resendOutboxMessage(msg.id) : undefined}
+                  onEdit={msg.hasError ? () => editFailedMessage(msg.id) : undefined}
+                  onImagePreview={(data) => setPreviewData(data)}
+                />
+              ))}
               {streamingMessage && !messages.some((m) => m.id === streamingMessage.id) && (
                 <MessageBubble
                   key={`streaming-${streamingMessage.id}`}
@@ -1747,6 +1897,8 @@ export function StudentDashboard() {
           <p className="text-center text-xs text-gray-600 mt-3">
             AI can make mistakes. For important topics, verify with your tutor.
           </p>
+
+          {!hasMessages && user?.role === Role.STUDENT && <GoalsWidget />}
         </div>
       </div>
 
@@ -1763,6 +1915,17 @@ export function StudentDashboard() {
         </div>
       )}
 
+      {/* Make-a-card Modal */}
+      <MakeCardModal
+        isOpen={!!makeCardMessage}
+        onClose={() => setMakeCardMessage(null)}
+        content={makeCardMessage?.content || ''}
+        sourceId={makeCardMessage?.id}
+      />
+
+      {/* Post-session Rating Modal */}
+      <RateSessionModal target={reviewTarget} onClose={() => setReviewTarget(null)} />
+
       {/* Attachment Preview Modal */}
       {previewData && (
         <div
@@ -1,15 +1,26 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import { Navigate } from 'react-router-dom';
-import { Calendar, FileText, Headphones, ClipboardList, ChevronLeft, ChevronRight, CheckCircle, XCircle, Clock, Download } from 'lucide-react';
-import { packagesApi } from '../../api';
-import { StudentDailyPackage, QuizQuestion } from '../../types';
+import { Calendar, FileText, Headphones, ClipboardList, ChevronLeft, ChevronRight, CheckCircle, XCircle, Clock, Download, Layers, BarChart3, RotateCcw, TrendingDown } from 'lucide-react';
+import { packagesApi, flashcardsApi } from '../../api';
+import { StudentDailyPackage, QuizQuestion, QuizAttempt } from '../../types';
 import { Spinner } from '../../components/ui/Loading';
 import { Modal } from '../../components/ui/Modal';
+import { cardsFromQuizQuestions } from '../../components/flashcards';
+import {
+  shuffledOrder,
+  buildAttemptAnswers,
+  attemptPercent,
+  summarizeWeakTopics,
+  formatDuration,
+} from '../../components/quiz';
 import Button from '../../components/ui/Button';
 import { useAuth } from '../../contexts/AuthContext';
 import toast from 'react-hot-toast';
 
-type TabType = 'daily' | 'weekly';
+type TabType = 'daily' | 'weekly' | 'results';
+
+// The API only returns approved packages; drafts are filtered again in case an older server doesn't
+const isPublished = (pkg: StudentDailyPackage) => pkg.reviewStatus !== 'DRAFT';
 
 export function StudentPackages() {
   const { user } = useAuth();
@@ -27,10 +38,22 @@ export function StudentPackages() {
   const [weekRange, setWeekRange] = useState<{ start: string; end: string } | null>(null);
   const [isLoadingWeekly, setIsLoadingWeekly] = useState(false);
 
-  // Quiz modal
+  // Quiz modal (answers and timings are keyed by the question's quizJson index)
   const [quizPackage, setQuizPackage] = useState<StudentDailyPackage | null>(null);
+  const [quizOrder, setQuizOrder] = useState<number[]>([]);
+  const [quizStep, setQuizStep] = useState(0);
   const [quizAnswers, setQuizAnswers] = useState<Record<number, number>>({});
   const [showResults, setShowResults] = useState(false);
+  const [isSubmittingQuiz, setIsSubmittingQuiz] = useState(false);
+  const [isSavingCards, setIsSavingCards] = useState(false);
+  const [lastAttempt, setLastAttempt] = useState<QuizAttempt | null>(null);
+  const quizTimingsRef = useRef<Record<number, number>>({});
+  const questionShownAtRef = useRef(0);
+  const quizStartedAtRef = useRef(0);
+
+  // Attempt history
+  const [attempts, setAttempts] = useState<QuizAttempt[]>([]);
+  const [isLoadingAttempts, setIsLoadingAttempts] = useState(true);
 
   // Audio player
   const [playingAudioId, setPlayingAudioId] = useState<string | null>(null);
@@ -42,6 +65,18 @@ export function StudentPackages() {
     if (isSchoolAffiliated) fetchDailyPackages();
   }, [selectedDate, isSchoolAffiliated]);
 
+  useEffect(() => {
+    if (isSchoolAffiliated) fetchAttempts();
+  }, [isSchoolAffiliated]);
+
+  const attemptsByPackage = useMemo(() => {
+    const grouped: Record<string, QuizAttempt[]> = {};
+    attempts.forEach((a) => { (grouped[a.packageId] ||= []).push(a); });
+    return grouped;
+  }, [attempts]);
+
+  const weakTopics = useMemo(() => summarizeWeakTopics(attempts), [attempts]);
+
   // Only school-affiliated students can access packages
   if (!isSchoolAffiliated) {
     return <Navigate to="/chat" replace />;
@@ -51,7 +86,7 @@ export function StudentPackages() {
     setIsLoadingDaily(true);
     try {
       const data = await packagesApi.getDailyPackages(selectedDate);
-      setDailyPackages(data);
+      setDailyPackages(data.filter(isPublished));
     } catch {
       toast.error('Failed to load daily packages');
     } finally {
@@ -59,11 +94,23 @@ export function StudentPackages() {
     }
   };
 
+  const fetchAttempts = async () => {
+    setIsLoadingAttempts(true);
+    try {
+      const data = await packagesApi.getQuizHistory({ limit: 200 });
+      setAttempts(data);
+    } catch {
+      // History is secondary; quizzes still work without it
+    } finally {
+      setIsLoadingAttempts(false);
+    }
+  };
+
   const fetchWeeklyPackages = async (weekStart?: string) => {
     setIsLoadingWeekly(true);
     try {
       const data = await packagesApi.getWeeklyPackages(weekStart);
-      setWeeklyPackages(data.packages);
+      setWeeklyPackages(data.packages.filter(isPublished));
       setWeekRange({ start: data.weekStart, end: data.weekEnd });
     } catch {
       toast.error('Failed to load weekly packages');
@@ -91,17 +138,88 @@ export function StudentPackages() {
     setSelectedDate(date.toISOString().split('T')[0]);
   };
 
+  // First attempt keeps the teacher's order; retakes are shuffled
   const openQuiz = (pkg: StudentDailyPackage) => {
+    const count = pkg.quizJson?.length ?? 0;
+    const isRetake = (attemptsByPackage[pkg.id]?.length ?? 0) > 0;
     setQuizPackage(pkg);
+    setQuizOrder(isRetake ? shuffledOrder(count) : Array.from({ length: count }, (_, i) => i));
+    setQuizStep(0);
     setQuizAnswers({});
     setShowResults(false);
+    setLastAttempt(null);
+    quizTimingsRef.current = {};
+    quizStartedAtRef.current = Date.now();
+    questionShownAtRef.current = Date.now();
   };
 
-  const submitQuiz = () => {
+  const closeQuiz = () => {
+    setQuizPackage(null);
+    setQuizAnswers({});
+    setShowResults(false);
+  };
+
+  // Add the time spent on the visible question before moving away from it
+  const recordQuestionTime = () => {
+    const index = quizOrder[quizStep];
+    if (index === undefined) return;
+    const now = Date.now();
+    quizTimingsRef.current[index] = (quizTimingsRef.current[index] ?? 0) + (now - questionShownAtRef.current);
+    questionShownAtRef.current = now;
+  };
+
+  const goToQuizStep = (step: number) => {
+    recordQuestionTime();
+    setQuizStep(step);
+  };
+
+  const submitQuiz = async () => {
+    if (!quizPackage?.quizJson) return;
+    recordQuestionTime();
+    const answers = buildAttemptAnswers(quizPackage.quizJson, quizAnswers, quizTimingsRef.current);
+    const correct = answers.filter((a) => a.isCorrect).length;
     setShowResults(true);
+
+    setIsSubmittingQuiz(true);
+    try {
+      const attempt = await packagesApi.submitQuizAttempt(quizPackage.id, {
+        answers,
+        durationMs: Date.now() - quizStartedAtRef.current,
+        startedAt: new Date(quizStartedAtRef.current).toISOString(),
+      });
+      setLastAttempt(attempt);
+      setAttempts((prev) => [{ ...attempt, package: attempt.package ?? quizPackage }, ...prev]);
+      toast.success(`Score: ${correct}/${quizPackage.quizJson.length}`);
+    } catch {
+      toast.error(`Score: ${correct}/${quizPackage.quizJson.length} — couldn't save this attempt`);
+    } finally {
+      setIsSubmittingQuiz(false);
+    }
+  };
+
+  // Save the quiz questions to the student's flashcard deck
+  const saveQuizAsFlashcards = async () => {
     if (!quizPackage?.quizJson) return;
-    const correct = quizPackage.quizJson.filter((q, i) => quizAnswers[i] === q.correctAnswer).length;
-    toast.success(`Score: ${correct}/${quizPackage.quizJson.length}`);
+    const cards = cardsFromQuizQuestions(quizPackage.quizJson, {
+      source: 'DAILY_PACKAGE',
+      sourceId: quizPackage.id,
+      sourceLabel: `${quizPackage.class_sections.name} · ${quizPackage.packageDate.split('T')[0]}`,
+      subject: quizPackage.subject,
+    });
+
+    setIsSavingCards(true);
+    try {
+      const { created, skipped } = await flashcardsApi.createCards(cards);
+      toast.success(
+        skipped > 0
+          ? `Added ${created.length} cards (${skipped} already in your deck)`
+          : `Added ${created.length} cards to your deck`
+      );
+    } catch {
+      toast.error('Failed to save flashcards');
+    } finally {
+      setIsSavingCards(false);
+    }
   };
 
   const handleDownloadPdf = async (pkg: StudentDailyPackage) => {
@@ -160,7 +278,7 @@ export function StudentPackages() {
               className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-amber-400 bg-amber-500/10 rounded-lg hover:bg-amber-500/20 transition-colors"
             >
               <ClipboardList className="w-3.5 h-3.5" />
-              Self-Assessment ({pkg.quizJson.length}Q)
+              {attemptsByPackage[pkg.id] ? 'Retake' : 'Self-Assessment'} ({pkg.quizJson.length}Q)
             </button>
           )}
           {pkg.summaryText && (
@@ -175,6 +293,15 @@ export function StudentPackages() {
         </div>
       )}
 
+      {/* Previous attempts */}
+      {attemptsByPackage[pkg.id] && (
+        <p className="mt-3 text-xs text-gray-500">
+          Best {Math.max(...attemptsByPackage[pkg.id].map((a) => a.score))}/{attemptsByPackage[pkg.id][0].total}
+          {' · '}
+          {attemptsByPackage[pkg.id].length} attempt{attemptsByPackage[pkg.id].length !== 1 ? 's' : ''}
+        </p>
+      )}
+
       {/* Inline audio player */}
       {playingAudioId === pkg.id && pkg.audioUrl && (
         <div className="mt-3 pt-3 border-t border-gray-700/50">
@@ -207,6 +334,13 @@ export function StudentPackages() {
           <FileText className="w-4 h-4 inline mr-1.5" />
           Weekly
         </button>
+        <button
+          onClick={() => setActiveTab('results')}
+          className={`px-4 py-2 text-sm font-medium rounded-md transition-all ${activeTab === 'results' ? 'bg-[#25262b] text-gray-100 shadow-sm' : 'text-gray-500 hover:text-gray-300'}`}
+        >
+          <BarChart3 className="w-4 h-4 inline mr-1.5" />
+          My Results
+        </button>
       </div>
 
       {/* Daily Tab */}
@@ -283,16 +417,105 @@ export function StudentPackages() {
         </>
       )}
 
+      {/* Results Tab */}
+      {activeTab === 'results' && (
+        isLoadingAttempts ? (
+          <div className="flex items-center justify-center py-16"><Spinner size="lg" /></div>
+        ) : attempts.length === 0 ? (
+          <div className="text-center py-16 text-gray-500">
+            <BarChart3 className="w-12 h-12 mx-auto mb-3 text-gray-300" />
+            <p className="font-medium">No quiz attempts yet</p>
+            <p className="text-sm mt-1">Take a self-assessment from any package to track your progress</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {/* Weak topics */}
+            <div className="bg-[#25262b] border border-gray-700/50 rounded-lg p-5">
+              <h2 className="text-base font-semibold text-gray-200 flex items-center gap-2 mb-4">
+                <TrendingDown className="w-5 h-5 text-amber-500" />
+                Weak Topics
+              </h2>
+              <div className="space-y-2 mb-4">
+                {weakTopics.subjects.map((subject) => (
+                  <div key={subject.subject} className="flex items-center gap-3">
+                    <span className="w-32 text-xs text-gray-400 truncate">{subject.subject.replace(/_/g, ' ')}</span>
+                    <div className="flex-1 h-2 bg-[#2c2d32] rounded-full overflow-hidden">
+                      <div
+                        className={`h-full rounded-full ${subject.accuracy >= 0.7 ? 'bg-emerald-500' : subject.accuracy >= 0.5 ? 'bg-amber-500' : 'bg-red-500'}`}
+                        style={{ width: `${Math.round(subject.accuracy * 100)}%` }}
+                      />
+                    </div>
+                    <span className="w-20 text-right text-xs text-gray-400">
+                      {Math.round(subject.accuracy * 100)}% · {subject.attempts}
+                    </span>
+                  </div>
+                ))}
+              </div>
+              {weakTopics.missedQuestions.length > 0 && (
+                <>
+                  <p className="text-xs font-medium uppercase tracking-wider text-gray-500 mb-2">Most missed questions</p>
+                  <ul className="space-y-1.5">
+                    {weakTopics.missedQuestions.map((q) => (
+                      <li key={q.questionId} className="flex items-start justify-between gap-3 text-sm">
+                        <span className="text-gray-300">{q.question}</span>
+                        <span className="flex-shrink-0 text-xs text-red-400">missed {q.missed}/{q.seen}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </div>
+
+            {/* Attempt history */}
+            <div className="bg-[#25262b] border border-gray-700/50 rounded-lg">
+              <div className="px-5 py-4 border-b border-gray-700/50">
+                <h2 className="text-base font-semibold text-gray-200">Attempt History</h2>
+              </div>
+              <div className="divide-y divide-gray-700/50">
+                {attempts.map((attempt) => (
+                  <div key={attempt.id} className="px-5 py-3 flex items-center justify-between">
+                    <div>
+                      <p className="text-sm text-gray-200">
+                        {attempt.package
+                          ? `${attempt.package.class_sections.name} · ${attempt.package.subject.replace(/_/g, ' ')}`
+                          : 'Package quiz'}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {new Date(attempt.createdAt).toLocaleString()}
+                        {attempt.attemptNumber > 1 && ` · Retake #${attempt.attemptNumber - 1}`}
+                        {' · '}
+                        {formatDuration(attempt.durationMs)}
+                      </p>
+                    </div>
+                    <span className={`text-sm font-semibold ${attemptPercent(attempt) >= 70 ? 'text-emerald-400' : 'text-amber-400'}`}>
+                      {attempt.score}/{attempt.total}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )
+      )}
+
       {/* Quiz Modal */}
       {quizPackage && quizPackage.quizJson && (
         <QuizModal
           isOpen={!!quizPackage}
-          onClose={() => { setQuizPackage(null); setQuizAnswers({}); setShowResults(false); }}
+          onClose={closeQuiz}
           questions={quizPackage.quizJson}
+          order={quizOrder}
+          step={quizStep}
+          onStep={goToQuizStep}
           answers={quizAnswers}
           onAnswer={(qIndex, aIndex) => setQuizAnswers(prev => ({ ...prev, [qIndex]: aIndex }))}
           showResults={showResults}
           onSubmit={submitQuiz}
+          isSubmitting={isSubmittingQuiz}
+          timings={lastAttempt ? Object.fromEntries(lastAttempt.answers.map((a) => [a.questionIndex, a.timeMs])) : quizTimingsRef.current}
+          onRetake={() => openQuiz(quizPackage)}
+          onSaveFlashcards={saveQuizAsFlashcards}
+          isSavingFlashcards={isSavingCards}
           sectionName={quizPackage.class_sections.name}
           subject={quizPackage.subject}
         />
@@ -317,80 +540,126 @@ export function StudentPackages() {
   );
 }
 
-// Quiz Modal (self-assessment)
+// Quiz Modal (self-assessment): one question at a time, then a full review
 function QuizModal({
-  isOpen, onClose, questions, answers, onAnswer, showResults, onSubmit, sectionName, subject,
+  isOpen, onClose, questions, order, step, onStep, answers, onAnswer, showResults, onSubmit, isSubmitting,
+  timings, onRetake, onSaveFlashcards, isSavingFlashcards, sectionName, subject,
 }: {
   isOpen: boolean;
   onClose: () => void;
   questions: QuizQuestion[];
+  order: number[];
+  step: number;
+  onStep: (step: number) => void;
   answers: Record<number, number>;
   onAnswer: (qIndex: number, aIndex: number) => void;
   showResults: boolean;
   onSubmit: () => void;
+  isSubmitting: boolean;
+  timings: Record<number, number>;
+  onRetake: () => void;
+  onSaveFlashcards: () => void;
+  isSavingFlashcards: boolean;
   sectionName: string;
   subject: string;
 }) {
   const correctCount = questions.filter((q, i) => answers[i] === q.correctAnswer).length;
+  const answeredCount = Object.keys(answers).length;
+  const visible = showResults ? order : [order[step]];
 
   return (
     <Modal isOpen={isOpen} onClose={onClose} title={`Self-Assessment - ${sectionName} (${subject.replace(/_/g, ' ')})`}>
       <div className="space-y-6 max-h-[60vh] overflow-y-auto">
-        {showResults && (
+        {showResults ? (
           <div className={`p-4 rounded-lg text-center ${correctCount >= questions.length * 0.7 ? 'bg-emerald-500/10 text-emerald-400' : 'bg-amber-500/10 text-amber-400'}`}>
             <p className="text-lg font-semibold">{correctCount}/{questions.length} correct</p>
             <p className="text-sm">{correctCount >= questions.length * 0.7 ? 'Great job!' : 'Keep practicing!'}</p>
           </div>
+        ) : (
+          <div className="flex items-center gap-3">
+            <div className="flex-1 h-1.5 bg-[#2c2d32] rounded-full overflow-hidden">
+              <div className="h-full bg-primary-500 transition-all" style={{ width: `${((step + 1) / order.length) * 100}%` }} />
+            </div>
+            <span className="text-xs text-gray-500">{step + 1}/{order.length}</span>
+          </div>
         )}
 
-        {questions.map((q, qIndex) => (
-          <div key={q.id || qIndex} className="space-y-2">
-            <p className="text-sm font-medium text-gray-200">
-              {qIndex + 1}. {q.question}
-            </p>
-            <div className="space-y-1.5">
-              {q.options.map((option, oIndex) => {
-                const isSelected = answers[qIndex] === oIndex;
-                const isCorrect = q.correctAnswer === oIndex;
-                let optionClass = 'border-gray-600 hover:border-primary-500/50 text-gray-300';
-                if (showResults) {
-                  if (isCorrect) optionClass = 'border-emerald-500 bg-emerald-500/10 text-gray-200';
-                  else if (isSelected && !isCorrect) optionClass = 'border-red-500 bg-red-500/10 text-gray-200';
-                } else if (isSelected) {
-                  optionClass = 'border-primary-500 bg-primary-500/10 text-gray-200';
-                }
-
-                return (
-                  <button
-                    key={oIndex}
-                    onClick={() => !showResults && onAnswer(qIndex, oIndex)}
-                    disabled={showResults}
-                    className={`w-full text-left px-3 py-2 text-sm border rounded-lg transition-all ${optionClass}`}
-                  >
-                    <span className="font-medium mr-2">{String.fromCharCode(65 + oIndex)}.</span>
-                    {option}
-                    {showResults && isCorrect && <CheckCircle className="w-4 h-4 text-emerald-600 inline ml-2" />}
-                    {showResults && isSelected && !isCorrect && <XCircle className="w-4 h-4 text-red-600 inline ml-2" />}
-                  </button>
-                );
-              })}
+        {visible.map((qIndex, position) => {
+          const q = questions[qIndex];
+          return (
+            <div key={q.id || qIndex} className="space-y-2">
+              <p className="text-sm font-medium text-gray-200">
+                {showResults ? position + 1 : step + 1}. {q.question}
+              </p>
+              <div className="space-y-1.5">
+                {q.options.map((option, oIndex) => {
+                  const isSelected = answers[qIndex] === oIndex;
+                  const isCorrect = q.correctAnswer === oIndex;
+                  let optionClass = 'border-gray-600 hover:border-primary-500/50 text-gray-300';
+                  if (showResults) {
+                    if (isCorrect) optionClass = 'border-emerald-500 bg-emerald-500/10 text-gray-200';
+                    else if (isSelected && !isCorrect) optionClass = 'border-red-500 bg-red-500/10 text-gray-200';
+                  } else if (isSelected) {
+                    optionClass = 'border-primary-500 bg-primary-500/10 text-gray-200';
+                  }
+
+                  return (
+                    <button
+                      key={oIndex}
+                      onClick={() => !showResults && onAnswer(qIndex, oIndex)}
+                      disabled={showResults}
+                      className={`w-full text-left px-3 py-2 text-sm border rounded-lg transition-all ${optionClass}`}
+                    >
+                      <span className="font-medium mr-2">{String.fromCharCode(65 + oIndex)}.</span>
+                      {option}
+                      {showResults && isCorrect && <CheckCircle className="w-4 h-4 text-emerald-600 inline ml-2" />}
+                      {showResults && isSelected && !isCorrect && <XCircle className="w-4 h-4 text-red-600 inline ml-2" />}
+                    </button>
+                  );
+                })}
+              </div>
+              {showResults && (
+                <p className="text-xs text-gray-500 mt-1">
+                  <Clock className="w-3 h-3 inline mr-1" />
+                  {formatDuration(timings[qIndex] ?? 0)}
+                  {q.explanation && <span className="italic"> · Explanation: {q.explanation}</span>}
+                </p>
+              )}
             </div>
-            {showResults && q.explanation && (
-              <p className="text-xs text-gray-500 italic mt-1">Explanation: {q.explanation}</p>
-            )}
-          </div>
-        ))}
+          );
+        })}
       </div>
 
       <div className="flex justify-end gap-3 mt-6 pt-4 border-t border-gray-700/50">
         <Button variant="secondary" onClick={onClose}>Close</Button>
-        {!showResults && (
-          <Button
-            onClick={onSubmit}
-            disabled={Object.keys(answers).length < questions.length}
-          >
-            Submit ({Object.keys(answers).length}/{questions.length})
-          </Button>
+        {showResults ? (
+          <>
+            <Button variant="secondary" onClick={onRetake} disabled={isSubmitting} leftIcon={<RotateCcw className="w-4 h-4" />}>
+              Retake
+            </Button>
+            <Button
+              onClick={onSaveFlashcards}
+              isLoading={isSavingFlashcards}
+              leftIcon={<Layers className="w-4 h-4" />}
+            >
+              Save as flashcards
+            </Button>
+          </>
+        ) : (
+          <>
+            <Button variant="secondary" onClick={() => onStep(step - 1)} disabled={step === 0}>
+              Previous
+            </Button>
+            {step < order.length - 1 ? (
+              <Button onClick={() => onStep(step + 1)} disabled={answers[order[step]] === undefined}>
+                Next
+              </Button>
+            ) : (
+              <Button onClick={onSubmit} disabled={answeredCount < questions.length}>
+                Submit ({answeredCount}/{questions.length})
+              </Button>
+            )}
+          </>
         )}
       </div>
     </Modal>
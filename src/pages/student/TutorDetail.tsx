@@ -0,0 +1,220 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import {
+  ArrowLeft, Shield, Languages, GraduationCap, Briefcase, Award, CalendarPlus, MessageSquare, CheckCircle, Clock,
+} from 'lucide-react';
+import { tutorProfileApi } from '../../api';
+import { TutorProfile } from '../../types';
+import { Spinner } from '../../components/ui/Loading';
+import Button from '../../components/ui/Button';
+import Avatar from '../../components/ui/Avatar';
+import { SubjectBadge } from '../../components/ui/Badge';
+import { AvailabilityBadge, resolveAvailability } from '../../components/availability';
+import { ReviewList, StarRating } from '../../components/reviews';
+import { BookSessionModal } from '../../components/bookings';
+import { RequestTutorModal, toBookableTutor } from '../../components/tutors';
+import toast from 'react-hot-toast';
+
+function Section({ title, icon: Icon, children }: { title: string; icon: React.ElementType; children: React.ReactNode }) {
+  return (
+    <div className="bg-[#25262b] border border-gray-700/50 rounded-lg p-5">
+      <h2 className="flex items-center gap-2 text-sm font-semibold text-gray-200 mb-3">
+        <Icon className="w-4 h-4 text-gray-400" /> {title}
+      </h2>
+      {children}
+    </div>
+  );
+}
+
+const formatMonth = (date?: string) =>
+  date ? new Date(date).toLocaleDateString(undefined, { month: 'short', year: 'numeric' }) : '';
+
+export function TutorDetail() {
+  const { tutorId } = useParams<{ tutorId: string }>();
+  const navigate = useNavigate();
+  const [tutor, setTutor] = useState<TutorProfile | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showBookModal, setShowBookModal] = useState(false);
+  const [showRequestModal, setShowRequestModal] = useState(false);
+
+  useEffect(() => {
+    if (!tutorId) return;
+    const fetchTutor = async () => {
+      setIsLoading(true);
+      try {
+        const response = await tutorProfileApi.getProfileById(tutorId);
+        setTutor(response.data.data);
+      } catch {
+        setTutor(null);
+        toast.error('Failed to load tutor');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchTutor();
+  }, [tutorId]);
+
+  const bookable = useMemo(() => (tutor ? toBookableTutor(tutor) : undefined), [tutor]);
+
+  if (isLoading) {
+    return <div className="flex items-center justify-center py-24"><Spinner size="lg" /></div>;
+  }
+
+  if (!tutor) {
+    return (
+      <div className="p-6 text-center text-gray-400">
+        <p className="text-lg font-medium text-gray-300">Tutor not found</p>
+        <Link to="/tutors" className="text-sm text-primary-400 hover:text-primary-300">Back to tutors</Link>
+      </div>
+    );
+  }
+
+  const resolved = resolveAvailability(tutor);
+  const name = tutor.name || 'Tutor';
+
+  return (
+    <div className="p-6 max-w-5xl mx-auto">
+      <Link to="/tutors" className="inline-flex items-center gap-1 text-sm text-gray-400 hover:text-gray-200 mb-4">
+        <ArrowLeft className="w-4 h-4" /> All tutors
+      </Link>
+
+      {/* Header */}
+      <div className="bg-[#25262b] border border-gray-700/50 rounded-lg p-5 mb-4">
+        <div className="flex flex-col sm:flex-row gap-4">
+          <Avatar src={tutor.avatar} name={name} size="lg" />
+          <div className="flex-1 min-w-0">
+            <div className="flex flex-wrap items-center gap-2">
+              <h1 className="text-xl font-bold text-gray-100">{name}</h1>
+              {tutor.isVerified && (
+                <span className="flex items-center gap-1 px-1.5 py-0.5 text-xs bg-blue-500/20 text-blue-400 rounded border border-blue-500/30">
+                  <Shield className="w-3 h-3" /> Verified
+                </span>
+              )}
+              <AvailabilityBadge resolved={resolved} />
+            </div>
+            <div className="flex items-center gap-1.5 mt-1">
+              <StarRating value={tutor.rating ?? 0} size="sm" />
+              <span className="text-sm text-gray-300">{tutor.rating ? tutor.rating.toFixed(1) : 'No ratings yet'}</span>
+              <span className="text-xs text-gray-500">({tutor.totalReviews || 0} reviews)</span>
+            </div>
+            <div className="flex flex-wrap gap-1 mt-2">
+              {tutor.subjects?.map((s) => <SubjectBadge key={s} subject={s} />)}
+            </div>
+            <div className="flex flex-wrap gap-x-4 gap-y-1 mt-3 text-xs text-gray-400">
+              {tutor.languages && tutor.languages.length > 0 && (
+                <span className="flex items-center gap-1"><Languages className="w-3.5 h-3.5" /> {tutor.languages.join(', ')}</span>
+              )}
+              {tutor.academicLevels && tutor.academicLevels.length > 0 && (
+                <span className="flex items-center gap-1"><GraduationCap className="w-3.5 h-3.5" /> {tutor.academicLevels.join(', ')}</span>
+              )}
+              {tutor.teachingStyle && <span>{tutor.teachingStyle} teaching</span>}
+              {tutor.totalSessionsCompleted > 0 && (
+                <span className="flex items-center gap-1"><Clock className="w-3.5 h-3.5" /> {tutor.totalSessionsCompleted} sessions</span>
+              )}
+            </div>
+          </div>
+          <div className="flex sm:flex-col items-start sm:items-end gap-2 shrink-0">
+            {tutor.hourlyRate ? (
+              <p className="text-lg font-semibold text-gray-100">${tutor.hourlyRate}<span className="text-xs text-gray-500">/hr</span></p>
+            ) : null}
+            <Button onClick={() => setShowBookModal(true)} leftIcon={<CalendarPlus className="w-4 h-4" />}>
+              Book a session
+            </Button>
+            <Button variant="secondary" onClick={() => setShowRequestModal(true)} leftIcon={<MessageSquare className="w-4 h-4" />}>
+              Request this tutor
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <div className="lg:col-span-2 space-y-4">
+          {(tutor.bio || tutor.teachingPhilosophy) && (
+            <Section title="About" icon={MessageSquare}>
+              {tutor.bio && <p className="text-sm text-gray-300 whitespace-pre-wrap">{tutor.bio}</p>}
+              {tutor.teachingPhilosophy && (
+                <p className="text-sm text-gray-400 italic mt-3">"{tutor.teachingPhilosophy}"</p>
+              )}
+            </Section>
+          )}
+
+          <Section title="Reviews" icon={Award}>
+            <ReviewList tutorId={tutor.id} />
+          </Section>
+        </div>
+
+        <div className="space-y-4">
+          <Section title="Experience" icon={Briefcase}>
+            {tutor.experience ? (
+              <p className="text-sm text-gray-300 mb-3">{tutor.experience} year{tutor.experience === 1 ? '' : 's'} teaching</p>
+            ) : null}
+            {tutor.academicQualifications && tutor.academicQualifications.length > 0 && (
+              <div className="space-y-2 mb-3">
+                {tutor.academicQualifications.map((q, i) => (
+                  <div key={i}>
+                    <p className="text-sm text-gray-200">{q.degree}{q.field && ` in ${q.field}`}</p>
+                    <p className="text-xs text-gray-500">{q.institution}{q.year && ` · ${q.year}`}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+            {tutor.workExperience && tutor.workExperience.length > 0 ? (
+              <div className="space-y-2">
+                {tutor.workExperience.map((w, i) => (
+                  <div key={i}>
+                    <p className="text-sm text-gray-200">{w.role}</p>
+                    <p className="text-xs text-gray-500">
+                      {w.company}
+                      {w.startDate && ` · ${formatMonth(w.startDate)} – ${w.endDate ? formatMonth(w.endDate) : 'Present'}`}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            ) : !tutor.experience && !tutor.academicQualifications?.length && (
+              <p className="text-sm text-gray-500">Not listed</p>
+            )}
+          </Section>
+
+          <Section title="Certificates" icon={Award}>
+            {tutor.certificates && tutor.certificates.length > 0 ? (
+              <div className="space-y-2">
+                {tutor.certificates.map((c, i) => (
+                  <div key={c.id || i} className="flex items-start gap-2">
+                    {c.verified ? (
+                      <CheckCircle className="w-4 h-4 text-emerald-400 shrink-0 mt-0.5" aria-label="Verified" />
+                    ) : (
+                      <Award className="w-4 h-4 text-gray-500 shrink-0 mt-0.5" />
+                    )}
+                    <div className="min-w-0">
+                      <p className="text-sm text-gray-200">{c.name}</p>
+                      <p className="text-xs text-gray-500">
+                        {c.issuedBy}
+                        {c.issuedDate && ` · ${formatMonth(c.issuedDate)}`}
+                      </p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">None listed</p>
+            )}
+          </Section>
+        </div>
+      </div>
+
+      <BookSessionModal
+        isOpen={showBookModal}
+        onClose={() => setShowBookModal(false)}
+        onSaved={() => navigate('/bookings')}
+        tutor={bookable}
+      />
+      <RequestTutorModal
+        isOpen={showRequestModal}
+        onClose={() => setShowRequestModal(false)}
+        tutor={{ id: tutor.id, name }}
+      />
+    </div>
+  );
+}
+
+export default TutorDetail;
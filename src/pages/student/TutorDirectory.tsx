@@ -0,0 +1,218 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Search, SlidersHorizontal, Users, X } from 'lucide-react';
+import { tutorProfileApi } from '../../api';
+import { Subject, TutorProfile } from '../../types';
+import { Spinner } from '../../components/ui/Loading';
+import Pagination from '../../components/ui/Pagination';
+import {
+  TutorCard,
+  TutorFilters,
+  EMPTY_FILTERS,
+  ACADEMIC_LEVELS,
+  TEACHING_STYLES,
+  MIN_RATING_OPTIONS,
+  buildTutorQuery,
+  activeFilterCount,
+} from '../../components/tutors';
+import toast from 'react-hot-toast';
+
+const SUBJECT_OPTIONS = Object.values(Subject).map(s => ({
+  value: s,
+  label: s.replace(/_/g, ' '),
+}));
+
+const PAGE_SIZE = 12;
+
+export function TutorDirectory() {
+  const [filters, setFilters] = useState<TutorFilters>(EMPTY_FILTERS);
+  const [searchInput, setSearchInput] = useState('');
+  const [tutors, setTutors] = useState<TutorProfile[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showFilters, setShowFilters] = useState(false);
+
+  const fetchTutors = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await tutorProfileApi.listTutors(buildTutorQuery(filters, page, PAGE_SIZE));
+      const { data, pagination } = response.data.data;
+      setTutors(data);
+      setTotalPages(pagination.totalPages);
+      setTotal(pagination.total);
+    } catch {
+      toast.error('Failed to load tutors');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filters, page]);
+
+  useEffect(() => {
+    fetchTutors();
+  }, [fetchTutors]);
+
+  // Debounce the search box into the filters
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setFilters((prev) => (prev.search === searchInput ? prev : { ...prev, search: searchInput }));
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  const updateFilter = <K extends keyof TutorFilters>(key: K, value: TutorFilters[K]) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+    setPage(1);
+  };
+
+  const clearFilters = () => {
+    setFilters({ ...EMPTY_FILTERS, search: filters.search });
+    setPage(1);
+  };
+
+  const filterCount = activeFilterCount(filters);
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-100">Find a Tutor</h1>
+        <p className="text-gray-400">Browse tutors, read reviews and book time or send a question.</p>
+      </div>
+
+      {/* Search + Filters */}
+      <div className="bg-[#25262b] border border-gray-700/50 rounded-lg p-4 mb-6">
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="relative flex-1 min-w-[200px]">
+            <Search className="w-4 h-4 text-gray-500 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Search by name or expertise..."
+              className="input pl-10"
+            />
+          </div>
+          <select
+            value={filters.subject}
+            onChange={(e) => updateFilter('subject', e.target.value as Subject | '')}
+            className="input w-auto"
+          >
+            <option value="">All subjects</option>
+            {SUBJECT_OPTIONS.map((opt) => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+          </select>
+          <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={filters.availableNow}
+              onChange={(e) => updateFilter('availableNow', e.target.checked)}
+              className="rounded border-gray-600 text-primary-500 focus:ring-primary-500"
+            />
+            Available now
+          </label>
+          <button
+            onClick={() => setShowFilters((prev) => !prev)}
+            className={`flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm transition-colors ${
+              showFilters || filterCount > 0 ? 'bg-primary-500/15 text-primary-300' : 'bg-[#2c2d32] text-gray-400 hover:text-gray-200'
+            }`}
+          >
+            <SlidersHorizontal className="w-4 h-4" />
+            Filters{filterCount > 0 && ` (${filterCount})`}
+          </button>
+        </div>
+
+        {showFilters && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 mt-4 pt-4 border-t border-gray-700/50">
+            <div>
+              <label className="label">Language</label>
+              <input
+                type="text"
+                value={filters.language}
+                onChange={(e) => updateFilter('language', e.target.value)}
+                placeholder="e.g. Nepali"
+                className="input"
+              />
+            </div>
+            <div>
+              <label className="label">Level</label>
+              <select
+                value={filters.academicLevel}
+                onChange={(e) => updateFilter('academicLevel', e.target.value as TutorFilters['academicLevel'])}
+                className="input"
+              >
+                <option value="">Any level</option>
+                {ACADEMIC_LEVELS.map((level) => <option key={level} value={level}>{level}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="label">Teaching style</label>
+              <select
+                value={filters.teachingStyle}
+                onChange={(e) => updateFilter('teachingStyle', e.target.value as TutorFilters['teachingStyle'])}
+                className="input"
+              >
+                <option value="">Any style</option>
+                {TEACHING_STYLES.map((style) => <option key={style} value={style}>{style}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="label">Rating</label>
+              <select
+                value={filters.minRating}
+                onChange={(e) => updateFilter('minRating', Number(e.target.value))}
+                className="input"
+              >
+                {MIN_RATING_OPTIONS.map((rating) => (
+                  <option key={rating} value={rating}>{rating === 0 ? 'Any rating' : `${rating}+ stars`}</option>
+                ))}
+              </select>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={filters.verifiedOnly}
+                onChange={(e) => updateFilter('verifiedOnly', e.target.checked)}
+                className="rounded border-gray-600 text-primary-500 focus:ring-primary-500"
+              />
+              Verified tutors only
+            </label>
+            {filterCount > 0 && (
+              <button
+                onClick={clearFilters}
+                className="flex items-center gap-1 text-sm text-gray-400 hover:text-gray-200 sm:col-start-2 lg:col-start-4 justify-self-end"
+              >
+                <X className="w-4 h-4" /> Clear filters
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-16"><Spinner size="lg" /></div>
+      ) : tutors.length === 0 ? (
+        <div className="text-center py-16 text-gray-500">
+          <Users className="w-12 h-12 mx-auto mb-3 text-gray-600" />
+          <p className="font-medium text-gray-300">No tutors match these filters</p>
+          {filterCount > 0 && (
+            <button onClick={clearFilters} className="text-sm text-primary-400 hover:text-primary-300 mt-2">
+              Clear filters
+            </button>
+          )}
+        </div>
+      ) : (
+        <>
+          <p className="text-sm text-gray-500 mb-3">{total} tutor{total === 1 ? '' : 's'}</p>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {tutors.map((tutor) => <TutorCard key={tutor.id} tutor={tutor} />)}
+          </div>
+          <div className="mt-6">
+            <Pagination currentPage={page} totalPages={totalPages} onPageChange={setPage} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default TutorDirectory;
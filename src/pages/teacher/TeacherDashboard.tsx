@@ -1,13 +1,17 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { Upload, Image, Loader2, CheckCircle, XCircle, Clock, FileText, Calendar, Users, ChevronLeft, Layers, Eye, Award, Star, Hash } from 'lucide-react';
+import { Upload, Image, Loader2, CheckCircle, XCircle, Clock, FileText, Calendar, Users, ChevronLeft, Layers, Eye, Award, Star, Hash, BarChart3, PenLine, Send, Bell, List, CalendarDays } from 'lucide-react';
 import { teachersApi, dailyPackageApi } from '../../api';
-import { TeacherSection, DailyPackageUpload, DailyPackageStatus, DailyPackageUploadDetail, ExtractedQuestion } from '../../types';
+import { TeacherSection, DailyPackageUpload, DailyPackageStatus, DailyPackageUploadDetail, ExtractedQuestion, DailyPackageItem, PackageQuizResults } from '../../types';
 import { Spinner } from '../../components/ui/Loading';
 import Button from '../../components/ui/Button';
 import { Modal } from '../../components/ui/Modal';
+import { formatDuration } from '../../components/quiz';
+import { PackageDraftEditor, UploadCalendar, UploadRemindersModal, nextSchoolMorning, toDateKey, toDateTimeLocal, releaseState } from '../../components/packages';
+import { SectionAnalyticsPanel } from '../../components/analytics';
 import toast from 'react-hot-toast';
 
-type View = 'main' | 'upload' | 'processing' | 'detail';
+type View = 'main' | 'upload' | 'processing' | 'detail' | 'analytics';
+type ReleaseOption = 'now' | 'morning' | 'custom';
 
 export function TeacherDashboard() {
   const [assignments, setAssignments] = useState<TeacherSection[]>([]);
@@ -18,9 +22,12 @@ export function TeacherDashboard() {
 
   // Upload view
   const [uploadTarget, setUploadTarget] = useState<TeacherSection | null>(null);
+  const [analyticsTarget, setAnalyticsTarget] = useState<TeacherSection | null>(null);
   const [selectedImages, setSelectedImages] = useState<File[]>([]);
   const [imagePreviews, setImagePreviews] = useState<string[]>([]);
   const [isUploading, setIsUploading] = useState(false);
+  const [releaseOption, setReleaseOption] = useState<ReleaseOption>('now');
+  const [customPublishAt, setCustomPublishAt] = useState('');
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Processing view (polling)
@@ -30,10 +37,14 @@ export function TeacherDashboard() {
   // Detail view
   const [uploadDetail, setUploadDetail] = useState<DailyPackageUploadDetail | null>(null);
   const [isLoadingDetail, setIsLoadingDetail] = useState(false);
+  const [resultsPackageId, setResultsPackageId] = useState<string | null>(null);
 
   // Recent uploads
   const [uploads, setUploads] = useState<DailyPackageUpload[]>([]);
   const [isLoadingUploads, setIsLoadingUploads] = useState(true);
+  const [uploadsTab, setUploadsTab] = useState<'recent' | 'calendar'>('recent');
+  const [calendarRefreshKey, setCalendarRefreshKey] = useState(0);
+  const [showReminders, setShowReminders] = useState(false);
 
   useEffect(() => {
     fetchSections();
@@ -110,16 +121,27 @@ export function TeacherDashboard() {
       return;
     }
 
+    const publishAt = releaseOption === 'morning'
+      ? nextSchoolMorning(new Date())
+      : releaseOption === 'custom' ? new Date(customPublishAt) : null;
+    if (publishAt && (Number.isNaN(publishAt.getTime()) || publishAt <= new Date())) {
+      toast.error('Pick a release time in the future');
+      return;
+    }
+
     setIsUploading(true);
     try {
       const result = await dailyPackageApi.uploadQuestions(
         uploadTarget.sectionId,
         uploadTarget.subject,
         selectedImages,
+        publishAt ? { packageDate: toDateKey(publishAt), publishAt: publishAt.toISOString() } : undefined,
       );
       toast.success('Upload started! Processing will begin shortly.');
       setSelectedImages([]);
       setImagePreviews([]);
+      setReleaseOption('now');
+      setCalendarRefreshKey(k => k + 1);
       if (fileInputRef.current) fileInputRef.current.value = '';
 
       // Switch to processing view and start polling
@@ -182,9 +204,12 @@ export function TeacherDashboard() {
     }
     setView('main');
     setUploadTarget(null);
+    setAnalyticsTarget(null);
     setSelectedImages([]);
     setImagePreviews([]);
+    setReleaseOption('now');
     setUploadDetail(null);
+    setResultsPackageId(null);
   };
 
   const getStatusBadge = (status: DailyPackageStatus) => {
@@ -200,6 +225,18 @@ export function TeacherDashboard() {
     }
   };
 
+  const getReviewBadge = (upload: DailyPackageUpload) => {
+    if (upload.status !== 'COMPLETED' || !upload.reviewStatus) return null;
+    return upload.reviewStatus === 'DRAFT'
+      ? <span className="inline-flex items-center gap-1 badge bg-amber-500/10 text-amber-400"><PenLine className="w-3 h-3" /> Draft</span>
+      : <span className="inline-flex items-center gap-1 badge bg-primary-500/10 text-primary-400"><Send className="w-3 h-3" /> Published</span>;
+  };
+
+  const handleUploadApproved = (detail: DailyPackageUploadDetail) => {
+    setUploadDetail(detail);
+    setUploads(prev => prev.map(u => (u.id === detail.id ? { ...u, reviewStatus: detail.reviewStatus, approvedAt: detail.approvedAt } : u)));
+  };
+
   // --- Processing View (polling) ---
   if (view === 'processing') {
     return (
@@ -276,6 +313,7 @@ export function TeacherDashboard() {
     const mostAsked = uploadDetail.extracted_questions.filter(q => q.rankType === 'MOST_ASKED').sort((a, b) => (a.rankPosition || 0) - (b.rankPosition || 0));
     const bestAsked = uploadDetail.extracted_questions.filter(q => q.rankType === 'BEST_ASKED').sort((a, b) => (a.rankPosition || 0) - (b.rankPosition || 0));
     const otherQuestions = uploadDetail.extracted_questions.filter(q => !q.rankType);
+    const isDraft = uploadDetail.reviewStatus === 'DRAFT';
 
     return (
       <div className="p-6 max-w-4xl mx-auto">
@@ -289,7 +327,10 @@ export function TeacherDashboard() {
               {sectionName} {sectionGrade && `· Grade ${sectionGrade}`} · {uploadDetail.subject.replace(/_/g, ' ')}
             </p>
           </div>
-          <div className="ml-auto">{getStatusBadge(uploadDetail.status)}</div>
+          <div className="ml-auto flex items-center gap-2">
+            {getReviewBadge(uploadDetail)}
+            {getStatusBadge(uploadDetail.status)}
+          </div>
         </div>
 
         {/* Stats */}
@@ -312,27 +353,50 @@ export function TeacherDashboard() {
           </div>
         </div>
 
+        {/* Draft review: editable questions, summaries and quizzes */}
+        {isDraft && (
+          <PackageDraftEditor
+            detail={uploadDetail}
+            onSaved={setUploadDetail}
+            onApproved={handleUploadApproved}
+          />
+        )}
+
         {/* Generated packages */}
-        {uploadDetail.daily_packages && uploadDetail.daily_packages.length > 0 && (
+        {!isDraft && uploadDetail.daily_packages && uploadDetail.daily_packages.length > 0 && (
           <div className="bg-[#25262b] border border-gray-700/50 rounded-lg mb-6">
             <div className="px-5 py-4 border-b border-gray-700/50">
               <h2 className="text-base font-semibold text-gray-200">Generated Packages</h2>
             </div>
             <div className="divide-y divide-gray-700/50">
               {uploadDetail.daily_packages.map(pkg => (
-                <div key={pkg.id} className="p-4 flex items-center justify-between">
-                  <div>
-                    <p className="text-sm font-medium text-gray-200">
-                      {new Date(pkg.packageDate).toLocaleDateString()}
-                    </p>
-                    <div className="flex items-center gap-3 mt-1">
-                      {pkg.pdfUrl && <span className="text-xs text-primary-600">PDF Ready</span>}
-                      {pkg.audioUrl && <span className="text-xs text-violet-600">Audio Ready</span>}
-                      {pkg.quizJson && <span className="text-xs text-amber-600">Quiz Ready</span>}
-                      {pkg.summaryText && <span className="text-xs text-emerald-600">Summary</span>}
+                <div key={pkg.id} className="p-4">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-gray-200">
+                        {new Date(pkg.packageDate).toLocaleDateString()}
+                      </p>
+                      <div className="flex items-center gap-3 mt-1">
+                        {pkg.pdfUrl && <span className="text-xs text-primary-600">PDF Ready</span>}
+                        {pkg.audioUrl && <span className="text-xs text-violet-600">Audio Ready</span>}
+                        {pkg.quizJson && <span className="text-xs text-amber-600">Quiz Ready</span>}
+                        {pkg.summaryText && <span className="text-xs text-emerald-600">Summary</span>}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      {pkg.quizJson && pkg.quizJson.length > 0 && (
+                        <button
+                          onClick={() => setResultsPackageId(resultsPackageId === pkg.id ? null : pkg.id)}
+                          className="inline-flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium text-amber-400 bg-amber-500/10 rounded-lg hover:bg-amber-500/20 transition-colors"
+                        >
+                          <BarChart3 className="w-3.5 h-3.5" />
+                          {resultsPackageId === pkg.id ? 'Hide Results' : 'Quiz Results'}
+                        </button>
+                      )}
+                      {getStatusBadge(pkg.status)}
                     </div>
                   </div>
-                  {getStatusBadge(pkg.status)}
+                  {resultsPackageId === pkg.id && <QuizResultsPanel pkg={pkg} />}
                 </div>
               ))}
             </div>
@@ -340,7 +404,7 @@ export function TeacherDashboard() {
         )}
 
         {/* Most Asked Questions */}
-        {mostAsked.length > 0 && (
+        {!isDraft && mostAsked.length > 0 && (
           <QuestionList
             title="Most Asked Questions"
             icon={<Award className="w-5 h-5 text-primary-600" />}
@@ -350,7 +414,7 @@ export function TeacherDashboard() {
         )}
 
         {/* Best Asked Questions */}
-        {bestAsked.length > 0 && (
+        {!isDraft && bestAsked.length > 0 && (
           <QuestionList
             title="Best Asked Questions"
             icon={<Star className="w-5 h-5 text-amber-500" />}
@@ -360,7 +424,7 @@ export function TeacherDashboard() {
         )}
 
         {/* Other Extracted Questions */}
-        {otherQuestions.length > 0 && (
+        {!isDraft && otherQuestions.length > 0 && (
           <QuestionList
             title="Other Extracted Questions"
             icon={<Hash className="w-5 h-5 text-gray-500" />}
@@ -391,6 +455,25 @@ export function TeacherDashboard() {
   }
 
   // --- Upload View ---
+  if (view === 'analytics' && analyticsTarget) {
+    return (
+      <div className="p-6 max-w-5xl mx-auto">
+        <div className="flex items-center gap-3 mb-6">
+          <button onClick={goBack} className="p-1.5 hover:bg-[#2c2d32] rounded-lg">
+            <ChevronLeft className="w-5 h-5 text-gray-400" />
+          </button>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-100">Class Analytics</h1>
+            <p className="text-gray-500 text-sm">
+              {analyticsTarget.class_sections?.name || 'Section'} {analyticsTarget.class_sections?.grade && `· Grade ${analyticsTarget.class_sections.grade}`} · {analyticsTarget.subject.replace(/_/g, ' ')}
+            </p>
+          </div>
+        </div>
+        <SectionAnalyticsPanel assignment={analyticsTarget} />
+      </div>
+    );
+  }
+
   if (view === 'upload' && uploadTarget) {
     const sectionName = uploadTarget.class_sections?.name || 'Section';
     const sectionGrade = uploadTarget.class_sections?.grade;
@@ -452,6 +535,42 @@ export function TeacherDashboard() {
             </div>
           )}
 
+          {/* Release schedule */}
+          <div className="mb-6">
+            <label className="label">Release to Students</label>
+            <div className="space-y-2">
+              {([
+                { value: 'now', label: 'As soon as it\'s ready', hint: 'After processing and your review' },
+                { value: 'morning', label: 'Next school morning', hint: nextSchoolMorning(new Date()).toLocaleString(undefined, { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' }) },
+                { value: 'custom', label: 'Custom time', hint: 'Choose a date and time' },
+              ] as const).map(option => (
+                <label key={option.value} className="flex items-center gap-3 p-2.5 rounded-lg border border-gray-700/50 cursor-pointer hover:bg-[#2c2d32]">
+                  <input
+                    type="radio"
+                    name="release"
+                    checked={releaseOption === option.value}
+                    onChange={() => {
+                      setReleaseOption(option.value);
+                      if (option.value === 'custom' && !customPublishAt) setCustomPublishAt(toDateTimeLocal(nextSchoolMorning(new Date())));
+                    }}
+                    className="accent-primary-500"
+                  />
+                  <span className="text-sm text-gray-200">{option.label}</span>
+                  <span className="text-xs text-gray-500 ml-auto">{option.hint}</span>
+                </label>
+              ))}
+              {releaseOption === 'custom' && (
+                <input
+                  type="datetime-local"
+                  value={customPublishAt}
+                  min={toDateTimeLocal(new Date())}
+                  onChange={(e) => setCustomPublishAt(e.target.value)}
+                  className="input w-auto text-sm"
+                />
+              )}
+            </div>
+          </div>
+
           {/* Actions */}
           <div className="flex justify-end gap-3">
             <Button
@@ -478,9 +597,20 @@ export function TeacherDashboard() {
   // --- Main View ---
   return (
     <div className="p-6 max-w-5xl mx-auto">
-      <div className="mb-6">
-        <h1 className="text-2xl font-bold text-gray-100">Teacher Dashboard</h1>
-        <p className="text-gray-400">Upload daily question papers for your assigned sections</p>
+      <div className="mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-100">Teacher Dashboard</h1>
+          <p className="text-gray-400">Upload daily question papers for your assigned sections</p>
+        </div>
+        <Button
+          variant="secondary"
+          size="sm"
+          leftIcon={<Bell className="w-3.5 h-3.5" />}
+          onClick={() => setShowReminders(true)}
+          disabled={assignments.length === 0}
+        >
+          Reminders
+        </Button>
       </div>
 
       {/* My Sections */}
@@ -534,13 +664,23 @@ export function TeacherDashboard() {
                       </div>
                     </div>
                   </div>
-                  <Button
-                    size="sm"
-                    leftIcon={<Upload className="w-3.5 h-3.5" />}
-                    onClick={() => { setUploadTarget(assignment); setView('upload'); }}
-                  >
-                    Upload Content
-                  </Button>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      leftIcon={<BarChart3 className="w-3.5 h-3.5" />}
+                      onClick={() => { setAnalyticsTarget(assignment); setView('analytics'); }}
+                    >
+                      Analytics
+                    </Button>
+                    <Button
+                      size="sm"
+                      leftIcon={<Upload className="w-3.5 h-3.5" />}
+                      onClick={() => { setUploadTarget(assignment); setView('upload'); }}
+                    >
+                      Upload Content
+                    </Button>
+                  </div>
                 </div>
               );
             })}
@@ -550,14 +690,32 @@ export function TeacherDashboard() {
 
       {/* Recent Uploads */}
       <div className="bg-[#25262b] border border-gray-700/50 rounded-lg">
-        <div className="px-5 py-4 border-b border-gray-700/50">
+        <div className="px-5 py-4 border-b border-gray-700/50 flex items-center justify-between">
           <h2 className="text-lg font-semibold text-gray-200 flex items-center gap-2">
             <Calendar className="w-5 h-5 text-primary-600" />
-            Recent Uploads
+            {uploadsTab === 'calendar' ? 'Upload Calendar' : 'Recent Uploads'}
           </h2>
+          <div className="flex gap-1 bg-[#2c2d32] rounded-lg p-0.5">
+            <button
+              onClick={() => setUploadsTab('recent')}
+              className={`p-1.5 rounded-md ${uploadsTab === 'recent' ? 'bg-[#25262b] text-gray-200' : 'text-gray-500 hover:text-gray-300'}`}
+              title="List"
+            >
+              <List className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setUploadsTab('calendar')}
+              className={`p-1.5 rounded-md ${uploadsTab === 'calendar' ? 'bg-[#25262b] text-gray-200' : 'text-gray-500 hover:text-gray-300'}`}
+              title="Calendar"
+            >
+              <CalendarDays className="w-4 h-4" />
+            </button>
+          </div>
         </div>
 
-        {isLoadingUploads ? (
+        {uploadsTab === 'calendar' ? (
+          <UploadCalendar onOpenUpload={openUploadDetail} refreshKey={calendarRefreshKey} />
+        ) : isLoadingUploads ? (
           <div className="flex items-center justify-center py-12"><Spinner size="lg" /></div>
         ) : uploads.length === 0 ? (
           <div className="text-center py-12 text-gray-500">
@@ -579,9 +737,15 @@ export function TeacherDashboard() {
                     <p className="text-xs text-gray-500">
                       {new Date(upload.createdAt).toLocaleDateString()} · {upload._count?.upload_images ?? 0} image{(upload._count?.upload_images ?? 0) !== 1 ? 's' : ''} · {upload._count?.extracted_questions ?? 0} questions
                     </p>
+                    {upload.publishAt && releaseState(upload) === 'SCHEDULED' && (
+                      <p className="text-xs text-amber-400 flex items-center gap-1 mt-0.5">
+                        <Clock className="w-3 h-3" /> Releases {new Date(upload.publishAt).toLocaleString()}
+                      </p>
+                    )}
                   </div>
                 </div>
                 <div className="flex items-center gap-3">
+                  {getReviewBadge(upload)}
                   {getStatusBadge(upload.status)}
                   {upload.status === 'COMPLETED' && (
                     <button
@@ -601,6 +765,12 @@ export function TeacherDashboard() {
           </div>
         )}
       </div>
+
+      <UploadRemindersModal
+        isOpen={showReminders}
+        onClose={() => setShowReminders(false)}
+        assignments={assignments}
+      />
     </div>
   );
 }
@@ -649,6 +819,93 @@ function QuestionList({ title, icon, questions, badgeColor }: {
   );
 }
 
+// Section-wide quiz results for one generated package (first attempts)
+function QuizResultsPanel({ pkg }: { pkg: DailyPackageItem }) {
+  const [results, setResults] = useState<PackageQuizResults | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    dailyPackageApi.getPackageQuizResults(pkg.id)
+      .then((data) => { if (!cancelled) setResults(data); })
+      .catch(() => { if (!cancelled) toast.error('Failed to load quiz results'); })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [pkg.id]);
+
+  if (isLoading) {
+    return <div className="flex justify-center py-6"><Spinner /></div>;
+  }
+
+  if (!results || results.attemptedCount === 0) {
+    return <p className="mt-3 text-xs text-gray-500">No students have taken this quiz yet.</p>;
+  }
+
+  const maxBucket = Math.max(1, ...results.scoreDistribution.map((b) => b.count));
+
+  return (
+    <div className="mt-4 p-4 bg-[#2c2d32] rounded-lg space-y-4">
+      <div className="grid grid-cols-3 gap-3 text-center">
+        <div>
+          <p className="text-lg font-bold text-gray-100">{results.attemptedCount}/{results.studentCount}</p>
+          <p className="text-xs text-gray-500">Students attempted</p>
+        </div>
+        <div>
+          <p className="text-lg font-bold text-gray-100">{Math.round(results.averagePercent)}%</p>
+          <p className="text-xs text-gray-500">Average score</p>
+        </div>
+        <div>
+          <p className="text-lg font-bold text-gray-100">{formatDuration(results.medianDurationMs)}</p>
+          <p className="text-xs text-gray-500">Median time</p>
+        </div>
+      </div>
+
+      {/* Score distribution */}
+      <div>
+        <p className="text-xs font-medium text-gray-400 mb-2">Score distribution</p>
+        <div className="flex items-end gap-1 h-16">
+          {results.scoreDistribution.map((bucket) => (
+            <div key={bucket.score} className="flex-1 flex flex-col items-center gap-1" title={`${bucket.count} student(s) scored ${bucket.score}`}>
+              <div className="w-full bg-primary-500/60 rounded-t" style={{ height: `${(bucket.count / maxBucket) * 100}%` }} />
+              <span className="text-[10px] text-gray-500">{bucket.score}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Per-question breakdown */}
+      <div className="divide-y divide-gray-700/50">
+        {results.questions.map((q) => {
+          const question = pkg.quizJson?.[q.questionIndex];
+          return (
+            <div key={q.questionId} className="py-2.5">
+              <div className="flex items-start justify-between gap-3">
+                <p className="text-sm text-gray-200">{q.questionIndex + 1}. {q.question}</p>
+                <span className={`flex-shrink-0 text-xs font-semibold ${q.correctRate >= 0.7 ? 'text-emerald-400' : q.correctRate >= 0.4 ? 'text-amber-400' : 'text-red-400'}`}>
+                  {Math.round(q.correctRate * 100)}% correct
+                </span>
+              </div>
+              <div className="flex flex-wrap items-center gap-2 mt-1.5">
+                {q.optionCounts.map((count, oIndex) => (
+                  <span
+                    key={oIndex}
+                    className={`text-[11px] px-1.5 py-0.5 rounded ${question?.correctAnswer === oIndex ? 'bg-emerald-500/10 text-emerald-400' : 'bg-gray-700/50 text-gray-400'}`}
+                  >
+                    {String.fromCharCode(65 + oIndex)}: {count}
+                  </span>
+                ))}
+                {q.skipped > 0 && <span className="text-[11px] text-gray-500">Skipped: {q.skipped}</span>}
+                <span className="text-[11px] text-gray-500 ml-auto">avg {formatDuration(q.avgTimeMs)}</span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
 function ImageThumbnail({ src, label }: { src: string; label: string }) {
   const [isOpen, setIsOpen] = useState(false);
   return (
@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
-import { Link } from 'react-router-dom';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
 import {
   MessageSquare, Clock, CheckCircle, AlertCircle,
   Lock, Unlock, ChevronRight, Sparkles, BookOpen, UserPlus
@@ -11,19 +11,15 @@ import {
   SessionInviteEvent, BusyTutorNotificationEvent, TutorReminderEvent, TutorSessionTakenEvent,
 } from '../../types';
 import {
-  getSocket,
-  onSocketConnect,
+  onSessionTaken,
+  onConversationTaken,
 } from '../../services/socket';
 import {
   connectTutorSessionSocket,
   onSessionInvite,
-  offSessionInvite,
   onBusyTutorNotification,
-  offBusyTutorNotification,
   onTutorReminder,
-  offTutorReminder,
   onTutorSessionTaken,
-  offTutorSessionTaken,
 } from '../../services/tutorSessionSocket';
 import { SubjectBadge, StatusBadge } from '../../components/ui/Badge';
 import Avatar from '../../components/ui/Avatar';
@@ -69,7 +65,8 @@ function StatCard({ icon: Icon, label, value, color, highlight = false }: {
 
 export function TutorDashboard() {
   const { user } = useAuth();
-  // const navigate = useNavigate();
+  const navigate = useNavigate();
+  const location = useLocation();
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [pendingConversations, setPendingConversations] = useState<PendingConversation[]>([]);
   const [tutorStatus, setTutorStatus] = useState<TutorStatus>({
@@ -86,9 +83,19 @@ export function TutorDashboard() {
   });
   
   // New: Active tutor session state (for AI help requests)
-  const [activeTutorSession, setActiveTutorSession] = useState<AcceptSessionResponse | null>(null);
+  // Booked sessions started from /bookings arrive through router state
+  const [activeTutorSession, setActiveTutorSession] = useState<AcceptSessionResponse | null>(
+    () => (location.state as { acceptedSession?: AcceptSessionResponse } | null)?.acceptedSession ?? null
+  );
   const [showHelpRequests, setShowHelpRequests] = useState(true);
 
+  // Drop the router state so a reload doesn't reopen the session
+  useEffect(() => {
+    if ((location.state as { acceptedSession?: unknown } | null)?.acceptedSession) {
+      navigate(location.pathname, { replace: true, state: null });
+    }
+  }, [location.state, location.pathname, navigate]);
+
   // Session invite state
   const [pendingInvite, setPendingInvite] = useState<SessionInviteEvent | null>(null);
 
@@ -134,17 +141,14 @@ export function TutorDashboard() {
       }
     };
 
-    onSessionInvite(handleSessionInvite);
-    onBusyTutorNotification(handleBusyNotification);
-    onTutorReminder(handleReminder);
-    onTutorSessionTaken(handleTutorSessionTaken);
+    const unsubscribers = [
+      onSessionInvite(handleSessionInvite),
+      onBusyTutorNotification(handleBusyNotification),
+      onTutorReminder(handleReminder),
+      onTutorSessionTaken(handleTutorSessionTaken),
+    ];
 
-    return () => {
-      offSessionInvite();
-      offBusyTutorNotification();
-      offTutorReminder();
-      offTutorSessionTaken();
-    };
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
   }, [pendingInvite]);
 
   // Fetch tutor's own conversations
@@ -269,29 +273,12 @@ export function TutorDashboard() {
 
   // Listen for sessionTaken and conversationTaken events
   useEffect(() => {
-    let isSubscribed = true;
-
-    const setupListeners = () => {
-      const socket = getSocket();
-      if (!socket || !isSubscribed) return;
-
-      console.log('[TutorDashboard] Setting up session taken listeners');
-
-      socket.on('sessionTaken', handleSessionTaken);
-      socket.on('conversationTaken', handleConversationTaken);
-    };
-
-    setupListeners();
-    const unsubscribe = onSocketConnect(setupListeners);
+    const unsubscribeSession = onSessionTaken(handleSessionTaken);
+    const unsubscribeConversation = onConversationTaken(handleConversationTaken);
 
     return () => {
-      isSubscribed = false;
-      const socket = getSocket();
-      if (socket) {
-        socket.off('sessionTaken', handleSessionTaken);
-        socket.off('conversationTaken', handleConversationTaken);
-      }
-      unsubscribe();
+      unsubscribeSession();
+      unsubscribeConversation();
     };
   }, [handleSessionTaken, handleConversationTaken]);
 
@@ -0,0 +1,333 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { Wallet, Download, FileText, Flag, Undo2, ChevronDown, ChevronRight, AlertTriangle } from 'lucide-react';
+import { earningsApi, tutorProfileApi } from '../../api';
+import { useAuth } from '../../contexts/AuthContext';
+import { EarningsActivity, EarningsPeriod, TutorPayout, TutorProfile } from '../../types';
+import { Spinner } from '../../components/ui/Loading';
+import { Modal } from '../../components/ui/Modal';
+import Button from '../../components/ui/Button';
+import { downloadTextFile } from '../../components/export';
+import {
+  EarningsLine,
+  PAYOUT_STATUS_LABELS,
+  PAYOUT_STATUS_STYLES,
+  buildStatements,
+  earningsLines,
+  formatMoney,
+  formatWorked,
+  periodEnd,
+  periodStart,
+  printStatements,
+  statementLabel,
+  statementsFilename,
+  statementsToCsv,
+} from '../../components/earnings';
+import toast from 'react-hot-toast';
+
+const RANGE_OPTIONS = [3, 6, 12];
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString();
+
+// Weekly and monthly statements from completed sessions and calls, with payout history
+export function TutorEarnings() {
+  const { user } = useAuth();
+  const [period, setPeriod] = useState<EarningsPeriod>('WEEK');
+  const [months, setMonths] = useState(3);
+  const [activity, setActivity] = useState<EarningsActivity | null>(null);
+  const [payouts, setPayouts] = useState<TutorPayout[]>([]);
+  const [profile, setProfile] = useState<TutorProfile | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const [disputing, setDisputing] = useState<EarningsLine | null>(null);
+  const [reason, setReason] = useState('');
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [isPrinting, setIsPrinting] = useState(false);
+
+  const fetchActivity = useCallback(async () => {
+    setIsLoading(true);
+    const thisMonth = periodStart(new Date(), 'MONTH');
+    const from = new Date(thisMonth.getFullYear(), thisMonth.getMonth() - (months - 1), 1);
+    try {
+      setActivity(await earningsApi.getActivity({
+        from: from.toISOString(),
+        to: periodEnd(thisMonth, 'MONTH').toISOString(),
+      }));
+    } catch {
+      toast.error('Failed to load earnings');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [months]);
+
+  useEffect(() => {
+    fetchActivity();
+  }, [fetchActivity]);
+
+  useEffect(() => {
+    earningsApi.getMyPayouts().then(setPayouts).catch(() => setPayouts([]));
+    tutorProfileApi.getMyProfile()
+      .then((response) => setProfile(response.data.data))
+      .catch(() => setProfile(null));
+  }, []);
+
+  const lines = useMemo(() => (activity ? earningsLines(activity) : []), [activity]);
+  const statements = useMemo(() => buildStatements(lines, period), [lines, period]);
+  const currency = activity?.currency ?? 'USD';
+
+  const currentStart = periodStart(new Date(), period).toISOString();
+  const current = statements.find((s) => s.start === currentStart);
+  const totalSeconds = statements.reduce((sum, s) => sum + s.seconds, 0);
+  const totalHeld = statements.reduce((sum, s) => sum + s.disputed, 0);
+  const missingBankDetails = profile !== null && (!profile.bankAccountNumber || !profile.bankRoutingNumber);
+
+  const handleCsv = () => {
+    if (statements.length === 0) return;
+    downloadTextFile(statementsToCsv(statements), statementsFilename(period, statements, 'csv'), 'text/csv;charset=utf-8');
+  };
+
+  const handlePdf = async () => {
+    if (statements.length === 0) return;
+    setIsPrinting(true);
+    try {
+      await printStatements(statements, user?.name || 'Tutor', currency);
+    } catch {
+      toast.error('Failed to prepare PDF');
+    } finally {
+      setIsPrinting(false);
+    }
+  };
+
+  const openDispute = (line: EarningsLine) => {
+    setDisputing(line);
+    setReason('');
+  };
+
+  const handleDispute = async () => {
+    if (!disputing || !reason.trim()) return;
+    setBusyKey(disputing.key);
+    try {
+      const dispute = await earningsApi.flagDispute({
+        source: disputing.source,
+        sourceId: disputing.sourceId,
+        reason: reason.trim(),
+      });
+      setActivity((prev) => prev && { ...prev, disputes: [...prev.disputes.filter((d) => d.id !== dispute.id), dispute] });
+      toast.success('Dispute sent for review');
+      setDisputing(null);
+    } catch (error: unknown) {
+      const err = error as { response?: { data?: { message?: string } } };
+      toast.error(err.response?.data?.message || 'Failed to flag session');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handleWithdraw = async (line: EarningsLine) => {
+    if (!line.dispute) return;
+    setBusyKey(line.key);
+    try {
+      await earningsApi.withdrawDispute(line.dispute.id);
+      setActivity((prev) => prev && { ...prev, disputes: prev.disputes.filter((d) => d.id !== line.dispute?.id) });
+      toast.success('Dispute withdrawn');
+    } catch {
+      toast.error('Failed to withdraw dispute');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  return (
+    <div className="p-6 max-w-5xl mx-auto">
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-100">Earnings</h1>
+          <p className="text-gray-400">
+            Completed sessions and calls at {activity ? formatMoney(activity.hourlyRate, currency) : '—'}/hour.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex gap-1 bg-[#2c2d32] rounded-lg p-1">
+            {(['WEEK', 'MONTH'] as EarningsPeriod[]).map((p) => (
+              <button
+                key={p}
+                onClick={() => setPeriod(p)}
+                className={`px-3 py-1.5 text-sm font-medium rounded-md transition-all ${period === p ? 'bg-[#25262b] text-gray-100 shadow-sm' : 'text-gray-500 hover:text-gray-300'}`}
+              >
+                {p === 'WEEK' ? 'Weekly' : 'Monthly'}
+              </button>
+            ))}
+          </div>
+          <select value={months} onChange={(e) => setMonths(Number(e.target.value))} className="input w-auto py-1.5">
+            {RANGE_OPTIONS.map((m) => (
+              <option key={m} value={m}>Last {m} months</option>
+            ))}
+          </select>
+          <Button size="sm" variant="secondary" onClick={handleCsv} disabled={statements.length === 0} leftIcon={<Download className="w-4 h-4" />}>
+            CSV
+          </Button>
+          <Button size="sm" variant="secondary" onClick={handlePdf} isLoading={isPrinting} disabled={statements.length === 0} leftIcon={<FileText className="w-4 h-4" />}>
+            PDF
+          </Button>
+        </div>
+      </div>
+
+      {missingBankDetails && (
+        <div className="flex items-center gap-2 p-3 mb-6 bg-amber-500/10 border border-amber-500/30 rounded-lg text-sm text-amber-300">
+          <AlertTriangle className="w-4 h-4 shrink-0" />
+          <span>
+            Add your bank details on your <Link to="/profile" className="underline hover:text-amber-200">profile</Link> so approved payouts can be sent.
+          </span>
+        </div>
+      )}
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+        {[
+          { label: period === 'WEEK' ? 'This week' : 'This month', value: formatMoney(current?.payable ?? 0, currency) },
+          { label: 'Time taught', value: formatWorked(totalSeconds) },
+          { label: 'Payable in range', value: formatMoney(statements.reduce((sum, s) => sum + s.payable, 0), currency) },
+          { label: 'Held for disputes', value: formatMoney(totalHeld, currency) },
+        ].map((card) => (
+          <div key={card.label} className="bg-[#25262b] border border-gray-700/50 rounded-lg p-4">
+            <p className="text-xs text-gray-500">{card.label}</p>
+            <p className="text-xl font-semibold text-gray-100 mt-1">{card.value}</p>
+          </div>
+        ))}
+      </div>
+
+      {/* Statements */}
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64"><Spinner size="lg" /></div>
+      ) : statements.length === 0 ? (
+        <div className="text-center py-12 text-gray-400">
+          <Wallet className="w-10 h-10 mx-auto mb-3 text-gray-600" />
+          <p className="text-lg font-medium text-gray-300">No paid work in this range</p>
+          <p className="text-sm mt-1">Completed sessions and answered calls show up here.</p>
+        </div>
+      ) : (
+        <div className="space-y-3 mb-8">
+          {statements.map((statement) => {
+            const isOpen = expanded === statement.start;
+            return (
+              <div key={statement.start} className="bg-[#25262b] border border-gray-700/50 rounded-lg">
+                <button
+                  onClick={() => setExpanded(isOpen ? null : statement.start)}
+                  className="w-full flex items-center gap-3 p-4 text-left"
+                >
+                  {isOpen ? <ChevronDown className="w-4 h-4 text-gray-500" /> : <ChevronRight className="w-4 h-4 text-gray-500" />}
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-gray-100">{statementLabel(statement)}</p>
+                    <p className="text-xs text-gray-500">
+                      {statement.lines.length} item{statement.lines.length === 1 ? '' : 's'} · {formatWorked(statement.seconds)}
+                      {statement.disputed > 0 && (
+                        <span className="text-amber-400"> · {formatMoney(statement.disputed, currency)} held</span>
+                      )}
+                    </p>
+                  </div>
+                  <p className="text-lg font-semibold text-gray-100">{formatMoney(statement.payable, currency)}</p>
+                </button>
+
+                {isOpen && (
+                  <div className="border-t border-gray-700/50 divide-y divide-gray-700/40">
+                    {statement.lines.map((line) => (
+                      <div key={line.key} className="flex flex-col sm:flex-row sm:items-center gap-2 px-4 py-3 text-sm">
+                        <div className="flex-1 min-w-0">
+                          <p className="text-gray-200 truncate">
+                            {line.description} <span className="text-gray-500">with {line.studentName}</span>
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {formatDate(line.startedAt)} · {formatWorked(line.seconds)}
+                            {line.dispute?.status === 'RESOLVED' && (
+                              <span className="text-blue-400"> · Adjusted{line.dispute.resolutionNote && `: ${line.dispute.resolutionNote}`}</span>
+                            )}
+                          </p>
+                          {line.isDisputed && (
+                            <p className="text-xs text-amber-400 mt-0.5 flex items-center gap-1">
+                              <Flag className="w-3 h-3" /> Disputed — {line.dispute?.reason}
+                            </p>
+                          )}
+                        </div>
+                        <span className={`font-medium ${line.isDisputed ? 'text-amber-400 line-through' : 'text-gray-100'}`}>
+                          {formatMoney(line.amount, currency)}
+                        </span>
+                        {line.isDisputed ? (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => handleWithdraw(line)}
+                            isLoading={busyKey === line.key}
+                            leftIcon={<Undo2 className="w-4 h-4" />}
+                          >
+                            Withdraw
+                          </Button>
+                        ) : !line.dispute && (
+                          <Button size="sm" variant="ghost" onClick={() => openDispute(line)} leftIcon={<Flag className="w-4 h-4" />}>
+                            Dispute
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Payouts */}
+      <h2 className="text-lg font-semibold text-gray-100 mb-3">Payouts</h2>
+      {payouts.length === 0 ? (
+        <p className="text-sm text-gray-500">No payouts yet. Statements are paid out in batches once an admin approves them.</p>
+      ) : (
+        <div className="bg-[#25262b] border border-gray-700/50 rounded-lg divide-y divide-gray-700/40">
+          {payouts.map((payout) => (
+            <div key={payout.batchId} className="flex items-center gap-3 px-4 py-3 text-sm">
+              <div className="flex-1 min-w-0">
+                <p className="text-gray-200">{formatDate(payout.periodStart)} – {formatDate(payout.periodEnd)}</p>
+                <p className="text-xs text-gray-500">
+                  {formatWorked(payout.seconds)}
+                  {payout.paidAt && ` · Paid ${formatDate(payout.paidAt)}`}
+                </p>
+              </div>
+              <span className={`px-2 py-0.5 text-xs rounded-full ${PAYOUT_STATUS_STYLES[payout.status]}`}>
+                {PAYOUT_STATUS_LABELS[payout.status]}
+              </span>
+              <span className="font-medium text-gray-100 w-24 text-right">{formatMoney(payout.amount, payout.currency)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Dispute reason */}
+      <Modal isOpen={!!disputing} onClose={() => setDisputing(null)} title="Dispute Session" size="sm">
+        <div className="space-y-4">
+          <p className="text-sm text-gray-400">
+            {disputing?.description} with {disputing?.studentName} on {disputing && formatDate(disputing.startedAt)} was
+            recorded as {disputing && formatWorked(disputing.seconds)}. It's held out of payouts until an admin reviews it.
+          </p>
+          <div>
+            <label className="label">What's wrong?</label>
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={3}
+              placeholder="e.g. The call dropped and we continued for another 20 minutes"
+              className="input resize-none"
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" onClick={() => setDisputing(null)} disabled={!!busyKey}>Cancel</Button>
+            <Button onClick={handleDispute} disabled={!reason.trim()} isLoading={!!disputing && busyKey === disputing.key}>
+              Send dispute
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
+
+export default TutorEarnings;
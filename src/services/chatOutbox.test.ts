@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest'
+import { NEW_SESSION_KEY, OutboxMessage, OutboxStore, createOutbox } from './chatOutbox'
+
+function fakeStore(): OutboxStore {
+  const rows = new Map<string, OutboxMessage>()
+  return {
+    put: async (message) => {
+      rows.set(message.id, message)
+    },
+    getAll: async (sessionKey) =>
+      [...rows.values()].filter((m) => !sessionKey || m.sessionKey === sessionKey),
+    delete: async (id) => {
+      rows.delete(id)
+    },
+  }
+}
+
+const networkError = { code: 'ERR_NETWORK', message: 'Network Error' }
+const rejected = { response: { status: 400, data: { message: 'Message too long' } } }
+
+async function enqueue(outbox: ReturnType<typeof createOutbox>, content: string, sessionKey = 's1') {
+  const entry = await outbox.add({ sessionKey, content, files: [] })
+  // createdAt has millisecond resolution; keep send order deterministic
+  await new Promise((resolve) => setTimeout(resolve, 2))
+  return entry
+}
+
+describe('chat outbox', () => {
+  it('queues messages in order and notifies listeners', async () => {
+    const outbox = createOutbox(fakeStore())
+    let changes = 0
+    outbox.onChange(() => { changes += 1 })
+
+    await enqueue(outbox, 'first')
+    await enqueue(outbox, 'second')
+
+    const entries = await outbox.list('s1')
+    expect(entries.map((m) => m.content)).toEqual(['first', 'second'])
+    expect(entries.every((m) => m.status === 'QUEUED' && m.attempts === 0)).toBe(true)
+    expect(changes).toBe(2)
+  })
+
+  it('sends everything and moves new-chat messages to the created session', async () => {
+    const outbox = createOutbox(fakeStore())
+    await enqueue(outbox, 'hello', NEW_SESSION_KEY)
+    await enqueue(outbox, 'follow up', NEW_SESSION_KEY)
+    const sent: string[] = []
+
+    const result = await outbox.flush({
+      send: async (entry) => {
+        sent.push(`${entry.sessionKey}:${entry.content}`)
+        return { messageId: `m${sent.length}`, sessionId: 'created' }
+      },
+    })
+
+    expect(result).toBe('EMPTY')
+    expect(sent).toEqual([`${NEW_SESSION_KEY}:hello`, 'created:follow up'])
+    expect(await outbox.list()).toEqual([])
+  })
+
+  it('keeps everything queued when still offline', async () => {
+    const outbox = createOutbox(fakeStore())
+    await enqueue(outbox, 'first')
+    await enqueue(outbox, 'second')
+
+    const result = await outbox.flush({ send: async () => { throw networkError } })
+
+    const entries = await outbox.list()
+    expect(result).toBe('OFFLINE')
+    expect(entries.map((m) => [m.content, m.status, m.attempts])).toEqual([
+      ['first', 'QUEUED', 1],
+      ['second', 'QUEUED', 0],
+    ])
+  })
+
+  it('keeps rejected messages as failed and carries on with the rest', async () => {
+    const outbox = createOutbox(fakeStore())
+    const bad = await enqueue(outbox, 'too long')
+    await enqueue(outbox, 'fine')
+    const failed: string[] = []
+
+    await outbox.flush({
+      send: async (entry) => {
+        if (entry.content === 'too long') throw rejected
+        return { messageId: 'm1', sessionId: 's1' }
+      },
+      onFailed: (entry) => failed.push(entry.content),
+    })
+
+    const entries = await outbox.list()
+    expect(failed).toEqual(['too long'])
+    expect(entries).toHaveLength(1)
+    expect(entries[0]).toMatchObject({ id: bad.id, status: 'FAILED', error: 'Message too long', attempts: 1 })
+  })
+
+  it('skips failed messages until they are requeued with edited text', async () => {
+    const outbox = createOutbox(fakeStore())
+    const bad = await enqueue(outbox, 'too long')
+    await outbox.flush({ send: async () => { throw rejected } })
+
+    const sent: string[] = []
+    const send = async (entry: OutboxMessage) => {
+      sent.push(entry.content)
+      return { messageId: 'm1', sessionId: 's1' }
+    }
+    await outbox.flush({ send })
+    expect(sent).toEqual([])
+
+    const requeued = await outbox.requeue(bad.id, 'shorter')
+    expect(requeued).toMatchObject({ status: 'QUEUED', error: undefined })
+    await outbox.flush({ send })
+    expect(sent).toEqual(['shorter'])
+    expect(await outbox.list()).toEqual([])
+  })
+
+  it('ignores a flush while one is already running', async () => {
+    const outbox = createOutbox(fakeStore())
+    await enqueue(outbox, 'first')
+    let release = () => {}
+    let firstResult: string | null = null
+    const sending = new Promise<void>((started) => {
+      void outbox.flush({
+        send: () => new Promise((resolve) => {
+          release = () => resolve({ messageId: 'm1', sessionId: 's1' })
+          started()
+        }),
+      }).then((result) => { firstResult = result })
+    })
+    await sending
+
+    expect(await outbox.flush({ send: async () => ({ messageId: 'm2', sessionId: 's1' }) })).toBe('BUSY')
+    release()
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    expect(firstResult).toBe('EMPTY')
+  })
+})
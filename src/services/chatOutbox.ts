@@ -0,0 +1,279 @@
+import type { Unsubscribe } from './typedSocket';
+
+// ============================================
+// AI Chat Outbox (IndexedDB)
+// ============================================
+//
+// Messages that never reached the server are persisted here, keyed by AI
+// session, so they survive reloads and are replayed in order once the
+// Gemini socket comes back. Falls back to memory when IndexedDB is missing
+// (e.g. some private browsing modes).
+
+const DB_NAME = 'top-tutors-chat-outbox';
+const DB_VERSION = 1;
+const STORE = 'messages';
+
+// Session key for messages typed into a chat that has no session yet
+export const NEW_SESSION_KEY = 'new';
+
+export interface OutboxSendOptions {
+  deepThink?: boolean;
+  deepResearch?: boolean;
+  council?: boolean;
+  projectId?: string;
+  readAloud?: boolean;
+}
+
+export type OutboxStatus = 'QUEUED' | 'FAILED';
+
+export interface OutboxMessage {
+  id: string;
+  sessionKey: string;
+  content: string;
+  files: File[];
+  options?: OutboxSendOptions;
+  createdAt: string;
+  attempts: number;
+  // Entries written before statuses existed have none and count as queued
+  status?: OutboxStatus;
+  // Server's reason when a replay was rejected
+  error?: string;
+}
+
+// Where entries live; IndexedDB in the app, a Map in tests
+export interface OutboxStore {
+  put: (message: OutboxMessage) => Promise<void>;
+  getAll: (sessionKey?: string) => Promise<OutboxMessage[]>;
+  delete: (id: string) => Promise<void>;
+}
+
+export interface OutboxSendResult {
+  messageId: string;
+  sessionId: string;
+}
+
+export interface OutboxFlushHandlers {
+  send: (message: OutboxMessage) => Promise<OutboxSendResult>;
+  onSending?: (message: OutboxMessage) => void;
+  // Awaited before the next entry goes out, so replies can be paced
+  onSent?: (message: OutboxMessage, result: OutboxSendResult) => Promise<void> | void;
+  onFailed?: (message: OutboxMessage, error: unknown) => void;
+  onOffline?: (message: OutboxMessage) => void;
+}
+
+export type OutboxFlushResult = 'EMPTY' | 'OFFLINE' | 'BUSY';
+
+export const isQueued = (message: OutboxMessage) => message.status !== 'FAILED';
+
+const byCreatedAt = (a: OutboxMessage, b: OutboxMessage) => a.createdAt.localeCompare(b.createdAt);
+
+const rejectionReason = (error: unknown): string => {
+  const err = error as { response?: { data?: { message?: string } }; message?: string } | null;
+  return err?.response?.data?.message || err?.message || 'Message was rejected';
+};
+
+// Errors worth queueing: the request never got a response (offline, DNS,
+// timeout). Server-side rejections would fail again on replay.
+export const isOfflineError = (error: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  if (!error || typeof error !== 'object') return false;
+  const err = error as { response?: unknown; code?: string; message?: string };
+  if (err.response) return false;
+  return err.code === 'ERR_NETWORK' || err.code === 'ECONNABORTED' || err.message === 'Network Error';
+};
+
+export function createOutbox(store: OutboxStore) {
+  const changeListeners = new Set<() => void>();
+  let isFlushing = false;
+
+  const notifyChange = () => {
+    changeListeners.forEach((listener) => listener());
+  };
+
+  const add = async (
+    data: Pick<OutboxMessage, 'sessionKey' | 'content' | 'files' | 'options'>
+  ): Promise<OutboxMessage> => {
+    const message: OutboxMessage = {
+      ...data,
+      id: `outbox-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      createdAt: new Date().toISOString(),
+      attempts: 0,
+      status: 'QUEUED',
+    };
+    await store.put(message);
+    notifyChange();
+    return message;
+  };
+
+  // Entries in send order, optionally limited to one session
+  const list = async (sessionKey?: string): Promise<OutboxMessage[]> =>
+    (await store.getAll(sessionKey)).sort(byCreatedAt);
+
+  const update = async (message: OutboxMessage): Promise<void> => {
+    await store.put(message);
+    notifyChange();
+  };
+
+  const remove = async (id: string): Promise<void> => {
+    await store.delete(id);
+    notifyChange();
+  };
+
+  // Move entries to a new key once the backend has created the session
+  const reassign = async (fromKey: string, toKey: string): Promise<void> => {
+    const messages = await list(fromKey);
+    if (messages.length === 0) return;
+    await Promise.all(messages.map((m) => store.put({ ...m, sessionKey: toKey })));
+    notifyChange();
+  };
+
+  // Put a rejected entry back in line, optionally with edited text
+  const requeue = async (id: string, content?: string): Promise<OutboxMessage | null> => {
+    const message = (await list()).find((m) => m.id === id);
+    if (!message) return null;
+    const next: OutboxMessage = { ...message, content: content ?? message.content, status: 'QUEUED', error: undefined };
+    await update(next);
+    return next;
+  };
+
+  // Replay queued entries oldest first. Offline errors stop the run and keep
+  // everything queued; rejections mark the entry FAILED so its text stays put.
+  const flush = async (handlers: OutboxFlushHandlers): Promise<OutboxFlushResult> => {
+    if (isFlushing) return 'BUSY';
+    isFlushing = true;
+    try {
+      let queue = (await list()).filter(isQueued);
+      while (queue.length > 0) {
+        const entry = queue[0];
+        handlers.onSending?.(entry);
+        let result: OutboxSendResult;
+        try {
+          result = await handlers.send(entry);
+        } catch (error) {
+          if (isOfflineError(error)) {
+            await update({ ...entry, attempts: entry.attempts + 1 });
+            handlers.onOffline?.(entry);
+            return 'OFFLINE';
+          }
+          const failed: OutboxMessage = { ...entry, attempts: entry.attempts + 1, status: 'FAILED', error: rejectionReason(error) };
+          await update(failed);
+          handlers.onFailed?.(failed, error);
+          queue = (await list()).filter(isQueued);
+          continue;
+        }
+
+        await remove(entry.id);
+        if (entry.sessionKey === NEW_SESSION_KEY) {
+          await reassign(NEW_SESSION_KEY, result.sessionId);
+        }
+        await handlers.onSent?.(entry, result);
+        queue = (await list()).filter(isQueued);
+      }
+      return 'EMPTY';
+    } finally {
+      isFlushing = false;
+    }
+  };
+
+  const onChange = (listener: () => void): Unsubscribe => {
+    changeListeners.add(listener);
+    return () => {
+      changeListeners.delete(listener);
+    };
+  };
+
+  return { add, list, update, remove, reassign, requeue, flush, onChange };
+}
+
+// ============================================
+// IndexedDB store
+// ============================================
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+const memoryStore = new Map<string, OutboxMessage>();
+
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('sessionKey', 'sessionKey', { unique: false });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('[ChatOutbox] IndexedDB unavailable, keeping outbox in memory:', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = <T>(
+  db: IDBDatabase,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const indexedDbStore: OutboxStore = {
+  put: async (message) => {
+    const db = await openDb();
+    if (db) {
+      await runRequest(db, 'readwrite', (store) => store.put(message));
+    } else {
+      memoryStore.set(message.id, message);
+    }
+  },
+  getAll: async (sessionKey) => {
+    const db = await openDb();
+    if (!db) return [...memoryStore.values()].filter((m) => !sessionKey || m.sessionKey === sessionKey);
+    return sessionKey
+      ? runRequest(db, 'readonly', (store) => store.index('sessionKey').getAll(sessionKey))
+      : runRequest(db, 'readonly', (store) => store.getAll());
+  },
+  delete: async (id) => {
+    const db = await openDb();
+    if (db) {
+      await runRequest(db, 'readwrite', (store) => store.delete(id));
+    } else {
+      memoryStore.delete(id);
+    }
+  },
+};
+
+// ============================================
+// Public API
+// ============================================
+
+const outbox = createOutbox(indexedDbStore);
+
+export const addToOutbox = outbox.add;
+export const listOutbox = outbox.list;
+export const updateOutboxMessage = outbox.update;
+export const removeFromOutbox = outbox.remove;
+export const reassignOutboxSession = outbox.reassign;
+export const requeueOutboxMessage = outbox.requeue;
+export const flushOutbox = outbox.flush;
+export const onOutboxChange = outbox.onChange;
+
+export default {
+  addToOutbox,
+  listOutbox,
+  updateOutboxMessage,
+  removeFromOutbox,
+  reassignOutboxSession,
+  requeueOutboxMessage,
+  flushOutbox,
+  onOutboxChange,
+  isOfflineError,
+};
@@ -7,13 +7,20 @@ import {
   CouncilStatusEvent,
   CouncilMemberCompleteEvent,
   CouncilSynthesisStartEvent,
+  TutorSessionAcceptedEvent,
+  SessionStatusChangedEvent,
 } from '../types';
+import { createTypedSocketClient, Unsubscribe } from './typedSocket';
+import { GeminiServerEvents, geminiEventGuards } from './socketEvents';
 
 const WS_URL = import.meta.env.VITE_WS_URL || 'http://localhost:3000';
 
 let geminiSocket: Socket | null = null;
 let connectionListeners: Array<() => void> = [];
 
+// Typed listener registry for /gemini-chat - survives socket re-creation
+export const geminiSocketEvents = createTypedSocketClient<GeminiServerEvents>('GeminiSocket', geminiEventGuards);
+
 // ============================================
 // Connection Management
 // ============================================
@@ -35,6 +42,7 @@ export const connectGeminiSocket = (token: string): Socket => {
     reconnectionAttempts: 10,
     reconnectionDelay: 1000,
   });
+  geminiSocketEvents.attach(geminiSocket);
 
   geminiSocket.on('connect', () => {
     console.log('[GeminiSocket] Connected, id:', geminiSocket?.id);
@@ -64,6 +72,7 @@ export const connectGeminiSocket = (token: string): Socket => {
 
 export const disconnectGeminiSocket = (): void => {
   if (geminiSocket) {
+    geminiSocketEvents.detach();
     geminiSocket.disconnect();
     geminiSocket = null;
   }
@@ -166,124 +175,52 @@ export const cancelGeminiStream = (
 // Stream Event Listeners
 // ============================================
 
-export const onStreamChunk = (callback: (chunk: StreamChunk) => void): void => {
-  geminiSocket?.on('streamChunk', callback);
-};
-
-export const offStreamChunk = (callback?: (chunk: StreamChunk) => void): void => {
-  if (callback) {
-    geminiSocket?.off('streamChunk', callback);
-  } else {
-    geminiSocket?.off('streamChunk');
-  }
+export const onStreamChunk = (callback: (chunk: StreamChunk) => void): Unsubscribe => {
+  return geminiSocketEvents.on('streamChunk', callback);
 };
 
 // ============================================
 // Tutor Status Event Listeners
 // ============================================
 
-export const onTutorStatusUpdate = (callback: (data: TutorStatusUpdateEvent) => void): void => {
-  geminiSocket?.on('tutorStatusUpdate', callback);
+export const onTutorStatusUpdate = (callback: (data: TutorStatusUpdateEvent) => void): Unsubscribe => {
+  return geminiSocketEvents.on('tutorStatusUpdate', callback);
 };
 
-export const offTutorStatusUpdate = (callback?: (data: TutorStatusUpdateEvent) => void): void => {
-  if (callback) {
-    geminiSocket?.off('tutorStatusUpdate', callback);
-  } else {
-    geminiSocket?.off('tutorStatusUpdate');
-  }
+export const onTutorConnected = (callback: (data: TutorConnectedEvent) => void): Unsubscribe => {
+  return geminiSocketEvents.on('tutorConnected', callback);
 };
 
-export const onTutorConnected = (callback: (data: TutorConnectedEvent) => void): void => {
-  geminiSocket?.on('tutorConnected', callback);
-};
-
-export const offTutorConnected = (callback?: (data: TutorConnectedEvent) => void): void => {
-  if (callback) {
-    geminiSocket?.off('tutorConnected', callback);
-  } else {
-    geminiSocket?.off('tutorConnected');
-  }
-};
-
-export const onTutorWaitUpdate = (callback: (data: TutorWaitUpdateEvent) => void): void => {
-  geminiSocket?.on('tutorWaitUpdate', callback);
-};
-
-export const offTutorWaitUpdate = (callback?: (data: TutorWaitUpdateEvent) => void): void => {
-  if (callback) {
-    geminiSocket?.off('tutorWaitUpdate', callback);
-  } else {
-    geminiSocket?.off('tutorWaitUpdate');
-  }
+export const onTutorWaitUpdate = (callback: (data: TutorWaitUpdateEvent) => void): Unsubscribe => {
+  return geminiSocketEvents.on('tutorWaitUpdate', callback);
 };
 
 // ============================================
 // Tutor Session Events
 // ============================================
 
-export const onTutorAccepted = (callback: (data: any) => void): void => {
-  geminiSocket?.on('tutorAccepted', callback);
+export const onTutorAccepted = (callback: (data: TutorSessionAcceptedEvent) => void): Unsubscribe => {
+  return geminiSocketEvents.on('tutorAccepted', callback);
 };
 
-export const offTutorAccepted = (callback?: (data: any) => void): void => {
-  if (callback) {
-    geminiSocket?.off('tutorAccepted', callback);
-  } else {
-    geminiSocket?.off('tutorAccepted');
-  }
-};
-
-export const onSessionStatusChanged = (callback: (data: any) => void): void => {
-  geminiSocket?.on('sessionStatusChanged', callback);
-};
-
-export const offSessionStatusChanged = (callback?: (data: any) => void): void => {
-  if (callback) {
-    geminiSocket?.off('sessionStatusChanged', callback);
-  } else {
-    geminiSocket?.off('sessionStatusChanged');
-  }
+export const onSessionStatusChanged = (callback: (data: SessionStatusChangedEvent) => void): Unsubscribe => {
+  return geminiSocketEvents.on('sessionStatusChanged', callback);
 };
 
 // ============================================
 // Council Mode Event Listeners
 // ============================================
 
-export const onCouncilStatus = (callback: (data: CouncilStatusEvent) => void): void => {
-  geminiSocket?.on('councilStatus', callback);
-};
-
-export const offCouncilStatus = (callback?: (data: CouncilStatusEvent) => void): void => {
-  if (callback) {
-    geminiSocket?.off('councilStatus', callback);
-  } else {
-    geminiSocket?.off('councilStatus');
-  }
-};
-
-export const onCouncilMemberComplete = (callback: (data: CouncilMemberCompleteEvent) => void): void => {
-  geminiSocket?.on('councilMemberComplete', callback);
+export const onCouncilStatus = (callback: (data: CouncilStatusEvent) => void): Unsubscribe => {
+  return geminiSocketEvents.on('councilStatus', callback);
 };
 
-export const offCouncilMemberComplete = (callback?: (data: CouncilMemberCompleteEvent) => void): void => {
-  if (callback) {
-    geminiSocket?.off('councilMemberComplete', callback);
-  } else {
-    geminiSocket?.off('councilMemberComplete');
-  }
+export const onCouncilMemberComplete = (callback: (data: CouncilMemberCompleteEvent) => void): Unsubscribe => {
+  return geminiSocketEvents.on('councilMemberComplete', callback);
 };
 
-export const onCouncilSynthesisStart = (callback: (data: CouncilSynthesisStartEvent) => void): void => {
-  geminiSocket?.on('councilSynthesisStart', callback);
-};
-
-export const offCouncilSynthesisStart = (callback?: (data: CouncilSynthesisStartEvent) => void): void => {
-  if (callback) {
-    geminiSocket?.off('councilSynthesisStart', callback);
-  } else {
-    geminiSocket?.off('councilSynthesisStart');
-  }
+export const onCouncilSynthesisStart = (callback: (data: CouncilSynthesisStartEvent) => void): Unsubscribe => {
+  return geminiSocketEvents.on('councilSynthesisStart', callback);
 };
 
 // ============================================
@@ -298,6 +235,7 @@ export interface ReconnectStreamResponse {
   sessionId?: string;
   mode?: 'single' | 'deep-think' | 'deep-research' | 'council';
   thinkingTrace?: string[];
+  sources?: { title: string; url?: string }[];
   provider?: string;
   isStreaming?: boolean;
   hasError?: boolean;
@@ -340,23 +278,14 @@ export default {
   retryGeminiMessage,
   getGeminiStreamState,
   onStreamChunk,
-  offStreamChunk,
   onTutorStatusUpdate,
-  offTutorStatusUpdate,
   onTutorConnected,
-  offTutorConnected,
   onTutorWaitUpdate,
-  offTutorWaitUpdate,
   onTutorAccepted,
-  offTutorAccepted,
   onSessionStatusChanged,
-  offSessionStatusChanged,
   onCouncilStatus,
-  offCouncilStatus,
   onCouncilMemberComplete,
-  offCouncilMemberComplete,
   onCouncilSynthesisStart,
-  offCouncilSynthesisStart,
   sendGeminiTyping,
 };
 
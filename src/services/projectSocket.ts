@@ -1,11 +1,23 @@
 import { io, Socket } from 'socket.io-client';
-import { ProjectStreamChunk, ProjectResourceResponse } from '../types';
+import {
+  ProjectStreamChunk,
+  ProjectCouncilStatusEvent,
+  ProjectCouncilMemberCompleteEvent,
+  ProjectCouncilSynthesisStartEvent,
+  ProjectResourceAddedEvent,
+  ProjectResourceDeletedEvent,
+} from '../types';
+import { createTypedSocketClient, Unsubscribe } from './typedSocket';
+import { ProjectServerEvents, projectEventGuards } from './socketEvents';
 
 const WS_URL = import.meta.env.VITE_WS_URL || 'http://localhost:3000';
 
 let projectSocket: Socket | null = null;
 let connectionListeners: Array<() => void> = [];
 
+// Typed listener registry for /projects - survives socket re-creation
+export const projectSocketEvents = createTypedSocketClient<ProjectServerEvents>('ProjectSocket', projectEventGuards);
+
 // ============================================
 // Connection Management
 // ============================================
@@ -26,6 +38,7 @@ export const connectProjectSocket = (token: string): Socket => {
     reconnectionAttempts: 10,
     reconnectionDelay: 1000,
   });
+  projectSocketEvents.attach(projectSocket);
 
   projectSocket.on('connect', () => {
     console.log('[ProjectSocket] Connected, id:', projectSocket?.id);
@@ -54,6 +67,7 @@ export const connectProjectSocket = (token: string): Socket => {
 
 export const disconnectProjectSocket = (): void => {
   if (projectSocket) {
+    projectSocketEvents.detach();
     projectSocket.disconnect();
     projectSocket = null;
   }
@@ -107,92 +121,36 @@ export const leaveProjectSession = (sessionId: string): void => {
 // Stream Event Listeners
 // ============================================
 
-export const onProjectStreamChunk = (callback: (chunk: ProjectStreamChunk) => void): void => {
-  projectSocket?.on('streamChunk', callback);
-};
-
-export const offProjectStreamChunk = (callback?: (chunk: ProjectStreamChunk) => void): void => {
-  if (callback) {
-    projectSocket?.off('streamChunk', callback);
-  } else {
-    projectSocket?.off('streamChunk');
-  }
+export const onProjectStreamChunk = (callback: (chunk: ProjectStreamChunk) => void): Unsubscribe => {
+  return projectSocketEvents.on('streamChunk', callback);
 };
 
 // ============================================
 // Council Event Listeners
 // ============================================
 
-export const onProjectCouncilStatus = (callback: (data: any) => void): void => {
-  projectSocket?.on('councilStatus', callback);
-};
-
-export const offProjectCouncilStatus = (callback?: (data: any) => void): void => {
-  if (callback) {
-    projectSocket?.off('councilStatus', callback);
-  } else {
-    projectSocket?.off('councilStatus');
-  }
+export const onProjectCouncilStatus = (callback: (data: ProjectCouncilStatusEvent) => void): Unsubscribe => {
+  return projectSocketEvents.on('councilStatus', callback);
 };
 
-export const onProjectCouncilMemberComplete = (callback: (data: any) => void): void => {
-  projectSocket?.on('councilMemberComplete', callback);
-};
-
-export const offProjectCouncilMemberComplete = (callback?: (data: any) => void): void => {
-  if (callback) {
-    projectSocket?.off('councilMemberComplete', callback);
-  } else {
-    projectSocket?.off('councilMemberComplete');
-  }
+export const onProjectCouncilMemberComplete = (callback: (data: ProjectCouncilMemberCompleteEvent) => void): Unsubscribe => {
+  return projectSocketEvents.on('councilMemberComplete', callback);
 };
 
-export const onProjectCouncilSynthesisStart = (callback: (data: any) => void): void => {
-  projectSocket?.on('councilSynthesisStart', callback);
-};
-
-export const offProjectCouncilSynthesisStart = (callback?: (data: any) => void): void => {
-  if (callback) {
-    projectSocket?.off('councilSynthesisStart', callback);
-  } else {
-    projectSocket?.off('councilSynthesisStart');
-  }
+export const onProjectCouncilSynthesisStart = (callback: (data: ProjectCouncilSynthesisStartEvent) => void): Unsubscribe => {
+  return projectSocketEvents.on('councilSynthesisStart', callback);
 };
 
 // ============================================
 // Resource Event Listeners
 // ============================================
 
-export const onResourceAdded = (
-  callback: (data: { projectId: string; resource: ProjectResourceResponse }) => void
-): void => {
-  projectSocket?.on('resourceAdded', callback);
+export const onResourceAdded = (callback: (data: ProjectResourceAddedEvent) => void): Unsubscribe => {
+  return projectSocketEvents.on('resourceAdded', callback);
 };
 
-export const offResourceAdded = (
-  callback?: (data: { projectId: string; resource: ProjectResourceResponse }) => void
-): void => {
-  if (callback) {
-    projectSocket?.off('resourceAdded', callback);
-  } else {
-    projectSocket?.off('resourceAdded');
-  }
-};
-
-export const onResourceDeleted = (
-  callback: (data: { projectId: string; resourceId: string }) => void
-): void => {
-  projectSocket?.on('resourceDeleted', callback);
-};
-
-export const offResourceDeleted = (
-  callback?: (data: { projectId: string; resourceId: string }) => void
-): void => {
-  if (callback) {
-    projectSocket?.off('resourceDeleted', callback);
-  } else {
-    projectSocket?.off('resourceDeleted');
-  }
+export const onResourceDeleted = (callback: (data: ProjectResourceDeletedEvent) => void): Unsubscribe => {
+  return projectSocketEvents.on('resourceDeleted', callback);
 };
 
 export default {
@@ -205,9 +163,6 @@ export default {
   joinProjectSession,
   leaveProjectSession,
   onProjectStreamChunk,
-  offProjectStreamChunk,
   onResourceAdded,
-  offResourceAdded,
   onResourceDeleted,
-  offResourceDeleted,
 };
@@ -37,12 +37,17 @@ import {
   CloseConversationSocketResponse,
   ConversationClosedEvent,
 } from '../types';
+import { createTypedSocketClient, Unsubscribe } from './typedSocket';
+import { MessagesServerEvents, messagesEventGuards } from './socketEvents';
 
 const WS_URL = import.meta.env.VITE_WS_URL || 'http://localhost:3000';
 
 let socket: Socket | null = null;
 let connectionListeners: Array<() => void> = [];
 
+// Typed listener registry for /messages - survives socket re-creation
+export const messagesSocketEvents = createTypedSocketClient<MessagesServerEvents>('Socket', messagesEventGuards);
+
 export const connectSocket = (token: string): Socket => {
   if (socket?.connected) {
     return socket;
@@ -62,6 +67,7 @@ export const connectSocket = (token: string): Socket => {
     timeout: 20000,
     forceNew: false,
   });
+  messagesSocketEvents.attach(socket);
 
   socket.on('connect', () => {
     console.log('[Socket] ✅ Connected successfully, id:', socket?.id);
@@ -121,6 +127,7 @@ export const onSocketConnect = (callback: () => void): (() => void) => {
 
 export const disconnectSocket = (): void => {
   if (socket) {
+    messagesSocketEvents.detach();
     socket.disconnect();
     socket = null;
   }
@@ -152,45 +159,25 @@ export const sendTypingIndicator = (data: TypingEvent): void => {
 };
 
 // Event listeners
-export const onNewMessage = (callback: (message: Message) => void): void => {
-  socket?.on('newMessage', callback);
-};
-
-export const offNewMessage = (): void => {
-  socket?.off('newMessage');
-};
-
-export const onUserTyping = (callback: (data: UserTypingEvent) => void): void => {
-  socket?.on('userTyping', callback);
-};
-
-export const offUserTyping = (): void => {
-  socket?.off('userTyping');
+export const onNewMessage = (callback: (message: Message) => void): Unsubscribe => {
+  return messagesSocketEvents.on('newMessage', callback);
 };
 
-export const onNewAssignment = (callback: (data: NewAssignmentEvent) => void): void => {
-  socket?.on('newAssignment', callback);
+export const onUserTyping = (callback: (data: UserTypingEvent) => void): Unsubscribe => {
+  return messagesSocketEvents.on('userTyping', callback);
 };
 
-export const offNewAssignment = (): void => {
-  socket?.off('newAssignment');
+export const onNewAssignment = (callback: (data: NewAssignmentEvent) => void): Unsubscribe => {
+  return messagesSocketEvents.on('newAssignment', callback);
 };
 
-export const onStatusChange = (callback: (data: StatusChangeEvent) => void): void => {
-  socket?.on('statusChange', callback);
-};
-
-export const offStatusChange = (): void => {
-  socket?.off('statusChange');
+export const onStatusChange = (callback: (data: StatusChangeEvent) => void): Unsubscribe => {
+  return messagesSocketEvents.on('statusChange', callback);
 };
 
 // New pending conversation - for notifying available tutors
-export const onNewPendingConversation = (callback: (data: NewPendingConversationEvent) => void): void => {
-  socket?.on('newPendingConversation', callback);
-};
-
-export const offNewPendingConversation = (): void => {
-  socket?.off('newPendingConversation');
+export const onNewPendingConversation = (callback: (data: NewPendingConversationEvent) => void): Unsubscribe => {
+  return messagesSocketEvents.on('newPendingConversation', callback);
 };
 
 // ============================================
@@ -198,30 +185,18 @@ export const offNewPendingConversation = (): void => {
 // ============================================
 
 // Processing status - shows student the progress of their question
-export const onProcessingStatus = (callback: (data: ProcessingStatusEvent) => void): void => {
-  socket?.on('processingStatus', callback);
-};
-
-export const offProcessingStatus = (): void => {
-  socket?.off('processingStatus');
+export const onProcessingStatus = (callback: (data: ProcessingStatusEvent) => void): Unsubscribe => {
+  return messagesSocketEvents.on('processingStatus', callback);
 };
 
 // Tutor assigned - when a tutor accepts the conversation
-export const onTutorAssigned = (callback: (data: TutorAssignedEvent) => void): void => {
-  socket?.on('tutorAssigned', callback);
-};
-
-export const offTutorAssigned = (): void => {
-  socket?.off('tutorAssigned');
+export const onTutorAssigned = (callback: (data: TutorAssignedEvent) => void): Unsubscribe => {
+  return messagesSocketEvents.on('tutorAssigned', callback);
 };
 
 // All tutors busy - when no tutors are available
-export const onAllTutorsBusy = (callback: (data: AllTutorsBusyEvent) => void): void => {
-  socket?.on('allTutorsBusy', callback);
-};
-
-export const offAllTutorsBusy = (): void => {
-  socket?.off('allTutorsBusy');
+export const onAllTutorsBusy = (callback: (data: AllTutorsBusyEvent) => void): Unsubscribe => {
+  return messagesSocketEvents.on('allTutorsBusy', callback);
 };
 
 // ============================================
@@ -321,84 +296,44 @@ export const sendMuteStatus = (conversationId: string, isMuted: boolean): void =
 };
 
 // Call event listeners
-export const onIncomingCall = (callback: (data: IncomingCallEvent) => void): void => {
-  socket?.on('incomingCall', callback);
+export const onIncomingCall = (callback: (data: IncomingCallEvent) => void): Unsubscribe => {
+  return messagesSocketEvents.on('incomingCall', callback);
 };
 
-export const offIncomingCall = (): void => {
-  socket?.off('incomingCall');
+export const onCallAccepted = (callback: (data: CallAcceptedEvent) => void): Unsubscribe => {
+  return messagesSocketEvents.on('callAccepted', callback);
 };
 
-export const onCallAccepted = (callback: (data: CallAcceptedEvent) => void): void => {
-  socket?.on('callAccepted', callback);
+export const onCallRejected = (callback: (data: CallRejectedEvent) => void): Unsubscribe => {
+  return messagesSocketEvents.on('callRejected', callback);
 };
 
-export const offCallAccepted = (): void => {
-  socket?.off('callAccepted');
+export const onCallEnded = (callback: (data: CallEndedEvent) => void): Unsubscribe => {
+  return messagesSocketEvents.on('callEnded', callback);
 };
 
-export const onCallRejected = (callback: (data: CallRejectedEvent) => void): void => {
-  socket?.on('callRejected', callback);
+export const onWebRTCOffer = (callback: (data: WebRTCOfferEvent) => void): Unsubscribe => {
+  return messagesSocketEvents.on('webrtcOffer', callback);
 };
 
-export const offCallRejected = (): void => {
-  socket?.off('callRejected');
+export const onWebRTCAnswer = (callback: (data: WebRTCAnswerEvent) => void): Unsubscribe => {
+  return messagesSocketEvents.on('webrtcAnswer', callback);
 };
 
-export const onCallEnded = (callback: (data: CallEndedEvent) => void): void => {
-  socket?.on('callEnded', callback);
+export const onWebRTCIceCandidate = (callback: (data: WebRTCIceCandidateEvent) => void): Unsubscribe => {
+  return messagesSocketEvents.on('webrtcIceCandidate', callback);
 };
 
-export const offCallEnded = (): void => {
-  socket?.off('callEnded');
+export const onParticipantJoined = (callback: (data: ParticipantJoinedEvent) => void): Unsubscribe => {
+  return messagesSocketEvents.on('participantJoined', callback);
 };
 
-export const onWebRTCOffer = (callback: (data: WebRTCOfferEvent) => void): void => {
-  socket?.on('webrtcOffer', callback);
+export const onParticipantLeft = (callback: (data: ParticipantLeftEvent) => void): Unsubscribe => {
+  return messagesSocketEvents.on('participantLeft', callback);
 };
 
-export const offWebRTCOffer = (): void => {
-  socket?.off('webrtcOffer');
-};
-
-export const onWebRTCAnswer = (callback: (data: WebRTCAnswerEvent) => void): void => {
-  socket?.on('webrtcAnswer', callback);
-};
-
-export const offWebRTCAnswer = (): void => {
-  socket?.off('webrtcAnswer');
-};
-
-export const onWebRTCIceCandidate = (callback: (data: WebRTCIceCandidateEvent) => void): void => {
-  socket?.on('webrtcIceCandidate', callback);
-};
-
-export const offWebRTCIceCandidate = (): void => {
-  socket?.off('webrtcIceCandidate');
-};
-
-export const onParticipantJoined = (callback: (data: ParticipantJoinedEvent) => void): void => {
-  socket?.on('participantJoined', callback);
-};
-
-export const offParticipantJoined = (): void => {
-  socket?.off('participantJoined');
-};
-
-export const onParticipantLeft = (callback: (data: ParticipantLeftEvent) => void): void => {
-  socket?.on('participantLeft', callback);
-};
-
-export const offParticipantLeft = (): void => {
-  socket?.off('participantLeft');
-};
-
-export const onParticipantMuted = (callback: (data: ParticipantMutedEvent) => void): void => {
-  socket?.on('participantMuted', callback);
-};
-
-export const offParticipantMuted = (): void => {
-  socket?.off('participantMuted');
+export const onParticipantMuted = (callback: (data: ParticipantMutedEvent) => void): Unsubscribe => {
+  return messagesSocketEvents.on('participantMuted', callback);
 };
 
 // ============================================
@@ -406,12 +341,8 @@ export const offParticipantMuted = (): void => {
 // ============================================
 
 // Listen for waiting student notifications (busy tutors)
-export const onWaitingStudentNotification = (callback: (data: WaitingStudentNotification) => void): void => {
-  socket?.on('waitingStudentNotification', callback);
-};
-
-export const offWaitingStudentNotification = (): void => {
-  socket?.off('waitingStudentNotification');
+export const onWaitingStudentNotification = (callback: (data: WaitingStudentNotification) => void): Unsubscribe => {
+  return messagesSocketEvents.on('waitingStudentNotification', callback);
 };
 
 // Respond with availability time
@@ -429,30 +360,18 @@ export const respondAvailability = (
 };
 
 // Listen for availability reminder (when tutor's stated time arrives)
-export const onAvailabilityReminder = (callback: (data: AvailabilityReminder) => void): void => {
-  socket?.on('availabilityReminder', callback);
-};
-
-export const offAvailabilityReminder = (): void => {
-  socket?.off('availabilityReminder');
+export const onAvailabilityReminder = (callback: (data: AvailabilityReminder) => void): Unsubscribe => {
+  return messagesSocketEvents.on('availabilityReminder', callback);
 };
 
 // Listen for session taken (when another tutor takes the session)
-export const onSessionTaken = (callback: (data: SessionTakenEvent) => void): void => {
-  socket?.on('sessionTaken', callback);
-};
-
-export const offSessionTaken = (): void => {
-  socket?.off('sessionTaken');
+export const onSessionTaken = (callback: (data: SessionTakenEvent) => void): Unsubscribe => {
+  return messagesSocketEvents.on('sessionTaken', callback);
 };
 
 // Listen for conversation taken (broadcast to all tutors)
-export const onConversationTaken = (callback: (data: ConversationTakenEvent) => void): void => {
-  socket?.on('conversationTaken', callback);
-};
-
-export const offConversationTaken = (): void => {
-  socket?.off('conversationTaken');
+export const onConversationTaken = (callback: (data: ConversationTakenEvent) => void): Unsubscribe => {
+  return messagesSocketEvents.on('conversationTaken', callback);
 };
 
 // ============================================
@@ -460,21 +379,13 @@ export const offConversationTaken = (): void => {
 // ============================================
 
 // Listen for tutor availability updates
-export const onTutorAvailabilityUpdate = (callback: (data: TutorAvailabilityUpdate) => void): void => {
-  socket?.on('tutorAvailabilityUpdate', callback);
-};
-
-export const offTutorAvailabilityUpdate = (): void => {
-  socket?.off('tutorAvailabilityUpdate');
+export const onTutorAvailabilityUpdate = (callback: (data: TutorAvailabilityUpdate) => void): Unsubscribe => {
+  return messagesSocketEvents.on('tutorAvailabilityUpdate', callback);
 };
 
 // Listen for tutor accepted event
-export const onTutorAccepted = (callback: (data: TutorAcceptedEvent) => void): void => {
-  socket?.on('tutorAccepted', callback);
-};
-
-export const offTutorAccepted = (): void => {
-  socket?.off('tutorAccepted');
+export const onTutorAccepted = (callback: (data: TutorAcceptedEvent) => void): Unsubscribe => {
+  return messagesSocketEvents.on('tutorAccepted', callback);
 };
 
 // Get waiting queue status
@@ -510,12 +421,8 @@ export const closeConversation = (
 };
 
 // Listen for conversation closed event (both parties receive this)
-export const onConversationClosed = (callback: (data: ConversationClosedEvent) => void): void => {
-  socket?.on('conversationClosed', callback);
-};
-
-export const offConversationClosed = (): void => {
-  socket?.off('conversationClosed');
+export const onConversationClosed = (callback: (data: ConversationClosedEvent) => void): Unsubscribe => {
+  return messagesSocketEvents.on('conversationClosed', callback);
 };
 
 export default {
@@ -527,22 +434,14 @@ export default {
   leaveConversation,
   sendTypingIndicator,
   onNewMessage,
-  offNewMessage,
   onUserTyping,
-  offUserTyping,
   onNewAssignment,
-  offNewAssignment,
   onStatusChange,
-  offStatusChange,
   onNewPendingConversation,
-  offNewPendingConversation,
   // Student events
   onProcessingStatus,
-  offProcessingStatus,
   onTutorAssigned,
-  offTutorAssigned,
   onAllTutorsBusy,
-  offAllTutorsBusy,
   // Tutor actions
   acceptConversation,
   rejectConversation,
@@ -558,44 +457,27 @@ export default {
   sendMuteStatus,
   // Call listeners
   onIncomingCall,
-  offIncomingCall,
   onCallAccepted,
-  offCallAccepted,
   onCallRejected,
-  offCallRejected,
   onCallEnded,
-  offCallEnded,
   onWebRTCOffer,
-  offWebRTCOffer,
   onWebRTCAnswer,
-  offWebRTCAnswer,
   onWebRTCIceCandidate,
-  offWebRTCIceCandidate,
   onParticipantJoined,
-  offParticipantJoined,
   onParticipantLeft,
-  offParticipantLeft,
   onParticipantMuted,
-  offParticipantMuted,
   // Waiting Queue - Tutor Side
   onWaitingStudentNotification,
-  offWaitingStudentNotification,
   respondAvailability,
   onAvailabilityReminder,
-  offAvailabilityReminder,
   onSessionTaken,
-  offSessionTaken,
   onConversationTaken,
-  offConversationTaken,
   // Waiting Queue - Student Side
   onTutorAvailabilityUpdate,
-  offTutorAvailabilityUpdate,
   onTutorAccepted,
-  offTutorAccepted,
   getWaitingQueueStatus,
   // Close/Resolve Session
   closeConversation,
   onConversationClosed,
-  offConversationClosed,
 };
 
@@ -0,0 +1,257 @@
+import {
+  Message,
+  UserTypingEvent,
+  NewAssignmentEvent,
+  StatusChangeEvent,
+  NewPendingConversationEvent,
+  ProcessingStatusEvent,
+  TutorAssignedEvent,
+  AllTutorsBusyEvent,
+  IncomingCallEvent,
+  CallAcceptedEvent,
+  CallRejectedEvent,
+  CallEndedEvent,
+  WebRTCOfferEvent,
+  WebRTCAnswerEvent,
+  WebRTCIceCandidateEvent,
+  ParticipantJoinedEvent,
+  ParticipantLeftEvent,
+  ParticipantMutedEvent,
+  WaitingStudentNotification,
+  AvailabilityReminder,
+  SessionTakenEvent,
+  ConversationTakenEvent,
+  TutorAvailabilityUpdate,
+  TutorAcceptedEvent,
+  ConversationClosedEvent,
+  StreamChunk,
+  TutorStatusUpdateEvent,
+  TutorConnectedEvent,
+  TutorWaitUpdateEvent,
+  CouncilStatusEvent,
+  CouncilMemberCompleteEvent,
+  CouncilSynthesisStartEvent,
+  TutorSessionAcceptedEvent,
+  NewAIMessageEvent,
+  ConsentChangedEvent,
+  SessionStatusChangedEvent,
+  TutorSessionParticipantEvent,
+  TutorStudentChatMessage,
+  RecordingConsentRequestedEvent,
+  SessionRecordingState,
+  WhiteboardUpdateEvent,
+  WhiteboardCursorEvent,
+  WhiteboardDataEvent,
+  WhiteboardDeltaEvent,
+  WhiteboardViewportEvent,
+  TutorSessionTypingEvent,
+  TutorSessionCallSignal,
+  TutorSessionChatHistoryEvent,
+  TutorSessionJoinEvent,
+  TutorSessionConnectedEvent,
+  NewHelpRequestEvent,
+  TutorRequestProgressEvent,
+  TutorWaitStatusEvent,
+  TutorETAUpdateEvent,
+  SessionInviteEvent,
+  BusyTutorNotificationEvent,
+  TutorReminderEvent,
+  TutorSessionTakenEvent,
+  ProjectStreamChunk,
+  ProjectCouncilStatusEvent,
+  ProjectCouncilMemberCompleteEvent,
+  ProjectCouncilSynthesisStartEvent,
+  ProjectResourceAddedEvent,
+  ProjectResourceDeletedEvent,
+  UploadReminderEvent,
+  BookingUpdatedEvent,
+  BookingReminderEvent,
+  CertificateReviewedEvent,
+} from '../types';
+import { hasKeys, PayloadGuard, PayloadGuards } from './typedSocket';
+
+// ============================================
+// Socket Event Contract (Server → Client)
+// ============================================
+//
+// One map per namespace: event name → payload interface. The guards below
+// check only the fields handlers rely on, so additive backend changes pass.
+
+// Any object payload (acknowledgment-style events with all-optional fields)
+const isObject: PayloadGuard = (payload) => !!payload && typeof payload === 'object';
+
+// ---------- /messages ----------
+
+export interface MessagesServerEvents {
+  newMessage: Message;
+  userTyping: UserTypingEvent;
+  newAssignment: NewAssignmentEvent;
+  statusChange: StatusChangeEvent;
+  newPendingConversation: NewPendingConversationEvent;
+  processingStatus: ProcessingStatusEvent;
+  tutorAssigned: TutorAssignedEvent;
+  allTutorsBusy: AllTutorsBusyEvent;
+  incomingCall: IncomingCallEvent;
+  callAccepted: CallAcceptedEvent;
+  callRejected: CallRejectedEvent;
+  callEnded: CallEndedEvent;
+  webrtcOffer: WebRTCOfferEvent;
+  webrtcAnswer: WebRTCAnswerEvent;
+  webrtcIceCandidate: WebRTCIceCandidateEvent;
+  participantJoined: ParticipantJoinedEvent;
+  participantLeft: ParticipantLeftEvent;
+  participantMuted: ParticipantMutedEvent;
+  waitingStudentNotification: WaitingStudentNotification;
+  availabilityReminder: AvailabilityReminder;
+  sessionTaken: SessionTakenEvent;
+  conversationTaken: ConversationTakenEvent;
+  tutorAvailabilityUpdate: TutorAvailabilityUpdate;
+  tutorAccepted: TutorAcceptedEvent;
+  conversationClosed: ConversationClosedEvent;
+  uploadReminder: UploadReminderEvent;
+  bookingUpdated: BookingUpdatedEvent;
+  bookingReminder: BookingReminderEvent;
+  certificateReviewed: CertificateReviewedEvent;
+}
+
+export const messagesEventGuards: PayloadGuards<MessagesServerEvents> = {
+  newMessage: hasKeys('id', 'conversationId'),
+  userTyping: hasKeys('userId', 'isTyping'),
+  newAssignment: hasKeys('conversationId'),
+  statusChange: hasKeys('conversationId', 'status'),
+  newPendingConversation: hasKeys('conversation'),
+  processingStatus: hasKeys('status'),
+  tutorAssigned: hasKeys('conversationId', 'tutor'),
+  allTutorsBusy: hasKeys('message'),
+  incomingCall: hasKeys('conversationId', 'callerId', 'callType'),
+  callAccepted: hasKeys('conversationId'),
+  callRejected: hasKeys('conversationId'),
+  callEnded: hasKeys('conversationId'),
+  webrtcOffer: hasKeys('conversationId', 'offer'),
+  webrtcAnswer: hasKeys('conversationId', 'answer'),
+  webrtcIceCandidate: hasKeys('conversationId', 'candidate'),
+  participantJoined: hasKeys('conversationId', 'participant'),
+  participantLeft: hasKeys('conversationId', 'participantId'),
+  participantMuted: hasKeys('conversationId', 'participantId', 'isMuted'),
+  waitingStudentNotification: hasKeys('conversation', 'waitingQueue'),
+  availabilityReminder: hasKeys('conversationId'),
+  sessionTaken: hasKeys('conversationId'),
+  conversationTaken: hasKeys('conversationId'),
+  tutorAvailabilityUpdate: hasKeys('shortestWaitMinutes'),
+  tutorAccepted: hasKeys('conversationId'),
+  conversationClosed: hasKeys('conversationId', 'status'),
+  uploadReminder: hasKeys('sectionId', 'subject'),
+  bookingUpdated: hasKeys('booking', 'action'),
+  bookingReminder: hasKeys('bookingId', 'startAt', 'minutesUntilStart'),
+  certificateReviewed: hasKeys('certificateId', 'status'),
+};
+
+// ---------- /gemini-chat ----------
+
+export interface GeminiServerEvents {
+  streamChunk: StreamChunk;
+  tutorStatusUpdate: TutorStatusUpdateEvent;
+  tutorConnected: TutorConnectedEvent;
+  tutorWaitUpdate: TutorWaitUpdateEvent;
+  tutorAccepted: TutorSessionAcceptedEvent;
+  sessionStatusChanged: SessionStatusChangedEvent;
+  councilStatus: CouncilStatusEvent;
+  councilMemberComplete: CouncilMemberCompleteEvent;
+  councilSynthesisStart: CouncilSynthesisStartEvent;
+}
+
+export const geminiEventGuards: PayloadGuards<GeminiServerEvents> = {
+  streamChunk: hasKeys('type', 'sessionId'),
+  tutorStatusUpdate: hasKeys('sessionId', 'status'),
+  tutorConnected: hasKeys('sessionId', 'tutorInfo'),
+  tutorWaitUpdate: hasKeys('sessionId'),
+  tutorAccepted: hasKeys('tutorSessionId', 'tutor'),
+  sessionStatusChanged: hasKeys('sessionId', 'status'),
+  councilStatus: hasKeys('sessionId', 'experts'),
+  councilMemberComplete: hasKeys('memberId', 'content'),
+  councilSynthesisStart: hasKeys('sessionId'),
+};
+
+// ---------- /tutor-session ----------
+
+export interface TutorSessionServerEvents {
+  connected: TutorSessionConnectedEvent;
+  joinSession: TutorSessionJoinEvent;
+  error: { message: string };
+  tutorAccepted: TutorSessionAcceptedEvent;
+  newAIMessage: NewAIMessageEvent;
+  consentChanged: ConsentChangedEvent;
+  sessionStatusChanged: SessionStatusChangedEvent;
+  participantJoined: TutorSessionParticipantEvent;
+  participantLeft: TutorSessionParticipantEvent;
+  chatMessage: TutorStudentChatMessage;
+  chatHistory: TutorSessionChatHistoryEvent;
+  whiteboardUpdate: WhiteboardUpdateEvent;
+  whiteboardData: WhiteboardDataEvent;
+  whiteboardCursor: WhiteboardCursorEvent;
+  whiteboardDelta: WhiteboardDeltaEvent;
+  whiteboardViewport: WhiteboardViewportEvent;
+  userTyping: TutorSessionTypingEvent;
+  callSignal: TutorSessionCallSignal;
+  newHelpRequest: NewHelpRequestEvent;
+  tutorRequestProgress: TutorRequestProgressEvent;
+  tutorWaitStatus: TutorWaitStatusEvent;
+  tutorETAUpdate: TutorETAUpdateEvent;
+  sessionInvite: SessionInviteEvent;
+  busyTutorNotification: BusyTutorNotificationEvent;
+  tutorReminder: TutorReminderEvent;
+  sessionTaken: TutorSessionTakenEvent;
+  recordingConsentRequested: RecordingConsentRequestedEvent;
+  recordingStateChanged: SessionRecordingState;
+}
+
+export const tutorSessionEventGuards: PayloadGuards<TutorSessionServerEvents> = {
+  connected: isObject,
+  joinSession: isObject,
+  error: hasKeys('message'),
+  tutorAccepted: hasKeys('tutorSessionId', 'tutor'),
+  newAIMessage: hasKeys('id', 'role'),
+  consentChanged: hasKeys('sessionId', 'liveSharingEnabled'),
+  sessionStatusChanged: hasKeys('sessionId', 'status'),
+  participantJoined: hasKeys('sessionId', 'userId'),
+  participantLeft: hasKeys('sessionId', 'userId'),
+  chatMessage: hasKeys('id', 'senderId', 'content'),
+  chatHistory: hasKeys('sessionId', 'messages'),
+  whiteboardUpdate: hasKeys('elements'),
+  whiteboardData: isObject,
+  whiteboardCursor: hasKeys('userId', 'x', 'y'),
+  whiteboardDelta: hasKeys('pageId', 'clientId', 'changes'),
+  whiteboardViewport: hasKeys('pageId', 'centerX', 'centerY', 'zoom'),
+  userTyping: hasKeys('sessionId', 'isTyping'),
+  callSignal: hasKeys('sessionId', 'signal'),
+  newHelpRequest: hasKeys('tutorSessionId'),
+  tutorRequestProgress: hasKeys('status'),
+  tutorWaitStatus: hasKeys('status'),
+  tutorETAUpdate: hasKeys('shortestWaitMinutes'),
+  sessionInvite: hasKeys('tutorSessionId', 'dailyRoomUrl'),
+  busyTutorNotification: hasKeys('conversationId'),
+  tutorReminder: hasKeys('conversationId'),
+  sessionTaken: hasKeys('conversationId'),
+  recordingConsentRequested: hasKeys('sessionId'),
+  recordingStateChanged: hasKeys('sessionId', 'consent', 'status'),
+};
+
+// ---------- /projects ----------
+
+export interface ProjectServerEvents {
+  streamChunk: ProjectStreamChunk;
+  councilStatus: ProjectCouncilStatusEvent;
+  councilMemberComplete: ProjectCouncilMemberCompleteEvent;
+  councilSynthesisStart: ProjectCouncilSynthesisStartEvent;
+  resourceAdded: ProjectResourceAddedEvent;
+  resourceDeleted: ProjectResourceDeletedEvent;
+}
+
+export const projectEventGuards: PayloadGuards<ProjectServerEvents> = {
+  streamChunk: hasKeys('type', 'sessionId'),
+  councilStatus: hasKeys('sessionId'),
+  councilMemberComplete: hasKeys('memberId', 'content'),
+  councilSynthesisStart: hasKeys('sessionId'),
+  resourceAdded: hasKeys('projectId', 'resource'),
+  resourceDeleted: hasKeys('projectId', 'resourceId'),
+};
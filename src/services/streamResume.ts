@@ -0,0 +1,111 @@
+// ============================================
+// Resumable Stream State
+// ============================================
+//
+// The active stream of an AI chat is mirrored to localStorage so a page
+// reload can re-attach to it instead of losing the partial answer. One
+// record per chat session; cleared when the stream ends or errors. Answer
+// text is not stored: on resume the server snapshot and the next cumulative
+// chunk bring the partial answer back.
+
+const STORAGE_PREFIX = 'activeStream';
+// Streams older than this are assumed finished or abandoned server-side
+const MAX_AGE_MS = 30 * 60 * 1000;
+// Status updates can arrive many times a second during deep research
+const UPDATE_THROTTLE_MS = 1000;
+
+export type StreamChannel = 'gemini' | 'project';
+
+export interface SavedStreamState {
+  streamId: string | null;
+  messageId: string;
+  sessionId: string;
+  projectId?: string;
+  mode?: 'single' | 'deep-think' | 'deep-research' | 'council';
+  thinkingTrace?: string[];
+  sources?: { title: string; url?: string }[];
+  updatedAt: number;
+}
+
+type StreamStatePatch = Partial<Omit<SavedStreamState, 'sessionId' | 'updatedAt'>>;
+
+const storageKey = (channel: StreamChannel, sessionId: string) =>
+  `${STORAGE_PREFIX}:${channel}:${sessionId}`;
+
+// Patches waiting for the next throttled write, by storage key
+const pendingUpdates = new Map<string, { patch: StreamStatePatch; timer: ReturnType<typeof setTimeout> }>();
+
+const cancelPendingUpdate = (key: string) => {
+  const pending = pendingUpdates.get(key);
+  if (!pending) return;
+  clearTimeout(pending.timer);
+  pendingUpdates.delete(key);
+};
+
+export const loadStreamState = (channel: StreamChannel, sessionId: string): SavedStreamState | null => {
+  try {
+    const raw = localStorage.getItem(storageKey(channel, sessionId));
+    if (!raw) return null;
+    const state = JSON.parse(raw) as SavedStreamState;
+    if (Date.now() - state.updatedAt > MAX_AGE_MS) {
+      localStorage.removeItem(storageKey(channel, sessionId));
+      return null;
+    }
+    return state;
+  } catch {
+    return null;
+  }
+};
+
+export const saveStreamState = (
+  channel: StreamChannel,
+  state: Omit<SavedStreamState, 'updatedAt'>
+): void => {
+  cancelPendingUpdate(storageKey(channel, state.sessionId));
+  try {
+    localStorage.setItem(
+      storageKey(channel, state.sessionId),
+      JSON.stringify({ ...state, updatedAt: Date.now() })
+    );
+  } catch {
+    // Storage full or blocked - resuming is best-effort
+  }
+};
+
+// Merge fields into an existing record at most once per throttle window;
+// no-op if nothing is being tracked
+export const updateStreamState = (
+  channel: StreamChannel,
+  sessionId: string,
+  patch: StreamStatePatch
+): void => {
+  const key = storageKey(channel, sessionId);
+  const pending = pendingUpdates.get(key);
+  if (pending) {
+    pending.patch = { ...pending.patch, ...patch };
+    return;
+  }
+  const timer = setTimeout(() => {
+    const queued = pendingUpdates.get(key);
+    pendingUpdates.delete(key);
+    const current = loadStreamState(channel, sessionId);
+    if (queued && current) saveStreamState(channel, { ...current, ...queued.patch });
+  }, UPDATE_THROTTLE_MS);
+  pendingUpdates.set(key, { patch, timer });
+};
+
+export const clearStreamState = (channel: StreamChannel, sessionId: string): void => {
+  cancelPendingUpdate(storageKey(channel, sessionId));
+  try {
+    localStorage.removeItem(storageKey(channel, sessionId));
+  } catch {
+    // ignore
+  }
+};
+
+export default {
+  loadStreamState,
+  saveStreamState,
+  updateStreamState,
+  clearStreamState,
+};
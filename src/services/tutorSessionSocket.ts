@@ -19,7 +19,17 @@ import {
   BusyTutorNotificationEvent,
   TutorReminderEvent,
   TutorSessionTakenEvent,
+  TutorSessionChatHistoryEvent,
+  WhiteboardDataEvent,
+  WhiteboardDeltaEvent,
+  WhiteboardViewportEvent,
+  TutorSessionJoinEvent,
+  TutorSessionConnectedEvent,
+  RecordingConsentRequestedEvent,
+  SessionRecordingState,
 } from '../types';
+import { createTypedSocketClient, Unsubscribe } from './typedSocket';
+import { TutorSessionServerEvents, tutorSessionEventGuards } from './socketEvents';
 
 const WS_URL = import.meta.env.VITE_WS_URL || 'http://localhost:3000';
 
@@ -28,6 +38,9 @@ const WS_URL = import.meta.env.VITE_WS_URL || 'http://localhost:3000';
 let tutorSessionSocket: Socket | null = null;
 let connectionListeners: Array<() => void> = [];
 
+// Typed listener registry for /tutor-session - survives socket re-creation
+export const tutorSessionSocketEvents = createTypedSocketClient<TutorSessionServerEvents>('TutorSessionSocket', tutorSessionEventGuards);
+
 // ============================================
 // Connection Management
 // ============================================
@@ -55,6 +68,7 @@ export const connectTutorSessionSocket = (token: string): Socket => {
     reconnectionDelay: 1000,
     timeout: 20000,
   });
+  tutorSessionSocketEvents.attach(tutorSessionSocket);
 
   tutorSessionSocket.on('connect', () => {
     console.log('[TutorSessionSocket] ✅ Connected to /tutor-session, id:', tutorSessionSocket?.id);
@@ -90,6 +104,7 @@ export const connectTutorSessionSocket = (token: string): Socket => {
 export const disconnectTutorSessionSocket = (): void => {
   if (tutorSessionSocket) {
     console.log('[TutorSessionSocket] Disconnecting...');
+    tutorSessionSocketEvents.detach();
     tutorSessionSocket.disconnect();
     tutorSessionSocket = null;
   }
@@ -188,20 +203,42 @@ export const sendChatMessage = (sessionId: string, content: string): void => {
 export const sendWhiteboardUpdate = (
   sessionId: string,
   elements: unknown[],
-  appState?: unknown
+  appState?: unknown,
+  page?: Pick<WhiteboardUpdateEvent, 'pageId' | 'pages' | 'files'>
 ): void => {
   if (tutorSessionSocket?.connected) {
     console.log('[TutorSessionSocket] 🎨 Sending whiteboard update:', elements.length, 'elements');
-    tutorSessionSocket.emit('whiteboardUpdate', { sessionId, elements, appState });
+    tutorSessionSocket.emit('whiteboardUpdate', { sessionId, elements, appState, ...page });
   } else {
     console.warn('[TutorSessionSocket] Cannot send whiteboard update - socket not connected');
   }
 };
 
+// Send incremental whiteboard edits
+export const sendWhiteboardDelta = (delta: WhiteboardDeltaEvent): void => {
+  if (tutorSessionSocket?.connected) {
+    tutorSessionSocket.emit('whiteboardDelta', delta);
+  } else {
+    console.warn('[TutorSessionSocket] Cannot send whiteboard delta - socket not connected');
+  }
+};
+
 // Send whiteboard cursor position
-export const sendWhiteboardCursor = (sessionId: string, x: number, y: number): void => {
+export const sendWhiteboardCursor = (
+  sessionId: string,
+  x: number,
+  y: number,
+  presence?: Pick<WhiteboardCursorEvent, 'pageId' | 'name' | 'role'>
+): void => {
   if (tutorSessionSocket?.connected) {
-    tutorSessionSocket.emit('whiteboardCursor', { sessionId, x, y });
+    tutorSessionSocket.emit('whiteboardCursor', { sessionId, x, y, ...presence });
+  }
+};
+
+// Send the tutor's viewport for follow mode
+export const sendWhiteboardViewport = (viewport: WhiteboardViewportEvent): void => {
+  if (tutorSessionSocket?.connected) {
+    tutorSessionSocket.emit('whiteboardViewport', viewport);
   }
 };
 
@@ -247,159 +284,98 @@ export const sendCallSignal = (sessionId: string, signal: CallSignalType): void
 // ============================================
 
 // Connected event
-export const onConnected = (callback: (data: { userId: string; role: string }) => void): void => {
-  tutorSessionSocket?.on('connected', callback);
-};
-
-export const offConnected = (): void => {
-  tutorSessionSocket?.off('connected');
+export const onConnected = (callback: (data: TutorSessionConnectedEvent) => void): Unsubscribe => {
+  return tutorSessionSocketEvents.on('connected', callback);
 };
 
 // Tutor Accepted (Student receives)
-export const onTutorAccepted = (callback: (data: TutorSessionAcceptedEvent) => void): void => {
-  tutorSessionSocket?.on('tutorAccepted', callback);
-};
-
-export const offTutorAccepted = (): void => {
-  tutorSessionSocket?.off('tutorAccepted');
+export const onTutorAccepted = (callback: (data: TutorSessionAcceptedEvent) => void): Unsubscribe => {
+  return tutorSessionSocketEvents.on('tutorAccepted', callback);
 };
 
 // New AI Message (Tutor receives if live sharing enabled)
-export const onNewAIMessage = (callback: (message: NewAIMessageEvent) => void): void => {
-  tutorSessionSocket?.on('newAIMessage', callback);
-};
-
-export const offNewAIMessage = (): void => {
-  tutorSessionSocket?.off('newAIMessage');
+export const onNewAIMessage = (callback: (message: NewAIMessageEvent) => void): Unsubscribe => {
+  return tutorSessionSocketEvents.on('newAIMessage', callback);
 };
 
 // Consent Changed
-export const onConsentChanged = (callback: (data: ConsentChangedEvent) => void): void => {
-  tutorSessionSocket?.on('consentChanged', callback);
-};
-
-export const offConsentChanged = (): void => {
-  tutorSessionSocket?.off('consentChanged');
+export const onConsentChanged = (callback: (data: ConsentChangedEvent) => void): Unsubscribe => {
+  return tutorSessionSocketEvents.on('consentChanged', callback);
 };
 
 // Session Status Changed
-export const onSessionStatusChanged = (callback: (data: SessionStatusChangedEvent) => void): void => {
-  tutorSessionSocket?.on('sessionStatusChanged', callback);
-};
-
-export const offSessionStatusChanged = (): void => {
-  tutorSessionSocket?.off('sessionStatusChanged');
+export const onSessionStatusChanged = (callback: (data: SessionStatusChangedEvent) => void): Unsubscribe => {
+  return tutorSessionSocketEvents.on('sessionStatusChanged', callback);
 };
 
 // Participant Joined
-export const onParticipantJoined = (callback: (data: TutorSessionParticipantEvent) => void): void => {
-  tutorSessionSocket?.on('participantJoined', callback);
-};
-
-export const offParticipantJoined = (): void => {
-  tutorSessionSocket?.off('participantJoined');
+export const onParticipantJoined = (callback: (data: TutorSessionParticipantEvent) => void): Unsubscribe => {
+  return tutorSessionSocketEvents.on('participantJoined', callback);
 };
 
 // Participant Left
-export const onParticipantLeft = (callback: (data: TutorSessionParticipantEvent) => void): void => {
-  tutorSessionSocket?.on('participantLeft', callback);
-};
-
-export const offParticipantLeft = (): void => {
-  tutorSessionSocket?.off('participantLeft');
+export const onParticipantLeft = (callback: (data: TutorSessionParticipantEvent) => void): Unsubscribe => {
+  return tutorSessionSocketEvents.on('participantLeft', callback);
 };
 
 // Chat Message (Tutor-Student)
-export const onChatMessage = (callback: (message: TutorStudentChatMessage) => void): void => {
-  tutorSessionSocket?.on('chatMessage', callback);
-};
-
-export const offChatMessage = (): void => {
-  tutorSessionSocket?.off('chatMessage');
+export const onChatMessage = (callback: (message: TutorStudentChatMessage) => void): Unsubscribe => {
+  return tutorSessionSocketEvents.on('chatMessage', callback);
 };
 
 // Whiteboard Update
-export const onWhiteboardUpdate = (callback: (data: WhiteboardUpdateEvent) => void): void => {
-  console.log('[TutorSessionSocket] 👂 Registering whiteboardUpdate listener');
-  tutorSessionSocket?.on('whiteboardUpdate', callback);
-};
-
-export const offWhiteboardUpdate = (): void => {
-  tutorSessionSocket?.off('whiteboardUpdate');
+export const onWhiteboardUpdate = (callback: (data: WhiteboardUpdateEvent) => void): Unsubscribe => {
+  return tutorSessionSocketEvents.on('whiteboardUpdate', callback);
 };
 
 // Whiteboard Cursor
-export const onWhiteboardCursor = (callback: (data: WhiteboardCursorEvent) => void): void => {
-  tutorSessionSocket?.on('whiteboardCursor', callback);
+export const onWhiteboardCursor = (callback: (data: WhiteboardCursorEvent) => void): Unsubscribe => {
+  return tutorSessionSocketEvents.on('whiteboardCursor', callback);
 };
 
-export const offWhiteboardCursor = (): void => {
-  tutorSessionSocket?.off('whiteboardCursor');
+// Whiteboard Delta
+export const onWhiteboardDelta = (callback: (data: WhiteboardDeltaEvent) => void): Unsubscribe => {
+  return tutorSessionSocketEvents.on('whiteboardDelta', callback);
 };
 
-// User Typing
-export const onUserTyping = (callback: (data: TutorSessionTypingEvent) => void): void => {
-  tutorSessionSocket?.on('userTyping', callback);
+// Whiteboard Viewport (tutor's view)
+export const onWhiteboardViewport = (callback: (data: WhiteboardViewportEvent) => void): Unsubscribe => {
+  return tutorSessionSocketEvents.on('whiteboardViewport', callback);
 };
 
-export const offUserTyping = (): void => {
-  tutorSessionSocket?.off('userTyping');
+// User Typing
+export const onUserTyping = (callback: (data: TutorSessionTypingEvent) => void): Unsubscribe => {
+  return tutorSessionSocketEvents.on('userTyping', callback);
 };
 
 // Call Signal
-export const onCallSignal = (callback: (data: TutorSessionCallSignal) => void): void => {
-  tutorSessionSocket?.on('callSignal', callback);
-};
-
-export const offCallSignal = (): void => {
-  tutorSessionSocket?.off('callSignal');
+export const onCallSignal = (callback: (data: TutorSessionCallSignal) => void): Unsubscribe => {
+  return tutorSessionSocketEvents.on('callSignal', callback);
 };
 
 // New Help Request (Tutor notification)
-export const onNewHelpRequest = (callback: (request: NewHelpRequestEvent) => void): void => {
-  tutorSessionSocket?.on('newHelpRequest', callback);
-};
-
-export const offNewHelpRequest = (): void => {
-  tutorSessionSocket?.off('newHelpRequest');
+export const onNewHelpRequest = (callback: (request: NewHelpRequestEvent) => void): Unsubscribe => {
+  return tutorSessionSocketEvents.on('newHelpRequest', callback);
 };
 
 // Chat History
-export const onChatHistory = (callback: (data: { sessionId: string; messages: any[] }) => void): void => {
-  tutorSessionSocket?.on('chatHistory', callback);
-};
-
-export const offChatHistory = (): void => {
-  tutorSessionSocket?.off('chatHistory');
+export const onChatHistory = (callback: (data: TutorSessionChatHistoryEvent) => void): Unsubscribe => {
+  return tutorSessionSocketEvents.on('chatHistory', callback);
 };
 
 // Whiteboard Data
-export const onWhiteboardData = (callback: (data: any) => void): void => {
-  console.log('[TutorSessionSocket] 👂 Registering whiteboardData listener');
-  tutorSessionSocket?.on('whiteboardData', callback);
-};
-
-export const offWhiteboardData = (): void => {
-  tutorSessionSocket?.off('whiteboardData');
+export const onWhiteboardData = (callback: (data: WhiteboardDataEvent) => void): Unsubscribe => {
+  return tutorSessionSocketEvents.on('whiteboardData', callback);
 };
 
 // Join Session Response
-export const onJoinSession = (callback: (data: any) => void): void => {
-  console.log('[TutorSessionSocket] 👂 Registering joinSession listener');
-  tutorSessionSocket?.on('joinSession', callback);
-};
-
-export const offJoinSession = (): void => {
-  tutorSessionSocket?.off('joinSession');
+export const onJoinSession = (callback: (data: TutorSessionJoinEvent) => void): Unsubscribe => {
+  return tutorSessionSocketEvents.on('joinSession', callback);
 };
 
 // Error event
-export const onError = (callback: (error: { message: string }) => void): void => {
-  tutorSessionSocket?.on('error', callback);
-};
-
-export const offError = (): void => {
-  tutorSessionSocket?.off('error');
+export const onError = (callback: (error: { message: string }) => void): Unsubscribe => {
+  return tutorSessionSocketEvents.on('error', callback);
 };
 
 // ============================================
@@ -407,66 +383,48 @@ export const offError = (): void => {
 // ============================================
 
 // Tutor Request Progress (Student receives during request flow)
-export const onTutorRequestProgress = (callback: (data: TutorRequestProgressEvent) => void): void => {
-  tutorSessionSocket?.on('tutorRequestProgress', callback);
-};
-
-export const offTutorRequestProgress = (): void => {
-  tutorSessionSocket?.off('tutorRequestProgress');
+export const onTutorRequestProgress = (callback: (data: TutorRequestProgressEvent) => void): Unsubscribe => {
+  return tutorSessionSocketEvents.on('tutorRequestProgress', callback);
 };
 
 // Tutor Wait Status (ALL_BUSY or NO_TUTORS)
-export const onTutorWaitStatus = (callback: (data: TutorWaitStatusEvent) => void): void => {
-  tutorSessionSocket?.on('tutorWaitStatus', callback);
-};
-
-export const offTutorWaitStatus = (): void => {
-  tutorSessionSocket?.off('tutorWaitStatus');
+export const onTutorWaitStatus = (callback: (data: TutorWaitStatusEvent) => void): Unsubscribe => {
+  return tutorSessionSocketEvents.on('tutorWaitStatus', callback);
 };
 
 // Tutor ETA Update (estimated wait time)
-export const onTutorETAUpdate = (callback: (data: TutorETAUpdateEvent) => void): void => {
-  tutorSessionSocket?.on('tutorETAUpdate', callback);
-};
-
-export const offTutorETAUpdate = (): void => {
-  tutorSessionSocket?.off('tutorETAUpdate');
+export const onTutorETAUpdate = (callback: (data: TutorETAUpdateEvent) => void): Unsubscribe => {
+  return tutorSessionSocketEvents.on('tutorETAUpdate', callback);
 };
 
 // Session Invite (Tutor receives invite to join another session)
-export const onSessionInvite = (callback: (data: SessionInviteEvent) => void): void => {
-  tutorSessionSocket?.on('sessionInvite', callback);
-};
-
-export const offSessionInvite = (): void => {
-  tutorSessionSocket?.off('sessionInvite');
+export const onSessionInvite = (callback: (data: SessionInviteEvent) => void): Unsubscribe => {
+  return tutorSessionSocketEvents.on('sessionInvite', callback);
 };
 
 // Busy Tutor Notification (Tutor sees student waiting notification)
-export const onBusyTutorNotification = (callback: (data: BusyTutorNotificationEvent) => void): void => {
-  tutorSessionSocket?.on('busyTutorNotification', callback);
-};
-
-export const offBusyTutorNotification = (): void => {
-  tutorSessionSocket?.off('busyTutorNotification');
+export const onBusyTutorNotification = (callback: (data: BusyTutorNotificationEvent) => void): Unsubscribe => {
+  return tutorSessionSocketEvents.on('busyTutorNotification', callback);
 };
 
 // Tutor Reminder (when estimated free time arrives)
-export const onTutorReminder = (callback: (data: TutorReminderEvent) => void): void => {
-  tutorSessionSocket?.on('tutorReminder', callback);
+export const onTutorReminder = (callback: (data: TutorReminderEvent) => void): Unsubscribe => {
+  return tutorSessionSocketEvents.on('tutorReminder', callback);
 };
 
-export const offTutorReminder = (): void => {
-  tutorSessionSocket?.off('tutorReminder');
+// Session Taken (another tutor took the session - on /tutor-session namespace)
+export const onTutorSessionTaken = (callback: (data: TutorSessionTakenEvent) => void): Unsubscribe => {
+  return tutorSessionSocketEvents.on('sessionTaken', callback);
 };
 
-// Session Taken (another tutor took the session - on /tutor-session namespace)
-export const onTutorSessionTaken = (callback: (data: TutorSessionTakenEvent) => void): void => {
-  tutorSessionSocket?.on('sessionTaken', callback);
+// Recording consent requested by the tutor (Student receives)
+export const onRecordingConsentRequested = (callback: (data: RecordingConsentRequestedEvent) => void): Unsubscribe => {
+  return tutorSessionSocketEvents.on('recordingConsentRequested', callback);
 };
 
-export const offTutorSessionTaken = (): void => {
-  tutorSessionSocket?.off('sessionTaken');
+// Recording consent or status changed (both sides)
+export const onRecordingStateChanged = (callback: (data: SessionRecordingState) => void): Unsubscribe => {
+  return tutorSessionSocketEvents.on('recordingStateChanged', callback);
 };
 
 // ============================================
@@ -486,59 +444,41 @@ export default {
   unsubscribeFromSession,
   sendChatMessage,
   sendWhiteboardUpdate,
+  sendWhiteboardDelta,
   sendWhiteboardCursor,
+  sendWhiteboardViewport,
   getChatHistory,
   getWhiteboardData,
   sendTypingIndicator,
   sendCallSignal,
   // Server → Client
   onConnected,
-  offConnected,
   onTutorAccepted,
-  offTutorAccepted,
   onNewAIMessage,
-  offNewAIMessage,
   onConsentChanged,
-  offConsentChanged,
   onSessionStatusChanged,
-  offSessionStatusChanged,
   onParticipantJoined,
-  offParticipantJoined,
   onParticipantLeft,
-  offParticipantLeft,
   onChatMessage,
-  offChatMessage,
   onChatHistory,
-  offChatHistory,
   onWhiteboardUpdate,
-  offWhiteboardUpdate,
   onWhiteboardData,
-  offWhiteboardData,
   onJoinSession,
-  offJoinSession,
   onWhiteboardCursor,
-  offWhiteboardCursor,
+  onWhiteboardDelta,
+  onWhiteboardViewport,
   onUserTyping,
-  offUserTyping,
   onCallSignal,
-  offCallSignal,
   onNewHelpRequest,
-  offNewHelpRequest,
   onError,
-  offError,
   // New events
   onTutorRequestProgress,
-  offTutorRequestProgress,
   onTutorWaitStatus,
-  offTutorWaitStatus,
   onTutorETAUpdate,
-  offTutorETAUpdate,
   onSessionInvite,
-  offSessionInvite,
   onBusyTutorNotification,
-  offBusyTutorNotification,
   onTutorReminder,
-  offTutorReminder,
   onTutorSessionTaken,
-  offTutorSessionTaken,
+  onRecordingConsentRequested,
+  onRecordingStateChanged,
 };
\ No newline at end of file
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi } from 'vitest'
+import type { Socket } from 'socket.io-client'
+import { createTypedSocketClient, hasKeys } from './typedSocket'
+
+interface TestEvents {
+  newMessage: { id: string; conversationId: string }
+  userTyping: { userId: string; isTyping: boolean }
+}
+
+// Minimal stand-in for a socket.io client: only on/off/emit to local listeners
+function createSocketStub() {
+  const listeners = new Map<string, Set<(payload: unknown) => void>>()
+  const stub = {
+    on: (event: string, fn: (payload: unknown) => void) => {
+      if (!listeners.has(event)) listeners.set(event, new Set())
+      listeners.get(event)!.add(fn)
+      return stub
+    },
+    off: (event: string, fn?: (payload: unknown) => void) => {
+      if (fn) listeners.get(event)?.delete(fn)
+      else listeners.delete(event)
+      return stub
+    },
+    receive: (event: string, payload: unknown) => {
+      listeners.get(event)?.forEach((fn) => fn(payload))
+    },
+    count: (event: string) => listeners.get(event)?.size ?? 0,
+  }
+  return stub
+}
+
+const asSocket = (stub: ReturnType<typeof createSocketStub>) => stub as unknown as Socket
+
+describe('createTypedSocketClient', () => {
+  it('removes only the unsubscribed handler', () => {
+    const stub = createSocketStub()
+    const client = createTypedSocketClient<TestEvents>('Test')
+    client.attach(asSocket(stub))
+
+    const first = vi.fn()
+    const second = vi.fn()
+    const unsubscribeFirst = client.on('newMessage', first)
+    client.on('newMessage', second)
+
+    unsubscribeFirst()
+    stub.receive('newMessage', { id: 'm1', conversationId: 'c1' })
+
+    expect(first).not.toHaveBeenCalled()
+    expect(second).toHaveBeenCalledWith({ id: 'm1', conversationId: 'c1' })
+  })
+
+  it('binds a single socket listener per event and releases it when empty', () => {
+    const stub = createSocketStub()
+    const client = createTypedSocketClient<TestEvents>('Test')
+    client.attach(asSocket(stub))
+
+    const unsubscribeA = client.on('userTyping', vi.fn())
+    const unsubscribeB = client.on('userTyping', vi.fn())
+    expect(stub.count('userTyping')).toBe(1)
+
+    unsubscribeA()
+    unsubscribeB()
+    expect(stub.count('userTyping')).toBe(0)
+  })
+
+  it('keeps subscriptions made before a socket exists and across re-creation', () => {
+    const client = createTypedSocketClient<TestEvents>('Test')
+    const handler = vi.fn()
+    client.on('newMessage', handler)
+
+    const firstSocket = createSocketStub()
+    client.attach(asSocket(firstSocket))
+    firstSocket.receive('newMessage', { id: 'm1', conversationId: 'c1' })
+
+    const secondSocket = createSocketStub()
+    client.attach(asSocket(secondSocket))
+    expect(firstSocket.count('newMessage')).toBe(0)
+    secondSocket.receive('newMessage', { id: 'm2', conversationId: 'c1' })
+
+    expect(handler).toHaveBeenCalledTimes(2)
+  })
+
+  it('drops payloads that fail the guard', () => {
+    const stub = createSocketStub()
+    const client = createTypedSocketClient<TestEvents>('Test', {
+      newMessage: hasKeys('id', 'conversationId'),
+    })
+    client.attach(asSocket(stub))
+    const handler = vi.fn()
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    client.on('newMessage', handler)
+
+    stub.receive('newMessage', { id: 'm1' })
+    stub.receive('newMessage', null)
+
+    expect(handler).not.toHaveBeenCalled()
+    expect(warn).toHaveBeenCalledTimes(2)
+    warn.mockRestore()
+  })
+
+  it('once() fires a single time', () => {
+    const stub = createSocketStub()
+    const client = createTypedSocketClient<TestEvents>('Test')
+    client.attach(asSocket(stub))
+    const handler = vi.fn()
+    client.once('userTyping', handler)
+
+    stub.receive('userTyping', { userId: 'u1', isTyping: true })
+    stub.receive('userTyping', { userId: 'u1', isTyping: false })
+
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect(client.listenerCount('userTyping')).toBe(0)
+  })
+})
@@ -0,0 +1,126 @@
+import type { Socket } from 'socket.io-client';
+
+// ============================================
+// Typed Socket Event Client
+// ============================================
+//
+// Each namespace service owns one client. Components subscribe through the
+// client and get back an unsubscribe handle that removes only their own
+// handler - never another component's listener for the same event.
+// Subscriptions survive socket re-creation: the client re-binds them every
+// time a new socket is attached.
+
+export type Unsubscribe = () => void;
+
+export type EventHandler<T> = (payload: T) => void;
+
+// Runtime shape check for an incoming payload. Returns true when the payload
+// matches the interface declared for the event in its event map.
+export type PayloadGuard = (payload: unknown) => boolean;
+
+export type PayloadGuards<Events> = { [K in keyof Events]?: PayloadGuard };
+
+export interface TypedSocketClient<Events> {
+  attach: (socket: Socket) => void;
+  detach: () => void;
+  on: <K extends keyof Events & string>(event: K, handler: EventHandler<Events[K]>) => Unsubscribe;
+  once: <K extends keyof Events & string>(event: K, handler: EventHandler<Events[K]>) => Unsubscribe;
+  listenerCount: (event: keyof Events & string) => number;
+}
+
+// Guard builder: payload must be an object carrying every listed key
+export const hasKeys = (...keys: string[]): PayloadGuard => (payload) => {
+  if (!payload || typeof payload !== 'object') return false;
+  return keys.every((key) => key in (payload as Record<string, unknown>));
+};
+
+export function createTypedSocketClient<Events>(
+  label: string,
+  guards: PayloadGuards<Events> = {}
+): TypedSocketClient<Events> {
+  type EventName = keyof Events & string;
+
+  const handlers = new Map<EventName, Set<EventHandler<unknown>>>();
+  // One dispatcher per event is bound to the socket; it fans out to handlers
+  const dispatchers = new Map<EventName, (payload: unknown) => void>();
+  let socket: Socket | null = null;
+
+  const getDispatcher = (event: EventName) => {
+    let dispatcher = dispatchers.get(event);
+    if (!dispatcher) {
+      dispatcher = (payload: unknown) => {
+        const guard = guards[event];
+        if (guard && !guard(payload)) {
+          console.warn(`[${label}] Dropping malformed "${event}" payload:`, payload);
+          return;
+        }
+        // Copy so handlers that unsubscribe while dispatching don't skip others
+        [...(handlers.get(event) ?? [])].forEach((handler) => {
+          try {
+            handler(payload);
+          } catch (error) {
+            console.error(`[${label}] Handler for "${event}" threw:`, error);
+          }
+        });
+      };
+      dispatchers.set(event, dispatcher);
+    }
+    return dispatcher;
+  };
+
+  // Event maps never declare socket.io reserved events, so bind by plain name
+  const bind = (event: EventName) => {
+    socket?.on(event as string, getDispatcher(event));
+  };
+
+  const unbind = (event: EventName) => {
+    const dispatcher = dispatchers.get(event);
+    if (dispatcher) socket?.off(event as string, dispatcher);
+  };
+
+  const on = <K extends EventName>(event: K, handler: EventHandler<Events[K]>): Unsubscribe => {
+    // Wrap per subscription so subscribing one function twice yields two handles
+    const entry: EventHandler<unknown> = (payload) => handler(payload as Events[K]);
+    let set = handlers.get(event);
+    if (!set) {
+      set = new Set();
+      handlers.set(event, set);
+      bind(event);
+    }
+    set.add(entry);
+
+    return () => {
+      const current = handlers.get(event);
+      if (!current?.delete(entry)) return;
+      if (current.size === 0) {
+        handlers.delete(event);
+        unbind(event);
+      }
+    };
+  };
+
+  const once = <K extends EventName>(event: K, handler: EventHandler<Events[K]>): Unsubscribe => {
+    const unsubscribe = on(event, (payload) => {
+      unsubscribe();
+      handler(payload);
+    });
+    return unsubscribe;
+  };
+
+  const attach = (next: Socket) => {
+    if (socket === next) return;
+    detach();
+    socket = next;
+    handlers.forEach((_, event) => bind(event));
+  };
+
+  const detach = () => {
+    if (!socket) return;
+    handlers.forEach((_, event) => unbind(event));
+    socket = null;
+  };
+
+  const listenerCount = (event: EventName) => handlers.get(event)?.size ?? 0;
+
+  return { attach, detach, on, once, listenerCount };
+}
@@ -8,7 +8,8 @@ export enum Role {
   ADMINISTRATOR = "ADMINISTRATOR",
   TEACHER = "TEACHER",
   TUTOR = "TUTOR",
-  STUDENT = "STUDENT"
+  STUDENT = "STUDENT",
+  GUARDIAN = "GUARDIAN"
 }
 
 export enum Subject {
@@ -181,6 +182,11 @@ export interface Certificate {
   expiryDate?: string;
   url?: string;
   verified?: boolean;
+  // Admin review state; older certificates only carry `verified`
+  status?: CertificateStatus;
+  rejectionReason?: CertificateRejectionReason;
+  reviewNote?: string;
+  reviewedAt?: string;
 }
 
 // Work Experience
@@ -211,6 +217,17 @@ export interface AvailabilitySchedule {
   sunday?: DaySchedule[];
 }
 
+// One-off change to the weekly hours for a single date (tutor's timezone).
+// Empty slots = unavailable that day.
+export interface AvailabilityException {
+  date: string; // YYYY-MM-DD
+  slots: DaySchedule[];
+  note?: string;
+}
+
+// Resolved from live status plus schedule (see components/availability)
+export type TutorAvailabilityState = 'ONLINE' | 'SCHEDULED' | 'BUSY' | 'OFFLINE';
+
 // Teaching Style
 export type TeachingStyle = 'Interactive' | 'Lecture-based' | 'Project-based' | 'Discussion-based' | 'Hands-on' | 'Mixed';
 
@@ -240,6 +257,8 @@ export interface TutorProfile {
   areasOfExpertise?: string;
   teachingPhilosophy?: string;
   teachingStyle?: TeachingStyle;
+  // Levels the tutor teaches (directory filter)
+  academicLevels?: AcademicLevel[];
   certificates?: Certificate[];
   workExperience?: WorkExperience[];
   researchExperience?: string;
@@ -249,7 +268,10 @@ export interface TutorProfile {
   languages?: string[];
   isAvailable: boolean;
   isBusy: boolean;
+  // Live connection state; only present in directory listings and public profiles
+  isOnline?: boolean;
   availabilitySchedule?: AvailabilitySchedule;
+  availabilityExceptions?: AvailabilityException[];
   rating?: number;
   totalReviews: number;
   totalStudentsTaught: number;
@@ -456,6 +478,8 @@ export interface InvitationInfo {
   email: string;
   name: string;
   role: string;
+  // Guardian invitations name the student who sent them
+  studentName?: string;
 }
 
 export interface SendMessageForm {
@@ -1045,8 +1069,94 @@ export interface ConsentStatusResponse {
 
 // Whiteboard Data
 export interface WhiteboardData {
+  // Elements of the active page, kept for clients that predate pages
   elements: unknown[];
   appState?: unknown;
+  pages?: WhiteboardPage[];
+  activePageId?: string;
+  // Excalidraw binary files (images) shared by all pages, keyed by file id
+  files?: Record<string, unknown>;
+}
+
+// Named page on a session whiteboard
+export interface WhiteboardPageMeta {
+  id: string;
+  name: string;
+}
+
+export interface WhiteboardPage extends WhiteboardPageMeta {
+  elements: unknown[];
+  // Sync stamp per element id, so clients joining from saved state keep
+  // ordering their edits after the ones already on the board
+  clocks?: Record<string, Pick<WhiteboardElementChange, 'clock' | 'clientId'>>;
+}
+
+// Session Recording
+// The student must consent before the tutor can start a recording
+export type RecordingConsent = 'NOT_REQUESTED' | 'PENDING' | 'GRANTED' | 'DECLINED';
+
+// One recording per session; PROCESSING until Daily finishes the file
+export type RecordingStatus = 'IDLE' | 'RECORDING' | 'PROCESSING' | 'READY' | 'FAILED';
+
+export interface SessionRecordingState {
+  sessionId: string;
+  consent: RecordingConsent;
+  status: RecordingStatus;
+  startedAt?: string;
+}
+
+// Versioned whiteboard state, saved periodically during a session;
+// drives the history scrubber and recording playback
+export interface WhiteboardSnapshot {
+  id: string;
+  version: number;
+  capturedAt: string;
+  elements: unknown[];
+  appState?: unknown;
+  pageName?: string;
+  // Excalidraw binary files (images) the elements use, keyed by file id
+  files?: Record<string, unknown>;
+}
+
+// A file saved to the session summary (e.g. an exported whiteboard)
+export interface SessionAttachment {
+  id: string;
+  name: string;
+  url: string;
+  mimeType: string;
+  snapshotId?: string;
+  createdBy?: {
+    id: string;
+    name: string;
+  };
+  createdAt: string;
+}
+
+export interface SessionRecordingSummary {
+  sessionId: string;
+  topic: string;
+  subject: Subject;
+  status: RecordingStatus;
+  student: {
+    id: string;
+    name: string;
+    avatar?: string;
+  };
+  tutor?: {
+    id: string;
+    name: string;
+    avatar?: string;
+  };
+  startedAt: string;
+  durationSeconds?: number;
+}
+
+// Everything the playback page needs, timestamps in ISO format
+export interface SessionRecording extends SessionRecordingSummary {
+  recordingUrl?: string;
+  mediaType: 'video' | 'audio';
+  chatMessages: TutorStudentChatMessage[];
+  whiteboardSnapshots: WhiteboardSnapshot[];
 }
 
 // ============================================
@@ -1103,20 +1213,93 @@ export interface TutorStudentChatMessage {
   createdAt: string;
 }
 
+// Recording Consent Requested Event (Student receives)
+export interface RecordingConsentRequestedEvent {
+  sessionId: string;
+  tutorName: string;
+}
+
 // Whiteboard Update Event
+// Page list changes; element edits travel as WhiteboardDeltaEvent
 export interface WhiteboardUpdateEvent {
   sessionId: string;
+  // Page the elements belong to; the first page when absent
+  pageId?: string;
   elements: unknown[];
   appState?: unknown;
+  // Sent when pages are added, renamed or removed
+  pages?: WhiteboardPageMeta[];
+  // Images added since the sender's last update
+  files?: Record<string, unknown>;
   senderId: string;
 }
 
-// Whiteboard Cursor Event
+// One element write. Elements are last-writer-wins registers ordered by
+// (clock, clientId), so every participant converges on the same board
+export interface WhiteboardElementChange {
+  element: unknown;
+  clock: number;
+  clientId: string;
+}
+
+// Incremental whiteboard edits: only the elements that changed
+export interface WhiteboardDeltaEvent {
+  sessionId: string;
+  pageId: string;
+  clientId: string;
+  changes: WhiteboardElementChange[];
+  // Images added since the sender's last delta
+  files?: Record<string, unknown>;
+  senderId?: string;
+}
+
+// Whiteboard Cursor Event (scene coordinates)
 export interface WhiteboardCursorEvent {
   sessionId: string;
   userId: string;
   x: number;
   y: number;
+  pageId?: string;
+  name?: string;
+  role?: string;
+}
+
+// The tutor's view of the board, for students following along
+export interface WhiteboardViewportEvent {
+  sessionId: string;
+  userId?: string;
+  pageId: string;
+  centerX: number;
+  centerY: number;
+  zoom: number;
+}
+
+// Whiteboard Data Event (response to getWhiteboardData)
+export interface WhiteboardDataEvent {
+  sessionId?: string;
+  whiteboardData?: WhiteboardData | null;
+  whiteboardEnabled?: boolean;
+}
+
+// Chat History Event (response to getChatHistory)
+// Tutors receive the student's AI chat; students receive the tutor-student chat
+export interface TutorSessionChatHistoryEvent {
+  sessionId: string;
+  messages: TutorSessionChatMessage[] | TutorStudentChatMessage[];
+}
+
+// Join Session Acknowledgment
+export interface TutorSessionJoinEvent {
+  success?: boolean;
+  sessionId?: string;
+  role?: 'student' | 'tutor';
+  error?: string;
+}
+
+// Connected Event (server confirms the /tutor-session handshake)
+export interface TutorSessionConnectedEvent {
+  userId: string;
+  role: string;
 }
 
 // User Typing Event (Tutor Session)
@@ -1217,6 +1400,566 @@ export interface AvailableTutor {
   avatar?: string;
   status: string;
   currentSessionId?: string;
+  // Present when requested with includeScheduled
+  isOnline?: boolean;
+  isBusy?: boolean;
+  timezone?: string;
+  availabilitySchedule?: AvailabilitySchedule;
+  availabilityExceptions?: AvailabilityException[];
+}
+
+// Schedule info for tutors who could take a help request (student wait ETA)
+export interface TutorAvailabilitySummary {
+  tutorId: string;
+  name: string;
+  isOnline: boolean;
+  isAvailable: boolean;
+  isBusy: boolean;
+  timezone?: string;
+  availabilitySchedule?: AvailabilitySchedule;
+  availabilityExceptions?: AvailabilityException[];
+}
+
+// ============================================
+// Scheduled Session Booking Types
+// ============================================
+
+export type BookingStatus =
+  | 'PENDING' // waiting for the tutor to confirm
+  | 'CONFIRMED'
+  | 'DECLINED'
+  | 'CANCELLED'
+  | 'COMPLETED'
+  | 'NO_SHOW';
+
+export interface BookingParticipant {
+  id: string;
+  name: string;
+  avatar?: string;
+}
+
+// A proposed new time; the other party accepts or rejects it
+export interface BookingRescheduleRequest {
+  startAt: string;
+  endAt: string;
+  requestedBy: 'STUDENT' | 'TUTOR';
+  requestedAt: string;
+}
+
+export interface SessionBooking {
+  id: string;
+  studentId: string;
+  tutorId: string;
+  subject: Subject;
+  topic?: string;
+  notes?: string;
+  startAt: string;
+  endAt: string;
+  status: BookingStatus;
+  // Created by the server when the slot starts (Daily room attached)
+  tutorSessionId?: string;
+  // True once the student has rated the session
+  reviewed?: boolean;
+  // A recording of the session can be played back
+  hasRecording?: boolean;
+  student?: BookingParticipant;
+  tutor?: BookingParticipant;
+  rescheduleRequest?: BookingRescheduleRequest;
+  cancelledBy?: 'STUDENT' | 'TUTOR';
+  cancelReason?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateBookingRequest {
+  tutorId: string;
+  subject: Subject;
+  startAt: string;
+  durationMinutes: number;
+  topic?: string;
+  notes?: string;
+}
+
+// Tutor the student can book, shown in the picker
+export interface BookableTutor {
+  id: string;
+  name: string;
+  avatar?: string;
+  subjects?: Subject[];
+  hourlyRate?: number;
+  timezone?: string;
+}
+
+// A tutor's hours plus already-booked intervals for a date range
+export interface TutorBookingAvailability {
+  tutorId: string;
+  timezone: string;
+  availabilitySchedule: AvailabilitySchedule;
+  availabilityExceptions: AvailabilityException[];
+  busy: { startAt: string; endAt: string }[];
+}
+
+// Booking created, confirmed, declined, rescheduled or cancelled by the other party
+export interface BookingUpdatedEvent {
+  booking: SessionBooking;
+  action: 'CREATED' | 'CONFIRMED' | 'DECLINED' | 'RESCHEDULE_REQUESTED' | 'RESCHEDULED' | 'CANCELLED';
+}
+
+// Sent shortly before a confirmed booking starts, and again when its room is ready
+export interface BookingReminderEvent {
+  bookingId: string;
+  startAt: string;
+  minutesUntilStart: number;
+  withName: string;
+  subject: Subject;
+  tutorSessionId?: string;
+}
+
+// ============================================
+// Tutor Review Types
+// ============================================
+
+export type ReviewTag =
+  | 'CLEAR_EXPLANATIONS'
+  | 'PATIENT'
+  | 'KNOWLEDGEABLE'
+  | 'ENCOURAGING'
+  | 'WELL_PREPARED'
+  | 'ON_TIME'
+  | 'HARD_TO_FOLLOW'
+  | 'RUSHED'
+  | 'LATE'
+  | 'CONNECTION_ISSUES';
+
+// A student's rating of one tutor session or conversation
+export interface TutorReview {
+  id: string;
+  tutorId: string;
+  rating: number; // 1-5
+  tags: ReviewTag[];
+  comment?: string;
+  tutorSessionId?: string;
+  conversationId?: string;
+  subject?: Subject;
+  student?: {
+    id: string;
+    name: string;
+    avatar?: string;
+  };
+  // Set once the tutor reports it; hidden from the public list after an admin removes it
+  flagged?: boolean;
+  createdAt: string;
+}
+
+// Exactly one of tutorSessionId / conversationId
+export interface CreateReviewRequest {
+  tutorSessionId?: string;
+  conversationId?: string;
+  rating: number;
+  tags: ReviewTag[];
+  comment?: string;
+}
+
+export interface TutorReviewSummary {
+  rating: number | null;
+  totalReviews: number;
+  // Count of reviews per star, index 0 = 1 star
+  distribution: number[];
+  topTags: { tag: ReviewTag; count: number }[];
+}
+
+export type ReviewFlagStatus = 'OPEN' | 'REMOVED' | 'DISMISSED';
+
+// A tutor's report of an abusive review, resolved by an admin
+export interface ReviewFlag {
+  id: string;
+  review: TutorReview;
+  tutor: {
+    id: string;
+    name: string;
+  };
+  reason: string;
+  status: ReviewFlagStatus;
+  resolutionNote?: string;
+  resolvedAt?: string;
+  createdAt: string;
+}
+
+// ============================================
+// Certificate Verification Types
+// ============================================
+
+export type CertificateStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+export type CertificateRejectionReason =
+  | 'UNREADABLE'
+  | 'NAME_MISMATCH'
+  | 'UNVERIFIABLE_ISSUER'
+  | 'EXPIRED'
+  | 'NOT_RELEVANT'
+  | 'OTHER';
+
+// A tutor certificate as it appears in the admin verification queue
+export interface CertificateReviewItem {
+  certificate: Certificate & { id: string };
+  tutor: {
+    id: string;
+    name: string;
+    email?: string;
+    avatar?: string;
+    isVerified: boolean;
+  };
+  submittedAt: string;
+}
+
+export interface RejectCertificateRequest {
+  reason: CertificateRejectionReason;
+  note?: string;
+}
+
+// Sent to the tutor when an admin approves or rejects one of their certificates
+export interface CertificateReviewedEvent {
+  certificateId: string;
+  certificateName: string;
+  status: Exclude<CertificateStatus, 'PENDING'>;
+  reason?: CertificateRejectionReason;
+  note?: string;
+}
+
+// ============================================
+// Tutor Earnings & Payout Types
+// ============================================
+
+export type EarningsSource = 'TUTOR_SESSION' | 'CALL';
+
+export type EarningsPeriod = 'WEEK' | 'MONTH';
+
+export type EarningsDisputeStatus = 'OPEN' | 'RESOLVED';
+
+// A tutor's objection to a recorded duration; open disputes are held out of payouts
+export interface EarningsDispute {
+  id: string;
+  source: EarningsSource;
+  sourceId: string;
+  reason: string;
+  status: EarningsDisputeStatus;
+  // Set by an admin on resolution and used instead of the recorded duration
+  adjustedSeconds?: number | null;
+  resolutionNote?: string;
+  createdAt: string;
+  resolvedAt?: string;
+}
+
+// Admin dispute queue entry
+export interface EarningsDisputeReviewItem extends EarningsDispute {
+  tutor: { id: string; name: string; email?: string };
+  recordedSeconds: number;
+  startedAt: string;
+}
+
+export interface FlagEarningsDisputeRequest {
+  source: EarningsSource;
+  sourceId: string;
+  reason: string;
+}
+
+// Paid work in a date range; earnings are computed from these durations client-side
+export interface EarningsActivity {
+  hourlyRate: number;
+  currency: string;
+  // Completed sessions only
+  sessions: TutorSession[];
+  calls: CallLog[];
+  disputes: EarningsDispute[];
+}
+
+export type PayoutBatchStatus = 'PENDING_APPROVAL' | 'APPROVED' | 'REJECTED' | 'PAID';
+
+// One tutor's line in a payout batch
+export interface PayoutBatchItem {
+  tutorId: string;
+  tutorName: string;
+  tutorEmail?: string;
+  seconds: number;
+  amount: number;
+  // Sessions held back because of open disputes
+  disputedCount: number;
+  bankName?: string;
+  bankAccountLast4?: string;
+}
+
+export interface PayoutBatch {
+  id: string;
+  periodStart: string;
+  periodEnd: string;
+  status: PayoutBatchStatus;
+  currency: string;
+  totalAmount: number;
+  items: PayoutBatchItem[];
+  createdAt: string;
+  reviewedAt?: string;
+  reviewedBy?: { id: string; name: string };
+  reviewNote?: string;
+  paidAt?: string;
+}
+
+// The current tutor's share of a payout batch
+export interface TutorPayout {
+  batchId: string;
+  periodStart: string;
+  periodEnd: string;
+  status: PayoutBatchStatus;
+  currency: string;
+  seconds: number;
+  amount: number;
+  paidAt?: string;
+}
+
+// ============================================
+// Guardian Portal Types
+// ============================================
+
+// What a student lets a linked guardian see; everything is off until the student turns it on
+export interface GuardianSharing {
+  questions: boolean;
+  tutorSessions: boolean;
+  quizScores: boolean;
+  streaks: boolean;
+  weeklyDigest: boolean;
+}
+
+export type GuardianLinkStatus = 'INVITED' | 'ACTIVE' | 'REVOKED';
+
+// A guardian as the student sees them
+export interface GuardianLink {
+  id: string;
+  guardianName: string;
+  guardianEmail: string;
+  relationship?: string;
+  status: GuardianLinkStatus;
+  sharing: GuardianSharing;
+  invitedAt: string;
+  acceptedAt?: string;
+}
+
+export interface InviteGuardianRequest {
+  name: string;
+  email: string;
+  relationship?: string;
+  sharing: GuardianSharing;
+}
+
+// A linked student as the guardian sees them
+export interface GuardianStudent {
+  linkId: string;
+  studentId: string;
+  name: string;
+  avatar?: string;
+  grade?: string;
+  sharing: GuardianSharing;
+}
+
+export interface GuardianQuestionItem {
+  id: string;
+  title: string;
+  subject?: string | null;
+  createdAt: string;
+}
+
+export interface GuardianSessionItem {
+  id: string;
+  topic: string;
+  subject?: string | null;
+  tutorName: string;
+  startedAt: string;
+  // Seconds
+  duration: number;
+}
+
+// First attempt on a daily package quiz
+export interface GuardianQuizItem {
+  packageId: string;
+  subject: string;
+  packageDate: string;
+  score: number;
+  total: number;
+  completedAt: string;
+}
+
+export interface GuardianStreak {
+  current: number;
+  longest: number;
+  // yyyy-mm-dd days with activity in the reported range
+  activeDays: string[];
+}
+
+// Sections the student hasn't shared are omitted by the server
+export interface GuardianOverview {
+  student: GuardianStudent;
+  questions?: { total: number; thisWeek: number; recent: GuardianQuestionItem[] };
+  tutorSessions?: { total: number; recent: GuardianSessionItem[] };
+  quizScores?: { recent: GuardianQuizItem[] };
+  streak?: GuardianStreak;
+}
+
+// The weekly email, Monday to Monday in the student's timezone
+export interface GuardianWeeklyDigest {
+  student: Pick<GuardianStudent, 'studentId' | 'name' | 'grade'>;
+  weekStart: string;
+  weekEnd: string;
+  questions?: { total: number; bySubject: { subject: string; count: number }[] };
+  tutorSessions?: GuardianSessionItem[];
+  quizScores?: GuardianQuizItem[];
+  streak?: GuardianStreak;
+}
+
+// ============================================
+// Learning Goals Types
+// ============================================
+
+export type GoalMetric = 'QUESTIONS' | 'QUIZZES' | 'TUTOR_SESSIONS' | 'STUDY_MINUTES';
+
+export type GoalPeriod = 'DAILY' | 'WEEKLY';
+
+export interface LearningGoal {
+  id: string;
+  metric: GoalMetric;
+  target: number;
+  period: GoalPeriod;
+  // Only activity in this subject counts; null counts everything
+  subject: Subject | null;
+  createdAt: string;
+}
+
+export interface CreateLearningGoalRequest {
+  metric: GoalMetric;
+  target: number;
+  period: GoalPeriod;
+  subject?: Subject | null;
+}
+
+export type LearningActivityType = 'AI_QUESTION' | 'QUIZ' | 'TUTOR_SESSION';
+
+// One countable thing the student did, gathered from AI sessions,
+// daily package quizzes and tutor sessions
+export interface LearningActivity {
+  id: string;
+  type: LearningActivityType;
+  subject: Subject | null;
+  occurredAt: string;
+  // Time spent, 0 when unknown
+  minutes: number;
+}
+
+// ============================================
+// Mastery Types
+// ============================================
+
+export type MasterySignalSource = 'AI_SESSION' | 'TUTOR_SESSION' | 'QUIZ';
+
+// One piece of evidence about what a student knows. AI and tutor sessions carry
+// the keywords/topic from their help request or summary; quiz signals carry the
+// package keywords and how many of its questions were answered correctly.
+export interface MasterySignal {
+  source: MasterySignalSource;
+  sourceId: string;
+  subject: Subject;
+  topic: string | null;
+  keywords: string[];
+  // Quiz signals only
+  correct?: number;
+  total?: number;
+  occurredAt: string;
+}
+
+// ============================================
+// Class Analytics Types
+// ============================================
+// Aggregates only. Every bucket carries its distinct student count so groups
+// below the privacy threshold can be hidden before anything is shown.
+
+export type AnalyticsGranularity = 'DAY' | 'WEEK';
+
+export interface AnalyticsQuery {
+  from: string;
+  to: string;
+  granularity?: AnalyticsGranularity;
+}
+
+export interface TopicAskCount {
+  keyword: string;
+  subject: Subject | null;
+  questions: number;
+  students: number;
+}
+
+export interface SubjectAskCount {
+  subject: Subject;
+  questions: number;
+  students: number;
+}
+
+export interface AskTimelinePoint {
+  // Start of the day or week bucket
+  date: string;
+  questions: number;
+  students: number;
+}
+
+export interface PackageEngagement {
+  packageId: string;
+  packageDate: string;
+  subject: string;
+  // Students the package was released to
+  recipients: number;
+  opened: number;
+  downloaded: number;
+  // First attempts only
+  quizAttempted: number;
+  averagePercent: number | null;
+}
+
+export interface SectionAnalytics {
+  sectionId: string;
+  subject: string;
+  studentCount: number;
+  from: string;
+  to: string;
+  subjects: SubjectAskCount[];
+  topics: TopicAskCount[];
+  timeline: AskTimelinePoint[];
+  packages: PackageEngagement[];
+}
+
+export interface SchoolAnalyticsQuery extends AnalyticsQuery {
+  grade?: string;
+  sectionId?: string;
+}
+
+// One day or week of school-wide activity
+export interface SchoolAnalyticsPoint {
+  date: string;
+  activeStudents: number;
+  aiMessages: number;
+  tutorEscalations: number;
+  // Seconds from escalation until a tutor connected; null when nobody escalated
+  avgTutorWaitSeconds: number | null;
+  tutorSessions: number;
+  avgSessionSeconds: number | null;
+  packagesReleased: number;
+  // Released packages the student opened and finished the quiz for
+  packagesCompleted: number;
+}
+
+export interface SchoolAnalytics {
+  schoolId: string;
+  schoolName: string;
+  from: string;
+  to: string;
+  granularity: AnalyticsGranularity;
+  // Students matching the grade/section filter
+  studentCount: number;
+  points: SchoolAnalyticsPoint[];
 }
 
 // ============================================
@@ -1327,10 +2070,21 @@ export interface DailyPackageUpload {
   daily_packages?: DailyPackageItem[];
   uploadedByUser?: { id: string; name: string | null; role: string };
   _count?: { upload_images: number; extracted_questions: number };
+  // Generated content stays a draft until a teacher/administrator approves it
+  reviewStatus?: PackageReviewStatus;
+  approvedAt?: string | null;
+  approvedByUser?: { id: string; name: string | null } | null;
+  // Release schedule: the package is for packageDate and goes live at publishAt
+  // (immediately when null). publishedAt is set once it has actually been released.
+  packageDate?: string;
+  publishAt?: string | null;
+  publishedAt?: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+export type PackageReviewStatus = 'DRAFT' | 'APPROVED';
+
 // Individual daily_package record within an upload
 export interface DailyPackageItem {
   id: string;
@@ -1340,10 +2094,80 @@ export interface DailyPackageItem {
   summaryText: string | null;
   quizJson: QuizQuestion[] | null;
   status: DailyPackageStatus;
+  reviewStatus?: PackageReviewStatus;
 }
 
 export type DailyPackageStatus = 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED';
 
+// One answered question within a quiz attempt
+export interface QuizAttemptAnswer {
+  questionId: string;
+  // Position in the package's quizJson (attempts may be shuffled)
+  questionIndex: number;
+  selectedAnswer: number | null;
+  isCorrect: boolean;
+  timeMs: number;
+}
+
+// Recorded self-assessment attempt on a daily package quiz
+export interface QuizAttempt {
+  id: string;
+  packageId: string;
+  attemptNumber: number;
+  score: number;
+  total: number;
+  durationMs: number;
+  answers: QuizAttemptAnswer[];
+  createdAt: string;
+  // Present on history listings
+  package?: {
+    id: string;
+    subject: string;
+    packageDate: string;
+    quizJson: QuizQuestion[] | null;
+    class_sections: { id: string; name: string; grade: string | null };
+  };
+}
+
+export interface SubmitQuizAttemptRequest {
+  answers: QuizAttemptAnswer[];
+  durationMs: number;
+  startedAt: string;
+}
+
+// Per-question aggregate for teachers
+export interface QuizQuestionResult {
+  questionId: string;
+  questionIndex: number;
+  question: string;
+  attempts: number;
+  correctRate: number; // 0-1
+  avgTimeMs: number;
+  // Count of students choosing each option (null = skipped)
+  optionCounts: number[];
+  skipped: number;
+}
+
+// Section-level aggregate for one daily package (first attempts only)
+export interface PackageQuizResults {
+  packageId: string;
+  sectionId: string;
+  studentCount: number;
+  attemptedCount: number;
+  averageScore: number;
+  averagePercent: number; // 0-100
+  medianDurationMs: number;
+  scoreDistribution: { score: number; count: number }[];
+  questions: QuizQuestionResult[];
+}
+
+// Draft edits saved before approval. Questions missing from the list are deleted;
+// rankPosition follows list order within each rank.
+export interface UpdatePackageDraftRequest {
+  extractedQuestions: Array<Pick<ExtractedQuestion, 'id' | 'questionText' | 'shortAnswer' | 'rankType' | 'rankPosition'>>;
+  packages: Array<{ id: string; quizJson: QuizQuestion[] | null; summaryText: string | null }>;
+}
+
 // Upload detail (includes extracted questions and images)
 export interface DailyPackageUploadDetail extends DailyPackageUpload {
   upload_images: UploadImage[];
@@ -1389,6 +2213,7 @@ export interface StudentDailyPackage {
   teachers: {
     users: { name: string | null };
   };
+  reviewStatus?: PackageReviewStatus;
 }
 
 // Student Package (weekly) - flat array
@@ -1398,6 +2223,47 @@ export interface StudentWeeklyPackage {
   packages: StudentDailyPackage[];
 }
 
+// Optional release schedule sent with an upload or set later
+export interface PackageSchedule {
+  packageDate?: string; // YYYY-MM-DD, defaults to today
+  publishAt?: string | null; // ISO datetime, null = publish when ready
+}
+
+// Recurring reminder for a teacher's section/subject when nothing has been uploaded
+export interface UploadReminder {
+  id: string;
+  sectionId: string;
+  subject: string;
+  remindAt: string; // HH:mm in the school's local time
+  weekdays: number[]; // 0 = Sunday ... 6 = Saturday
+  enabled: boolean;
+  lastSentAt: string | null;
+  class_sections?: { id: string; name: string; grade: string | null };
+  createdAt: string;
+}
+
+export interface CreateUploadReminderRequest {
+  sectionId: string;
+  subject: string;
+  remindAt: string;
+  weekdays: number[];
+}
+
+export interface UpdateUploadReminderRequest {
+  remindAt?: string;
+  weekdays?: number[];
+  enabled?: boolean;
+}
+
+// Socket event when a reminder fires (no upload yet for that section/subject today)
+export interface UploadReminderEvent {
+  reminderId: string;
+  sectionId: string;
+  subject: string;
+  sectionName: string;
+  message: string;
+}
+
 // ============================================
 // Student Projects Types
 // ============================================
@@ -1471,6 +2337,16 @@ export interface ProjectCouncilSynthesisStartEvent {
   projectId: string;
 }
 
+export interface ProjectResourceAddedEvent {
+  projectId: string;
+  resource: ProjectResourceResponse;
+}
+
+export interface ProjectResourceDeletedEvent {
+  projectId: string;
+  resourceId: string;
+}
+
 export interface ProjectMessageResponse {
   id: string;
   sessionId: string;
@@ -1482,6 +2358,8 @@ export interface ProjectMessageResponse {
   hasError: boolean;
   errorMessage: string | null;
   feedback: 'GOOD' | 'BAD' | null;
+  // Set on assistant messages produced by quiz generation
+  isQuiz?: boolean;
   createdAt: string;
 }
 
@@ -1499,6 +2377,7 @@ export interface ProjectStreamChunk {
     promptTokens: number;
     completionTokens: number;
   };
+  streamId?: string;
 }
 
 export interface CreateProjectRequest {
@@ -1544,3 +2423,62 @@ export interface SessionResourceResponse {
   createdAt: string;
 }
 
+
+// ============================================
+// Flashcards (Spaced Repetition)
+// ============================================
+
+export type FlashcardSource = 'DAILY_PACKAGE' | 'PROJECT_QUIZ' | 'CHAT_MESSAGE' | 'MANUAL';
+
+// SM-2 recall grade: 0-2 = forgot, 3 = hard, 4 = good, 5 = easy
+export type FlashcardGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+// Scheduling state carried by every card
+export interface FlashcardSchedule {
+  easeFactor: number;
+  interval: number; // days
+  repetitions: number;
+  dueAt: string;
+}
+
+export interface Flashcard extends FlashcardSchedule {
+  id: string;
+  front: string;
+  back: string;
+  source: FlashcardSource;
+  // Origin of the card, e.g. "<packageId>:<questionId>" or a message id
+  sourceId: string | null;
+  sourceLabel: string | null;
+  subject: string | null;
+  lastReviewedAt: string | null;
+  reviewCount: number;
+  lapseCount: number;
+  createdAt: string;
+}
+
+export interface FlashcardReview {
+  id: string;
+  cardId: string;
+  grade: FlashcardGrade;
+  reviewedAt: string;
+  durationMs: number | null;
+  intervalBefore: number;
+  intervalAfter: number;
+  easeFactorAfter: number;
+}
+
+export interface CreateFlashcardRequest {
+  front: string;
+  back: string;
+  source: FlashcardSource;
+  sourceId?: string;
+  sourceLabel?: string;
+  subject?: string;
+}
+
+export interface FlashcardStats {
+  total: number;
+  dueToday: number;
+  reviewedToday: number;
+  newCards: number;
+}